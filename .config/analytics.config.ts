@@ -43,6 +43,9 @@ export default defineConfig({
     trackDeviceType: true,
     trackHashChanges: false,
     trackOutboundLinks: true,
+    maxJourneySteps: 50,
+    maxEventProperties: 20,
+    maxEventPropertyLength: 200,
   },
 
   // API Settings
@@ -58,4 +61,44 @@ export default defineConfig({
     dailyEnabled: true,
     monthlyEnabled: true,
   },
+
+  ingest: {
+    backfillWindowDays: 30,
+    maxFutureSkewSeconds: 300,
+    maxEventsPerRequest: 100,
+  },
+
+  sitePolicy: {
+    defaultMode: 'open',
+    foreignHostnames: 'reject',
+  },
+
+  sessions: {
+    inactivityTimeoutMinutes: 30,
+    splitAtMidnight: false,
+    splitOnCampaignChange: true,
+    splitOnReferrerChange: true,
+    engagementThresholdSeconds: 10,
+  },
+
+  referrers: {
+    blockSpam: true,
+    spamDomains: [],
+    excludeSelfReferrals: true,
+  },
+
+  ecommerce: {
+    defaultCurrency: 'USD',
+    exchangeRates: { USD: 1 },
+  },
+
+  rateLimit: {
+    enabled: true,
+    store: 'memory',
+    siteRatePerSecond: 200,
+    siteBurst: 1000,
+    ipRatePerSecond: 10,
+    ipBurst: 50,
+    siteCreationsPerHour: 5,
+  },
 })
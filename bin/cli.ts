@@ -10,8 +10,17 @@
  *   analytics docker-compose  - Generate docker-compose.yml
  *   analytics seed            - Generate seed data
  *   analytics tracking-script - Generate tracking script
+ *   analytics import          - Import history from another analytics tool
+ *   analytics dlq             - Inspect, replay or purge the SQS dead-letter queue
+ *   analytics aggregate       - Write rollups of closed periods, or backfill a range
+ *   analytics retention       - Apply retention settings to stored items
+ *   analytics migrate         - Apply data migrations to stored items
+ *   analytics rehydrate       - Load an archived day of raw events back into the store
+ *   analytics serve           - Run the API and dashboard (with --sqlite, without AWS)
  */
 
+import { readdirSync, readFileSync, statSync } from 'node:fs'
+import { basename, join } from 'node:path'
 import {
   defineConfig,
   generateAwsCliCommand,
@@ -19,7 +28,14 @@ import {
   generateLocalCreateTableInput,
   generateSeedData,
   generateTrackingScript,
+  getConfig,
   printLocalSetupInstructions,
+  setConfig,
+  IMPORT_SOURCES,
+  type AggregationPeriod,
+  type ArchivedEntity,
+  type ImportFile,
+  type ImportSource,
 } from '../src'
 
 const args = process.argv.slice(2)
@@ -38,18 +54,42 @@ Commands:
   docker-compose      Generate docker-compose.yml for local development
   seed [options]      Generate seed data for testing
   tracking-script     Generate tracking script for a site
+  import [options]    Import history from Plausible, Umami, Fathom or GA4 exports
+  dlq <action>        Dead-letter queue: list, preview <message-id>, replay or purge
+  aggregate [options] Write rollups of closed periods, or backfill a range
+  retention [options] Delete expired items and rewrite TTLs after retention changes
+  migrate [options]   Apply pending data migrations, resuming interrupted ones
+  rehydrate <date>    Load a site's archived day of raw events back for reprocessing
+  serve [options]     Run the API and dashboard server
   help                Show this help message
 
 Options:
   --table-name <name>    Table name (default: AnalyticsTable)
   --region <region>      AWS region (default: us-east-1)
-  --port <port>          DynamoDB Local port (default: 8000)
-  --site-id <id>         Site ID for tracking script
+  --port <port>          DynamoDB Local port (default: 8000), or server port for serve (default: 3000)
+  --sqlite <file>        Store data in a SQLite database file instead of DynamoDB (serve, import, aggregate, retention, migrate, rehydrate)
+  --site-id <id>         Site ID for tracking script, import, aggregate, retention or rehydrate (default for aggregate and retention: every site)
   --api-endpoint <url>   API endpoint for tracking script
   --sites <n>            Number of sites to seed (default: 1)
   --page-views <n>       Page views per site (default: 100)
   --sessions <n>         Sessions per site (default: 50)
   --days <n>             Days of history (default: 7)
+  --source <tool>        Import source: plausible, umami, fathom or ga4
+  --file <path>          Export file or directory to import (repeatable)
+  --dry-run              Show what an import, retention purge, migration or rehydrate would write without writing
+  --message-id <id>      Dead-letter message to replay or purge (repeatable)
+  --reason <reason>      Replay or purge the messages that failed for a reason
+  --all                  Replay or purge every dead-letter message
+  --rewrite              Fix schema problems of replayed messages
+  --period <period>      Aggregate one period: hour, day or month (default: every enabled one)
+  --from <date>          Backfill the closed periods from this date
+  --to <date>            End of the backfill (default: now)
+  --status               List the data migrations and their checkpoints
+  --rollback <version>   Undo a data migration
+  --entity <type>        Rehydrate one entity type: pageviews, events or errors (repeatable)
+  --ttl-days <n>         Days rehydrated items are kept (default: kept until removed)
+
+Dead-letter commands read the queue URLs from SQS_DLQ_URL and SQS_QUEUE_URL.
 
 Examples:
   analytics setup
@@ -57,6 +97,13 @@ Examples:
   analytics docker-compose --port 8001
   analytics seed --sites 3 --page-views 500
   analytics tracking-script --site-id site_001 --api-endpoint https://api.example.com
+  analytics import --site-id site_001 --source plausible --file ./plausible-export --dry-run
+  analytics dlq replay --reason invalid_event:unknown_type --rewrite
+  analytics aggregate --site-id site_001 --from 2024-01-01 --to 2024-03-31
+  analytics retention --site-id site_001 --dry-run
+  analytics migrate --dry-run
+  analytics rehydrate 2024-01-15 --site-id site_001 --ttl-days 7
+  analytics serve --sqlite ./analytics.db
 `)
 }
 
@@ -67,12 +114,33 @@ function getArg(name: string, defaultValue?: string): string | undefined {
   return args[index + 1] || defaultValue
 }
 
+function getArgs(name: string): string[] {
+  return args.flatMap((arg, index) => (arg === `--${name}` && args[index + 1] ? [args[index + 1]] : []))
+}
+
+function readImportFiles(paths: string[]): ImportFile[] {
+  return paths.flatMap((path) => {
+    if (statSync(path).isDirectory()) {
+      return readdirSync(path)
+        .filter(name => /\.(?:csv|json)$/i.test(name))
+        .sort()
+        .map(name => ({ name, content: readFileSync(join(path, name), 'utf8') }))
+    }
+    return [{ name: basename(path), content: readFileSync(path, 'utf8') }]
+  })
+}
+
 function getNumericArg(name: string, defaultValue: number): number {
   const value = getArg(name)
   return value ? Number.parseInt(value, 10) : defaultValue
 }
 
 async function main(): Promise<void> {
+  const sqlitePath = getArg('sqlite')
+  if (sqlitePath) {
+    setConfig({ ...getConfig(), storage: { backend: 'sqlite', sqlitePath } })
+  }
+
   switch (command) {
     case 'setup':
       printLocalSetupInstructions()
@@ -148,6 +216,231 @@ async function main(): Promise<void> {
       break
     }
 
+    case 'import': {
+      const siteId = getArg('site-id')
+      const source = getArg('source') as ImportSource | undefined
+      const paths = getArgs('file')
+
+      if (!siteId || !source || !IMPORT_SOURCES.includes(source) || paths.length === 0) {
+        console.error('Error: --site-id, --source and --file are required')
+        console.error(`Usage: analytics import --site-id <id> --source <${IMPORT_SOURCES.join('|')}> --file <path> [--dry-run]`)
+        process.exit(1)
+      }
+
+      // Loaded here so the other commands don't need a DynamoDB client
+      const { runImport } = await import('../src/lib/importers')
+      const result = await runImport({
+        siteId,
+        source,
+        files: readImportFiles(paths),
+        dryRun: args.includes('--dry-run'),
+      })
+
+      for (const error of result.errors) {
+        console.error(`Skipped ${error}`)
+      }
+      for (const day of result.days) {
+        console.log(`  ${day.date}  ${day.status.padEnd(10)}  ${day.pageViews} page views, ${day.visitors} visitors, ${day.records} records${day.error ? `  (${day.error})` : ''}`)
+      }
+      console.log('')
+      console.log(result.dryRun
+        ? `Dry run: ${result.imported} days would be imported, ${result.skipped} skipped`
+        : `Imported ${result.imported} days, skipped ${result.skipped}, failed ${result.failed}`)
+
+      if (result.failed > 0 || (result.errors.length > 0 && result.days.length === 0)) {
+        process.exit(1)
+      }
+      break
+    }
+
+    case 'dlq': {
+      const action = args[1]
+      const { getDeadLetterQueue } = await import('../src/lib/dead-letters')
+      const queue = await getDeadLetterQueue()
+      if (!queue) {
+        console.error('Error: SQS_DLQ_URL and SQS_QUEUE_URL are required')
+        process.exit(1)
+      }
+
+      if (action === 'list') {
+        const groups = await queue.groups()
+        for (const group of groups) {
+          console.log(`  ${String(group.count).padStart(6)}  ${group.reason}${group.sample !== group.reason ? `  (${group.sample})` : ''}`)
+        }
+        console.log('')
+        console.log(`${groups.reduce((sum, group) => sum + group.count, 0)} messages in ${groups.length} groups`)
+        break
+      }
+
+      if (action === 'preview') {
+        const preview = args[2] ? await queue.preview(args[2]) : null
+        if (!preview) {
+          console.error(args[2] ? `Message not found: ${args[2]}` : 'Usage: analytics dlq preview <message-id>')
+          process.exit(1)
+        }
+        console.log(`Reason: ${preview.message.reason}${preview.message.error ? ` (${preview.message.error})` : ''}`)
+        console.log(JSON.stringify(preview.events.length > 0 ? preview.events : preview.message.body, null, 2))
+        if (preview.rewrite.changes.length > 0) {
+          console.log(`--rewrite would apply: ${preview.rewrite.changes.join('; ')}`)
+        }
+        break
+      }
+
+      if (action === 'replay' || action === 'purge') {
+        const selection = {
+          messageIds: getArgs('message-id'),
+          reason: getArg('reason'),
+          all: args.includes('--all'),
+        }
+        if (selection.messageIds.length === 0 && !selection.reason && !selection.all) {
+          console.error(`Usage: analytics dlq ${action} (--message-id <id> | --reason <reason> | --all)${action === 'replay' ? ' [--rewrite]' : ''}`)
+          process.exit(1)
+        }
+
+        if (action === 'replay') {
+          const result = await queue.replay(selection, { rewrite: args.includes('--rewrite') })
+          for (const entry of result.rewritten) console.log(`  rewrote ${entry.messageId}: ${entry.changes.join('; ')}`)
+          for (const entry of result.skipped) console.log(`  skipped ${entry.messageId}: ${entry.reason}`)
+          for (const entry of result.failed) console.error(`  failed ${entry.messageId}: ${entry.error}`)
+          console.log(`Replayed ${result.replayed.length}, skipped ${result.skipped.length}, failed ${result.failed.length}`)
+          if (result.failed.length > 0) process.exit(1)
+        }
+        else {
+          const result = await queue.purge(selection)
+          for (const entry of result.failed) console.error(`  failed ${entry.messageId}: ${entry.error}`)
+          console.log(`Purged ${result.purged.length}, failed ${result.failed.length}`)
+          if (result.failed.length > 0) process.exit(1)
+        }
+        break
+      }
+
+      console.error('Usage: analytics dlq <list|preview|replay|purge>')
+      process.exit(1)
+    }
+
+    case 'aggregate': {
+      const period = getArg('period') as AggregationPeriod | undefined
+      const from = getArg('from')
+      if (period && !['hour', 'day', 'month'].includes(period)) {
+        console.error('Usage: analytics aggregate [--site-id <id>] [--period <hour|day|month>] [--from <date> [--to <date>]]')
+        process.exit(1)
+      }
+
+      // Loaded here so the other commands don't need a DynamoDB client
+      const { createAggregationRunner, listSiteIds } = await import('../src/lib/aggregation')
+      const runner = createAggregationRunner()
+      const siteId = getArg('site-id')
+      const siteIds = siteId ? [siteId] : await listSiteIds()
+      const periods = period ? [period] : undefined
+
+      const result = from
+        ? await runner.backfill(siteIds, new Date(from), new Date(getArg('to') || Date.now()), periods)
+        : await runner.run(siteIds, periods)
+
+      for (const window of result.windows) {
+        console.log(`  ${window.siteId}  ${window.period.padEnd(5)}  ${window.periodStart.padEnd(24)}  ${window.reason.padEnd(9)}  ${window.status.padEnd(10)}  ${window.pageViews} page views, ${window.sessions} sessions, ${window.records} records${window.error ? `  (${window.error})` : ''}`)
+      }
+      console.log('')
+      console.log(`Aggregated ${result.aggregated} periods, skipped ${result.skipped}, failed ${result.failed}`)
+
+      if (result.failed > 0) {
+        process.exit(1)
+      }
+      break
+    }
+
+    case 'retention': {
+      // Loaded here so the other commands don't need a DynamoDB client
+      const { listSiteIds } = await import('../src/lib/aggregation')
+      const { createRetentionPurgeJob, getRetentionSettings } = await import('../src/lib/retention')
+      const job = createRetentionPurgeJob({ dryRun: args.includes('--dry-run') })
+      const siteId = getArg('site-id')
+      const siteIds = siteId ? [siteId] : await listSiteIds()
+
+      for (const id of siteIds) {
+        const report = await job.purge(id, await getRetentionSettings(id))
+        console.log(`${id}${report.dryRun ? ' (dry run)' : ''}`)
+        for (const entity of report.entities) {
+          if (entity.scanned === 0) continue
+          console.log(`  ${entity.entity.padEnd(11)}  ${(entity.retentionDays === null ? 'kept' : `${entity.retentionDays} days`).padEnd(9)}  ${entity.deleted} deleted, ${entity.rewritten} TTLs rewritten of ${entity.scanned}`)
+        }
+        console.log(`  Deleted ${report.deleted}, rewrote ${report.rewritten} of ${report.scanned} items`)
+      }
+      break
+    }
+
+    case 'migrate': {
+      // Loaded here so the other commands don't need a DynamoDB client
+      const { createDataMigrationRunner } = await import('../src/lib/migrations')
+      const runner = createDataMigrationRunner({
+        dryRun: args.includes('--dry-run'),
+        onProgress: progress => console.log(`  ${progress.version} ${progress.name} (${progress.direction}): ${progress.scanned} scanned, ${progress.updated} updated, ${progress.moved} moved${progress.hasMore ? '...' : ''}`),
+      })
+
+      if (args.includes('--status')) {
+        for (const { migration, checkpoint } of await runner.getStatus()) {
+          console.log(`  ${String(migration.version).padStart(4)}  ${migration.name.padEnd(26)}  ${(checkpoint ? `${checkpoint.status} (${checkpoint.direction})` : 'pending').padEnd(19)}  ${migration.description}`)
+        }
+        break
+      }
+
+      const rollback = getArg('rollback')
+      const results = rollback ? [await runner.rollback(Number.parseInt(rollback, 10))] : (await runner.run()).migrations
+
+      for (const result of results) {
+        console.log(`${result.version} ${result.name}: ${result.status}${result.resumed ? ' (resumed)' : ''}${result.dryRun ? ' (dry run)' : ''}, ${result.updated} updated and ${result.moved} moved of ${result.scanned} items${result.error ? `  (${result.error})` : ''}`)
+      }
+      if (results.length === 0) {
+        console.log('No pending data migrations')
+      }
+
+      if (results.some(result => result.status === 'failed')) {
+        process.exit(1)
+      }
+      break
+    }
+
+    case 'rehydrate': {
+      const date = args[1]
+      const siteId = getArg('site-id')
+      if (!siteId || !date || !/^\d{4}-\d{2}-\d{2}$/.test(date)) {
+        console.error('Usage: analytics rehydrate <YYYY-MM-DD> --site-id <id> [--entity <type>] [--ttl-days <n>] [--dry-run]')
+        process.exit(1)
+      }
+
+      // Loaded here so the other commands don't need a DynamoDB client
+      const { getRepository } = await import('../src/lib/repository')
+      const { createRawEventArchiver } = await import('../src/lib/archive')
+      const ttlDays = getArg('ttl-days')
+      const entities = getArgs('entity') as ArchivedEntity[]
+
+      const report = await createRawEventArchiver().rehydrate(getRepository(), siteId, date, {
+        entities: entities.length > 0 ? entities : undefined,
+        ttl: ttlDays ? Math.floor(Date.now() / 1000) + Number.parseInt(ttlDays, 10) * 24 * 60 * 60 : undefined,
+        dryRun: args.includes('--dry-run'),
+      })
+
+      console.log(`${siteId} ${date}${report.dryRun ? ' (dry run)' : ''}: ${report.items} items from ${report.files} files${report.failed ? `, ${report.failed} not written` : ''}`)
+      if (report.failed > 0) {
+        process.exit(1)
+      }
+      break
+    }
+
+    case 'serve': {
+      // Loaded here so the routes pick up the storage config
+      const { default: api } = await import('../deploy/lambda-handler')
+      const server = Bun.serve({
+        port: getNumericArg('port', 3000),
+        fetch: request => api.fetch(request),
+      })
+
+      const storage = getConfig().storage
+      console.log(`Analytics server running at http://localhost:${server.port}`)
+      console.log(`Storage: ${storage.backend === 'sqlite' ? `SQLite (${storage.sqlitePath})` : storage.backend}`)
+      break
+    }
+
     case 'help':
     case '--help':
     case '-h':
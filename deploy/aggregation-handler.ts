@@ -0,0 +1,47 @@
+/**
+ * Aggregation Lambda Handler
+ *
+ * Writes the rollups of closed periods, triggered by the hourly, daily and
+ * monthly schedules of the SAM and CDK templates.
+ *
+ * Architecture:
+ * [EventBridge Schedule] -> [This Lambda] -> [Raw events] -> [Rollups]
+ *
+ * Event:
+ * - `period`: the period to aggregate (default: every enabled one)
+ * - `siteId`: a single site (default: every site)
+ * - `start` / `end`: backfill this range instead of running from the watermarks
+ */
+
+import type { AggregationPeriod, AggregationRunResult } from '../src/index'
+import { createAggregationRunner, listSiteIds } from '../src/lib/aggregation'
+
+interface AggregationEvent {
+  period?: AggregationPeriod
+  siteId?: string
+  start?: string
+  end?: string
+}
+
+// ============================================================================
+// Main Handler
+// ============================================================================
+
+/**
+ * Lambda handler for scheduled aggregation and backfills
+ */
+export async function handler(event: AggregationEvent = {}): Promise<AggregationRunResult> {
+  const runner = createAggregationRunner()
+  const siteIds = event.siteId ? [event.siteId] : await listSiteIds()
+  const periods = event.period ? [event.period] : undefined
+
+  const result = event.start
+    ? await runner.backfill(siteIds, new Date(event.start), new Date(event.end || Date.now()), periods)
+    : await runner.run(siteIds, periods)
+
+  console.log(`[Aggregation] ${siteIds.length} sites. Aggregated: ${result.aggregated}, Skipped: ${result.skipped}, Failed: ${result.failed}`)
+
+  return result
+}
+
+export { handler as aggregationHandler }
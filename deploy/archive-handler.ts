@@ -0,0 +1,57 @@
+/**
+ * Archive Lambda Handler
+ *
+ * Archives raw pageviews, events and errors as they are written, so they outlive
+ * their TTL. Triggered by the table's stream (new images) in the SAM and CDK
+ * templates when archiving is enabled.
+ *
+ * Architecture:
+ * [DynamoDB Stream] -> [This Lambda] -> [Parquet / NDJSON files per site and day]
+ *
+ * A failed batch is retried whole, so its files may be written twice; re-hydrating
+ * a day writes the same items either way.
+ */
+
+import type { ArchiveFile } from '../src/index'
+import { unmarshall } from '../src/models/orm'
+import { createRawEventArchiver } from '../src/lib/archive'
+
+// DynamoDB Stream event types (inline to avoid aws-lambda dependency)
+interface DynamoDBStreamEvent {
+  Records: DynamoDBStreamRecord[]
+}
+
+interface DynamoDBStreamRecord {
+  eventID: string
+  eventName: 'INSERT' | 'MODIFY' | 'REMOVE'
+  dynamodb: {
+    Keys?: Record<string, unknown>
+    NewImage?: Record<string, unknown>
+    OldImage?: Record<string, unknown>
+    SequenceNumber?: string
+  }
+}
+
+// ============================================================================
+// Main Handler
+// ============================================================================
+
+/**
+ * Lambda handler for table stream batches
+ */
+export async function handler(event: DynamoDBStreamEvent): Promise<ArchiveFile[]> {
+  const archiver = createRawEventArchiver()
+
+  // Raw items are only ever inserted; later changes (TTL rewrites) aren't archived again
+  const items = event.Records
+    .filter(record => record.eventName === 'INSERT' && record.dynamodb.NewImage)
+    .map(record => unmarshall(record.dynamodb.NewImage!))
+
+  const archived = archiver.add(items)
+  const files = await archiver.flush()
+
+  console.log(`[Archive] Archived ${archived} of ${event.Records.length} records in ${files.length} files`)
+  return files
+}
+
+export { handler as archiveHandler }
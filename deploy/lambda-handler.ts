@@ -7,6 +7,8 @@
  * All handlers are organized in the handlers/ directory.
  */
 
+import { flushCounters } from '../src/lib/counters'
+import { flushOpsMetrics } from '../src/lib/ops-metrics'
 import { router } from '../src/router'
 
 /**
@@ -84,5 +86,10 @@ export default {
         },
       )
     }
+    finally {
+      // Nothing may stay pending once the invocation returns and the environment is frozen
+      await flushCounters()
+      await flushOpsMetrics()
+    }
   },
 }
@@ -0,0 +1,45 @@
+/**
+ * Retention Lambda Handler
+ *
+ * Applies each site's retention settings to its stored items, triggered daily
+ * by the SAM and CDK templates.
+ *
+ * Architecture:
+ * [EventBridge Schedule] -> [This Lambda] -> [Expired items deleted, TTLs rewritten]
+ *
+ * Event:
+ * - `siteId`: a single site (default: every site)
+ * - `dryRun`: report what would change without writing
+ */
+
+import type { RetentionPurgeReport } from '../src/index'
+import { listSiteIds } from '../src/lib/aggregation'
+import { createRetentionPurgeJob, getRetentionSettings } from '../src/lib/retention'
+
+interface RetentionEvent {
+  siteId?: string
+  dryRun?: boolean
+}
+
+// ============================================================================
+// Main Handler
+// ============================================================================
+
+/**
+ * Lambda handler for scheduled retention purges
+ */
+export async function handler(event: RetentionEvent = {}): Promise<RetentionPurgeReport[]> {
+  const job = createRetentionPurgeJob({ dryRun: event.dryRun })
+  const siteIds = event.siteId ? [event.siteId] : await listSiteIds()
+  const reports: RetentionPurgeReport[] = []
+
+  for (const siteId of siteIds) {
+    const report = await job.purge(siteId, await getRetentionSettings(siteId))
+    reports.push(report)
+    console.log(`[Retention] ${siteId}: deleted ${report.deleted}, rewrote ${report.rewritten} of ${report.scanned} items${report.dryRun ? ' (dry run)' : ''}`)
+  }
+
+  return reports
+}
+
+export { handler as retentionHandler }
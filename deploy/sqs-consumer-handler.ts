@@ -9,6 +9,7 @@
  *
  * Benefits:
  * - Batch writes (25 items per batch) reduce write costs
+ * - Realtime counter updates coalesced per item (flushed before each invocation returns)
  * - Automatic retry with exponential backoff
  * - Dead letter queue for failed messages
  * - Handles traffic spikes gracefully
@@ -19,8 +20,31 @@
 import {
   configureAnalytics,
   createClient,
+  unmarshall,
 } from '../src/models/orm'
-import type { AnalyticsEvent, SQSMessage } from '../src/sqs-buffering'
+import { getLatePeriods } from '../src/aggregation-runner'
+import { AnalyticsStore } from '../src/Analytics'
+import { getConfig } from '../src/config'
+import { getRetentionTtl, normalizeRetentionSettings, type RetentionSettings } from '../src/retention'
+import {
+  CounterCoalescer,
+  getRealtimeCounter,
+  type AnalyticsEvent,
+  type CounterDelta,
+  type CounterKey,
+  type RealtimeUpdate,
+  type SQSMessage,
+} from '../src/sqs-buffering'
+import { getTrafficSource, ORDER_ACTIONS, type EcommerceAction, type EcommerceItem } from '../src/utils/ecommerce'
+import { getEngagementRollupKey, getSessionDuration, isBounceSession } from '../src/utils/engagement'
+import {
+  deriveSessionId,
+  getSessionBoundary,
+  getSessionHeadKey,
+  isSessionBoundaryType,
+  SESSION_HEAD_TTL_SECONDS,
+  type SessionBoundaryState,
+} from '../src/utils/session-boundaries'
 
 // SQS Event types (inline to avoid aws-lambda dependency)
 interface SQSEvent {
@@ -74,6 +98,17 @@ configureAnalytics({
 })
 
 const dynamodb = createClient({ region: AWS_REGION })
+const store = new AnalyticsStore({ tableName: TABLE_NAME })
+
+// Counter updates of hot items are merged across the records of an invocation
+const counters = new CounterCoalescer({
+  ...getConfig().scale.writeCoalescing,
+  onWrite: writeCounters,
+})
+
+process.once('SIGTERM', () => {
+  flushCounters().finally(() => process.exit(0))
+})
 
 // ============================================================================
 // Types
@@ -85,6 +120,7 @@ interface AttributeValue {
   BOOL?: boolean
   L?: AttributeValue[]
   M?: Record<string, AttributeValue>
+  SS?: string[]
   NULL?: boolean
 }
 
@@ -117,6 +153,7 @@ export async function handler(
     }
     catch (error) {
       console.error(`[SQS Consumer] Failed to process message ${record.messageId}:`, error)
+      await recordFailure(record, error)
       // Report this message as failed for retry
       batchItemFailures.push({
         itemIdentifier: record.messageId,
@@ -124,6 +161,9 @@ export async function handler(
     }
   }
 
+  // Nothing may stay pending once the invocation returns and the environment is frozen
+  await flushCounters()
+
   console.log(`[SQS Consumer] Completed. Success: ${event.Records.length - batchItemFailures.length}, Failed: ${batchItemFailures.length}`)
 
   return { batchItemFailures }
@@ -144,14 +184,33 @@ async function processRecord(record: SQSRecord): Promise<void> {
 
   console.log(`[SQS Consumer] Processing batch ${message.batchId} with ${events.length} events`)
 
+  // Session boundaries first, so every item is written under the session it belongs to
+  const segments = new Map<string, SessionSegment>()
+  const timezones = new Map<string, string | undefined>()
+  for (const event of events) {
+    if (event.type === 'pageview' || event.type === 'event' || event.type === 'pageleave' || event.type === 'ecommerce') {
+      await applySessionBoundary(event, segments, timezones)
+    }
+  }
+
+  // Purchases and refunds are recorded once per order
+  const duplicates = new Set<AnalyticsEvent>()
+  for (const event of events) {
+    if (event.type === 'ecommerce' && !await claimOrder(event)) {
+      duplicates.add(event)
+    }
+  }
+
   // Convert events to DynamoDB write requests
   const writeRequests: WriteRequest[] = []
+  const retention = new Map<string, RetentionSettings>()
 
   for (const event of events) {
+    if (duplicates.has(event)) continue
     try {
       const request = eventToWriteRequest(event)
       if (request) {
-        writeRequests.push(request)
+        writeRequests.push(withRetentionTtl(request, await getSiteRetention(event.siteId, retention)))
       }
     }
     catch (error) {
@@ -159,13 +218,50 @@ async function processRecord(record: SQSRecord): Promise<void> {
     }
   }
 
-  if (writeRequests.length === 0) {
-    console.log('[SQS Consumer] No valid write requests, skipping')
-    return
+  if (writeRequests.length > 0) {
+    // Batch write to DynamoDB (chunks of 25)
+    await batchWriteToDynamoDB(writeRequests)
+  }
+  else {
+    console.log('[SQS Consumer] No valid write requests')
   }
 
-  // Batch write to DynamoDB (chunks of 25)
-  await batchWriteToDynamoDB(writeRequests)
+  // Sessions are updated in place so their journeys keep every step in order
+  for (const event of events) {
+    if (duplicates.has(event)) continue
+    if (event.type === 'pageview' || event.type === 'event' || event.type === 'ecommerce') {
+      await updateSessionJourney(event)
+    }
+    else if (event.type === 'pageleave') {
+      await recordEngagement(event)
+    }
+  }
+
+  // Events of closed periods (a queue backlog, replayed dead letters) mark them for the next aggregation run
+  await markLatePeriods(events.filter(event => event.type !== 'realtime' && !duplicates.has(event)))
+
+  // Counted only once the message is written, so a retried message isn't counted twice
+  for (const event of events) {
+    const counter = eventToRealtimeCounter(event)
+    if (counter) {
+      await counters.add(counter.key, counter.delta)
+    }
+  }
+}
+
+// ============================================================================
+// Late Events
+// ============================================================================
+
+/**
+ * Mark the closed periods late events fall into dirty (SK DIRTY#{PERIOD}#{periodStart})
+ */
+async function markLatePeriods(events: AnalyticsEvent[]): Promise<void> {
+  const now = new Date()
+  for (const { siteId, period, periodStart } of getLatePeriods(events, now)) {
+    const { input } = store.markPeriodDirtyCommand(siteId, period, periodStart, now)
+    await dynamodb.updateItem(input as Parameters<typeof dynamodb.updateItem>[0])
+  }
 }
 
 // ============================================================================
@@ -251,13 +347,28 @@ function eventToWriteRequest(event: AnalyticsEvent): WriteRequest | null {
     case 'event':
       return customEventToWriteRequest(event, timestamp, dateStr)
     case 'realtime':
-      return realtimeToWriteRequest(event)
+      // Realtime items only hold counters (see eventToRealtimeCounter)
+      return null
+    case 'ecommerce':
+      return ecommerceToWriteRequest(event, timestamp)
+    case 'pageleave':
+      // Engaged time is added to existing items (see recordEngagement)
+      return null
     default:
       console.warn(`[SQS Consumer] Unknown event type: ${(event as { type: string }).type}`)
       return null
   }
 }
 
+/**
+ * Set the TTL of the site's retention settings
+ */
+function withRetentionTtl(request: WriteRequest, settings: RetentionSettings): WriteRequest {
+  const ttl = getRetentionTtl(unmarshall(request.PutRequest.Item), settings)
+  if (ttl !== undefined) request.PutRequest.Item.ttl = { N: String(ttl) }
+  return request
+}
+
 function pageViewToWriteRequest(
   event: AnalyticsEvent,
   timestamp: Date,
@@ -290,10 +401,9 @@ function pageViewToWriteRequest(
         ...(data.screenHeight && { screenHeight: { N: String(data.screenHeight) } }),
         isUnique: { BOOL: Boolean(data.isUnique) },
         isBounce: { BOOL: Boolean(data.isBounce) },
+        ...(data.foreign && { foreign: { BOOL: true } }),
         timestamp: { S: timestamp.toISOString() },
         _et: { S: 'pageview' },
-        // TTL: 30 days
-        ttl: { N: String(Math.floor(Date.now() / 1000) + 30 * 24 * 60 * 60) },
       },
     },
   }
@@ -332,8 +442,6 @@ function sessionToWriteRequest(
         startedAt: { S: (data.startedAt as string) || timestamp.toISOString() },
         endedAt: { S: (data.endedAt as string) || timestamp.toISOString() },
         _et: { S: 'session' },
-        // TTL: 30 days
-        ttl: { N: String(Math.floor(Date.now() / 1000) + 30 * 24 * 60 * 60) },
       },
     },
   }
@@ -364,37 +472,521 @@ function customEventToWriteRequest(
         ...(data.value !== undefined && { value: { N: String(data.value) } }),
         ...(data.properties && { properties: { S: JSON.stringify(data.properties) } }),
         path: { S: (data.path as string) || '/' },
+        ...(data.foreign && { foreign: { BOOL: true } }),
         timestamp: { S: timestamp.toISOString() },
         _et: { S: 'event' },
-        // TTL: 30 days
-        ttl: { N: String(Math.floor(Date.now() / 1000) + 30 * 24 * 60 * 60) },
       },
     },
   }
 }
 
-function realtimeToWriteRequest(event: AnalyticsEvent): WriteRequest {
+function ecommerceToWriteRequest(event: AnalyticsEvent, timestamp: Date): WriteRequest {
   const data = event.data as unknown as Record<string, unknown>
-  const minute = (data.minute as string) || new Date().toISOString().slice(0, 16)
+  const id = (data.id as string) || generateId()
+  const items = (data.items as EcommerceItem[] | undefined) || []
 
   return {
     PutRequest: {
       Item: {
         pk: { S: `SITE#${event.siteId}` },
-        sk: { S: `REALTIME#${minute}` },
+        sk: { S: `ECOMMERCE#${timestamp.toISOString()}#${id}` },
+        id: { S: id },
         siteId: { S: event.siteId },
-        minute: { S: minute },
-        currentVisitors: { N: '1' },
-        pageViews: { N: '1' },
-        activePages: { S: JSON.stringify({ [(data.path as string) || '/']: 1 }) },
-        _et: { S: 'realtime' },
-        // TTL: 10 minutes
-        ttl: { N: String(Math.floor(Date.now() / 1000) + 600) },
+        visitorId: { S: (data.visitorId as string) || 'unknown' },
+        sessionId: { S: (data.sessionId as string) || 'unknown' },
+        path: { S: (data.path as string) || '/' },
+        action: { S: data.action as string },
+        ...(data.orderId && { orderId: { S: data.orderId as string } }),
+        currency: { S: data.currency as string },
+        ...(data.value !== undefined && { value: { N: String(data.value) } }),
+        items: {
+          L: items.map(item => ({
+            M: {
+              id: { S: item.id },
+              ...(item.name && { name: { S: item.name } }),
+              ...(item.category && { category: { S: item.category } }),
+              price: { N: String(item.price) },
+              quantity: { N: String(item.quantity) },
+            },
+          })),
+        },
+        source: { S: (data.source as string) || 'direct' },
+        ...(data.foreign && { foreign: { BOOL: true } }),
+        timestamp: { S: timestamp.toISOString() },
       },
     },
   }
 }
 
+// ============================================================================
+// Realtime Counters
+// ============================================================================
+
+/**
+ * Realtime counters an event adds to: page views (and realtime updates) and
+ * custom events of the minute, with the visitor
+ */
+function eventToRealtimeCounter(event: AnalyticsEvent): { key: CounterKey, delta: CounterDelta } | null {
+  const data = event.data as unknown as Record<string, unknown>
+  const visitorId = data.visitorId as string | undefined
+
+  switch (event.type) {
+    case 'pageview':
+      return getRealtimeCounter(event.siteId, new Date(event.timestamp), { pageViews: 1 }, visitorId)
+    case 'event':
+      return getRealtimeCounter(event.siteId, new Date(event.timestamp), { events: 1 }, visitorId)
+    case 'realtime': {
+      const { minute } = data as unknown as RealtimeUpdate
+      return getRealtimeCounter(event.siteId, new Date(minute ? `${minute}Z` : event.timestamp), { pageViews: 1 }, visitorId)
+    }
+    default:
+      return null
+  }
+}
+
+/**
+ * Build the UpdateItem input that adds a counter delta to its item in one atomic ADD
+ */
+function counterUpdate(key: CounterKey, delta: CounterDelta): Record<string, unknown> {
+  const names: Record<string, string> = {}
+  const values: Record<string, AttributeValue> = {}
+  const adds: string[] = []
+  const sets: string[] = []
+  let index = 0
+
+  for (const [field, amount] of Object.entries(delta.increment)) {
+    names[`#c${index}`] = field
+    values[`:c${index}`] = { N: String(amount) }
+    adds.push(`#c${index} :c${index}`)
+    index++
+  }
+  for (const [field, members] of Object.entries(delta.addToSet ?? {})) {
+    if (members.length === 0) continue
+    names[`#c${index}`] = field
+    values[`:c${index}`] = { SS: members }
+    adds.push(`#c${index} :c${index}`)
+    index++
+  }
+  for (const [field, value] of Object.entries(delta.setIfMissing ?? {})) {
+    names[`#c${index}`] = field
+    values[`:c${index}`] = typeof value === 'number' ? { N: String(value) } : { S: String(value) }
+    sets.push(`#c${index} = if_not_exists(#c${index}, :c${index})`)
+    index++
+  }
+
+  return {
+    TableName: TABLE_NAME,
+    Key: {
+      pk: { S: key.pk },
+      sk: { S: key.sk },
+    },
+    UpdateExpression: [adds.length > 0 ? `ADD ${adds.join(', ')}` : '', sets.length > 0 ? `SET ${sets.join(', ')}` : ''].filter(Boolean).join(' '),
+    ExpressionAttributeNames: names,
+    ExpressionAttributeValues: values,
+  }
+}
+
+async function writeCounters(key: CounterKey, delta: CounterDelta): Promise<void> {
+  await dynamodb.updateItem(counterUpdate(key, delta) as Parameters<typeof dynamodb.updateItem>[0])
+}
+
+/**
+ * Write pending counter deltas. Failed ones stay queued for the next flush.
+ */
+async function flushCounters(): Promise<void> {
+  try {
+    await counters.flush()
+  }
+  catch (error) {
+    console.error('[SQS Consumer] Failed to flush counters:', error)
+  }
+}
+
+// ============================================================================
+// Session Boundaries
+// ============================================================================
+
+/**
+ * Current session of a client session ID while a message is processed
+ */
+interface SessionSegment {
+  sessionId: string
+  session: SessionBoundaryState | null
+}
+
+async function loadSessionSegment(siteId: string, clientSessionId: string): Promise<SessionSegment> {
+  const head = getSessionHeadKey(siteId, clientSessionId)
+  const headResult = await dynamodb.getItem({
+    TableName: TABLE_NAME,
+    Key: { pk: { S: head.pk }, sk: { S: head.sk } },
+  }) as { Item?: Record<string, AttributeValue> }
+  const sessionId = headResult.Item?.sessionId?.S || clientSessionId
+
+  const result = await dynamodb.getItem({
+    TableName: TABLE_NAME,
+    Key: { pk: { S: `SITE#${siteId}` }, sk: { S: `SESSION#${sessionId}` } },
+    ConsistentRead: true,
+  }) as { Item?: Record<string, AttributeValue> }
+  const item = result.Item
+
+  return {
+    sessionId,
+    session: item?.startedAt?.S
+      ? {
+          startedAt: item.startedAt.S,
+          endedAt: item.endedAt?.S,
+          referrerSource: item.referrerSource?.S,
+          utmSource: item.utmSource?.S,
+          utmCampaign: item.utmCampaign?.S,
+        }
+      : null,
+  }
+}
+
+async function getSiteTimezone(siteId: string, timezones: Map<string, string | undefined>): Promise<string | undefined> {
+  if (!timezones.has(siteId)) {
+    const result = await dynamodb.getItem({
+      TableName: TABLE_NAME,
+      Key: { pk: { S: 'SITES' }, sk: { S: `SITE#${siteId}` } },
+    }) as { Item?: Record<string, AttributeValue> }
+    timezones.set(siteId, result.Item?.timezone?.S)
+  }
+  return timezones.get(siteId)
+}
+
+async function getSiteRetention(siteId: string, settings: Map<string, RetentionSettings>): Promise<RetentionSettings> {
+  if (!settings.has(siteId)) {
+    const result = await dynamodb.getItem({
+      TableName: TABLE_NAME,
+      Key: { pk: { S: `SITE#${siteId}` }, sk: { S: 'RETENTION_SETTINGS' } },
+    }) as { Item?: Record<string, AttributeValue> }
+    settings.set(siteId, normalizeRetentionSettings(result.Item ? unmarshall(result.Item) : null))
+  }
+  return settings.get(siteId)!
+}
+
+/**
+ * Point the event at the current session of its client session ID, starting a new
+ * session (with a derived ID) when the event crosses a boundary - the same rules as
+ * the direct write path in handlers/collect.ts.
+ */
+async function applySessionBoundary(
+  event: AnalyticsEvent,
+  segments: Map<string, SessionSegment>,
+  timezones: Map<string, string | undefined>,
+): Promise<void> {
+  const data = event.data as unknown as Record<string, unknown>
+  const clientSessionId = data.sessionId as string | undefined
+  if (!clientSessionId) return
+
+  const key = `${event.siteId}:${clientSessionId}`
+  const segment = segments.get(key) ?? await loadSessionSegment(event.siteId, clientSessionId)
+  segments.set(key, segment)
+
+  // Engaged time belongs to the session it was measured in and never splits it
+  if (!isSessionBoundaryType(event.type)) {
+    data.sessionId = segment.sessionId
+    return
+  }
+
+  const timestamp = new Date(event.timestamp)
+  const isPageView = event.type === 'pageview'
+  const { sessions } = getConfig()
+
+  const boundary = segment.session && getSessionBoundary(segment.session, {
+    timestamp,
+    type: event.type,
+    hostname: data.hostname as string | undefined,
+    referrer: data.referrer as string | undefined,
+    referrerSource: data.referrerSource as string | undefined,
+    utmSource: data.utmSource as string | undefined,
+    utmCampaign: data.utmCampaign as string | undefined,
+  }, {
+    ...sessions,
+    timezone: sessions.splitAtMidnight ? await getSiteTimezone(event.siteId, timezones) : undefined,
+  })
+
+  if (boundary) {
+    segment.sessionId = deriveSessionId(clientSessionId, timestamp)
+    segment.session = null
+
+    const head = getSessionHeadKey(event.siteId, clientSessionId)
+    await dynamodb.putItem({
+      TableName: TABLE_NAME,
+      Item: {
+        pk: { S: head.pk },
+        sk: { S: head.sk },
+        siteId: { S: event.siteId },
+        sessionId: { S: segment.sessionId },
+        updatedAt: { S: new Date().toISOString() },
+        ttl: { N: String(Math.floor(Date.now() / 1000) + SESSION_HEAD_TTL_SECONDS) },
+      },
+    })
+    console.log(`[SQS Consumer] Session ${clientSessionId} split (${boundary}) into ${segment.sessionId}`)
+  }
+
+  if (!segment.session) {
+    segment.session = {
+      startedAt: timestamp.toISOString(),
+      ...(isPageView && {
+        referrerSource: data.referrerSource as string | undefined,
+        utmSource: data.utmSource as string | undefined,
+        utmCampaign: data.utmCampaign as string | undefined,
+      }),
+    }
+  }
+  if (!segment.session.endedAt || timestamp > new Date(segment.session.endedAt)) {
+    segment.session.endedAt = timestamp.toISOString()
+  }
+
+  data.sessionId = segment.sessionId
+  if (event.type === 'ecommerce') {
+    data.source = getTrafficSource(segment.session)
+  }
+}
+
+// ============================================================================
+// Session Journeys
+// ============================================================================
+
+/**
+ * Build the UpdateItem input that records a page view or event on its session.
+ * With `appendStep` the step is added to the journey while it is under the cap.
+ */
+function sessionJourneyUpdate(event: AnalyticsEvent, appendStep: boolean): Record<string, unknown> | null {
+  const data = event.data as unknown as Record<string, unknown>
+  const sessionId = data.sessionId as string | undefined
+  if (!sessionId) return null
+
+  const timestamp = new Date(event.timestamp).toISOString()
+  const path = (data.path as string) || '/'
+  const isPageView = event.type === 'pageview'
+
+  const set = [
+    'id = if_not_exists(id, :id)',
+    'siteId = if_not_exists(siteId, :siteId)',
+    'visitorId = if_not_exists(visitorId, :visitorId)',
+    'entryPath = if_not_exists(entryPath, :path)',
+    'startedAt = if_not_exists(startedAt, :ts)',
+    'endedAt = :ts',
+    '#et = :et',
+  ]
+  const values: Record<string, AttributeValue> = {
+    ':id': { S: sessionId },
+    ':siteId': { S: event.siteId },
+    ':visitorId': { S: (data.visitorId as string) || 'unknown' },
+    ':path': { S: path },
+    ':ts': { S: timestamp },
+    ':et': { S: 'Session' },
+    ':one': { N: '1' },
+  }
+
+  // Device and location come with every hit, acquisition fields only with pageviews
+  for (const field of ['referrer', 'referrerSource', 'utmSource', 'utmMedium', 'utmCampaign', 'deviceType', 'browser', 'os', 'country']) {
+    const visitorField = ['deviceType', 'browser', 'os', 'country'].includes(field)
+    if ((isPageView || visitorField) && data[field]) {
+      set.push(`${field} = if_not_exists(${field}, :${field})`)
+      values[`:${field}`] = { S: String(data[field]) }
+    }
+  }
+
+  if (isPageView) {
+    set.push('exitPath = :path')
+  }
+
+  let condition: string | undefined
+  if (appendStep) {
+    const step: Record<string, AttributeValue> = {
+      type: { S: isPageView ? 'pageview' : 'event' },
+      path: { S: path },
+      timestamp: { S: timestamp },
+      ...(!isPageView && { name: { S: (data.name as string) || (data.action as string) || 'unnamed' } }),
+    }
+    set.push('journey = list_append(if_not_exists(journey, :empty), :step)')
+    values[':empty'] = { L: [] }
+    values[':step'] = { L: [{ M: step }] }
+    values[':maxSteps'] = { N: String(getConfig().tracking.maxJourneySteps) }
+    condition = 'attribute_not_exists(journey) OR size(journey) < :maxSteps'
+  }
+
+  return {
+    TableName: TABLE_NAME,
+    Key: {
+      pk: { S: `SITE#${event.siteId}` },
+      sk: { S: `SESSION#${sessionId}` },
+    },
+    UpdateExpression: `SET ${set.join(', ')} ADD ${isPageView ? 'pageViewCount' : 'eventCount'} :one`,
+    ExpressionAttributeNames: { '#et': '_et' },
+    ExpressionAttributeValues: values,
+    ...(condition && { ConditionExpression: condition }),
+  }
+}
+
+async function updateSessionJourney(event: AnalyticsEvent): Promise<void> {
+  const input = sessionJourneyUpdate(event, true)
+  if (!input) return
+
+  try {
+    await dynamodb.updateItem(input as Parameters<typeof dynamodb.updateItem>[0])
+  }
+  catch (error) {
+    if (!(error instanceof Error) || error.name !== 'ConditionalCheckFailedException') {
+      throw error
+    }
+    // Journey is full - keep the session counters and exit path current
+    const capped = sessionJourneyUpdate(event, false)!
+    await dynamodb.updateItem(capped as Parameters<typeof dynamodb.updateItem>[0])
+  }
+}
+
+// ============================================================================
+// Ecommerce Orders
+// ============================================================================
+
+/**
+ * Claim the order of a purchase or refund - the same ORDER# item as the direct
+ * write path. Returns false when another event already recorded the order; a
+ * retried message keeps its claim.
+ */
+async function claimOrder(event: AnalyticsEvent): Promise<boolean> {
+  const data = event.data as unknown as Record<string, unknown>
+  const action = data.action as EcommerceAction
+  const orderId = data.orderId as string | undefined
+  if (!orderId || !ORDER_ACTIONS.includes(action)) return true
+
+  data.id = (data.id as string) || generateId()
+
+  try {
+    await dynamodb.putItem({
+      TableName: TABLE_NAME,
+      Item: {
+        pk: { S: `SITE#${event.siteId}` },
+        sk: { S: `ORDER#${action}#${orderId}` },
+        siteId: { S: event.siteId },
+        orderId: { S: orderId },
+        eventId: { S: data.id as string },
+        claimedAt: { S: new Date().toISOString() },
+        ttl: { N: String(Math.floor(Date.now() / 1000) + 2 * 365 * 24 * 60 * 60) },
+      },
+      ConditionExpression: 'attribute_not_exists(pk) OR eventId = :eventId',
+      ExpressionAttributeValues: { ':eventId': { S: data.id as string } },
+    } as Parameters<typeof dynamodb.putItem>[0])
+    return true
+  }
+  catch (error) {
+    if (!(error instanceof Error) || error.name !== 'ConditionalCheckFailedException') {
+      throw error
+    }
+    console.log(`[SQS Consumer] Ignored duplicate ${action} for order ${orderId}`)
+    return false
+  }
+}
+
+// ============================================================================
+// Engaged Time
+// ============================================================================
+
+/**
+ * Add a pageleave report to its path's daily rollup and to its session, then
+ * recompute the session's duration and bounce from the new engaged time
+ */
+async function recordEngagement(event: AnalyticsEvent): Promise<void> {
+  const data = event.data as unknown as Record<string, unknown>
+  const engagedMs = Number(data.timeOnPage) || 0
+  const sessionId = data.sessionId as string | undefined
+  if (engagedMs <= 0) return
+
+  const timestamp = new Date(event.timestamp)
+  const date = timestamp.toISOString().slice(0, 10)
+  const path = (data.path as string) || '/'
+  const rollup = getEngagementRollupKey(event.siteId, date, path)
+
+  await dynamodb.updateItem({
+    TableName: TABLE_NAME,
+    Key: { pk: { S: rollup.pk }, sk: { S: rollup.sk } },
+    UpdateExpression: 'ADD engagedTime :ms, reports :one SET siteId = :sid, #date = :date, #path = :path, #ttl = if_not_exists(#ttl, :ttl)',
+    ExpressionAttributeNames: { '#date': 'date', '#path': 'path', '#ttl': 'ttl' },
+    ExpressionAttributeValues: {
+      ':ms': { N: String(engagedMs) },
+      ':one': { N: '1' },
+      ':sid': { S: event.siteId },
+      ':date': { S: date },
+      ':path': { S: path },
+      ':ttl': { N: String(Math.floor(Date.now() / 1000) + 365 * 24 * 60 * 60) },
+    },
+  } as Parameters<typeof dynamodb.updateItem>[0])
+
+  if (!sessionId) return
+
+  const sessionKey = { pk: { S: `SITE#${event.siteId}` }, sk: { S: `SESSION#${sessionId}` } }
+  let session: Record<string, AttributeValue> | undefined
+  try {
+    const result = await dynamodb.updateItem({
+      TableName: TABLE_NAME,
+      Key: sessionKey,
+      UpdateExpression: 'ADD engagedTime :ms',
+      ConditionExpression: 'attribute_exists(pk)',
+      ExpressionAttributeValues: { ':ms': { N: String(engagedMs) } },
+      ReturnValues: 'ALL_NEW',
+    } as Parameters<typeof dynamodb.updateItem>[0]) as { Attributes?: Record<string, AttributeValue> }
+    session = result.Attributes
+  }
+  catch (error) {
+    if (!(error instanceof Error) || error.name !== 'ConditionalCheckFailedException') {
+      throw error
+    }
+    // The session's pageview hasn't been written - the rollup still counts the time
+    return
+  }
+  if (!session?.startedAt?.S) return
+
+  const state = {
+    pageViewCount: Number(session.pageViewCount?.N || 0),
+    engagedTime: Number(session.engagedTime?.N || 0),
+    startedAt: session.startedAt.S,
+    endedAt: session.endedAt?.S,
+  }
+
+  await dynamodb.updateItem({
+    TableName: TABLE_NAME,
+    Key: sessionKey,
+    UpdateExpression: 'SET #duration = :duration, isBounce = :bounce',
+    ExpressionAttributeNames: { '#duration': 'duration' },
+    ExpressionAttributeValues: {
+      ':duration': { N: String(getSessionDuration(state)) },
+      ':bounce': { BOOL: isBounceSession(state, getConfig().sessions.engagementThresholdSeconds) },
+    },
+  } as Parameters<typeof dynamodb.updateItem>[0])
+}
+
+// ============================================================================
+// Failures
+// ============================================================================
+
+/**
+ * Record why a message failed, so the dead-letter tooling can group messages that
+ * end up in the DLQ by error. Kept as long as SQS keeps messages at most.
+ */
+async function recordFailure(record: SQSRecord, error: unknown): Promise<void> {
+  try {
+    await dynamodb.putItem({
+      TableName: TABLE_NAME,
+      Item: {
+        pk: { S: 'DEAD_LETTERS' },
+        sk: { S: `FAILURE#${record.messageId}` },
+        messageId: { S: record.messageId },
+        error: { S: (error instanceof Error ? `${error.name}: ${error.message}` : String(error)).slice(0, 1000) },
+        receiveCount: { N: record.attributes?.ApproximateReceiveCount || '1' },
+        lastFailedAt: { S: new Date().toISOString() },
+        ttl: { N: String(Math.floor(Date.now() / 1000) + 14 * 24 * 60 * 60) },
+      },
+    } as Parameters<typeof dynamodb.putItem>[0])
+  }
+  catch (err) {
+    console.error(`[SQS Consumer] Failed to record failure of message ${record.messageId}:`, err)
+  }
+}
+
 // ============================================================================
 // Utilities
 // ============================================================================
@@ -413,4 +1005,9 @@ export {
   processRecord,
   eventToWriteRequest,
   batchWriteToDynamoDB,
+  sessionJourneyUpdate,
+  counterUpdate,
+  applySessionBoundary,
+  recordEngagement,
+  markLatePeriods,
 }
@@ -15,6 +15,7 @@ import {
   hashVisitorId,
   getDailySalt,
   getPeriodStart,
+  validateCollectPayload,
 } from '../src/index'
 import type { PageView, Session, AggregationPeriod } from '../src/types'
 
@@ -193,22 +194,11 @@ await router.get('/health', async () => {
 // POST /collect - Receive tracking events
 await router.post('/collect', async (req) => {
   try {
-    const payload = await req.json() as {
-      s: string // siteId
-      sid: string // sessionId
-      e: 'pageview' | 'event' | 'outbound' | 'error'
-      p?: Record<string, unknown>
-      u: string // url
-      r?: string // referrer
-      t?: string // title
-      sw?: number // screen width
-      sh?: number // screen height
-      br?: string // browser (client-detected)
-    }
-
-    if (!payload?.s || !payload?.e || !payload?.u) {
-      return jsonResponse({ error: 'Missing required fields: s, e, u' }, { status: 400 })
+    const validation = validateCollectPayload(await req.json(), { origin: req.headers.get('origin') || undefined })
+    if (!validation.valid) {
+      return jsonResponse({ error: validation.rejection.message, rejection: validation.rejection }, { status: 400 })
     }
+    const payload = validation.payload
 
     // Get visitor ID (privacy-preserving hash)
     const ip = req.headers.get('x-forwarded-for')?.split(',')[0] || req.headers.get('cf-connecting-ip') || 'unknown'
@@ -216,15 +206,7 @@ await router.post('/collect', async (req) => {
     const salt = getDailySalt()
     const visitorId = await hashVisitorId(ip, userAgent, payload.s, salt)
 
-    // Parse URL
-    let parsedUrl: URL
-    try {
-      parsedUrl = new URL(payload.u)
-    }
-    catch {
-      return jsonResponse({ error: 'Invalid URL' }, { status: 400 })
-    }
-
+    const parsedUrl = validation.url
     const timestamp = new Date()
     const sessionId = payload.sid
 
@@ -10,6 +10,9 @@
 // Import types from types.ts for internal use
 // Note: Some types are defined locally in this file and exported directly
 import type { AggregatedStats, AggregationPeriod, AnalyticsStoreOptions, CampaignStats, CustomEvent, DeviceStats, DeviceType, EventStats, GeoStats, Goal, GoalStats, GoalType, PageStats, PageView, RealtimeStats, ReferrerStats, Session, Site, SiteSettings } from './types'
+import { HyperLogLog } from './utils/hyperloglog'
+import { PAYLOAD_VERSION } from './utils/payload-schema'
+import { isDroppedReferrer, resolveReferrer, type ReferrerRuleContext } from './utils/referrer-rules'
 
 // Re-export types from types.ts
 export type {
@@ -146,6 +149,12 @@ export const AnalyticsKeyPatterns = {
     pk: (siteId: string): string => `SITE#${siteId}`,
     sk: (minute: string): string => `REALTIME#${minute}`,
   },
+
+  // Dirty aggregate periods (late or backfilled events)
+  dirtyPeriod: {
+    pk: (siteId: string): string => `SITE#${siteId}`,
+    sk: (period: AggregationPeriod, periodStart: string): string => `DIRTY#${period.toUpperCase()}#${periodStart}`,
+  },
 } as const
 
 /**
@@ -530,6 +539,7 @@ export class AnalyticsStore {
 
   /**
    * Generate command to upsert aggregated stats
+   * Counts are added to the stored ones; the visitor sketch replaces the stored one
    */
   upsertAggregatedStatsCommand(stats: AggregatedStats): {
     command: 'UpdateItem'
@@ -562,6 +572,8 @@ export class AnalyticsStore {
               #retVisitors = if_not_exists(#retVisitors, :zero) + :retVisitors,
               #updatedAt = :now,
               #et = :et
+              ${stats.events !== undefined ? ', #events = if_not_exists(#events, :zero) + :events' : ''}
+              ${stats.visitorSketch ? ', #sketch = :sketch' : ''}
               ${ttl ? ', #ttl = :ttl' : ''}
         `.trim(),
         ExpressionAttributeNames: {
@@ -574,6 +586,8 @@ export class AnalyticsStore {
           '#retVisitors': 'returningVisitors',
           '#updatedAt': 'updatedAt',
           '#et': '_et',
+          ...(stats.events !== undefined ? { '#events': 'events' } : {}),
+          ...(stats.visitorSketch ? { '#sketch': 'visitorSketch' } : {}),
           ...(ttl ? { '#ttl': 'ttl' } : {}),
         },
         ExpressionAttributeValues: {
@@ -587,6 +601,8 @@ export class AnalyticsStore {
           ':zero': { N: '0' },
           ':now': { S: new Date().toISOString() },
           ':et': { S: 'AggregatedStats' },
+          ...(stats.events !== undefined ? { ':events': { N: String(stats.events) } } : {}),
+          ...(stats.visitorSketch ? { ':sketch': { S: stats.visitorSketch } } : {}),
           ...(ttl ? { ':ttl': { N: String(ttl) } } : {}),
         },
       },
@@ -665,6 +681,7 @@ export class AnalyticsStore {
               #path = :path,
               #et = :et
               ${stats.title ? ', #title = :title' : ''}
+              ${stats.visitorSketch ? ', #sketch = :sketch' : ''}
               ${ttl ? ', #ttl = :ttl' : ''}
         `.trim(),
         ExpressionAttributeNames: {
@@ -676,6 +693,7 @@ export class AnalyticsStore {
           '#path': 'path',
           '#et': '_et',
           ...(stats.title ? { '#title': 'title' } : {}),
+          ...(stats.visitorSketch ? { '#sketch': 'visitorSketch' } : {}),
           ...(ttl ? { '#ttl': 'ttl' } : {}),
         },
         ExpressionAttributeValues: {
@@ -690,6 +708,7 @@ export class AnalyticsStore {
           ':zero': { N: '0' },
           ':et': { S: 'PageStats' },
           ...(stats.title ? { ':title': { S: stats.title } } : {}),
+          ...(stats.visitorSketch ? { ':sketch': { S: stats.visitorSketch } } : {}),
           ...(ttl ? { ':ttl': { N: String(ttl) } } : {}),
         },
       },
@@ -765,6 +784,7 @@ export class AnalyticsStore {
               #source = :source,
               #et = :et
               ${stats.referrer ? ', #referrer = :referrer' : ''}
+              ${stats.visitorSketch ? ', #sketch = :sketch' : ''}
               ${ttl ? ', #ttl = :ttl' : ''}
         `.trim(),
         ExpressionAttributeNames: {
@@ -773,6 +793,7 @@ export class AnalyticsStore {
           '#source': 'source',
           '#et': '_et',
           ...(stats.referrer ? { '#referrer': 'referrer' } : {}),
+          ...(stats.visitorSketch ? { '#sketch': 'visitorSketch' } : {}),
           ...(ttl ? { '#ttl': 'ttl' } : {}),
         },
         ExpressionAttributeValues: {
@@ -782,6 +803,7 @@ export class AnalyticsStore {
           ':zero': { N: '0' },
           ':et': { S: 'ReferrerStats' },
           ...(stats.referrer ? { ':referrer': { S: stats.referrer } } : {}),
+          ...(stats.visitorSketch ? { ':sketch': { S: stats.visitorSketch } } : {}),
           ...(ttl ? { ':ttl': { N: String(ttl) } } : {}),
         },
       },
@@ -1508,6 +1530,108 @@ export class AnalyticsStore {
     }
   }
 
+  // ==========================================================================
+  // Dirty Period Operations
+  // ==========================================================================
+
+  /**
+   * Generate command to mark an aggregate period for recomputation
+   */
+  markPeriodDirtyCommand(siteId: string, period: AggregationPeriod, periodStart: string, markedAt: Date = new Date()): {
+    command: 'UpdateItem'
+    input: {
+      TableName: string
+      Key: Record<string, unknown>
+      UpdateExpression: string
+      ExpressionAttributeNames: Record<string, string>
+      ExpressionAttributeValues: Record<string, unknown>
+    }
+  } {
+    const keys = AnalyticsKeyPatterns.dirtyPeriod
+    return {
+      command: 'UpdateItem',
+      input: {
+        TableName: this.options.tableName,
+        Key: {
+          pk: { S: keys.pk(siteId) },
+          sk: { S: keys.sk(period, periodStart) },
+        },
+        UpdateExpression: 'SET #siteId = :siteId, #period = :period, #periodStart = :periodStart, #markedAt = :markedAt, #et = :et ADD #count :one',
+        ExpressionAttributeNames: {
+          '#siteId': 'siteId',
+          '#period': 'period',
+          '#periodStart': 'periodStart',
+          '#markedAt': 'markedAt',
+          '#count': 'count',
+          '#et': '_et',
+        },
+        ExpressionAttributeValues: {
+          ':siteId': { S: siteId },
+          ':period': { S: period },
+          ':periodStart': { S: periodStart },
+          ':markedAt': { S: markedAt.toISOString() },
+          ':one': { N: '1' },
+          ':et': { S: 'DirtyPeriod' },
+        },
+      },
+    }
+  }
+
+  /**
+   * Generate command to list periods waiting for recomputation
+   */
+  listDirtyPeriodsCommand(siteId: string, period?: AggregationPeriod): {
+    command: 'Query'
+    input: {
+      TableName: string
+      KeyConditionExpression: string
+      ExpressionAttributeValues: Record<string, unknown>
+    }
+  } {
+    const keys = AnalyticsKeyPatterns.dirtyPeriod
+    return {
+      command: 'Query',
+      input: {
+        TableName: this.options.tableName,
+        KeyConditionExpression: 'pk = :pk AND begins_with(sk, :skPrefix)',
+        ExpressionAttributeValues: {
+          ':pk': { S: keys.pk(siteId) },
+          ':skPrefix': { S: period ? `DIRTY#${period.toUpperCase()}#` : 'DIRTY#' },
+        },
+      },
+    }
+  }
+
+  /**
+   * Generate command to clear a dirty marker once the period is recomputed.
+   * Conditional on markedAt so events marked during the run keep the period dirty.
+   */
+  clearDirtyPeriodCommand(siteId: string, period: AggregationPeriod, periodStart: string, markedAt: string): {
+    command: 'DeleteItem'
+    input: {
+      TableName: string
+      Key: Record<string, unknown>
+      ConditionExpression: string
+      ExpressionAttributeValues: Record<string, unknown>
+    }
+  } {
+    const keys = AnalyticsKeyPatterns.dirtyPeriod
+    return {
+      command: 'DeleteItem',
+      input: {
+        TableName: this.options.tableName,
+        Key: {
+          pk: { S: keys.pk(siteId) },
+          sk: { S: keys.sk(period, periodStart) },
+        },
+        ConditionExpression: 'markedAt = :markedAt',
+        ExpressionAttributeValues: {
+          ':markedAt': { S: markedAt },
+        },
+      },
+    }
+  }
+
   // ==========================================================================
   // Helper Methods
   // ==========================================================================
@@ -1745,8 +1869,9 @@ export class AnalyticsAggregator {
     const totalDuration = sessions.reduce((sum, s) => sum + s.duration, 0)
     const avgSessionDuration = sessions.length > 0 ? totalDuration / sessions.length : 0
 
-    // Calculate pages per session
+    // Calculate pages and events per session
     const totalPages = sessions.reduce((sum, s) => sum + s.pageViewCount, 0)
+    const events = sessions.reduce((sum, s) => sum + (s.eventCount || 0), 0)
     const avgPagesPerSession = sessions.length > 0 ? totalPages / sessions.length : 0
 
     // Identify new vs returning visitors (simplified - in production, check against visitor history)
@@ -1759,8 +1884,10 @@ export class AnalyticsAggregator {
       periodStart,
       pageViews: pageViews.length,
       uniqueVisitors: uniqueVisitors.size,
+      visitorSketch: HyperLogLog.of(uniqueVisitors).encode(),
       sessions: sessions.length,
       bounces,
+      events,
       bounceRate,
       avgSessionDuration,
       avgPagesPerSession,
@@ -1812,6 +1939,7 @@ export class AnalyticsAggregator {
         title: views[views.length - 1]?.title,
         pageViews: views.length,
         uniqueVisitors: uniqueVisitors.size,
+        visitorSketch: HyperLogLog.of(uniqueVisitors).encode(),
         entries,
         exits,
         bounces,
@@ -1825,19 +1953,28 @@ export class AnalyticsAggregator {
 
   /**
    * Generate referrer stats from sessions
+   *
+   * With `referrerRules`, sessions are re-resolved so rule changes apply to
+   * sessions recorded before them: spam and blocked referrers are left out,
+   * self-referrals count as direct and aliases merge sources.
    */
   aggregateReferrerStats(
     siteId: string,
     period: AggregationPeriod,
     periodStart: Date,
     sessions: Session[],
+    referrerRules?: ReferrerRuleContext,
   ): ReferrerStats[] {
     const periodStartStr = AnalyticsStore.getPeriodStart(periodStart, period)
 
     // Group by referrer source
     const sourceGroups = new Map<string, Session[]>()
     for (const session of sessions) {
-      const source = session.referrerSource || 'direct'
+      const resolution = referrerRules ? resolveReferrer(session.referrer, referrerRules) : null
+      if (resolution && isDroppedReferrer(resolution))
+        continue
+
+      const source = (resolution && resolution.action !== 'keep' ? resolution.source : session.referrerSource) || 'direct'
       const existing = sourceGroups.get(source) || []
       existing.push(session)
       sourceGroups.set(source, existing)
@@ -1856,6 +1993,7 @@ export class AnalyticsAggregator {
         periodStart: periodStartStr,
         source,
         visitors: visitors.size,
+        visitorSketch: HyperLogLog.of(visitors).encode(),
         pageViews,
         bounceRate: groupSessions.length > 0 ? bounces / groupSessions.length : 0,
         avgSessionDuration: groupSessions.length > 0 ? totalDuration / groupSessions.length : 0,
@@ -2704,6 +2842,24 @@ export interface PipelineJobConfig {
   windowEnd: Date
   /** Whether to delete raw events after aggregation */
   deleteRawEvents?: boolean
+  /** markedAt of the dirty marker being recomputed; the job clears the marker */
+  dirtyMarkedAt?: string
+  /** Site referrer rules applied to the referrer stats */
+  referrerRules?: ReferrerRuleContext
+}
+
+/**
+ * Aggregate period marked for recomputation after late or backfilled events
+ */
+export interface DirtyPeriod {
+  siteId: string
+  period: AggregationPeriod
+  /** Period start as produced by AnalyticsStore.getPeriodStart */
+  periodStart: string
+  /** When the period was last marked dirty */
+  markedAt: string
+  /** Number of times the period was marked */
+  count?: number
 }
 
 /**
@@ -2815,6 +2971,7 @@ export class AggregationPipeline {
         config.period,
         config.windowStart,
         sessions,
+        config.referrerRules,
       )
       for (const rs of referrerStats) {
         const cmd = this.store.upsertReferrerStatsCommand(rs)
@@ -2902,6 +3059,17 @@ export class AggregationPipeline {
         commands.push({ command: cmd.command, input: cmd.input })
       }
 
+      // 8. Clear the dirty marker this job was recomputing
+      if (config.dirtyMarkedAt) {
+        const cmd = this.store.clearDirtyPeriodCommand(
+          config.siteId,
+          config.period,
+          AnalyticsStore.getPeriodStart(config.windowStart, config.period),
+          config.dirtyMarkedAt,
+        )
+        commands.push({ command: cmd.command, input: cmd.input })
+      }
+
       return {
         config,
         success: true,
@@ -3026,6 +3194,43 @@ export class AggregationPipeline {
     }
   }
 
+  /**
+   * Get the already-closed periods an event at `timestamp` falls into.
+   * Events landing in these periods arrive after their scheduled aggregation ran.
+   */
+  static getClosedPeriods(timestamp: Date, now: Date = new Date()): Array<{ period: AggregationPeriod, periodStart: string }> {
+    const periods: AggregationPeriod[] = ['hour', 'day', 'month']
+    return periods
+      .map(period => ({ period, periodStart: AnalyticsStore.getPeriodStart(timestamp, period) }))
+      .filter(({ period, periodStart }) => periodStart < AnalyticsStore.getPeriodStart(now, period))
+  }
+
+  /**
+   * Create a job configuration that recomputes a dirty period
+   */
+  static createDirtyJobConfig(dirty: DirtyPeriod): PipelineJobConfig {
+    const windowStart = dirty.period === 'month'
+      ? new Date(`${dirty.periodStart}-01T00:00:00.000Z`)
+      : new Date(dirty.period === 'day' ? `${dirty.periodStart}T00:00:00.000Z` : dirty.periodStart)
+
+    const windowEnd = new Date(windowStart)
+    if (dirty.period === 'hour')
+      windowEnd.setUTCHours(windowEnd.getUTCHours() + 1)
+    else if (dirty.period === 'day')
+      windowEnd.setUTCDate(windowEnd.getUTCDate() + 1)
+    else
+      windowEnd.setUTCMonth(windowEnd.getUTCMonth() + 1)
+
+    return {
+      siteId: dirty.siteId,
+      period: dirty.period,
+      windowStart,
+      windowEnd,
+      deleteRawEvents: false, // Raw events are the source for any later recompute
+      dirtyMarkedAt: dirty.markedAt,
+    }
+  }
+
   /**
    * Helper to aggregate event stats
    */
@@ -3233,15 +3438,24 @@ export function generateTrackingScript(options: TrackingScriptOptions): string {
       else if(/Chrome/i.test(ua))br='Chrome';
     }
   }catch(e){}
+  // Headless browser hints (used server-side for bot filtering)
+  var hl=[];
+  try{
+    if(n.webdriver)hl.push('webdriver');
+    if(w._phantom||w.callPhantom)hl.push('phantom');
+    if(w.__nightmare)hl.push('nightmare');
+    if(w._selenium||w.__selenium_unwrapped||d.documentElement.getAttribute('webdriver'))hl.push('selenium');
+    if(n.languages&&n.languages.length===0)hl.push('no_languages');
+  }catch(e){}
   function t(e,p){
     var x=new XMLHttpRequest();
     x.open('POST',api+'${endpoint}',true);
     x.setRequestHeader('Content-Type','application/json');
     x.send(JSON.stringify({
-      s:site,sid:sid,e:e,p:p||{},
+      v:${PAYLOAD_VERSION},s:site,sid:sid,e:e,p:p||{},
       u:location.href,r:d.referrer,t:d.title,
       sw:screen.width,sh:screen.height,
-      br:br
+      br:br,hl:hl.length?hl:undefined
     }));
   }
   function pv(){t('pageview');}
@@ -3257,7 +3471,7 @@ export function generateTrackingScript(options: TrackingScriptOptions): string {
     : ''}
   if(d.readyState==='complete')pv();
   else w.addEventListener('load',pv);
-  w.fathom={track:function(n,v){t('event',{name:n,value:v});}};\n${webVitalsCode}${errorTrackingCode}
+  w.fathom={track:function(n,v,o){var p={};for(var k in o)p[k]=o[k];p.name=n;p.value=v;t('event',p);}};\n${webVitalsCode}${errorTrackingCode}
 })();
 </script>
 `.trim()
@@ -0,0 +1,353 @@
+/**
+ * Aggregation Runner
+ *
+ * Loads the raw pageviews, sessions and events of closed periods and writes their
+ * rollups with `AggregationPipeline.runAggregationJob`.
+ *
+ * - Watermark: PK SITE#{siteId}, SK WATERMARK#{PERIOD} - the last period aggregated on schedule
+ *
+ * A run aggregates, per site and period, the closed periods after the watermark
+ * (oldest first, at most `aggregation.maxWindowsPerRun`), then the periods marked
+ * dirty by late events. A period closes `aggregation.settleMinutes` after it ends.
+ * `backfill` aggregates every closed period of a range again, leaving the
+ * watermarks be.
+ *
+ * Rollup upserts add to what is stored, so a period's rollups are deleted before
+ * they are written: aggregating a period again replaces them. Days and months
+ * holding imported days are skipped, as their rollups come from the import.
+ */
+
+import type { DirtyPeriod } from './Analytics'
+import type { AnalyticsRepository, ItemKey, RepositoryItem } from './repository'
+import type { AggregationPeriod, CustomEvent, Goal, PageView, Session } from './types'
+import type { ReferrerRuleContext } from './utils/referrer-rules'
+import { AggregationPipeline, AnalyticsStore } from './Analytics'
+import { getConfig } from './config'
+import { QueryBudget, ReportReader } from './paged-query'
+import { getPeriodBounds } from './query-planner'
+import { fromUpdateCommand } from './repository'
+
+// ============================================================================
+// Types
+// ============================================================================
+
+/**
+ * Why a period was aggregated:
+ * - `scheduled`: the next closed period after the watermark
+ * - `late`: marked dirty by events that arrived after it closed
+ * - `backfill`: part of a backfilled range
+ */
+export type AggregationReason = 'scheduled' | 'late' | 'backfill'
+
+export interface AggregationWindowResult {
+  siteId: string
+  period: AggregationPeriod
+  periodStart: string
+  reason: AggregationReason
+  /** `skipped` periods hold imported days */
+  status: 'aggregated' | 'skipped' | 'failed'
+  pageViews: number
+  sessions: number
+  events: number
+  /** Rollup items written */
+  records: number
+  error?: string
+}
+
+export interface AggregationRunResult {
+  windows: AggregationWindowResult[]
+  aggregated: number
+  skipped: number
+  failed: number
+}
+
+export interface AggregationRunnerOptions {
+  /** Store the rollup commands come from (sets their TTLs) */
+  store?: AnalyticsStore
+  /** Referrer rules of a site, applied to its referrer stats */
+  getReferrerRules?: (siteId: string) => Promise<ReferrerRuleContext>
+  now?: () => Date
+}
+
+// ============================================================================
+// Runner
+// ============================================================================
+
+export class AggregationRunner {
+  private readonly repository: AnalyticsRepository
+  private readonly pipeline: AggregationPipeline
+  private readonly getReferrerRules?: (siteId: string) => Promise<ReferrerRuleContext>
+  private readonly now: () => Date
+
+  constructor(repository: AnalyticsRepository, options: AggregationRunnerOptions = {}) {
+    this.repository = repository
+    this.pipeline = new AggregationPipeline(options.store ?? new AnalyticsStore({ tableName: 'AnalyticsTable' }))
+    this.getReferrerRules = options.getReferrerRules
+    this.now = options.now ?? (() => new Date())
+  }
+
+  /**
+   * Aggregate the closed periods of sites since their watermarks, then their
+   * dirty periods. Without a watermark, a site starts at its last closed period.
+   */
+  async run(siteIds: string[], periods: AggregationPeriod[] = getAggregationPeriods()): Promise<AggregationRunResult> {
+    const windows: AggregationWindowResult[] = []
+    for (const siteId of siteIds) {
+      for (const period of periods) {
+        windows.push(...await this.runPeriod(siteId, period))
+      }
+    }
+    return summarize(windows)
+  }
+
+  /**
+   * Aggregate every closed period of sites that overlaps a range again
+   */
+  async backfill(siteIds: string[], start: Date, end: Date, periods: AggregationPeriod[] = getAggregationPeriods()): Promise<AggregationRunResult> {
+    const windows: AggregationWindowResult[] = []
+    for (const siteId of siteIds) {
+      for (const period of periods) {
+        const dirty = await this.getDirtyPeriods(siteId, period)
+        const openStart = this.getOpenPeriodStart(period)
+        const until = getPeriodBounds(end, period).end
+
+        for (let cursor = getPeriodBounds(start, period).start; cursor < until && cursor < openStart; cursor = getPeriodBounds(cursor, period).end) {
+          const periodStart = AnalyticsStore.getPeriodStart(cursor, period)
+          windows.push(await this.aggregate(siteId, period, periodStart, 'backfill', dirty.get(periodStart)))
+        }
+      }
+    }
+    return summarize(windows)
+  }
+
+  /**
+   * The last period of a site aggregated on schedule, or null before the first run
+   */
+  async getWatermark(siteId: string, period: AggregationPeriod): Promise<string | null> {
+    const item = await this.repository.get(getWatermarkKey(siteId, period))
+    return item?.periodStart ?? null
+  }
+
+  private async runPeriod(siteId: string, period: AggregationPeriod): Promise<AggregationWindowResult[]> {
+    const windows: AggregationWindowResult[] = []
+    const { maxWindowsPerRun } = getConfig().aggregation
+    const dirty = await this.getDirtyPeriods(siteId, period)
+    const openStart = this.getOpenPeriodStart(period)
+
+    const watermark = await this.getWatermark(siteId, period)
+    let cursor = watermark
+      ? getPeriodBounds(new Date(watermark), period).end
+      : getPeriodBounds(new Date(openStart.getTime() - 1), period).start
+
+    while (cursor < openStart && windows.length < maxWindowsPerRun) {
+      const periodStart = AnalyticsStore.getPeriodStart(cursor, period)
+      const result = await this.aggregate(siteId, period, periodStart, 'scheduled', dirty.get(periodStart))
+      windows.push(result)
+      // The failed period is tried again next run
+      if (result.status === 'failed') break
+
+      dirty.delete(periodStart)
+      await this.repository.put({
+        ...getWatermarkKey(siteId, period),
+        siteId,
+        period,
+        periodStart,
+        updatedAt: this.now().toISOString(),
+        _et: 'AggregationWatermark',
+      })
+      cursor = getPeriodBounds(cursor, period).end
+    }
+
+    for (const [periodStart, markedAt] of dirty) {
+      if (windows.length >= maxWindowsPerRun) break
+      if (new Date(periodStart) >= openStart) continue
+      windows.push(await this.aggregate(siteId, period, periodStart, 'late', markedAt))
+    }
+
+    return windows
+  }
+
+  /**
+   * Aggregate one period, replacing its rollups. Clears the period's dirty marker
+   * (also of skipped periods) unless it was marked again meanwhile.
+   */
+  private async aggregate(
+    siteId: string,
+    period: AggregationPeriod,
+    periodStart: string,
+    reason: AggregationReason,
+    dirtyMarkedAt?: string,
+  ): Promise<AggregationWindowResult> {
+    const result: AggregationWindowResult = { siteId, period, periodStart, reason, status: 'aggregated', pageViews: 0, sessions: 0, events: 0, records: 0 }
+    const { start, end } = getPeriodBounds(new Date(periodStart), period)
+    const last = new Date(end.getTime() - 1)
+
+    try {
+      if (period !== 'hour' && await this.hasImportedDays(siteId, start, last)) {
+        result.status = 'skipped'
+      }
+      else {
+        Object.assign(result, await this.replaceRollups(siteId, period, periodStart, start, end))
+      }
+
+      if (dirtyMarkedAt) {
+        const marker: ItemKey = { pk: `SITE#${siteId}`, sk: `DIRTY#${period.toUpperCase()}#${periodStart}` }
+        if ((await this.repository.get(marker))?.markedAt === dirtyMarkedAt) {
+          await this.repository.delete(marker)
+        }
+      }
+    }
+    catch (error) {
+      console.error(`[Aggregation] Failed to aggregate ${period} ${periodStart} for ${siteId}:`, error)
+      result.status = 'failed'
+      result.error = error instanceof Error ? error.message : String(error)
+    }
+
+    return result
+  }
+
+  /**
+   * Write the rollups of a period from its raw data, in place of the stored ones
+   */
+  private async replaceRollups(
+    siteId: string,
+    period: AggregationPeriod,
+    periodStart: string,
+    start: Date,
+    end: Date,
+  ): Promise<Pick<AggregationWindowResult, 'pageViews' | 'sessions' | 'events' | 'records'>> {
+    const last = new Date(end.getTime() - 1)
+
+    // Partial raw data would make partial rollups, so the whole period has to be read
+    const reader = new ReportReader(this.repository, new QueryBudget({ maxPages: Infinity }))
+    const pageViews = await reader.getPageViews(siteId, start, last) as unknown as PageView[]
+    const sessions = await reader.getSessions(siteId, start, last) as unknown as Session[]
+    const events = await reader.getEvents(siteId, start, last) as unknown as CustomEvent[]
+    const goals = await this.repository.query({ pk: `SITE#${siteId}`, beginsWith: 'GOAL#' }) as unknown as Goal[]
+
+    const job = this.pipeline.runAggregationJob(
+      {
+        siteId,
+        period,
+        windowStart: start,
+        windowEnd: end,
+        referrerRules: await this.getReferrerRules?.(siteId),
+      },
+      pageViews,
+      sessions,
+      events,
+      goals.filter(goal => goal.isActive),
+    )
+    if (!job.success) throw new Error(job.error)
+
+    await this.deleteRollups(siteId, period, periodStart, goals)
+    for (const { input } of job.commands) {
+      const { key, update } = fromUpdateCommand(input as Parameters<typeof fromUpdateCommand>[0])
+      await this.repository.update(key, update)
+    }
+
+    return {
+      pageViews: pageViews.length,
+      sessions: sessions.length,
+      events: events.length,
+      records: job.commands.length,
+    }
+  }
+
+  /**
+   * Delete the rollups a pipeline job writes for a period
+   */
+  private async deleteRollups(siteId: string, period: AggregationPeriod, periodStart: string, goals: Goal[]): Promise<void> {
+    const pk = `SITE#${siteId}`
+    const key = `${period.toUpperCase()}#${periodStart}`
+    const keys: ItemKey[] = [
+      { pk, sk: `STATS#${key}` },
+      ...goals.map(goal => ({ pk, sk: `GOALSTATS#${goal.id}#${key}` })),
+    ]
+
+    for (const prefix of ['PAGESTATS', 'REFSTATS', 'GEOSTATS', 'DEVICESTATS', 'EVENTSTATS']) {
+      const items: RepositoryItem[] = await this.repository.query({ pk, beginsWith: `${prefix}#${key}#` })
+      keys.push(...items.map(item => ({ pk: item.pk, sk: item.sk })))
+    }
+
+    for (const itemKey of keys) {
+      await this.repository.delete(itemKey)
+    }
+  }
+
+  private async hasImportedDays(siteId: string, start: Date, end: Date): Promise<boolean> {
+    const imports = await this.repository.query({
+      pk: `SITE#${siteId}`,
+      between: [`IMPORT#${start.toISOString().slice(0, 10)}`, `IMPORT#${end.toISOString().slice(0, 10)}`],
+      limit: 1,
+    })
+    return imports.length > 0
+  }
+
+  /**
+   * Dirty markers of a site's periods: period start to markedAt
+   */
+  private async getDirtyPeriods(siteId: string, period: AggregationPeriod): Promise<Map<string, string>> {
+    const prefix = `DIRTY#${period.toUpperCase()}#`
+    const markers = await this.repository.query({ pk: `SITE#${siteId}`, beginsWith: prefix })
+    return new Map(markers.map(marker => [marker.sk.slice(prefix.length), marker.markedAt]))
+  }
+
+  /**
+   * Start of the first period that isn't closed yet
+   */
+  private getOpenPeriodStart(period: AggregationPeriod): Date {
+    const settled = new Date(this.now().getTime() - getConfig().aggregation.settleMinutes * 60 * 1000)
+    return getPeriodBounds(settled, period).start
+  }
+}
+
+// ============================================================================
+// Helpers
+// ============================================================================
+
+/**
+ * The periods enabled by `aggregation.hourlyEnabled`, `dailyEnabled` and `monthlyEnabled`
+ */
+export function getAggregationPeriods(): AggregationPeriod[] {
+  const { hourlyEnabled, dailyEnabled, monthlyEnabled } = getConfig().aggregation
+  return [
+    ...(hourlyEnabled ? ['hour' as const] : []),
+    ...(dailyEnabled ? ['day' as const] : []),
+    ...(monthlyEnabled ? ['month' as const] : []),
+  ]
+}
+
+/**
+ * Periods that late events fall into: closed periods (of the enabled ones) the
+ * next run only aggregates again once they are marked dirty. One entry per site
+ * and period.
+ */
+export function getLatePeriods(
+  events: Array<{ siteId: string, timestamp: Date | string }>,
+  now: Date = new Date(),
+): Array<Omit<DirtyPeriod, 'markedAt'>> {
+  const settled = new Date(now.getTime() - getConfig().aggregation.settleMinutes * 60 * 1000)
+  const enabled = getAggregationPeriods()
+  const late = new Map<string, Omit<DirtyPeriod, 'markedAt'>>()
+
+  for (const { siteId, timestamp } of events) {
+    for (const { period, periodStart } of AggregationPipeline.getClosedPeriods(new Date(timestamp), settled)) {
+      if (enabled.includes(period)) late.set(`${siteId}#${period}#${periodStart}`, { siteId, period, periodStart })
+    }
+  }
+  return [...late.values()]
+}
+
+function getWatermarkKey(siteId: string, period: AggregationPeriod): ItemKey {
+  return { pk: `SITE#${siteId}`, sk: `WATERMARK#${period.toUpperCase()}` }
+}
+
+function summarize(windows: AggregationWindowResult[]): AggregationRunResult {
+  return {
+    windows,
+    aggregated: windows.filter(window => window.status === 'aggregated').length,
+    skipped: windows.filter(window => window.status === 'skipped').length,
+    failed: windows.filter(window => window.status === 'failed').length,
+  }
+}
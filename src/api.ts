@@ -21,6 +21,9 @@ import {
   type IPGeoResult,
   lookupFromHeaders,
 } from './geolocation'
+import { type CollectPayload, type PayloadRejection, validateCollectPayload } from './utils/payload-schema'
+
+export type { CollectPayload }
 
 // ============================================================================
 // Types
@@ -66,6 +69,8 @@ export interface HandlerContext {
   getSite?: (siteId: string) => Promise<Site | null>
   /** Optional: Session store for managing visitor sessions */
   sessionStore?: SessionStore
+  /** Optional: Called for every payload rejected by validation (e.g. to count it per site) */
+  onPayloadRejected?: (siteId: string | undefined, rejection: PayloadRejection) => void | Promise<void>
 }
 
 /**
@@ -77,30 +82,6 @@ export interface SessionStore {
   delete: (key: string) => Promise<void>
 }
 
-/**
- * Collect endpoint payload (from tracking script)
- */
-export interface CollectPayload {
-  /** Site ID */
-  s: string
-  /** Session ID */
-  sid: string
-  /** Event type */
-  e: 'pageview' | 'event' | 'outbound' | 'error'
-  /** Event properties */
-  p?: Record<string, unknown>
-  /** Current URL */
-  u: string
-  /** Referrer */
-  r?: string
-  /** Page title */
-  t?: string
-  /** Screen width */
-  sw?: number
-  /** Screen height */
-  sh?: number
-}
-
 /**
  * API configuration
  */
@@ -154,7 +135,7 @@ export class AnalyticsAPI {
    */
   createContext(
     executeCommand: HandlerContext['executeCommand'],
-    options?: Partial<Pick<HandlerContext, 'getGoals' | 'getSite' | 'sessionStore'>>,
+    options?: Partial<Pick<HandlerContext, 'getGoals' | 'getSite' | 'sessionStore' | 'onPayloadRejected'>>,
   ): HandlerContext {
     return {
       store: this.store,
@@ -213,11 +194,13 @@ export class AnalyticsAPI {
     ctx: HandlerContext,
   ): Promise<AnalyticsResponse> {
     try {
-      const payload = req.body as CollectPayload
-
-      if (!payload?.s || !payload?.e || !payload?.u) {
-        return this.errorResponse(400, 'Missing required fields: s, e, u')
+      const validation = validateCollectPayload(req.body, { origin: req.headers.origin })
+      if (!validation.valid) {
+        const siteId = (req.body as Record<string, unknown> | null)?.s
+        await ctx.onPayloadRejected?.(typeof siteId === 'string' ? siteId : undefined, validation.rejection)
+        return this.errorResponse(400, validation.rejection.message, { rejection: validation.rejection })
       }
+      const payload = validation.payload
 
       // Hash visitor ID for privacy
       const visitorId = await AnalyticsStore.hashVisitorId(
@@ -227,15 +210,7 @@ export class AnalyticsAPI {
         ctx.visitorSalt,
       )
 
-      // Parse URL
-      let parsedUrl: URL
-      try {
-        parsedUrl = new URL(payload.u)
-      }
-      catch {
-        return this.errorResponse(400, 'Invalid URL')
-      }
-
+      const parsedUrl = validation.url
       const timestamp = new Date()
       const sessionId = payload.sid
 
@@ -1050,13 +1025,13 @@ export class AnalyticsAPI {
   /**
    * Create error response
    */
-  private errorResponse(status: number, message: string): AnalyticsResponse {
+  private errorResponse(status: number, message: string, details?: Record<string, unknown>): AnalyticsResponse {
     return {
       status,
       headers: {
         'Content-Type': 'application/json',
       },
-      body: { error: message },
+      body: { error: message, ...details },
     }
   }
 
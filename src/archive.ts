@@ -0,0 +1,440 @@
+/**
+ * Raw Event Archive
+ *
+ * Keeps raw pageviews, events and errors beyond their TTL as compressed files,
+ * for analysis the rollups can't answer. Files are partitioned per site and day:
+ *
+ *   site={siteId}/date={YYYY-MM-DD}/{entity}-{batchId}.parquet (or .ndjson.gz)
+ *
+ * `RawEventArchiver` collects items (from the table's stream) and writes one file
+ * per site, day and entity type on each flush, so a day holds many files.
+ * `rehydrate` loads an archived day back into the store for reprocessing.
+ * Destinations are a local directory or an S3-compatible bucket.
+ */
+
+import type { AnalyticsRepository, RepositoryItem } from './repository'
+import type { RetentionEntity } from './retention'
+import { createHash, createHmac } from 'node:crypto'
+import { mkdir, readdir, readFile, writeFile } from 'node:fs/promises'
+import { dirname, join, relative } from 'node:path'
+import { gunzipSync, gzipSync } from 'node:zlib'
+import { generateId } from './dynamodb'
+import { readParquet, writeParquet } from './parquet'
+import { getRetentionEntity } from './retention'
+
+// ============================================================================
+// Types
+// ============================================================================
+
+export type ArchiveFormat = 'ndjson' | 'parquet'
+
+export type ArchivedEntity = Extract<RetentionEntity, 'pageviews' | 'events' | 'errors'>
+
+export const ARCHIVED_ENTITIES: ArchivedEntity[] = ['pageviews', 'events', 'errors']
+
+/**
+ * Where archive files are kept. Paths are relative and use '/'.
+ */
+export interface ArchiveDestination {
+  write: (path: string, data: Uint8Array) => Promise<void>
+  read: (path: string) => Promise<Uint8Array>
+  /** Paths of the files under a prefix */
+  list: (prefix: string) => Promise<string[]>
+}
+
+export interface ArchiveFile {
+  path: string
+  siteId: string
+  date: string
+  entity: ArchivedEntity
+  items: number
+  bytes: number
+}
+
+export interface RawEventArchiverOptions {
+  /** File format (default: 'parquet') */
+  format?: ArchiveFormat
+}
+
+export interface RehydrateOptions {
+  /** Entity types to load (default: all) */
+  entities?: ArchivedEntity[]
+  /** TTL (epoch seconds) of the loaded items; without it they are kept */
+  ttl?: number
+  /** Items written at once (default: 25) */
+  batchSize?: number
+  /** Count what would be loaded without writing */
+  dryRun?: boolean
+}
+
+export interface RehydrateReport {
+  siteId: string
+  date: string
+  dryRun: boolean
+  files: number
+  items: number
+  /** Items the store didn't accept */
+  failed: number
+}
+
+const DEFAULT_BATCH_SIZE = 25
+
+// ============================================================================
+// Partitions
+// ============================================================================
+
+/**
+ * Partition of an archived item, or null for items that aren't archived
+ */
+export function getArchivePartition(item: Record<string, any>): { siteId: string, date: string, entity: ArchivedEntity } | null {
+  const entity = getRetentionEntity(String(item.sk ?? ''))
+  if (!entity || !ARCHIVED_ENTITIES.includes(entity as ArchivedEntity)) return null
+
+  const siteId = item.siteId ?? String(item.pk ?? '').replace(/^SITE#/, '')
+  // {PREFIX}#{timestamp}#{id}
+  const date = String(item.timestamp ?? String(item.sk).split('#')[1] ?? '').slice(0, 10)
+  if (!siteId || !/^\d{4}-\d{2}-\d{2}$/.test(date)) return null
+
+  return { siteId, date, entity: entity as ArchivedEntity }
+}
+
+/**
+ * Directory of a site's archived day
+ */
+export function getArchivePrefix(siteId: string, date: string): string {
+  return `site=${encodeURIComponent(siteId)}/date=${date}/`
+}
+
+// ============================================================================
+// Formats
+// ============================================================================
+
+/**
+ * Items as an archive file of the format
+ */
+export function encodeArchive(items: RepositoryItem[], format: ArchiveFormat): Uint8Array {
+  if (format === 'parquet') return writeParquet(items)
+  return gzipSync(items.map(item => `${JSON.stringify(item)}\n`).join(''))
+}
+
+/**
+ * Items of an archive file, by its extension
+ */
+export function decodeArchive(path: string, data: Uint8Array): RepositoryItem[] {
+  if (path.endsWith('.parquet')) return readParquet(data) as RepositoryItem[]
+  if (path.endsWith('.ndjson.gz')) {
+    return gunzipSync(data).toString('utf8').split('\n').filter(Boolean).map(line => JSON.parse(line))
+  }
+  throw new Error(`Unknown archive file type: ${path}`)
+}
+
+// ============================================================================
+// Archiver
+// ============================================================================
+
+/**
+ * Writes raw items to archive files and loads archived days back
+ */
+export class RawEventArchiver {
+  private readonly destination: ArchiveDestination
+  private readonly format: ArchiveFormat
+  private pending = new Map<string, RepositoryItem[]>()
+
+  constructor(destination: ArchiveDestination, options: RawEventArchiverOptions = {}) {
+    this.destination = destination
+    this.format = options.format ?? 'parquet'
+  }
+
+  /** Items waiting for the next flush */
+  get size(): number {
+    let size = 0
+    for (const items of this.pending.values()) size += items.length
+    return size
+  }
+
+  /**
+   * Queue items for the next flush. Items that aren't archived are skipped.
+   * Returns the number queued.
+   */
+  add(items: RepositoryItem[]): number {
+    let added = 0
+    for (const item of items) {
+      const partition = getArchivePartition(item)
+      if (!partition) continue
+
+      const key = `${getArchivePrefix(partition.siteId, partition.date)}${partition.entity}`
+      const group = this.pending.get(key) ?? []
+      group.push(item)
+      this.pending.set(key, group)
+      added++
+    }
+    return added
+  }
+
+  /**
+   * Write a file per site, day and entity type. Groups that fail stay queued.
+   */
+  async flush(): Promise<ArchiveFile[]> {
+    const extension = this.format === 'parquet' ? 'parquet' : 'ndjson.gz'
+    const files: ArchiveFile[] = []
+    const errors: unknown[] = []
+
+    for (const [key, items] of [...this.pending]) {
+      const path = `${key}-${generateId()}.${extension}`
+      const data = encodeArchive(items, this.format)
+      try {
+        await this.destination.write(path, data)
+      }
+      catch (error) {
+        errors.push(error)
+        continue
+      }
+
+      this.pending.delete(key)
+      files.push({ path, ...getArchivePartition(items[0])!, items: items.length, bytes: data.length })
+    }
+
+    if (errors.length > 0) {
+      throw new Error(`${errors.length} archive files failed to write and are queued again: ${errors[0]}`)
+    }
+    return files
+  }
+
+  /**
+   * Load an archived day of a site back into the repository. Items keep their
+   * keys, so loading a day twice writes the same items again.
+   */
+  async rehydrate(repository: AnalyticsRepository, siteId: string, date: string, options: RehydrateOptions = {}): Promise<RehydrateReport> {
+    const entities = options.entities ?? ARCHIVED_ENTITIES
+    const batchSize = options.batchSize ?? DEFAULT_BATCH_SIZE
+    const report: RehydrateReport = { siteId, date, dryRun: options.dryRun ?? false, files: 0, items: 0, failed: 0 }
+
+    const prefix = getArchivePrefix(siteId, date)
+    const paths = (await this.destination.list(prefix)).filter(path =>
+      entities.some(entity => path.slice(prefix.length).startsWith(`${entity}-`)))
+
+    for (const path of paths.sort()) {
+      const items = decodeArchive(path, await this.destination.read(path)).map(({ ttl: _ttl, ...item }) =>
+        (options.ttl === undefined ? item : { ...item, ttl: options.ttl }) as RepositoryItem)
+      report.files++
+      report.items += items.length
+      if (report.dryRun) continue
+
+      for (let i = 0; i < items.length; i += batchSize) {
+        const unprocessed = await repository.putBatch(items.slice(i, i + batchSize))
+        report.failed += unprocessed.length
+      }
+    }
+
+    return report
+  }
+}
+
+// ============================================================================
+// Destinations
+// ============================================================================
+
+/**
+ * Archive files in a local directory
+ */
+export class LocalArchiveDestination implements ArchiveDestination {
+  constructor(private readonly directory: string) {}
+
+  async write(path: string, data: Uint8Array): Promise<void> {
+    const file = join(this.directory, path)
+    await mkdir(dirname(file), { recursive: true })
+    await writeFile(file, data)
+  }
+
+  async read(path: string): Promise<Uint8Array> {
+    return new Uint8Array(await readFile(join(this.directory, path)))
+  }
+
+  async list(prefix: string): Promise<string[]> {
+    // Prefixes are directories: site=.../date=.../
+    const directory = join(this.directory, prefix)
+    const entries = await readdir(directory, { recursive: true, withFileTypes: true }).catch((error) => {
+      if (error.code === 'ENOENT') return []
+      throw error
+    })
+    return entries
+      .filter(entry => entry.isFile())
+      .map(entry => relative(this.directory, join(entry.parentPath, entry.name)).split('\\').join('/'))
+  }
+}
+
+export interface S3Credentials {
+  accessKeyId: string
+  secretAccessKey: string
+  sessionToken?: string
+}
+
+export interface S3ArchiveDestinationOptions {
+  bucket: string
+  /** Default: 'us-east-1' */
+  region?: string
+  /** Endpoint of an S3-compatible service, with buckets addressed by path (default: AWS S3 in the region) */
+  endpoint?: string
+  /** Prefix of every object key */
+  prefix?: string
+  /** Default: AWS_ACCESS_KEY_ID, AWS_SECRET_ACCESS_KEY and AWS_SESSION_TOKEN */
+  credentials?: S3Credentials
+  fetch?: typeof fetch
+  now?: () => Date
+}
+
+/** RFC 3986 encoding, as SigV4 expects */
+function encodeRfc3986(value: string): string {
+  return encodeURIComponent(value).replace(/[!'()*]/g, char => `%${char.charCodeAt(0).toString(16).toUpperCase()}`)
+}
+
+function sha256(value: string | Uint8Array): string {
+  return createHash('sha256').update(value).digest('hex')
+}
+
+function decodeXml(value: string): string {
+  return value
+    .replace(/&lt;/g, '<')
+    .replace(/&gt;/g, '>')
+    .replace(/&quot;/g, '"')
+    .replace(/&apos;/g, '\'')
+    .replace(/&amp;/g, '&')
+}
+
+/**
+ * Archive files in an S3-compatible bucket, through signed (SigV4) requests
+ */
+export class S3ArchiveDestination implements ArchiveDestination {
+  private readonly bucket: string
+  private readonly region: string
+  private readonly endpoint: string
+  private readonly virtualHosted: boolean
+  private readonly prefix: string
+  private readonly credentials?: S3Credentials
+  private readonly fetch: typeof fetch
+  private readonly now: () => Date
+
+  constructor(options: S3ArchiveDestinationOptions) {
+    this.bucket = options.bucket
+    this.region = options.region ?? 'us-east-1'
+    // AWS addresses buckets by host; S3-compatible services mostly by path
+    this.virtualHosted = !options.endpoint
+    this.endpoint = (options.endpoint ?? `https://${this.bucket}.s3.${this.region}.amazonaws.com`).replace(/\/$/, '')
+    this.prefix = options.prefix ?? ''
+    this.credentials = options.credentials
+    this.fetch = options.fetch ?? fetch
+    this.now = options.now ?? (() => new Date())
+  }
+
+  async write(path: string, data: Uint8Array): Promise<void> {
+    await this.request('PUT', this.prefix + path, {}, data)
+  }
+
+  async read(path: string): Promise<Uint8Array> {
+    const response = await this.request('GET', this.prefix + path)
+    return new Uint8Array(await response.arrayBuffer())
+  }
+
+  async list(prefix: string): Promise<string[]> {
+    const paths: string[] = []
+    let continuationToken: string | undefined
+
+    do {
+      const query: Record<string, string> = { 'list-type': '2', 'prefix': this.prefix + prefix }
+      if (continuationToken) query['continuation-token'] = continuationToken
+
+      const body = await (await this.request('GET', '', query)).text()
+      for (const [, key] of body.matchAll(/<Key>([^<]*)<\/Key>/g)) {
+        paths.push(decodeXml(key).slice(this.prefix.length))
+      }
+      const next = /<NextContinuationToken>([^<]*)<\/NextContinuationToken>/.exec(body)
+      continuationToken = /<IsTruncated>true<\/IsTruncated>/.test(body) && next ? decodeXml(next[1]) : undefined
+    } while (continuationToken)
+
+    return paths
+  }
+
+  private async request(method: string, key: string, query: Record<string, string> = {}, body?: Uint8Array): Promise<Response> {
+    const credentials = this.credentials ?? {
+      accessKeyId: process.env.AWS_ACCESS_KEY_ID || '',
+      secretAccessKey: process.env.AWS_SECRET_ACCESS_KEY || '',
+      sessionToken: process.env.AWS_SESSION_TOKEN,
+    }
+
+    const url = new URL(this.endpoint)
+    const encodedKey = key.split('/').map(encodeRfc3986).join('/')
+    const path = this.virtualHosted
+      ? `/${encodedKey}`
+      : `${url.pathname.replace(/\/$/, '')}/${encodeRfc3986(this.bucket)}${key ? `/${encodedKey}` : ''}`
+    const queryString = Object.keys(query).sort().map(name => `${encodeRfc3986(name)}=${encodeRfc3986(query[name])}`).join('&')
+
+    const response = await this.fetch(`${url.origin}${path}${queryString ? `?${queryString}` : ''}`, {
+      method,
+      headers: signS3Request({
+        method,
+        host: url.host,
+        path,
+        query: queryString,
+        payloadHash: sha256(body ?? ''),
+        region: this.region,
+        credentials,
+        date: this.now(),
+      }),
+      body: body as BodyInit | undefined,
+    })
+
+    if (!response.ok) {
+      throw new Error(`S3 ${method} ${key || this.bucket} failed: ${response.status} ${await response.text().catch(() => '')}`)
+    }
+    return response
+  }
+}
+
+/**
+ * Headers of an S3 request signed with AWS Signature Version 4. `path` and
+ * `query` are already URI-encoded; the host header is signed but not returned.
+ */
+export function signS3Request(request: {
+  method: string
+  host: string
+  path: string
+  query: string
+  payloadHash: string
+  region: string
+  credentials: S3Credentials
+  date: Date
+}): Record<string, string> {
+  const amzDate = request.date.toISOString().replace(/[-:]/g, '').replace(/\.\d{3}/, '')
+  const day = amzDate.slice(0, 8)
+  const headers: Record<string, string> = {
+    'host': request.host,
+    'x-amz-content-sha256': request.payloadHash,
+    'x-amz-date': amzDate,
+    ...(request.credentials.sessionToken && { 'x-amz-security-token': request.credentials.sessionToken }),
+  }
+
+  const signedHeaders = Object.keys(headers).sort()
+  const canonicalRequest = [
+    request.method,
+    request.path,
+    request.query,
+    ...signedHeaders.map(name => `${name}:${headers[name]}`),
+    '',
+    signedHeaders.join(';'),
+    request.payloadHash,
+  ].join('\n')
+  const scope = `${day}/${request.region}/s3/aws4_request`
+  const stringToSign = ['AWS4-HMAC-SHA256', amzDate, scope, sha256(canonicalRequest)].join('\n')
+
+  let signingKey: Buffer = createHmac('sha256', `AWS4${request.credentials.secretAccessKey}`).update(day).digest()
+  for (const part of [request.region, 's3', 'aws4_request']) {
+    signingKey = createHmac('sha256', signingKey).update(part).digest()
+  }
+  const signature = createHmac('sha256', signingKey).update(stringToSign).digest('hex')
+
+  const { host: _host, ...signed } = headers
+  return {
+    ...signed,
+    authorization: `AWS4-HMAC-SHA256 Credential=${request.credentials.accessKeyId}/${scope}, SignedHeaders=${signedHeaders.join(';')}, Signature=${signature}`,
+  }
+}
@@ -13,10 +13,10 @@ import { generateId, KeyPatterns } from './dynamodb'
 // Types
 // ============================================================================
 
-export interface BatchItem {
-  type: 'pageview' | 'session' | 'event'
-  data: PageView | Session | CustomEvent
-}
+export type BatchItem =
+  | { type: 'pageview' | 'session' | 'event', data: PageView | Session | CustomEvent }
+  /** Pre-marshalled item, written as-is (for callers with their own key layout) */
+  | { type: 'item', data: Record<string, AttributeValue> }
 
 export interface BatchWriteResult {
   successful: number
@@ -25,6 +25,8 @@ export interface BatchWriteResult {
 }
 
 export interface BatchQueueOptions {
+  /** Table to write to (defaults to the configured table name) */
+  tableName?: string
   /** Maximum items per batch (DynamoDB limit is 25) */
   maxBatchSize?: number
   /** Flush interval in milliseconds */
@@ -55,10 +57,11 @@ interface WriteRequest {
   }
 }
 
-interface AttributeValue {
+export interface AttributeValue {
   S?: string
   N?: string
   BOOL?: boolean
+  NULL?: boolean
   L?: AttributeValue[]
   M?: Record<string, AttributeValue>
 }
@@ -105,7 +108,7 @@ export class EventBatchQueue {
 
   constructor(client: DynamoDBBatchClient, options: BatchQueueOptions = {}) {
     this.client = client
-    this.tableName = getConfig().table.tableName
+    this.tableName = options.tableName ?? getConfig().table.tableName
     this.maxBatchSize = Math.min(options.maxBatchSize ?? 25, 25) // DynamoDB limit
     this.flushIntervalMs = options.flushIntervalMs ?? 5000
     this.maxQueueSize = options.maxQueueSize ?? 100
@@ -264,6 +267,8 @@ export class EventBatchQueue {
         return { PutRequest: { Item: this.marshalSession(item.data as Session) } }
       case 'event':
         return { PutRequest: { Item: this.marshalCustomEvent(item.data as CustomEvent) } }
+      case 'item':
+        return { PutRequest: { Item: item.data } }
     }
   }
 
@@ -117,6 +117,12 @@ export interface AnalyticsConfig {
     trackHashChanges: boolean
     /** Track outbound link clicks */
     trackOutboundLinks: boolean
+    /** Maximum page/event steps kept on a session's journey (funnels and flows) */
+    maxJourneySteps: number
+    /** Maximum custom properties stored per event */
+    maxEventProperties: number
+    /** Maximum length of a stored event property value */
+    maxEventPropertyLength: number
   }
 
   /** API settings */
@@ -137,6 +143,127 @@ export interface AnalyticsConfig {
     dailyEnabled: boolean
     /** Enable monthly aggregation */
     monthlyEnabled: boolean
+    /** Answer reports from rollups where they cover the range (raw events fill the rest) */
+    readRollups: boolean
+    /** Minutes after a period ends before the aggregation runner treats it as closed */
+    settleMinutes: number
+    /** Most periods the runner aggregates per site and period length in one run */
+    maxWindowsPerRun: number
+  }
+
+  /** Server-side ingest API settings (POST /api/ingest) */
+  ingest: {
+    /** How far back an event timestamp may be, in days */
+    backfillWindowDays: number
+    /** How far ahead of server time an event timestamp may be, in seconds */
+    maxFutureSkewSeconds: number
+    /** Maximum number of events per request */
+    maxEventsPerRequest: number
+  }
+
+  /** Which sites accept events, and from which hostnames */
+  sitePolicy: {
+    /** Mode for unknown sites and sites without their own policy: 'open' | 'allowlist' | 'closed' */
+    defaultMode: 'open' | 'allowlist' | 'closed'
+    /** What to do with events from hostnames outside a site's domains: 'reject' | 'tag' */
+    foreignHostnames: 'reject' | 'tag'
+  }
+
+  /** Server-side session boundaries (see utils/session-boundaries) */
+  sessions: {
+    /** Minutes without a hit after which the next hit starts a new session */
+    inactivityTimeoutMinutes: number
+    /** Start a new session at midnight in the site's timezone */
+    splitAtMidnight: boolean
+    /** Start a new session when a pageview brings a different UTM campaign */
+    splitOnCampaignChange: boolean
+    /** Start a new session when a pageview comes from a different external referrer */
+    splitOnReferrerChange: boolean
+    /** Engaged seconds after which a single-page session no longer counts as a bounce */
+    engagementThresholdSeconds: number
+  }
+
+  /** Referrer cleanup at ingestion and in referrer aggregation */
+  referrers: {
+    /** Drop hits whose referrer is on the referrer-spam list */
+    blockSpam: boolean
+    /** Domains added to the bundled referrer-spam list */
+    spamDomains: string[]
+    /** Count referrers from a site's own domains as direct traffic */
+    excludeSelfReferrals: boolean
+  }
+
+  /** Ecommerce events and revenue reports (see utils/ecommerce) */
+  ecommerce: {
+    /** Currency of events sent without one, and of sites without a reporting currency */
+    defaultCurrency: string
+    /** Units of each currency per unit of a common base, e.g. { USD: 1, EUR: 0.92 } */
+    exchangeRates: Record<string, number>
+  }
+
+  /** Where the API handlers read and write data (see repository) */
+  storage: {
+    /**
+     * 'dynamodb' (the configured table), 'sqlite' (a local database file, for
+     * single-node self-hosting) or 'memory' (per process, for tests and local development)
+     */
+    backend: 'dynamodb' | 'sqlite' | 'memory'
+    /** Database file of the 'sqlite' backend */
+    sqlitePath: string
+    /** Most query pages one report reads; reports stopped early say they're incomplete */
+    maxReportPages: number
+    /** Time one report may spend reading, in milliseconds */
+    reportTimeoutMs: number
+  }
+
+  /** Token-bucket rate limits on the collect endpoints */
+  rateLimit: {
+    /** Enable rate limiting */
+    enabled: boolean
+    /** Bucket storage: 'memory' (per instance) or 'dynamodb' (shared across instances) */
+    store: 'memory' | 'dynamodb'
+    /** Sustained events per second per site */
+    siteRatePerSecond: number
+    /** Largest burst of events per site */
+    siteBurst: number
+    /** Sustained events per second per client IP */
+    ipRatePerSecond: number
+    /** Largest burst of events per client IP */
+    ipBurst: number
+    /** Sites a client IP may auto-create per hour */
+    siteCreationsPerHour: number
+  }
+
+  /** Cache of sessions, goals and conversion dedupe on the collect endpoints */
+  cache: {
+    /** Cache storage: 'memory' (per instance) or 'redis' (shared across instances) */
+    store: 'memory' | 'redis'
+    /** Server URL for the 'redis' store, e.g. redis://host:6379/0 or rediss:// for TLS */
+    redisUrl?: string
+    /** Prefix of every key in the shared store */
+    keyPrefix: string
+    /** Time a shared cache command may take, in milliseconds */
+    timeoutMs: number
+    /** Time to use the in-memory fallback after the shared store fails, in milliseconds */
+    retryAfterMs: number
+  }
+
+  /** Files raw pageviews, events and errors are archived to before they expire */
+  archive: {
+    /** File format: 'parquet' or 'ndjson' (gzip compressed) */
+    format: 'parquet' | 'ndjson'
+    /** Where files go: 'local' (a directory) or 's3' (an S3-compatible bucket) */
+    destination: 'local' | 's3'
+    /** Directory of the 'local' destination */
+    directory: string
+    /** Bucket of the 's3' destination (or ANALYTICS_ARCHIVE_BUCKET) */
+    bucket?: string
+    /** Prefix of every object key in the bucket */
+    prefix: string
+    /** Endpoint of an S3-compatible service other than AWS */
+    endpoint?: string
+    /** Bucket region (default: `region`) */
+    region?: string
   }
 
   /**
@@ -211,7 +338,7 @@ export interface AnalyticsConfig {
 export type UserAnalyticsConfig = {
   [K in keyof AnalyticsConfig]?: K extends 'table'
     ? Partial<AnalyticsTableConfig>
-    : K extends 'retention' | 'privacy' | 'tracking' | 'api' | 'aggregation'
+    : K extends 'retention' | 'privacy' | 'tracking' | 'api' | 'aggregation' | 'ingest' | 'sitePolicy' | 'sessions' | 'referrers' | 'ecommerce' | 'storage' | 'rateLimit' | 'cache' | 'archive'
       ? Partial<AnalyticsConfig[K]>
       : K extends 'scale'
         ? {
@@ -261,6 +388,9 @@ export const defaultConfig: AnalyticsConfig = {
     trackDeviceType: true,
     trackHashChanges: false,
     trackOutboundLinks: true,
+    maxJourneySteps: 50,
+    maxEventProperties: 20,
+    maxEventPropertyLength: 200,
   },
 
   api: {
@@ -273,6 +403,70 @@ export const defaultConfig: AnalyticsConfig = {
     hourlyEnabled: true,
     dailyEnabled: true,
     monthlyEnabled: true,
+    readRollups: true,
+    settleMinutes: 5,
+    maxWindowsPerRun: 48,
+  },
+
+  ingest: {
+    backfillWindowDays: 30,
+    maxFutureSkewSeconds: 300,
+    maxEventsPerRequest: 100,
+  },
+
+  sitePolicy: {
+    defaultMode: 'open',
+    foreignHostnames: 'reject',
+  },
+
+  sessions: {
+    inactivityTimeoutMinutes: 30,
+    splitAtMidnight: false,
+    splitOnCampaignChange: true,
+    splitOnReferrerChange: true,
+    engagementThresholdSeconds: 10,
+  },
+
+  referrers: {
+    blockSpam: true,
+    spamDomains: [],
+    excludeSelfReferrals: true,
+  },
+
+  ecommerce: {
+    defaultCurrency: 'USD',
+    exchangeRates: { USD: 1 },
+  },
+
+  storage: {
+    backend: 'dynamodb',
+    sqlitePath: './analytics.db',
+    maxReportPages: 200,
+    reportTimeoutMs: 20000,
+  },
+
+  rateLimit: {
+    enabled: true,
+    store: 'memory',
+    siteRatePerSecond: 200,
+    siteBurst: 1000,
+    ipRatePerSecond: 10,
+    ipBurst: 50,
+    siteCreationsPerHour: 5,
+  },
+
+  cache: {
+    store: 'memory',
+    keyPrefix: 'analytics:',
+    timeoutMs: 1000,
+    retryAfterMs: 30000,
+  },
+
+  archive: {
+    format: 'parquet',
+    destination: 'local',
+    directory: './archive',
+    prefix: '',
   },
 
   // Scale settings - disabled by default for simplicity
@@ -347,6 +541,42 @@ export function defineConfig(userConfig: UserAnalyticsConfig = {}): AnalyticsCon
       ...defaultConfig.aggregation,
       ...userConfig.aggregation,
     },
+    ingest: {
+      ...defaultConfig.ingest,
+      ...userConfig.ingest,
+    },
+    sitePolicy: {
+      ...defaultConfig.sitePolicy,
+      ...userConfig.sitePolicy,
+    },
+    sessions: {
+      ...defaultConfig.sessions,
+      ...userConfig.sessions,
+    },
+    referrers: {
+      ...defaultConfig.referrers,
+      ...userConfig.referrers,
+    },
+    ecommerce: {
+      ...defaultConfig.ecommerce,
+      ...userConfig.ecommerce,
+    },
+    storage: {
+      ...defaultConfig.storage,
+      ...userConfig.storage,
+    },
+    rateLimit: {
+      ...defaultConfig.rateLimit,
+      ...userConfig.rateLimit,
+    },
+    cache: {
+      ...defaultConfig.cache,
+      ...userConfig.cache,
+    },
+    archive: {
+      ...defaultConfig.archive,
+      ...userConfig.archive,
+    },
     scale: {
       sqsBuffering: {
         ...defaultConfig.scale.sqsBuffering,
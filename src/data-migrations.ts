@@ -0,0 +1,372 @@
+/**
+ * Data Migrations
+ *
+ * Versioned changes to stored items, for when a key layout or attribute changes
+ * (schema-level steps such as adding an index live in infrastructure/setup.ts).
+ *
+ * - Checkpoint: PK MIGRATIONS, SK MIGRATION#{version}
+ *
+ * A migration scans the items under its sort key prefix, page by page, and writes
+ * what its `transform` returns for each. An item returned under another key
+ * replaces the one it came from. After every page the scan cursor is stored in the
+ * migration's checkpoint, so a run that stops part way resumes where it stopped.
+ * Pages may therefore be visited twice, and a transform may see the items it
+ * wrote: it must return null for items that are already migrated.
+ *
+ * `run` applies the pending migrations in version order and stops at the first
+ * that fails. `rollback` runs a migration's `rollback` transform over the items
+ * under `rollbackBeginsWith`; a rolled back migration is pending again. Dry runs
+ * count what would change without writing items or checkpoints.
+ */
+
+import type { AnalyticsRepository, RepositoryItem } from './repository'
+
+// ============================================================================
+// Types
+// ============================================================================
+
+/**
+ * The new version of an item, or null to leave it as it is
+ */
+export type ItemTransform = (item: RepositoryItem) => RepositoryItem | null | Promise<RepositoryItem | null>
+
+export interface ItemMigration {
+  /** Migrations run in increasing version order, each once */
+  version: number
+  name: string
+  description: string
+  /** Sort key prefix of the items to visit (default: every item) */
+  beginsWith?: string
+  transform: ItemTransform
+  /** Undo `transform` for an item it wrote */
+  rollback?: ItemTransform
+  /** Sort key prefix of the items the rollback visits (default: `beginsWith`) */
+  rollbackBeginsWith?: string
+}
+
+export type DataMigrationDirection = 'up' | 'down'
+
+export type DataMigrationStatus = 'running' | 'complete' | 'failed' | 'rolled_back'
+
+export interface DataMigrationCheckpoint {
+  version: number
+  name: string
+  direction: DataMigrationDirection
+  status: DataMigrationStatus
+  /** Scan position after the last page written */
+  cursor?: string
+  scanned: number
+  /** Items rewritten under their own key */
+  updated: number
+  /** Items moved to another key */
+  moved: number
+  startedAt: string
+  updatedAt: string
+  error?: string
+}
+
+export interface DataMigrationProgress {
+  version: number
+  name: string
+  direction: DataMigrationDirection
+  scanned: number
+  updated: number
+  moved: number
+  /** More pages follow */
+  hasMore: boolean
+}
+
+export interface DataMigrationResult {
+  version: number
+  name: string
+  direction: DataMigrationDirection
+  status: DataMigrationStatus
+  /** Continued from a stored checkpoint */
+  resumed: boolean
+  dryRun: boolean
+  scanned: number
+  updated: number
+  moved: number
+  error?: string
+}
+
+export interface DataMigrationRunResult {
+  migrations: DataMigrationResult[]
+  applied: number
+  failed: number
+}
+
+export interface DataMigrationRunnerOptions {
+  /** Items scanned per page, and per checkpoint (default: 100) */
+  pageSize?: number
+  /** Count what would change without writing */
+  dryRun?: boolean
+  /** Called after every page */
+  onProgress?: (progress: DataMigrationProgress) => void
+  now?: () => Date
+}
+
+const CHECKPOINT_PK = 'MIGRATIONS'
+const DEFAULT_PAGE_SIZE = 100
+
+// ============================================================================
+// Runner
+// ============================================================================
+
+export class DataMigrationRunner {
+  private readonly repository: AnalyticsRepository
+  private readonly migrations: ItemMigration[]
+  private readonly pageSize: number
+  private readonly dryRun: boolean
+  private readonly onProgress?: (progress: DataMigrationProgress) => void
+  private readonly now: () => Date
+
+  constructor(repository: AnalyticsRepository, migrations: ItemMigration[], options: DataMigrationRunnerOptions = {}) {
+    const versions = new Set(migrations.map(migration => migration.version))
+    if (versions.size !== migrations.length) throw new Error('Data migration versions must be unique')
+
+    this.repository = repository
+    this.migrations = [...migrations].sort((a, b) => a.version - b.version)
+    this.pageSize = options.pageSize ?? DEFAULT_PAGE_SIZE
+    this.dryRun = options.dryRun ?? false
+    this.onProgress = options.onProgress
+    this.now = options.now ?? (() => new Date())
+  }
+
+  /**
+   * Apply the pending migrations, resuming interrupted ones
+   */
+  async run(): Promise<DataMigrationRunResult> {
+    const results: DataMigrationResult[] = []
+
+    for (const migration of this.migrations) {
+      const checkpoint = await this.getCheckpoint(migration.version)
+      if (checkpoint?.status === 'complete') continue
+
+      if (checkpoint?.direction === 'down' && checkpoint.status !== 'rolled_back') {
+        results.push(this.toResult(migration, checkpoint, 'failed', false, `Rollback of migration ${migration.version} hasn't finished`))
+        break
+      }
+
+      const result = await this.apply(migration, 'up', checkpoint?.direction === 'up' ? checkpoint : null)
+      results.push(result)
+      if (result.status === 'failed') break
+    }
+
+    return {
+      migrations: results,
+      applied: results.filter(result => result.status === 'complete').length,
+      failed: results.filter(result => result.status === 'failed').length,
+    }
+  }
+
+  /**
+   * Undo a migration that was applied (or partly applied), resuming an interrupted rollback
+   */
+  async rollback(version: number): Promise<DataMigrationResult> {
+    const migration = this.migrations.find(candidate => candidate.version === version)
+    if (!migration) throw new Error(`Unknown data migration: ${version}`)
+    if (!migration.rollback) throw new Error(`Data migration ${version} (${migration.name}) has no rollback`)
+
+    const checkpoint = await this.getCheckpoint(version)
+    if (!checkpoint || checkpoint.status === 'rolled_back') throw new Error(`Data migration ${version} (${migration.name}) isn't applied`)
+
+    return this.apply(migration, 'down', checkpoint.direction === 'down' ? checkpoint : null)
+  }
+
+  /**
+   * Checkpoints of every migration (null for those never run)
+   */
+  async getStatus(): Promise<Array<{ migration: ItemMigration, checkpoint: DataMigrationCheckpoint | null }>> {
+    const status = []
+    for (const migration of this.migrations) {
+      status.push({ migration, checkpoint: await this.getCheckpoint(migration.version) })
+    }
+    return status
+  }
+
+  async getCheckpoint(version: number): Promise<DataMigrationCheckpoint | null> {
+    const item = await this.repository.get(getCheckpointKey(version))
+    return item as DataMigrationCheckpoint | null
+  }
+
+  /**
+   * Scan, transform and write the items of a migration, from a checkpoint when it has one
+   */
+  private async apply(migration: ItemMigration, direction: DataMigrationDirection, resume: DataMigrationCheckpoint | null): Promise<DataMigrationResult> {
+    const transform = direction === 'up' ? migration.transform : migration.rollback!
+    const beginsWith = direction === 'up' ? migration.beginsWith : migration.rollbackBeginsWith ?? migration.beginsWith
+    const resumed = !!resume?.cursor
+    const startedAt = resume?.startedAt ?? this.now().toISOString()
+
+    const checkpoint: DataMigrationCheckpoint = {
+      version: migration.version,
+      name: migration.name,
+      direction,
+      status: 'running',
+      cursor: resume?.cursor,
+      scanned: resumed ? resume!.scanned : 0,
+      updated: resumed ? resume!.updated : 0,
+      moved: resumed ? resume!.moved : 0,
+      startedAt,
+      updatedAt: startedAt,
+    }
+
+    try {
+      let cursor = checkpoint.cursor
+      do {
+        const page = await this.repository.scanPage({ beginsWith, cursor, pageSize: this.pageSize })
+        const items = page.items.filter(item => item.pk !== CHECKPOINT_PK)
+        const writes: RepositoryItem[] = []
+        const replaced: RepositoryItem[] = []
+
+        for (const item of items) {
+          const next = await transform(item)
+          if (!next) continue
+
+          writes.push(next)
+          if (next.pk !== item.pk || next.sk !== item.sk) replaced.push(item)
+        }
+
+        if (!this.dryRun) {
+          const unprocessed = await this.repository.putBatch(writes)
+          if (unprocessed.length > 0) throw new Error(`${unprocessed.length} items could not be written`)
+          // Moved items are deleted only once their new versions are written
+          await Promise.all(replaced.map(item => this.repository.delete({ pk: item.pk, sk: item.sk })))
+        }
+
+        // Counted once the page is written, so a failed page is counted on its retry
+        checkpoint.scanned += items.length
+        checkpoint.updated += writes.length - replaced.length
+        checkpoint.moved += replaced.length
+        cursor = page.cursor
+        checkpoint.cursor = cursor
+        await this.saveCheckpoint(checkpoint)
+        this.onProgress?.({
+          version: migration.version,
+          name: migration.name,
+          direction,
+          scanned: checkpoint.scanned,
+          updated: checkpoint.updated,
+          moved: checkpoint.moved,
+          hasMore: !!cursor,
+        })
+      } while (cursor)
+
+      checkpoint.status = direction === 'up' ? 'complete' : 'rolled_back'
+      await this.saveCheckpoint(checkpoint)
+      return this.toResult(migration, checkpoint, checkpoint.status, resumed)
+    }
+    catch (error) {
+      // The cursor still points after the last page written
+      checkpoint.status = 'failed'
+      checkpoint.error = error instanceof Error ? error.message : String(error)
+      await this.saveCheckpoint(checkpoint)
+      return this.toResult(migration, checkpoint, 'failed', resumed, checkpoint.error)
+    }
+  }
+
+  private async saveCheckpoint(checkpoint: DataMigrationCheckpoint): Promise<void> {
+    if (this.dryRun) return
+
+    checkpoint.updatedAt = this.now().toISOString()
+    const { cursor, error, ...fields } = checkpoint
+    await this.repository.put({
+      ...getCheckpointKey(checkpoint.version),
+      ...fields,
+      // Finished migrations keep no cursor; errors only until the next attempt
+      ...(checkpoint.status !== 'complete' && checkpoint.status !== 'rolled_back' && cursor && { cursor }),
+      ...(checkpoint.status === 'failed' && error && { error }),
+      _et: 'DataMigration',
+    })
+  }
+
+  private toResult(migration: ItemMigration, checkpoint: DataMigrationCheckpoint, status: DataMigrationStatus, resumed: boolean, error?: string): DataMigrationResult {
+    return {
+      version: migration.version,
+      name: migration.name,
+      direction: checkpoint.direction,
+      status,
+      resumed,
+      dryRun: this.dryRun,
+      scanned: checkpoint.scanned,
+      updated: checkpoint.updated,
+      moved: checkpoint.moved,
+      ...(error && { error }),
+    }
+  }
+}
+
+function getCheckpointKey(version: number): { pk: string, sk: string } {
+  return { pk: CHECKPOINT_PK, sk: `MIGRATION#${String(version).padStart(4, '0')}` }
+}
+
+// ============================================================================
+// Migrations
+// ============================================================================
+
+/**
+ * Pathname of a full URL, or null for anything else
+ */
+function toPathname(path: unknown): string | null {
+  if (typeof path !== 'string' || !/^https?:\/\//i.test(path)) return null
+  try {
+    return new URL(path).pathname
+  }
+  catch {
+    return null
+  }
+}
+
+/**
+ * Move a heatmap item from one path to another. Movement and scroll keys (and scroll
+ * ids) hold the encoded path, clicks hold it in their path index key.
+ */
+function moveHeatmapPath(item: RepositoryItem, from: string, to: string): RepositoryItem {
+  const replace = (value: unknown) => typeof value === 'string' ? value.replace(encodeURIComponent(from), encodeURIComponent(to)) : value
+  const moved: RepositoryItem = { ...item, path: to }
+
+  if (item.sk.startsWith('HMCLICK#')) {
+    if (item.gsi1pk !== undefined) moved.gsi1pk = replace(item.gsi1pk)
+  }
+  else {
+    moved.sk = item.sk.replace(`#${encodeURIComponent(from)}`, `#${encodeURIComponent(to)}`)
+    if (item.id !== undefined) moved.id = replace(item.id)
+  }
+
+  return moved
+}
+
+/**
+ * Migrations of this version's items
+ */
+export const DATA_MIGRATIONS: ItemMigration[] = [
+  {
+    version: 1,
+    name: 'session_entry_exit_paths',
+    description: 'Rename entryPage/exitPage of sessions to entryPath/exitPath',
+    beginsWith: 'SESSION#',
+    transform: (item) => {
+      if (item.entryPage === undefined && item.exitPage === undefined) return null
+
+      const { entryPage, exitPage, ...session } = item
+      return { ...session, entryPath: session.entryPath ?? entryPage, exitPath: session.exitPath ?? exitPage } as RepositoryItem
+    },
+  },
+  {
+    version: 2,
+    name: 'heatmap_pathnames',
+    description: 'Store heatmap paths as pathnames instead of full URLs, keeping the URL in `url`',
+    beginsWith: 'HM',
+    transform: (item) => {
+      const pathname = toPathname(item.path)
+      if (pathname === null) return null
+      return { ...moveHeatmapPath(item, item.path, pathname), url: item.path }
+    },
+    rollback: (item) => {
+      if (typeof item.url !== 'string' || typeof item.path !== 'string') return null
+      const { url, ...rest } = moveHeatmapPath(item, item.path, item.url)
+      return rest as RepositoryItem
+    },
+  },
+]
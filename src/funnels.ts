@@ -4,7 +4,7 @@
  * Tools for analyzing conversion funnels and user journeys.
  */
 
-import type { CustomEvent, PageView, Session } from './types'
+import type { CustomEvent, JourneyStep, PageView, Session } from './types'
 
 // ============================================================================
 // Types
@@ -76,6 +76,17 @@ export interface FunnelStepAnalysis {
   avgTimeOnStepMs?: number
 }
 
+export interface PageFlowTransition {
+  /** Page the visitor came from */
+  from: string
+  /** Page the visitor went to */
+  to: string
+  /** Number of sessions making this transition */
+  count: number
+  /** Average time between the two page views (ms) */
+  avgTimeMs: number
+}
+
 export interface UserJourney {
   /** Visitor ID */
   visitorId: string
@@ -207,6 +218,22 @@ export class FunnelAnalyzer {
     }
   }
 
+  /**
+   * Analyze funnel performance from the journeys stored on sessions
+   */
+  analyzeSessions(sessions: Session[]): FunnelAnalysis {
+    const { pageViews, events } = this.journeysToEvents(sessions)
+    return this.analyze(pageViews, events, sessions)
+  }
+
+  /**
+   * Get individual user journeys through the funnel from session journeys
+   */
+  getSessionJourneys(sessions: Session[]): UserJourney[] {
+    const { pageViews, events } = this.journeysToEvents(sessions)
+    return this.getJourneys(pageViews, events)
+  }
+
   /**
    * Get individual user journeys through the funnel
    */
@@ -218,6 +245,32 @@ export class FunnelAnalyzer {
     return this.analyzeJourneys(sessionEvents)
   }
 
+  private journeysToEvents(sessions: Session[]): { pageViews: PageView[], events: CustomEvent[] } {
+    const pageViews: PageView[] = []
+    const events: CustomEvent[] = []
+
+    for (const session of sessions) {
+      for (const step of getSessionJourney(session)) {
+        const base = {
+          id: `${session.id}:${step.timestamp}`,
+          siteId: session.siteId,
+          visitorId: session.visitorId,
+          sessionId: session.id,
+          path: step.path,
+          timestamp: new Date(step.timestamp),
+        }
+        if (step.type === 'event') {
+          events.push({ ...base, name: step.name || 'unnamed' })
+        }
+        else {
+          pageViews.push({ ...base, hostname: '', isUnique: false, isBounce: false })
+        }
+      }
+    }
+
+    return { pageViews, events }
+  }
+
   private groupBySession(
     pageViews: PageView[],
     events: CustomEvent[],
@@ -420,6 +473,62 @@ export class FunnelAnalyzer {
   }
 }
 
+// ============================================================================
+// Session Journeys
+// ============================================================================
+
+/**
+ * Append a step to a session journey.
+ * Journeys keep their first `maxSteps` steps so the entry and early funnel steps survive.
+ */
+export function appendJourneyStep(
+  journey: JourneyStep[] | undefined,
+  step: JourneyStep,
+  maxSteps: number,
+): JourneyStep[] {
+  const steps = journey || []
+  if (steps.length >= maxSteps) {
+    return steps
+  }
+  return [...steps, step]
+}
+
+/**
+ * Get a session's journey in chronological order
+ */
+export function getSessionJourney(session: Pick<Session, 'journey'>): JourneyStep[] {
+  return [...(session.journey || [])].sort((a, b) => a.timestamp.localeCompare(b.timestamp))
+}
+
+/**
+ * Count page-to-page transitions across sessions, up to `depth` transitions per session
+ */
+export function buildPageFlows(sessions: Array<Pick<Session, 'journey'>>, depth: number): PageFlowTransition[] {
+  const flows = new Map<string, { from: string, to: string, count: number, totalTimeMs: number }>()
+
+  for (const session of sessions) {
+    const pages = getSessionJourney(session).filter(step => step.type === 'pageview')
+    let transitions = 0
+
+    for (let i = 0; i < pages.length - 1 && transitions < depth; i++) {
+      const from = pages[i]
+      const to = pages[i + 1]
+      if (from.path === to.path) continue
+
+      const key = `${from.path}|${to.path}`
+      const flow = flows.get(key) || { from: from.path, to: to.path, count: 0, totalTimeMs: 0 }
+      flow.count++
+      flow.totalTimeMs += new Date(to.timestamp).getTime() - new Date(from.timestamp).getTime()
+      flows.set(key, flow)
+      transitions++
+    }
+  }
+
+  return Array.from(flows.values())
+    .map(({ totalTimeMs, ...flow }) => ({ ...flow, avgTimeMs: Math.round(totalTimeMs / flow.count) }))
+    .sort((a, b) => b.count - a.count)
+}
+
 // ============================================================================
 // Preset Funnels
 // ============================================================================
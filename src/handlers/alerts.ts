@@ -3,7 +3,7 @@
  */
 
 import { generateId } from '../index'
-import { dynamodb, TABLE_NAME, unmarshall, marshall } from '../lib/dynamodb'
+import { getRepository } from '../lib/repository'
 import { jsonResponse, errorResponse } from '../utils/response'
 import { getQueryParams } from '../../deploy/lambda-adapter'
 
@@ -40,10 +40,7 @@ export async function handleCreateAlert(request: Request, siteId: string): Promi
       createdAt: new Date().toISOString(),
     }
 
-    await dynamodb.putItem({
-      TableName: TABLE_NAME,
-      Item: marshall(alert),
-    })
+    await getRepository().put(alert)
 
     return jsonResponse({ alert }, 201)
   } catch (error) {
@@ -57,16 +54,7 @@ export async function handleCreateAlert(request: Request, siteId: string): Promi
  */
 export async function handleGetAlerts(request: Request, siteId: string): Promise<Response> {
   try {
-    const result = await dynamodb.query({
-      TableName: TABLE_NAME,
-      KeyConditionExpression: 'pk = :pk AND begins_with(sk, :prefix)',
-      ExpressionAttributeValues: {
-        ':pk': { S: `SITE#${siteId}` },
-        ':prefix': { S: 'ALERT#' },
-      },
-    }) as { Items?: any[] }
-
-    const alerts = (result.Items || []).map(unmarshall)
+    const alerts = await getRepository().query({ pk: `SITE#${siteId}`, beginsWith: 'ALERT#' })
 
     return jsonResponse({ alerts })
   } catch (error) {
@@ -80,13 +68,7 @@ export async function handleGetAlerts(request: Request, siteId: string): Promise
  */
 export async function handleDeleteAlert(_request: Request, siteId: string, alertId: string): Promise<Response> {
   try {
-    await dynamodb.deleteItem({
-      TableName: TABLE_NAME,
-      Key: marshall({
-        pk: `SITE#${siteId}`,
-        sk: `ALERT#${alertId}`,
-      }),
-    })
+    await getRepository().delete({ pk: `SITE#${siteId}`, sk: `ALERT#${alertId}` })
 
     return jsonResponse({ success: true })
   } catch (error) {
@@ -125,10 +107,7 @@ export async function handleCreateEmailReport(request: Request, siteId: string):
       createdAt: new Date().toISOString(),
     }
 
-    await dynamodb.putItem({
-      TableName: TABLE_NAME,
-      Item: marshall(report),
-    })
+    await getRepository().put(report)
 
     return jsonResponse({ report }, 201)
   } catch (error) {
@@ -142,16 +121,7 @@ export async function handleCreateEmailReport(request: Request, siteId: string):
  */
 export async function handleGetEmailReports(request: Request, siteId: string): Promise<Response> {
   try {
-    const result = await dynamodb.query({
-      TableName: TABLE_NAME,
-      KeyConditionExpression: 'pk = :pk AND begins_with(sk, :prefix)',
-      ExpressionAttributeValues: {
-        ':pk': { S: `SITE#${siteId}` },
-        ':prefix': { S: 'EMAIL_REPORT#' },
-      },
-    }) as { Items?: any[] }
-
-    const reports = (result.Items || []).map(unmarshall)
+    const reports = await getRepository().query({ pk: `SITE#${siteId}`, beginsWith: 'EMAIL_REPORT#' })
 
     return jsonResponse({ reports })
   } catch (error) {
@@ -165,13 +135,7 @@ export async function handleGetEmailReports(request: Request, siteId: string): P
  */
 export async function handleDeleteEmailReport(_request: Request, siteId: string, reportId: string): Promise<Response> {
   try {
-    await dynamodb.deleteItem({
-      TableName: TABLE_NAME,
-      Key: marshall({
-        pk: `SITE#${siteId}`,
-        sk: `EMAIL_REPORT#${reportId}`,
-      }),
-    })
+    await getRepository().delete({ pk: `SITE#${siteId}`, sk: `EMAIL_REPORT#${reportId}` })
 
     return jsonResponse({ success: true })
   } catch (error) {
@@ -3,7 +3,7 @@
  */
 
 import { generateId } from '../index'
-import { dynamodb, TABLE_NAME, unmarshall, marshall } from '../lib/dynamodb'
+import { getRepository } from '../lib/repository'
 import { parseDateRange } from '../utils/date'
 import { jsonResponse, errorResponse } from '../utils/response'
 import { getQueryParams } from '../../deploy/lambda-adapter'
@@ -33,10 +33,7 @@ export async function handleCreateAnnotation(request: Request, siteId: string):
       createdBy: body.createdBy || 'system',
     }
 
-    await dynamodb.putItem({
-      TableName: TABLE_NAME,
-      Item: marshall(annotation),
-    })
+    await getRepository().put(annotation)
 
     return jsonResponse({ annotation }, 201)
   } catch (error) {
@@ -53,17 +50,10 @@ export async function handleGetAnnotations(request: Request, siteId: string): Pr
     const query = getQueryParams(request)
     const { startDate, endDate } = parseDateRange(query)
 
-    const result = await dynamodb.query({
-      TableName: TABLE_NAME,
-      KeyConditionExpression: 'pk = :pk AND sk BETWEEN :start AND :end',
-      ExpressionAttributeValues: {
-        ':pk': { S: `SITE#${siteId}` },
-        ':start': { S: `ANNOTATION#${startDate.toISOString()}` },
-        ':end': { S: `ANNOTATION#${endDate.toISOString()}Z` },
-      },
-    }) as { Items?: any[] }
-
-    const annotations = (result.Items || []).map(unmarshall)
+    const annotations = (await getRepository().query({
+      pk: `SITE#${siteId}`,
+      between: [`ANNOTATION#${startDate.toISOString()}`, `ANNOTATION#${endDate.toISOString()}Z`],
+    }))
       .sort((a, b) => new Date(a.timestamp).getTime() - new Date(b.timestamp).getTime())
 
     return jsonResponse({ annotations })
@@ -83,37 +73,16 @@ export async function handleDeleteAnnotation(request: Request, siteId: string, a
 
     if (!timestamp) {
       // Need to find the annotation first
-      const result = await dynamodb.query({
-        TableName: TABLE_NAME,
-        KeyConditionExpression: 'pk = :pk AND begins_with(sk, :prefix)',
-        ExpressionAttributeValues: {
-          ':pk': { S: `SITE#${siteId}` },
-          ':prefix': { S: 'ANNOTATION#' },
-        },
-      }) as { Items?: any[] }
-
-      const annotations = (result.Items || []).map(unmarshall)
+      const annotations = await getRepository().query({ pk: `SITE#${siteId}`, beginsWith: 'ANNOTATION#' })
       const annotation = annotations.find(a => a.id === annotationId)
 
       if (!annotation) {
         return jsonResponse({ error: 'Annotation not found' }, 404)
       }
 
-      await dynamodb.deleteItem({
-        TableName: TABLE_NAME,
-        Key: marshall({
-          pk: `SITE#${siteId}`,
-          sk: annotation.sk,
-        }),
-      })
+      await getRepository().delete({ pk: `SITE#${siteId}`, sk: annotation.sk })
     } else {
-      await dynamodb.deleteItem({
-        TableName: TABLE_NAME,
-        Key: marshall({
-          pk: `SITE#${siteId}`,
-          sk: `ANNOTATION#${timestamp}#${annotationId}`,
-        }),
-      })
+      await getRepository().delete({ pk: `SITE#${siteId}`, sk: `ANNOTATION#${timestamp}#${annotationId}` })
     }
 
     return jsonResponse({ success: true })
@@ -3,7 +3,7 @@
  */
 
 import { generateId } from '../index'
-import { dynamodb, TABLE_NAME, unmarshall, marshall } from '../lib/dynamodb'
+import { getRepository } from '../lib/repository'
 import { jsonResponse, errorResponse } from '../utils/response'
 import { getQueryParams } from '../../deploy/lambda-adapter'
 
@@ -19,6 +19,15 @@ function generateApiKey(): string {
   return key
 }
 
+/**
+ * Permissions an API key can be granted
+ *
+ * - `read`: dashboard/API read access
+ * - `error-tracking`: POST /errors/collect
+ * - `ingest`: POST /api/ingest (server-side events)
+ */
+export const API_KEY_PERMISSIONS = ['read', 'error-tracking', 'ingest'] as const
+
 /**
  * Token validation result
  */
@@ -55,23 +64,14 @@ export async function handleValidateApiKey(
 
   try {
     // Query GSI1 to look up key by value
-    const queryResult = await dynamodb.query({
-      TableName: TABLE_NAME,
-      IndexName: 'GSI1',
-      KeyConditionExpression: 'gsi1pk = :pk',
-      ExpressionAttributeValues: {
-        ':pk': { S: `API_KEY#${token}` },
-      },
-    }) as { Items?: any[] }
+    const [keyRecord] = await getRepository().query({ index: 'gsi1', pk: `API_KEY#${token}`, limit: 1 })
 
-    if (!queryResult.Items || queryResult.Items.length === 0) {
+    if (!keyRecord) {
       const invalid = { valid: false } as const
       tokenCache.set(`${token}:${requiredPermission}`, { result: invalid, expires: Date.now() + 60_000 })
       return invalid
     }
 
-    const keyRecord = unmarshall(queryResult.Items[0])
-
     if (!keyRecord.isActive) {
       return { valid: false }
     }
@@ -91,19 +91,11 @@ export async function handleValidateApiKey(
     tokenCache.set(`${token}:${requiredPermission}`, { result, expires: Date.now() + 5 * 60 * 1000 })
 
     // Fire-and-forget: update lastUsed and usageCount
-    dynamodb.updateItem({
-      TableName: TABLE_NAME,
-      Key: {
-        pk: { S: `SITE#${keyRecord.siteId}` },
-        sk: { S: `API_KEY#${keyRecord.id}` },
-      },
-      UpdateExpression: 'SET lastUsed = :now, usageCount = if_not_exists(usageCount, :zero) + :one',
-      ExpressionAttributeValues: {
-        ':now': { S: new Date().toISOString() },
-        ':zero': { N: '0' },
-        ':one': { N: '1' },
-      },
-    }).catch(e => console.error('Failed to update API key usage:', e))
+    getRepository().increment(
+      { pk: `SITE#${keyRecord.siteId}`, sk: `API_KEY#${keyRecord.id}` },
+      { usageCount: 1 },
+      { set: { lastUsed: new Date().toISOString() } },
+    ).catch(e => console.error('Failed to update API key usage:', e))
 
     return result
   } catch (error) {
@@ -123,6 +115,14 @@ export async function handleCreateApiKey(request: Request, siteId: string): Prom
       return jsonResponse({ error: 'Missing required field: name' }, 400)
     }
 
+    const permissions: string[] = body.permissions || ['read']
+    const unknown = Array.isArray(permissions)
+      ? permissions.filter(p => !(API_KEY_PERMISSIONS as readonly string[]).includes(p))
+      : [String(permissions)]
+    if (unknown.length > 0) {
+      return jsonResponse({ error: `Unknown permission: ${unknown.join(', ')}` }, 400)
+    }
+
     const keyId = generateId()
     const apiKey = generateApiKey()
     const keyRecord = {
@@ -135,17 +135,14 @@ export async function handleCreateApiKey(request: Request, siteId: string): Prom
       name: body.name,
       key: apiKey,
       keyPrefix: apiKey.slice(0, 8),
-      permissions: body.permissions || ['read'],
+      permissions,
       lastUsed: null,
       usageCount: 0,
       isActive: true,
       createdAt: new Date().toISOString(),
     }
 
-    await dynamodb.putItem({
-      TableName: TABLE_NAME,
-      Item: marshall(keyRecord),
-    })
+    await getRepository().put(keyRecord)
 
     // Return full key only on creation
     return jsonResponse({
@@ -168,16 +165,7 @@ export async function handleCreateApiKey(request: Request, siteId: string): Prom
  */
 export async function handleGetApiKeys(request: Request, siteId: string): Promise<Response> {
   try {
-    const result = await dynamodb.query({
-      TableName: TABLE_NAME,
-      KeyConditionExpression: 'pk = :pk AND begins_with(sk, :prefix)',
-      ExpressionAttributeValues: {
-        ':pk': { S: `SITE#${siteId}` },
-        ':prefix': { S: 'API_KEY#' },
-      },
-    }) as { Items?: any[] }
-
-    const apiKeys = (result.Items || []).map(unmarshall).map(key => ({
+    const apiKeys = (await getRepository().query({ pk: `SITE#${siteId}`, beginsWith: 'API_KEY#' })).map(key => ({
       id: key.id,
       name: key.name,
       keyPrefix: key.keyPrefix,
@@ -200,13 +188,7 @@ export async function handleGetApiKeys(request: Request, siteId: string): Promis
  */
 export async function handleDeleteApiKey(_request: Request, siteId: string, keyId: string): Promise<Response> {
   try {
-    await dynamodb.deleteItem({
-      TableName: TABLE_NAME,
-      Key: marshall({
-        pk: `SITE#${siteId}`,
-        sk: `API_KEY#${keyId}`,
-      }),
-    })
+    await getRepository().delete({ pk: `SITE#${siteId}`, sk: `API_KEY#${keyId}` })
 
     return jsonResponse({ success: true })
   } catch (error) {
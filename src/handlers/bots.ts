@@ -0,0 +1,115 @@
+/**
+ * Bot traffic handlers
+ */
+
+import { createReportReader } from '../lib/reports'
+import { getRepository } from '../lib/repository'
+import { invalidateBotRulesCache } from '../lib/bots'
+import { normalizeBotRules } from '../utils/bot-filter'
+import { parseDateRange } from '../utils/date'
+import { jsonResponse, errorResponse } from '../utils/response'
+import { getQueryParams } from '../../deploy/lambda-adapter'
+
+/**
+ * GET /api/sites/{siteId}/bots
+ */
+export async function handleGetBotTraffic(request: Request, siteId: string): Promise<Response> {
+  try {
+    const reader = createReportReader()
+    const query = getQueryParams(request)
+    const { startDate, endDate } = parseDateRange(query)
+
+    const rows = await reader.query({
+      pk: `SITE#${siteId}`,
+      between: [`BOTSTATS#${startDate.toISOString().slice(0, 10)}`, `BOTSTATS#${endDate.toISOString().slice(0, 10)}#\uffff`],
+    })
+
+    let totalHits = 0
+    let totalPageviews = 0
+    const byReason: Record<string, number> = {}
+    const byDetail: Record<string, { reason: string; detail: string; hits: number; lastSeen: string }> = {}
+    const byDate: Record<string, number> = {}
+
+    for (const row of rows) {
+      const hits = row.hits || 0
+      totalHits += hits
+      totalPageviews += row.pageviews || 0
+      byReason[row.reason] = (byReason[row.reason] || 0) + hits
+      byDate[row.date] = (byDate[row.date] || 0) + hits
+
+      const key = `${row.reason}#${row.detail}`
+      if (!byDetail[key]) {
+        byDetail[key] = { reason: row.reason, detail: row.detail, hits: 0, lastSeen: row.lastSeen }
+      }
+      byDetail[key].hits += hits
+      if (row.lastSeen > byDetail[key].lastSeen) byDetail[key].lastSeen = row.lastSeen
+    }
+
+    return jsonResponse({
+      totalHits,
+      totalPageviews,
+      reasons: Object.entries(byReason)
+        .map(([reason, hits]) => ({ reason, hits }))
+        .sort((a, b) => b.hits - a.hits),
+      sources: Object.values(byDetail)
+        .sort((a, b) => b.hits - a.hits)
+        .slice(0, 50),
+      timeseries: Object.entries(byDate)
+        .map(([date, hits]) => ({ date, hits }))
+        .sort((a, b) => a.date.localeCompare(b.date)),
+      complete: reader.complete,
+    })
+  } catch (error) {
+    console.error('Get bot traffic error:', error)
+    return errorResponse('Failed to fetch bot traffic')
+  }
+}
+
+/**
+ * GET /api/sites/{siteId}/bots/rules
+ */
+export async function handleGetBotRules(request: Request, siteId: string): Promise<Response> {
+  try {
+    const item = await getRepository().get({ pk: `SITE#${siteId}`, sk: 'BOT_RULES' })
+
+    const rules = item ? normalizeBotRules(item.rules) : []
+
+    return jsonResponse({ rules })
+  } catch (error) {
+    console.error('Get bot rules error:', error)
+    return errorResponse('Failed to fetch bot rules')
+  }
+}
+
+/**
+ * PUT /api/sites/{siteId}/bots/rules
+ */
+export async function handleUpdateBotRules(request: Request, siteId: string): Promise<Response> {
+  try {
+    const body = await request.json() as Record<string, any>
+
+    if (!Array.isArray(body.rules)) {
+      return jsonResponse({ error: 'Missing required field: rules' }, 400)
+    }
+
+    const rules = normalizeBotRules(body.rules)
+    if (rules.length !== body.rules.length) {
+      return jsonResponse({ error: 'Each rule needs a type (userAgent, ip or path) and a pattern' }, 400)
+    }
+
+    await getRepository().put({
+      pk: `SITE#${siteId}`,
+      sk: 'BOT_RULES',
+      siteId,
+      rules,
+      updatedAt: new Date().toISOString(),
+    })
+
+    invalidateBotRulesCache(siteId)
+
+    return jsonResponse({ rules })
+  } catch (error) {
+    console.error('Update bot rules error:', error)
+    return errorResponse('Failed to update bot rules')
+  }
+}
@@ -3,184 +3,542 @@
  */
 
 import {
+  appendJourneyStep,
+  applyRetentionTtl,
   generateId,
+  getConfig,
   hashVisitorId,
   getDailySalt,
+  isQueuedEventType,
   type AnalyticsEvent,
+  type RepositoryItem,
 } from '../index'
-import type { Session as SessionType } from '../../src/types'
+import type { JourneyStep, Session as SessionType } from '../../src/types'
 import {
   PageView as PageViewModel,
   Session as SessionModel,
   CustomEvent as CustomEventModel,
   HeatmapClick,
   HeatmapMovement,
-  HeatmapScroll,
 } from '../../src/models/orm'
-import { dynamodb, TABLE_NAME, unmarshall, marshall } from '../lib/dynamodb'
+import { getRepository } from '../lib/repository'
+import { getRetentionSettings } from '../lib/retention'
 import { getSQSProducer, isSQSEnabled } from '../lib/sqs'
 import { checkAndRecordConversions } from '../lib/goals'
-import { getSession, setSession } from '../utils/cache'
+import { addRealtimeCounters } from '../lib/counters'
+import { markLatePeriods } from '../lib/aggregation'
+import { getBotRulesForSite, recordBotHit } from '../lib/bots'
+import { getReferrerRuleContext } from '../lib/referrers'
+import { recordEngagedTime } from '../lib/engagement'
+import { claimOrder } from '../lib/ecommerce'
+import { getSiteRecord } from '../lib/sites'
+import { recordRejectedPayload } from '../lib/payloads'
+import { checkRateLimit, getClientRateLimitKey, throttledResponse } from '../lib/rate-limit'
+import { compareAndSetSession, getSession, setSession } from '../utils/cache'
 import { parseUserAgent } from '../utils/user-agent'
+import { detectBot } from '../utils/bot-filter'
+import { isDroppedReferrer, resolveReferrer, type ReferrerResolution } from '../utils/referrer-rules'
+import { deriveSessionId, getSessionBoundary, getSessionHeadKey, isSessionBoundaryType, SESSION_HEAD_TTL_SECONDS } from '../utils/session-boundaries'
+import { getSessionDuration, isBounceSession, normalizeEngagedTime } from '../utils/engagement'
+import { getTrafficSource, normalizeEcommerceEvent, ORDER_ACTIONS } from '../utils/ecommerce'
+import { DEFAULT_EVENT_PROPERTY_LIMITS, sanitizeEventProperties } from '../utils/event-properties'
+import { validateCollectPayload, type PayloadRejection } from '../utils/payload-schema'
 import { getCountryFromHeaders, getCountryFromIP, parseReferrerSource } from '../utils/geolocation'
 import { jsonResponse, errorResponse } from '../utils/response'
-import { getLambdaEvent, getClientIP, getUserAgent, getHeaders } from '../../deploy/lambda-adapter'
-import { ensureSiteExists } from './misc'
+import { getClientIP, getUserAgent, getHeaders } from '../../deploy/lambda-adapter'
+import { admitSiteEvent, type SiteAdmission } from './misc'
+
+/** Maximum number of events accepted by one batch request */
+export const MAX_BATCH_EVENTS = 100
 
 /**
- * POST /collect or /t
+ * Request-level data shared by every event in a request
  */
-export async function handleCollect(request: Request): Promise<Response> {
+export interface CollectContext {
+  ip: string
+  userAgent: string
+  headers: Record<string, string>
+  /** Country supplied by the caller (server-side ingest), skips geolocation */
+  country?: string
+  /** Event hostname is outside the site's domains (accepted under a `tag` policy) */
+  foreign?: boolean
+  /** Pageview referrer after the site's referrer rules */
+  referrer?: ReferrerResolution
+}
+
+/**
+ * Session being updated while a request's events are processed
+ */
+export interface SessionState {
+  key: string
+  siteId: string
+  /** Session ID sent by the client */
+  clientSessionId: string
+  /** ID hits are recorded under - derived from the client's ID once a boundary splits the session */
+  sessionId: string
+  session: SessionType | null
+  /** Cache version the session was loaded at (null: not cached) */
+  version: number | null
+  /** Changes made since the session was loaded, replayed when another request updated it meanwhile */
+  updates: SessionUpdate[]
+  dirty: boolean
+  /** A boundary started a new session; the client ID must be pointed at it */
+  headDirty: boolean
+}
+
+/**
+ * A change to the session, returning the session to keep
+ */
+export type SessionUpdate = (session: SessionType | null) => SessionType | null
+
+/**
+ * Persists a fully-keyed item (direct putItem, or a batch queue)
+ */
+export type ItemWriter = (item: Record<string, any>) => Promise<void> | void
+
+/**
+ * Batch event that passed validation, bot filtering and the site policy
+ */
+interface AcceptedEvent {
+  index: number
+  payload: Record<string, any>
+  url: URL
+  /** Request context with the event's own policy and referrer outcome */
+  ctx: CollectContext
+}
+
+export interface CollectBatchResult {
+  index: number
+  status: 'accepted' | 'rejected' | 'filtered'
+  error?: string
+  /** Structured reason when the payload failed validation */
+  rejection?: PayloadRejection
+}
+
+function getCollectContext(request: Request): CollectContext {
+  return {
+    ip: getClientIP(request),
+    userAgent: getUserAgent(request),
+    headers: getHeaders(request),
+  }
+}
+
+/**
+ * Origin of the page that sent the request, used to upgrade relative URLs
+ */
+function getRequestOrigin(request: Request): string | undefined {
+  const origin = request.headers.get('origin') || request.headers.get('referer')
+  if (!origin) return undefined
+
   try {
-    const payload = await request.json() as Record<string, any>
+    return new URL(origin).origin
+  } catch {
+    return undefined
+  }
+}
 
-    if (!payload?.s || !payload?.e || !payload?.u) {
-      return jsonResponse({ error: 'Missing required fields: s, e, u' }, 400)
-    }
+/**
+ * Validate a payload against the tracking protocol.
+ * Rejections are counted per site when the payload names one.
+ */
+export async function validatePayload(
+  raw: unknown,
+  source: string,
+  origin?: string,
+): Promise<{ payload: Record<string, any>, url: URL } | { rejection: PayloadRejection }> {
+  const result = validateCollectPayload(raw, { origin })
+  if (result.valid) {
+    return { payload: result.payload, url: result.url }
+  }
 
-    // Parse URL early to get hostname for site creation
-    let parsedUrlForSite: URL
-    try {
-      parsedUrlForSite = new URL(payload.u)
-    } catch {
-      return jsonResponse({ error: 'Invalid URL' }, 400)
-    }
+  const siteId = (raw as Record<string, any> | null)?.s
+  if (typeof siteId === 'string' && siteId && siteId.length <= 100) {
+    await recordRejectedPayload(siteId, result.rejection, source)
+  }
+  return { rejection: result.rejection }
+}
+
+/**
+ * Run the bot filter; filtered hits of known sites are counted in the bot rollup.
+ * Runs ahead of site admission so crawlers never auto-create sites, which is why
+ * hits under unknown site ids are dropped without a rollup write.
+ */
+async function isFilteredBot(payload: Record<string, any>, url: URL, ctx: CollectContext): Promise<boolean> {
+  const botCheck = detectBot({
+    userAgent: ctx.userAgent,
+    ip: ctx.ip,
+    path: url.pathname,
+    hints: payload.hl,
+    rules: await getBotRulesForSite(payload.s),
+  })
 
-    // Ensure site exists (auto-create if first event)
-    await ensureSiteExists(payload.s, parsedUrlForSite.hostname)
+  if (botCheck.isBot && await getSiteRecord(payload.s).catch(() => null)) {
+    await recordBotHit(payload.s, botCheck, payload.e)
+  }
 
-    const event = getLambdaEvent(request)
-    const ip = getClientIP(request)
-    const userAgent = getUserAgent(request)
-    const headers = getHeaders(request)
+  return botCheck.isBot
+}
 
-    // SQS Fast Path - Queue events for async processing
-    if (isSQSEnabled()) {
-      try {
-        const producer = await getSQSProducer()
-        if (producer) {
-          const timestamp = new Date()
-          const salt = getDailySalt()
-          const visitorId = await hashVisitorId(ip, userAgent, payload.s, salt)
-
-          const deviceInfo = parseUserAgent(userAgent)
-          const browser = payload.br || deviceInfo.browser
-          const referrerSource = parseReferrerSource(payload.r)
-
-          let parsedUrl: URL
-          try {
-            parsedUrl = new URL(payload.u)
-          } catch {
-            return jsonResponse({ error: 'Invalid URL' }, 400)
-          }
-
-          const country = getCountryFromHeaders(headers)
-
-          const analyticsEvent: AnalyticsEvent = {
-            type: payload.e === 'pageview' ? 'pageview' : 'event',
-            siteId: payload.s,
-            timestamp: timestamp.toISOString(),
-            data: {
-              id: generateId(),
-              siteId: payload.s,
-              visitorId,
-              sessionId: payload.sid,
-              path: parsedUrl.pathname,
-              hostname: parsedUrl.hostname,
-              title: payload.t,
-              referrer: payload.r,
-              referrerSource,
-              utmSource: parsedUrl.searchParams.get('utm_source') || undefined,
-              utmMedium: parsedUrl.searchParams.get('utm_medium') || undefined,
-              utmCampaign: parsedUrl.searchParams.get('utm_campaign') || undefined,
-              deviceType: deviceInfo.deviceType as 'desktop' | 'mobile' | 'tablet' | 'unknown',
-              browser,
-              os: deviceInfo.os,
-              country,
-              screenWidth: payload.sw,
-              screenHeight: payload.sh,
-              isUnique: true,
-              isBounce: true,
-              timestamp,
-              ...(payload.e === 'event' && payload.p && {
-                name: payload.p.name || 'unnamed',
-                value: payload.p.value,
-                properties: payload.p,
-              }),
-            },
-          }
-
-          await producer.sendEvent(analyticsEvent)
-          console.log(`[Collect] Queued ${payload.e} event to SQS for site ${payload.s}`)
+/**
+ * Apply the site's referrer rules to a pageview and keep the outcome on `ctx`.
+ * Returns true for spam and blocked referrers; those hits are counted in the bot rollup.
+ */
+export async function applyReferrerRules(payload: Record<string, any>, ctx: CollectContext): Promise<boolean> {
+  if (payload.e !== 'pageview') return false
 
-          return new Response(null, { status: 204 })
+  const resolution = resolveReferrer(payload.r, await getReferrerRuleContext(payload.s))
+  if (isDroppedReferrer(resolution)) {
+    await recordBotHit(payload.s, { isBot: true, reason: 'referrer_spam', detail: resolution.detail }, payload.e)
+    return true
+  }
+
+  ctx.referrer = resolution
+  return false
+}
+
+/**
+ * Name, value and stored properties of a custom event (`p: { name, value, ...props }`)
+ */
+function getEventFields(payload: Record<string, any>): { name: string, value?: number, properties?: Record<string, string | number | boolean> } {
+  const props = payload.p || {}
+  const { tracking } = getConfig()
+
+  return {
+    name: String(props.name || 'unnamed'),
+    value: typeof props.value === 'number' ? props.value : undefined,
+    properties: sanitizeEventProperties(props, {
+      ...DEFAULT_EVENT_PROPERTY_LIMITS,
+      maxKeys: tracking.maxEventProperties,
+      maxValueLength: tracking.maxEventPropertyLength,
+    }),
+  }
+}
+
+/**
+ * Engaged time (milliseconds) reported by a pageleave event
+ */
+function getEngagedTime(payload: Record<string, any>): number {
+  return normalizeEngagedTime(payload.p?.engagedMs, getConfig().sessions.inactivityTimeoutMinutes * 60 * 1000)
+}
+
+/**
+ * Build the queued representation of a payload for the SQS consumer (queued types only)
+ */
+function toAnalyticsEvent(payload: Record<string, any>, url: URL, ctx: CollectContext, visitorId: string, timestamp: Date): AnalyticsEvent {
+  const deviceInfo = parseUserAgent(ctx.userAgent)
+  const referrer = ctx.referrer ?? { referrer: payload.r, source: parseReferrerSource(payload.r) }
+
+  return {
+    type: payload.e,
+    siteId: payload.s,
+    timestamp: timestamp.toISOString(),
+    data: {
+      id: generateId(),
+      siteId: payload.s,
+      visitorId,
+      sessionId: payload.sid,
+      path: url.pathname,
+      hostname: url.hostname,
+      title: payload.t,
+      referrer: referrer.referrer,
+      referrerSource: referrer.source,
+      utmSource: url.searchParams.get('utm_source') || undefined,
+      utmMedium: url.searchParams.get('utm_medium') || undefined,
+      utmCampaign: url.searchParams.get('utm_campaign') || undefined,
+      deviceType: deviceInfo.deviceType as 'desktop' | 'mobile' | 'tablet' | 'unknown',
+      browser: payload.br || deviceInfo.browser,
+      os: deviceInfo.os,
+      country: getCountryFromHeaders(ctx.headers),
+      screenWidth: payload.sw,
+      screenHeight: payload.sh,
+      isUnique: true,
+      isBounce: true,
+      foreign: ctx.foreign || undefined,
+      timestamp,
+      ...(payload.e === 'event' && getEventFields(payload)),
+      ...(payload.e === 'pageleave' && { timeOnPage: getEngagedTime(payload) }),
+      ...(payload.e === 'ecommerce' && normalizeEcommerceEvent(payload.p || {}, getConfig().ecommerce.defaultCurrency)),
+    },
+  }
+}
+
+/**
+ * Load the current session for a client session ID from the cache, falling back to storage
+ */
+export async function loadSession(siteId: string, clientSessionId: string): Promise<SessionState> {
+  const key = `${siteId}:${clientSessionId}`
+  const cached = await getSession(key)
+  let session = cached?.session ?? null
+  let sessionId = session?.id || clientSessionId
+
+  // Load session from storage if not in cache
+  if (!session) {
+    try {
+      // Sessions split off by a boundary are found through the client ID's head item
+      const repository = getRepository()
+      const headItem = await repository.get(getSessionHeadKey(siteId, clientSessionId))
+      if (headItem) {
+        sessionId = headItem.sessionId || clientSessionId
+      }
+
+      const sessionItem = await repository.get({ pk: `SITE#${siteId}`, sk: `SESSION#${sessionId}` })
+      if (sessionItem) {
+        session = sessionItem as unknown as SessionType
+        if (typeof session.startedAt === 'string') {
+          session.startedAt = new Date(session.startedAt)
         }
-      } catch (sqsError) {
-        console.error('[Collect] SQS send failed, falling back to direct write:', sqsError)
       }
+    } catch (e) {
+      console.log('[Collect] Failed to load session from DB:', e)
     }
+  }
 
-    // Direct Write Path
-    console.log(`[Collect] IP: ${ip}, UA: ${userAgent?.substring(0, 50)}...`)
-    const salt = getDailySalt()
-    const visitorId = await hashVisitorId(ip, userAgent, payload.s, salt)
+  return { key, siteId, clientSessionId, sessionId, session, version: cached?.version ?? null, updates: [], dirty: false, headDirty: false }
+}
 
-    let parsedUrl: URL
-    try {
-      parsedUrl = new URL(payload.u)
-    } catch {
-      return jsonResponse({ error: 'Invalid URL' }, 400)
+/**
+ * Apply a change to the session and mark it dirty
+ */
+function updateSession(state: SessionState, update: SessionUpdate): void {
+  state.session = update(state.session)
+  state.updates.push(update)
+  state.dirty = true
+}
+
+const SESSION_CACHE_ATTEMPTS = 3
+
+/**
+ * The session with its write version bumped
+ */
+function nextSessionVersion(session: SessionType): SessionType {
+  return { ...session, version: (session.version ?? 0) + 1 }
+}
+
+/**
+ * Compare-and-set the session in the cache. When another request changed it since
+ * it was loaded, this request's updates are applied again to the cached session;
+ * after SESSION_CACHE_ATTEMPTS conflicts the last write wins. Each attempt bumps the
+ * session's version, so the one that lands in the cache is above the ones before it.
+ */
+async function cacheSession(state: SessionState): Promise<void> {
+  for (let attempt = 0; attempt < SESSION_CACHE_ATTEMPTS && state.session; attempt++) {
+    state.session = nextSessionVersion(state.session)
+    const version = await compareAndSetSession(state.key, state.session, state.version)
+    if (version !== null) {
+      state.version = version
+      return
     }
 
-    const timestamp = new Date()
-    const sessionId = payload.sid
+    const cached = await getSession(state.key)
+    state.version = cached?.version ?? null
+    state.session = state.updates.reduce<SessionType | null>((session, update) => update(session), cached?.session ?? null)
+  }
 
-    const sessionKey = `${payload.s}:${sessionId}`
-    let session = getSession(sessionKey)
+  if (state.session) {
+    console.warn(`[Collect] Session ${state.key} kept changing, overwriting it`)
+    state.session = nextSessionVersion(state.session)
+    state.version = await setSession(state.key, state.session)
+  }
+}
 
-    // Load session from DynamoDB if not in cache
-    if (!session) {
-      try {
-        const sessionResult = await dynamodb.getItem({
-          TableName: TABLE_NAME,
-          Key: {
-            pk: { S: `SITE#${payload.s}` },
-            sk: { S: `SESSION#${sessionId}` },
-          },
-        })
-        if (sessionResult.Item) {
-          session = unmarshall(sessionResult.Item) as SessionType
-          if (typeof session.startedAt === 'string') {
-            session.startedAt = new Date(session.startedAt)
-          }
-          setSession(sessionKey, session)
-        }
-      } catch (e) {
-        console.log('[Collect] Failed to load session from DB:', e)
-      }
+/**
+ * Store a session unless storage already holds a later version of it, e.g. from a
+ * request that lost the cache race to this one but stored its session first
+ */
+async function storeSession(session: SessionType): Promise<void> {
+  const item = applyRetentionTtl(SessionModel.toItem(session), await getRetentionSettings(session.siteId))
+  const stored = await getRepository().put(item as RepositoryItem, { below: { version: session.version ?? 0 } })
+  if (!stored) {
+    console.log(`[Collect] Skipped stale write of session ${session.id} (version ${session.version})`)
+  }
+}
+
+/**
+ * Write a changed session and refresh the cache. The session itself is always
+ * stored directly with a version condition; `write` only gets its head item.
+ */
+export async function persistSession(state: SessionState, write: ItemWriter): Promise<void> {
+  if (state.headDirty) {
+    await write({
+      ...getSessionHeadKey(state.siteId, state.clientSessionId),
+      siteId: state.siteId,
+      sessionId: state.sessionId,
+      updatedAt: new Date().toISOString(),
+      ttl: Math.floor(Date.now() / 1000) + SESSION_HEAD_TTL_SECONDS,
+    })
+    state.headDirty = false
+  }
+
+  if (!state.session || !state.dirty) return
+
+  await cacheSession(state)
+  if (state.session) {
+    await storeSession(state.session)
+  }
+  state.updates = []
+  state.dirty = false
+}
+
+/**
+ * Start a new session when the hit crosses a session boundary
+ *
+ * The current session is written first. Pageviews then create the new session as
+ * usual; other hits get one that keeps the visitor's device and location.
+ */
+async function applySessionBoundary(
+  payload: Record<string, any>,
+  parsedUrl: URL,
+  ctx: CollectContext,
+  state: SessionState,
+  write: ItemWriter,
+  timestamp: Date,
+): Promise<void> {
+  const previous = state.session
+  if (!previous || !isSessionBoundaryType(payload.e)) return
+
+  const { sessions } = getConfig()
+  const site = sessions.splitAtMidnight ? await getSiteRecord(payload.s).catch(() => null) : null
+  const referrer = ctx.referrer ?? { referrer: payload.r, source: parseReferrerSource(payload.r) }
+
+  const boundary = getSessionBoundary(previous, {
+    timestamp,
+    type: payload.e,
+    hostname: parsedUrl.hostname,
+    referrer: referrer.referrer,
+    referrerSource: referrer.source,
+    utmSource: parsedUrl.searchParams.get('utm_source') || undefined,
+    utmCampaign: parsedUrl.searchParams.get('utm_campaign') || undefined,
+  }, { ...sessions, timezone: site?.timezone })
+  if (!boundary) return
+
+  await persistSession(state, write)
+
+  const sessionId = deriveSessionId(state.clientSessionId, timestamp)
+  state.sessionId = sessionId
+  state.headDirty = true
+  // Another request may already have started the new session
+  updateSession(state, (current) => {
+    if (current?.id === sessionId) return current
+    if (payload.e === 'pageview') return null
+    return {
+      id: sessionId,
+      siteId: payload.s,
+      visitorId: previous.visitorId,
+      entryPath: parsedUrl.pathname,
+      exitPath: parsedUrl.pathname,
+      deviceType: previous.deviceType,
+      browser: previous.browser,
+      os: previous.os,
+      country: previous.country,
+      pageViewCount: 0,
+      eventCount: 0,
+      isBounce: true,
+      duration: 0,
+      startedAt: timestamp,
+      endedAt: timestamp,
+      journey: [],
     }
+  })
+  console.log(`[Collect] Session ${state.clientSessionId} split (${boundary}) into ${state.sessionId}`)
+}
+
+/**
+ * Add a page or event step to the session journey
+ */
+function addJourneyStep(session: SessionType, step: JourneyStep): void {
+  session.journey = appendJourneyStep(session.journey, step, getConfig().tracking.maxJourneySteps)
+}
+
+/**
+ * Extend a session to cover `timestamp` (backfilled events may land before its start)
+ */
+function touchSession(session: SessionType, timestamp: Date): void {
+  let startedAt = session.startedAt instanceof Date ? session.startedAt : new Date(session.startedAt)
+  let endedAt = session.endedAt ? new Date(session.endedAt) : startedAt
+  if (timestamp < startedAt) startedAt = timestamp
+  if (timestamp > endedAt) endedAt = timestamp
 
+  session.startedAt = startedAt
+  session.endedAt = endedAt
+  session.duration = getSessionDuration(session)
+}
+
+/**
+ * Record one event on the direct write path
+ *
+ * Session changes are applied to `state` as replayable updates; the caller persists them.
+ * Items get the TTL of the site's retention settings.
+ */
+export async function recordEvent(
+  payload: Record<string, any>,
+  parsedUrl: URL,
+  ctx: CollectContext,
+  visitorId: string,
+  state: SessionState,
+  write: ItemWriter,
+  timestamp: Date,
+): Promise<void> {
+  await applySessionBoundary(payload, parsedUrl, ctx, state, write, timestamp)
+
+  const sessionId = state.sessionId
+  const session = state.session
+  const retention = await getRetentionSettings(payload.s)
+  const writeItem: ItemWriter = item => write(applyRetentionTtl(ctx.foreign ? { ...item, foreign: true } : item, retention))
+
+  if (payload.e === 'pageview') {
     const isNewSession = !session
+    const deviceInfo = parseUserAgent(ctx.userAgent)
+    const browser = payload.br || deviceInfo.browser
+    const { referrer, source: referrerSource } = ctx.referrer ?? { referrer: payload.r, source: parseReferrerSource(payload.r) }
 
-    if (payload.e === 'pageview') {
-      const deviceInfo = parseUserAgent(userAgent)
-      const browser = payload.br || deviceInfo.browser
-      const referrerSource = parseReferrerSource(payload.r)
+    let country = ctx.country || getCountryFromHeaders(ctx.headers)
+    if (!country && ctx.ip) {
+      country = await getCountryFromIP(ctx.ip)
+    }
 
-      let country = getCountryFromHeaders(headers)
-      if (!country) {
-        country = await getCountryFromIP(ip)
-      }
+    await writeItem(PageViewModel.toItem({
+      id: generateId(),
+      siteId: payload.s,
+      visitorId,
+      sessionId,
+      path: parsedUrl.pathname,
+      hostname: parsedUrl.hostname,
+      title: payload.t,
+      referrer,
+      referrerSource,
+      utmSource: parsedUrl.searchParams.get('utm_source') || undefined,
+      utmMedium: parsedUrl.searchParams.get('utm_medium') || undefined,
+      utmCampaign: parsedUrl.searchParams.get('utm_campaign') || undefined,
+      deviceType: deviceInfo.deviceType as 'desktop' | 'mobile' | 'tablet' | 'unknown',
+      browser,
+      os: deviceInfo.os,
+      country,
+      screenWidth: payload.sw,
+      screenHeight: payload.sh,
+      isUnique: isNewSession,
+      isBounce: isNewSession,
+      timestamp,
+    }))
+    await addRealtimeCounters(payload.s, { pageViews: 1 }, visitorId, timestamp)
 
-      await PageViewModel.record({
-        id: generateId(),
+    const step: JourneyStep = { type: 'pageview', path: parsedUrl.pathname, timestamp: timestamp.toISOString() }
+
+    updateSession(state, (current) => {
+      if (current) {
+        current.pageViewCount += 1
+        current.exitPath = parsedUrl.pathname
+        current.isBounce = false
+        addJourneyStep(current, step)
+        touchSession(current, timestamp)
+        return current
+      }
+      return {
+        id: sessionId,
         siteId: payload.s,
         visitorId,
-        sessionId,
-        path: parsedUrl.pathname,
-        hostname: parsedUrl.hostname,
-        title: payload.t,
-        referrer: payload.r,
+        entryPath: parsedUrl.pathname,
+        exitPath: parsedUrl.pathname,
+        referrer,
         referrerSource,
         utmSource: parsedUrl.searchParams.get('utm_source') || undefined,
         utmMedium: parsedUrl.searchParams.get('utm_medium') || undefined,
@@ -189,232 +547,560 @@ export async function handleCollect(request: Request): Promise<Response> {
         browser,
         os: deviceInfo.os,
         country,
-        screenWidth: payload.sw,
-        screenHeight: payload.sh,
-        isUnique: isNewSession,
-        isBounce: isNewSession,
-        timestamp,
-      })
+        pageViewCount: 1,
+        eventCount: 0,
+        isBounce: true,
+        duration: 0,
+        startedAt: timestamp,
+        endedAt: timestamp,
+        journey: [step],
+      }
+    })
 
-      if (session) {
-        session.pageViewCount += 1
-        session.exitPath = parsedUrl.pathname
-        session.endedAt = timestamp
-        session.isBounce = false
-        const startedAt = session.startedAt instanceof Date ? session.startedAt : new Date(session.startedAt)
-        session.duration = timestamp.getTime() - startedAt.getTime()
-      } else {
-        session = {
-          id: sessionId,
-          siteId: payload.s,
-          visitorId,
-          entryPath: parsedUrl.pathname,
-          exitPath: parsedUrl.pathname,
-          referrer: payload.r,
-          referrerSource,
-          utmSource: parsedUrl.searchParams.get('utm_source') || undefined,
-          utmMedium: parsedUrl.searchParams.get('utm_medium') || undefined,
-          utmCampaign: parsedUrl.searchParams.get('utm_campaign') || undefined,
-          deviceType: deviceInfo.deviceType as 'desktop' | 'mobile' | 'tablet' | 'unknown',
-          browser,
-          os: deviceInfo.os,
-          country,
-          pageViewCount: 1,
-          eventCount: 0,
-          isBounce: true,
-          duration: 0,
-          startedAt: timestamp,
-          endedAt: timestamp,
-        }
+    await checkAndRecordConversions(
+      payload.s,
+      visitorId,
+      sessionId,
+      { path: parsedUrl.pathname },
+      {
+        referrerSource,
+        utmSource: parsedUrl.searchParams.get('utm_source') || undefined,
+        utmMedium: parsedUrl.searchParams.get('utm_medium') || undefined,
+        utmCampaign: parsedUrl.searchParams.get('utm_campaign') || undefined,
       }
+    )
+  } else if (payload.e === 'event') {
+    const { name: eventName, value: eventValue, properties } = getEventFields(payload)
 
-      await SessionModel.upsert(session)
-      setSession(sessionKey, session)
+    await writeItem(CustomEventModel.toItem({
+      id: generateId(),
+      siteId: payload.s,
+      visitorId,
+      sessionId,
+      name: eventName,
+      value: eventValue,
+      properties,
+      path: parsedUrl.pathname,
+      timestamp,
+    }))
+    await addRealtimeCounters(payload.s, { events: 1 }, visitorId, timestamp)
 
-      await checkAndRecordConversions(
-        payload.s,
-        visitorId,
-        sessionId,
-        { path: parsedUrl.pathname },
-        {
-          referrerSource,
-          utmSource: parsedUrl.searchParams.get('utm_source') || undefined,
-          utmMedium: parsedUrl.searchParams.get('utm_medium') || undefined,
-          utmCampaign: parsedUrl.searchParams.get('utm_campaign') || undefined,
+    if (session) {
+      updateSession(state, (current) => {
+        if (current) {
+          current.eventCount += 1
+          addJourneyStep(current, { type: 'event', path: parsedUrl.pathname, name: eventName, timestamp: timestamp.toISOString() })
+          touchSession(current, timestamp)
         }
-      )
-    } else if (payload.e === 'event') {
-      const props = payload.p || {}
-      const eventName = props.name || 'unnamed'
-      const eventValue = typeof props.value === 'number' ? props.value : undefined
-
-      await CustomEventModel.record({
-        id: generateId(),
-        siteId: payload.s,
-        visitorId,
-        sessionId,
-        name: eventName,
-        value: eventValue,
-        path: parsedUrl.pathname,
-        timestamp,
+        return current
       })
+    }
 
-      if (session) {
-        session.eventCount += 1
-        session.endedAt = timestamp
-        const startedAt = session.startedAt instanceof Date ? session.startedAt : new Date(session.startedAt)
-        session.duration = timestamp.getTime() - startedAt.getTime()
-
-        await SessionModel.upsert(session)
-        setSession(sessionKey, session)
+    await checkAndRecordConversions(
+      payload.s,
+      visitorId,
+      sessionId,
+      { path: parsedUrl.pathname, eventName },
+      {
+        referrerSource: session?.referrerSource,
+        utmSource: session?.utmSource,
+        utmMedium: session?.utmMedium,
+        utmCampaign: session?.utmCampaign,
       }
+    )
+  } else if (payload.e === 'outbound') {
+    const props = payload.p || {}
 
-      await checkAndRecordConversions(
-        payload.s,
-        visitorId,
-        sessionId,
-        { path: parsedUrl.pathname, eventName },
-        {
-          referrerSource: session?.referrerSource,
-          utmSource: session?.utmSource,
-          utmMedium: session?.utmMedium,
-          utmCampaign: session?.utmCampaign,
-        }
-      )
-    } else if (payload.e === 'outbound') {
-      const props = payload.p || {}
+    await writeItem(CustomEventModel.toItem({
+      id: generateId(),
+      siteId: payload.s,
+      visitorId,
+      sessionId,
+      name: 'outbound',
+      properties: { url: props.url || '' },
+      path: parsedUrl.pathname,
+      timestamp,
+    }))
 
-      await CustomEventModel.record({
-        id: generateId(),
-        siteId: payload.s,
-        visitorId,
-        sessionId,
-        name: 'outbound',
-        properties: { url: props.url || '' },
-        path: parsedUrl.pathname,
-        timestamp,
+    if (session) {
+      updateSession(state, (current) => {
+        if (current) {
+          current.eventCount += 1
+          touchSession(current, timestamp)
+        }
+        return current
       })
+    }
+  } else if (payload.e === 'ecommerce') {
+    const event = normalizeEcommerceEvent(payload.p || {}, getConfig().ecommerce.defaultCurrency)
+    const id = generateId()
+
+    // Claims must be seen by the next request, so they are never queued
+    if (event.orderId && ORDER_ACTIONS.includes(event.action) && !await claimOrder(payload.s, event.action, event.orderId, id)) {
+      console.log(`[Collect] Ignored duplicate ${event.action} for order ${event.orderId}`)
+      return
+    }
 
-      if (session) {
-        session.eventCount += 1
-        session.endedAt = timestamp
-        const startedAt = session.startedAt instanceof Date ? session.startedAt : new Date(session.startedAt)
-        session.duration = timestamp.getTime() - startedAt.getTime()
+    await writeItem({
+      pk: `SITE#${payload.s}`,
+      sk: `ECOMMERCE#${timestamp.toISOString()}#${id}`,
+      id,
+      siteId: payload.s,
+      visitorId,
+      sessionId,
+      path: parsedUrl.pathname,
+      ...event,
+      source: getTrafficSource(session),
+      timestamp: timestamp.toISOString(),
+    })
 
-        await SessionModel.upsert(session)
-        setSession(sessionKey, session)
+    if (session) {
+      updateSession(state, (current) => {
+        if (current) {
+          current.eventCount += 1
+          addJourneyStep(current, { type: 'event', path: parsedUrl.pathname, name: event.action, timestamp: timestamp.toISOString() })
+          touchSession(current, timestamp)
+        }
+        return current
+      })
+    }
+
+    await checkAndRecordConversions(
+      payload.s,
+      visitorId,
+      sessionId,
+      { path: parsedUrl.pathname, eventName: event.action },
+      {
+        referrerSource: session?.referrerSource,
+        utmSource: session?.utmSource,
+        utmMedium: session?.utmMedium,
+        utmCampaign: session?.utmCampaign,
       }
-    } else if (payload.e === 'hm_click') {
-      const props = payload.p || {}
-      const deviceInfo = parseUserAgent(userAgent)
+    )
+  } else if (payload.e === 'pageleave') {
+    const engagedMs = getEngagedTime(payload)
+    if (engagedMs === 0) return
+
+    // Rollups add to what is stored, so they are never queued
+    await recordEngagedTime(payload.s, parsedUrl.pathname, engagedMs, timestamp)
+
+    // Engaged time extends the session's duration but not its last hit, so it can't hold off the inactivity split
+    if (session) {
+      const { engagementThresholdSeconds } = getConfig().sessions
+      updateSession(state, (current) => {
+        if (current) {
+          current.engagedTime = (current.engagedTime || 0) + engagedMs
+          current.duration = getSessionDuration(current)
+          current.isBounce = isBounceSession(current, engagementThresholdSeconds)
+        }
+        return current
+      })
+    }
+  } else if (payload.e === 'hm_click') {
+    const props = payload.p || {}
+    const deviceInfo = parseUserAgent(ctx.userAgent)
+
+    await writeItem(HeatmapClick.toItem({
+      id: generateId(),
+      siteId: payload.s,
+      sessionId,
+      visitorId,
+      path: parsedUrl.pathname,
+      viewportX: props.vx || 0,
+      viewportY: props.vy || 0,
+      documentX: props.dx || 0,
+      documentY: props.dy || 0,
+      viewportWidth: props.vw || 0,
+      viewportHeight: props.vh || 0,
+      selector: props.selector || '',
+      elementTag: props.tag || '',
+      elementText: props.text,
+      deviceType: deviceInfo.deviceType as 'desktop' | 'mobile' | 'tablet' | 'unknown',
+      timestamp,
+    }))
+  } else if (payload.e === 'hm_move') {
+    const props = payload.p || {}
+    const deviceInfo = parseUserAgent(ctx.userAgent)
 
-      await HeatmapClick.record({
+    if (props.points && Array.isArray(props.points) && props.points.length > 0) {
+      await writeItem(HeatmapMovement.toItem({
         id: generateId(),
         siteId: payload.s,
         sessionId,
         visitorId,
-        path: payload.u,
-        viewportX: props.vx || 0,
-        viewportY: props.vy || 0,
-        documentX: props.dx || 0,
-        documentY: props.dy || 0,
+        path: parsedUrl.pathname,
+        points: props.points,
         viewportWidth: props.vw || 0,
         viewportHeight: props.vh || 0,
-        selector: props.selector || '',
-        elementTag: props.tag || '',
-        elementText: props.text,
         deviceType: deviceInfo.deviceType as 'desktop' | 'mobile' | 'tablet' | 'unknown',
         timestamp,
-      })
-    } else if (payload.e === 'hm_move') {
-      const props = payload.p || {}
-      const deviceInfo = parseUserAgent(userAgent)
-
-      if (props.points && Array.isArray(props.points) && props.points.length > 0) {
-        await HeatmapMovement.record({
-          id: generateId(),
-          siteId: payload.s,
-          sessionId,
-          visitorId,
-          path: payload.u,
-          points: props.points,
-          viewportWidth: props.vw || 0,
-          viewportHeight: props.vh || 0,
-          deviceType: deviceInfo.deviceType as 'desktop' | 'mobile' | 'tablet' | 'unknown',
-          timestamp,
-        })
-      }
-    } else if (payload.e === 'hm_scroll') {
-      const props = payload.p || {}
-      const deviceInfo = parseUserAgent(userAgent)
+      }))
+    }
+  } else if (payload.e === 'hm_scroll') {
+    const props = payload.p || {}
+    const deviceInfo = parseUserAgent(ctx.userAgent)
+
+    // Scroll rows merge with what is stored, so they are never queued
+    const repository = getRepository()
+    const encodedPath = encodeURIComponent(parsedUrl.pathname)
+    const key = { pk: `SITE#${payload.s}`, sk: `HMSCROLL#${sessionId}#${encodedPath}` }
+    const existing = await repository.get(key)
 
-      await HeatmapScroll.upsert({
-        id: `${sessionId}-${encodeURIComponent(payload.u)}`,
+    // The longest time at each depth wins
+    const scrollDepths: Record<string, number> = typeof existing?.scrollDepths === 'string'
+      ? JSON.parse(existing.scrollDepths)
+      : existing?.scrollDepths || {}
+    for (const [depth, time] of Object.entries(props.depths || {})) {
+      scrollDepths[depth] = Math.max(scrollDepths[depth] || 0, Number(time) || 0)
+    }
+
+    await repository.put(applyRetentionTtl({
+      ...(existing || {
+        id: `${sessionId}-${encodedPath}`,
         siteId: payload.s,
         sessionId,
         visitorId,
-        path: payload.u,
-        maxScrollDepth: props.maxDepth || 0,
-        scrollDepths: props.depths || {},
+        path: parsedUrl.pathname,
         documentHeight: props.docHeight || 0,
         viewportHeight: props.vh || 0,
-        deviceType: deviceInfo.deviceType as 'desktop' | 'mobile' | 'tablet' | 'unknown',
-        timestamp,
-      })
-    } else if (payload.e === 'vitals') {
-      const props = payload.p || {}
-      const deviceInfo = parseUserAgent(userAgent)
-      const browser = payload.br || deviceInfo.browser
-
-      await dynamodb.putItem({
-        TableName: TABLE_NAME,
-        Item: marshall({
-          pk: `SITE#${payload.s}`,
-          sk: `VITAL#${timestamp.toISOString()}#${generateId()}`,
-          siteId: payload.s,
-          sessionId,
-          visitorId,
-          path: parsedUrl.pathname,
-          metric: props.metric || 'unknown',
-          value: props.value || 0,
-          rating: props.rating || 'unknown',
-          deviceType: deviceInfo.deviceType,
-          browser,
-          timestamp: timestamp.toISOString(),
-          ttl: Math.floor(Date.now() / 1000) + 90 * 24 * 60 * 60,
-        }),
-      })
-    } else if (payload.e === 'error') {
-      const props = payload.p || {}
-      const deviceInfo = parseUserAgent(userAgent)
-      const browser = payload.br || deviceInfo.browser
-
-      await dynamodb.putItem({
-        TableName: TABLE_NAME,
-        Item: marshall({
-          pk: `SITE#${payload.s}`,
-          sk: `ERROR#${timestamp.toISOString()}#${generateId()}`,
-          siteId: payload.s,
-          sessionId,
-          visitorId,
-          path: parsedUrl.pathname,
-          message: String(props.message || '').slice(0, 500),
-          source: props.source || '',
-          line: props.line || 0,
-          col: props.col || 0,
-          stack: String(props.stack || '').slice(0, 2000),
-          deviceType: deviceInfo.deviceType,
-          browser,
-          os: deviceInfo.os,
-          timestamp: timestamp.toISOString(),
-          ttl: Math.floor(Date.now() / 1000) + 30 * 24 * 60 * 60,
-        }),
-      })
+        deviceType: deviceInfo.deviceType,
+        _et: 'HeatmapScroll',
+      }),
+      ...key,
+      scrollDepths,
+      maxScrollDepth: Math.max(existing?.maxScrollDepth || 0, props.maxDepth || 0),
+      timestamp: timestamp.toISOString(),
+    }, retention))
+  } else if (payload.e === 'vitals') {
+    const props = payload.p || {}
+    const deviceInfo = parseUserAgent(ctx.userAgent)
+    const browser = payload.br || deviceInfo.browser
+
+    await writeItem({
+      pk: `SITE#${payload.s}`,
+      sk: `VITAL#${timestamp.toISOString()}#${generateId()}`,
+      siteId: payload.s,
+      sessionId,
+      visitorId,
+      path: parsedUrl.pathname,
+      metric: props.metric || 'unknown',
+      value: props.value || 0,
+      rating: props.rating || 'unknown',
+      deviceType: deviceInfo.deviceType,
+      browser,
+      timestamp: timestamp.toISOString(),
+    })
+  } else if (payload.e === 'error') {
+    const props = payload.p || {}
+    const deviceInfo = parseUserAgent(ctx.userAgent)
+    const browser = payload.br || deviceInfo.browser
+
+    await writeItem({
+      pk: `SITE#${payload.s}`,
+      sk: `ERROR#${timestamp.toISOString()}#${generateId()}`,
+      siteId: payload.s,
+      sessionId,
+      visitorId,
+      path: parsedUrl.pathname,
+      message: String(props.message || '').slice(0, 500),
+      source: props.source || '',
+      line: props.line || 0,
+      col: props.col || 0,
+      stack: String(props.stack || '').slice(0, 2000),
+      deviceType: deviceInfo.deviceType,
+      browser,
+      os: deviceInfo.os,
+      timestamp: timestamp.toISOString(),
+    })
+  }
+}
+
+/**
+ * Direct single-item writer
+ */
+export async function putItem(item: Record<string, any>): Promise<void> {
+  await getRepository().put(item as RepositoryItem)
+}
+
+/**
+ * POST /collect or /t
+ */
+export async function handleCollect(request: Request): Promise<Response> {
+  try {
+    const ctx = getCollectContext(request)
+    const clientKey = await getClientRateLimitKey(ctx.ip)
+
+    const ipThrottle = await checkRateLimit('ip', clientKey)
+    if (ipThrottle) {
+      return throttledResponse(ipThrottle)
+    }
+
+    const body = await request.json().catch(() => null)
+
+    const validation = await validatePayload(body, 'collect', getRequestOrigin(request))
+    if ('rejection' in validation) {
+      return jsonResponse({ error: validation.rejection.message, rejection: validation.rejection }, 400)
+    }
+    const { payload, url: parsedUrl } = validation
+
+    const siteThrottle = await checkRateLimit('site', payload.s)
+    if (siteThrottle) {
+      return throttledResponse(siteThrottle)
+    }
+
+    // Bot filter - keep crawlers out of PageView/Session, count them in the bot rollup
+    if (await isFilteredBot(payload, parsedUrl, ctx)) {
+      return new Response(null, { status: 204 })
+    }
+
+    // Apply the site policy (auto-creates unknown sites in open and allowlist modes)
+    const admission = await admitSiteEvent(payload.s, parsedUrl, clientKey)
+    if (admission.status === 'throttled') {
+      return throttledResponse(admission.throttle)
+    }
+    if (admission.status === 'rejected') {
+      return jsonResponse({ error: admission.message, reason: admission.reason }, 403)
+    }
+    ctx.foreign = admission.foreign
+
+    if (await applyReferrerRules(payload, ctx)) {
+      return new Response(null, { status: 204 })
+    }
+
+    // SQS Fast Path - Queue events for async processing
+    if (isSQSEnabled() && isQueuedEventType(payload.e)) {
+      try {
+        const producer = await getSQSProducer()
+        if (producer) {
+          const visitorId = await hashVisitorId(ctx.ip, ctx.userAgent, payload.s, getDailySalt())
+
+          await producer.sendEvent(toAnalyticsEvent(payload, parsedUrl, ctx, visitorId, new Date()))
+          console.log(`[Collect] Queued ${payload.e} event to SQS for site ${payload.s}`)
+
+          return new Response(null, { status: 204 })
+        }
+      } catch (sqsError) {
+        console.error('[Collect] SQS send failed, falling back to direct write:', sqsError)
+      }
     }
 
+    // Direct Write Path
+    console.log(`[Collect] IP: ${ctx.ip}, UA: ${ctx.userAgent?.substring(0, 50)}...`)
+    const visitorId = await hashVisitorId(ctx.ip, ctx.userAgent, payload.s, getDailySalt())
+    const state = await loadSession(payload.s, payload.sid)
+    const timestamp = new Date()
+
+    await recordEvent(payload, parsedUrl, ctx, visitorId, state, putItem, timestamp)
+    await persistSession(state, putItem)
+    await markLatePeriods([{ siteId: payload.s, timestamp }])
+
     return new Response(null, { status: 204 })
   } catch (error) {
     console.error('Collect error:', error)
     return errorResponse('Internal server error')
   }
 }
+
+/**
+ * POST /collect/batch, /t/batch or /p/batch
+ *
+ * Body is either an array of collect payloads or `{ ...shared fields, events: [...] }`,
+ * where shared fields (s, sid, br, ...) are defaults for every event. All events must
+ * belong to the same site and session and are processed in order. Responds with a
+ * per-index accept/reject result.
+ */
+export async function handleCollectBatch(request: Request): Promise<Response> {
+  try {
+    const body = await request.json() as unknown
+    const { events: rawEvents, ...shared } = Array.isArray(body)
+      ? { events: body }
+      : (body || {}) as Record<string, any>
+
+    if (!Array.isArray(rawEvents) || rawEvents.length === 0) {
+      return jsonResponse({ error: 'Missing required field: events' }, 400)
+    }
+    if (rawEvents.length > MAX_BATCH_EVENTS) {
+      return jsonResponse({ error: `Too many events (max ${MAX_BATCH_EVENTS})` }, 400)
+    }
+
+    const ctx = getCollectContext(request)
+    const clientKey = await getClientRateLimitKey(ctx.ip)
+
+    const ipThrottle = await checkRateLimit('ip', clientKey, rawEvents.length)
+    if (ipThrottle) {
+      return throttledResponse(ipThrottle)
+    }
+
+    const origin = getRequestOrigin(request)
+    const results: CollectBatchResult[] = rawEvents.map((_, index) => ({ index, status: 'rejected' }))
+    const candidates: Array<Omit<AcceptedEvent, 'ctx'>> = []
+    let siteId: string | undefined
+    let sessionId: string | undefined
+
+    for (const [index, raw] of rawEvents.entries()) {
+      const validation = await validatePayload(
+        raw && typeof raw === 'object' && !Array.isArray(raw) ? { ...shared, ...raw } : raw,
+        'collect_batch',
+        origin,
+      )
+      if ('rejection' in validation) {
+        results[index].error = validation.rejection.message
+        results[index].rejection = validation.rejection
+        continue
+      }
+      const { payload } = validation
+
+      siteId ??= payload.s
+      sessionId ??= payload.sid
+      if (payload.s !== siteId || payload.sid !== sessionId) {
+        results[index].error = 'Batch events must share the same site and session'
+        continue
+      }
+
+      if (await isFilteredBot(payload, validation.url, ctx)) {
+        results[index].status = 'filtered'
+        continue
+      }
+
+      candidates.push({ index, payload, url: validation.url })
+    }
+
+    const valid = results.filter(r => !r.error).length
+    const siteThrottle = siteId && valid > 0 ? await checkRateLimit('site', siteId, valid) : null
+    if (siteThrottle) {
+      return throttledResponse(siteThrottle)
+    }
+
+    // Apply the site policy (once per hostname) and referrer rules
+    const admissions = new Map<string, SiteAdmission>()
+    const accepted: AcceptedEvent[] = []
+    for (const candidate of candidates) {
+      const { hostname } = candidate.url
+      let admission = admissions.get(hostname)
+      if (!admission) {
+        admission = await admitSiteEvent(candidate.payload.s, candidate.url, clientKey)
+        admissions.set(hostname, admission)
+      }
+
+      if (admission.status === 'throttled') {
+        return throttledResponse(admission.throttle)
+      }
+      if (admission.status === 'rejected') {
+        results[candidate.index].error = admission.message
+        continue
+      }
+
+      const eventCtx: CollectContext = { ...ctx, foreign: admission.foreign }
+      if (await applyReferrerRules(candidate.payload, eventCtx)) {
+        results[candidate.index].status = 'filtered'
+        continue
+      }
+      accepted.push({ ...candidate, ctx: eventCtx })
+    }
+
+    if (accepted.length > 0 && siteId) {
+      const visitorId = await hashVisitorId(ctx.ip, ctx.userAgent, siteId, getDailySalt())
+
+      // Types the consumer doesn't write always take the direct path
+      const queued = accepted.filter(event => isQueuedEventType(event.payload.e))
+      const direct = queued.length > 0 && await queueBatch(queued, results, visitorId)
+        ? accepted.filter(event => !isQueuedEventType(event.payload.e))
+        : accepted
+
+      if (direct.length > 0) {
+        await writeBatch(direct, results, visitorId, siteId, sessionId)
+      }
+    }
+
+    return jsonResponse({
+      accepted: results.filter(r => r.status === 'accepted').length,
+      rejected: results.filter(r => r.status === 'rejected').length,
+      filtered: results.filter(r => r.status === 'filtered').length,
+      results,
+    })
+  } catch (error) {
+    console.error('Collect batch error:', error)
+    return errorResponse('Internal server error')
+  }
+}
+
+/**
+ * SQS fast path for a batch. Returns false when the direct path should be used instead.
+ */
+async function queueBatch(
+  accepted: AcceptedEvent[],
+  results: CollectBatchResult[],
+  visitorId: string,
+): Promise<boolean> {
+  if (!isSQSEnabled()) return false
+
+  try {
+    const producer = await getSQSProducer()
+    if (!producer) return false
+
+    const timestamp = new Date()
+    const events = accepted.map(({ payload, url, ctx }) => toAnalyticsEvent(payload, url, ctx, visitorId, timestamp))
+    const result = await producer.sendEventsBatch(events)
+    const failed = new Set(result.failedIndexes || [])
+
+    accepted.forEach(({ index }, position) => {
+      if (failed.has(position)) {
+        results[index].error = 'Failed to queue event'
+      } else {
+        results[index].status = 'accepted'
+      }
+    })
+    console.log(`[Collect] Queued ${result.successful} batched events to SQS`)
+
+    return true
+  } catch (sqsError) {
+    console.error('[Collect] SQS batch send failed, falling back to direct write:', sqsError)
+    return false
+  }
+}
+
+/**
+ * Direct write path for a batch, through the repository's batch writes
+ */
+async function writeBatch(
+  accepted: AcceptedEvent[],
+  results: CollectBatchResult[],
+  visitorId: string,
+  siteId: string,
+  sessionId: string | undefined,
+): Promise<void> {
+  const items: RepositoryItem[] = []
+  const owners = new Map<RepositoryItem, number>()
+  const written: Array<{ siteId: string, timestamp: Date }> = []
+  const state = await loadSession(siteId, sessionId || '')
+
+  for (const { index, payload, url, ctx } of accepted) {
+    try {
+      const timestamp = new Date()
+      await recordEvent(payload, url, ctx, visitorId, state, (item) => {
+        owners.set(item as RepositoryItem, index)
+        items.push(item as RepositoryItem)
+      }, timestamp)
+      results[index].status = 'accepted'
+      written.push({ siteId, timestamp })
+    } catch (error) {
+      console.error('[Collect] Batch event failed:', error)
+      results[index].error = 'Failed to process event'
+    }
+  }
+
+  await persistSession(state, (item) => {
+    items.push(item as RepositoryItem)
+  })
+
+  const unprocessedItems = await getRepository().putBatch(items)
+  for (const item of unprocessedItems) {
+    const index = owners.get(item)
+    if (index !== undefined) {
+      results[index].status = 'rejected'
+      results[index].error = 'Failed to write event'
+    }
+  }
+
+  await markLatePeriods(written)
+}
@@ -2,7 +2,10 @@
  * Data export, GDPR, and retention handlers
  */
 
-import { dynamodb, TABLE_NAME, unmarshall, marshall } from '../lib/dynamodb'
+import { normalizeRetentionSettings } from '../index'
+import { createReportReader } from '../lib/reports'
+import { getRepository } from '../lib/repository'
+import { invalidateRetentionSettingsCache } from '../lib/retention'
 import { parseDateRange } from '../utils/date'
 import { jsonResponse, errorResponse } from '../utils/response'
 import { getQueryParams } from '../../deploy/lambda-adapter'
@@ -17,7 +20,6 @@ export async function handleExport(request: Request, siteId: string): Promise<Re
     const format = query.format || 'json'
     const dataType = query.type || 'pageviews'
 
-    let items: any[] = []
     let prefix: string
 
     switch (dataType) {
@@ -32,18 +34,11 @@ export async function handleExport(request: Request, siteId: string): Promise<Re
         prefix = 'PAGEVIEW#'
     }
 
-    const result = await dynamodb.query({
-      TableName: TABLE_NAME,
-      KeyConditionExpression: 'pk = :pk AND sk BETWEEN :start AND :end',
-      ExpressionAttributeValues: {
-        ':pk': { S: `SITE#${siteId}` },
-        ':start': { S: `${prefix}${startDate.toISOString()}` },
-        ':end': { S: `${prefix}${endDate.toISOString()}` },
-      },
-      Limit: 10000,
-    }) as { Items?: any[] }
-
-    items = (result.Items || []).map(unmarshall)
+    const reader = createReportReader()
+    const items = await reader.query({
+      pk: `SITE#${siteId}`,
+      between: [`${prefix}${startDate.toISOString()}`, `${prefix}${endDate.toISOString()}`],
+    })
 
     if (format === 'csv') {
       const headers = items.length > 0 ? Object.keys(items[0]).join(',') : ''
@@ -54,6 +49,7 @@ export async function handleExport(request: Request, siteId: string): Promise<Re
         headers: {
           'Content-Type': 'text/csv',
           'Content-Disposition': `attachment; filename="${siteId}-${dataType}-export.csv"`,
+          'X-Export-Complete': String(reader.complete),
         },
       })
     }
@@ -65,6 +61,7 @@ export async function handleExport(request: Request, siteId: string): Promise<Re
         start: startDate.toISOString(),
         end: endDate.toISOString(),
       },
+      complete: reader.complete,
     })
   } catch (error) {
     console.error('Export error:', error)
@@ -77,20 +74,8 @@ export async function handleExport(request: Request, siteId: string): Promise<Re
  */
 export async function handleGetRetentionSettings(request: Request, siteId: string): Promise<Response> {
   try {
-    const result = await dynamodb.query({
-      TableName: TABLE_NAME,
-      KeyConditionExpression: 'pk = :pk AND sk = :sk',
-      ExpressionAttributeValues: {
-        ':pk': { S: `SITE#${siteId}` },
-        ':sk': { S: 'RETENTION_SETTINGS' },
-      },
-    }) as { Items?: any[] }
-
-    const settings = result.Items?.[0] ? unmarshall(result.Items[0]) : {
-      retentionDays: 365,
-      autoDelete: true,
-      anonymizeAfterDays: 90,
-    }
+    const item = await getRepository().get({ pk: `SITE#${siteId}`, sk: 'RETENTION_SETTINGS' })
+    const settings = item ? { ...item, ...normalizeRetentionSettings(item) } : normalizeRetentionSettings(null)
 
     return jsonResponse({ settings })
   } catch (error) {
@@ -101,6 +86,10 @@ export async function handleGetRetentionSettings(request: Request, siteId: strin
 
 /**
  * PUT /api/sites/{siteId}/retention
+ *
+ * `entities` keeps some entity types (e.g. `{ "vitals": 30 }`) for fewer days than
+ * `retentionDays`. New items get the TTLs at once; the retention job applies them
+ * to stored items.
  */
 export async function handleUpdateRetentionSettings(request: Request, siteId: string): Promise<Response> {
   try {
@@ -110,16 +99,12 @@ export async function handleUpdateRetentionSettings(request: Request, siteId: st
       pk: `SITE#${siteId}`,
       sk: 'RETENTION_SETTINGS',
       siteId,
-      retentionDays: body.retentionDays || 365,
-      autoDelete: body.autoDelete ?? true,
-      anonymizeAfterDays: body.anonymizeAfterDays || 90,
+      ...normalizeRetentionSettings(body),
       updatedAt: new Date().toISOString(),
     }
 
-    await dynamodb.putItem({
-      TableName: TABLE_NAME,
-      Item: marshall(settings),
-    })
+    await getRepository().put(settings)
+    invalidateRetentionSettingsCache(siteId)
 
     return jsonResponse({ settings })
   } catch (error) {
@@ -141,44 +126,16 @@ export async function handleGdprExport(request: Request, siteId: string): Promis
     }
 
     // Query all data for this visitor
+    const repository = getRepository()
     const [pageviews, sessions, events] = await Promise.all([
-      dynamodb.query({
-        TableName: TABLE_NAME,
-        IndexName: 'gsi1',
-        KeyConditionExpression: 'gsi1pk = :pk',
-        ExpressionAttributeValues: {
-          ':pk': { S: `VISITOR#${visitorId}` },
-        },
-      }),
-      dynamodb.query({
-        TableName: TABLE_NAME,
-        KeyConditionExpression: 'pk = :pk AND begins_with(sk, :prefix)',
-        FilterExpression: 'visitorId = :visitorId',
-        ExpressionAttributeValues: {
-          ':pk': { S: `SITE#${siteId}` },
-          ':prefix': { S: 'SESSION#' },
-          ':visitorId': { S: visitorId },
-        },
-      }),
-      dynamodb.query({
-        TableName: TABLE_NAME,
-        KeyConditionExpression: 'pk = :pk AND begins_with(sk, :prefix)',
-        FilterExpression: 'visitorId = :visitorId',
-        ExpressionAttributeValues: {
-          ':pk': { S: `SITE#${siteId}` },
-          ':prefix': { S: 'EVENT#' },
-          ':visitorId': { S: visitorId },
-        },
-      }),
+      repository.query({ index: 'gsi1', pk: `VISITOR#${visitorId}` }),
+      repository.query({ pk: `SITE#${siteId}`, beginsWith: 'SESSION#', where: { visitorId } }),
+      repository.query({ pk: `SITE#${siteId}`, beginsWith: 'EVENT#', where: { visitorId } }),
     ])
 
     return jsonResponse({
       visitorId,
-      data: {
-        pageviews: (pageviews.Items || []).map(unmarshall),
-        sessions: (sessions.Items || []).map(unmarshall),
-        events: (events.Items || []).map(unmarshall),
-      },
+      data: { pageviews, sessions, events },
       exportedAt: new Date().toISOString(),
     })
   } catch (error) {
@@ -200,28 +157,14 @@ export async function handleGdprDelete(request: Request, siteId: string): Promis
     }
 
     // Query all items for this visitor
-    const result = await dynamodb.query({
-      TableName: TABLE_NAME,
-      IndexName: 'gsi1',
-      KeyConditionExpression: 'gsi1pk = :pk',
-      ExpressionAttributeValues: {
-        ':pk': { S: `VISITOR#${visitorId}` },
-      },
-    }) as { Items?: any[] }
-
-    const items = (result.Items || []).map(unmarshall)
+    const repository = getRepository()
+    const items = await repository.query({ index: 'gsi1', pk: `VISITOR#${visitorId}` })
 
     // Delete all items
     let deletedCount = 0
     for (const item of items) {
       try {
-        await dynamodb.deleteItem({
-          TableName: TABLE_NAME,
-          Key: marshall({
-            pk: item.pk,
-            sk: item.sk,
-          }),
-        })
+        await repository.delete({ pk: item.pk, sk: item.sk })
         deletedCount++
       } catch (e) {
         console.error('Failed to delete item:', e)
@@ -254,16 +197,8 @@ export async function handleGetInsights(request: Request, siteId: string): Promi
     const previousEndDate = new Date(startDate.getTime() - 1)
 
     // Query sessions for both periods
-    const result = await dynamodb.query({
-      TableName: TABLE_NAME,
-      KeyConditionExpression: 'pk = :pk AND begins_with(sk, :prefix)',
-      ExpressionAttributeValues: {
-        ':pk': { S: `SITE#${siteId}` },
-        ':prefix': { S: 'SESSION#' },
-      },
-    }) as { Items?: any[] }
-
-    const allSessions = (result.Items || []).map(unmarshall)
+    const reader = createReportReader()
+    const allSessions = await reader.getSessions(siteId, previousStartDate, endDate)
 
     const currentSessions = allSessions.filter(s => {
       const t = new Date(s.startedAt)
@@ -324,6 +259,7 @@ export async function handleGetInsights(request: Request, siteId: string): Promi
         currentPeriod: { start: startDate.toISOString(), end: endDate.toISOString(), sessions: currentTraffic },
         previousPeriod: { start: previousStartDate.toISOString(), end: previousEndDate.toISOString(), sessions: previousTraffic },
       },
+      complete: reader.complete,
     })
   } catch (error) {
     console.error('Get insights error:', error)
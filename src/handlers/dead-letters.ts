@@ -0,0 +1,125 @@
+/**
+ * Dead-letter queue admin handlers
+ *
+ * Requires `Authorization: Bearer <ANALYTICS_ADMIN_TOKEN>`; without the env var the
+ * admin API is disabled.
+ */
+
+import type { DeadLetterSelection } from '../sqs-dead-letter'
+import { getDeadLetterQueue } from '../lib/dead-letters'
+import { jsonResponse, errorResponse } from '../utils/response'
+
+/**
+ * Check the admin token of a request
+ */
+export function isAdminRequest(request: Request): boolean {
+  const adminToken = process.env.ANALYTICS_ADMIN_TOKEN
+  if (!adminToken) return false
+
+  const token = request.headers.get('Authorization')?.replace('Bearer ', '') || ''
+  if (token.length !== adminToken.length) return false
+
+  let difference = 0
+  for (let i = 0; i < token.length; i++) {
+    difference |= token.charCodeAt(i) ^ adminToken.charCodeAt(i)
+  }
+  return difference === 0
+}
+
+function parseSelection(body: Record<string, any>): DeadLetterSelection | null {
+  const messageIds = Array.isArray(body.messageIds)
+    ? body.messageIds.filter((id: unknown): id is string => typeof id === 'string')
+    : undefined
+  const reason = typeof body.reason === 'string' && body.reason ? body.reason : undefined
+
+  if (!messageIds?.length && !reason && body.all !== true) return null
+  return { messageIds, reason, all: body.all === true }
+}
+
+const notConfigured = () => jsonResponse({ error: 'Dead-letter queue is not configured' }, 503)
+
+/**
+ * GET /api/admin/dlq
+ */
+export async function handleGetDeadLetters(_request: Request): Promise<Response> {
+  try {
+    const queue = await getDeadLetterQueue()
+    if (!queue) return notConfigured()
+
+    const groups = await queue.groups()
+    return jsonResponse({
+      groups,
+      total: groups.reduce((sum, group) => sum + group.count, 0),
+    })
+  } catch (error) {
+    console.error('Get dead letters error:', error)
+    return errorResponse('Failed to read dead-letter queue')
+  }
+}
+
+/**
+ * GET /api/admin/dlq/{messageId}
+ */
+export async function handleGetDeadLetter(_request: Request, messageId: string): Promise<Response> {
+  try {
+    const queue = await getDeadLetterQueue()
+    if (!queue) return notConfigured()
+
+    const preview = await queue.preview(messageId)
+    if (!preview) {
+      return jsonResponse({ error: 'Message not found' }, 404)
+    }
+
+    const { receiptHandle: _receiptHandle, ...message } = preview.message
+    return jsonResponse({ ...preview, message })
+  } catch (error) {
+    console.error('Get dead letter error:', error)
+    return errorResponse('Failed to read message')
+  }
+}
+
+/**
+ * POST /api/admin/dlq/replay
+ *
+ * Body: `{ messageIds | reason | all, rewrite }`
+ */
+export async function handleReplayDeadLetters(request: Request): Promise<Response> {
+  try {
+    const body = await request.json() as Record<string, any>
+    const selection = parseSelection(body)
+    if (!selection) {
+      return jsonResponse({ error: 'Select messages with messageIds, reason or all' }, 400)
+    }
+
+    const queue = await getDeadLetterQueue()
+    if (!queue) return notConfigured()
+
+    return jsonResponse(await queue.replay(selection, { rewrite: body.rewrite === true }))
+  } catch (error) {
+    console.error('Replay dead letters error:', error)
+    return errorResponse('Failed to replay messages')
+  }
+}
+
+/**
+ * POST /api/admin/dlq/purge
+ *
+ * Body: `{ messageIds | reason | all }`
+ */
+export async function handlePurgeDeadLetters(request: Request): Promise<Response> {
+  try {
+    const body = await request.json() as Record<string, any>
+    const selection = parseSelection(body)
+    if (!selection) {
+      return jsonResponse({ error: 'Select messages with messageIds, reason or all' }, 400)
+    }
+
+    const queue = await getDeadLetterQueue()
+    if (!queue) return notConfigured()
+
+    return jsonResponse(await queue.purge(selection))
+  } catch (error) {
+    console.error('Purge dead letters error:', error)
+    return errorResponse('Failed to purge messages')
+  }
+}
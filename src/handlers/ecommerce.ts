@@ -0,0 +1,127 @@
+/**
+ * Ecommerce revenue handlers
+ */
+
+import { getConfig } from '../index'
+import { getRepository } from '../lib/repository'
+import { getEcommerceRecords, getExchangeRates, getReportingCurrency } from '../lib/ecommerce'
+import { createReportReader } from '../lib/reports'
+import { invalidateSiteCache } from '../lib/sites'
+import { breakdownRevenue, getUnconvertedCurrencies, isCurrencyCode, type RevenueDimension } from '../utils/ecommerce'
+import { parseDateRange } from '../utils/date'
+import { jsonResponse, errorResponse } from '../utils/response'
+import { getQueryParams } from '../../deploy/lambda-adapter'
+
+async function getRevenueBreakdown(request: Request, siteId: string, dimension: RevenueDimension): Promise<Response> {
+  const query = getQueryParams(request)
+  const { startDate, endDate } = parseDateRange(query)
+  const limit = Math.min(Number(query.limit) || 50, 500)
+
+  const reader = createReportReader()
+  const records = await getEcommerceRecords(siteId, startDate, endDate, reader)
+  const currency = await getReportingCurrency(siteId, query.currency)
+  const rates = getExchangeRates()
+  const rows = breakdownRevenue(records, dimension, currency, rates)
+
+  return jsonResponse({
+    rows: rows.slice(0, limit),
+    total: rows.length,
+    currency,
+    unconvertedCurrencies: getUnconvertedCurrencies(records, currency, rates),
+    dateRange: {
+      start: startDate.toISOString(),
+      end: endDate.toISOString(),
+    },
+    complete: reader.complete,
+  })
+}
+
+/**
+ * GET /api/sites/{siteId}/revenue/products
+ */
+export async function handleGetRevenueByProduct(request: Request, siteId: string): Promise<Response> {
+  try {
+    return await getRevenueBreakdown(request, siteId, 'product')
+  } catch (error) {
+    console.error('Get revenue by product error:', error)
+    return errorResponse('Failed to fetch revenue by product')
+  }
+}
+
+/**
+ * GET /api/sites/{siteId}/revenue/categories
+ */
+export async function handleGetRevenueByCategory(request: Request, siteId: string): Promise<Response> {
+  try {
+    return await getRevenueBreakdown(request, siteId, 'category')
+  } catch (error) {
+    console.error('Get revenue by category error:', error)
+    return errorResponse('Failed to fetch revenue by category')
+  }
+}
+
+/**
+ * GET /api/sites/{siteId}/revenue/sources
+ */
+export async function handleGetRevenueBySource(request: Request, siteId: string): Promise<Response> {
+  try {
+    return await getRevenueBreakdown(request, siteId, 'source')
+  } catch (error) {
+    console.error('Get revenue by source error:', error)
+    return errorResponse('Failed to fetch revenue by source')
+  }
+}
+
+/**
+ * GET /api/sites/{siteId}/revenue/settings
+ */
+export async function handleGetRevenueSettings(_request: Request, siteId: string): Promise<Response> {
+  try {
+    return jsonResponse({
+      currency: await getReportingCurrency(siteId),
+      exchangeRates: getExchangeRates(),
+    })
+  } catch (error) {
+    console.error('Get revenue settings error:', error)
+    return errorResponse('Failed to fetch revenue settings')
+  }
+}
+
+/**
+ * PUT /api/sites/{siteId}/revenue/settings
+ *
+ * Body: `{ currency }` - the site's reporting currency. It needs a rate in the
+ * config's exchange-rate table unless it is the default currency.
+ */
+export async function handleUpdateRevenueSettings(request: Request, siteId: string): Promise<Response> {
+  try {
+    const body = await request.json() as Record<string, any>
+    const { ecommerce } = getConfig()
+
+    if (!isCurrencyCode(body.currency)) {
+      return jsonResponse({ error: 'currency must be an ISO 4217 code (e.g. EUR)' }, 400)
+    }
+    if (body.currency !== ecommerce.defaultCurrency && !ecommerce.exchangeRates[body.currency]) {
+      return jsonResponse({ error: `No exchange rate configured for ${body.currency}` }, 400)
+    }
+
+    const repository = getRepository()
+    const site = await repository.get({ pk: 'SITES', sk: `SITE#${siteId}` })
+    if (!site) {
+      return jsonResponse({ error: 'Site not found' }, 404)
+    }
+
+    await repository.put({
+      ...site,
+      currency: body.currency,
+      updatedAt: new Date().toISOString(),
+    })
+
+    invalidateSiteCache(siteId)
+
+    return jsonResponse({ currency: body.currency, exchangeRates: ecommerce.exchangeRates })
+  } catch (error) {
+    console.error('Update revenue settings error:', error)
+    return errorResponse('Failed to update revenue settings')
+  }
+}
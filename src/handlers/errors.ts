@@ -2,8 +2,10 @@
  * Error tracking handlers
  */
 
-import { generateId } from '../index'
-import { dynamodb, TABLE_NAME, unmarshall, marshall } from '../lib/dynamodb'
+import { applyRetentionTtl, generateId } from '../index'
+import { createReportReader } from '../lib/reports'
+import { getRepository } from '../lib/repository'
+import { getRetentionSettings } from '../lib/retention'
 import { parseDateRange } from '../utils/date'
 import { jsonResponse, errorResponse } from '../utils/response'
 import { getQueryParams } from '../../deploy/lambda-adapter'
@@ -15,24 +17,18 @@ import { getTimeInterval } from '../utils/date'
  */
 export async function handleGetErrors(request: Request, siteId: string): Promise<Response> {
   try {
+    const reader = createReportReader()
     const query = getQueryParams(request)
     const { startDate, endDate } = parseDateRange(query)
     const limit = Math.min(Number(query.limit) || 50, 200)
     const status = query.status // 'open', 'resolved', 'ignored', 'all'
 
-    const result = await dynamodb.query({
-      TableName: TABLE_NAME,
-      KeyConditionExpression: 'pk = :pk AND sk BETWEEN :start AND :end',
-      ExpressionAttributeValues: {
-        ':pk': { S: `SITE#${siteId}` },
-        ':start': { S: `ERROR#${startDate.toISOString()}` },
-        ':end': { S: `ERROR#${endDate.toISOString()}` },
-      },
-      ScanIndexForward: false,
-      Limit: limit * 2,
-    }) as { Items?: any[] }
-
-    let errors = (result.Items || []).map(unmarshall)
+    let errors = await reader.query({
+      pk: `SITE#${siteId}`,
+      between: [`ERROR#${startDate.toISOString()}`, `ERROR#${endDate.toISOString()}`],
+      descending: true,
+      limit: limit * 2,
+    })
 
     // Filter by status if specified
     if (status && status !== 'all') {
@@ -106,6 +102,7 @@ export async function handleGetErrors(request: Request, siteId: string): Promise
         start: startDate.toISOString(),
         end: endDate.toISOString(),
       },
+      complete: reader.complete,
     })
   } catch (error) {
     console.error('Get errors error:', error)
@@ -128,21 +125,8 @@ export async function handleGetErrorStatuses(request: Request, siteId: string):
     // Query error status records
     const statuses: Record<string, string> = {}
     for (const errorId of errorIds.slice(0, 50)) {
-      const result = await dynamodb.query({
-        TableName: TABLE_NAME,
-        KeyConditionExpression: 'pk = :pk AND sk = :sk',
-        ExpressionAttributeValues: {
-          ':pk': { S: `SITE#${siteId}` },
-          ':sk': { S: `ERROR_STATUS#${errorId}` },
-        },
-      }) as { Items?: any[] }
-
-      if (result.Items && result.Items.length > 0) {
-        const item = unmarshall(result.Items[0])
-        statuses[errorId] = item.status || 'open'
-      } else {
-        statuses[errorId] = 'open'
-      }
+      const item = await getRepository().get({ pk: `SITE#${siteId}`, sk: `ERROR_STATUS#${errorId}` })
+      statuses[errorId] = item?.status || 'open'
     }
 
     return jsonResponse({ statuses })
@@ -170,15 +154,12 @@ export async function handleUpdateErrorStatus(request: Request, siteId: string):
       const results: Record<string, boolean> = {}
       for (const id of errorIds.slice(0, 100)) {
         try {
-          await dynamodb.putItem({
-            TableName: TABLE_NAME,
-            Item: marshall({
-              pk: `SITE#${siteId}`,
-              sk: `ERROR_STATUS#${id}`,
-              errorId: id,
-              status: bulkStatus,
-              updatedAt: new Date().toISOString(),
-            }),
+          await getRepository().put({
+            pk: `SITE#${siteId}`,
+            sk: `ERROR_STATUS#${id}`,
+            errorId: id,
+            status: bulkStatus,
+            updatedAt: new Date().toISOString(),
           })
           results[id] = true
         } catch (e) {
@@ -199,15 +180,12 @@ export async function handleUpdateErrorStatus(request: Request, siteId: string):
       return jsonResponse({ error: 'Invalid status. Must be: open, resolved, or ignored' }, 400)
     }
 
-    await dynamodb.putItem({
-      TableName: TABLE_NAME,
-      Item: marshall({
-        pk: `SITE#${siteId}`,
-        sk: `ERROR_STATUS#${errorId}`,
-        errorId,
-        status,
-        updatedAt: new Date().toISOString(),
-      }),
+    await getRepository().put({
+      pk: `SITE#${siteId}`,
+      sk: `ERROR_STATUS#${errorId}`,
+      errorId,
+      status,
+      updatedAt: new Date().toISOString(),
     })
 
     return jsonResponse({ success: true, errorId, status })
@@ -241,79 +219,58 @@ export async function handleCollectError(request: Request, siteId: string, keyId
     const dateKey = timestamp.toISOString().slice(0, 10)
 
     // Store individual error occurrence
-    await dynamodb.putItem({
-      TableName: TABLE_NAME,
-      Item: marshall({
-        pk: `SITE#${siteId}`,
-        sk: `ERROR#${timestamp.toISOString()}#${id}`,
-        gsi1pk: `SITE#${siteId}#DATE#${dateKey}`,
-        gsi1sk: `ERROR#${fingerprint}`,
-        id,
-        siteId,
-        apiKeyId: keyId,
+    const repository = getRepository()
+    await repository.put(applyRetentionTtl({
+      pk: `SITE#${siteId}`,
+      sk: `ERROR#${timestamp.toISOString()}#${id}`,
+      gsi1pk: `SITE#${siteId}#DATE#${dateKey}`,
+      gsi1sk: `ERROR#${fingerprint}`,
+      id,
+      siteId,
+      apiKeyId: keyId,
+      message: String(body.message || '').slice(0, 500),
+      errorType: body.type || 'Error',
+      category,
+      severity,
+      fingerprint,
+      source: body.source || '',
+      line: body.line || 0,
+      col: body.col || 0,
+      stack: String(body.stack || '').slice(0, 4000),
+      url: body.url || '',
+      path: body.url ? new URL(body.url).pathname : '',
+      browser: body.browser || '',
+      browserVersion: body.browserVersion || '',
+      os: body.os || '',
+      osVersion: body.osVersion || '',
+      deviceType: body.deviceType || 'unknown',
+      screenWidth: body.screenWidth || 0,
+      screenHeight: body.screenHeight || 0,
+      framework: body.framework || 'vanilla',
+      sdkVersion: body.sdkVersion || '',
+      environment: body.environment || 'production',
+      tags: body.tags ? JSON.stringify(body.tags) : '{}',
+      breadcrumbs: body.breadcrumbs ? JSON.stringify((body.breadcrumbs as any[]).slice(-20)) : '[]',
+      componentName: body.componentName || '',
+      lifecycle: body.lifecycle || '',
+      userAgent: body.userAgent || '',
+      timestamp: timestamp.toISOString(),
+    }, await getRetentionSettings(siteId)))
+
+    const groupKey = { pk: `SITE#${siteId}`, sk: `ERROR_GROUP#${fingerprint}` }
+
+    // Upsert error group with atomic counters
+    await repository.increment(groupKey, { count: 1 }, {
+      set: {
+        lastSeen: timestamp.toISOString(),
         message: String(body.message || '').slice(0, 500),
-        errorType: body.type || 'Error',
         category,
-        severity,
         fingerprint,
-        source: body.source || '',
-        line: body.line || 0,
-        col: body.col || 0,
-        stack: String(body.stack || '').slice(0, 4000),
-        url: body.url || '',
-        path: body.url ? new URL(body.url).pathname : '',
-        browser: body.browser || '',
-        browserVersion: body.browserVersion || '',
-        os: body.os || '',
-        osVersion: body.osVersion || '',
-        deviceType: body.deviceType || 'unknown',
-        screenWidth: body.screenWidth || 0,
-        screenHeight: body.screenHeight || 0,
-        framework: body.framework || 'vanilla',
-        sdkVersion: body.sdkVersion || '',
-        environment: body.environment || 'production',
-        tags: body.tags ? JSON.stringify(body.tags) : '{}',
-        breadcrumbs: body.breadcrumbs ? JSON.stringify((body.breadcrumbs as any[]).slice(-20)) : '[]',
-        componentName: body.componentName || '',
-        lifecycle: body.lifecycle || '',
-        userAgent: body.userAgent || '',
-        timestamp: timestamp.toISOString(),
-        ttl: Math.floor(Date.now() / 1000) + 30 * 24 * 60 * 60, // 30 days
-      }),
-    })
-
-    const groupKey = {
-      pk: { S: `SITE#${siteId}` },
-      sk: { S: `ERROR_GROUP#${fingerprint}` },
-    }
-
-    // Upsert error group with atomic counters
-    await dynamodb.updateItem({
-      TableName: TABLE_NAME,
-      Key: groupKey,
-      UpdateExpression: [
-        'SET #count = if_not_exists(#count, :zero) + :one',
-        'lastSeen = :now',
-        'firstSeen = if_not_exists(firstSeen, :now)',
-        'message = :msg',
-        'category = :cat',
-        'fingerprint = :fp',
-        'siteId = :sid',
-        '#status = if_not_exists(#status, :open)',
-      ].join(', '),
-      ExpressionAttributeNames: {
-        '#count': 'count',
-        '#status': 'status',
+        siteId,
       },
-      ExpressionAttributeValues: {
-        ':zero': { N: '0' },
-        ':one': { N: '1' },
-        ':now': { S: timestamp.toISOString() },
-        ':msg': { S: String(body.message || '').slice(0, 500) },
-        ':cat': { S: category },
-        ':fp': { S: fingerprint },
-        ':sid': { S: siteId },
-        ':open': { S: 'open' },
+      setIfMissing: {
+        firstSeen: timestamp.toISOString(),
+        status: 'open',
       },
     })
 
@@ -323,40 +280,9 @@ export async function handleCollectError(request: Request, siteId: string, keyId
     const os = body.os || 'Unknown'
 
     try {
-      await dynamodb.updateItem({
-        TableName: TABLE_NAME,
-        Key: groupKey,
-        UpdateExpression: 'SET environments = if_not_exists(environments, :emptyMap)',
-        ExpressionAttributeValues: {
-          ':emptyMap': { M: {} },
-        },
-      })
-
-      await dynamodb.updateItem({
-        TableName: TABLE_NAME,
-        Key: groupKey,
-        UpdateExpression: [
-          'SET environments.#envKey = if_not_exists(environments.#envKey, :zero) + :one',
-          'severity = :sev',
-        ].join(', '),
-        ExpressionAttributeNames: {
-          '#envKey': env,
-        },
-        ExpressionAttributeValues: {
-          ':zero': { N: '0' },
-          ':one': { N: '1' },
-          ':sev': { S: severity },
-        },
-      })
-
-      await dynamodb.updateItem({
-        TableName: TABLE_NAME,
-        Key: groupKey,
-        UpdateExpression: 'ADD browsers :browserSet, operatingSystems :osSet',
-        ExpressionAttributeValues: {
-          ':browserSet': { SS: [browser] },
-          ':osSet': { SS: [os] },
-        },
+      await repository.increment(groupKey, { [`environments.${env}`]: 1 }, {
+        set: { severity },
+        addToSet: { browsers: [browser], operatingSystems: [os] },
       })
     } catch (e) {
       // Non-critical — don't fail the request if env/browser tracking fails
@@ -382,60 +308,31 @@ export async function handleGetErrorDetail(request: Request, siteId: string, err
     const decodedId = decodeURIComponent(errorId)
 
     // First try to find the error group record
-    const groupResult = await dynamodb.query({
-      TableName: TABLE_NAME,
-      KeyConditionExpression: 'pk = :pk AND sk = :sk',
-      ExpressionAttributeValues: {
-        ':pk': { S: `SITE#${siteId}` },
-        ':sk': { S: `ERROR_GROUP#${decodedId}` },
-      },
-    }) as { Items?: any[] }
+    const repository = getRepository()
+    const group = await repository.get({ pk: `SITE#${siteId}`, sk: `ERROR_GROUP#${decodedId}` })
 
     // Query recent individual occurrences matching this fingerprint
     // Use GSI1 to find errors by fingerprint across dates
     const now = new Date()
     const thirtyDaysAgo = new Date(now.getTime() - 30 * 24 * 60 * 60 * 1000)
 
-    const occurrencesResult = await dynamodb.query({
-      TableName: TABLE_NAME,
-      KeyConditionExpression: 'pk = :pk AND sk BETWEEN :start AND :end',
-      FilterExpression: 'fingerprint = :fp',
-      ExpressionAttributeValues: {
-        ':pk': { S: `SITE#${siteId}` },
-        ':start': { S: `ERROR#${thirtyDaysAgo.toISOString()}` },
-        ':end': { S: `ERROR#${now.toISOString()}z` },
-        ':fp': { S: decodedId },
-      },
-      ScanIndexForward: false,
-      Limit: 50,
-    }) as { Items?: any[] }
-
-    const occurrences = (occurrencesResult.Items || []).map(unmarshall)
-
-    // If no group record found, try to build from occurrences
-    let group: Record<string, any> | null = null
-    if (groupResult.Items && groupResult.Items.length > 0) {
-      group = unmarshall(groupResult.Items[0])
-    }
+    const occurrences = await repository.query({
+      pk: `SITE#${siteId}`,
+      between: [`ERROR#${thirtyDaysAgo.toISOString()}`, `ERROR#${now.toISOString()}z`],
+      where: { fingerprint: decodedId },
+      descending: true,
+      limit: 50,
+    })
 
     // If we still have no data, try querying by the raw errorId as a single occurrence
     if (!group && occurrences.length === 0) {
-      const singleResult = await dynamodb.query({
-        TableName: TABLE_NAME,
-        KeyConditionExpression: 'pk = :pk AND begins_with(sk, :prefix)',
-        FilterExpression: 'id = :id',
-        ExpressionAttributeValues: {
-          ':pk': { S: `SITE#${siteId}` },
-          ':prefix': { S: 'ERROR#' },
-          ':id': { S: decodedId },
-        },
-        ScanIndexForward: false,
-        Limit: 1,
-      }) as { Items?: any[] }
-
-      if (singleResult.Items && singleResult.Items.length > 0) {
-        occurrences.push(unmarshall(singleResult.Items[0]))
-      }
+      occurrences.push(...await repository.query({
+        pk: `SITE#${siteId}`,
+        beginsWith: 'ERROR#',
+        where: { id: decodedId },
+        descending: true,
+        limit: 1,
+      }))
     }
 
     if (!group && occurrences.length === 0) {
@@ -529,35 +426,19 @@ export async function handleGetErrorDetail(request: Request, siteId: string, err
  */
 export async function handleGetErrorTimeseries(request: Request, siteId: string): Promise<Response> {
   try {
+    const reader = createReportReader()
     const query = getQueryParams(request)
     const { startDate, endDate } = parseDateRange(query)
     const interval = getTimeInterval(startDate, endDate)
 
     // Query errors in the time range
-    const result = await dynamodb.query({
-      TableName: TABLE_NAME,
-      KeyConditionExpression: 'pk = :pk AND sk BETWEEN :start AND :end',
-      ExpressionAttributeValues: {
-        ':pk': { S: `SITE#${siteId}` },
-        ':start': { S: `ERROR#${startDate.toISOString()}` },
-        ':end': { S: `ERROR#${endDate.toISOString()}` },
-      },
-      ScanIndexForward: true,
-    }) as { Items?: any[] }
-
-    const errors = (result.Items || []).map(unmarshall)
+    const errors = await reader.query({
+      pk: `SITE#${siteId}`,
+      between: [`ERROR#${startDate.toISOString()}`, `ERROR#${endDate.toISOString()}`],
+    })
 
     // Query all error groups to get firstSeen per fingerprint
-    const groupResult = await dynamodb.query({
-      TableName: TABLE_NAME,
-      KeyConditionExpression: 'pk = :pk AND begins_with(sk, :prefix)',
-      ExpressionAttributeValues: {
-        ':pk': { S: `SITE#${siteId}` },
-        ':prefix': { S: 'ERROR_GROUP#' },
-      },
-    }) as { Items?: any[] }
-
-    const groups = (groupResult.Items || []).map(unmarshall)
+    const groups = await reader.query({ pk: `SITE#${siteId}`, beginsWith: 'ERROR_GROUP#' })
     const groupFirstSeen: Record<string, string> = {}
     for (const g of groups) {
       if (g.fingerprint) groupFirstSeen[g.fingerprint] = g.firstSeen
@@ -611,6 +492,7 @@ export async function handleGetErrorTimeseries(request: Request, siteId: string)
         uniqueErrors: fingerprints.size,
         newErrors: newFingerprints.size,
       },
+      complete: reader.complete,
     })
   } catch (error) {
     console.error('Get error timeseries error:', error)
@@ -624,6 +506,7 @@ export async function handleGetErrorTimeseries(request: Request, siteId: string)
  */
 export async function handleGetErrorComparison(request: Request, siteId: string): Promise<Response> {
   try {
+    const reader = createReportReader()
     const query = getQueryParams(request)
     const { startDate, endDate } = parseDateRange(query)
 
@@ -632,29 +515,16 @@ export async function handleGetErrorComparison(request: Request, siteId: string)
     const previousEnd = startDate
 
     // Query current period
-    const currentResult = await dynamodb.query({
-      TableName: TABLE_NAME,
-      KeyConditionExpression: 'pk = :pk AND sk BETWEEN :start AND :end',
-      ExpressionAttributeValues: {
-        ':pk': { S: `SITE#${siteId}` },
-        ':start': { S: `ERROR#${startDate.toISOString()}` },
-        ':end': { S: `ERROR#${endDate.toISOString()}` },
-      },
-    }) as { Items?: any[] }
+    const currentErrors = await reader.query({
+      pk: `SITE#${siteId}`,
+      between: [`ERROR#${startDate.toISOString()}`, `ERROR#${endDate.toISOString()}`],
+    })
 
     // Query previous period
-    const previousResult = await dynamodb.query({
-      TableName: TABLE_NAME,
-      KeyConditionExpression: 'pk = :pk AND sk BETWEEN :start AND :end',
-      ExpressionAttributeValues: {
-        ':pk': { S: `SITE#${siteId}` },
-        ':start': { S: `ERROR#${previousStart.toISOString()}` },
-        ':end': { S: `ERROR#${previousEnd.toISOString()}` },
-      },
-    }) as { Items?: any[] }
-
-    const currentErrors = (currentResult.Items || []).map(unmarshall)
-    const previousErrors = (previousResult.Items || []).map(unmarshall)
+    const previousErrors = await reader.query({
+      pk: `SITE#${siteId}`,
+      between: [`ERROR#${previousStart.toISOString()}`, `ERROR#${previousEnd.toISOString()}`],
+    })
 
     const currentFingerprints = new Set(currentErrors.map(e => e.fingerprint || e.message))
     const previousFingerprints = new Set(previousErrors.map(e => e.fingerprint || e.message))
@@ -673,6 +543,7 @@ export async function handleGetErrorComparison(request: Request, siteId: string)
       current: { total: currentTotal, unique: currentUnique },
       previous: { total: previousTotal, unique: previousUnique },
       changes: { total: totalChange, unique: uniqueChange },
+      complete: reader.complete,
     })
   } catch (error) {
     console.error('Get error comparison error:', error)
@@ -686,6 +557,7 @@ export async function handleGetErrorComparison(request: Request, siteId: string)
  */
 export async function handleGetErrorGroups(request: Request, siteId: string): Promise<Response> {
   try {
+    const reader = createReportReader()
     const query = getQueryParams(request)
     const sort = query.sort || 'count' // count | lastSeen | firstSeen
     const status = query.status // open | resolved | ignored | all
@@ -693,16 +565,7 @@ export async function handleGetErrorGroups(request: Request, siteId: string): Pr
     const limit = Math.min(Number(query.limit) || 50, 200)
 
     // Query all ERROR_GROUP# records
-    const result = await dynamodb.query({
-      TableName: TABLE_NAME,
-      KeyConditionExpression: 'pk = :pk AND begins_with(sk, :prefix)',
-      ExpressionAttributeValues: {
-        ':pk': { S: `SITE#${siteId}` },
-        ':prefix': { S: 'ERROR_GROUP#' },
-      },
-    }) as { Items?: any[] }
-
-    let groups = (result.Items || []).map(unmarshall)
+    let groups = await reader.query({ pk: `SITE#${siteId}`, beginsWith: 'ERROR_GROUP#' })
 
     // Filter by status
     if (status && status !== 'all') {
@@ -767,6 +630,7 @@ export async function handleGetErrorGroups(request: Request, siteId: string): Pr
         criticalCount,
         environments: envBreakdown,
       },
+      complete: reader.complete,
     })
   } catch (error) {
     console.error('Get error groups error:', error)
@@ -781,32 +645,17 @@ export async function handleGetErrorGroups(request: Request, siteId: string): Pr
 export async function handleGetErrorAlerts(request: Request, siteId: string): Promise<Response> {
   try {
     // Query all ALERT# records and filter to error-specific ones
-    const alertResult = await dynamodb.query({
-      TableName: TABLE_NAME,
-      KeyConditionExpression: 'pk = :pk AND begins_with(sk, :prefix)',
-      ExpressionAttributeValues: {
-        ':pk': { S: `SITE#${siteId}` },
-        ':prefix': { S: 'ALERT#' },
-      },
-    }) as { Items?: any[] }
-
-    const allAlerts = (alertResult.Items || []).map(unmarshall)
+    const repository = getRepository()
+    const allAlerts = await repository.query({ pk: `SITE#${siteId}`, beginsWith: 'ALERT#' })
     const errorAlerts = allAlerts.filter(a => a.metric && String(a.metric).startsWith('error_'))
 
     // Query recent triggers (last 7 days)
     const sevenDaysAgo = new Date(Date.now() - 7 * 24 * 60 * 60 * 1000)
-    const triggerResult = await dynamodb.query({
-      TableName: TABLE_NAME,
-      KeyConditionExpression: 'pk = :pk AND sk BETWEEN :start AND :end',
-      ExpressionAttributeValues: {
-        ':pk': { S: `SITE#${siteId}` },
-        ':start': { S: `ALERT_TRIGGER#${sevenDaysAgo.toISOString()}` },
-        ':end': { S: `ALERT_TRIGGER#${new Date().toISOString()}z` },
-      },
-      ScanIndexForward: false,
-    }) as { Items?: any[] }
-
-    const recentTriggers = (triggerResult.Items || []).map(unmarshall)
+    const recentTriggers = await repository.query({
+      pk: `SITE#${siteId}`,
+      between: [`ALERT_TRIGGER#${sevenDaysAgo.toISOString()}`, `ALERT_TRIGGER#${new Date().toISOString()}z`],
+      descending: true,
+    })
 
     return jsonResponse({ alerts: errorAlerts, recentTriggers })
   } catch (error) {
@@ -848,10 +697,7 @@ export async function handleCreateErrorAlert(request: Request, siteId: string):
       createdAt: new Date().toISOString(),
     }
 
-    await dynamodb.putItem({
-      TableName: TABLE_NAME,
-      Item: marshall(alert),
-    })
+    await getRepository().put(alert)
 
     return jsonResponse({ alert }, 201)
   } catch (error) {
@@ -892,16 +738,8 @@ async function evaluateErrorAlertsThrottled(siteId: string): Promise<void> {
 
 async function evaluateErrorAlerts(siteId: string): Promise<any[]> {
   // Query active error alerts
-  const alertResult = await dynamodb.query({
-    TableName: TABLE_NAME,
-    KeyConditionExpression: 'pk = :pk AND begins_with(sk, :prefix)',
-    ExpressionAttributeValues: {
-      ':pk': { S: `SITE#${siteId}` },
-      ':prefix': { S: 'ALERT#' },
-    },
-  }) as { Items?: any[] }
-
-  const allAlerts = (alertResult.Items || []).map(unmarshall)
+  const repository = getRepository()
+  const allAlerts = await repository.query({ pk: `SITE#${siteId}`, beginsWith: 'ALERT#' })
   const errorAlerts = allAlerts.filter(a => a.isActive && a.metric && String(a.metric).startsWith('error_'))
 
   if (errorAlerts.length === 0) return []
@@ -920,63 +758,36 @@ async function evaluateErrorAlerts(siteId: string): Promise<any[]> {
       // Compare error count in current window vs previous window
       const prevWindowStart = new Date(windowStart.getTime() - windowMs)
 
-      const [currentResult, prevResult] = await Promise.all([
-        dynamodb.query({
-          TableName: TABLE_NAME,
-          KeyConditionExpression: 'pk = :pk AND sk BETWEEN :start AND :end',
-          ExpressionAttributeValues: {
-            ':pk': { S: `SITE#${siteId}` },
-            ':start': { S: `ERROR#${windowStart.toISOString()}` },
-            ':end': { S: `ERROR#${now.toISOString()}` },
-          },
-          Select: 'COUNT',
-        }) as Promise<{ Count?: number }>,
-        dynamodb.query({
-          TableName: TABLE_NAME,
-          KeyConditionExpression: 'pk = :pk AND sk BETWEEN :start AND :end',
-          ExpressionAttributeValues: {
-            ':pk': { S: `SITE#${siteId}` },
-            ':start': { S: `ERROR#${prevWindowStart.toISOString()}` },
-            ':end': { S: `ERROR#${windowStart.toISOString()}` },
-          },
-          Select: 'COUNT',
-        }) as Promise<{ Count?: number }>,
+      const [currentErrors, prevErrors] = await Promise.all([
+        repository.query({
+          pk: `SITE#${siteId}`,
+          between: [`ERROR#${windowStart.toISOString()}`, `ERROR#${now.toISOString()}`],
+        }),
+        repository.query({
+          pk: `SITE#${siteId}`,
+          between: [`ERROR#${prevWindowStart.toISOString()}`, `ERROR#${windowStart.toISOString()}`],
+        }),
       ])
 
-      const currentCount = currentResult.Count || 0
-      const prevCount = prevResult.Count || 0
+      const currentCount = currentErrors.length
+      const prevCount = prevErrors.length
       currentValue = prevCount === 0 ? (currentCount > 0 ? 100 : 0)
         : Math.round(((currentCount - prevCount) / prevCount) * 100)
       shouldTrigger = currentValue >= (alert.threshold || 50)
     } else if (alert.metric === 'new_error_type') {
       // Check if any ERROR_GROUP firstSeen is within window
-      const groupResult = await dynamodb.query({
-        TableName: TABLE_NAME,
-        KeyConditionExpression: 'pk = :pk AND begins_with(sk, :prefix)',
-        ExpressionAttributeValues: {
-          ':pk': { S: `SITE#${siteId}` },
-          ':prefix': { S: 'ERROR_GROUP#' },
-        },
-      }) as { Items?: any[] }
-
-      const groups = (groupResult.Items || []).map(unmarshall)
+      const groups = await repository.query({ pk: `SITE#${siteId}`, beginsWith: 'ERROR_GROUP#' })
       const newGroups = groups.filter(g => g.firstSeen && new Date(g.firstSeen) >= windowStart)
       currentValue = newGroups.length
       shouldTrigger = currentValue > 0
     } else if (alert.metric === 'error_threshold') {
       // Count errors in window
-      const countResult = await dynamodb.query({
-        TableName: TABLE_NAME,
-        KeyConditionExpression: 'pk = :pk AND sk BETWEEN :start AND :end',
-        ExpressionAttributeValues: {
-          ':pk': { S: `SITE#${siteId}` },
-          ':start': { S: `ERROR#${windowStart.toISOString()}` },
-          ':end': { S: `ERROR#${now.toISOString()}` },
-        },
-        Select: 'COUNT',
-      }) as { Count?: number }
-
-      currentValue = countResult.Count || 0
+      const windowErrors = await repository.query({
+        pk: `SITE#${siteId}`,
+        between: [`ERROR#${windowStart.toISOString()}`, `ERROR#${now.toISOString()}`],
+      })
+
+      currentValue = windowErrors.length
       shouldTrigger = currentValue >= (alert.threshold || 100)
     }
 
@@ -994,23 +805,13 @@ async function evaluateErrorAlerts(siteId: string): Promise<any[]> {
         ttl: Math.floor(Date.now() / 1000) + 7 * 24 * 60 * 60, // 7 days
       }
 
-      await dynamodb.putItem({
-        TableName: TABLE_NAME,
-        Item: marshall(trigger),
-      })
+      await repository.put(trigger)
 
       // Update lastTriggered on the alert
-      await dynamodb.updateItem({
-        TableName: TABLE_NAME,
-        Key: {
-          pk: { S: `SITE#${siteId}` },
-          sk: { S: `ALERT#${alert.id}` },
-        },
-        UpdateExpression: 'SET lastTriggered = :now',
-        ExpressionAttributeValues: {
-          ':now': { S: now.toISOString() },
-        },
-      })
+      await repository.update(
+        { pk: `SITE#${siteId}`, sk: `ALERT#${alert.id}` },
+        { set: { lastTriggered: now.toISOString() } },
+      )
 
       triggered.push(trigger)
     }
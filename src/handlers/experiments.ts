@@ -3,7 +3,7 @@
  */
 
 import { generateId } from '../index'
-import { dynamodb, TABLE_NAME, unmarshall, marshall } from '../lib/dynamodb'
+import { getRepository } from '../lib/repository'
 import { jsonResponse, errorResponse } from '../utils/response'
 import { getQueryParams } from '../../deploy/lambda-adapter'
 
@@ -38,10 +38,7 @@ export async function handleCreateExperiment(request: Request, siteId: string):
       createdAt: new Date().toISOString(),
     }
 
-    await dynamodb.putItem({
-      TableName: TABLE_NAME,
-      Item: marshall(experiment),
-    })
+    await getRepository().put(experiment)
 
     return jsonResponse({ experiment }, 201)
   } catch (error) {
@@ -55,16 +52,7 @@ export async function handleCreateExperiment(request: Request, siteId: string):
  */
 export async function handleGetExperiments(request: Request, siteId: string): Promise<Response> {
   try {
-    const result = await dynamodb.query({
-      TableName: TABLE_NAME,
-      KeyConditionExpression: 'pk = :pk AND begins_with(sk, :prefix)',
-      ExpressionAttributeValues: {
-        ':pk': { S: `SITE#${siteId}` },
-        ':prefix': { S: 'EXPERIMENT#' },
-      },
-    }) as { Items?: any[] }
-
-    const experiments = (result.Items || []).map(unmarshall)
+    const experiments = await getRepository().query({ pk: `SITE#${siteId}`, beginsWith: 'EXPERIMENT#' })
 
     return jsonResponse({ experiments })
   } catch (error) {
@@ -85,20 +73,13 @@ export async function handleRecordExperimentEvent(request: Request, siteId: stri
     }
 
     // Get experiment
-    const result = await dynamodb.query({
-      TableName: TABLE_NAME,
-      KeyConditionExpression: 'pk = :pk AND sk = :sk',
-      ExpressionAttributeValues: {
-        ':pk': { S: `SITE#${siteId}` },
-        ':sk': { S: `EXPERIMENT#${body.experimentId}` },
-      },
-    }) as { Items?: any[] }
-
-    if (!result.Items || result.Items.length === 0) {
+    const repository = getRepository()
+    const experiment = await repository.get({ pk: `SITE#${siteId}`, sk: `EXPERIMENT#${body.experimentId}` })
+
+    if (!experiment) {
       return jsonResponse({ error: 'Experiment not found' }, 404)
     }
 
-    const experiment = unmarshall(result.Items[0])
     const variant = experiment.variants.find((v: any) => v.id === body.variantId)
 
     if (!variant) {
@@ -113,13 +94,10 @@ export async function handleRecordExperimentEvent(request: Request, siteId: stri
     }
 
     // Save updated experiment
-    await dynamodb.putItem({
-      TableName: TABLE_NAME,
-      Item: marshall({
-        ...experiment,
-        variants: experiment.variants,
-        updatedAt: new Date().toISOString(),
-      }),
+    await repository.put({
+      ...experiment,
+      variants: experiment.variants,
+      updatedAt: new Date().toISOString(),
     })
 
     return jsonResponse({ success: true })
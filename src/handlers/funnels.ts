@@ -2,8 +2,10 @@
  * Funnel handlers
  */
 
-import { generateId } from '../index'
-import { dynamodb, TABLE_NAME, unmarshall, marshall } from '../lib/dynamodb'
+import type { Session } from '../types'
+import { FunnelAnalyzer, generateId } from '../index'
+import { createReportReader } from '../lib/reports'
+import { getRepository } from '../lib/repository'
 import { parseDateRange } from '../utils/date'
 import { jsonResponse, errorResponse } from '../utils/response'
 import { getQueryParams } from '../../deploy/lambda-adapter'
@@ -30,10 +32,7 @@ export async function handleCreateFunnel(request: Request, siteId: string): Prom
       createdAt: new Date().toISOString(),
     }
 
-    await dynamodb.putItem({
-      TableName: TABLE_NAME,
-      Item: marshall(funnel),
-    })
+    await getRepository().put(funnel)
 
     return jsonResponse({ funnel }, 201)
   } catch (error) {
@@ -47,16 +46,7 @@ export async function handleCreateFunnel(request: Request, siteId: string): Prom
  */
 export async function handleGetFunnels(request: Request, siteId: string): Promise<Response> {
   try {
-    const result = await dynamodb.query({
-      TableName: TABLE_NAME,
-      KeyConditionExpression: 'pk = :pk AND begins_with(sk, :prefix)',
-      ExpressionAttributeValues: {
-        ':pk': { S: `SITE#${siteId}` },
-        ':prefix': { S: 'FUNNEL#' },
-      },
-    }) as { Items?: any[] }
-
-    const funnels = (result.Items || []).map(unmarshall)
+    const funnels = await getRepository().query({ pk: `SITE#${siteId}`, beginsWith: 'FUNNEL#' })
 
     return jsonResponse({ funnels })
   } catch (error) {
@@ -74,97 +64,49 @@ export async function handleGetFunnelAnalysis(request: Request, siteId: string,
     const { startDate, endDate } = parseDateRange(query)
 
     // Get funnel definition
-    const funnelResult = await dynamodb.query({
-      TableName: TABLE_NAME,
-      KeyConditionExpression: 'pk = :pk AND sk = :sk',
-      ExpressionAttributeValues: {
-        ':pk': { S: `SITE#${siteId}` },
-        ':sk': { S: `FUNNEL#${funnelId}` },
-      },
-    }) as { Items?: any[] }
+    const repository = getRepository()
+    const funnel = await repository.get({ pk: `SITE#${siteId}`, sk: `FUNNEL#${funnelId}` })
 
-    if (!funnelResult.Items || funnelResult.Items.length === 0) {
+    if (!funnel) {
       return jsonResponse({ error: 'Funnel not found' }, 404)
     }
 
-    const funnel = unmarshall(funnelResult.Items[0])
-
     // Get sessions for analysis
-    const sessionsResult = await dynamodb.query({
-      TableName: TABLE_NAME,
-      KeyConditionExpression: 'pk = :pk AND begins_with(sk, :prefix)',
-      ExpressionAttributeValues: {
-        ':pk': { S: `SITE#${siteId}` },
-        ':prefix': { S: 'SESSION#' },
-      },
-    }) as { Items?: any[] }
-
-    const sessions = (sessionsResult.Items || []).map(unmarshall).filter(s => {
-      const sessionStart = new Date(s.startedAt)
-      return sessionStart >= startDate && sessionStart <= endDate
-    })
+    const reader = createReportReader()
+    const sessions = await reader.getSessions(siteId, startDate, endDate) as unknown as Session[]
 
-    // Analyze funnel steps
+    // Replay each session's journey through the ordered funnel steps
     const steps = funnel.steps as Array<{ name: string; pattern: string; type: 'pageview' | 'event' }>
-    const stepResults = steps.map((step, index) => ({
-      name: step.name,
-      pattern: step.pattern,
-      type: step.type,
-      visitors: 0,
-      sessions: 0,
-      conversionRate: 0,
-      dropoffRate: 0,
-      stepIndex: index,
-    }))
-
-    // Track visitors through funnel steps
-    for (const session of sessions) {
-      const pageSequence = session.pageSequence || []
-      const events = session.events || []
-
-      let completedSteps = 0
-      for (let i = 0; i < steps.length; i++) {
-        const step = steps[i]
-        let matched = false
-
-        if (step.type === 'pageview') {
-          matched = pageSequence.some((page: string) => {
-            if (step.pattern.includes('*')) {
-              const regex = new RegExp('^' + step.pattern.replace(/\*/g, '.*') + '$')
-              return regex.test(page)
-            }
-            return page === step.pattern
-          })
-        } else {
-          matched = events.some((event: any) => event.name === step.pattern)
-        }
-
-        if (matched) {
-          completedSteps = i + 1
-          stepResults[i].sessions++
-        } else {
-          break
-        }
-      }
-    }
+    const analyzer = new FunnelAnalyzer({
+      id: funnel.id,
+      name: funnel.name,
+      steps: steps.map((step, index) => ({
+        id: String(index),
+        name: step.name,
+        match: step.type === 'event' ? { eventName: step.pattern } : { path: step.pattern },
+      })),
+    })
+    const journeys = analyzer.getSessionJourneys(sessions)
+    const analysis = analyzer.analyzeSessions(sessions)
 
-    // Calculate unique visitors and rates
     const totalSessions = sessions.length
-    for (let i = 0; i < stepResults.length; i++) {
-      const step = stepResults[i]
-      const prevStep = i > 0 ? stepResults[i - 1] : null
-
-      step.visitors = step.sessions // Simplified: using sessions as visitors
-      step.conversionRate = totalSessions > 0
-        ? Math.round((step.sessions / totalSessions) * 100)
-        : 0
-
-      if (prevStep) {
-        step.dropoffRate = prevStep.sessions > 0
-          ? Math.round(((prevStep.sessions - step.sessions) / prevStep.sessions) * 100)
-          : 0
+    const stepResults = steps.map((step, index) => {
+      const reached = journeys.filter(j => j.stepsCompleted > index)
+      const previous = index > 0 ? journeys.filter(j => j.stepsCompleted >= index).length : 0
+      const avgTimeOnStepMs = analysis.steps[index]?.avgTimeOnStepMs
+
+      return {
+        name: step.name,
+        pattern: step.pattern,
+        type: step.type,
+        visitors: new Set(reached.map(j => j.visitorId)).size,
+        sessions: reached.length,
+        conversionRate: totalSessions > 0 ? Math.round((reached.length / totalSessions) * 100) : 0,
+        dropoffRate: previous > 0 ? Math.round(((previous - reached.length) / previous) * 100) : 0,
+        avgTimeToNextMs: avgTimeOnStepMs !== undefined ? Math.round(avgTimeOnStepMs) : null,
+        stepIndex: index,
       }
-    }
+    })
 
     // Calculate overall conversion rate
     const firstStep = stepResults[0]?.sessions || 0
@@ -184,11 +126,13 @@ export async function handleGetFunnelAnalysis(request: Request, siteId: string,
         enteredFunnel: firstStep,
         completedFunnel: lastStep,
         overallConversionRate,
+        avgCompletionTimeMs: analysis.avgCompletionTimeMs !== undefined ? Math.round(analysis.avgCompletionTimeMs) : null,
       },
       dateRange: {
         start: startDate.toISOString(),
         end: endDate.toISOString(),
       },
+      complete: reader.complete,
     })
   } catch (error) {
     console.error('Get funnel analysis error:', error)
@@ -201,13 +145,7 @@ export async function handleGetFunnelAnalysis(request: Request, siteId: string,
  */
 export async function handleDeleteFunnel(_request: Request, siteId: string, funnelId: string): Promise<Response> {
   try {
-    await dynamodb.deleteItem({
-      TableName: TABLE_NAME,
-      Key: marshall({
-        pk: `SITE#${siteId}`,
-        sk: `FUNNEL#${funnelId}`,
-      }),
-    })
+    await getRepository().delete({ pk: `SITE#${siteId}`, sk: `FUNNEL#${funnelId}` })
 
     return jsonResponse({ success: true })
   } catch (error) {
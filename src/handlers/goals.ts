@@ -2,9 +2,10 @@
  * Goal CRUD handlers
  */
 
-import { generateId } from '../index'
-import { Goal, Conversion } from '../../src/models/orm'
-import { dynamodb, TABLE_NAME, unmarshall } from '../lib/dynamodb'
+import { generateId, type RepositoryItem } from '../index'
+import { getGoalConversions, getGoalKey, listGoals } from '../lib/goals'
+import { createReportReader } from '../lib/reports'
+import { getRepository } from '../lib/repository'
 import { invalidateGoalCache } from '../utils/cache'
 import { parseDateRange } from '../utils/date'
 import { jsonResponse, errorResponse } from '../utils/response'
@@ -33,8 +34,11 @@ export async function handleCreateGoal(request: Request, siteId: string): Promis
       return jsonResponse({ error: 'durationMinutes is required for duration goals (min: 1)' }, 400)
     }
 
-    const goal = await Goal.create({
-      id: generateId(),
+    const id = generateId()
+    const now = new Date().toISOString()
+    const goal = {
+      ...getGoalKey(siteId, id),
+      id,
       siteId,
       name: body.name,
       type: body.type,
@@ -43,9 +47,13 @@ export async function handleCreateGoal(request: Request, siteId: string): Promis
       durationMinutes: body.durationMinutes,
       value: body.value,
       isActive: body.isActive ?? true,
-    })
+      createdAt: now,
+      updatedAt: now,
+      _et: 'Goal',
+    }
+    await getRepository().put(goal)
 
-    invalidateGoalCache(siteId)
+    await invalidateGoalCache(siteId)
     return jsonResponse({ goal }, 201)
   } catch (error) {
     console.error('Create goal error:', error)
@@ -62,19 +70,13 @@ export async function handleGetGoals(request: Request, siteId: string): Promise<
     const includeInactive = query.includeInactive === 'true'
     const { startDate, endDate } = parseDateRange(query)
 
-    const queryBuilder = Goal.forSite(siteId)
-    if (!includeInactive) {
-      queryBuilder.active()
-    }
-    const goals = await queryBuilder.get()
+    const goals = await listGoals(siteId, !includeInactive)
+    const reader = createReportReader()
 
     const goalsWithStats = await Promise.all(goals.map(async (goal) => {
-      let conversions: Conversion[] = []
+      let conversions: RepositoryItem[] = []
       try {
-        conversions = await Conversion.forGoal(siteId, goal.id)
-          .since(startDate)
-          .until(endDate)
-          .get()
+        conversions = await getGoalConversions(siteId, goal.id, startDate, endDate, reader)
       } catch (e) {
         console.log('[GetGoals] Conversion query failed:', e)
       }
@@ -98,7 +100,7 @@ export async function handleGetGoals(request: Request, siteId: string): Promise<
       }
     }))
 
-    return jsonResponse({ goals: goalsWithStats })
+    return jsonResponse({ goals: goalsWithStats, complete: reader.complete })
   } catch (error) {
     console.error('Get goals error:', error)
     return errorResponse('Failed to fetch goals')
@@ -116,17 +118,17 @@ export async function handleUpdateGoal(request: Request, siteId: string, goalId:
       return jsonResponse({ error: 'Invalid type. Must be: pageview, event, or duration' }, 400)
     }
 
-    const goal = await Goal.update(siteId, goalId, {
-      name: body.name,
-      type: body.type,
-      pattern: body.pattern,
-      matchType: body.matchType,
-      durationMinutes: body.durationMinutes,
-      value: body.value,
-      isActive: body.isActive,
-    })
+    const changes: Record<string, unknown> = { updatedAt: new Date().toISOString() }
+    for (const field of ['name', 'type', 'pattern', 'matchType', 'durationMinutes', 'value', 'isActive']) {
+      if (body[field] !== undefined) changes[field] = body[field]
+    }
 
-    invalidateGoalCache(siteId)
+    const goal = await getRepository().update(getGoalKey(siteId, goalId), { set: changes }, { matches: { id: goalId } })
+    if (!goal) {
+      return jsonResponse({ error: 'Goal not found' }, 404)
+    }
+
+    await invalidateGoalCache(siteId)
     return jsonResponse({ goal })
   } catch (error) {
     console.error('Update goal error:', error)
@@ -139,8 +141,8 @@ export async function handleUpdateGoal(request: Request, siteId: string, goalId:
  */
 export async function handleDeleteGoal(_request: Request, siteId: string, goalId: string): Promise<Response> {
   try {
-    await Goal.delete(siteId, goalId)
-    invalidateGoalCache(siteId)
+    await getRepository().delete(getGoalKey(siteId, goalId))
+    await invalidateGoalCache(siteId)
     return jsonResponse({ success: true })
   } catch (error) {
     console.error('Delete goal error:', error)
@@ -156,24 +158,14 @@ export async function handleGetGoalStats(request: Request, siteId: string): Prom
     const query = getQueryParams(request)
     const { startDate, endDate } = parseDateRange(query)
 
-    const goals = await Goal.forSite(siteId).get()
+    const goals = await listGoals(siteId)
 
-    const sessionsResult = await dynamodb.query({
-      TableName: TABLE_NAME,
-      KeyConditionExpression: 'pk = :pk AND begins_with(sk, :prefix)',
-      ExpressionAttributeValues: {
-        ':pk': { S: `SITE#${siteId}` },
-        ':prefix': { S: 'SESSION#' },
-      },
-      Select: 'COUNT',
-    }) as { Count?: number }
-    const totalSessions = sessionsResult.Count || 0
+    const reader = createReportReader()
+    const sessions = await reader.query({ pk: `SITE#${siteId}`, beginsWith: 'SESSION#' })
+    const totalSessions = sessions.length
 
     const goalStats = await Promise.all(goals.map(async (goal) => {
-      const conversions = await Conversion.forGoal(siteId, goal.id)
-        .since(startDate)
-        .until(endDate)
-        .get()
+      const conversions = await getGoalConversions(siteId, goal.id, startDate, endDate, reader)
 
       const uniqueVisitors = new Set(conversions.map(c => c.visitorId)).size
       const totalValue = conversions.reduce((sum, c) => sum + (c.value || 0), 0)
@@ -205,6 +197,7 @@ export async function handleGetGoalStats(request: Request, siteId: string): Prom
         totalSessions,
       },
       dateRange: { start: startDate.toISOString(), end: endDate.toISOString() },
+      complete: reader.complete,
     })
   } catch (error) {
     console.error('Get goal stats error:', error)
@@ -2,7 +2,7 @@
  * Heatmap handlers
  */
 
-import { dynamodb, TABLE_NAME, unmarshall } from '../lib/dynamodb'
+import { createReportReader } from '../lib/reports'
 import { parseDateRange } from '../utils/date'
 import { jsonResponse, errorResponse } from '../utils/response'
 import { getQueryParams } from '../../deploy/lambda-adapter'
@@ -12,24 +12,18 @@ import { getQueryParams } from '../../deploy/lambda-adapter'
  */
 export async function handleGetHeatmapClicks(request: Request, siteId: string): Promise<Response> {
   try {
+    const reader = createReportReader()
     const query = getQueryParams(request)
     const { startDate, endDate } = parseDateRange(query)
     const path = query.path
     const device = query.device
     const limit = Math.min(Number(query.limit) || 1000, 10000)
 
-    const result = await dynamodb.query({
-      TableName: TABLE_NAME,
-      KeyConditionExpression: 'pk = :pk AND sk BETWEEN :start AND :end',
-      ExpressionAttributeValues: {
-        ':pk': { S: `SITE#${siteId}` },
-        ':start': { S: `HMCLICK#${startDate.toISOString()}` },
-        ':end': { S: `HMCLICK#${endDate.toISOString()}` },
-      },
-      Limit: limit,
-    }) as { Items?: any[] }
-
-    let clicks = (result.Items || []).map(unmarshall)
+    let clicks = await reader.query({
+      pk: `SITE#${siteId}`,
+      between: [`HMCLICK#${startDate.toISOString()}`, `HMCLICK#${endDate.toISOString()}`],
+      limit,
+    })
 
     if (path) {
       clicks = clicks.filter(c => c.path === path || c.path === decodeURIComponent(path))
@@ -98,6 +92,7 @@ export async function handleGetHeatmapClicks(request: Request, siteId: string):
         start: startDate.toISOString(),
         end: endDate.toISOString(),
       },
+      complete: reader.complete,
     })
   } catch (error) {
     console.error('Heatmap clicks error:', error)
@@ -110,21 +105,15 @@ export async function handleGetHeatmapClicks(request: Request, siteId: string):
  */
 export async function handleGetHeatmapScroll(request: Request, siteId: string): Promise<Response> {
   try {
+    const reader = createReportReader()
     const query = getQueryParams(request)
     const { startDate, endDate } = parseDateRange(query)
     const path = query.path
     const device = query.device
 
-    const result = await dynamodb.query({
-      TableName: TABLE_NAME,
-      KeyConditionExpression: 'pk = :pk AND begins_with(sk, :prefix)',
-      ExpressionAttributeValues: {
-        ':pk': { S: `SITE#${siteId}` },
-        ':prefix': { S: 'HMSCROLL#' },
-      },
-    }) as { Items?: any[] }
+    const result = await reader.query({ pk: `SITE#${siteId}`, beginsWith: 'HMSCROLL#' })
 
-    let scrollData = (result.Items || []).map(unmarshall).filter(s => {
+    let scrollData = result.filter(s => {
       const timestamp = new Date(s.timestamp)
       return timestamp >= startDate && timestamp <= endDate
     })
@@ -175,6 +164,7 @@ export async function handleGetHeatmapScroll(request: Request, siteId: string):
         start: startDate.toISOString(),
         end: endDate.toISOString(),
       },
+      complete: reader.complete,
     })
   } catch (error) {
     console.error('Heatmap scroll error:', error)
@@ -187,31 +177,18 @@ export async function handleGetHeatmapScroll(request: Request, siteId: string):
  */
 export async function handleGetHeatmapPages(request: Request, siteId: string): Promise<Response> {
   try {
+    const reader = createReportReader()
     const query = getQueryParams(request)
     const { startDate, endDate } = parseDateRange(query)
     const limit = Math.min(Number(query.limit) || 20, 100)
 
-    const clicksResult = await dynamodb.query({
-      TableName: TABLE_NAME,
-      KeyConditionExpression: 'pk = :pk AND sk BETWEEN :start AND :end',
-      ExpressionAttributeValues: {
-        ':pk': { S: `SITE#${siteId}` },
-        ':start': { S: `HMCLICK#${startDate.toISOString()}` },
-        ':end': { S: `HMCLICK#${endDate.toISOString()}` },
-      },
-    }) as { Items?: any[] }
-
-    const scrollResult = await dynamodb.query({
-      TableName: TABLE_NAME,
-      KeyConditionExpression: 'pk = :pk AND begins_with(sk, :prefix)',
-      ExpressionAttributeValues: {
-        ':pk': { S: `SITE#${siteId}` },
-        ':prefix': { S: 'HMSCROLL#' },
-      },
-    }) as { Items?: any[] }
+    const clicks = await reader.query({
+      pk: `SITE#${siteId}`,
+      between: [`HMCLICK#${startDate.toISOString()}`, `HMCLICK#${endDate.toISOString()}`],
+    })
+    const scrollResult = await reader.query({ pk: `SITE#${siteId}`, beginsWith: 'HMSCROLL#' })
 
-    const clicks = (clicksResult.Items || []).map(unmarshall)
-    const scrolls = (scrollResult.Items || []).map(unmarshall).filter(s => {
+    const scrolls = scrollResult.filter(s => {
       const timestamp = new Date(s.timestamp)
       return timestamp >= startDate && timestamp <= endDate
     })
@@ -261,6 +238,7 @@ export async function handleGetHeatmapPages(request: Request, siteId: string): P
         start: startDate.toISOString(),
         end: endDate.toISOString(),
       },
+      complete: reader.complete,
     })
   } catch (error) {
     console.error('Heatmap pages error:', error)
@@ -0,0 +1,69 @@
+/**
+ * Historical data import handlers
+ */
+
+import type { ImportFile, ImportSource } from '../utils/importers'
+import { getImportedPeriods, runImport } from '../lib/importers'
+import { IMPORT_SOURCES } from '../utils/importers'
+import { jsonResponse, errorResponse } from '../utils/response'
+import { getQueryParams } from '../../deploy/lambda-adapter'
+
+/**
+ * GET /api/sites/{siteId}/imports
+ */
+export async function handleGetImports(request: Request, siteId: string): Promise<Response> {
+  try {
+    const query = getQueryParams(request)
+    const periods = await getImportedPeriods(siteId, query.startDate, query.endDate)
+
+    return jsonResponse({
+      periods: periods.map(period => ({
+        date: period.date,
+        source: period.source,
+        status: period.status,
+        pageViews: period.pageViews,
+        visitors: period.visitors,
+        importedAt: period.importedAt,
+      })),
+      total: periods.length,
+    })
+  } catch (error) {
+    console.error('Get imports error:', error)
+    return errorResponse('Failed to fetch imports')
+  }
+}
+
+/**
+ * POST /api/sites/{siteId}/imports
+ *
+ * Body: `{ source, files: [{ name, content }], dryRun }`
+ */
+export async function handleCreateImport(request: Request, siteId: string): Promise<Response> {
+  try {
+    const body = await request.json() as Record<string, any>
+
+    if (!IMPORT_SOURCES.includes(body.source)) {
+      return jsonResponse({ error: `source must be one of: ${IMPORT_SOURCES.join(', ')}` }, 400)
+    }
+    const files = Array.isArray(body.files) ? body.files as ImportFile[] : []
+    if (files.length === 0 || files.some(file => typeof file?.name !== 'string' || typeof file?.content !== 'string')) {
+      return jsonResponse({ error: 'files must be a non-empty array of { name, content }' }, 400)
+    }
+
+    const result = await runImport({
+      siteId,
+      source: body.source as ImportSource,
+      files,
+      dryRun: body.dryRun === true,
+    })
+
+    if (result.errors.length > 0 && result.days.length === 0) {
+      return jsonResponse({ error: 'No data could be read from the files', errors: result.errors }, 400)
+    }
+
+    return jsonResponse(result, result.dryRun ? 200 : 201)
+  } catch (error) {
+    console.error('Create import error:', error)
+    return errorResponse('Failed to import data')
+  }
+}
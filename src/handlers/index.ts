@@ -50,8 +50,32 @@ export * from './data'
 // Sharing
 export * from './sharing'
 
+// Bot traffic
+export * from './bots'
+
+// Rejected payloads
+export * from './payloads'
+
+// Site ingestion policy
+export * from './site-policy'
+
+// Referrer rules
+export * from './referrers'
+
+// Ecommerce revenue
+export * from './ecommerce'
+
+// Historical data imports
+export * from './imports'
+
+// Dead-letter queue admin
+export * from './dead-letters'
+
 // Collection
 export * from './collect'
 
+// Server-side ingest
+export * from './ingest'
+
 // Misc (health, sites, revenue)
 export * from './misc'
@@ -0,0 +1,193 @@
+/**
+ * Server-side ingest handler
+ *
+ * Lets backend services (payment webhooks, signup APIs, ...) record events with an
+ * `ingest` API key. Events carry their own visitor/session identifiers and may be
+ * backfilled within `ingest.backfillWindowDays`; aggregates of periods that were
+ * already rolled up are marked dirty for the aggregation runner to recompute.
+ */
+
+import { getConfig, hashVisitorId } from '../index'
+import { markLatePeriods } from '../lib/aggregation'
+import { PAYLOAD_VERSION } from '../utils/payload-schema'
+import { jsonResponse, errorResponse } from '../utils/response'
+import {
+  applyReferrerRules,
+  loadSession,
+  persistSession,
+  putItem,
+  recordEvent,
+  validatePayload,
+  type CollectBatchResult,
+  type CollectContext,
+  type SessionState,
+} from './collect'
+
+/** Base for events that only send a path */
+const SERVER_URL_BASE = 'https://server.invalid'
+
+/**
+ * Parse an ISO string or epoch milliseconds, defaulting to now
+ */
+function parseTimestamp(value: unknown, now: Date): Date | null {
+  if (value === undefined || value === null || value === '') return now
+  if (typeof value !== 'string' && typeof value !== 'number') return null
+
+  const timestamp = new Date(value)
+  return Number.isNaN(timestamp.getTime()) ? null : timestamp
+}
+
+/**
+ * Stable visitor id for a caller-supplied identifier (no daily salt, so the
+ * same user maps to the same visitor across days)
+ */
+async function getServerVisitorId(siteId: string, visitorId: string): Promise<string> {
+  return hashVisitorId('server', visitorId, siteId, 'ingest')
+}
+
+/**
+ * One session per visitor per UTC day when the caller does not supply one
+ */
+function getServerSessionId(visitorId: string, timestamp: Date): string {
+  return `srv_${visitorId.slice(0, 16)}_${timestamp.toISOString().slice(0, 10).replace(/-/g, '')}`
+}
+
+/**
+ * POST /api/ingest
+ *
+ * Body is a single event or `{ events: [...] }`. Each event needs a `visitorId`;
+ * `type` is `event` (default, needs `name`) or `pageview` (needs `url`).
+ * Responds with a per-index accept/reject result.
+ */
+export async function handleServerIngest(request: Request, siteId: string): Promise<Response> {
+  try {
+    const body = await request.json() as Record<string, any>
+    const rawEvents = Array.isArray(body?.events) ? body.events : [body]
+    const { backfillWindowDays, maxFutureSkewSeconds, maxEventsPerRequest } = getConfig().ingest
+
+    if (rawEvents.length === 0 || !rawEvents[0] || typeof rawEvents[0] !== 'object') {
+      return jsonResponse({ error: 'Missing required field: events' }, 400)
+    }
+    if (rawEvents.length > maxEventsPerRequest) {
+      return jsonResponse({ error: `Too many events (max ${maxEventsPerRequest})` }, 400)
+    }
+
+    const now = new Date()
+    const earliest = new Date(now.getTime() - backfillWindowDays * 24 * 60 * 60 * 1000)
+    const latest = new Date(now.getTime() + maxFutureSkewSeconds * 1000)
+
+    const results: CollectBatchResult[] = rawEvents.map((_: unknown, index: number) => ({ index, status: 'rejected' }))
+    const sessions = new Map<string, SessionState>()
+    const written: Array<{ siteId: string, timestamp: Date }> = []
+
+    for (const [index, event] of (rawEvents as Array<Record<string, any>>).entries()) {
+      if (!event || typeof event !== 'object') {
+        results[index].error = 'Invalid event'
+        continue
+      }
+
+      const type = event.type || 'event'
+      if (type !== 'event' && type !== 'pageview') {
+        results[index].error = 'Invalid type (expected event or pageview)'
+        continue
+      }
+      if (!event.visitorId || typeof event.visitorId !== 'string') {
+        results[index].error = 'Missing required field: visitorId'
+        continue
+      }
+      if (type === 'event' && !event.name) {
+        results[index].error = 'Missing required field: name'
+        continue
+      }
+      if (type === 'pageview' && !event.url) {
+        results[index].error = 'Missing required field: url'
+        continue
+      }
+
+      const timestamp = parseTimestamp(event.timestamp, now)
+      if (!timestamp) {
+        results[index].error = 'Invalid timestamp'
+        continue
+      }
+      if (timestamp < earliest || timestamp > latest) {
+        results[index].error = `Timestamp outside the backfill window (${backfillWindowDays} days)`
+        continue
+      }
+
+      let url: URL
+      try {
+        url = new URL(event.url || event.path || '/', SERVER_URL_BASE)
+      } catch {
+        results[index].error = 'Invalid URL'
+        continue
+      }
+
+      const validation = await validatePayload({
+        v: PAYLOAD_VERSION,
+        s: siteId,
+        e: type,
+        u: url.href,
+        r: event.referrer,
+        t: event.title,
+        p: type === 'event'
+          ? { ...(event.properties || {}), name: String(event.name), value: event.value }
+          : undefined,
+      }, 'ingest')
+      if ('rejection' in validation) {
+        results[index].error = validation.rejection.message
+        results[index].rejection = validation.rejection
+        continue
+      }
+
+      try {
+        const visitorId = await getServerVisitorId(siteId, event.visitorId)
+        const sessionId = event.sessionId ? String(event.sessionId) : getServerSessionId(visitorId, timestamp)
+
+        let state = sessions.get(sessionId)
+        if (!state) {
+          state = await loadSession(siteId, sessionId)
+          sessions.set(sessionId, state)
+        }
+
+        // The request IP belongs to the calling backend, so it is never geolocated
+        const ctx: CollectContext = {
+          ip: '',
+          userAgent: event.userAgent || 'server',
+          headers: {},
+          country: typeof event.country === 'string' ? event.country.toUpperCase() : undefined,
+        }
+
+        if (await applyReferrerRules(validation.payload, ctx)) {
+          results[index].status = 'filtered'
+          continue
+        }
+
+        await recordEvent({ ...validation.payload, sid: sessionId }, validation.url, ctx, visitorId, state, putItem, timestamp)
+        results[index].status = 'accepted'
+
+        written.push({ siteId, timestamp })
+      } catch (error) {
+        console.error('[Ingest] Event failed:', error)
+        results[index].error = 'Failed to process event'
+      }
+    }
+
+    for (const state of sessions.values()) {
+      await persistSession(state, putItem)
+    }
+
+    // Late events changed periods that were already aggregated
+    const dirtyPeriods = await markLatePeriods(written, now)
+
+    return jsonResponse({
+      accepted: results.filter(r => r.status === 'accepted').length,
+      rejected: results.filter(r => r.status === 'rejected').length,
+      filtered: results.filter(r => r.status === 'filtered').length,
+      dirtyPeriods,
+      results,
+    })
+  } catch (error) {
+    console.error('Server ingest error:', error)
+    return errorResponse('Failed to ingest events')
+  }
+}
@@ -2,7 +2,14 @@
  * Miscellaneous handlers (health, sites list, revenue, site management)
  */
 
-import { dynamodb, TABLE_NAME, unmarshall, marshall } from '../lib/dynamodb'
+import { getConfig } from '../index'
+import { getRepository } from '../lib/repository'
+import { getEcommerceRecords, getExchangeRates, getReportingCurrency } from '../lib/ecommerce'
+import { checkRateLimit, type Throttle } from '../lib/rate-limit'
+import { createReportReader } from '../lib/reports'
+import { getSiteRecord, invalidateSiteCache, recordForeignHostname } from '../lib/sites'
+import { isForeignHostname, normalizeSitePolicy } from '../utils/site-policy'
+import { breakdownRevenue, isCurrencyCode, summarizeRevenue } from '../utils/ecommerce'
 import { parseDateRange } from '../utils/date'
 import { jsonResponse, errorResponse } from '../utils/response'
 import { getQueryParams } from '../../deploy/lambda-adapter'
@@ -19,43 +26,36 @@ export async function handleHealth(_request: Request): Promise<Response> {
  */
 export async function handleCreateSite(request: Request): Promise<Response> {
   try {
-    const body = await request.json() as { name?: string; domain?: string; domains?: string[] }
+    const body = await request.json() as { name?: string; domain?: string; domains?: string[]; currency?: string }
 
     if (!body.name) {
       return jsonResponse({ error: 'Site name is required' }, 400)
     }
+    if (body.currency !== undefined && !isCurrencyCode(body.currency)) {
+      return jsonResponse({ error: 'currency must be an ISO 4217 code (e.g. EUR)' }, 400)
+    }
 
     const siteId = body.name.toLowerCase().replace(/[^a-z0-9]+/g, '-').replace(/^-|-$/g, '')
     const domains = body.domains || (body.domain ? [body.domain] : [])
     const now = new Date().toISOString()
 
-    // Check if site already exists
-    const existing = await dynamodb.getItem({
-      TableName: TABLE_NAME,
-      Key: {
-        pk: { S: 'SITES' },
-        sk: { S: `SITE#${siteId}` },
-      },
-    })
-
-    if (existing.Item) {
+    // Create the site unless it already exists
+    const created = await getRepository().put({
+      pk: 'SITES',
+      sk: `SITE#${siteId}`,
+      id: siteId,
+      siteId,
+      name: body.name,
+      domains,
+      ...(body.currency && { currency: body.currency }),
+      createdAt: now,
+      updatedAt: now,
+    }, { notExists: true })
+
+    if (!created) {
       return jsonResponse({ error: 'Site already exists', siteId }, 409)
     }
-
-    // Create the site
-    await dynamodb.putItem({
-      TableName: TABLE_NAME,
-      Item: marshall({
-        pk: 'SITES',
-        sk: `SITE#${siteId}`,
-        id: siteId,
-        siteId,
-        name: body.name,
-        domains,
-        createdAt: now,
-        updatedAt: now,
-      }),
-    })
+    invalidateSiteCache(siteId)
 
     return jsonResponse({
       success: true,
@@ -63,6 +63,7 @@ export async function handleCreateSite(request: Request): Promise<Response> {
         id: siteId,
         name: body.name,
         domains,
+        currency: body.currency,
         createdAt: now,
       },
     }, 201)
@@ -72,44 +73,68 @@ export async function handleCreateSite(request: Request): Promise<Response> {
   }
 }
 
+export type SiteAdmission =
+  | { status: 'accepted', foreign: boolean }
+  | { status: 'throttled', throttle: Throttle }
+  | { status: 'rejected', reason: 'unknown_site' | 'foreign_hostname', message: string }
+
 /**
- * Ensure a site exists (auto-create if not) - used by collect handler
+ * Apply the site ingestion policy to an event - used by collect handler
+ *
+ * Unknown sites are auto-created unless the default mode is `closed`. When
+ * `clientKey` is given, auto-creation is rate limited per client. Events from
+ * hostnames outside the site's domains are counted in the foreign-hostname
+ * report, then rejected or tagged per the site's policy.
  */
-export async function ensureSiteExists(siteId: string, hostname?: string): Promise<void> {
+export async function admitSiteEvent(siteId: string, url: URL, clientKey?: string): Promise<SiteAdmission> {
+  const { sitePolicy } = getConfig()
+  const defaults = { mode: sitePolicy.defaultMode, foreignHostnames: sitePolicy.foreignHostnames }
+
   try {
-    // Check if site exists
-    const existing = await dynamodb.getItem({
-      TableName: TABLE_NAME,
-      Key: {
-        pk: { S: 'SITES' },
-        sk: { S: `SITE#${siteId}` },
-      },
-    })
+    const site = await getSiteRecord(siteId)
+
+    if (!site) {
+      if (defaults.mode === 'closed') {
+        return { status: 'rejected', reason: 'unknown_site', message: 'Unknown site' }
+      }
+
+      const throttle = clientKey ? await checkRateLimit('site_creation', clientKey) : null
+      if (throttle) {
+        return { status: 'throttled', throttle }
+      }
 
-    if (!existing.Item) {
       const now = new Date().toISOString()
-      const domains = hostname ? [hostname] : []
 
       // Auto-create the site
-      await dynamodb.putItem({
-        TableName: TABLE_NAME,
-        Item: marshall({
-          pk: 'SITES',
-          sk: `SITE#${siteId}`,
-          id: siteId,
-          siteId,
-          name: siteId, // Use siteId as name, can be updated later
-          domains,
-          createdAt: now,
-          updatedAt: now,
-          autoCreated: true,
-        }),
+      await getRepository().put({
+        pk: 'SITES',
+        sk: `SITE#${siteId}`,
+        id: siteId,
+        siteId,
+        name: siteId, // Use siteId as name, can be updated later
+        domains: [url.hostname],
+        createdAt: now,
+        updatedAt: now,
+        autoCreated: true,
       })
-      console.log(`[ensureSiteExists] Auto-created site: ${siteId}`)
+      invalidateSiteCache(siteId)
+      console.log(`[admitSiteEvent] Auto-created site: ${siteId}`)
+      return { status: 'accepted', foreign: false }
+    }
+
+    const policy = normalizeSitePolicy(site.ingestionPolicy, defaults)
+    if (!isForeignHostname(policy, site.domains, url.hostname)) {
+      return { status: 'accepted', foreign: false }
     }
+
+    await recordForeignHostname(siteId, url.hostname, url.pathname, policy.foreignHostnames)
+    return policy.foreignHostnames === 'tag'
+      ? { status: 'accepted', foreign: true }
+      : { status: 'rejected', reason: 'foreign_hostname', message: `Hostname not allowed for this site: ${url.hostname}` }
   } catch (error) {
-    // Log but don't fail - site creation is best-effort
-    console.error('[ensureSiteExists] Error:', error)
+    // Log but don't fail - the policy check is best-effort
+    console.error('[admitSiteEvent] Error:', error)
+    return { status: 'accepted', foreign: false }
   }
 }
 
@@ -118,18 +143,13 @@ export async function ensureSiteExists(siteId: string, hostname?: string): Promi
  */
 export async function handleGetSites(_request: Request): Promise<Response> {
   try {
-    const result = await dynamodb.query({
-      TableName: TABLE_NAME,
-      KeyConditionExpression: 'pk = :pk',
-      ExpressionAttributeValues: {
-        ':pk': { S: 'SITES' },
-      },
-    }) as { Items?: any[] }
+    const result = await getRepository().query({ pk: 'SITES' })
 
-    const sites = (result.Items || []).map(unmarshall).map((s: any) => ({
+    const sites = result.map((s: any) => ({
       id: s.id || s.siteId,
       name: s.name,
       domains: s.domains || [],
+      ingestionPolicy: s.ingestionPolicy,
       createdAt: s.createdAt,
     }))
 
@@ -147,65 +167,41 @@ export async function handleGetSites(_request: Request): Promise<Response> {
 
 /**
  * GET /api/sites/{siteId}/revenue
+ *
+ * Refund-adjusted revenue from ecommerce purchase and refund events, in the site's
+ * reporting currency (or `?currency=`). `totalRevenue` is net of refunds.
  */
 export async function handleGetRevenue(request: Request, siteId: string): Promise<Response> {
   try {
     const query = getQueryParams(request)
     const { startDate, endDate } = parseDateRange(query)
 
-    // Query events with revenue data
-    const result = await dynamodb.query({
-      TableName: TABLE_NAME,
-      KeyConditionExpression: 'pk = :pk AND sk BETWEEN :start AND :end',
-      ExpressionAttributeValues: {
-        ':pk': { S: `SITE#${siteId}` },
-        ':start': { S: `EVENT#${startDate.toISOString()}` },
-        ':end': { S: `EVENT#${endDate.toISOString()}` },
-      },
-    }) as { Items?: any[] }
-
-    const events = (result.Items || []).map(unmarshall)
-      .filter(e => e.revenue !== undefined || e.eventName === 'purchase' || e.eventName === 'conversion')
-
-    // Calculate revenue metrics
-    let totalRevenue = 0
-    let transactionCount = 0
-    const revenueByDay: Record<string, number> = {}
-    const revenueBySource: Record<string, number> = {}
-
-    for (const event of events) {
-      const revenue = event.revenue || event.value || 0
-      totalRevenue += revenue
-      transactionCount++
-
-      const day = event.timestamp.slice(0, 10)
-      revenueByDay[day] = (revenueByDay[day] || 0) + revenue
-
-      const source = event.utmSource || event.referrerSource || 'direct'
-      revenueBySource[source] = (revenueBySource[source] || 0) + revenue
-    }
-
-    const avgOrderValue = transactionCount > 0 ? totalRevenue / transactionCount : 0
-
-    const dailyRevenue = Object.entries(revenueByDay)
-      .map(([date, revenue]) => ({ date, revenue }))
-      .sort((a, b) => a.date.localeCompare(b.date))
+    const reader = createReportReader()
+    const records = await getEcommerceRecords(siteId, startDate, endDate, reader)
+    const currency = await getReportingCurrency(siteId, query.currency)
+    const rates = getExchangeRates()
 
-    const revenueBySourceList = Object.entries(revenueBySource)
-      .map(([source, revenue]) => ({ source, revenue }))
-      .sort((a, b) => b.revenue - a.revenue)
+    const summary = summarizeRevenue(records, currency, rates)
+    const revenueBySource = breakdownRevenue(records, 'source', currency, rates)
+      .filter(row => row.orders > 0 || row.refundedRevenue > 0)
+      .map(row => ({ source: row.key, revenue: row.netRevenue, orders: row.orders }))
 
     return jsonResponse({
-      totalRevenue,
-      transactionCount,
-      avgOrderValue,
-      dailyRevenue,
-      revenueBySource: revenueBySourceList,
-      currency: 'USD',
+      totalRevenue: summary.netRevenue,
+      grossRevenue: summary.grossRevenue,
+      refundedRevenue: summary.refundedRevenue,
+      transactionCount: summary.orders,
+      refundCount: summary.refunds,
+      avgOrderValue: summary.avgOrderValue,
+      dailyRevenue: summary.daily.map(day => ({ ...day, revenue: day.netRevenue })),
+      revenueBySource,
+      currency,
+      unconvertedCurrencies: summary.unconvertedCurrencies,
       dateRange: {
         start: startDate.toISOString(),
         end: endDate.toISOString(),
       },
+      complete: reader.complete,
     })
   } catch (error) {
     console.error('Get revenue error:', error)
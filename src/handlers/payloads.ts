@@ -0,0 +1,63 @@
+/**
+ * Rejected payload handlers
+ */
+
+import { createReportReader } from '../lib/reports'
+import { parseDateRange } from '../utils/date'
+import { jsonResponse, errorResponse } from '../utils/response'
+import { getQueryParams } from '../../deploy/lambda-adapter'
+
+/**
+ * GET /api/sites/{siteId}/rejections
+ */
+export async function handleGetRejectedPayloads(request: Request, siteId: string): Promise<Response> {
+  try {
+    const reader = createReportReader()
+    const query = getQueryParams(request)
+    const { startDate, endDate } = parseDateRange(query)
+
+    const rows = await reader.query({
+      pk: `SITE#${siteId}`,
+      between: [`REJECTSTATS#${startDate.toISOString().slice(0, 10)}`, `REJECTSTATS#${endDate.toISOString().slice(0, 10)}#\uffff`],
+    })
+
+    let total = 0
+    const byReason: Record<string, number> = {}
+    const byField: Record<string, { reason: string; field: string; message: string; rejections: number; lastSeen: string }> = {}
+    const byDate: Record<string, number> = {}
+
+    for (const row of rows) {
+      const rejections = row.rejections || 0
+      total += rejections
+      byReason[row.reason] = (byReason[row.reason] || 0) + rejections
+      byDate[row.date] = (byDate[row.date] || 0) + rejections
+
+      const key = `${row.reason}#${row.field}`
+      if (!byField[key]) {
+        byField[key] = { reason: row.reason, field: row.field, message: row.message, rejections: 0, lastSeen: row.lastSeen }
+      }
+      byField[key].rejections += rejections
+      if (row.lastSeen > byField[key].lastSeen) {
+        byField[key].lastSeen = row.lastSeen
+        byField[key].message = row.message
+      }
+    }
+
+    return jsonResponse({
+      total,
+      reasons: Object.entries(byReason)
+        .map(([reason, rejections]) => ({ reason, rejections }))
+        .sort((a, b) => b.rejections - a.rejections),
+      fields: Object.values(byField)
+        .sort((a, b) => b.rejections - a.rejections)
+        .slice(0, 50),
+      timeseries: Object.entries(byDate)
+        .map(([date, rejections]) => ({ date, rejections }))
+        .sort((a, b) => a.date.localeCompare(b.date)),
+      complete: reader.complete,
+    })
+  } catch (error) {
+    console.error('Get rejected payloads error:', error)
+    return errorResponse('Failed to fetch rejected payloads')
+  }
+}
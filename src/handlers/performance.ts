@@ -3,7 +3,8 @@
  */
 
 import { generateId } from '../index'
-import { dynamodb, TABLE_NAME, unmarshall, marshall } from '../lib/dynamodb'
+import { createReportReader } from '../lib/reports'
+import { getRepository } from '../lib/repository'
 import { parseDateRange } from '../utils/date'
 import { jsonResponse, errorResponse } from '../utils/response'
 import { getQueryParams } from '../../deploy/lambda-adapter'
@@ -13,20 +14,14 @@ import { getQueryParams } from '../../deploy/lambda-adapter'
  */
 export async function handleGetVitals(request: Request, siteId: string): Promise<Response> {
   try {
+    const reader = createReportReader()
     const query = getQueryParams(request)
     const { startDate, endDate } = parseDateRange(query)
 
-    const result = await dynamodb.query({
-      TableName: TABLE_NAME,
-      KeyConditionExpression: 'pk = :pk AND sk BETWEEN :start AND :end',
-      ExpressionAttributeValues: {
-        ':pk': { S: `SITE#${siteId}` },
-        ':start': { S: `VITAL#${startDate.toISOString()}` },
-        ':end': { S: `VITAL#${endDate.toISOString()}` },
-      },
-    }) as { Items?: any[] }
-
-    const vitals = (result.Items || []).map(unmarshall)
+    const vitals = await reader.query({
+      pk: `SITE#${siteId}`,
+      between: [`VITAL#${startDate.toISOString()}`, `VITAL#${endDate.toISOString()}`],
+    })
 
     // Aggregate vitals by metric
     const metrics: Record<string, { values: number[]; paths: Record<string, number[]> }> = {
@@ -103,6 +98,7 @@ export async function handleGetVitals(request: Request, siteId: string): Promise
         start: startDate.toISOString(),
         end: endDate.toISOString(),
       },
+      complete: reader.complete,
     })
   } catch (error) {
     console.error('Get vitals error:', error)
@@ -115,22 +111,17 @@ export async function handleGetVitals(request: Request, siteId: string): Promise
  */
 export async function handleGetVitalsTrends(request: Request, siteId: string): Promise<Response> {
   try {
+    const reader = createReportReader()
     const query = getQueryParams(request)
     const { startDate, endDate } = parseDateRange(query)
     const metric = query.metric || 'LCP'
 
-    const result = await dynamodb.query({
-      TableName: TABLE_NAME,
-      KeyConditionExpression: 'pk = :pk AND sk BETWEEN :start AND :end',
-      ExpressionAttributeValues: {
-        ':pk': { S: `SITE#${siteId}` },
-        ':start': { S: `VITAL#${startDate.toISOString()}` },
-        ':end': { S: `VITAL#${endDate.toISOString()}` },
-      },
-    }) as { Items?: any[] }
+    const result = await reader.query({
+      pk: `SITE#${siteId}`,
+      between: [`VITAL#${startDate.toISOString()}`, `VITAL#${endDate.toISOString()}`],
+    })
 
-    const vitals = (result.Items || []).map(unmarshall)
-      .filter(v => (v.metric || v.name) === metric)
+    const vitals = result.filter(v => (v.metric || v.name) === metric)
 
     // Group by day
     const dailyData: Record<string, number[]> = {}
@@ -164,6 +155,7 @@ export async function handleGetVitalsTrends(request: Request, siteId: string): P
         start: startDate.toISOString(),
         end: endDate.toISOString(),
       },
+      complete: reader.complete,
     })
   } catch (error) {
     console.error('Get vitals trends error:', error)
@@ -200,10 +192,7 @@ export async function handleCreatePerformanceBudget(request: Request, siteId: st
       createdAt: new Date().toISOString(),
     }
 
-    await dynamodb.putItem({
-      TableName: TABLE_NAME,
-      Item: marshall(budget),
-    })
+    await getRepository().put(budget)
 
     return jsonResponse({ budget }, 201)
   } catch (error) {
@@ -217,16 +206,7 @@ export async function handleCreatePerformanceBudget(request: Request, siteId: st
  */
 export async function handleGetPerformanceBudgets(request: Request, siteId: string): Promise<Response> {
   try {
-    const result = await dynamodb.query({
-      TableName: TABLE_NAME,
-      KeyConditionExpression: 'pk = :pk AND begins_with(sk, :prefix)',
-      ExpressionAttributeValues: {
-        ':pk': { S: `SITE#${siteId}` },
-        ':prefix': { S: 'BUDGET#' },
-      },
-    }) as { Items?: any[] }
-
-    const budgets = (result.Items || []).map(unmarshall)
+    const budgets = await getRepository().query({ pk: `SITE#${siteId}`, beginsWith: 'BUDGET#' })
 
     return jsonResponse({ budgets })
   } catch (error) {
@@ -240,13 +220,7 @@ export async function handleGetPerformanceBudgets(request: Request, siteId: stri
  */
 export async function handleDeletePerformanceBudget(_request: Request, siteId: string, budgetId: string): Promise<Response> {
   try {
-    await dynamodb.deleteItem({
-      TableName: TABLE_NAME,
-      Key: marshall({
-        pk: `SITE#${siteId}`,
-        sk: `BUDGET#${budgetId}`,
-      }),
-    })
+    await getRepository().delete({ pk: `SITE#${siteId}`, sk: `BUDGET#${budgetId}` })
 
     return jsonResponse({ success: true })
   } catch (error) {
@@ -260,37 +234,22 @@ export async function handleDeletePerformanceBudget(_request: Request, siteId: s
  */
 export async function handleCheckPerformanceBudgets(request: Request, siteId: string): Promise<Response> {
   try {
+    const reader = createReportReader()
     const query = getQueryParams(request)
     const { startDate, endDate } = parseDateRange(query)
 
     // Get budgets
-    const budgetsResult = await dynamodb.query({
-      TableName: TABLE_NAME,
-      KeyConditionExpression: 'pk = :pk AND begins_with(sk, :prefix)',
-      ExpressionAttributeValues: {
-        ':pk': { S: `SITE#${siteId}` },
-        ':prefix': { S: 'BUDGET#' },
-      },
-    }) as { Items?: any[] }
-
-    const budgets = (budgetsResult.Items || []).map(unmarshall)
+    const budgets = await reader.query({ pk: `SITE#${siteId}`, beginsWith: 'BUDGET#' })
 
     if (budgets.length === 0) {
-      return jsonResponse({ budgets: [], violations: [] })
+      return jsonResponse({ budgets: [], violations: [], complete: reader.complete })
     }
 
     // Get vitals
-    const vitalsResult = await dynamodb.query({
-      TableName: TABLE_NAME,
-      KeyConditionExpression: 'pk = :pk AND sk BETWEEN :start AND :end',
-      ExpressionAttributeValues: {
-        ':pk': { S: `SITE#${siteId}` },
-        ':start': { S: `VITAL#${startDate.toISOString()}` },
-        ':end': { S: `VITAL#${endDate.toISOString()}` },
-      },
-    }) as { Items?: any[] }
-
-    const vitals = (vitalsResult.Items || []).map(unmarshall)
+    const vitals = await reader.query({
+      pk: `SITE#${siteId}`,
+      between: [`VITAL#${startDate.toISOString()}`, `VITAL#${endDate.toISOString()}`],
+    })
 
     // Check each budget
     const violations: Array<{
@@ -347,6 +306,7 @@ export async function handleCheckPerformanceBudgets(request: Request, siteId: st
         start: startDate.toISOString(),
         end: endDate.toISOString(),
       },
+      complete: reader.complete,
     })
   } catch (error) {
     console.error('Check performance budgets error:', error)
@@ -0,0 +1,106 @@
+/**
+ * Referrer rule handlers
+ */
+
+import { createReportReader } from '../lib/reports'
+import { getRepository } from '../lib/repository'
+import { getReferrerRuleContext, invalidateReferrerRulesCache } from '../lib/referrers'
+import { normalizeReferrerRules, previewReferrerRules } from '../utils/referrer-rules'
+import { parseDateRange } from '../utils/date'
+import { jsonResponse, errorResponse } from '../utils/response'
+import { getQueryParams } from '../../deploy/lambda-adapter'
+
+const INVALID_RULES_MESSAGE = 'Each rule needs a type (block or alias), a hostname pattern and, for alias rules, an alias'
+
+/**
+ * GET /api/sites/{siteId}/referrers/rules
+ */
+export async function handleGetReferrerRules(_request: Request, siteId: string): Promise<Response> {
+  try {
+    const item = await getRepository().get({ pk: `SITE#${siteId}`, sk: 'REFERRER_RULES' })
+
+    const rules = item ? normalizeReferrerRules(item.rules) : []
+
+    return jsonResponse({ rules })
+  } catch (error) {
+    console.error('Get referrer rules error:', error)
+    return errorResponse('Failed to fetch referrer rules')
+  }
+}
+
+/**
+ * PUT /api/sites/{siteId}/referrers/rules
+ */
+export async function handleUpdateReferrerRules(request: Request, siteId: string): Promise<Response> {
+  try {
+    const body = await request.json() as Record<string, any>
+
+    if (!Array.isArray(body.rules)) {
+      return jsonResponse({ error: 'Missing required field: rules' }, 400)
+    }
+
+    const rules = normalizeReferrerRules(body.rules)
+    if (rules.length !== body.rules.length) {
+      return jsonResponse({ error: INVALID_RULES_MESSAGE }, 400)
+    }
+
+    await getRepository().put({
+      pk: `SITE#${siteId}`,
+      sk: 'REFERRER_RULES',
+      siteId,
+      rules,
+      updatedAt: new Date().toISOString(),
+    })
+
+    invalidateReferrerRulesCache(siteId)
+
+    return jsonResponse({ rules })
+  } catch (error) {
+    console.error('Update referrer rules error:', error)
+    return errorResponse('Failed to update referrer rules')
+  }
+}
+
+/**
+ * POST /api/sites/{siteId}/referrers/rules/preview
+ *
+ * Dry run: compares the current rules with the `rules` in the body over the sessions
+ * started in the date range. Nothing is saved.
+ */
+export async function handlePreviewReferrerRules(request: Request, siteId: string): Promise<Response> {
+  try {
+    const query = getQueryParams(request)
+    const { startDate, endDate } = parseDateRange(query)
+    const body = await request.json() as Record<string, any>
+
+    if (!Array.isArray(body.rules)) {
+      return jsonResponse({ error: 'Missing required field: rules' }, 400)
+    }
+
+    const rules = normalizeReferrerRules(body.rules)
+    if (rules.length !== body.rules.length) {
+      return jsonResponse({ error: INVALID_RULES_MESSAGE }, 400)
+    }
+
+    const reader = createReportReader()
+    const sessions = await reader.getSessions(siteId, startDate, endDate)
+
+    const preview = previewReferrerRules(
+      sessions.map(s => ({ referrer: s.referrer, visitorId: s.visitorId })),
+      await getReferrerRuleContext(siteId),
+      await getReferrerRuleContext(siteId, rules),
+    )
+
+    return jsonResponse({
+      rules,
+      startDate: startDate.toISOString(),
+      endDate: endDate.toISOString(),
+      ...preview,
+      changes: preview.changes.slice(0, 100),
+      complete: reader.complete,
+    })
+  } catch (error) {
+    console.error('Preview referrer rules error:', error)
+    return errorResponse('Failed to preview referrer rules')
+  }
+}
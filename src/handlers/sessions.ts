@@ -2,7 +2,9 @@
  * Session handlers
  */
 
-import { dynamodb, TABLE_NAME, unmarshall } from '../lib/dynamodb'
+import { buildPageFlows, getConfig } from '../index'
+import { getRepository } from '../lib/repository'
+import { createReportReader } from '../lib/reports'
 import { parseDateRange, formatDuration } from '../utils/date'
 import { jsonResponse, errorResponse } from '../utils/response'
 import { getQueryParams } from '../../deploy/lambda-adapter'
@@ -12,24 +14,20 @@ import { getQueryParams } from '../../deploy/lambda-adapter'
  */
 export async function handleGetSessions(request: Request, siteId: string): Promise<Response> {
   try {
+    const reader = createReportReader()
     const query = getQueryParams(request)
     const { startDate, endDate } = parseDateRange(query)
     const limit = Math.min(Number(query.limit) || 50, 200)
     const filter = query.filter || ''
 
-    const result = await dynamodb.query({
-      TableName: TABLE_NAME,
-      KeyConditionExpression: 'pk = :pk AND sk BETWEEN :start AND :end',
-      ExpressionAttributeValues: {
-        ':pk': { S: `SITE#${siteId}` },
-        ':start': { S: `SESSION#` },
-        ':end': { S: `SESSION#~` },
-      },
-      ScanIndexForward: false,
-      Limit: limit * 2,
-    }) as { Items?: any[] }
+    const result = await reader.query({
+      pk: `SITE#${siteId}`,
+      between: ['SESSION#', 'SESSION#~'],
+      descending: true,
+      limit: limit * 2,
+    })
 
-    let sessions = (result.Items || []).map(unmarshall).filter((s: any) => {
+    let sessions = result.filter((s: any) => {
       const sessionTime = new Date(s.startedAt || s.endedAt || s.timestamp)
       return sessionTime >= startDate && sessionTime <= endDate
     })
@@ -57,8 +55,8 @@ export async function handleGetSessions(request: Request, siteId: string): Promi
       pageViewCount: s.pageViewCount || 0,
       eventCount: s.eventCount || 0,
       isBounce: s.isBounce,
-      entryPage: s.entryPage,
-      exitPage: s.exitPage,
+      entryPage: s.entryPath ?? s.entryPage,
+      exitPage: s.exitPath ?? s.exitPage,
       referrerSource: s.referrerSource || 'direct',
       country: s.country,
       region: s.region,
@@ -78,6 +76,7 @@ export async function handleGetSessions(request: Request, siteId: string): Promi
         start: startDate.toISOString(),
         end: endDate.toISOString(),
       },
+      complete: reader.complete,
     })
   } catch (error) {
     console.error('Get sessions error:', error)
@@ -95,33 +94,18 @@ export async function handleGetSessionDetail(request: Request, siteId: string, s
     const includePageviews = query.includePageviews !== 'false'
 
     // Get session
-    const sessionResult = await dynamodb.query({
-      TableName: TABLE_NAME,
-      KeyConditionExpression: 'pk = :pk AND sk = :sk',
-      ExpressionAttributeValues: {
-        ':pk': { S: `SITE#${siteId}` },
-        ':sk': { S: `SESSION#${sessionId}` },
-      },
-    }) as { Items?: any[] }
+    const repository = getRepository()
+    const session = await repository.get({ pk: `SITE#${siteId}`, sk: `SESSION#${sessionId}` })
 
-    if (!sessionResult.Items || sessionResult.Items.length === 0) {
+    if (!session) {
       return jsonResponse({ error: 'Session not found' }, 404)
     }
 
-    const session = unmarshall(sessionResult.Items[0])
-
     // Get pageviews for this session
     let pageviews: any[] = []
     if (includePageviews) {
-      const pvResult = await dynamodb.query({
-        TableName: TABLE_NAME,
-        IndexName: 'gsi1',
-        KeyConditionExpression: 'gsi1pk = :pk',
-        ExpressionAttributeValues: {
-          ':pk': { S: `SESSION#${sessionId}` },
-        },
-      }) as { Items?: any[] }
-      pageviews = (pvResult.Items || []).map(unmarshall)
+      const pvResult = await repository.query({ index: 'gsi1', pk: `SESSION#${sessionId}` })
+      pageviews = pvResult
         .filter(item => item.sk?.startsWith('PAGEVIEW#'))
         .sort((a, b) => new Date(a.timestamp).getTime() - new Date(b.timestamp).getTime())
     }
@@ -129,15 +113,8 @@ export async function handleGetSessionDetail(request: Request, siteId: string, s
     // Get events for this session
     let events: any[] = []
     if (includeEvents) {
-      const eventResult = await dynamodb.query({
-        TableName: TABLE_NAME,
-        IndexName: 'gsi1',
-        KeyConditionExpression: 'gsi1pk = :pk',
-        ExpressionAttributeValues: {
-          ':pk': { S: `SESSION#${sessionId}` },
-        },
-      }) as { Items?: any[] }
-      events = (eventResult.Items || []).map(unmarshall)
+      const eventResult = await repository.query({ index: 'gsi1', pk: `SESSION#${sessionId}` })
+      events = eventResult
         .filter(item => item.sk?.startsWith('EVENT#'))
         .sort((a, b) => new Date(a.timestamp).getTime() - new Date(b.timestamp).getTime())
     }
@@ -170,8 +147,8 @@ export async function handleGetSessionDetail(request: Request, siteId: string, s
         pageViewCount: session.pageViewCount || pageviews.length,
         eventCount: session.eventCount || events.length,
         isBounce: session.isBounce,
-        entryPage: session.entryPage,
-        exitPage: session.exitPage,
+        entryPage: session.entryPath ?? session.entryPage,
+        exitPage: session.exitPath ?? session.exitPage,
         referrerSource: session.referrerSource || 'direct',
         referrer: session.referrer,
         country: session.country,
@@ -203,55 +180,31 @@ export async function handleGetSessionDetail(request: Request, siteId: string, s
  */
 export async function handleGetUserFlow(request: Request, siteId: string): Promise<Response> {
   try {
+    const reader = createReportReader()
     const query = getQueryParams(request)
     const { startDate, endDate } = parseDateRange(query)
-    const depth = Math.min(Number(query.depth) || 5, 10)
+    const depth = Math.min(Number(query.depth) || 5, getConfig().tracking.maxJourneySteps)
 
     // Query sessions
-    const result = await dynamodb.query({
-      TableName: TABLE_NAME,
-      KeyConditionExpression: 'pk = :pk AND begins_with(sk, :prefix)',
-      ExpressionAttributeValues: {
-        ':pk': { S: `SITE#${siteId}` },
-        ':prefix': { S: 'SESSION#' },
-      },
-    }) as { Items?: any[] }
+    const sessions: Record<string, any>[] = await reader.getSessions(siteId, startDate, endDate)
 
-    const sessions = (result.Items || []).map(unmarshall).filter(s => {
-      const sessionStart = new Date(s.startedAt)
-      return sessionStart >= startDate && sessionStart <= endDate
-    })
-
-    // Build flow data from entry/exit pages and page sequences
-    const flows: Record<string, { from: string; to: string; count: number }> = {}
+    // Build flow data from entry/exit pages and session journeys
     const entryPages: Record<string, number> = {}
     const exitPages: Record<string, number> = {}
 
     for (const session of sessions) {
-      // Track entry pages
-      if (session.entryPage) {
-        entryPages[session.entryPage] = (entryPages[session.entryPage] || 0) + 1
+      const entryPage = session.entryPath ?? session.entryPage
+      if (entryPage) {
+        entryPages[entryPage] = (entryPages[entryPage] || 0) + 1
       }
 
-      // Track exit pages
-      if (session.exitPage) {
-        exitPages[session.exitPage] = (exitPages[session.exitPage] || 0) + 1
-      }
-
-      // Track page flows if we have page sequence
-      const pageSequence = session.pageSequence || []
-      for (let i = 0; i < Math.min(pageSequence.length - 1, depth); i++) {
-        const key = `${pageSequence[i]}|${pageSequence[i + 1]}`
-        if (!flows[key]) {
-          flows[key] = { from: pageSequence[i], to: pageSequence[i + 1], count: 0 }
-        }
-        flows[key].count++
+      const exitPage = session.exitPath ?? session.exitPage
+      if (exitPage) {
+        exitPages[exitPage] = (exitPages[exitPage] || 0) + 1
       }
     }
 
-    const flowData = Object.values(flows)
-      .sort((a, b) => b.count - a.count)
-      .slice(0, 100)
+    const flowData = buildPageFlows(sessions, depth).slice(0, 100)
 
     const topEntryPages = Object.entries(entryPages)
       .map(([path, count]) => ({ path, count }))
@@ -272,6 +225,7 @@ export async function handleGetUserFlow(request: Request, siteId: string): Promi
         start: startDate.toISOString(),
         end: endDate.toISOString(),
       },
+      complete: reader.complete,
     })
   } catch (error) {
     console.error('Get user flow error:', error)
@@ -284,41 +238,32 @@ export async function handleGetUserFlow(request: Request, siteId: string): Promi
  */
 export async function handleGetEntryExitPages(request: Request, siteId: string): Promise<Response> {
   try {
+    const reader = createReportReader()
     const query = getQueryParams(request)
     const { startDate, endDate } = parseDateRange(query)
     const limit = Math.min(Number(query.limit) || 10, 100)
 
-    const result = await dynamodb.query({
-      TableName: TABLE_NAME,
-      KeyConditionExpression: 'pk = :pk AND begins_with(sk, :prefix)',
-      ExpressionAttributeValues: {
-        ':pk': { S: `SITE#${siteId}` },
-        ':prefix': { S: 'SESSION#' },
-      },
-    }) as { Items?: any[] }
-
-    const sessions = (result.Items || []).map(unmarshall).filter(s => {
-      const sessionStart = new Date(s.startedAt)
-      return sessionStart >= startDate && sessionStart <= endDate
-    })
+    const sessions = await reader.getSessions(siteId, startDate, endDate)
 
     const entryStats: Record<string, { sessions: number; bounces: number }> = {}
     const exitStats: Record<string, { sessions: number }> = {}
 
     for (const session of sessions) {
-      if (session.entryPage) {
-        if (!entryStats[session.entryPage]) {
-          entryStats[session.entryPage] = { sessions: 0, bounces: 0 }
+      const entryPage = session.entryPath ?? session.entryPage
+      if (entryPage) {
+        if (!entryStats[entryPage]) {
+          entryStats[entryPage] = { sessions: 0, bounces: 0 }
         }
-        entryStats[session.entryPage].sessions++
-        if (session.isBounce) entryStats[session.entryPage].bounces++
+        entryStats[entryPage].sessions++
+        if (session.isBounce) entryStats[entryPage].bounces++
       }
 
-      if (session.exitPage) {
-        if (!exitStats[session.exitPage]) {
-          exitStats[session.exitPage] = { sessions: 0 }
+      const exitPage = session.exitPath ?? session.exitPage
+      if (exitPage) {
+        if (!exitStats[exitPage]) {
+          exitStats[exitPage] = { sessions: 0 }
         }
-        exitStats[session.exitPage].sessions++
+        exitStats[exitPage].sessions++
       }
     }
 
@@ -339,7 +284,7 @@ export async function handleGetEntryExitPages(request: Request, siteId: string):
       .sort((a, b) => b.sessions - a.sessions)
       .slice(0, limit)
 
-    return jsonResponse({ entryPages, exitPages })
+    return jsonResponse({ entryPages, exitPages, complete: reader.complete })
   } catch (error) {
     console.error('Get entry/exit pages error:', error)
     return errorResponse('Failed to fetch entry/exit pages')
@@ -351,23 +296,17 @@ export async function handleGetEntryExitPages(request: Request, siteId: string):
  */
 export async function handleGetLiveView(request: Request, siteId: string): Promise<Response> {
   try {
+    const reader = createReportReader()
     const query = getQueryParams(request)
     const minutes = Number(query.minutes) || 5
     const cutoff = new Date(Date.now() - minutes * 60 * 1000)
 
-    const result = await dynamodb.query({
-      TableName: TABLE_NAME,
-      KeyConditionExpression: 'pk = :pk AND sk BETWEEN :start AND :end',
-      ExpressionAttributeValues: {
-        ':pk': { S: `SITE#${siteId}` },
-        ':start': { S: `PAGEVIEW#${cutoff.toISOString()}` },
-        ':end': { S: 'PAGEVIEW#Z' },
-      },
-      ScanIndexForward: false,
-      Limit: 100,
-    }) as { Items?: any[] }
-
-    const pageviews = (result.Items || []).map(unmarshall)
+    const pageviews = await reader.query({
+      pk: `SITE#${siteId}`,
+      between: [`PAGEVIEW#${cutoff.toISOString()}`, 'PAGEVIEW#Z'],
+      descending: true,
+      limit: 100,
+    })
 
     const liveVisitors = pageviews.map(pv => ({
       visitorId: pv.visitorId?.substring(0, 8) + '...',
@@ -385,6 +324,7 @@ export async function handleGetLiveView(request: Request, siteId: string): Promi
       count: uniqueVisitors,
       pageviews: pageviews.length,
       lastUpdated: new Date().toISOString(),
+      complete: reader.complete,
     })
   } catch (error) {
     console.error('Get live view error:', error)
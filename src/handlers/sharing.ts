@@ -3,7 +3,7 @@
  */
 
 import { generateId } from '../index'
-import { dynamodb, TABLE_NAME, unmarshall, marshall } from '../lib/dynamodb'
+import { getRepository } from '../lib/repository'
 import { jsonResponse, errorResponse } from '../utils/response'
 import { getQueryParams } from '../../deploy/lambda-adapter'
 
@@ -39,10 +39,7 @@ export async function handleCreateShareLink(request: Request, siteId: string): P
       createdAt: new Date().toISOString(),
     }
 
-    await dynamodb.putItem({
-      TableName: TABLE_NAME,
-      Item: marshall(shareLink),
-    })
+    await getRepository().put(shareLink)
 
     return jsonResponse({
       shareLink: {
@@ -64,20 +61,12 @@ export async function handleCreateShareLink(request: Request, siteId: string): P
 export async function handleGetSharedDashboard(request: Request, token: string): Promise<Response> {
   try {
     // Find share link
-    const result = await dynamodb.query({
-      TableName: TABLE_NAME,
-      KeyConditionExpression: 'pk = :pk',
-      ExpressionAttributeValues: {
-        ':pk': { S: `SHARE#${token}` },
-      },
-    }) as { Items?: any[] }
+    const [shareLink] = await getRepository().query({ pk: `SHARE#${token}`, limit: 1 })
 
-    if (!result.Items || result.Items.length === 0) {
+    if (!shareLink) {
       return jsonResponse({ error: 'Invalid or expired share link' }, 404)
     }
 
-    const shareLink = unmarshall(result.Items[0])
-
     // Check expiration
     if (shareLink.expiresAt && new Date(shareLink.expiresAt) < new Date()) {
       return jsonResponse({ error: 'Share link has expired' }, 410)
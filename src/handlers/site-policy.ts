@@ -0,0 +1,163 @@
+/**
+ * Site ingestion policy handlers
+ */
+
+import { getConfig, type RepositoryItem } from '../index'
+import { createReportReader } from '../lib/reports'
+import { getRepository } from '../lib/repository'
+import { invalidateSiteCache } from '../lib/sites'
+import {
+  FOREIGN_HOSTNAME_ACTIONS,
+  normalizeDomain,
+  normalizeSitePolicy,
+  SITE_INGESTION_MODES,
+  type SiteIngestionPolicy,
+} from '../utils/site-policy'
+import { parseDateRange } from '../utils/date'
+import { jsonResponse, errorResponse } from '../utils/response'
+import { getQueryParams } from '../../deploy/lambda-adapter'
+
+function getDefaultPolicy(): SiteIngestionPolicy {
+  const { sitePolicy } = getConfig()
+  return { mode: sitePolicy.defaultMode, foreignHostnames: sitePolicy.foreignHostnames }
+}
+
+async function getSite(siteId: string): Promise<RepositoryItem | null> {
+  return getRepository().get({ pk: 'SITES', sk: `SITE#${siteId}` })
+}
+
+/**
+ * GET /api/sites/{siteId}/policy
+ */
+export async function handleGetSitePolicy(_request: Request, siteId: string): Promise<Response> {
+  try {
+    const site = await getSite(siteId)
+    if (!site) {
+      return jsonResponse({ error: 'Site not found' }, 404)
+    }
+
+    return jsonResponse({
+      ...normalizeSitePolicy(site.ingestionPolicy, getDefaultPolicy()),
+      domains: site.domains || [],
+      isDefault: !site.ingestionPolicy,
+    })
+  } catch (error) {
+    console.error('Get site policy error:', error)
+    return errorResponse('Failed to fetch site policy')
+  }
+}
+
+/**
+ * PUT /api/sites/{siteId}/policy
+ *
+ * Body: `{ mode?, foreignHostnames?, domains? }`. Omitted fields keep their current value.
+ */
+export async function handleUpdateSitePolicy(request: Request, siteId: string): Promise<Response> {
+  try {
+    const body = await request.json() as Record<string, any>
+
+    if (body.mode !== undefined && !SITE_INGESTION_MODES.includes(body.mode)) {
+      return jsonResponse({ error: `Invalid mode (expected ${SITE_INGESTION_MODES.join(', ')})` }, 400)
+    }
+    if (body.foreignHostnames !== undefined && !FOREIGN_HOSTNAME_ACTIONS.includes(body.foreignHostnames)) {
+      return jsonResponse({ error: `Invalid foreignHostnames (expected ${FOREIGN_HOSTNAME_ACTIONS.join(', ')})` }, 400)
+    }
+    if (body.domains !== undefined && (!Array.isArray(body.domains) || body.domains.some((d: unknown) => typeof d !== 'string'))) {
+      return jsonResponse({ error: 'domains must be an array of strings' }, 400)
+    }
+
+    const site = await getSite(siteId)
+    if (!site) {
+      return jsonResponse({ error: 'Site not found' }, 404)
+    }
+
+    const current = normalizeSitePolicy(site.ingestionPolicy, getDefaultPolicy())
+    const policy: SiteIngestionPolicy = {
+      mode: body.mode ?? current.mode,
+      foreignHostnames: body.foreignHostnames ?? current.foreignHostnames,
+    }
+    const domains: string[] = body.domains
+      ? [...new Set((body.domains as string[]).map(normalizeDomain).filter(Boolean))]
+      : site.domains || []
+
+    if (policy.mode !== 'open' && domains.length === 0) {
+      return jsonResponse({ error: `A ${policy.mode} site needs at least one domain` }, 400)
+    }
+
+    await getRepository().put({
+      ...site,
+      domains,
+      ingestionPolicy: policy,
+      updatedAt: new Date().toISOString(),
+    })
+
+    invalidateSiteCache(siteId)
+
+    return jsonResponse({ ...policy, domains, isDefault: false })
+  } catch (error) {
+    console.error('Update site policy error:', error)
+    return errorResponse('Failed to update site policy')
+  }
+}
+
+/**
+ * GET /api/sites/{siteId}/foreign-hostnames
+ */
+export async function handleGetForeignHostnames(request: Request, siteId: string): Promise<Response> {
+  try {
+    const reader = createReportReader()
+    const query = getQueryParams(request)
+    const { startDate, endDate } = parseDateRange(query)
+
+    const rows = await reader.query({
+      pk: `SITE#${siteId}`,
+      between: [`FOREIGNHOST#${startDate.toISOString().slice(0, 10)}`, `FOREIGNHOST#${endDate.toISOString().slice(0, 10)}#\uffff`],
+    })
+
+    let total = 0
+    const byHostname: Record<string, { hostname: string; hits: number; action: string; firstSeen: string; lastSeen: string; lastPath: string }> = {}
+    const byDate: Record<string, number> = {}
+
+    for (const row of rows) {
+      const hits = row.hits || 0
+      total += hits
+      byDate[row.date] = (byDate[row.date] || 0) + hits
+
+      const entry = byHostname[row.hostname]
+      if (!entry) {
+        byHostname[row.hostname] = {
+          hostname: row.hostname,
+          hits,
+          action: row.action,
+          firstSeen: row.firstSeen,
+          lastSeen: row.lastSeen,
+          lastPath: row.lastPath,
+        }
+        continue
+      }
+      entry.hits += hits
+      if (row.firstSeen < entry.firstSeen) {
+        entry.firstSeen = row.firstSeen
+      }
+      if (row.lastSeen > entry.lastSeen) {
+        entry.lastSeen = row.lastSeen
+        entry.lastPath = row.lastPath
+        entry.action = row.action
+      }
+    }
+
+    return jsonResponse({
+      total,
+      hostnames: Object.values(byHostname)
+        .sort((a, b) => b.hits - a.hits)
+        .slice(0, 100),
+      timeseries: Object.entries(byDate)
+        .map(([date, hits]) => ({ date, hits }))
+        .sort((a, b) => a.date.localeCompare(b.date)),
+      complete: reader.complete,
+    })
+  } catch (error) {
+    console.error('Get foreign hostnames error:', error)
+    return errorResponse('Failed to fetch foreign hostnames')
+  }
+}
@@ -2,82 +2,55 @@
  * Statistics handlers
  */
 
-import { dynamodb, TABLE_NAME, unmarshall } from '../lib/dynamodb'
+import { describeQueryPlan, getPlannedPages, getPlannedReferrers, getPlannedTotals, getRollupPlan } from '../index'
+import { createReportReader } from '../lib/reports'
+import { getEngagedTimeByPath } from '../lib/engagement'
+import { getImportedPeriods } from '../lib/importers'
+import { getRetainedFrom } from '../lib/retention'
+import { breakdownEventProperty, getEventPropertyKeys } from '../utils/event-properties'
 import { parseDateRange, formatDuration } from '../utils/date'
 import { jsonResponse, errorResponse } from '../utils/response'
 import { getQueryParams } from '../../deploy/lambda-adapter'
 
 /**
  * GET /api/sites/{siteId}/stats
+ *
+ * Served from rollups where they cover the range, from the start of the site's
+ * retention window on; `?debug=true` adds the `sources` that answered it.
  */
 export async function handleGetStats(request: Request, siteId: string): Promise<Response> {
   try {
+    const reader = createReportReader()
     const query = getQueryParams(request)
     const { startDate, endDate } = parseDateRange(query)
     const startDateStr = startDate.toISOString().slice(0, 10)
     const endDateStr = endDate.toISOString().slice(0, 10)
 
-    // Query pageviews for the date range
-    const pageviewsResult = await dynamodb.query({
-      TableName: TABLE_NAME,
-      KeyConditionExpression: 'pk = :pk AND sk BETWEEN :start AND :end',
-      ExpressionAttributeValues: {
-        ':pk': { S: `SITE#${siteId}` },
-        ':start': { S: `PAGEVIEW#${startDate.toISOString()}` },
-        ':end': { S: `PAGEVIEW#${endDate.toISOString()}` },
-      },
-    }) as { Items?: any[]; Count?: number }
-
-    // Query sessions for the date range
-    const sessionsResult = await dynamodb.query({
-      TableName: TABLE_NAME,
-      KeyConditionExpression: 'pk = :pk AND begins_with(sk, :prefix)',
-      ExpressionAttributeValues: {
-        ':pk': { S: `SITE#${siteId}` },
-        ':prefix': { S: 'SESSION#' },
-      },
-    }) as { Items?: any[]; Count?: number }
+    // Rollups for the covered periods, raw pageviews and sessions for the rest
+    const { plan, rollups } = await getRollupPlan(siteId, startDate, endDate, reader, await getRetainedFrom(siteId))
+    const totals = await getPlannedTotals(siteId, plan, rollups, reader)
 
     // Query realtime visitors (last 2 minutes)
     const realtimeCutoff = new Date(Date.now() - 2 * 60 * 1000)
-    const realtimeResult = await dynamodb.query({
-      TableName: TABLE_NAME,
-      KeyConditionExpression: 'pk = :pk AND sk BETWEEN :start AND :end',
-      ExpressionAttributeValues: {
-        ':pk': { S: `SITE#${siteId}` },
-        ':start': { S: `PAGEVIEW#${realtimeCutoff.toISOString()}` },
-        ':end': { S: 'PAGEVIEW#Z' },
-      },
-    }) as { Items?: any[] }
-    const realtimePageviews = (realtimeResult.Items || []).map(unmarshall)
+    const realtimePageviews = await reader.getPageViews(siteId, realtimeCutoff)
     const realtimeVisitors = new Set(realtimePageviews.map(pv => pv.visitorId)).size
 
-    const pageviews = pageviewsResult.Items || []
-    const sessions = (sessionsResult.Items || []).map(unmarshall).filter(s => {
-      const sessionStart = new Date(s.startedAt)
-      return sessionStart >= startDate && sessionStart <= endDate
-    })
-
     // Calculate stats
-    const uniqueVisitors = new Set(pageviews.map((pv: any) => pv.visitorId?.S)).size
-    const totalViews = pageviews.length
-    const totalSessions = sessions.length
-    const bounces = sessions.filter(s => s.isBounce).length
-    const bounceRate = totalSessions > 0 ? Math.round((bounces / totalSessions) * 100) : 0
-    const totalDuration = sessions.reduce((sum, s) => sum + (s.duration || 0), 0)
-    const avgDuration = totalSessions > 0 ? Math.round(totalDuration / totalSessions) : 0
-    const totalEvents = sessions.reduce((sum, s) => sum + (s.eventCount || 0), 0)
+    const bounceRate = totals.sessions > 0 ? Math.round((totals.bounces / totals.sessions) * 100) : 0
+    const avgDuration = totals.sessions > 0 ? Math.round(totals.duration / totals.sessions) : 0
 
     return jsonResponse({
       realtime: realtimeVisitors,
-      people: uniqueVisitors,
-      views: totalViews,
+      people: totals.visitors,
+      views: totals.pageViews,
       avgTime: formatDuration(avgDuration),
       avgTimeMs: avgDuration,
       bounceRate,
-      events: totalEvents,
-      sessions: totalSessions,
+      events: totals.events,
+      sessions: totals.sessions,
       dateRange: { start: startDateStr, end: endDateStr },
+      complete: reader.complete,
+      ...(query.debug === 'true' && { sources: describeQueryPlan(plan) }),
     })
   } catch (error) {
     console.error('Stats error:', error)
@@ -90,22 +63,13 @@ export async function handleGetStats(request: Request, siteId: string): Promise<
  */
 export async function handleGetRealtime(request: Request, siteId: string): Promise<Response> {
   try {
+    const reader = createReportReader()
     const query = getQueryParams(request)
     const minutes = Number(query.minutes) || 2
     const cutoff = new Date(Date.now() - minutes * 60 * 1000)
 
     // Query recent pageviews
-    const result = await dynamodb.query({
-      TableName: TABLE_NAME,
-      KeyConditionExpression: 'pk = :pk AND sk BETWEEN :start AND :end',
-      ExpressionAttributeValues: {
-        ':pk': { S: `SITE#${siteId}` },
-        ':start': { S: `PAGEVIEW#${cutoff.toISOString()}` },
-        ':end': { S: 'PAGEVIEW#Z' },
-      },
-    }) as { Items?: any[] }
-
-    const pageviews = (result.Items || []).map(unmarshall)
+    const pageviews = await reader.getPageViews(siteId, cutoff)
     const uniqueVisitors = new Set(pageviews.map(pv => pv.visitorId)).size
 
     // Get active pages
@@ -128,6 +92,7 @@ export async function handleGetRealtime(request: Request, siteId: string): Promi
       currentVisitors: uniqueVisitors,
       pageViewsLastHour: pageviews.length,
       topActivePages,
+      complete: reader.complete,
     })
   } catch (error) {
     console.error('Realtime error:', error)
@@ -137,51 +102,40 @@ export async function handleGetRealtime(request: Request, siteId: string): Promi
 
 /**
  * GET /api/sites/{siteId}/pages
+ *
+ * `avgEngagedTime` is the foreground time (milliseconds) reported by pageleave events
+ * per view of the path. Served from rollups where they cover the range; `?debug=true`
+ * adds the `sources` that answered it.
  */
 export async function handleGetPages(request: Request, siteId: string): Promise<Response> {
   try {
+    const reader = createReportReader()
     const query = getQueryParams(request)
     const { startDate, endDate } = parseDateRange(query)
     const limit = Math.min(Number(query.limit) || 10, 100)
 
-    // Query pageviews
-    const result = await dynamodb.query({
-      TableName: TABLE_NAME,
-      KeyConditionExpression: 'pk = :pk AND sk BETWEEN :start AND :end',
-      ExpressionAttributeValues: {
-        ':pk': { S: `SITE#${siteId}` },
-        ':start': { S: `PAGEVIEW#${startDate.toISOString()}` },
-        ':end': { S: `PAGEVIEW#${endDate.toISOString()}` },
-      },
-    }) as { Items?: any[] }
-
-    const pageviews = (result.Items || []).map(unmarshall)
-
-    // Get the hostname from the first pageview
-    const siteHostname = pageviews.length > 0 ? pageviews[0].hostname : null
+    // Page rollups for the covered periods, raw pageviews for the rest
+    const { plan } = await getRollupPlan(siteId, startDate, endDate, reader, await getRetainedFrom(siteId))
+    const { pages: pageStats, hostname: siteHostname } = await getPlannedPages(siteId, plan, reader)
+    const engagedTime = await getEngagedTimeByPath(siteId, startDate, endDate, reader)
 
-    // Aggregate by path
-    const pageStats: Record<string, { views: number; visitors: Set<string>; entries: number }> = {}
-    for (const pv of pageviews) {
-      if (!pageStats[pv.path]) {
-        pageStats[pv.path] = { views: 0, visitors: new Set(), entries: 0 }
-      }
-      pageStats[pv.path].views++
-      pageStats[pv.path].visitors.add(pv.visitorId)
-      if (pv.isUnique) pageStats[pv.path].entries++
-    }
-
-    const pages = Object.entries(pageStats)
+    const pages = [...pageStats]
       .map(([path, stats]) => ({
         path,
         views: stats.views,
-        visitors: stats.visitors.size,
+        visitors: stats.visitors,
         entries: stats.entries,
+        avgEngagedTime: stats.views > 0 ? Math.round((engagedTime.get(path) || 0) / stats.views) : 0,
       }))
       .sort((a, b) => b.views - a.views)
       .slice(0, limit)
 
-    return jsonResponse({ pages, hostname: siteHostname })
+    return jsonResponse({
+      pages,
+      hostname: siteHostname,
+      complete: reader.complete,
+      ...(query.debug === 'true' && { sources: describeQueryPlan(plan) }),
+    })
   } catch (error) {
     console.error('Pages error:', error)
     return errorResponse('Failed to fetch pages')
@@ -190,49 +144,35 @@ export async function handleGetPages(request: Request, siteId: string): Promise<
 
 /**
  * GET /api/sites/{siteId}/referrers
+ *
+ * Served from rollups where they cover the range; `?debug=true` adds the
+ * `sources` that answered it.
  */
 export async function handleGetReferrers(request: Request, siteId: string): Promise<Response> {
   try {
+    const reader = createReportReader()
     const query = getQueryParams(request)
     const { startDate, endDate } = parseDateRange(query)
     const limit = Math.min(Number(query.limit) || 10, 100)
 
-    // Query sessions
-    const result = await dynamodb.query({
-      TableName: TABLE_NAME,
-      KeyConditionExpression: 'pk = :pk AND begins_with(sk, :prefix)',
-      ExpressionAttributeValues: {
-        ':pk': { S: `SITE#${siteId}` },
-        ':prefix': { S: 'SESSION#' },
-      },
-    }) as { Items?: any[] }
+    // Referrer rollups for the covered periods, raw sessions for the rest
+    const { plan } = await getRollupPlan(siteId, startDate, endDate, reader, await getRetainedFrom(siteId))
+    const referrerStats = await getPlannedReferrers(siteId, plan, reader)
 
-    const sessions = (result.Items || []).map(unmarshall).filter(s => {
-      const sessionStart = new Date(s.startedAt)
-      return sessionStart >= startDate && sessionStart <= endDate
-    })
-
-    // Aggregate by referrer source
-    const referrerStats: Record<string, { visitors: Set<string>; views: number }> = {}
-    for (const s of sessions) {
-      const source = s.referrerSource || 'direct'
-      if (!referrerStats[source]) {
-        referrerStats[source] = { visitors: new Set(), views: 0 }
-      }
-      referrerStats[source].visitors.add(s.visitorId)
-      referrerStats[source].views += s.pageViewCount || 1
-    }
-
-    const referrers = Object.entries(referrerStats)
+    const referrers = [...referrerStats]
       .map(([source, stats]) => ({
         source,
-        visitors: stats.visitors.size,
+        visitors: stats.visitors,
         views: stats.views,
       }))
       .sort((a, b) => b.visitors - a.visitors)
       .slice(0, limit)
 
-    return jsonResponse({ referrers })
+    return jsonResponse({
+      referrers,
+      complete: reader.complete,
+      ...(query.debug === 'true' && { sources: describeQueryPlan(plan) }),
+    })
   } catch (error) {
     console.error('Referrers error:', error)
     return errorResponse('Failed to fetch referrers')
@@ -244,23 +184,12 @@ export async function handleGetReferrers(request: Request, siteId: string): Prom
  */
 export async function handleGetDevices(request: Request, siteId: string): Promise<Response> {
   try {
+    const reader = createReportReader()
     const query = getQueryParams(request)
     const { startDate, endDate } = parseDateRange(query)
 
     // Query sessions
-    const result = await dynamodb.query({
-      TableName: TABLE_NAME,
-      KeyConditionExpression: 'pk = :pk AND begins_with(sk, :prefix)',
-      ExpressionAttributeValues: {
-        ':pk': { S: `SITE#${siteId}` },
-        ':prefix': { S: 'SESSION#' },
-      },
-    }) as { Items?: any[] }
-
-    const sessions = (result.Items || []).map(unmarshall).filter(s => {
-      const sessionStart = new Date(s.startedAt)
-      return sessionStart >= startDate && sessionStart <= endDate
-    })
+    const sessions = await reader.getSessions(siteId, startDate, endDate)
 
     // Aggregate by device type
     const deviceStats: Record<string, Set<string>> = {}
@@ -295,7 +224,7 @@ export async function handleGetDevices(request: Request, siteId: string): Promis
       }))
       .sort((a, b) => b.visitors - a.visitors)
 
-    return jsonResponse({ deviceTypes, operatingSystems })
+    return jsonResponse({ deviceTypes, operatingSystems, complete: reader.complete })
   } catch (error) {
     console.error('Devices error:', error)
     return errorResponse('Failed to fetch devices')
@@ -307,24 +236,13 @@ export async function handleGetDevices(request: Request, siteId: string): Promis
  */
 export async function handleGetBrowsers(request: Request, siteId: string): Promise<Response> {
   try {
+    const reader = createReportReader()
     const query = getQueryParams(request)
     const { startDate, endDate } = parseDateRange(query)
     const limit = Math.min(Number(query.limit) || 10, 100)
 
     // Query sessions
-    const result = await dynamodb.query({
-      TableName: TABLE_NAME,
-      KeyConditionExpression: 'pk = :pk AND begins_with(sk, :prefix)',
-      ExpressionAttributeValues: {
-        ':pk': { S: `SITE#${siteId}` },
-        ':prefix': { S: 'SESSION#' },
-      },
-    }) as { Items?: any[] }
-
-    const sessions = (result.Items || []).map(unmarshall).filter(s => {
-      const sessionStart = new Date(s.startedAt)
-      return sessionStart >= startDate && sessionStart <= endDate
-    })
+    const sessions = await reader.getSessions(siteId, startDate, endDate)
 
     // Aggregate by browser
     const browserStats: Record<string, Set<string>> = {}
@@ -345,7 +263,7 @@ export async function handleGetBrowsers(request: Request, siteId: string): Promi
       .sort((a, b) => b.visitors - a.visitors)
       .slice(0, limit)
 
-    return jsonResponse({ browsers })
+    return jsonResponse({ browsers, complete: reader.complete })
   } catch (error) {
     console.error('Browsers error:', error)
     return errorResponse('Failed to fetch browsers')
@@ -357,24 +275,13 @@ export async function handleGetBrowsers(request: Request, siteId: string): Promi
  */
 export async function handleGetCountries(request: Request, siteId: string): Promise<Response> {
   try {
+    const reader = createReportReader()
     const query = getQueryParams(request)
     const { startDate, endDate } = parseDateRange(query)
     const limit = Math.min(Number(query.limit) || 10, 100)
 
     // Query sessions
-    const result = await dynamodb.query({
-      TableName: TABLE_NAME,
-      KeyConditionExpression: 'pk = :pk AND begins_with(sk, :prefix)',
-      ExpressionAttributeValues: {
-        ':pk': { S: `SITE#${siteId}` },
-        ':prefix': { S: 'SESSION#' },
-      },
-    }) as { Items?: any[] }
-
-    const sessions = (result.Items || []).map(unmarshall).filter(s => {
-      const sessionStart = new Date(s.startedAt)
-      return sessionStart >= startDate && sessionStart <= endDate
-    })
+    const sessions = await reader.getSessions(siteId, startDate, endDate)
 
     // Aggregate by country
     const countryStats: Record<string, Set<string>> = {}
@@ -389,7 +296,7 @@ export async function handleGetCountries(request: Request, siteId: string): Prom
       .sort((a, b) => b.visitors - a.visitors)
       .slice(0, limit)
 
-    return jsonResponse({ countries })
+    return jsonResponse({ countries, complete: reader.complete })
   } catch (error) {
     console.error('Countries error:', error)
     return errorResponse('Failed to fetch countries')
@@ -401,27 +308,15 @@ export async function handleGetCountries(request: Request, siteId: string): Prom
  */
 export async function handleGetRegions(request: Request, siteId: string): Promise<Response> {
   try {
+    const reader = createReportReader()
     const query = getQueryParams(request)
     const { startDate, endDate } = parseDateRange(query)
     const limit = Math.min(Number(query.limit) || 10, 100)
     const countryFilter = query.country
 
     // Query sessions
-    const result = await dynamodb.query({
-      TableName: TABLE_NAME,
-      KeyConditionExpression: 'pk = :pk AND begins_with(sk, :prefix)',
-      ExpressionAttributeValues: {
-        ':pk': { S: `SITE#${siteId}` },
-        ':prefix': { S: 'SESSION#' },
-      },
-    }) as { Items?: any[] }
-
-    const sessions = (result.Items || []).map(unmarshall).filter(s => {
-      const sessionStart = new Date(s.startedAt)
-      if (sessionStart < startDate || sessionStart > endDate) return false
-      if (countryFilter && s.country !== countryFilter) return false
-      return true
-    })
+    const sessions = (await reader.getSessions(siteId, startDate, endDate))
+      .filter(s => !countryFilter || s.country === countryFilter)
 
     // Aggregate by region
     const regionStats: Record<string, { visitors: Set<string>, country: string }> = {}
@@ -441,7 +336,7 @@ export async function handleGetRegions(request: Request, siteId: string): Promis
       .sort((a, b) => b.visitors - a.visitors)
       .slice(0, limit)
 
-    return jsonResponse({ regions })
+    return jsonResponse({ regions, complete: reader.complete })
   } catch (error) {
     console.error('Regions error:', error)
     return errorResponse('Failed to fetch regions')
@@ -453,6 +348,7 @@ export async function handleGetRegions(request: Request, siteId: string): Promis
  */
 export async function handleGetCities(request: Request, siteId: string): Promise<Response> {
   try {
+    const reader = createReportReader()
     const query = getQueryParams(request)
     const { startDate, endDate } = parseDateRange(query)
     const limit = Math.min(Number(query.limit) || 10, 100)
@@ -460,18 +356,7 @@ export async function handleGetCities(request: Request, siteId: string): Promise
     const regionFilter = query.region
 
     // Query sessions
-    const result = await dynamodb.query({
-      TableName: TABLE_NAME,
-      KeyConditionExpression: 'pk = :pk AND begins_with(sk, :prefix)',
-      ExpressionAttributeValues: {
-        ':pk': { S: `SITE#${siteId}` },
-        ':prefix': { S: 'SESSION#' },
-      },
-    }) as { Items?: any[] }
-
-    const sessions = (result.Items || []).map(unmarshall).filter(s => {
-      const sessionStart = new Date(s.startedAt)
-      if (sessionStart < startDate || sessionStart > endDate) return false
+    const sessions = (await reader.getSessions(siteId, startDate, endDate)).filter(s => {
       if (countryFilter && s.country !== countryFilter) return false
       if (regionFilter && s.region !== regionFilter) return false
       return true
@@ -496,7 +381,7 @@ export async function handleGetCities(request: Request, siteId: string): Promise
       .sort((a, b) => b.visitors - a.visitors)
       .slice(0, limit)
 
-    return jsonResponse({ cities })
+    return jsonResponse({ cities, complete: reader.complete })
   } catch (error) {
     console.error('Cities error:', error)
     return errorResponse('Failed to fetch cities')
@@ -508,22 +393,13 @@ export async function handleGetCities(request: Request, siteId: string): Promise
  */
 export async function handleGetTimeSeries(request: Request, siteId: string): Promise<Response> {
   try {
+    const reader = createReportReader()
     const query = getQueryParams(request)
     const { startDate, endDate } = parseDateRange(query)
     const period = query.period || 'day'
 
     // Query pageviews
-    const result = await dynamodb.query({
-      TableName: TABLE_NAME,
-      KeyConditionExpression: 'pk = :pk AND sk BETWEEN :start AND :end',
-      ExpressionAttributeValues: {
-        ':pk': { S: `SITE#${siteId}` },
-        ':start': { S: `PAGEVIEW#${startDate.toISOString()}` },
-        ':end': { S: `PAGEVIEW#${endDate.toISOString()}` },
-      },
-    }) as { Items?: any[] }
-
-    const pageviews = (result.Items || []).map(unmarshall)
+    const pageviews = await reader.getPageViews(siteId, startDate, endDate)
 
     // Generate all time buckets in the range
     const allBuckets: string[] = []
@@ -574,13 +450,29 @@ export async function handleGetTimeSeries(request: Request, siteId: string): Pro
       }
     }
 
+    // Imported history is kept per day, so it only shows in daily and monthly series
+    const imported: Record<string, { views: number; visitors: number; source: string }> = {}
+    if (period === 'day' || period === 'month') {
+      const periods = await getImportedPeriods(siteId, startDate.toISOString().slice(0, 10), endDate.toISOString().slice(0, 10))
+      for (const importedDay of periods) {
+        if (importedDay.status !== 'complete') continue
+        const key = period === 'month'
+          ? `${importedDay.date.slice(0, 7)}-01T00:00:00.000Z`
+          : `${importedDay.date}T00:00:00.000Z`
+        imported[key] = imported[key] || { views: 0, visitors: 0, source: importedDay.source }
+        imported[key].views += importedDay.pageViews
+        imported[key].visitors += importedDay.visitors
+      }
+    }
+
     const timeSeries = allBuckets.map(bucket => ({
       timestamp: bucket,
-      views: bucketMap[bucket]?.views || 0,
-      visitors: bucketMap[bucket]?.visitors.size || 0,
+      views: (bucketMap[bucket]?.views || 0) + (imported[bucket]?.views || 0),
+      visitors: (bucketMap[bucket]?.visitors.size || 0) + (imported[bucket]?.visitors || 0),
+      ...(imported[bucket] && { imported: true, importSource: imported[bucket].source }),
     }))
 
-    return jsonResponse({ timeSeries })
+    return jsonResponse({ timeSeries, complete: reader.complete })
   } catch (error) {
     console.error('TimeSeries error:', error)
     return errorResponse('Failed to fetch time series')
@@ -592,27 +484,18 @@ export async function handleGetTimeSeries(request: Request, siteId: string): Pro
  */
 export async function handleGetEvents(request: Request, siteId: string): Promise<Response> {
   try {
+    const reader = createReportReader()
     const query = getQueryParams(request)
     const { startDate, endDate } = parseDateRange(query)
     const limit = Math.min(Number(query.limit) || 10, 100)
 
     // Query custom events
-    const result = await dynamodb.query({
-      TableName: TABLE_NAME,
-      KeyConditionExpression: 'pk = :pk AND sk BETWEEN :start AND :end',
-      ExpressionAttributeValues: {
-        ':pk': { S: `SITE#${siteId}` },
-        ':start': { S: `EVENT#${startDate.toISOString()}` },
-        ':end': { S: `EVENT#${endDate.toISOString()}` },
-      },
-    }) as { Items?: any[] }
-
-    const events = (result.Items || []).map(unmarshall)
+    const events = await reader.getEvents(siteId, startDate, endDate)
 
     // Aggregate by event name
     const eventStats: Record<string, { count: number; visitors: Set<string> }> = {}
     for (const e of events) {
-      const name = e.eventName || 'unknown'
+      const name = e.name || e.eventName || 'unknown'
       if (!eventStats[name]) {
         eventStats[name] = { count: 0, visitors: new Set() }
       }
@@ -629,36 +512,63 @@ export async function handleGetEvents(request: Request, siteId: string): Promise
       .sort((a, b) => b.count - a.count)
       .slice(0, limit)
 
-    return jsonResponse({ events: eventsList })
+    return jsonResponse({ events: eventsList, complete: reader.complete })
   } catch (error) {
     console.error('Events error:', error)
     return errorResponse('Failed to fetch events')
   }
 }
 
+/**
+ * GET /api/sites/{siteId}/events/{eventName}/properties
+ *
+ * Lists the property keys seen on an event and breaks the event down by the
+ * values of `?property=` (defaults to the most common key).
+ */
+export async function handleGetEventProperties(request: Request, siteId: string, eventName: string): Promise<Response> {
+  try {
+    const reader = createReportReader()
+    const query = getQueryParams(request)
+    const { startDate, endDate } = parseDateRange(query)
+    const limit = Math.min(Number(query.limit) || 20, 100)
+
+    const events: Record<string, any>[] = await reader.query({
+      pk: `SITE#${siteId}`,
+      between: [`EVENT#${startDate.toISOString()}`, `EVENT#${endDate.toISOString()}`],
+      where: { name: eventName },
+    })
+
+    const keys = getEventPropertyKeys(events)
+    const property = query.property || keys[0]?.key
+
+    return jsonResponse({
+      event: eventName,
+      count: events.length,
+      visitors: new Set(events.map(e => e.visitorId)).size,
+      totalValue: events.reduce((sum, e) => sum + (typeof e.value === 'number' ? e.value : 0), 0),
+      keys,
+      property: property || null,
+      breakdown: property ? breakdownEventProperty(events, property).slice(0, limit) : [],
+      complete: reader.complete,
+    })
+  } catch (error) {
+    console.error('Event properties error:', error)
+    return errorResponse('Failed to fetch event properties')
+  }
+}
+
 /**
  * GET /api/sites/{siteId}/campaigns
  */
 export async function handleGetCampaigns(request: Request, siteId: string): Promise<Response> {
   try {
+    const reader = createReportReader()
     const query = getQueryParams(request)
     const { startDate, endDate } = parseDateRange(query)
     const limit = Math.min(Number(query.limit) || 10, 100)
 
     // Query sessions with UTM data
-    const result = await dynamodb.query({
-      TableName: TABLE_NAME,
-      KeyConditionExpression: 'pk = :pk AND begins_with(sk, :prefix)',
-      ExpressionAttributeValues: {
-        ':pk': { S: `SITE#${siteId}` },
-        ':prefix': { S: 'SESSION#' },
-      },
-    }) as { Items?: any[] }
-
-    const sessions = (result.Items || []).map(unmarshall).filter(s => {
-      const sessionStart = new Date(s.startedAt)
-      return sessionStart >= startDate && sessionStart <= endDate && s.utmCampaign
-    })
+    const sessions = (await reader.getSessions(siteId, startDate, endDate)).filter(s => s.utmCampaign)
 
     // Aggregate by campaign
     const campaignStats: Record<string, { visitors: Set<string>; sessions: number; source: string; medium: string }> = {}
@@ -682,7 +592,7 @@ export async function handleGetCampaigns(request: Request, siteId: string): Prom
       .sort((a, b) => b.visitors - a.visitors)
       .slice(0, limit)
 
-    return jsonResponse({ campaigns })
+    return jsonResponse({ campaigns, complete: reader.complete })
   } catch (error) {
     console.error('Campaigns error:', error)
     return errorResponse('Failed to fetch campaigns')
@@ -694,6 +604,7 @@ export async function handleGetCampaigns(request: Request, siteId: string): Prom
  */
 export async function handleGetComparison(request: Request, siteId: string): Promise<Response> {
   try {
+    const reader = createReportReader()
     const query = getQueryParams(request)
     const { startDate, endDate } = parseDateRange(query)
 
@@ -704,32 +615,10 @@ export async function handleGetComparison(request: Request, siteId: string): Pro
 
     // Helper to get stats for a period
     async function getStatsForPeriod(start: Date, end: Date) {
-      const pageviewsResult = await dynamodb.query({
-        TableName: TABLE_NAME,
-        KeyConditionExpression: 'pk = :pk AND sk BETWEEN :start AND :end',
-        ExpressionAttributeValues: {
-          ':pk': { S: `SITE#${siteId}` },
-          ':start': { S: `PAGEVIEW#${start.toISOString()}` },
-          ':end': { S: `PAGEVIEW#${end.toISOString()}` },
-        },
-      }) as { Items?: any[] }
-
-      const sessionsResult = await dynamodb.query({
-        TableName: TABLE_NAME,
-        KeyConditionExpression: 'pk = :pk AND begins_with(sk, :prefix)',
-        ExpressionAttributeValues: {
-          ':pk': { S: `SITE#${siteId}` },
-          ':prefix': { S: 'SESSION#' },
-        },
-      }) as { Items?: any[] }
-
-      const pageviews = pageviewsResult.Items || []
-      const sessions = (sessionsResult.Items || []).map(unmarshall).filter(s => {
-        const sessionStart = new Date(s.startedAt)
-        return sessionStart >= start && sessionStart <= end
-      })
+      const pageviews = await reader.getPageViews(siteId, start, end)
+      const sessions = await reader.getSessions(siteId, start, end)
 
-      const uniqueVisitors = new Set(pageviews.map((pv: any) => pv.visitorId?.S)).size
+      const uniqueVisitors = new Set(pageviews.map(pv => pv.visitorId)).size
       const totalViews = pageviews.length
       const totalSessions = sessions.length
       const bounces = sessions.filter(s => s.isBounce).length
@@ -771,6 +660,7 @@ export async function handleGetComparison(request: Request, siteId: string): Pro
         current: { start: startDate.toISOString(), end: endDate.toISOString() },
         previous: { start: comparisonStartDate.toISOString(), end: comparisonEndDate.toISOString() },
       },
+      complete: reader.complete,
     })
   } catch (error) {
     console.error('Comparison error:', error)
@@ -3,7 +3,7 @@
  */
 
 import { generateId } from '../index'
-import { dynamodb, TABLE_NAME, unmarshall, marshall } from '../lib/dynamodb'
+import { getRepository } from '../lib/repository'
 import { jsonResponse, errorResponse } from '../utils/response'
 import { getQueryParams } from '../../deploy/lambda-adapter'
 
@@ -36,10 +36,7 @@ export async function handleInviteTeamMember(request: Request, siteId: string):
       acceptedAt: null,
     }
 
-    await dynamodb.putItem({
-      TableName: TABLE_NAME,
-      Item: marshall(member),
-    })
+    await getRepository().put(member)
 
     return jsonResponse({ member }, 201)
   } catch (error) {
@@ -53,16 +50,7 @@ export async function handleInviteTeamMember(request: Request, siteId: string):
  */
 export async function handleGetTeamMembers(request: Request, siteId: string): Promise<Response> {
   try {
-    const result = await dynamodb.query({
-      TableName: TABLE_NAME,
-      KeyConditionExpression: 'pk = :pk AND begins_with(sk, :prefix)',
-      ExpressionAttributeValues: {
-        ':pk': { S: `SITE#${siteId}` },
-        ':prefix': { S: 'TEAM#' },
-      },
-    }) as { Items?: any[] }
-
-    const members = (result.Items || []).map(unmarshall)
+    const members = await getRepository().query({ pk: `SITE#${siteId}`, beginsWith: 'TEAM#' })
 
     return jsonResponse({ members })
   } catch (error) {
@@ -76,13 +64,7 @@ export async function handleGetTeamMembers(request: Request, siteId: string): Pr
  */
 export async function handleRemoveTeamMember(_request: Request, siteId: string, memberId: string): Promise<Response> {
   try {
-    await dynamodb.deleteItem({
-      TableName: TABLE_NAME,
-      Key: marshall({
-        pk: `SITE#${siteId}`,
-        sk: `TEAM#${memberId}`,
-      }),
-    })
+    await getRepository().delete({ pk: `SITE#${siteId}`, sk: `TEAM#${memberId}` })
 
     return jsonResponse({ success: true })
   } catch (error) {
@@ -3,7 +3,8 @@
  */
 
 import { generateId } from '../index'
-import { dynamodb, TABLE_NAME, unmarshall, marshall } from '../lib/dynamodb'
+import { createReportReader } from '../lib/reports'
+import { getRepository } from '../lib/repository'
 import { parseDateRange } from '../utils/date'
 import { jsonResponse, errorResponse } from '../utils/response'
 import { getQueryParams } from '../../deploy/lambda-adapter'
@@ -40,10 +41,7 @@ export async function handleCreateUptimeMonitor(request: Request, siteId: string
       createdAt: new Date().toISOString(),
     }
 
-    await dynamodb.putItem({
-      TableName: TABLE_NAME,
-      Item: marshall(monitor),
-    })
+    await getRepository().put(monitor)
 
     return jsonResponse({ monitor }, 201)
   } catch (error) {
@@ -57,16 +55,7 @@ export async function handleCreateUptimeMonitor(request: Request, siteId: string
  */
 export async function handleGetUptimeMonitors(request: Request, siteId: string): Promise<Response> {
   try {
-    const result = await dynamodb.query({
-      TableName: TABLE_NAME,
-      KeyConditionExpression: 'pk = :pk AND begins_with(sk, :prefix)',
-      ExpressionAttributeValues: {
-        ':pk': { S: `SITE#${siteId}` },
-        ':prefix': { S: 'UPTIME#' },
-      },
-    }) as { Items?: any[] }
-
-    const monitors = (result.Items || []).map(unmarshall)
+    const monitors = await getRepository().query({ pk: `SITE#${siteId}`, beginsWith: 'UPTIME#' })
 
     return jsonResponse({ monitors })
   } catch (error) {
@@ -80,22 +69,15 @@ export async function handleGetUptimeMonitors(request: Request, siteId: string):
  */
 export async function handleGetUptimeHistory(request: Request, siteId: string, monitorId: string): Promise<Response> {
   try {
+    const reader = createReportReader()
     const query = getQueryParams(request)
     const { startDate, endDate } = parseDateRange(query)
 
-    const result = await dynamodb.query({
-      TableName: TABLE_NAME,
-      KeyConditionExpression: 'pk = :pk AND sk BETWEEN :start AND :end',
-      ExpressionAttributeValues: {
-        ':pk': { S: `UPTIME_CHECK#${siteId}#${monitorId}` },
-        ':start': { S: `CHECK#${startDate.toISOString()}` },
-        ':end': { S: `CHECK#${endDate.toISOString()}` },
-      },
-      ScanIndexForward: false,
-      Limit: 1000,
-    }) as { Items?: any[] }
-
-    const checks = (result.Items || []).map(unmarshall)
+    const checks = await reader.query({
+      pk: `UPTIME_CHECK#${siteId}#${monitorId}`,
+      between: [`CHECK#${startDate.toISOString()}`, `CHECK#${endDate.toISOString()}`],
+      descending: true,
+    })
 
     // Calculate uptime stats
     const totalChecks = checks.length
@@ -150,6 +132,7 @@ export async function handleGetUptimeHistory(request: Request, siteId: string, m
         start: startDate.toISOString(),
         end: endDate.toISOString(),
       },
+      complete: reader.complete,
     })
   } catch (error) {
     console.error('Get uptime history error:', error)
@@ -162,13 +145,7 @@ export async function handleGetUptimeHistory(request: Request, siteId: string, m
  */
 export async function handleDeleteUptimeMonitor(_request: Request, siteId: string, monitorId: string): Promise<Response> {
   try {
-    await dynamodb.deleteItem({
-      TableName: TABLE_NAME,
-      Key: marshall({
-        pk: `SITE#${siteId}`,
-        sk: `UPTIME#${monitorId}`,
-      }),
-    })
+    await getRepository().delete({ pk: `SITE#${siteId}`, sk: `UPTIME#${monitorId}` })
 
     return jsonResponse({ success: true })
   } catch (error) {
@@ -3,7 +3,7 @@
  */
 
 import { generateId } from '../index'
-import { dynamodb, TABLE_NAME, unmarshall, marshall } from '../lib/dynamodb'
+import { getRepository } from '../lib/repository'
 import { jsonResponse, errorResponse } from '../utils/response'
 import { getQueryParams } from '../../deploy/lambda-adapter'
 
@@ -40,10 +40,7 @@ export async function handleCreateWebhook(request: Request, siteId: string): Pro
       createdAt: new Date().toISOString(),
     }
 
-    await dynamodb.putItem({
-      TableName: TABLE_NAME,
-      Item: marshall(webhook),
-    })
+    await getRepository().put(webhook)
 
     return jsonResponse({ webhook }, 201)
   } catch (error) {
@@ -57,16 +54,7 @@ export async function handleCreateWebhook(request: Request, siteId: string): Pro
  */
 export async function handleGetWebhooks(request: Request, siteId: string): Promise<Response> {
   try {
-    const result = await dynamodb.query({
-      TableName: TABLE_NAME,
-      KeyConditionExpression: 'pk = :pk AND begins_with(sk, :prefix)',
-      ExpressionAttributeValues: {
-        ':pk': { S: `SITE#${siteId}` },
-        ':prefix': { S: 'WEBHOOK#' },
-      },
-    }) as { Items?: any[] }
-
-    const webhooks = (result.Items || []).map(unmarshall).map(w => ({
+    const webhooks = (await getRepository().query({ pk: `SITE#${siteId}`, beginsWith: 'WEBHOOK#' })).map(w => ({
       id: w.id,
       url: w.url,
       events: w.events,
@@ -88,13 +76,7 @@ export async function handleGetWebhooks(request: Request, siteId: string): Promi
  */
 export async function handleDeleteWebhook(_request: Request, siteId: string, webhookId: string): Promise<Response> {
   try {
-    await dynamodb.deleteItem({
-      TableName: TABLE_NAME,
-      Key: marshall({
-        pk: `SITE#${siteId}`,
-        sk: `WEBHOOK#${webhookId}`,
-      }),
-    })
+    await getRepository().delete({ pk: `SITE#${siteId}`, sk: `WEBHOOK#${webhookId}` })
 
     return jsonResponse({ success: true })
   } catch (error) {
@@ -17,6 +17,7 @@ export {
   type DashboardSummary,
   type DateRange,
   type DeviceStats,
+  type DirtyPeriod,
   type DeviceType,
   type EventStats,
   generateTrackingScript,
@@ -296,16 +297,28 @@ export {
 // Extends ts-cloud for infrastructure - see cloud.config.ts
 export {
   type AnalyticsEvent,
+  COALESCED_COUNTER_PREFIXES,
+  CounterCoalescer,
+  type CounterDelta,
+  type CounterKey,
   createAnalyticsProducer,
+  createSQSClient,
   defaultSQSConfig,
   EventBuffer,
   type EventProcessor,
   generateSQSResources,
   getAllShardKeys,
   getRandomShardedPartitionKey,
+  getRealtimeCounter,
   getShardedPartitionKey,
+  isCoalescedCounterKey,
+  isQueuedEventType,
   isSQSBufferingEnabled,
+  mergeCounterDeltas,
   type ProcessResult,
+  QUEUED_EVENT_TYPES,
+  type QueuedEventType,
+  REALTIME_COUNTER_TTL_SECONDS,
   type RealtimeUpdate,
   type SQSClient,
   type SQSConfig,
@@ -318,8 +331,138 @@ export {
   WriteCoalescer,
 } from './sqs-buffering'
 
+// Storage Repository
+export {
+  type AnalyticsRepository,
+  DynamoDBAnalyticsRepository,
+  type DynamoDBRepositoryClient,
+  type DynamoDBRepositoryOptions,
+  DEFAULT_PAGE_SIZE,
+  fromUpdateCommand,
+  getEventQuery,
+  getPageViewQuery,
+  getSessionQuery,
+  getTimeRangeKeys,
+  type ItemKey,
+  type ItemQuery,
+  type ItemUpdate,
+  MemoryAnalyticsRepository,
+  type QueryPage,
+  type QueryPageOptions,
+  type RepositoryItem,
+  type ScanPageOptions,
+  toStoredValue,
+  type WriteCondition,
+} from './repository'
+
+// Paged Queries
+export {
+  getPartitionQueries,
+  pageQuery,
+  QueryBudget,
+  type QueryBudgetOptions,
+  readQuery,
+  ReportReader,
+} from './paged-query'
+
+// Rollup Query Planning
+export {
+  describeQueryPlan,
+  getPeriodBounds,
+  getPlannedPages,
+  getPlannedReferrers,
+  getPlannedTotals,
+  getRawSegments,
+  getRollupPlan,
+  type PlannedPage,
+  type PlannedReferrer,
+  type PlannedTotals,
+  type PlanSegment,
+  type PlanSource,
+  planRollupQuery,
+  type QueryPlan,
+  type RollupCoverage,
+} from './query-planner'
+
+// Aggregation Runner
+export {
+  type AggregationReason,
+  AggregationRunner,
+  type AggregationRunnerOptions,
+  type AggregationRunResult,
+  type AggregationWindowResult,
+  getAggregationPeriods,
+  getLatePeriods,
+} from './aggregation-runner'
+
+// Data Migrations
+export {
+  DATA_MIGRATIONS,
+  type DataMigrationCheckpoint,
+  type DataMigrationDirection,
+  type DataMigrationProgress,
+  type DataMigrationResult,
+  DataMigrationRunner,
+  type DataMigrationRunnerOptions,
+  type DataMigrationRunResult,
+  type DataMigrationStatus,
+  type ItemMigration,
+  type ItemTransform,
+} from './data-migrations'
+
+// Retention Policies
+export {
+  applyRetentionTtl,
+  DEFAULT_RETENTION_SETTINGS,
+  getEntityRetentionDays,
+  getRetentionCutoff,
+  getRetentionEntity,
+  getRetentionTtl,
+  normalizeRetentionSettings,
+  RETENTION_ENTITY_PREFIXES,
+  type RetentionEntity,
+  type RetentionEntityReport,
+  RetentionPurgeJob,
+  type RetentionPurgeOptions,
+  type RetentionPurgeReport,
+  type RetentionSettings,
+} from './retention'
+
+// SQLite Storage
+export {
+  migrateSQLiteSchema,
+  SQLITE_MIGRATIONS,
+  SQLiteAnalyticsRepository,
+  type SQLiteDatabase,
+  type SQLiteMigration,
+  type SQLiteRepositoryOptions,
+  type SQLiteStatement,
+  type SQLiteValue,
+} from './sqlite-storage'
+
+// SQS Dead-Letter Queue Tooling
+export {
+  ANALYTICS_EVENT_TYPES,
+  categorizeFailure,
+  type DeadLetterGroup,
+  type DeadLetterMessage,
+  type DeadLetterPurgeResult,
+  DeadLetterQueue,
+  type DeadLetterQueueOptions,
+  type DeadLetterReplayResult,
+  type DeadLetterRewrite,
+  type DeadLetterSelection,
+  decodeDeadLetterBody,
+  getEventProblem,
+  groupDeadLetters,
+  InMemorySQSClient,
+  rewriteDeadLetterBody,
+} from './sqs-dead-letter'
+
 // Funnel Analysis
 export {
+  appendJourneyStep,
+  buildPageFlows,
   calculateDropOffRate,
   contentEngagementFunnel,
   createFunnel,
@@ -331,7 +474,9 @@ export {
   type FunnelStep,
   type FunnelStepAnalysis,
   type FunnelStepMatcher,
+  getSessionJourney,
   identifyDropOffPoints,
+  type PageFlowTransition,
   saasSignupFunnel,
   type UserJourney,
 } from './funnels'
@@ -368,3 +513,213 @@ export {
   lookupFromHeaders,
   lookupIP,
 } from './geolocation'
+
+// Bot & Crawler Filtering
+export {
+  BOT_UA_SIGNATURES,
+  type BotCheckInput,
+  type BotCheckResult,
+  type BotReason,
+  type BotRule,
+  DATACENTER_CIDRS,
+  detectBot,
+  getDatacenterProvider,
+  HEADLESS_HINTS,
+  ipInCidr,
+  matchBotRule,
+  matchBotSignature,
+  normalizeBotRules,
+  parseHeadlessHints,
+} from './utils/bot-filter'
+
+// Custom Event Properties
+export {
+  breakdownEventProperty,
+  DEFAULT_EVENT_PROPERTY_LIMITS,
+  type EventPropertyBreakdown,
+  type EventPropertyKey,
+  type EventPropertyLimits,
+  type EventPropertyValue,
+  getEventPropertyKeys,
+  parseStoredProperties,
+  RESERVED_EVENT_PROPERTY_KEYS,
+  sanitizeEventProperties,
+} from './utils/event-properties'
+
+// Tracking Payload Protocol
+export {
+  PAYLOAD_EVENT_TYPES,
+  PAYLOAD_VERSION,
+  type PayloadEventType,
+  type PayloadRejection,
+  type PayloadRejectionReason,
+  type PayloadValidationOptions,
+  type PayloadValidationResult,
+  upgradePayload,
+  validateCollectPayload,
+} from './utils/payload-schema'
+
+// Rate Limiting
+export {
+  type BucketState,
+  DynamoDBRateLimitStore,
+  type DynamoDBRateLimitClient,
+  type DynamoDBRateLimitStoreOptions,
+  MemoryRateLimitStore,
+  type RateLimitResult,
+  type RateLimitRule,
+  type RateLimitStore,
+  refillBucket,
+  takeTokens,
+} from './rate-limit'
+
+// Raw Event Archive
+export {
+  ARCHIVED_ENTITIES,
+  type ArchivedEntity,
+  type ArchiveDestination,
+  type ArchiveFile,
+  type ArchiveFormat,
+  decodeArchive,
+  encodeArchive,
+  getArchivePartition,
+  getArchivePrefix,
+  LocalArchiveDestination,
+  RawEventArchiver,
+  type RawEventArchiverOptions,
+  type RehydrateOptions,
+  type RehydrateReport,
+  S3ArchiveDestination,
+  type S3ArchiveDestinationOptions,
+  type S3Credentials,
+  signS3Request,
+} from './archive'
+export {
+  inferParquetColumns,
+  type ParquetColumn,
+  type ParquetColumnType,
+  type ParquetWriteOptions,
+  readParquet,
+  writeParquet,
+} from './parquet'
+
+// Shared Cache
+export {
+  type CacheEntry,
+  encodeRespCommand,
+  FallbackSharedCache,
+  type FallbackSharedCacheOptions,
+  MemorySharedCache,
+  type RedisCommandClient,
+  RedisConnection,
+  type RedisConnectionOptions,
+  RedisSharedCache,
+  type RedisSharedCacheOptions,
+  RespParser,
+  type RespReply,
+  type SharedCache,
+} from './shared-cache'
+
+// Site Ingestion Policy
+export {
+  FOREIGN_HOSTNAME_ACTIONS,
+  type ForeignHostnameAction,
+  hostnameMatchesDomain,
+  isForeignHostname,
+  normalizeDomain,
+  normalizeSitePolicy,
+  SITE_INGESTION_MODES,
+  type SiteIngestionMode,
+  type SiteIngestionPolicy,
+} from './utils/site-policy'
+
+// Referrer Rules
+export {
+  isDroppedReferrer,
+  matchSpamDomain,
+  normalizeReferrerRules,
+  previewReferrerRules,
+  REFERRER_SPAM_DOMAINS,
+  type ReferrerAction,
+  type ReferrerResolution,
+  type ReferrerRule,
+  type ReferrerRuleChange,
+  type ReferrerRuleContext,
+  resolveReferrer,
+} from './utils/referrer-rules'
+
+// Session Boundaries
+export {
+  deriveSessionId,
+  getLocalDate,
+  getSessionBoundary,
+  getSessionHeadKey,
+  isSessionBoundaryType,
+  SESSION_BOUNDARY_TYPES,
+  SESSION_HEAD_TTL_SECONDS,
+  type SessionBoundaryHit,
+  type SessionBoundaryReason,
+  type SessionBoundaryRules,
+  type SessionBoundaryState,
+} from './utils/session-boundaries'
+
+// Engaged Time
+export {
+  type EngagementSessionState,
+  getEngagementRollupKey,
+  getSessionDuration,
+  isBounceSession,
+  normalizeEngagedTime,
+} from './utils/engagement'
+
+// Ecommerce
+export {
+  breakdownRevenue,
+  convertAmount,
+  type DailyRevenue,
+  ECOMMERCE_ACTIONS,
+  type EcommerceAction,
+  type EcommerceItem,
+  type EcommerceRecord,
+  type ExchangeRates,
+  getItemsTotal,
+  getTrafficSource,
+  getUnconvertedCurrencies,
+  isCurrencyCode,
+  MAX_ECOMMERCE_ITEMS,
+  normalizeEcommerceEvent,
+  normalizeEcommerceItems,
+  ORDER_ACTIONS,
+  type RevenueBreakdownRow,
+  type RevenueDimension,
+  type RevenueSummary,
+  summarizeRevenue,
+} from './utils/ecommerce'
+
+// Unique Visitor Sketches
+export {
+  HyperLogLog,
+  mergeSketches,
+  SKETCH_PRECISION,
+} from './utils/hyperloglog'
+
+// Historical Data Imports
+export {
+  getImportFingerprint,
+  IMPORT_SOURCES,
+  type ImportedCounts,
+  type ImportedDay,
+  type ImportedDeviceCounts,
+  type ImportedGeoCounts,
+  type ImportedPageCounts,
+  type ImportedStats,
+  type ImportFile,
+  type ImportParseResult,
+  type ImportSource,
+  normalizeImportedSource,
+  parseCsv,
+  parseGa4Report,
+  parseImportDate,
+  parseImportFiles,
+  toImportedStats,
+} from './utils/importers'
@@ -66,6 +66,8 @@ export interface AnalyticsApiProps extends AnalyticsTableProps {
   codePath?: string
   /** Enable aggregation scheduled functions */
   enableAggregation?: boolean
+  /** Archive raw pageviews, events and errors to an S3 bucket from the table's stream */
+  enableArchive?: boolean
 }
 
 // ============================================================================
@@ -82,7 +84,8 @@ export function generateCdkCode(props: AnalyticsApiProps = {}): string {
     readCapacity: props.readCapacity || 5,
     writeCapacity: props.writeCapacity || 5,
     pointInTimeRecovery: props.pointInTimeRecovery ?? true,
-    stream: props.stream,
+    // The archive reads new images from the table's stream
+    stream: props.stream || (props.enableArchive ? 'NEW_IMAGE' : undefined),
     timeToLiveAttribute: props.timeToLiveAttribute || 'ttl',
     removalPolicy: props.removalPolicy || 'RETAIN',
     encryption: props.encryption || 'AWS_MANAGED',
@@ -93,12 +96,15 @@ export function generateCdkCode(props: AnalyticsApiProps = {}): string {
     timeout: props.timeout || 30,
     codePath: props.codePath || 'dist/lambda',
     enableAggregation: props.enableAggregation ?? true,
+    enableArchive: props.enableArchive ?? false,
     tags: props.tags || {},
   }
 
   return `import * as cdk from 'aws-cdk-lib'
 import * as dynamodb from 'aws-cdk-lib/aws-dynamodb'
 import * as lambda from 'aws-cdk-lib/aws-lambda'
+import * as lambdaEventSources from 'aws-cdk-lib/aws-lambda-event-sources'
+import * as s3 from 'aws-cdk-lib/aws-s3'
 import * as apigateway from 'aws-cdk-lib/aws-apigatewayv2'
 import * as apigatewayIntegrations from 'aws-cdk-lib/aws-apigatewayv2-integrations'
 import * as events from 'aws-cdk-lib/aws-events'
@@ -288,18 +294,24 @@ ${config.enableAggregation
 
     const aggregationFn = new lambda.Function(this, 'AggregationFunction', {
       ...commonLambdaProps,
-      handler: 'index.aggregationHandler',
+      handler: 'aggregation-handler.handler',
       code: lambda.Code.fromAsset('${config.codePath}'),
       description: 'Run analytics aggregation',
       timeout: cdk.Duration.minutes(5),
       memorySize: 512,
+      environment: {
+        ...commonLambdaProps.environment,
+        ANALYTICS_TABLE_NAME: tableName,
+      },
     })
 
     this.table.grantReadWriteData(aggregationFn)
 
+    // Runs a few minutes past each period, once it has settled (aggregation.settleMinutes)
+
     // Hourly aggregation
     new events.Rule(this, 'HourlyAggregation', {
-      schedule: events.Schedule.rate(cdk.Duration.hours(1)),
+      schedule: events.Schedule.cron({ minute: '10' }),
       targets: [
         new targets.LambdaFunction(aggregationFn, {
           event: events.RuleTargetInput.fromObject({ period: 'hour' }),
@@ -307,9 +319,9 @@ ${config.enableAggregation
       ],
     })
 
-    // Daily aggregation (midnight UTC)
+    // Daily aggregation (after midnight UTC)
     new events.Rule(this, 'DailyAggregation', {
-      schedule: events.Schedule.cron({ hour: '0', minute: '0' }),
+      schedule: events.Schedule.cron({ hour: '0', minute: '10' }),
       targets: [
         new targets.LambdaFunction(aggregationFn, {
           event: events.RuleTargetInput.fromObject({ period: 'day' }),
@@ -317,9 +329,9 @@ ${config.enableAggregation
       ],
     })
 
-    // Monthly aggregation (1st of month, midnight UTC)
+    // Monthly aggregation (1st of month, after midnight UTC)
     new events.Rule(this, 'MonthlyAggregation', {
-      schedule: events.Schedule.cron({ day: '1', hour: '0', minute: '0' }),
+      schedule: events.Schedule.cron({ day: '1', hour: '0', minute: '10' }),
       targets: [
         new targets.LambdaFunction(aggregationFn, {
           event: events.RuleTargetInput.fromObject({ period: 'month' }),
@@ -329,6 +341,67 @@ ${config.enableAggregation
 `
   : ''}
 
+    // ========================================================================
+    // Retention Purge
+    // ========================================================================
+
+    const retentionFn = new lambda.Function(this, 'RetentionFunction', {
+      ...commonLambdaProps,
+      handler: 'retention-handler.handler',
+      code: lambda.Code.fromAsset('${config.codePath}'),
+      description: 'Apply analytics retention settings',
+      timeout: cdk.Duration.minutes(15),
+      memorySize: 512,
+      environment: {
+        ...commonLambdaProps.environment,
+        ANALYTICS_TABLE_NAME: tableName,
+      },
+    })
+
+    this.table.grantReadWriteData(retentionFn)
+
+    // Daily, away from the aggregation runs
+    new events.Rule(this, 'DailyRetention', {
+      schedule: events.Schedule.cron({ hour: '3', minute: '30' }),
+      targets: [new targets.LambdaFunction(retentionFn)],
+    })
+${config.enableArchive
+  ? `
+    // ========================================================================
+    // Raw Event Archive
+    // ========================================================================
+
+    const archiveBucket = new s3.Bucket(this, 'ArchiveBucket', {
+      encryption: s3.BucketEncryption.S3_MANAGED,
+      blockPublicAccess: s3.BlockPublicAccess.BLOCK_ALL,
+      removalPolicy: cdk.RemovalPolicy.RETAIN,
+    })
+
+    const archiveFn = new lambda.Function(this, 'ArchiveFunction', {
+      ...commonLambdaProps,
+      handler: 'archive-handler.handler',
+      code: lambda.Code.fromAsset('${config.codePath}'),
+      description: 'Archive raw analytics events',
+      timeout: cdk.Duration.minutes(5),
+      memorySize: 512,
+      environment: {
+        ...commonLambdaProps.environment,
+        ANALYTICS_TABLE_NAME: tableName,
+        ANALYTICS_ARCHIVE_BUCKET: archiveBucket.bucketName,
+      },
+    })
+
+    archiveBucket.grantWrite(archiveFn)
+
+    // Larger batches make fewer, larger files
+    archiveFn.addEventSource(new lambdaEventSources.DynamoEventSource(this.table, {
+      startingPosition: lambda.StartingPosition.LATEST,
+      batchSize: 1000,
+      maxBatchingWindow: cdk.Duration.minutes(5),
+      filters: [lambda.FilterCriteria.filter({ eventName: lambda.FilterRule.isEqual('INSERT') })],
+    }))
+`
+  : ''}
     // ========================================================================
     // Outputs
     // ========================================================================
@@ -33,6 +33,8 @@ export interface CloudFormationConfig {
   tags?: Record<string, string>
   /** Enable deletion protection */
   deletionProtection?: boolean
+  /** Archive raw pageviews, events and errors to an S3 bucket from the table's stream (SAM template) */
+  enableArchive?: boolean
 }
 
 const defaultConfig: Required<CloudFormationConfig> = {
@@ -51,6 +53,7 @@ const defaultConfig: Required<CloudFormationConfig> = {
   kmsKeyArn: '',
   tags: {},
   deletionProtection: false,
+  enableArchive: false,
 }
 
 /**
@@ -346,7 +349,8 @@ function jsonToYaml(obj: unknown, indent = 0): string {
  * Includes Lambda functions for API endpoints
  */
 export function generateSamTemplate(config: CloudFormationConfig = {}): Record<string, unknown> {
-  const cfnTemplate = generateCloudFormationTemplate(config)
+  // The archive reads the table's stream
+  const cfnTemplate = generateCloudFormationTemplate(config.enableArchive ? { ...config, enableStreams: true } : config)
   const mergedConfig = { ...defaultConfig, ...config }
 
   return {
@@ -574,30 +578,36 @@ export function generateSamTemplate(config: CloudFormationConfig = {}): Record<s
       AggregationFunction: {
         Type: 'AWS::Serverless::Function',
         Properties: {
-          Handler: 'index.aggregationHandler',
+          Handler: 'aggregation-handler.handler',
           CodeUri: './dist/lambda',
           Description: 'Run analytics aggregation',
           Timeout: 300,
           MemorySize: 512,
+          Environment: {
+            Variables: {
+              ANALYTICS_TABLE_NAME: { Ref: 'AnalyticsTable' },
+            },
+          },
+          // A few minutes past each period, once it has settled (aggregation.settleMinutes)
           Events: {
             HourlySchedule: {
               Type: 'Schedule',
               Properties: {
-                Schedule: 'rate(1 hour)',
+                Schedule: 'cron(10 * * * ? *)',
                 Input: '{"period": "hour"}',
               },
             },
             DailySchedule: {
               Type: 'Schedule',
               Properties: {
-                Schedule: 'cron(0 0 * * ? *)',
+                Schedule: 'cron(10 0 * * ? *)',
                 Input: '{"period": "day"}',
               },
             },
             MonthlySchedule: {
               Type: 'Schedule',
               Properties: {
-                Schedule: 'cron(0 0 1 * ? *)',
+                Schedule: 'cron(10 0 1 * ? *)',
                 Input: '{"period": "month"}',
               },
             },
@@ -611,6 +621,96 @@ export function generateSamTemplate(config: CloudFormationConfig = {}): Record<s
           ],
         },
       },
+
+      RetentionFunction: {
+        Type: 'AWS::Serverless::Function',
+        Properties: {
+          Handler: 'retention-handler.handler',
+          CodeUri: './dist/lambda',
+          Description: 'Apply analytics retention settings',
+          Timeout: 900,
+          MemorySize: 512,
+          Environment: {
+            Variables: {
+              ANALYTICS_TABLE_NAME: { Ref: 'AnalyticsTable' },
+            },
+          },
+          Events: {
+            DailySchedule: {
+              Type: 'Schedule',
+              Properties: {
+                Schedule: 'cron(30 3 * * ? *)',
+              },
+            },
+          },
+          Policies: [
+            {
+              DynamoDBCrudPolicy: {
+                TableName: { Ref: 'AnalyticsTable' },
+              },
+            },
+          ],
+        },
+      },
+
+      ...(mergedConfig.enableArchive && {
+        ArchiveBucket: {
+          Type: 'AWS::S3::Bucket',
+          DeletionPolicy: 'Retain',
+          Properties: {
+            BucketEncryption: {
+              ServerSideEncryptionConfiguration: [
+                { ServerSideEncryptionByDefault: { SSEAlgorithm: 'AES256' } },
+              ],
+            },
+            PublicAccessBlockConfiguration: {
+              BlockPublicAcls: true,
+              BlockPublicPolicy: true,
+              IgnorePublicAcls: true,
+              RestrictPublicBuckets: true,
+            },
+          },
+        },
+
+        ArchiveFunction: {
+          Type: 'AWS::Serverless::Function',
+          Properties: {
+            Handler: 'archive-handler.handler',
+            CodeUri: './dist/lambda',
+            Description: 'Archive raw analytics events',
+            Timeout: 300,
+            MemorySize: 512,
+            Environment: {
+              Variables: {
+                ANALYTICS_TABLE_NAME: { Ref: 'AnalyticsTable' },
+                ANALYTICS_ARCHIVE_BUCKET: { Ref: 'ArchiveBucket' },
+              },
+            },
+            // Larger batches make fewer, larger files
+            Events: {
+              TableStream: {
+                Type: 'DynamoDB',
+                Properties: {
+                  Stream: { 'Fn::GetAtt': ['AnalyticsTable', 'StreamArn'] },
+                  StartingPosition: 'LATEST',
+                  BatchSize: 1000,
+                  MaximumBatchingWindowInSeconds: 300,
+                  FilterCriteria: {
+                    Filters: [{ Pattern: '{"eventName": ["INSERT"]}' }],
+                  },
+                },
+              },
+            },
+            Policies: [
+              {
+                S3WritePolicy: {
+                  BucketName: { Ref: 'ArchiveBucket' },
+                },
+              },
+            ],
+          },
+        },
+      }),
     },
 
     Outputs: {
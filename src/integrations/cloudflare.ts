@@ -26,6 +26,7 @@ import {
   hashVisitorId,
   KeyPatterns,
 } from '../dynamodb'
+import { type PayloadRejection, validateCollectPayload } from '../utils/payload-schema'
 
 // ============================================================================
 // Types
@@ -87,6 +88,8 @@ export interface CloudflareHandlerOptions {
   sessionTtl?: number
   /** Custom storage adapter */
   storage?: StorageAdapter
+  /** Called for every payload rejected by validation (e.g. to count it per site) */
+  onPayloadRejected?: (siteId: string | undefined, rejection: PayloadRejection) => void | Promise<void>
 }
 
 export interface StorageAdapter {
@@ -108,18 +111,6 @@ interface QueryResult {
   lastKey?: string
 }
 
-interface CollectPayload {
-  s: string // siteId
-  sid: string // sessionId
-  e: 'pageview' | 'event' | 'outbound'
-  p?: Record<string, unknown> // properties
-  u: string // url
-  r?: string // referrer
-  t?: string // title
-  sw?: number // screen width
-  sh?: number // screen height
-}
-
 // ============================================================================
 // Main Handler
 // ============================================================================
@@ -157,7 +148,7 @@ export function createAnalyticsHandler(options: CloudflareHandlerOptions = {}):
 
     // Route handling
     if (path === `${basePath}/collect` && request.method === 'POST') {
-      return handleCollect(request, env, storage, sessionStore)
+      return handleCollect(request, env, storage, sessionStore, options.onPayloadRejected)
     }
 
     if (path.startsWith(`${basePath}/sites/`) && path.endsWith('/stats') && request.method === 'GET') {
@@ -196,13 +187,17 @@ async function handleCollect(
   env: CloudflareEnv,
   storage: StorageAdapter,
   sessionStore: SessionStore | null,
+  onPayloadRejected?: CloudflareHandlerOptions['onPayloadRejected'],
 ): Promise<Response> {
   try {
-    const payload = await request.json() as CollectPayload
+    const body = await request.json() as Record<string, unknown> | null
 
-    if (!payload?.s || !payload?.e || !payload?.u) {
-      return jsonResponse({ error: 'Missing required fields: s, e, u' }, 400)
+    const validation = validateCollectPayload(body, { origin: request.headers.get('Origin') ?? undefined })
+    if (!validation.valid) {
+      await onPayloadRejected?.(typeof body?.s === 'string' ? body.s : undefined, validation.rejection)
+      return jsonResponse({ error: validation.rejection.message, rejection: validation.rejection }, 400)
     }
+    const payload = validation.payload
 
     const config = getConfig()
     const ip = request.headers.get('CF-Connecting-IP') ?? request.headers.get('X-Forwarded-For') ?? 'unknown'
@@ -211,14 +206,7 @@ async function handleCollect(
 
     const visitorId = await hashVisitorId(ip, userAgent, payload.s, salt)
 
-    let parsedUrl: URL
-    try {
-      parsedUrl = new URL(payload.u)
-    }
-    catch {
-      return jsonResponse({ error: 'Invalid URL' }, 400)
-    }
-
+    const parsedUrl = validation.url
     const timestamp = new Date()
     const sessionId = payload.sid
 
@@ -24,6 +24,7 @@ import {
   KeyPatterns,
 } from '../dynamodb'
 import type { AggregationPeriod, PageView, Session } from '../types'
+import { type PayloadRejection, validateCollectPayload } from '../utils/payload-schema'
 
 // ============================================================================
 // Types
@@ -63,6 +64,8 @@ export interface AnalyticsMiddlewareOptions {
   sessionStore?: SessionStore
   /** DynamoDB command executor */
   executeCommand: (cmd: DynamoCommand) => Promise<unknown>
+  /** Called for every payload rejected by validation (e.g. to count it per site) */
+  onPayloadRejected?: (siteId: string | undefined, rejection: PayloadRejection) => void | Promise<void>
 }
 
 interface SessionStore {
@@ -75,18 +78,6 @@ interface DynamoCommand {
   input: Record<string, unknown>
 }
 
-interface CollectPayload {
-  s: string // siteId
-  sid: string // sessionId
-  e: 'pageview' | 'event' | 'outbound'
-  p?: Record<string, unknown> // properties
-  u: string // url
-  r?: string // referrer
-  t?: string // title
-  sw?: number // screen width
-  sh?: number // screen height
-}
-
 // ============================================================================
 // Middleware
 // ============================================================================
@@ -157,11 +148,14 @@ export function createAnalyticsRoutes(options: AnalyticsMiddlewareOptions): {
      */
     async collect(c) {
       try {
-        const payload = await c.req.json<CollectPayload>()
+        const body = await c.req.json<Record<string, unknown> | null>()
 
-        if (!payload?.s || !payload?.e || !payload?.u) {
-          return c.json({ error: 'Missing required fields: s, e, u' }, 400)
+        const validation = validateCollectPayload(body, { origin: c.req.header('Origin') })
+        if (!validation.valid) {
+          await options.onPayloadRejected?.(typeof body?.s === 'string' ? body.s : undefined, validation.rejection)
+          return c.json({ error: validation.rejection.message, rejection: validation.rejection }, 400)
         }
+        const payload = validation.payload
 
         // Get visitor ID
         const ip = c.req.header('X-Forwarded-For') || c.req.header('CF-Connecting-IP') || 'unknown'
@@ -172,15 +166,7 @@ export function createAnalyticsRoutes(options: AnalyticsMiddlewareOptions): {
           ? await options.getVisitorId(c)
           : await hashVisitorId(ip, userAgent, payload.s, salt)
 
-        // Parse URL
-        let parsedUrl: URL
-        try {
-          parsedUrl = new URL(payload.u)
-        }
-        catch {
-          return c.json({ error: 'Invalid URL' }, 400)
-        }
-
+        const parsedUrl = validation.url
         const timestamp = new Date()
         const sessionId = payload.sid
 
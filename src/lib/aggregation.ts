@@ -0,0 +1,51 @@
+/**
+ * Scheduled aggregation of the configured repository
+ *
+ * - Site: PK SITES, SK SITE#{siteId}
+ * - Dirty period: PK SITE#{siteId}, SK DIRTY#{PERIOD}#{periodStart}
+ */
+
+import { AggregationRunner, AnalyticsKeyPatterns, AnalyticsStore, getLatePeriods } from '../../src/index'
+import { TABLE_NAME } from './dynamodb'
+import { getReferrerRuleContext } from './referrers'
+import { getRepository } from './repository'
+
+/**
+ * An aggregation runner over the configured repository
+ */
+export function createAggregationRunner(): AggregationRunner {
+  return new AggregationRunner(getRepository(), {
+    store: new AnalyticsStore({ tableName: TABLE_NAME }),
+    getReferrerRules: getReferrerRuleContext,
+  })
+}
+
+/**
+ * IDs of every site
+ */
+export async function listSiteIds(): Promise<string[]> {
+  const sites = await getRepository().query({ pk: 'SITES' })
+  return sites.map(site => site.id || site.siteId).filter(Boolean)
+}
+
+/**
+ * Mark the closed periods that late events fall into dirty, so the next run
+ * aggregates them again. Returns the number of periods marked.
+ */
+export async function markLatePeriods(events: Array<{ siteId: string, timestamp: Date | string }>, now: Date = new Date()): Promise<number> {
+  const keys = AnalyticsKeyPatterns.dirtyPeriod
+  const late = getLatePeriods(events, now)
+
+  for (const { siteId, period, periodStart } of late) {
+    try {
+      await getRepository().increment(
+        { pk: keys.pk(siteId), sk: keys.sk(period, periodStart) },
+        { count: 1 },
+        { set: { siteId, period, periodStart, markedAt: now.toISOString(), _et: 'DirtyPeriod' } },
+      )
+    } catch (err) {
+      console.error('[Aggregation] Failed to mark late period:', siteId, period, periodStart, err)
+    }
+  }
+  return late.length
+}
@@ -0,0 +1,37 @@
+/**
+ * Raw event archive of the configured destination
+ *
+ * - Files: site={siteId}/date={YYYY-MM-DD}/{entity}-{batchId}.parquet (or .ndjson.gz)
+ */
+
+import type { ArchiveDestination } from '../../src/index'
+import { getConfig, LocalArchiveDestination, RawEventArchiver, S3ArchiveDestination } from '../../src/index'
+
+/**
+ * The configured destination. ANALYTICS_ARCHIVE_BUCKET (set by the SAM and CDK
+ * templates) selects a bucket.
+ */
+export function createArchiveDestination(): ArchiveDestination {
+  const { archive, region } = getConfig()
+  const bucket = archive.bucket || process.env.ANALYTICS_ARCHIVE_BUCKET
+
+  if (archive.destination === 's3' || bucket) {
+    if (!bucket) {
+      throw new Error('archive.destination is s3 but no archive.bucket or ANALYTICS_ARCHIVE_BUCKET is set')
+    }
+    return new S3ArchiveDestination({
+      bucket,
+      region: archive.region ?? region,
+      endpoint: archive.endpoint,
+      prefix: archive.prefix,
+    })
+  }
+  return new LocalArchiveDestination(archive.directory)
+}
+
+/**
+ * An archiver of the configured destination and format
+ */
+export function createRawEventArchiver(): RawEventArchiver {
+  return new RawEventArchiver(createArchiveDestination(), { format: getConfig().archive.format })
+}
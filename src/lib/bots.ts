@@ -0,0 +1,65 @@
+/**
+ * Bot rules and bot-traffic rollups
+ */
+
+import type { BotCheckResult, BotRule } from '../utils/bot-filter'
+import { normalizeBotRules } from '../utils/bot-filter'
+import { deleteFromCache, getFromCache, setInCache } from '../utils/cache'
+import { getRepository } from './repository'
+
+const BOT_RULES_CACHE_TTL = 5 * 60 * 1000 // 5 minutes
+
+/**
+ * Get custom bot rules for a site (with caching)
+ */
+export async function getBotRulesForSite(siteId: string): Promise<BotRule[]> {
+  const cacheKey = `bot-rules:${siteId}`
+  const cached = getFromCache<BotRule[]>(cacheKey)
+  if (cached) {
+    return cached
+  }
+
+  try {
+    const item = await getRepository().get({ pk: `SITE#${siteId}`, sk: 'BOT_RULES' })
+
+    const rules = item ? normalizeBotRules(item.rules) : []
+    setInCache(cacheKey, rules, BOT_RULES_CACHE_TTL)
+    return rules
+  } catch (err) {
+    console.error('[Bots] Failed to fetch bot rules:', err)
+    return []
+  }
+}
+
+/**
+ * Drop cached rules after an update
+ */
+export function invalidateBotRulesCache(siteId: string): void {
+  deleteFromCache(`bot-rules:${siteId}`)
+}
+
+/**
+ * Count a filtered hit in the per-site daily bot-traffic rollup
+ *
+ * One item per day, reason and detail:
+ * - PK: SITE#{siteId}
+ * - SK: BOTSTATS#{date}#{reason}#{detail}
+ */
+export async function recordBotHit(siteId: string, result: BotCheckResult, eventType: string, timestamp: Date = new Date()): Promise<void> {
+  const date = timestamp.toISOString().slice(0, 10)
+  const reason = result.reason || 'user_agent'
+  const detail = (result.detail || 'unknown').slice(0, 100)
+
+  try {
+    await getRepository().increment(
+      { pk: `SITE#${siteId}`, sk: `BOTSTATS#${date}#${reason}#${detail}` },
+      { hits: 1, pageviews: eventType === 'pageview' ? 1 : 0 },
+      {
+        set: { siteId, date, reason, detail, lastSeen: timestamp.toISOString() },
+        setIfMissing: { ttl: Math.floor(Date.now() / 1000) + 365 * 24 * 60 * 60 },
+      },
+    )
+  } catch (err) {
+    console.error('[Bots] Failed to record bot hit:', err)
+  }
+}
@@ -0,0 +1,64 @@
+/**
+ * Coalesced counter writes of the direct write path
+ *
+ * - Realtime: PK SITE#{siteId}, SK REALTIME#{minute}
+ *
+ * Counter updates to hot items are merged for `scale.writeCoalescing.windowMs`
+ * and written as one atomic update per item. Callers flush pending deltas with
+ * `flushCounters()` before their invocation returns (the API handler does so for
+ * every request), as a frozen Lambda environment may never run again.
+ */
+
+import type { CounterDelta, CounterKey } from '../../src/index'
+import { CounterCoalescer, getConfig, getRealtimeCounter } from '../../src/index'
+import { getRepository } from './repository'
+
+let coalescer: CounterCoalescer | null = null
+
+/**
+ * The process-wide counter coalescer (created on first use)
+ */
+export function getCounterCoalescer(): CounterCoalescer {
+  if (!coalescer) {
+    const { enabled, windowMs } = getConfig().scale.writeCoalescing
+    coalescer = new CounterCoalescer({
+      enabled,
+      windowMs,
+      onWrite: async (key, delta) => {
+        await getRepository().update(key, delta)
+      },
+    })
+  }
+  return coalescer
+}
+
+/**
+ * Add to an item's counters
+ */
+export async function addCounters(key: CounterKey, delta: CounterDelta): Promise<void> {
+  try {
+    await getCounterCoalescer().add(key, delta)
+  } catch (err) {
+    console.error('[Counters] Failed to update counters:', key.sk, err)
+  }
+}
+
+/**
+ * Add to a site's realtime counters for the minute of a hit
+ */
+export async function addRealtimeCounters(siteId: string, counters: Record<string, number>, visitorId?: string, timestamp: Date = new Date()): Promise<void> {
+  const { key, delta } = getRealtimeCounter(siteId, timestamp, counters, visitorId)
+  await addCounters(key, delta)
+}
+
+/**
+ * Write pending counter deltas now
+ */
+export async function flushCounters(): Promise<void> {
+  if (!coalescer) return
+  try {
+    await coalescer.flush()
+  } catch (err) {
+    console.error('[Counters] Failed to flush counters:', err)
+  }
+}
@@ -0,0 +1,44 @@
+/**
+ * Dead-letter queue access
+ *
+ * - Failure record: PK DEAD_LETTERS, SK FAILURE#{messageId} (written by the SQS consumer)
+ *
+ * Queue URLs come from SQS_DLQ_URL and SQS_QUEUE_URL, or the `scale.sqsBuffering`
+ * config.
+ */
+
+import { createSQSClient, DeadLetterQueue, getConfig } from '../../src/index'
+import { getRepository } from './repository'
+
+const REGION = process.env.AWS_REGION || 'us-east-1'
+
+let deadLetterQueue: DeadLetterQueue | null = null
+
+/**
+ * Errors the consumer recorded for messages, by message ID
+ */
+export async function getMessageFailures(messageIds: string[]): Promise<Map<string, string>> {
+  const items = await getRepository().batchGet(
+    messageIds.map(messageId => ({ pk: 'DEAD_LETTERS', sk: `FAILURE#${messageId}` })),
+  )
+  return new Map(items.map(item => [item.messageId, item.error]))
+}
+
+/**
+ * Get or initialize the dead-letter queue, or null when no queues are configured
+ */
+export async function getDeadLetterQueue(): Promise<DeadLetterQueue | null> {
+  if (deadLetterQueue) return deadLetterQueue
+
+  const settings = getConfig().scale.sqsBuffering
+  const deadLetterQueueUrl = process.env.SQS_DLQ_URL || settings.deadLetterQueueUrl
+  const queueUrl = process.env.SQS_QUEUE_URL || settings.queueUrl
+  if (!deadLetterQueueUrl || !queueUrl) return null
+
+  deadLetterQueue = new DeadLetterQueue(await createSQSClient(REGION), {
+    deadLetterQueueUrl,
+    queueUrl,
+    getFailures: getMessageFailures,
+  })
+  return deadLetterQueue
+}
@@ -0,0 +1,66 @@
+/**
+ * Ecommerce event storage
+ *
+ * - Events: PK SITE#{siteId}, SK ECOMMERCE#{timestamp}#{id}
+ * - Order claims: PK SITE#{siteId}, SK ORDER#{action}#{orderId}
+ */
+
+import type { ReportReader } from '../../src/index'
+import type { EcommerceRecord, ExchangeRates } from '../utils/ecommerce'
+import { getConfig } from '../../src/index'
+import { isCurrencyCode } from '../utils/ecommerce'
+import { createReportReader } from './reports'
+import { getRepository } from './repository'
+import { getSiteRecord } from './sites'
+
+const ORDER_CLAIM_TTL_SECONDS = 2 * 365 * 24 * 60 * 60 // 2 years
+
+/**
+ * Claim an order ID for a purchase or refund. Returns false when another event
+ * already recorded the order, so resent purchases (reloaded thank-you pages) count
+ * once. Claiming again with the same `eventId` (a retry) succeeds.
+ */
+export async function claimOrder(siteId: string, action: string, orderId: string, eventId: string): Promise<boolean> {
+  return getRepository().put({
+    pk: `SITE#${siteId}`,
+    sk: `ORDER#${action}#${orderId}`,
+    siteId,
+    orderId,
+    eventId,
+    claimedAt: new Date().toISOString(),
+    ttl: Math.floor(Date.now() / 1000) + ORDER_CLAIM_TTL_SECONDS,
+  }, { notExists: true, matches: { eventId } })
+}
+
+/**
+ * Ecommerce events between two dates
+ */
+export async function getEcommerceRecords(
+  siteId: string,
+  startDate: Date,
+  endDate: Date,
+  reader: ReportReader = createReportReader(),
+): Promise<EcommerceRecord[]> {
+  return await reader.query({
+    pk: `SITE#${siteId}`,
+    between: [`ECOMMERCE#${startDate.toISOString()}`, `ECOMMERCE#${endDate.toISOString()}`],
+  }) as unknown as EcommerceRecord[]
+}
+
+/**
+ * Currency a site's revenue is reported in: `override` (a report's `currency`
+ * parameter), the site's reporting currency or the configured default
+ */
+export async function getReportingCurrency(siteId: string, override?: string): Promise<string> {
+  if (isCurrencyCode(override)) return override
+
+  const site = await getSiteRecord(siteId).catch(() => null)
+  return isCurrencyCode(site?.currency) ? site.currency : getConfig().ecommerce.defaultCurrency
+}
+
+/**
+ * The configured exchange-rate table
+ */
+export function getExchangeRates(): ExchangeRates {
+  return getConfig().ecommerce.exchangeRates
+}
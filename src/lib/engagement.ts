@@ -0,0 +1,46 @@
+/**
+ * Engaged-time rollups
+ */
+
+import { getEngagementRollupKey } from '../utils/engagement'
+import type { ReportReader } from '../../src/index'
+import { createReportReader } from './reports'
+import { getRepository } from './repository'
+
+/**
+ * Add a pageleave report to the path's daily engaged-time rollup
+ */
+export async function recordEngagedTime(siteId: string, path: string, engagedMs: number, timestamp: Date = new Date()): Promise<void> {
+  const date = timestamp.toISOString().slice(0, 10)
+  const key = getEngagementRollupKey(siteId, date, path)
+
+  try {
+    await getRepository().increment(key, { engagedTime: engagedMs, reports: 1 }, {
+      set: { siteId, date, path },
+      setIfMissing: { ttl: Math.floor(Date.now() / 1000) + 365 * 24 * 60 * 60 },
+    })
+  } catch (err) {
+    console.error('[Engagement] Failed to record engaged time:', err)
+  }
+}
+
+/**
+ * Total engaged time (milliseconds) per path between two dates
+ */
+export async function getEngagedTimeByPath(
+  siteId: string,
+  startDate: Date,
+  endDate: Date,
+  reader: ReportReader = createReportReader(),
+): Promise<Map<string, number>> {
+  const rows = await reader.query({
+    pk: `SITE#${siteId}`,
+    between: [`ENGAGED#${startDate.toISOString().slice(0, 10)}`, `ENGAGED#${endDate.toISOString().slice(0, 10)}#\uffff`],
+  })
+
+  const totals = new Map<string, number>()
+  for (const row of rows) {
+    totals.set(row.path, (totals.get(row.path) || 0) + (row.engagedTime || 0))
+  }
+  return totals
+}
@@ -1,23 +1,86 @@
 /**
  * Goal matching and conversion logic
+ *
+ * - Goal: PK SITE#{siteId}, SK GOAL#{goalId}
+ * - Conversion: PK SITE#{siteId}, SK CONVERSION#{timestamp}#{id},
+ *   GSI1PK SITE#{siteId}#GOAL#{goalId}, GSI1SK CONVERSION#{timestamp}
+ * - Realtime counters: PK SITE#{siteId}, SK REALTIME#{minute} (conversions, goal_{goalId})
  */
 
-import { generateId } from '../../src/index'
-import { Goal, Conversion } from '../../src/models/orm'
-import { getCachedGoals, setCachedGoals, hasConverted, markConverted } from '../utils/cache'
+import { generateId, type ReportReader, type RepositoryItem } from '../../src/index'
+import { claimConversion, getCachedGoals, releaseConversion, setCachedGoals } from '../utils/cache'
+import { addRealtimeCounters } from './counters'
+import { createReportReader } from './reports'
+import { getRepository } from './repository'
+
+/**
+ * A stored goal
+ */
+export interface SiteGoal {
+  id: string
+  siteId: string
+  name: string
+  type: 'pageview' | 'event' | 'duration'
+  pattern: string
+  matchType: 'exact' | 'contains' | 'regex'
+  /** Session length of duration goals */
+  durationMinutes?: number
+  /** Value of each conversion */
+  value?: number
+  isActive: boolean
+  createdAt: string
+  updatedAt: string
+}
+
+/**
+ * Key of a goal
+ */
+export function getGoalKey(siteId: string, goalId: string): { pk: string, sk: string } {
+  return { pk: `SITE#${siteId}`, sk: `GOAL#${goalId}` }
+}
+
+/**
+ * Goals of a site
+ */
+export async function listGoals(siteId: string, activeOnly = false): Promise<SiteGoal[]> {
+  const goals = await getRepository().query({
+    pk: `SITE#${siteId}`,
+    beginsWith: 'GOAL#',
+    ...(activeOnly && { where: { isActive: true } }),
+  })
+  return goals as unknown as SiteGoal[]
+}
+
+/**
+ * Conversions of a goal between two dates, newest first
+ */
+export async function getGoalConversions(
+  siteId: string,
+  goalId: string,
+  startDate: Date,
+  endDate: Date,
+  reader: ReportReader = createReportReader(),
+): Promise<RepositoryItem[]> {
+  return reader.query({
+    pk: `SITE#${siteId}#GOAL#${goalId}`,
+    index: 'gsi1',
+    between: [`CONVERSION#${startDate.toISOString()}`, `CONVERSION#${endDate.toISOString()}`],
+    descending: true,
+  })
+}
 
 /**
  * Get goals for a site (with caching)
  */
-export async function getGoalsForSite(siteId: string): Promise<Goal[]> {
-  const cached = getCachedGoals(siteId)
+export async function getGoalsForSite(siteId: string): Promise<SiteGoal[]> {
+  const cached = await getCachedGoals(siteId)
   if (cached) {
     return cached
   }
 
   try {
-    const goals = await Goal.forSite(siteId).active().get()
-    setCachedGoals(siteId, goals)
+    const goals = await listGoals(siteId, true)
+    await setCachedGoals(siteId, goals)
     return goals
   } catch (err) {
     console.error('[Goals] Failed to fetch goals:', err)
@@ -37,7 +100,7 @@ export interface GoalMatchContext {
 /**
  * Check if a goal matches the given context
  */
-export function matchGoal(goal: Goal, context: GoalMatchContext): boolean {
+export function matchGoal(goal: SiteGoal, context: GoalMatchContext): boolean {
   if (!goal.isActive) return false
 
   switch (goal.type) {
@@ -112,13 +175,16 @@ export async function checkAndRecordConversions(
     const timestamp = new Date()
 
     for (const goal of goals) {
-      // Skip if already converted in this session
-      if (hasConverted(siteId, sessionId, goal.id)) continue
-
-      if (matchGoal(goal, context)) {
+      // Skip if already converted in this session (claimed first, so concurrent hits convert once)
+      if (matchGoal(goal, context) && await claimConversion(siteId, sessionId, goal.id)) {
         // Record conversion
-        await Conversion.record({
-          id: generateId(),
+        const id = generateId()
+        await getRepository().put({
+          pk: `SITE#${siteId}`,
+          sk: `CONVERSION#${timestamp.toISOString()}#${id}`,
+          gsi1pk: `SITE#${siteId}#GOAL#${goal.id}`,
+          gsi1sk: `CONVERSION#${timestamp.toISOString()}`,
+          id,
           siteId,
           goalId: goal.id,
           visitorId,
@@ -129,10 +195,14 @@ export async function checkAndRecordConversions(
           utmSource: metadata.utmSource,
           utmMedium: metadata.utmMedium,
           utmCampaign: metadata.utmCampaign,
-          timestamp,
+          timestamp: timestamp.toISOString(),
+          _et: 'Conversion',
+        }).catch(async (err) => {
+          await releaseConversion(siteId, sessionId, goal.id)
+          throw err
         })
 
-        markConverted(siteId, sessionId, goal.id)
+        await addRealtimeCounters(siteId, { 'conversions': 1, [`goal_${goal.id}`]: 1 }, visitorId, timestamp)
         console.log(`[Goals] Conversion recorded: ${goal.name} for session ${sessionId}`)
       }
     }
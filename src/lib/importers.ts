@@ -0,0 +1,182 @@
+/**
+ * Historical data imports
+ *
+ * - Import ledger: PK SITE#{siteId}, SK IMPORT#{date}
+ *
+ * Imported days are written as daily stats records through AnalyticsStore, without a
+ * TTL. Each day is claimed in the ledger before its records are written, so running
+ * the same import again (or two imports at once) never counts a day twice. The ledger
+ * also tags the imported days for the dashboard.
+ */
+
+import type { ImportFile, ImportSource, ImportedDay } from '../utils/importers'
+import { AnalyticsStore } from '../Analytics'
+import { fromUpdateCommand } from '../repository'
+import { getImportFingerprint, parseImportFiles, toImportedStats } from '../utils/importers'
+import { TABLE_NAME } from './dynamodb'
+import { getRepository } from './repository'
+
+const store = new AnalyticsStore({ tableName: TABLE_NAME, useTtl: false })
+
+/**
+ * A ledger entry: an imported day
+ */
+export interface ImportedPeriod {
+  date: string
+  source: ImportSource
+  importId: string
+  fingerprint: string
+  /** `pending` while the day's records are being written */
+  status: 'pending' | 'complete'
+  pageViews: number
+  visitors: number
+  importedAt: string
+}
+
+/**
+ * - `new`: would be imported (dry run)
+ * - `imported`: written by this run
+ * - `unchanged`: already imported from the same data
+ * - `conflict`: already imported from different data - not written again
+ * - `failed`: a write failed, so the day holds part of its records
+ * - `incomplete`: an earlier import of the day failed - not written again
+ */
+export type ImportDayStatus = 'new' | 'imported' | 'unchanged' | 'conflict' | 'failed' | 'incomplete'
+
+export interface ImportDayResult {
+  date: string
+  status: ImportDayStatus
+  pageViews: number
+  visitors: number
+  /** Stats records for the day */
+  records: number
+  error?: string
+}
+
+export interface ImportResult {
+  importId: string
+  siteId: string
+  source: ImportSource
+  dryRun: boolean
+  days: ImportDayResult[]
+  imported: number
+  skipped: number
+  failed: number
+  /** Files that couldn't be read */
+  errors: string[]
+}
+
+/**
+ * Imported days of a site, optionally between two dates (YYYY-MM-DD)
+ */
+export async function getImportedPeriods(siteId: string, startDate?: string, endDate?: string): Promise<ImportedPeriod[]> {
+  return await getRepository().query({
+    pk: `SITE#${siteId}`,
+    between: [`IMPORT#${startDate || '0000-00-00'}`, `IMPORT#${endDate || '9999-99-99'}`],
+    limit: 100000,
+  }) as unknown as ImportedPeriod[]
+}
+
+async function claimDay(siteId: string, source: ImportSource, importId: string, day: ImportedDay, fingerprint: string): Promise<boolean> {
+  return getRepository().put({
+    pk: `SITE#${siteId}`,
+    sk: `IMPORT#${day.date}`,
+    siteId,
+    date: day.date,
+    source,
+    importId,
+    fingerprint,
+    status: 'pending',
+    pageViews: day.totals?.pageViews || 0,
+    visitors: day.totals?.visitors || 0,
+    importedAt: new Date().toISOString(),
+  }, { notExists: true })
+}
+
+async function writeDay(siteId: string, day: ImportedDay): Promise<void> {
+  const stats = toImportedStats(siteId, day)
+  const commands = [
+    store.upsertAggregatedStatsCommand(stats.aggregated),
+    ...stats.pages.map(page => store.upsertPageStatsCommand(page)),
+    ...stats.referrers.map(referrer => store.upsertReferrerStatsCommand(referrer)),
+    ...stats.geo.map(geo => store.upsertGeoStatsCommand(geo)),
+    ...stats.devices.map(device => store.upsertDeviceStatsCommand(device)),
+  ]
+
+  await getRepository().upsertGroup(commands.map(command => fromUpdateCommand(command.input)))
+}
+
+function countRecords(day: ImportedDay): number {
+  return 1 + day.pages.size + day.referrers.size + day.geo.size + day.devices.size
+}
+
+/**
+ * Import the files of an export into a site. With `dryRun`, reports what would be
+ * imported without writing anything.
+ */
+export async function runImport(options: {
+  siteId: string
+  source: ImportSource
+  files: ImportFile[]
+  dryRun?: boolean
+}): Promise<ImportResult> {
+  const { siteId, source, dryRun = false } = options
+  const importId = crypto.randomUUID()
+  const { days, errors } = parseImportFiles(source, options.files)
+
+  const ledger = new Map<string, ImportedPeriod>()
+  if (days.length > 0) {
+    const periods = await getImportedPeriods(siteId, days[0].date, days[days.length - 1].date)
+    for (const period of periods) ledger.set(period.date, period)
+  }
+
+  const results: ImportDayResult[] = []
+  for (const day of days) {
+    const fingerprint = getImportFingerprint(day)
+    const result: ImportDayResult = {
+      date: day.date,
+      status: 'new',
+      pageViews: day.totals?.pageViews || 0,
+      visitors: day.totals?.visitors || 0,
+      records: countRecords(day),
+    }
+    results.push(result)
+
+    const existing = ledger.get(day.date)
+    if (existing) {
+      result.status = existing.status === 'pending'
+        ? 'incomplete'
+        : existing.fingerprint === fingerprint ? 'unchanged' : 'conflict'
+      continue
+    }
+    if (dryRun) continue
+
+    if (!await claimDay(siteId, source, importId, day, fingerprint)) {
+      result.status = 'conflict'
+      continue
+    }
+
+    try {
+      await writeDay(siteId, day)
+      await getRepository().update({ pk: `SITE#${siteId}`, sk: `IMPORT#${day.date}` }, { set: { status: 'complete' } })
+      result.status = 'imported'
+    } catch (err) {
+      // The claim stays pending: writing the day again would double the records that made it
+      console.error(`[Import] Failed to import ${day.date} for ${siteId}:`, err)
+      result.status = 'failed'
+      result.error = err instanceof Error ? err.message : String(err)
+    }
+  }
+
+  return {
+    importId,
+    siteId,
+    source,
+    dryRun,
+    days: results,
+    imported: results.filter(day => day.status === 'imported' || day.status === 'new').length,
+    skipped: results.filter(day => ['unchanged', 'conflict', 'incomplete'].includes(day.status)).length,
+    failed: results.filter(day => day.status === 'failed').length,
+    errors,
+  }
+}
@@ -5,3 +5,20 @@
 export * from './dynamodb'
 export * from './sqs'
 export * from './goals'
+export * from './bots'
+export * from './payloads'
+export * from './ops-metrics'
+export * from './rate-limit'
+export * from './sites'
+export * from './referrers'
+export * from './engagement'
+export * from './ecommerce'
+export * from './importers'
+export * from './dead-letters'
+export * from './repository'
+export * from './reports'
+export * from './aggregation'
+export * from './retention'
+export * from './migrations'
+export * from './counters'
+export * from './archive'
@@ -0,0 +1,16 @@
+/**
+ * Data migrations of the configured repository
+ *
+ * - Checkpoint: PK MIGRATIONS, SK MIGRATION#{version}
+ */
+
+import type { DataMigrationRunnerOptions } from '../../src/index'
+import { DATA_MIGRATIONS, DataMigrationRunner } from '../../src/index'
+import { getRepository } from './repository'
+
+/**
+ * A runner of this version's data migrations over the configured repository
+ */
+export function createDataMigrationRunner(options: DataMigrationRunnerOptions = {}): DataMigrationRunner {
+  return new DataMigrationRunner(getRepository(), DATA_MIGRATIONS, options)
+}
@@ -0,0 +1,73 @@
+/**
+ * Operational metrics
+ *
+ * Daily counters for the health of the ingestion path (throttled requests, ...).
+ * Increments are coalesced in memory and written at most once per
+ * OPS_METRIC_FLUSH_MS per counter, so a flood does not turn into a write flood;
+ * `flushOpsMetrics()` writes what is still pending.
+ */
+
+import { getRepository } from './repository'
+
+const OPS_METRIC_FLUSH_MS = 10 * 1000
+
+interface PendingMetric {
+  metric: string
+  dimension: string
+  date: string
+  count: number
+  lastFlush: number
+  lastSeen: string
+}
+
+const pendingMetrics = new Map<string, PendingMetric>()
+
+/**
+ * Count an operational event
+ *
+ * One item per day, metric and dimension:
+ * - PK: OPSMETRICS#{date}
+ * - SK: {metric}#{dimension}
+ */
+export async function recordOpsMetric(metric: string, dimension = 'all', timestamp: Date = new Date()): Promise<void> {
+  const date = timestamp.toISOString().slice(0, 10)
+  const key = `${date}#${metric}#${dimension}`
+  const pending = pendingMetrics.get(key) || { metric, dimension, date, count: 0, lastFlush: 0, lastSeen: '' }
+  pending.count++
+  pending.lastSeen = timestamp.toISOString()
+  pendingMetrics.set(key, pending)
+
+  if (timestamp.getTime() - pending.lastFlush < OPS_METRIC_FLUSH_MS) return
+
+  pending.lastFlush = timestamp.getTime()
+  await writeMetric(pending)
+}
+
+/**
+ * Write every pending count now. Callers flush before their invocation returns,
+ * as a frozen Lambda environment may never run again.
+ */
+export async function flushOpsMetrics(): Promise<void> {
+  const today = new Date().toISOString().slice(0, 10)
+  for (const [key, pending] of pendingMetrics) {
+    if (pending.count > 0) await writeMetric(pending)
+    // Counters of past days are done once written
+    if (pending.count === 0 && pending.date < today) pendingMetrics.delete(key)
+  }
+}
+
+async function writeMetric(pending: PendingMetric): Promise<void> {
+  const { metric, dimension, date, count, lastSeen } = pending
+  pending.count = 0
+
+  try {
+    await getRepository().increment({ pk: `OPSMETRICS#${date}`, sk: `${metric}#${dimension}` }, { count }, {
+      set: { metric, dimension, date, lastSeen },
+      setIfMissing: { ttl: Math.floor(Date.now() / 1000) + 90 * 24 * 60 * 60 },
+    })
+  } catch (err) {
+    // Keep the count for the next flush
+    pending.count += count
+    console.error('[OpsMetrics] Failed to record metric:', err)
+  }
+}
@@ -0,0 +1,44 @@
+/**
+ * Rejected-payload rollups
+ */
+
+import type { PayloadRejection } from '../utils/payload-schema'
+import { getRepository } from './repository'
+
+/**
+ * Count a rejected payload in the per-site daily rollup
+ *
+ * One item per day, reason and field:
+ * - PK: SITE#{siteId}
+ * - SK: REJECTSTATS#{date}#{reason}#{field}
+ */
+export async function recordRejectedPayload(
+  siteId: string,
+  rejection: PayloadRejection,
+  source: string,
+  timestamp: Date = new Date(),
+): Promise<void> {
+  const date = timestamp.toISOString().slice(0, 10)
+  const field = (rejection.field || '-').slice(0, 50)
+
+  try {
+    await getRepository().increment(
+      { pk: `SITE#${siteId}`, sk: `REJECTSTATS#${date}#${rejection.reason}#${field}` },
+      { rejections: 1 },
+      {
+        set: {
+          siteId,
+          date,
+          reason: rejection.reason,
+          field,
+          message: rejection.message.slice(0, 200),
+          source,
+          lastSeen: timestamp.toISOString(),
+        },
+        setIfMissing: { ttl: Math.floor(Date.now() / 1000) + 90 * 24 * 60 * 60 },
+      },
+    )
+  } catch (err) {
+    console.error('[Payloads] Failed to record rejected payload:', err)
+  }
+}
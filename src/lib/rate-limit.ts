@@ -0,0 +1,81 @@
+/**
+ * Ingestion rate limiting
+ */
+
+import {
+  DynamoDBRateLimitStore,
+  getConfig,
+  getDailySalt,
+  hashVisitorId,
+  MemoryRateLimitStore,
+  type RateLimitRule,
+  type RateLimitStore,
+} from '../../src/index'
+import { jsonResponse } from '../utils/response'
+import { dynamodb, TABLE_NAME } from './dynamodb'
+import { recordOpsMetric } from './ops-metrics'
+
+export type RateLimitScope = 'site' | 'ip' | 'site_creation'
+
+export interface Throttle {
+  scope: RateLimitScope
+  retryAfterMs: number
+}
+
+// Bucket store (lazy initialized from config)
+let rateLimitStore: RateLimitStore | null = null
+
+function getRateLimitStore(): RateLimitStore {
+  if (!rateLimitStore) {
+    rateLimitStore = getConfig().rateLimit.store === 'dynamodb'
+      ? new DynamoDBRateLimitStore(dynamodb, { tableName: TABLE_NAME })
+      : new MemoryRateLimitStore()
+  }
+  return rateLimitStore
+}
+
+function getRule(scope: RateLimitScope): RateLimitRule {
+  const { rateLimit } = getConfig()
+
+  switch (scope) {
+    case 'site':
+      return { ratePerSecond: rateLimit.siteRatePerSecond, burst: rateLimit.siteBurst }
+    case 'ip':
+      return { ratePerSecond: rateLimit.ipRatePerSecond, burst: rateLimit.ipBurst }
+    case 'site_creation':
+      return { ratePerSecond: rateLimit.siteCreationsPerHour / 3600, burst: rateLimit.siteCreationsPerHour }
+  }
+}
+
+/**
+ * Rate-limit key for a client IP (hashed, rotates daily like visitor IDs)
+ */
+export async function getClientRateLimitKey(ip: string): Promise<string> {
+  const hash = await hashVisitorId(ip, '', 'rate-limit', getDailySalt())
+  return hash.slice(0, 32)
+}
+
+/**
+ * Take `cost` tokens from a bucket. Returns the throttle when the limit is
+ * exceeded; throttles are counted in the operational metrics.
+ */
+export async function checkRateLimit(scope: RateLimitScope, key: string, cost = 1): Promise<Throttle | null> {
+  if (!getConfig().rateLimit.enabled) return null
+
+  const result = await getRateLimitStore().consume(`${scope}:${key}`, getRule(scope), cost, Date.now())
+  if (result.allowed) return null
+
+  await recordOpsMetric('throttled', scope)
+  return { scope, retryAfterMs: result.retryAfterMs }
+}
+
+/**
+ * 429 response for a throttled request
+ */
+export function throttledResponse(throttle: Throttle): Response {
+  return jsonResponse(
+    { error: 'Too many requests', scope: throttle.scope, retryAfterMs: throttle.retryAfterMs },
+    429,
+    { 'Retry-After': String(Math.max(1, Math.ceil(throttle.retryAfterMs / 1000))) },
+  )
+}
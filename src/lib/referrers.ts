@@ -0,0 +1,56 @@
+/**
+ * Referrer rules for the ingestion path
+ */
+
+import type { ReferrerRule, ReferrerRuleContext } from '../utils/referrer-rules'
+import { getConfig } from '../../src/index'
+import { normalizeReferrerRules, REFERRER_SPAM_DOMAINS } from '../utils/referrer-rules'
+import { deleteFromCache, getFromCache, setInCache } from '../utils/cache'
+import { getRepository } from './repository'
+import { getSiteRecord } from './sites'
+
+const REFERRER_RULES_CACHE_TTL = 5 * 60 * 1000 // 5 minutes
+
+/**
+ * Get custom referrer rules for a site (with caching)
+ */
+export async function getReferrerRulesForSite(siteId: string): Promise<ReferrerRule[]> {
+  const cacheKey = `referrer-rules:${siteId}`
+  const cached = getFromCache<ReferrerRule[]>(cacheKey)
+  if (cached) {
+    return cached
+  }
+
+  try {
+    const item = await getRepository().get({ pk: `SITE#${siteId}`, sk: 'REFERRER_RULES' })
+
+    const rules = item ? normalizeReferrerRules(item.rules) : []
+    setInCache(cacheKey, rules, REFERRER_RULES_CACHE_TTL)
+    return rules
+  } catch (err) {
+    console.error('[Referrers] Failed to fetch referrer rules:', err)
+    return []
+  }
+}
+
+/**
+ * Drop cached rules after an update
+ */
+export function invalidateReferrerRulesCache(siteId: string): void {
+  deleteFromCache(`referrer-rules:${siteId}`)
+}
+
+/**
+ * Everything resolveReferrer() needs for a site: its domains, custom rules and the spam list.
+ * Pass `rules` to evaluate a different rule set (dry runs).
+ */
+export async function getReferrerRuleContext(siteId: string, rules?: ReferrerRule[]): Promise<ReferrerRuleContext> {
+  const { referrers } = getConfig()
+  const site = referrers.excludeSelfReferrals ? await getSiteRecord(siteId).catch(() => null) : null
+
+  return {
+    siteDomains: site?.domains || [],
+    rules: rules ?? await getReferrerRulesForSite(siteId),
+    spamDomains: referrers.blockSpam ? [...REFERRER_SPAM_DOMAINS, ...referrers.spamDomains] : [],
+  }
+}
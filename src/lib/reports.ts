@@ -0,0 +1,21 @@
+/**
+ * Report reads
+ *
+ * Each report reads through its own `ReportReader`, so all its queries share one
+ * page budget and deadline (`storage.maxReportPages`, `storage.reportTimeoutMs`).
+ * Responses carry `complete: reader.complete`.
+ */
+
+import { getConfig, QueryBudget, ReportReader } from '../../src/index'
+import { getRepository } from './repository'
+
+/**
+ * Reader for one report request
+ */
+export function createReportReader(): ReportReader {
+  const { storage } = getConfig()
+  return new ReportReader(getRepository(), new QueryBudget({
+    maxPages: storage.maxReportPages,
+    timeoutMs: storage.reportTimeoutMs,
+  }))
+}
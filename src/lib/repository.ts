@@ -0,0 +1,55 @@
+/**
+ * Repository the handlers read and write through, selected by `storage.backend`
+ */
+
+import { Database } from 'bun:sqlite'
+import {
+  type AnalyticsRepository,
+  DynamoDBAnalyticsRepository,
+  getConfig,
+  MemoryAnalyticsRepository,
+  SQLiteAnalyticsRepository,
+} from '../../src/index'
+import { dynamodb, TABLE_NAME } from './dynamodb'
+
+// Repository (lazy initialized from config)
+let repository: AnalyticsRepository | null = null
+
+/**
+ * Get or initialize the repository
+ */
+export function getRepository(): AnalyticsRepository {
+  if (!repository) {
+    const { storage } = getConfig()
+    switch (storage.backend) {
+      case 'memory':
+        repository = new MemoryAnalyticsRepository()
+        break
+      case 'sqlite':
+        repository = new SQLiteAnalyticsRepository(openSQLiteDatabase(storage.sqlitePath))
+        break
+      default:
+        repository = new DynamoDBAnalyticsRepository(dynamodb, { tableName: TABLE_NAME })
+    }
+  }
+  return repository
+}
+
+/**
+ * Use another repository, e.g. an in-memory one in tests. `null` goes back to
+ * the configured one.
+ */
+export function setRepository(next: AnalyticsRepository | null): void {
+  repository = next
+}
+
+/**
+ * Open (or create) a SQLite database file for the repository
+ */
+export function openSQLiteDatabase(path: string): Database {
+  const db = new Database(path, { create: true })
+  // Readers don't block the writer
+  db.run('PRAGMA journal_mode = WAL')
+  db.run('PRAGMA busy_timeout = 5000')
+  return db
+}
@@ -0,0 +1,55 @@
+/**
+ * Retention settings and purges of the configured repository
+ *
+ * - Settings: PK SITE#{siteId}, SK RETENTION_SETTINGS
+ */
+
+import type { RetentionPurgeOptions, RetentionSettings } from '../../src/index'
+import { getRetentionCutoff, normalizeRetentionSettings, RetentionPurgeJob } from '../../src/index'
+import { deleteFromCache, getFromCache, setInCache } from '../utils/cache'
+import { getRepository } from './repository'
+
+const RETENTION_SETTINGS_CACHE_TTL = 5 * 60 * 1000 // 5 minutes
+
+/**
+ * Get a site's retention settings (with caching). Sites without any get the defaults.
+ */
+export async function getRetentionSettings(siteId: string): Promise<RetentionSettings> {
+  const cacheKey = `retention-settings:${siteId}`
+  const cached = getFromCache<RetentionSettings>(cacheKey)
+  if (cached) {
+    return cached
+  }
+
+  try {
+    const item = await getRepository().get({ pk: `SITE#${siteId}`, sk: 'RETENTION_SETTINGS' })
+
+    const settings = normalizeRetentionSettings(item)
+    setInCache(cacheKey, settings, RETENTION_SETTINGS_CACHE_TTL)
+    return settings
+  } catch (err) {
+    console.error('[Retention] Failed to fetch retention settings:', err)
+    return normalizeRetentionSettings(null)
+  }
+}
+
+/**
+ * Drop cached settings after an update
+ */
+export function invalidateRetentionSettingsCache(siteId: string): void {
+  deleteFromCache(`retention-settings:${siteId}`)
+}
+
+/**
+ * Start of a site's rollup retention window, or null when it keeps everything
+ */
+export async function getRetainedFrom(siteId: string): Promise<Date | null> {
+  return getRetentionCutoff(await getRetentionSettings(siteId), 'rollups')
+}
+
+/**
+ * A retention purge job over the configured repository
+ */
+export function createRetentionPurgeJob(options: RetentionPurgeOptions = {}): RetentionPurgeJob {
+  return new RetentionPurgeJob(getRepository(), options)
+}
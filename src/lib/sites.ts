@@ -0,0 +1,67 @@
+/**
+ * Site lookups and foreign-hostname rollups for the ingestion path
+ */
+
+import { deleteFromCache, getFromCache, setInCache } from '../utils/cache'
+import { getRepository } from './repository'
+
+const SITE_CACHE_TTL = 60 * 1000 // 1 minute
+
+/**
+ * Get a site record (with caching). Returns null for unknown sites.
+ */
+export async function getSiteRecord(siteId: string): Promise<Record<string, any> | null> {
+  const cacheKey = `site:${siteId}`
+  const cached = getFromCache<{ site: Record<string, any> | null }>(cacheKey)
+  if (cached) {
+    return cached.site
+  }
+
+  const site = await getRepository().get({ pk: 'SITES', sk: `SITE#${siteId}` })
+  setInCache(cacheKey, { site }, SITE_CACHE_TTL)
+  return site
+}
+
+/**
+ * Drop a cached site after it is created or its policy changes
+ */
+export function invalidateSiteCache(siteId: string): void {
+  deleteFromCache(`site:${siteId}`)
+}
+
+/**
+ * Count an event from a hostname outside the site's domains
+ *
+ * One item per day and hostname:
+ * - PK: SITE#{siteId}
+ * - SK: FOREIGNHOST#{date}#{hostname}
+ */
+export async function recordForeignHostname(
+  siteId: string,
+  hostname: string,
+  path: string,
+  action: string,
+  timestamp: Date = new Date(),
+): Promise<void> {
+  const date = timestamp.toISOString().slice(0, 10)
+  const host = hostname.toLowerCase().slice(0, 253)
+
+  try {
+    await getRepository().increment({ pk: `SITE#${siteId}`, sk: `FOREIGNHOST#${date}#${host}` }, { hits: 1 }, {
+      set: {
+        siteId,
+        date,
+        hostname: host,
+        lastPath: path.slice(0, 500),
+        action,
+        lastSeen: timestamp.toISOString(),
+      },
+      setIfMissing: {
+        firstSeen: timestamp.toISOString(),
+        ttl: Math.floor(Date.now() / 1000) + 365 * 24 * 60 * 60,
+      },
+    })
+  } catch (err) {
+    console.error('[Sites] Failed to record foreign hostname:', err)
+  }
+}
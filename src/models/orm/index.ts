@@ -39,7 +39,7 @@
 // Note: Using a direct path for reliable resolution
 import { Model, configureModels } from '../../../../bun-query-builder/packages/bun-query-builder/src/dynamodb/model'
 import { DynamoDBClient, createClient } from '../../../../bun-query-builder/packages/bun-query-builder/src/dynamodb/client'
-import type { DeviceType } from '../../types'
+import type { DeviceType, JourneyStep } from '../../types'
 
 // ============================================================================
 // Configuration
@@ -110,6 +110,7 @@ export class PageView extends Model {
   sessionId!: string
   path!: string
   hostname!: string
+  foreign?: boolean
   title?: string
   referrer?: string
   referrerSource?: string
@@ -156,13 +157,13 @@ export class PageView extends Model {
   }
 
   /**
-   * Create a page view with proper key generation
+   * Build the stored item (keys included) for a page view
    */
-  static async record(data: Omit<PageViewData, 'pk' | 'sk' | 'gsi1pk' | 'gsi1sk'>): Promise<PageView> {
+  static toItem(data: Omit<PageViewData, 'pk' | 'sk' | 'gsi1pk' | 'gsi1sk'>): Record<string, any> {
     const timestamp = data.timestamp instanceof Date ? data.timestamp : new Date(data.timestamp || Date.now())
     const dateStr = timestamp.toISOString().slice(0, 10)
 
-    const item = {
+    return {
       ...data,
       pk: `SITE#${data.siteId}`,
       sk: `PAGEVIEW#${timestamp.toISOString()}#${data.id}`,
@@ -171,6 +172,13 @@ export class PageView extends Model {
       timestamp: timestamp.toISOString(),
       _et: 'PageView',
     }
+  }
+
+  /**
+   * Create a page view with proper key generation
+   */
+  static async record(data: Omit<PageViewData, 'pk' | 'sk' | 'gsi1pk' | 'gsi1sk'>): Promise<PageView> {
+    const item = PageView.toItem(data)
 
     const client = createClient({
       region: process.env.AWS_REGION || 'us-east-1',
@@ -192,6 +200,7 @@ interface PageViewData {
   sessionId: string
   path: string
   hostname: string
+  foreign?: boolean
   title?: string
   referrer?: string
   referrerSource?: string
@@ -330,6 +339,7 @@ export class Session extends Model {
   eventCount!: number
   isBounce!: boolean
   duration!: number
+  engagedTime?: number
   startedAt!: Date | string
   endedAt!: Date | string
 
@@ -361,10 +371,10 @@ export class Session extends Model {
   }
 
   /**
-   * Create or update a session
+   * Build the stored item (keys included) for a session
    */
-  static async upsert(data: SessionData): Promise<Session> {
-    const item = {
+  static toItem(data: SessionData): Record<string, any> {
+    return {
       ...data,
       pk: `SITE#${data.siteId}`,
       sk: `SESSION#${data.id}`,
@@ -372,6 +382,13 @@ export class Session extends Model {
       endedAt: data.endedAt instanceof Date ? data.endedAt.toISOString() : data.endedAt,
       _et: 'Session',
     }
+  }
+
+  /**
+   * Create or update a session
+   */
+  static async upsert(data: SessionData): Promise<Session> {
+    const item = Session.toItem(data)
 
     const client = createClient({
       region: process.env.AWS_REGION || 'us-east-1',
@@ -445,8 +462,11 @@ interface SessionData {
   eventCount: number
   isBounce: boolean
   duration: number
+  engagedTime?: number
   startedAt: Date | string
   endedAt: Date | string
+  journey?: JourneyStep[]
+  version?: number
 }
 
 class SessionQueryBuilder {
@@ -550,9 +570,9 @@ export class CustomEvent extends Model {
   }
 
   /**
-   * Record a custom event
+   * Build the stored item (keys included) for a custom event
    */
-  static async record(data: EventData): Promise<CustomEvent> {
+  static toItem(data: EventData): Record<string, any> {
     const timestamp = data.timestamp instanceof Date ? data.timestamp : new Date(data.timestamp || Date.now())
     const dateStr = timestamp.toISOString().slice(0, 10)
 
@@ -571,6 +591,15 @@ export class CustomEvent extends Model {
       item.properties = JSON.stringify(data.properties)
     }
 
+    return item
+  }
+
+  /**
+   * Record a custom event
+   */
+  static async record(data: EventData): Promise<CustomEvent> {
+    const item = CustomEvent.toItem(data)
+
     const client = createClient({
       region: process.env.AWS_REGION || 'us-east-1',
     })
@@ -814,13 +843,13 @@ export class HeatmapClick extends Model {
   }
 
   /**
-   * Record a heatmap click
+   * Build the stored item (keys included) for a heatmap click
    */
-  static async record(data: HeatmapClickData): Promise<HeatmapClick> {
+  static toItem(data: HeatmapClickData): Record<string, any> {
     const timestamp = data.timestamp instanceof Date ? data.timestamp : new Date(data.timestamp || Date.now())
     const encodedPath = encodeURIComponent(data.path)
 
-    const item = {
+    return {
       ...data,
       pk: `SITE#${data.siteId}`,
       sk: `HMCLICK#${timestamp.toISOString()}#${data.id}`,
@@ -829,6 +858,13 @@ export class HeatmapClick extends Model {
       timestamp: timestamp.toISOString(),
       _et: 'HeatmapClick',
     }
+  }
+
+  /**
+   * Record a heatmap click
+   */
+  static async record(data: HeatmapClickData): Promise<HeatmapClick> {
+    const item = HeatmapClick.toItem(data)
 
     const client = createClient({
       region: process.env.AWS_REGION || 'us-east-1',
@@ -1051,13 +1087,13 @@ export class HeatmapMovement extends Model {
   }
 
   /**
-   * Record a movement batch
+   * Build the stored item (keys included) for a movement batch
    */
-  static async record(data: HeatmapMovementData): Promise<HeatmapMovement> {
+  static toItem(data: HeatmapMovementData): Record<string, any> {
     const timestamp = data.timestamp instanceof Date ? data.timestamp : new Date(data.timestamp || Date.now())
     const encodedPath = encodeURIComponent(data.path)
 
-    const item = {
+    return {
       ...data,
       pk: `SITE#${data.siteId}`,
       sk: `HMMOVE#${data.sessionId}#${encodedPath}#${timestamp.toISOString()}`,
@@ -1066,6 +1102,13 @@ export class HeatmapMovement extends Model {
       timestamp: timestamp.toISOString(),
       _et: 'HeatmapMovement',
     }
+  }
+
+  /**
+   * Record a movement batch
+   */
+  static async record(data: HeatmapMovementData): Promise<HeatmapMovement> {
+    const item = HeatmapMovement.toItem(data)
 
     const client = createClient({
       region: process.env.AWS_REGION || 'us-east-1',
@@ -0,0 +1,175 @@
+/**
+ * Paged Queries
+ *
+ * Reads query results page by page within a budget: a number of pages and a
+ * deadline, shared by all queries of a report. When the budget runs out before
+ * the last page, reading stops and the budget is marked `truncated`, so a report
+ * can say its numbers are incomplete instead of silently undercounting.
+ *
+ * With `scale.partitionSharding` enabled, a site's partition is read together
+ * with its shard partitions.
+ */
+
+import type { AnalyticsRepository, ItemQuery, RepositoryItem } from './repository'
+import { getConfig } from './config'
+import { compareItemKeys, getEventQuery, getPageViewQuery, getSessionQuery } from './repository'
+import { getAllShardKeys } from './sqs-buffering'
+
+// ============================================================================
+// Types
+// ============================================================================
+
+export interface QueryBudgetOptions {
+  /** Most pages to read (default 200) */
+  maxPages?: number
+  /** Milliseconds to read for, from when the budget is created (default: no deadline) */
+  timeoutMs?: number
+  /** Items per page */
+  pageSize?: number
+}
+
+// ============================================================================
+// Budget
+// ============================================================================
+
+/**
+ * Pages and time left for reading. Share one between the queries of a report.
+ */
+export class QueryBudget {
+  readonly maxPages: number
+  readonly deadline: number
+  readonly pageSize?: number
+  pagesRead = 0
+  /** Whether a query stopped before its last page */
+  truncated = false
+  private readonly now: () => number
+
+  constructor(options: QueryBudgetOptions = {}, now: () => number = Date.now) {
+    this.maxPages = options.maxPages ?? 200
+    this.deadline = options.timeoutMs !== undefined ? now() + options.timeoutMs : Infinity
+    this.pageSize = options.pageSize
+    this.now = now
+  }
+
+  /**
+   * Take a page from the budget. Returns false (and marks the budget truncated)
+   * when no pages or time are left.
+   */
+  take(): boolean {
+    if (this.pagesRead >= this.maxPages || this.now() >= this.deadline) {
+      this.truncated = true
+      return false
+    }
+    this.pagesRead++
+    return true
+  }
+}
+
+// ============================================================================
+// Iteration
+// ============================================================================
+
+/**
+ * Pages of a query's results (of each query, in turn), while the budget lasts.
+ * `where` and `limit` apply as in `query`.
+ */
+export async function* pageQuery(
+  repository: AnalyticsRepository,
+  queries: ItemQuery | ItemQuery[],
+  budget: QueryBudget = new QueryBudget(),
+): AsyncGenerator<RepositoryItem[]> {
+  for (const query of Array.isArray(queries) ? queries : [queries]) {
+    let cursor: string | undefined
+    let read = 0
+
+    do {
+      if (!budget.take()) return
+
+      const page = await repository.queryPage({ ...query, limit: undefined }, { cursor, pageSize: budget.pageSize })
+      cursor = page.cursor
+
+      let items = page.items
+      if (query.limit !== undefined) {
+        items = items.slice(0, query.limit - read)
+        if (read + items.length >= query.limit) cursor = undefined
+      }
+      read += items.length
+
+      if (items.length > 0) yield items
+    } while (cursor)
+  }
+}
+
+/**
+ * All results of a query (fanned out over shard partitions), while the budget
+ * lasts. Results of several partitions are merged in sort key order.
+ */
+export async function readQuery(
+  repository: AnalyticsRepository,
+  query: ItemQuery,
+  budget: QueryBudget = new QueryBudget(),
+): Promise<RepositoryItem[]> {
+  const queries = getPartitionQueries(query)
+  const items: RepositoryItem[] = []
+  for await (const page of pageQuery(repository, queries, budget)) {
+    items.push(...page)
+  }
+
+  if (queries.length === 1) return items
+
+  const skName = query.index ? `${query.index}sk` : 'sk'
+  items.sort((a, b) => compareItemKeys(a, b, skName) * (query.descending ? -1 : 1))
+  return query.limit !== undefined ? items.slice(0, query.limit) : items
+}
+
+/**
+ * A query for each partition holding a site's items: the site partition, plus its
+ * shards when `scale.partitionSharding` applies to the site
+ */
+export function getPartitionQueries(query: ItemQuery): ItemQuery[] {
+  const siteId = !query.index && query.pk.match(/^SITE#([^#]+)$/)?.[1]
+  const sharding = getConfig().scale.partitionSharding
+  if (!siteId || !sharding.enabled) return [query]
+  if (sharding.enabledSiteIds.length > 0 && !sharding.enabledSiteIds.includes(siteId)) return [query]
+
+  return [query, ...getAllShardKeys(siteId, sharding.shardCount).map(pk => ({ ...query, pk }))]
+}
+
+// ============================================================================
+// Report Reader
+// ============================================================================
+
+/**
+ * The reads of one report, sharing a budget. `complete` turns false once any of
+ * them stops early.
+ */
+export class ReportReader {
+  readonly budget: QueryBudget
+  private readonly repository: AnalyticsRepository
+
+  constructor(repository: AnalyticsRepository, budget: QueryBudget = new QueryBudget()) {
+    this.repository = repository
+    this.budget = budget
+  }
+
+  /** Whether every read got all its results */
+  get complete(): boolean {
+    return !this.budget.truncated
+  }
+
+  query(query: ItemQuery): Promise<RepositoryItem[]> {
+    return readQuery(this.repository, query, this.budget)
+  }
+
+  getPageViews(siteId: string, start: Date, end?: Date): Promise<RepositoryItem[]> {
+    return this.query(getPageViewQuery(siteId, start, end))
+  }
+
+  getSessions(siteId: string, start: Date, end: Date): Promise<RepositoryItem[]> {
+    return this.query(getSessionQuery(siteId, start, end))
+  }
+
+  getEvents(siteId: string, start: Date, end?: Date): Promise<RepositoryItem[]> {
+    return this.query(getEventQuery(siteId, start, end))
+  }
+}
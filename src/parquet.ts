@@ -0,0 +1,588 @@
+/**
+ * Parquet
+ *
+ * A small Parquet writer and reader in plain TypeScript, enough for archived
+ * items: flat rows of optional boolean, int64, double, string and JSON columns,
+ * PLAIN-encoded into one data page per column and row group, gzip compressed.
+ * Files read back with the writer's own subset; other tools (DuckDB, Spark,
+ * Athena, pandas) read them as standard Parquet.
+ */
+
+import { gunzipSync, gzipSync } from 'node:zlib'
+
+// ============================================================================
+// Types
+// ============================================================================
+
+/**
+ * Column types. JSON columns hold objects, arrays and columns of mixed types.
+ */
+export type ParquetColumnType = 'boolean' | 'int64' | 'double' | 'string' | 'json'
+
+export interface ParquetColumn {
+  name: string
+  type: ParquetColumnType
+}
+
+export interface ParquetWriteOptions {
+  /** Columns to write (default: inferred from the rows) */
+  columns?: ParquetColumn[]
+  /** Page compression (default: 'gzip') */
+  compression?: 'gzip' | 'none'
+  /** Rows per row group (default: 10000) */
+  rowGroupSize?: number
+}
+
+// Parquet's Thrift enums
+const PHYSICAL_TYPES: Record<ParquetColumnType, number> = { boolean: 0, int64: 2, double: 5, string: 6, json: 6 }
+const CONVERTED_UTF8 = 0
+const CONVERTED_JSON = 19
+const REPETITION_OPTIONAL = 1
+const ENCODING_PLAIN = 0
+const ENCODING_RLE = 3
+const CODEC_UNCOMPRESSED = 0
+const CODEC_GZIP = 2
+const PAGE_DATA = 0
+
+const MAGIC = new TextEncoder().encode('PAR1')
+const DEFAULT_ROW_GROUP_SIZE = 10_000
+
+// ============================================================================
+// Thrift Compact Protocol
+// ============================================================================
+
+// Compact protocol field types
+const T_TRUE = 1
+const T_FALSE = 2
+const T_I32 = 5
+const T_I64 = 6
+const T_DOUBLE = 7
+const T_BINARY = 8
+const T_LIST = 9
+const T_STRUCT = 12
+
+type ThriftStruct = Record<number, any>
+
+function zigzag(value: number): number {
+  return value >= 0 ? value * 2 : -value * 2 - 1
+}
+
+function unzigzag(value: number): number {
+  return value % 2 === 0 ? value / 2 : -(value + 1) / 2
+}
+
+/**
+ * Growable byte buffer
+ */
+class ByteWriter {
+  private buffer = new Uint8Array(1024)
+  length = 0
+
+  byte(value: number): void {
+    this.reserve(1)
+    this.buffer[this.length++] = value
+  }
+
+  bytes(value: Uint8Array): void {
+    this.reserve(value.length)
+    this.buffer.set(value, this.length)
+    this.length += value.length
+  }
+
+  /** Unsigned LEB128 (safe integers) */
+  varint(value: number): void {
+    while (value > 0x7F) {
+      this.byte((value % 128) | 0x80)
+      value = Math.floor(value / 128)
+    }
+    this.byte(value)
+  }
+
+  int32LE(value: number): void {
+    this.reserve(4)
+    new DataView(this.buffer.buffer).setInt32(this.length, value, true)
+    this.length += 4
+  }
+
+  toBytes(): Uint8Array {
+    return this.buffer.slice(0, this.length)
+  }
+
+  private reserve(size: number): void {
+    if (this.length + size <= this.buffer.length) return
+    const grown = new Uint8Array(Math.max(this.buffer.length * 2, this.length + size))
+    grown.set(this.buffer.subarray(0, this.length))
+    this.buffer = grown
+  }
+}
+
+/**
+ * Writes Thrift structs in the compact protocol
+ */
+class ThriftWriter {
+  readonly out = new ByteWriter()
+  private lastFieldIds: number[] = [0]
+
+  i32(id: number, value: number): void {
+    this.field(id, T_I32)
+    this.out.varint(zigzag(value))
+  }
+
+  i64(id: number, value: number): void {
+    this.field(id, T_I64)
+    this.out.varint(zigzag(value))
+  }
+
+  string(id: number, value: string): void {
+    this.field(id, T_BINARY)
+    this.binaryValue(new TextEncoder().encode(value))
+  }
+
+  struct(id: number, write: () => void): void {
+    this.field(id, T_STRUCT)
+    this.structValue(write)
+  }
+
+  structList(id: number, count: number, write: (index: number) => void): void {
+    this.listHeader(id, T_STRUCT, count)
+    for (let i = 0; i < count; i++) this.structValue(() => write(i))
+  }
+
+  i32List(id: number, values: number[]): void {
+    this.listHeader(id, T_I32, values.length)
+    for (const value of values) this.out.varint(zigzag(value))
+  }
+
+  stringList(id: number, values: string[]): void {
+    this.listHeader(id, T_BINARY, values.length)
+    for (const value of values) this.binaryValue(new TextEncoder().encode(value))
+  }
+
+  /** End of the top-level struct */
+  stop(): Uint8Array {
+    this.out.byte(0)
+    return this.out.toBytes()
+  }
+
+  private structValue(write: () => void): void {
+    this.lastFieldIds.push(0)
+    write()
+    this.out.byte(0)
+    this.lastFieldIds.pop()
+  }
+
+  private binaryValue(value: Uint8Array): void {
+    this.out.varint(value.length)
+    this.out.bytes(value)
+  }
+
+  private listHeader(id: number, elementType: number, count: number): void {
+    this.field(id, T_LIST)
+    if (count < 15) {
+      this.out.byte((count << 4) | elementType)
+    }
+    else {
+      this.out.byte(0xF0 | elementType)
+      this.out.varint(count)
+    }
+  }
+
+  private field(id: number, type: number): void {
+    const last = this.lastFieldIds.length - 1
+    const delta = id - this.lastFieldIds[last]
+    if (delta > 0 && delta <= 15) {
+      this.out.byte((delta << 4) | type)
+    }
+    else {
+      this.out.byte(type)
+      this.out.varint(zigzag(id))
+    }
+    this.lastFieldIds[last] = id
+  }
+}
+
+/**
+ * Reads compact-protocol structs into objects keyed by field ID
+ */
+class ThriftReader {
+  constructor(private readonly data: Uint8Array, public offset: number) {}
+
+  struct(): ThriftStruct {
+    const fields: ThriftStruct = {}
+    let lastId = 0
+    for (;;) {
+      const header = this.data[this.offset++]
+      if (header === 0) return fields
+      const delta = header >> 4
+      const id = delta ? lastId + delta : unzigzag(this.varint())
+      fields[id] = this.value(header & 0x0F)
+      lastId = id
+    }
+  }
+
+  private value(type: number): any {
+    switch (type) {
+      case T_TRUE:
+        return true
+      case T_FALSE:
+        return false
+      case 3:
+        return this.data[this.offset++]
+      case 4:
+      case T_I32:
+      case T_I64:
+        return unzigzag(this.varint())
+      case T_DOUBLE: {
+        const value = new DataView(this.data.buffer, this.data.byteOffset + this.offset, 8).getFloat64(0, true)
+        this.offset += 8
+        return value
+      }
+      case T_BINARY: {
+        const length = this.varint()
+        const value = this.data.subarray(this.offset, this.offset + length)
+        this.offset += length
+        return value
+      }
+      case T_LIST:
+      case 10: {
+        const header = this.data[this.offset++]
+        const count = (header >> 4) === 15 ? this.varint() : header >> 4
+        const elementType = header & 0x0F
+        const items: any[] = []
+        for (let i = 0; i < count; i++) {
+          // Booleans in lists are a byte each
+          items.push(elementType === T_TRUE || elementType === T_FALSE ? this.data[this.offset++] === 1 : this.value(elementType))
+        }
+        return items
+      }
+      case T_STRUCT:
+        return this.struct()
+      default:
+        throw new Error(`Unsupported Thrift type ${type}`)
+    }
+  }
+
+  private varint(): number {
+    return readVarint(this.data, this)
+  }
+}
+
+/**
+ * Unsigned LEB128 at `position.offset`, which is moved past it
+ */
+function readVarint(data: Uint8Array, position: { offset: number }): number {
+  let value = 0
+  let multiplier = 1
+  for (;;) {
+    const byte = data[position.offset++]
+    value += (byte & 0x7F) * multiplier
+    if (byte < 0x80) return value
+    multiplier *= 128
+  }
+}
+
+// ============================================================================
+// Writer
+// ============================================================================
+
+function getValueType(value: unknown): ParquetColumnType {
+  if (typeof value === 'boolean') return 'boolean'
+  if (typeof value === 'number') return Number.isSafeInteger(value) ? 'int64' : 'double'
+  if (typeof value === 'string' || value instanceof Date) return 'string'
+  return 'json'
+}
+
+/**
+ * Columns of the rows, in the order they first appear. Integer columns with
+ * fractional values become doubles; other mixes become JSON.
+ */
+export function inferParquetColumns(rows: Array<Record<string, unknown>>): ParquetColumn[] {
+  const types = new Map<string, ParquetColumnType>()
+  for (const row of rows) {
+    for (const [name, value] of Object.entries(row)) {
+      if (value === null || value === undefined) {
+        continue
+      }
+      const type = getValueType(value)
+      const current = types.get(name)
+      if (!current || current === type) {
+        types.set(name, type)
+      }
+      else {
+        const numeric = (current === 'int64' || current === 'double') && (type === 'int64' || type === 'double')
+        types.set(name, numeric ? 'double' : 'json')
+      }
+    }
+  }
+  return [...types].map(([name, type]) => ({ name, type }))
+}
+
+/**
+ * Definition levels (1: value present) as an RLE/bit-packed hybrid of bit width 1
+ */
+function encodeDefinitionLevels(defined: boolean[]): Uint8Array {
+  const out = new ByteWriter()
+  let i = 0
+  while (i < defined.length) {
+    let run = 1
+    while (i + run < defined.length && defined[i + run] === defined[i]) run++
+    out.varint(run * 2)
+    out.byte(defined[i] ? 1 : 0)
+    i += run
+  }
+  return out.toBytes()
+}
+
+function encodeValues(type: ParquetColumnType, values: unknown[]): Uint8Array {
+  const out = new ByteWriter()
+  switch (type) {
+    case 'boolean': {
+      const bits = new Uint8Array(Math.ceil(values.length / 8))
+      values.forEach((value, i) => {
+        if (value) bits[i >> 3] |= 1 << (i & 7)
+      })
+      out.bytes(bits)
+      break
+    }
+    case 'int64':
+    case 'double': {
+      const bytes = new Uint8Array(values.length * 8)
+      const view = new DataView(bytes.buffer)
+      values.forEach((value, i) => {
+        if (type === 'int64') view.setBigInt64(i * 8, BigInt(value as number), true)
+        else view.setFloat64(i * 8, value as number, true)
+      })
+      out.bytes(bytes)
+      break
+    }
+    default: {
+      const encoder = new TextEncoder()
+      for (const value of values) {
+        const text = type === 'json' ? JSON.stringify(value) : value instanceof Date ? value.toISOString() : String(value)
+        const bytes = encoder.encode(text)
+        out.int32LE(bytes.length)
+        out.bytes(bytes)
+      }
+    }
+  }
+  return out.toBytes()
+}
+
+interface ColumnChunk {
+  column: ParquetColumn
+  offset: number
+  uncompressedSize: number
+  compressedSize: number
+}
+
+/**
+ * Rows as a Parquet file
+ */
+export function writeParquet(rows: Array<Record<string, unknown>>, options: ParquetWriteOptions = {}): Uint8Array {
+  const columns = options.columns ?? inferParquetColumns(rows)
+  const compression = options.compression ?? 'gzip'
+  const rowGroupSize = options.rowGroupSize ?? DEFAULT_ROW_GROUP_SIZE
+
+  const file = new ByteWriter()
+  file.bytes(MAGIC)
+
+  const rowGroups: Array<{ rows: number, chunks: ColumnChunk[] }> = []
+  for (let start = 0; start < rows.length; start += rowGroupSize) {
+    const groupRows = rows.slice(start, start + rowGroupSize)
+    const chunks: ColumnChunk[] = []
+
+    for (const column of columns) {
+      const values = groupRows.map(row => row[column.name])
+      const defined = values.map(value => value !== null && value !== undefined)
+      const levels = encodeDefinitionLevels(defined)
+
+      const page = new ByteWriter()
+      page.int32LE(levels.length)
+      page.bytes(levels)
+      page.bytes(encodeValues(column.type, values.filter((_, i) => defined[i])))
+      const body = page.toBytes()
+      const compressed = compression === 'gzip' ? gzipSync(body) : body
+
+      const header = new ThriftWriter()
+      header.i32(1, PAGE_DATA)
+      header.i32(2, body.length)
+      header.i32(3, compressed.length)
+      header.struct(5, () => {
+        header.i32(1, groupRows.length)
+        header.i32(2, ENCODING_PLAIN)
+        header.i32(3, ENCODING_RLE)
+        header.i32(4, ENCODING_RLE)
+      })
+      const headerBytes = header.stop()
+
+      chunks.push({
+        column,
+        offset: file.length,
+        uncompressedSize: headerBytes.length + body.length,
+        compressedSize: headerBytes.length + compressed.length,
+      })
+      file.bytes(headerBytes)
+      file.bytes(compressed)
+    }
+    rowGroups.push({ rows: groupRows.length, chunks })
+  }
+
+  const metadata = new ThriftWriter()
+  metadata.i32(1, 1)
+  metadata.structList(2, columns.length + 1, (index) => {
+    if (index === 0) {
+      metadata.string(4, 'schema')
+      metadata.i32(5, columns.length)
+      return
+    }
+    const column = columns[index - 1]
+    metadata.i32(1, PHYSICAL_TYPES[column.type])
+    metadata.i32(3, REPETITION_OPTIONAL)
+    metadata.string(4, column.name)
+    if (column.type === 'string') metadata.i32(6, CONVERTED_UTF8)
+    if (column.type === 'json') metadata.i32(6, CONVERTED_JSON)
+  })
+  metadata.i64(3, rows.length)
+  metadata.structList(4, rowGroups.length, (index) => {
+    const group = rowGroups[index]
+    metadata.structList(1, group.chunks.length, (chunkIndex) => {
+      const chunk = group.chunks[chunkIndex]
+      metadata.i64(2, chunk.offset)
+      metadata.struct(3, () => {
+        metadata.i32(1, PHYSICAL_TYPES[chunk.column.type])
+        metadata.i32List(2, [ENCODING_PLAIN, ENCODING_RLE])
+        metadata.stringList(3, [chunk.column.name])
+        metadata.i32(4, compression === 'gzip' ? CODEC_GZIP : CODEC_UNCOMPRESSED)
+        metadata.i64(5, group.rows)
+        metadata.i64(6, chunk.uncompressedSize)
+        metadata.i64(7, chunk.compressedSize)
+        metadata.i64(9, chunk.offset)
+      })
+    })
+    metadata.i64(2, group.chunks.reduce((sum, chunk) => sum + chunk.uncompressedSize, 0))
+    metadata.i64(3, group.rows)
+  })
+  metadata.string(6, 'ts-analytics')
+  const footer = metadata.stop()
+
+  file.bytes(footer)
+  file.int32LE(footer.length)
+  file.bytes(MAGIC)
+  return file.toBytes()
+}
+
+// ============================================================================
+// Reader
+// ============================================================================
+
+function decodeDefinitionLevels(data: Uint8Array, count: number): boolean[] {
+  const position = { offset: 0 }
+  const levels: boolean[] = []
+  while (levels.length < count) {
+    const header = readVarint(data, position)
+    if (header & 1) {
+      // Bit-packed groups of 8
+      const groups = header >> 1
+      for (let i = 0; i < groups * 8; i++) levels.push(((data[position.offset + (i >> 3)] >> (i & 7)) & 1) === 1)
+      position.offset += groups
+    }
+    else {
+      const value = data[position.offset++] === 1
+      for (let i = 0; i < header >> 1; i++) levels.push(value)
+    }
+  }
+  return levels.slice(0, count)
+}
+
+function decodeValues(data: Uint8Array, physicalType: number, convertedType: number | undefined, count: number): unknown[] {
+  const view = new DataView(data.buffer, data.byteOffset, data.byteLength)
+  const decoder = new TextDecoder()
+  const values: unknown[] = []
+  let offset = 0
+
+  for (let i = 0; i < count; i++) {
+    switch (physicalType) {
+      case 0:
+        values.push(((data[i >> 3] >> (i & 7)) & 1) === 1)
+        break
+      case 1:
+        values.push(view.getInt32(offset, true))
+        offset += 4
+        break
+      case 2:
+        values.push(Number(view.getBigInt64(offset, true)))
+        offset += 8
+        break
+      case 4:
+        values.push(view.getFloat32(offset, true))
+        offset += 4
+        break
+      case 5:
+        values.push(view.getFloat64(offset, true))
+        offset += 8
+        break
+      case 6: {
+        const length = view.getInt32(offset, true)
+        const text = decoder.decode(data.subarray(offset + 4, offset + 4 + length))
+        values.push(convertedType === CONVERTED_JSON ? JSON.parse(text) : text)
+        offset += 4 + length
+        break
+      }
+      default:
+        throw new Error(`Unsupported Parquet type ${physicalType}`)
+    }
+  }
+  return values
+}
+
+/**
+ * Rows of a Parquet file written by `writeParquet` (flat, optional columns,
+ * PLAIN-encoded v1 data pages, uncompressed or gzip)
+ */
+export function readParquet(data: Uint8Array): Array<Record<string, unknown>> {
+  const decoder = new TextDecoder()
+  if (decoder.decode(data.subarray(0, 4)) !== 'PAR1' || decoder.decode(data.subarray(data.length - 4)) !== 'PAR1') {
+    throw new Error('Not a Parquet file')
+  }
+
+  const footerLength = new DataView(data.buffer, data.byteOffset + data.length - 8, 4).getInt32(0, true)
+  const metadata = new ThriftReader(data, data.length - 8 - footerLength).struct()
+  const schema = (metadata[2] as ThriftStruct[]).slice(1).map(element => ({
+    name: decoder.decode(element[4]),
+    convertedType: element[6] as number | undefined,
+  }))
+
+  const rows: Array<Record<string, unknown>> = []
+  for (const group of metadata[4] as ThriftStruct[]) {
+    const groupRows: Array<Record<string, unknown>> = Array.from({ length: group[3] }, () => ({}))
+
+    ;(group[1] as ThriftStruct[]).forEach((chunk, index) => {
+      const meta = chunk[3] as ThriftStruct
+      const { name, convertedType } = schema[index]
+      let offset = meta[9] as number
+      let row = 0
+
+      while (row < groupRows.length) {
+        const reader = new ThriftReader(data, offset)
+        const header = reader.struct()
+        const compressed = data.subarray(reader.offset, reader.offset + header[3])
+        offset = reader.offset + header[3]
+        if (header[1] !== PAGE_DATA) continue
+
+        const page = meta[4] === CODEC_GZIP ? new Uint8Array(gunzipSync(compressed)) : compressed
+        const pageValues = (header[5] as ThriftStruct)[1] as number
+        const levelsLength = new DataView(page.buffer, page.byteOffset, 4).getInt32(0, true)
+        const defined = decodeDefinitionLevels(page.subarray(4, 4 + levelsLength), pageValues)
+        const values = decodeValues(page.subarray(4 + levelsLength), meta[1], convertedType, defined.filter(Boolean).length)
+
+        let next = 0
+        for (const isDefined of defined) {
+          if (isDefined) groupRows[row][name] = values[next++]
+          row++
+        }
+      }
+    })
+    rows.push(...groupRows)
+  }
+  return rows
+}
@@ -0,0 +1,400 @@
+/**
+ * Rollup Query Planning
+ *
+ * Splits a time range into the periods pre-computed rollups can answer, preferring
+ * months over days over hours, and leaves the rest (partial periods at the edges,
+ * the current period, periods never aggregated) to raw events.
+ *
+ * A period counts as covered only when its `STATS#` rollup exists and it isn't
+ * marked dirty, i.e. no late events arrived after it was aggregated. Stats, pages
+ * and referrers then come from the `STATS#`, `PAGESTATS#` and `REFSTATS#` rollups
+ * of the covered periods plus raw events for the rest. Unique visitors come from
+ * merging the rollups' visitor sketches with the raw visitors, so a visitor seen in
+ * several periods counts once (within the sketch error, see utils/hyperloglog).
+ * Rollups without a sketch, such as imported days, add their own counts.
+ *
+ * A range is cut at the start of the site's retention window, so rollups (and raw
+ * events) past it aren't read while they wait to expire.
+ */
+
+import type { ReportReader } from './paged-query'
+import type { RepositoryItem } from './repository'
+import type { AggregationPeriod } from './types'
+import { AnalyticsStore } from './Analytics'
+import { getConfig } from './config'
+import { HyperLogLog } from './utils/hyperloglog'
+
+// ============================================================================
+// Types
+// ============================================================================
+
+export type PlanSource = AggregationPeriod | 'raw'
+
+export interface PlanSegment {
+  /** Rollup period answering the segment, or 'raw' for raw events */
+  source: PlanSource
+  /** First millisecond of the segment */
+  start: Date
+  /** First millisecond after the segment */
+  end: Date
+  /** Period starts (as in rollup keys) of the rollups answering the segment */
+  periodStarts: string[]
+}
+
+export interface QueryPlan {
+  start: Date
+  /** Last millisecond of the range */
+  end: Date
+  /** Consecutive segments covering the range */
+  segments: PlanSegment[]
+}
+
+/**
+ * Whether a rollup can answer a whole period
+ */
+export type RollupCoverage = (period: AggregationPeriod, periodStart: string) => boolean
+
+export interface PlannedTotals {
+  pageViews: number
+  visitors: number
+  sessions: number
+  bounces: number
+  /** Summed session duration (milliseconds) */
+  duration: number
+  events: number
+}
+
+export interface PlannedPage {
+  views: number
+  visitors: number
+  entries: number
+}
+
+export interface PlannedReferrer {
+  visitors: number
+  views: number
+}
+
+const PLAN_PERIODS: AggregationPeriod[] = ['month', 'day', 'hour']
+const PERIOD_KEYS: Record<AggregationPeriod, string> = { hour: 'HOUR', day: 'DAY', month: 'MONTH' }
+
+// ============================================================================
+// Planning
+// ============================================================================
+
+/**
+ * Start and end (first millisecond after) of the UTC period containing `date`
+ */
+export function getPeriodBounds(date: Date, period: AggregationPeriod): { start: Date, end: Date } {
+  const start = new Date(date)
+  const end = new Date(date)
+
+  switch (period) {
+    case 'hour':
+      start.setUTCMinutes(0, 0, 0)
+      end.setTime(start.getTime())
+      end.setUTCHours(end.getUTCHours() + 1)
+      break
+    case 'day':
+      start.setUTCHours(0, 0, 0, 0)
+      end.setTime(start.getTime())
+      end.setUTCDate(end.getUTCDate() + 1)
+      break
+    case 'month':
+      start.setUTCDate(1)
+      start.setUTCHours(0, 0, 0, 0)
+      end.setTime(start.getTime())
+      end.setUTCMonth(end.getUTCMonth() + 1)
+      break
+  }
+
+  return { start, end }
+}
+
+/**
+ * Plan a range (both ends inclusive): whole periods covered by rollups go to the
+ * largest such period, everything else to raw events
+ */
+export function planRollupQuery(start: Date, end: Date, isCovered: RollupCoverage): QueryPlan {
+  const segments: PlanSegment[] = []
+
+  const add = (source: PlanSource, from: Date, to: Date, periodStart?: string) => {
+    const last = segments[segments.length - 1]
+    if (last && last.source === source && last.end.getTime() === from.getTime()) {
+      last.end = to
+      if (periodStart) last.periodStarts.push(periodStart)
+      return
+    }
+    segments.push({ source, start: from, end: to, periodStarts: periodStart ? [periodStart] : [] })
+  }
+
+  const cover = (from: Date, to: Date, level: number) => {
+    const period = PLAN_PERIODS[level]
+    if (!period) {
+      add('raw', from, to)
+      return
+    }
+
+    let cursor = from
+    while (cursor < to) {
+      const bounds = getPeriodBounds(cursor, period)
+      const until = bounds.end < to ? bounds.end : to
+      const periodStart = AnalyticsStore.getPeriodStart(bounds.start, period)
+
+      if (bounds.start >= from && bounds.end <= to && isCovered(period, periodStart))
+        add(period, bounds.start, bounds.end, periodStart)
+      else
+        cover(cursor, until, level + 1)
+
+      cursor = until
+    }
+  }
+
+  cover(start, new Date(end.getTime() + 1), 0)
+  return { start, end, segments }
+}
+
+/**
+ * The raw segments of a plan
+ */
+export function getRawSegments(plan: QueryPlan): PlanSegment[] {
+  return plan.segments.filter(segment => segment.source === 'raw')
+}
+
+/**
+ * Summary of which sources answered a plan, for debug output
+ */
+export function describeQueryPlan(plan: QueryPlan): Array<{ source: PlanSource, start: string, end: string, periods?: number }> {
+  return plan.segments.map(segment => ({
+    source: segment.source,
+    start: segment.start.toISOString(),
+    end: new Date(segment.end.getTime() - 1).toISOString(),
+    ...(segment.source !== 'raw' && { periods: segment.periodStarts.length }),
+  }))
+}
+
+// ============================================================================
+// Planned Reads
+// ============================================================================
+
+/**
+ * Plan a range against the site's stats rollups. Returns the plan with the
+ * rollups it uses, keyed `{PERIOD}#{periodStart}`. With `retainedFrom` the range
+ * starts no earlier than that.
+ */
+export async function getRollupPlan(
+  siteId: string,
+  startDate: Date,
+  endDate: Date,
+  reader: ReportReader,
+  retainedFrom?: Date | null,
+): Promise<{ plan: QueryPlan, rollups: Map<string, RepositoryItem> }> {
+  const rollups = new Map<string, RepositoryItem>()
+  if (retainedFrom && retainedFrom > startDate) startDate = retainedFrom
+
+  if (getConfig().aggregation.readRollups) {
+    const dirty = new Set((await reader.query({ pk: `SITE#${siteId}`, beginsWith: 'DIRTY#' })).map(item => item.sk.slice('DIRTY#'.length)))
+
+    for (const period of Object.keys(PERIOD_KEYS) as AggregationPeriod[]) {
+      const prefix = `STATS#${PERIOD_KEYS[period]}#`
+      const items = await reader.query({
+        pk: `SITE#${siteId}`,
+        between: [`${prefix}${AnalyticsStore.getPeriodStart(startDate, period)}`, `${prefix}${AnalyticsStore.getPeriodStart(endDate, period)}`],
+      })
+      for (const item of items) {
+        const key = item.sk.slice('STATS#'.length)
+        if (!dirty.has(key)) rollups.set(key, item)
+      }
+    }
+  }
+
+  const plan = planRollupQuery(startDate, endDate, (period, periodStart) => rollups.has(`${PERIOD_KEYS[period]}#${periodStart}`))
+  return { plan, rollups }
+}
+
+/**
+ * Rollup items under `prefix` (e.g. 'PAGESTATS') for the rollup periods of a plan
+ */
+async function getPlannedRollupItems(siteId: string, prefix: string, plan: QueryPlan, reader: ReportReader): Promise<RepositoryItem[]> {
+  const results: RepositoryItem[] = []
+
+  for (const period of Object.keys(PERIOD_KEYS) as AggregationPeriod[]) {
+    const periodStarts = new Set(plan.segments.filter(segment => segment.source === period).flatMap(segment => segment.periodStarts))
+    if (periodStarts.size === 0) continue
+
+    const sorted = [...periodStarts].sort()
+    const keyPrefix = `${prefix}#${PERIOD_KEYS[period]}#`
+    const items = await reader.query({
+      pk: `SITE#${siteId}`,
+      between: [`${keyPrefix}${sorted[0]}`, `${keyPrefix}${sorted[sorted.length - 1]}#\uffff`],
+    })
+    results.push(...items.filter(item => periodStarts.has(item.sk.slice(keyPrefix.length).split('#')[0])))
+  }
+
+  return results
+}
+
+/**
+ * Raw pageviews of a plan's raw segments
+ */
+async function getRawPageViews(siteId: string, plan: QueryPlan, reader: ReportReader): Promise<RepositoryItem[]> {
+  const pageviews: RepositoryItem[] = []
+  for (const segment of getRawSegments(plan)) {
+    pageviews.push(...await reader.getPageViews(siteId, segment.start, new Date(segment.end.getTime() - 1)))
+  }
+  return pageviews
+}
+
+/**
+ * Raw sessions started in a plan's raw segments (read in one pass, since sessions
+ * aren't keyed by time)
+ */
+async function getRawSessions(siteId: string, plan: QueryPlan, reader: ReportReader): Promise<RepositoryItem[]> {
+  const segments = getRawSegments(plan)
+  if (segments.length === 0) return []
+
+  const sessions = await reader.getSessions(siteId, segments[0].start, new Date(segments[segments.length - 1].end.getTime() - 1))
+  if (segments.length === 1) return sessions
+
+  return sessions.filter((session) => {
+    const startedAt = new Date(session.startedAt).getTime()
+    return segments.some(segment => startedAt >= segment.start.getTime() && startedAt < segment.end.getTime())
+  })
+}
+
+/**
+ * Distinct visitors over rollups and raw events
+ */
+class VisitorCounter {
+  private sketch: HyperLogLog | null = null
+  private readonly raw = new Set<string>()
+  private unsketched = 0
+
+  addRollup(count: number | undefined, encodedSketch: string | undefined): void {
+    if (!encodedSketch) {
+      this.unsketched += count || 0
+      return
+    }
+    const sketch = HyperLogLog.decode(encodedSketch)
+    this.sketch = this.sketch ? this.sketch.merge(sketch) : sketch
+  }
+
+  addVisitor(visitorId: string): void {
+    this.raw.add(visitorId)
+  }
+
+  count(): number {
+    if (!this.sketch) return this.raw.size + this.unsketched
+
+    const merged = new HyperLogLog(this.sketch.precision).merge(this.sketch)
+    for (const visitorId of this.raw) merged.add(visitorId)
+    return merged.count() + this.unsketched
+  }
+}
+
+/**
+ * Site totals over a plan
+ */
+export async function getPlannedTotals(siteId: string, plan: QueryPlan, rollups: Map<string, RepositoryItem>, reader: ReportReader): Promise<PlannedTotals> {
+  const totals: PlannedTotals = { pageViews: 0, visitors: 0, sessions: 0, bounces: 0, duration: 0, events: 0 }
+  const visitors = new VisitorCounter()
+
+  for (const segment of plan.segments) {
+    if (segment.source === 'raw') continue
+    for (const periodStart of segment.periodStarts) {
+      const rollup = rollups.get(`${PERIOD_KEYS[segment.source]}#${periodStart}`)
+      if (!rollup) continue
+      totals.pageViews += rollup.pageViews || 0
+      visitors.addRollup(rollup.uniqueVisitors, rollup.visitorSketch)
+      totals.sessions += rollup.sessions || 0
+      totals.bounces += rollup.bounces || 0
+      totals.duration += rollup.totalTimeOnSite || 0
+      totals.events += rollup.events || 0
+    }
+  }
+
+  const pageviews = await getRawPageViews(siteId, plan, reader)
+  const sessions = await getRawSessions(siteId, plan, reader)
+  totals.pageViews += pageviews.length
+  for (const pv of pageviews) visitors.addVisitor(pv.visitorId)
+  totals.visitors = visitors.count()
+  totals.sessions += sessions.length
+  totals.bounces += sessions.filter(s => s.isBounce).length
+  totals.duration += sessions.reduce((sum, s) => sum + (s.duration || 0), 0)
+  totals.events += sessions.reduce((sum, s) => sum + (s.eventCount || 0), 0)
+
+  return totals
+}
+
+/**
+ * Per-path views, visitors and entries over a plan, with the hostname of the
+ * first raw pageview (null when rollups answered everything)
+ */
+export async function getPlannedPages(
+  siteId: string,
+  plan: QueryPlan,
+  reader: ReportReader,
+): Promise<{ pages: Map<string, PlannedPage>, hostname: string | null }> {
+  const pages = new Map<string, PlannedPage>()
+  const visitors = new Map<string, VisitorCounter>()
+  const page = (path: string) => {
+    if (!pages.has(path)) {
+      pages.set(path, { views: 0, visitors: 0, entries: 0 })
+      visitors.set(path, new VisitorCounter())
+    }
+    return pages.get(path)!
+  }
+
+  for (const rollup of await getPlannedRollupItems(siteId, 'PAGESTATS', plan, reader)) {
+    const stats = page(rollup.path)
+    stats.views += rollup.pageViews || 0
+    stats.entries += rollup.entries || 0
+    visitors.get(rollup.path)!.addRollup(rollup.uniqueVisitors, rollup.visitorSketch)
+  }
+
+  const pageviews = await getRawPageViews(siteId, plan, reader)
+  for (const pv of pageviews) {
+    const stats = page(pv.path)
+    stats.views++
+    if (pv.isUnique) stats.entries++
+    visitors.get(pv.path)!.addVisitor(pv.visitorId)
+  }
+  for (const [path, stats] of pages) {
+    stats.visitors = visitors.get(path)!.count()
+  }
+
+  return { pages, hostname: pageviews.length > 0 ? pageviews[0].hostname : null }
+}
+
+/**
+ * Per-source visitors and views over a plan
+ */
+export async function getPlannedReferrers(siteId: string, plan: QueryPlan, reader: ReportReader): Promise<Map<string, PlannedReferrer>> {
+  const referrers = new Map<string, PlannedReferrer>()
+  const visitors = new Map<string, VisitorCounter>()
+  const referrer = (source: string) => {
+    if (!referrers.has(source)) {
+      referrers.set(source, { visitors: 0, views: 0 })
+      visitors.set(source, new VisitorCounter())
+    }
+    return referrers.get(source)!
+  }
+
+  for (const rollup of await getPlannedRollupItems(siteId, 'REFSTATS', plan, reader)) {
+    const source = rollup.source || 'direct'
+    referrer(source).views += rollup.pageViews || 0
+    visitors.get(source)!.addRollup(rollup.visitors, rollup.visitorSketch)
+  }
+
+  const sessions = await getRawSessions(siteId, plan, reader)
+  for (const session of sessions) {
+    const source = session.referrerSource || 'direct'
+    referrer(source).views += session.pageViewCount || 1
+    visitors.get(source)!.addVisitor(session.visitorId)
+  }
+  for (const [source, stats] of referrers) {
+    stats.visitors = visitors.get(source)!.count()
+  }
+
+  return referrers
+}
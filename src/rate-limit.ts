@@ -0,0 +1,220 @@
+/**
+ * Rate Limiting
+ *
+ * Token-bucket rate limiting for the ingestion path. Bucket state lives in a
+ * pluggable store: in memory by default (per instance), or in DynamoDB when
+ * several instances must share the same limits.
+ */
+
+import type { AttributeValue } from './batching'
+import { getConfig } from './config'
+
+// ============================================================================
+// Types
+// ============================================================================
+
+export interface RateLimitRule {
+  /** Tokens added back per second (sustained rate) */
+  ratePerSecond: number
+  /** Bucket capacity (largest burst) */
+  burst: number
+}
+
+export interface BucketState {
+  tokens: number
+  /** Epoch milliseconds of the last refill */
+  updatedAt: number
+}
+
+export interface RateLimitResult {
+  allowed: boolean
+  /** Tokens left in the bucket */
+  remaining: number
+  /** Milliseconds until the request would be allowed (0 when allowed) */
+  retryAfterMs: number
+}
+
+/**
+ * Storage for bucket state
+ */
+export interface RateLimitStore {
+  /** Take `cost` tokens from the bucket at `key` if it has enough */
+  consume: (key: string, rule: RateLimitRule, cost: number, now: number) => Promise<RateLimitResult>
+}
+
+// ============================================================================
+// Token Bucket
+// ============================================================================
+
+/**
+ * Refill a bucket for the time elapsed since its last update.
+ * Unknown buckets start full.
+ */
+export function refillBucket(state: BucketState | null | undefined, rule: RateLimitRule, now: number): BucketState {
+  if (!state) {
+    return { tokens: rule.burst, updatedAt: now }
+  }
+
+  const elapsedSeconds = Math.max(0, now - state.updatedAt) / 1000
+  return {
+    tokens: Math.min(rule.burst, state.tokens + elapsedSeconds * rule.ratePerSecond),
+    updatedAt: now,
+  }
+}
+
+/**
+ * Try to take `cost` tokens. Rejected requests leave the bucket untouched.
+ */
+export function takeTokens(
+  state: BucketState | null | undefined,
+  rule: RateLimitRule,
+  cost: number,
+  now: number,
+): { state: BucketState, result: RateLimitResult } {
+  const refilled = refillBucket(state, rule, now)
+
+  if (refilled.tokens >= cost) {
+    const tokens = refilled.tokens - cost
+    return {
+      state: { tokens, updatedAt: now },
+      result: { allowed: true, remaining: Math.floor(tokens), retryAfterMs: 0 },
+    }
+  }
+
+  // A cost above the burst can never be met, wait for a full bucket
+  const missing = Math.min(cost, rule.burst) - refilled.tokens
+  return {
+    state: refilled,
+    result: {
+      allowed: false,
+      remaining: Math.floor(refilled.tokens),
+      retryAfterMs: rule.ratePerSecond > 0 ? Math.ceil((missing / rule.ratePerSecond) * 1000) : 0,
+    },
+  }
+}
+
+// ============================================================================
+// In-Memory Store
+// ============================================================================
+
+/**
+ * Bucket state held in memory. Limits apply per process.
+ */
+export class MemoryRateLimitStore implements RateLimitStore {
+  private buckets = new Map<string, BucketState>()
+  private readonly maxBuckets: number
+
+  constructor(options: { maxBuckets?: number } = {}) {
+    this.maxBuckets = options.maxBuckets ?? 10_000
+  }
+
+  async consume(key: string, rule: RateLimitRule, cost: number, now: number): Promise<RateLimitResult> {
+    const { state, result } = takeTokens(this.buckets.get(key), rule, cost, now)
+
+    // Re-insert so the least recently used bucket is evicted first
+    this.buckets.delete(key)
+    this.buckets.set(key, state)
+    if (this.buckets.size > this.maxBuckets) {
+      const oldest = this.buckets.keys().next().value
+      if (oldest !== undefined) this.buckets.delete(oldest)
+    }
+
+    return result
+  }
+
+  /**
+   * Drop all buckets
+   */
+  clear(): void {
+    this.buckets.clear()
+  }
+}
+
+// ============================================================================
+// DynamoDB Store
+// ============================================================================
+
+export interface DynamoDBRateLimitClient {
+  getItem: (input: {
+    TableName: string
+    Key: Record<string, AttributeValue>
+    ConsistentRead?: boolean
+  }) => Promise<{ Item?: Record<string, AttributeValue> }>
+  putItem: (input: {
+    TableName: string
+    Item: Record<string, AttributeValue>
+    ConditionExpression?: string
+    ExpressionAttributeValues?: Record<string, AttributeValue>
+  }) => Promise<unknown>
+}
+
+export interface DynamoDBRateLimitStoreOptions {
+  /** Table to store buckets in (defaults to the configured table name) */
+  tableName?: string
+  /** Attempts when another instance updates the same bucket concurrently */
+  maxAttempts?: number
+}
+
+/**
+ * Bucket state shared through DynamoDB
+ *
+ * Updates use optimistic concurrency on `updatedAt`. Buckets expire through TTL
+ * once they would have refilled completely. Requests are allowed if the bucket
+ * cannot be updated, so a storage problem never blocks ingestion.
+ *
+ * Key layout:
+ * - PK: RATELIMIT#{key}
+ * - SK: BUCKET
+ */
+export class DynamoDBRateLimitStore implements RateLimitStore {
+  private readonly client: DynamoDBRateLimitClient
+  private readonly tableName: string
+  private readonly maxAttempts: number
+
+  constructor(client: DynamoDBRateLimitClient, options: DynamoDBRateLimitStoreOptions = {}) {
+    this.client = client
+    this.tableName = options.tableName ?? getConfig().table.tableName
+    this.maxAttempts = options.maxAttempts ?? 3
+  }
+
+  async consume(key: string, rule: RateLimitRule, cost: number, now: number): Promise<RateLimitResult> {
+    const itemKey = { pk: { S: `RATELIMIT#${key}` }, sk: { S: 'BUCKET' } }
+
+    for (let attempt = 0; attempt < this.maxAttempts; attempt++) {
+      try {
+        const existing = await this.client.getItem({ TableName: this.tableName, Key: itemKey, ConsistentRead: true })
+        const previous = existing.Item
+          ? { tokens: Number(existing.Item.tokens?.N ?? 0), updatedAt: Number(existing.Item.updatedAt?.N ?? 0) }
+          : null
+
+        const { state, result } = takeTokens(previous, rule, cost, now)
+        if (!result.allowed) {
+          return result
+        }
+
+        const refillSeconds = rule.ratePerSecond > 0 ? rule.burst / rule.ratePerSecond : 3600
+        await this.client.putItem({
+          TableName: this.tableName,
+          Item: {
+            ...itemKey,
+            tokens: { N: String(state.tokens) },
+            updatedAt: { N: String(state.updatedAt) },
+            ttl: { N: String(Math.ceil(now / 1000 + refillSeconds) + 60) },
+          },
+          ConditionExpression: previous ? 'updatedAt = :prev' : 'attribute_not_exists(pk)',
+          ExpressionAttributeValues: previous ? { ':prev': { N: String(previous.updatedAt) } } : undefined,
+        })
+
+        return result
+      }
+      catch (error) {
+        if (!(error instanceof Error) || error.name !== 'ConditionalCheckFailedException') {
+          console.error('[RateLimit] Bucket update failed:', error)
+          break
+        }
+      }
+    }
+
+    return { allowed: true, remaining: 0, retryAfterMs: 0 }
+  }
+}
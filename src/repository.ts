@@ -0,0 +1,856 @@
+/**
+ * Analytics Repository
+ *
+ * The storage interface the API handlers read and write through. Items follow the
+ * single-table layout (`pk`/`sk`, optional `gsi1pk`/`gsi1sk` and `gsi2pk`/`gsi2sk`)
+ * but are plain objects, so a backend only has to honour the operations below.
+ * DynamoDB is the default backend; the in-memory one keeps data per process, for
+ * tests and local development.
+ */
+
+import type { AttributeValue, BatchItem } from './batching'
+import { EventBatchQueue } from './batching'
+import { getConfig } from './config'
+import { marshal, unmarshal } from './dynamodb'
+
+// ============================================================================
+// Types
+// ============================================================================
+
+export interface ItemKey {
+  pk: string
+  sk: string
+}
+
+/**
+ * A stored item: its keys and attributes. Dates are stored as ISO strings and
+ * string sets as arrays.
+ */
+export interface RepositoryItem extends ItemKey {
+  [attribute: string]: any
+}
+
+/**
+ * Items of one partition, optionally narrowed by sort key and attributes
+ */
+export interface ItemQuery {
+  /** Partition key, or the index partition key with `index` */
+  pk: string
+  /** Query a secondary index (`gsi1pk`/`gsi1sk` or `gsi2pk`/`gsi2sk`) */
+  index?: 'gsi1' | 'gsi2'
+  /** Sort keys from the first to the second, both included */
+  between?: [string, string]
+  /** Sort keys starting with a prefix */
+  beginsWith?: string
+  /** Attributes items must equal, or lie within `{ between: [low, high] }` */
+  where?: Record<string, unknown>
+  /** Highest sort key first */
+  descending?: boolean
+  /** Most items to return, counted after `where` */
+  limit?: number
+}
+
+/**
+ * Changes to an item. Missing items are created.
+ */
+export interface ItemUpdate {
+  set?: Record<string, unknown>
+  /** Set only attributes the item doesn't have yet */
+  setIfMissing?: Record<string, unknown>
+  /** Add to numbers (missing ones count as 0). `a.b` adds to key `b` of map `a`. */
+  increment?: Record<string, number>
+  /** Add strings to string sets */
+  addToSet?: Record<string, string[]>
+  remove?: string[]
+}
+
+/**
+ * Condition for a write: the item must not exist, must have the `matches`
+ * attributes, or must hold numbers `below` the given ones (a missing number
+ * counts as below). With several, any one is enough.
+ */
+export interface WriteCondition {
+  notExists?: boolean
+  matches?: Record<string, unknown>
+  below?: Record<string, number>
+}
+
+/**
+ * One page of query results. Without a cursor there are no more pages.
+ */
+export interface QueryPage {
+  items: RepositoryItem[]
+  cursor?: string
+}
+
+export interface QueryPageOptions {
+  /** Cursor of the previous page */
+  cursor?: string
+  /** Items to read for the page (before `where`; the page may hold fewer) */
+  pageSize?: number
+}
+
+export interface ScanPageOptions extends QueryPageOptions {
+  /** Only items whose sort key starts with this */
+  beginsWith?: string
+}
+
+export interface AnalyticsRepository {
+  /** An item by key, or null */
+  get: (key: ItemKey) => Promise<RepositoryItem | null>
+  /** The items that exist of several keys, in no particular order */
+  batchGet: (keys: ItemKey[]) => Promise<RepositoryItem[]>
+  /** All results of a query (up to its limit) */
+  query: (query: ItemQuery) => Promise<RepositoryItem[]>
+  /** One page of a query's results; see `pageQuery` for reading them all within a budget */
+  queryPage: (query: ItemQuery, options?: QueryPageOptions) => Promise<QueryPage>
+  /** One page of the items of every partition, e.g. for data migrations */
+  scanPage: (options?: ScanPageOptions) => Promise<QueryPage>
+  /** Write an item. Returns false when the condition doesn't hold. */
+  put: (item: RepositoryItem, condition?: WriteCondition) => Promise<boolean>
+  /** Write many items. Returns the ones that couldn't be written. */
+  putBatch: (items: RepositoryItem[]) => Promise<RepositoryItem[]>
+  /** Update or create an item. Returns the updated item, or null when the condition doesn't hold. */
+  update: (key: ItemKey, update: ItemUpdate, condition?: WriteCondition) => Promise<RepositoryItem | null>
+  /** Add to counters of an item (creating it), and apply other changes. Returns the new counter values. */
+  increment: (key: ItemKey, counters: Record<string, number>, update?: Omit<ItemUpdate, 'increment'>) => Promise<Record<string, number>>
+  /** Update or create several items, e.g. the rollups of one period */
+  upsertGroup: (updates: Array<{ key: ItemKey, update: ItemUpdate }>) => Promise<void>
+  delete: (key: ItemKey) => Promise<void>
+
+  /** Pageviews of a site between two times (open-ended without `end`), oldest first */
+  getPageViews: (siteId: string, start: Date, end?: Date) => Promise<RepositoryItem[]>
+  /** Sessions of a site started between two times */
+  getSessions: (siteId: string, start: Date, end: Date) => Promise<RepositoryItem[]>
+  /** Custom events of a site between two times, oldest first */
+  getEvents: (siteId: string, start: Date, end?: Date) => Promise<RepositoryItem[]>
+}
+
+/** Error name of a conditional write whose condition doesn't hold */
+const CONDITIONAL_CHECK_FAILED = 'ConditionalCheckFailedException'
+
+/** Items per page of the in-process backends */
+export const DEFAULT_PAGE_SIZE = 1000
+
+// ============================================================================
+// Shared Helpers
+// ============================================================================
+
+/**
+ * Sort key bounds of `PREFIX#{ISO timestamp}#...` items between two times.
+ * Without `end` the range is open-ended.
+ */
+export function getTimeRangeKeys(prefix: string, start: Date, end?: Date): [string, string] {
+  return [`${prefix}#${start.toISOString()}`, end ? `${prefix}#${end.toISOString()}#\uffff` : `${prefix}#\uffff`]
+}
+
+/**
+ * Query of a site's pageviews between two times (open-ended without `end`)
+ */
+export function getPageViewQuery(siteId: string, start: Date, end?: Date): ItemQuery {
+  return { pk: `SITE#${siteId}`, between: getTimeRangeKeys('PAGEVIEW', start, end) }
+}
+
+/**
+ * Query of a site's sessions started between two times
+ */
+export function getSessionQuery(siteId: string, start: Date, end: Date): ItemQuery {
+  return {
+    pk: `SITE#${siteId}`,
+    beginsWith: 'SESSION#',
+    where: { startedAt: { between: [start.toISOString(), end.toISOString()] } },
+  }
+}
+
+/**
+ * Query of a site's custom events between two times (open-ended without `end`)
+ */
+export function getEventQuery(siteId: string, start: Date, end?: Date): ItemQuery {
+  return { pk: `SITE#${siteId}`, between: getTimeRangeKeys('EVENT', start, end) }
+}
+
+/**
+ * Copy a value the way it is stored: dates become ISO strings and undefined
+ * attributes are dropped
+ */
+export function toStoredValue<T>(value: T): T {
+  if (value instanceof Date) return value.toISOString() as T
+  if (Array.isArray(value)) return value.map(toStoredValue) as T
+  if (value && typeof value === 'object') {
+    const result: Record<string, unknown> = {}
+    for (const [key, entry] of Object.entries(value)) {
+      if (entry !== undefined) result[key] = toStoredValue(entry)
+    }
+    return result as T
+  }
+  return value
+}
+
+/**
+ * Turn an UpdateItem input built for DynamoDB (e.g. by AnalyticsStore) into a
+ * repository update, so command builders work with every backend. Handles
+ * `SET a = :v`, `SET a = if_not_exists(a, :zero) + :v`, `SET a = if_not_exists(a, :v)`,
+ * `ADD` and `REMOVE`.
+ */
+export function fromUpdateCommand(input: {
+  Key: Record<string, unknown>
+  UpdateExpression: string
+  ExpressionAttributeNames?: Record<string, string>
+  ExpressionAttributeValues?: Record<string, unknown>
+}): { key: ItemKey, update: ItemUpdate } {
+  const key = unmarshal(input.Key as Record<string, Record<string, unknown>>) as unknown as ItemKey
+  const values = unmarshal((input.ExpressionAttributeValues ?? {}) as Record<string, Record<string, unknown>>)
+  const name = (token: string) => token.split('.').map(part => input.ExpressionAttributeNames?.[part] ?? part).join('.')
+  const value = (token: string) => {
+    if (!(token in values)) throw new Error(`Unknown expression value ${token}`)
+    return values[token]
+  }
+
+  const update: Required<ItemUpdate> = { set: {}, setIfMissing: {}, increment: {}, addToSet: {}, remove: [] }
+  const clauses = input.UpdateExpression.trim().split(/\s*\b(SET|ADD|REMOVE)\s+/).slice(1)
+  for (let i = 0; i < clauses.length; i += 2) {
+    const action = clauses[i]
+    for (const part of clauses[i + 1].split(/,(?![^(]*\))/).map(part => part.trim()).filter(Boolean)) {
+      if (action === 'REMOVE') {
+        update.remove.push(name(part))
+        continue
+      }
+      if (action === 'ADD') {
+        const [path, token] = part.split(/\s+/)
+        const added = value(token)
+        if (typeof added === 'number') update.increment[name(path)] = added
+        else update.addToSet[name(path)] = added as string[]
+        continue
+      }
+
+      const [path, expression] = part.split(/\s*=\s*/)
+      const counter = expression.match(/^if_not_exists\(\s*([^,\s]+)\s*,\s*(:\w+)\s*\)\s*\+\s*(:\w+)$/)
+      const missing = expression.match(/^if_not_exists\(\s*([^,\s]+)\s*,\s*(:\w+)\s*\)$/)
+      if (counter && counter[1] === path && value(counter[2]) === 0) {
+        update.increment[name(path)] = value(counter[3]) as number
+      }
+      else if (missing && missing[1] === path) {
+        update.setIfMissing[name(path)] = value(missing[2])
+      }
+      else if (/^:\w+$/.test(expression)) {
+        update.set[name(path)] = value(expression)
+      }
+      else {
+        throw new Error(`Unsupported update expression: ${part}`)
+      }
+    }
+  }
+
+  return { key: { pk: key.pk, sk: key.sk }, update }
+}
+
+/**
+ * Order of items in query results: by sort key (of the index), then by the item's keys
+ */
+export function compareItemKeys(a: Record<string, any>, b: Record<string, any>, skName: string): number {
+  for (const name of [skName, 'pk', 'sk']) {
+    if (a[name] < b[name]) return -1
+    if (a[name] > b[name]) return 1
+  }
+  return 0
+}
+
+/**
+ * Cursor of the page after an item
+ */
+export function encodeCursor(item: Record<string, any>, skName: string): string {
+  return JSON.stringify({ [skName]: item[skName], pk: item.pk, sk: item.sk })
+}
+
+export function decodeCursor(cursor: string): Record<string, string> {
+  return JSON.parse(cursor)
+}
+
+/**
+ * Apply an update to an item in place
+ */
+export function applyUpdate(item: RepositoryItem, update: ItemUpdate): RepositoryItem {
+  for (const [field, value] of Object.entries(toStoredValue(update.set ?? {}))) {
+    item[field] = value
+  }
+  for (const [field, value] of Object.entries(toStoredValue(update.setIfMissing ?? {}))) {
+    if (item[field] === undefined) item[field] = value
+  }
+  for (const [path, amount] of Object.entries(update.increment ?? {})) {
+    const [field, member] = splitPath(path)
+    if (member === undefined) {
+      item[field] = (Number(item[field]) || 0) + amount
+    }
+    else {
+      const map = item[field] && typeof item[field] === 'object' ? item[field] : {}
+      map[member] = (Number(map[member]) || 0) + amount
+      item[field] = map
+    }
+  }
+  for (const [field, values] of Object.entries(update.addToSet ?? {})) {
+    const current: string[] = Array.isArray(item[field]) ? item[field] : []
+    item[field] = [...new Set([...current, ...values])]
+  }
+  for (const field of update.remove ?? []) {
+    delete item[field]
+  }
+
+  return item
+}
+
+export function matchesWhere(item: Record<string, any>, where: Record<string, unknown> | undefined): boolean {
+  if (!where) return true
+  return Object.entries(where).every(([field, expected]) => {
+    const value = item[field]
+    if (isBetween(expected)) {
+      const [low, high] = expected.between
+      return value !== undefined && value !== null && value >= (low as any) && value <= (high as any)
+    }
+    return value === toStoredValue(expected)
+  })
+}
+
+export function isBetween(value: unknown): value is { between: [unknown, unknown] } {
+  return !!value && typeof value === 'object' && Array.isArray((value as { between?: unknown }).between)
+}
+
+/** Whether each number of an item is missing or below its limit */
+function isBelow(item: Record<string, any> | undefined, limits: Record<string, number>): boolean {
+  return Object.entries(limits).every(([field, limit]) => {
+    const value = item?.[field]
+    return value === undefined || value === null || value < limit
+  })
+}
+
+export function conditionHolds(item: Record<string, any> | undefined, condition: WriteCondition | undefined): boolean {
+  if (!condition) return true
+  if (condition.notExists && !item) return true
+  if (condition.below && isBelow(item, condition.below)) return true
+  if (!condition.matches) return false
+  return !!item && matchesWhere(item, condition.matches)
+}
+
+// ============================================================================
+// In-Memory Repository
+// ============================================================================
+
+/**
+ * Items held in memory. Data lives as long as the process.
+ */
+export class MemoryAnalyticsRepository implements AnalyticsRepository {
+  private partitions = new Map<string, Map<string, RepositoryItem>>()
+
+  async get(key: ItemKey): Promise<RepositoryItem | null> {
+    const item = this.partitions.get(key.pk)?.get(key.sk)
+    return item ? structuredClone(item) : null
+  }
+
+  async batchGet(keys: ItemKey[]): Promise<RepositoryItem[]> {
+    const items: RepositoryItem[] = []
+    for (const key of keys) {
+      const item = await this.get(key)
+      if (item) items.push(item)
+    }
+    return items
+  }
+
+  async query(query: ItemQuery): Promise<RepositoryItem[]> {
+    const pkName = query.index ? `${query.index}pk` : 'pk'
+    const skName = query.index ? `${query.index}sk` : 'sk'
+    const candidates = query.index
+      ? [...this.partitions.values()].flatMap(partition => [...partition.values()]).filter(item => item[pkName] === query.pk)
+      : [...this.partitions.get(query.pk)?.values() ?? []]
+
+    const items = candidates
+      .filter((item) => {
+        const sk = item[skName]
+        if (query.between && (typeof sk !== 'string' || sk < query.between[0] || sk > query.between[1])) return false
+        if (query.beginsWith !== undefined && (typeof sk !== 'string' || !sk.startsWith(query.beginsWith))) return false
+        return matchesWhere(item, query.where)
+      })
+      .sort((a, b) => compareItemKeys(a, b, skName))
+
+    if (query.descending) items.reverse()
+    return structuredClone(query.limit !== undefined ? items.slice(0, query.limit) : items)
+  }
+
+  async queryPage(query: ItemQuery, options: QueryPageOptions = {}): Promise<QueryPage> {
+    const skName = query.index ? `${query.index}sk` : 'sk'
+    const after = options.cursor ? decodeCursor(options.cursor) : undefined
+    const direction = query.descending ? -1 : 1
+    const remaining = (await this.query({ ...query, limit: undefined }))
+      .filter(item => !after || compareItemKeys(item, after, skName) * direction > 0)
+
+    const items = remaining.slice(0, options.pageSize ?? DEFAULT_PAGE_SIZE)
+    return {
+      items,
+      ...(remaining.length > items.length && { cursor: encodeCursor(items[items.length - 1], skName) }),
+    }
+  }
+
+  async scanPage(options: ScanPageOptions = {}): Promise<QueryPage> {
+    const after = options.cursor ? decodeCursor(options.cursor) : undefined
+    const remaining = [...this.partitions.values()]
+      .flatMap(partition => [...partition.values()])
+      .filter(item => options.beginsWith === undefined || item.sk.startsWith(options.beginsWith))
+      .filter(item => !after || compareItemKeys(item, after, 'sk') > 0)
+      .sort((a, b) => compareItemKeys(a, b, 'sk'))
+
+    const items = structuredClone(remaining.slice(0, options.pageSize ?? DEFAULT_PAGE_SIZE))
+    return {
+      items,
+      ...(remaining.length > items.length && { cursor: encodeCursor(items[items.length - 1], 'sk') }),
+    }
+  }
+
+  async put(item: RepositoryItem, condition?: WriteCondition): Promise<boolean> {
+    if (!conditionHolds(this.partitions.get(item.pk)?.get(item.sk), condition)) return false
+    this.getPartition(item.pk).set(item.sk, toStoredValue(item))
+    return true
+  }
+
+  async putBatch(items: RepositoryItem[]): Promise<RepositoryItem[]> {
+    for (const item of items) await this.put(item)
+    return []
+  }
+
+  async update(key: ItemKey, update: ItemUpdate, condition?: WriteCondition): Promise<RepositoryItem | null> {
+    const existing = this.partitions.get(key.pk)?.get(key.sk)
+    if (!conditionHolds(existing, condition)) return null
+
+    const item = applyUpdate(existing ? structuredClone(existing) : { pk: key.pk, sk: key.sk }, update)
+    this.getPartition(key.pk).set(key.sk, item)
+    return structuredClone(item)
+  }
+
+  async increment(key: ItemKey, counters: Record<string, number>, update: Omit<ItemUpdate, 'increment'> = {}): Promise<Record<string, number>> {
+    const item = await this.update(key, { ...update, increment: counters })
+    return pickCounters(item!, counters)
+  }
+
+  async upsertGroup(updates: Array<{ key: ItemKey, update: ItemUpdate }>): Promise<void> {
+    for (const { key, update } of updates) await this.update(key, update)
+  }
+
+  async delete(key: ItemKey): Promise<void> {
+    this.partitions.get(key.pk)?.delete(key.sk)
+  }
+
+  async getPageViews(siteId: string, start: Date, end?: Date): Promise<RepositoryItem[]> {
+    return this.query(getPageViewQuery(siteId, start, end))
+  }
+
+  async getSessions(siteId: string, start: Date, end: Date): Promise<RepositoryItem[]> {
+    return this.query(getSessionQuery(siteId, start, end))
+  }
+
+  async getEvents(siteId: string, start: Date, end?: Date): Promise<RepositoryItem[]> {
+    return this.query(getEventQuery(siteId, start, end))
+  }
+
+  /**
+   * Drop all items
+   */
+  clear(): void {
+    this.partitions.clear()
+  }
+
+  private getPartition(pk: string): Map<string, RepositoryItem> {
+    let partition = this.partitions.get(pk)
+    if (!partition) {
+      partition = new Map()
+      this.partitions.set(pk, partition)
+    }
+    return partition
+  }
+}
+
+function splitPath(path: string): [string, string | undefined] {
+  const dot = path.indexOf('.')
+  return dot === -1 ? [path, undefined] : [path.slice(0, dot), path.slice(dot + 1)]
+}
+
+export function pickCounters(item: Record<string, any>, counters: Record<string, number>): Record<string, number> {
+  const values: Record<string, number> = {}
+  for (const path of Object.keys(counters)) {
+    const [field, member] = splitPath(path)
+    values[path] = Number(member === undefined ? item[field] : item[field]?.[member]) || 0
+  }
+  return values
+}
+
+// ============================================================================
+// DynamoDB Repository
+// ============================================================================
+
+type Item = Record<string, AttributeValue>
+
+export interface DynamoDBRepositoryClient {
+  getItem: (input: { TableName: string, Key: Item }) => Promise<{ Item?: Item }>
+  putItem: (input: {
+    TableName: string
+    Item: Item
+    ConditionExpression?: string
+    ExpressionAttributeNames?: Record<string, string>
+    ExpressionAttributeValues?: Item
+  }) => Promise<unknown>
+  updateItem: (input: {
+    TableName: string
+    Key: Item
+    UpdateExpression: string
+    ConditionExpression?: string
+    ExpressionAttributeNames?: Record<string, string>
+    ExpressionAttributeValues?: Item
+    ReturnValues?: string
+  }) => Promise<{ Attributes?: Item }>
+  deleteItem: (input: { TableName: string, Key: Item }) => Promise<unknown>
+  query: (input: {
+    TableName: string
+    IndexName?: string
+    KeyConditionExpression: string
+    FilterExpression?: string
+    ExpressionAttributeNames?: Record<string, string>
+    ExpressionAttributeValues: Item
+    ScanIndexForward?: boolean
+    Limit?: number
+    ExclusiveStartKey?: Item
+  }) => Promise<{ Items?: Item[], LastEvaluatedKey?: Item }>
+  scan: (input: {
+    TableName: string
+    FilterExpression?: string
+    ExpressionAttributeNames?: Record<string, string>
+    ExpressionAttributeValues?: Item
+    Limit?: number
+    ExclusiveStartKey?: Item
+  }) => Promise<{ Items?: Item[], LastEvaluatedKey?: Item }>
+  batchGetItem: (input: {
+    RequestItems: Record<string, { Keys: Item[] }>
+  }) => Promise<{ Responses?: Record<string, Item[]>, UnprocessedKeys?: Record<string, { Keys: Item[] }> }>
+  batchWriteItem: (input: {
+    RequestItems: Record<string, Array<{ PutRequest?: { Item: Item } }>>
+  }) => Promise<{ UnprocessedItems?: Record<string, Array<{ PutRequest?: { Item: Item } }>> }>
+}
+
+export interface DynamoDBRepositoryOptions {
+  /** Table to use (defaults to the configured table name) */
+  tableName?: string
+  /** Index names of `gsi1` and `gsi2` queries */
+  indexNames?: { gsi1?: string, gsi2?: string }
+  /** Updates of `upsertGroup` sent at once */
+  writeConcurrency?: number
+}
+
+/**
+ * Expression names and values, numbered in the order they are added
+ */
+class ExpressionBuilder {
+  readonly names: Record<string, string> = {}
+  readonly values: Item = {}
+  private nameCount = 0
+  private valueCount = 0
+
+  name(path: string): string {
+    return path.split('.').map((part) => {
+      const placeholder = `#n${this.nameCount++}`
+      this.names[placeholder] = part
+      return placeholder
+    }).join('.')
+  }
+
+  value(value: unknown): string {
+    return this.attribute(marshal({ value: toStoredValue(value) }).value as AttributeValue)
+  }
+
+  /** A value given as an attribute value, e.g. a string set */
+  attribute(value: AttributeValue | Record<string, unknown>): string {
+    const placeholder = `:v${this.valueCount++}`
+    this.values[placeholder] = value as AttributeValue
+    return placeholder
+  }
+
+  condition(condition: WriteCondition | undefined): string | undefined {
+    if (!condition) return undefined
+    const clauses: string[] = []
+    if (condition.notExists) clauses.push(`attribute_not_exists(${this.name('pk')})`)
+    if (condition.matches) {
+      clauses.push(this.where(condition.matches))
+    }
+    if (condition.below) {
+      clauses.push(Object.entries(condition.below).map(([field, limit]) => {
+        const name = this.name(field)
+        return `(attribute_not_exists(${name}) OR ${name} < ${this.value(limit)})`
+      }).join(' AND '))
+    }
+    return clauses.length > 1 ? clauses.map(clause => `(${clause})`).join(' OR ') : clauses[0]
+  }
+
+  where(where: Record<string, unknown>): string {
+    return Object.entries(where).map(([field, expected]) => isBetween(expected)
+      ? `${this.name(field)} BETWEEN ${this.value(expected.between[0])} AND ${this.value(expected.between[1])}`
+      : `${this.name(field)} = ${this.value(expected)}`).join(' AND ')
+  }
+
+  get expressionNames(): Record<string, string> | undefined {
+    return this.nameCount > 0 ? this.names : undefined
+  }
+
+  get expressionValues(): Item | undefined {
+    return this.valueCount > 0 ? this.values : undefined
+  }
+}
+
+function buildUpdateExpression(update: ItemUpdate): { UpdateExpression: string, builder: ExpressionBuilder } {
+  const expression = new ExpressionBuilder()
+  const sets: string[] = []
+  const adds: string[] = []
+
+  for (const [field, value] of Object.entries(update.set ?? {})) {
+    if (value !== undefined) sets.push(`${expression.name(field)} = ${expression.value(value)}`)
+  }
+  for (const [field, value] of Object.entries(update.setIfMissing ?? {})) {
+    if (value === undefined) continue
+    const name = expression.name(field)
+    sets.push(`${name} = if_not_exists(${name}, ${expression.value(value)})`)
+  }
+  for (const [path, amount] of Object.entries(update.increment ?? {})) {
+    const name = expression.name(path)
+    sets.push(`${name} = if_not_exists(${name}, ${expression.value(0)}) + ${expression.value(amount)}`)
+  }
+  for (const [field, values] of Object.entries(update.addToSet ?? {})) {
+    if (values.length === 0) continue
+    adds.push(`${expression.name(field)} ${expression.attribute({ SS: [...new Set(values)] })}`)
+  }
+
+  const clauses = [
+    sets.length > 0 ? `SET ${sets.join(', ')}` : '',
+    adds.length > 0 ? `ADD ${adds.join(', ')}` : '',
+    update.remove?.length ? `REMOVE ${update.remove.map(field => expression.name(field)).join(', ')}` : '',
+  ].filter(Boolean)
+
+  return { UpdateExpression: clauses.join(' '), builder: expression }
+}
+
+/**
+ * Items in a DynamoDB table with the single-table layout
+ */
+export class DynamoDBAnalyticsRepository implements AnalyticsRepository {
+  private readonly client: DynamoDBRepositoryClient
+  private readonly tableName: string
+  private readonly indexNames: { gsi1: string, gsi2: string }
+  private readonly writeConcurrency: number
+
+  constructor(client: DynamoDBRepositoryClient, options: DynamoDBRepositoryOptions = {}) {
+    this.client = client
+    this.tableName = options.tableName ?? getConfig().table.tableName
+    this.indexNames = { gsi1: 'gsi1', gsi2: 'gsi2', ...options.indexNames }
+    this.writeConcurrency = options.writeConcurrency ?? 25
+  }
+
+  async get(key: ItemKey): Promise<RepositoryItem | null> {
+    const result = await this.client.getItem({ TableName: this.tableName, Key: marshal({ ...key }) as Item })
+    return result.Item ? fromItem(result.Item) : null
+  }
+
+  async batchGet(keys: ItemKey[]): Promise<RepositoryItem[]> {
+    const items: RepositoryItem[] = []
+
+    // 100 keys per request (DynamoDB limit)
+    for (let i = 0; i < keys.length; i += 100) {
+      let pending = keys.slice(i, i + 100).map(key => marshal({ pk: key.pk, sk: key.sk }) as Item)
+      for (let attempt = 0; pending.length > 0 && attempt < 3; attempt++) {
+        const result = await this.client.batchGetItem({ RequestItems: { [this.tableName]: { Keys: pending } } })
+        items.push(...(result.Responses?.[this.tableName] ?? []).map(fromItem))
+        pending = result.UnprocessedKeys?.[this.tableName]?.Keys ?? []
+      }
+    }
+
+    return items
+  }
+
+  async query(query: ItemQuery): Promise<RepositoryItem[]> {
+    const input = this.getQueryInput(query)
+
+    const items: RepositoryItem[] = []
+    let lastKey: Item | undefined
+    do {
+      const remaining = query.limit !== undefined ? query.limit - items.length : undefined
+      const result = await this.client.query({
+        ...input,
+        // A limit counts items before the filter, so filtered queries read whole pages
+        ...(remaining !== undefined && !input.FilterExpression && { Limit: remaining }),
+        ...(lastKey && { ExclusiveStartKey: lastKey }),
+      })
+
+      for (const item of result.Items ?? []) {
+        items.push(fromItem(item))
+        if (query.limit !== undefined && items.length >= query.limit) return items
+      }
+      lastKey = result.LastEvaluatedKey
+    } while (lastKey)
+
+    return items
+  }
+
+  async queryPage(query: ItemQuery, options: QueryPageOptions = {}): Promise<QueryPage> {
+    const result = await this.client.query({
+      ...this.getQueryInput(query),
+      ...(options.pageSize && { Limit: options.pageSize }),
+      ...(options.cursor && { ExclusiveStartKey: JSON.parse(options.cursor) as Item }),
+    })
+
+    return {
+      items: (result.Items ?? []).map(fromItem),
+      ...(result.LastEvaluatedKey && { cursor: JSON.stringify(result.LastEvaluatedKey) }),
+    }
+  }
+
+  async scanPage(options: ScanPageOptions = {}): Promise<QueryPage> {
+    const expression = new ExpressionBuilder()
+    const filter = options.beginsWith !== undefined ? `begins_with(${expression.name('sk')}, ${expression.value(options.beginsWith)})` : undefined
+
+    // Filtered pages may come back empty with more to read
+    const result = await this.client.scan({
+      TableName: this.tableName,
+      ...(filter && {
+        FilterExpression: filter,
+        ExpressionAttributeNames: expression.names,
+        ExpressionAttributeValues: expression.values,
+      }),
+      ...(options.pageSize && { Limit: options.pageSize }),
+      ...(options.cursor && { ExclusiveStartKey: JSON.parse(options.cursor) as Item }),
+    })
+
+    return {
+      items: (result.Items ?? []).map(fromItem),
+      ...(result.LastEvaluatedKey && { cursor: JSON.stringify(result.LastEvaluatedKey) }),
+    }
+  }
+
+  async put(item: RepositoryItem, condition?: WriteCondition): Promise<boolean> {
+    const expression = new ExpressionBuilder()
+    const conditionExpression = expression.condition(condition)
+
+    try {
+      await this.client.putItem({
+        TableName: this.tableName,
+        Item: marshal(toStoredValue(item)) as Item,
+        ...(conditionExpression && {
+          ConditionExpression: conditionExpression,
+          ExpressionAttributeNames: expression.expressionNames,
+          ExpressionAttributeValues: expression.expressionValues,
+        }),
+      })
+      return true
+    }
+    catch (error) {
+      if (error instanceof Error && error.name === CONDITIONAL_CHECK_FAILED) return false
+      throw error
+    }
+  }
+
+  async putBatch(items: RepositoryItem[]): Promise<RepositoryItem[]> {
+    if (items.length === 0) return []
+
+    const queue = new EventBatchQueue(this.client, {
+      tableName: this.tableName,
+      maxQueueSize: items.length + 1,
+    })
+    const owners = new Map<BatchItem, RepositoryItem>()
+    for (const item of items) {
+      const batchItem: BatchItem = { type: 'item', data: marshal(toStoredValue(item)) as Item }
+      owners.set(batchItem, item)
+      queue.add(batchItem)
+    }
+
+    const result = await queue.flush()
+    await queue.close()
+    return result.unprocessedItems.map(batchItem => owners.get(batchItem)!).filter(Boolean)
+  }
+
+  async update(key: ItemKey, update: ItemUpdate, condition?: WriteCondition): Promise<RepositoryItem | null> {
+    // Counters in maps need the map to exist first; that write checks the condition
+    const maps = new Set(Object.keys(update.increment ?? {}).filter(path => path.includes('.')).map(path => splitPath(path)[0]))
+    if (maps.size > 0) {
+      const created = await this.update(key, { setIfMissing: Object.fromEntries([...maps].map(map => [map, {}])) }, condition)
+      if (!created) return null
+      condition = undefined
+    }
+
+    const { UpdateExpression, builder } = buildUpdateExpression(update)
+    const conditionExpression = builder.condition(condition)
+    if (!UpdateExpression) return this.get(key)
+
+    try {
+      const result = await this.client.updateItem({
+        TableName: this.tableName,
+        Key: marshal({ pk: key.pk, sk: key.sk }) as Item,
+        UpdateExpression,
+        ...(conditionExpression && { ConditionExpression: conditionExpression }),
+        ExpressionAttributeNames: builder.expressionNames,
+        ExpressionAttributeValues: builder.expressionValues,
+        ReturnValues: 'ALL_NEW',
+      })
+      return result.Attributes ? fromItem(result.Attributes) : { ...key }
+    }
+    catch (error) {
+      if (error instanceof Error && error.name === CONDITIONAL_CHECK_FAILED) return null
+      throw error
+    }
+  }
+
+  async increment(key: ItemKey, counters: Record<string, number>, update: Omit<ItemUpdate, 'increment'> = {}): Promise<Record<string, number>> {
+    const item = await this.update(key, { ...update, increment: counters })
+    return pickCounters(item ?? {}, counters)
+  }
+
+  async upsertGroup(updates: Array<{ key: ItemKey, update: ItemUpdate }>): Promise<void> {
+    for (let i = 0; i < updates.length; i += this.writeConcurrency) {
+      await Promise.all(updates.slice(i, i + this.writeConcurrency).map(({ key, update }) => this.update(key, update)))
+    }
+  }
+
+  async delete(key: ItemKey): Promise<void> {
+    await this.client.deleteItem({ TableName: this.tableName, Key: marshal({ pk: key.pk, sk: key.sk }) as Item })
+  }
+
+  async getPageViews(siteId: string, start: Date, end?: Date): Promise<RepositoryItem[]> {
+    return this.query(getPageViewQuery(siteId, start, end))
+  }
+
+  async getSessions(siteId: string, start: Date, end: Date): Promise<RepositoryItem[]> {
+    return this.query(getSessionQuery(siteId, start, end))
+  }
+
+  async getEvents(siteId: string, start: Date, end?: Date): Promise<RepositoryItem[]> {
+    return this.query(getEventQuery(siteId, start, end))
+  }
+
+  private getQueryInput(query: ItemQuery) {
+    const expression = new ExpressionBuilder()
+    const pkName = query.index ? `${query.index}pk` : 'pk'
+    const skName = query.index ? `${query.index}sk` : 'sk'
+
+    let keyCondition = `${expression.name(pkName)} = ${expression.value(query.pk)}`
+    if (query.between) {
+      keyCondition += ` AND ${expression.name(skName)} BETWEEN ${expression.value(query.between[0])} AND ${expression.value(query.between[1])}`
+    }
+    else if (query.beginsWith !== undefined) {
+      keyCondition += ` AND begins_with(${expression.name(skName)}, ${expression.value(query.beginsWith)})`
+    }
+    const filter = query.where && Object.keys(query.where).length > 0 ? expression.where(query.where) : undefined
+
+    return {
+      TableName: this.tableName,
+      ...(query.index && { IndexName: this.indexNames[query.index] }),
+      KeyConditionExpression: keyCondition,
+      ...(filter && { FilterExpression: filter }),
+      ExpressionAttributeNames: expression.names,
+      ExpressionAttributeValues: expression.values,
+      ScanIndexForward: !query.descending,
+    }
+  }
+}
+
+function fromItem(item: Item): RepositoryItem {
+  return unmarshal(item as Record<string, Record<string, unknown>>) as RepositoryItem
+}
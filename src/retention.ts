@@ -0,0 +1,303 @@
+/**
+ * Retention Policies
+ *
+ * Turns a site's retention settings into the TTL of each item it stores, and
+ * applies changed settings to items already stored.
+ *
+ * - Settings: PK SITE#{siteId}, SK RETENTION_SETTINGS
+ *
+ * Every entity type is kept for the site's `retentionDays`, or for less where
+ * `entities` (or the defaults: 90 days of vitals, 30 days of errors) says so.
+ * An item expires that many days after its own time: its timestamp, a session's
+ * last hit, or the end of a rollup's period. With `autoDelete` off nothing expires.
+ *
+ * `RetentionPurgeJob` walks a site's items of each type, deletes the expired ones
+ * and rewrites the TTLs of the rest. Rollup TTLs also come from the `retention`
+ * config, so the job only ever shortens them.
+ */
+
+import type { AnalyticsRepository, RepositoryItem } from './repository'
+import type { AggregationPeriod } from './types'
+import { getPeriodBounds } from './query-planner'
+
+// ============================================================================
+// Types
+// ============================================================================
+
+export type RetentionEntity =
+  | 'pageviews'
+  | 'sessions'
+  | 'events'
+  | 'ecommerce'
+  | 'conversions'
+  | 'heatmaps'
+  | 'vitals'
+  | 'errors'
+  | 'rollups'
+
+export interface RetentionSettings {
+  /** Days data is kept */
+  retentionDays: number
+  /** Expire data past its retention; without it everything is kept */
+  autoDelete: boolean
+  anonymizeAfterDays: number
+  /** Entity types kept for fewer days than `retentionDays` */
+  entities: Partial<Record<RetentionEntity, number>>
+}
+
+export interface RetentionEntityReport {
+  entity: RetentionEntity
+  /** Days items are kept, or null when they are kept forever */
+  retentionDays: number | null
+  /** Items older than this were removed */
+  cutoff: string | null
+  scanned: number
+  deleted: number
+  /** Items whose TTL was rewritten */
+  rewritten: number
+}
+
+export interface RetentionPurgeReport {
+  siteId: string
+  dryRun: boolean
+  entities: RetentionEntityReport[]
+  scanned: number
+  deleted: number
+  rewritten: number
+}
+
+export interface RetentionPurgeOptions {
+  now?: () => Date
+  /** Deletes and TTL rewrites sent at once (default: 25) */
+  batchSize?: number
+  /** Count what would change without writing */
+  dryRun?: boolean
+}
+
+// ============================================================================
+// Settings
+// ============================================================================
+
+export const DEFAULT_RETENTION_SETTINGS: RetentionSettings = {
+  retentionDays: 365,
+  autoDelete: true,
+  anonymizeAfterDays: 90,
+  entities: {},
+}
+
+/** Entity types kept for less than the site's retention unless set otherwise */
+const DEFAULT_ENTITY_DAYS: Partial<Record<RetentionEntity, number>> = {
+  vitals: 90,
+  errors: 30,
+}
+
+/** Sort key prefixes of each entity type */
+export const RETENTION_ENTITY_PREFIXES: Record<RetentionEntity, string[]> = {
+  pageviews: ['PAGEVIEW#', 'PV#'],
+  sessions: ['SESSION#'],
+  events: ['EVENT#'],
+  ecommerce: ['ECOMMERCE#'],
+  conversions: ['CONVERSION#'],
+  heatmaps: ['HMCLICK#', 'HMMOVE#', 'HMSCROLL#'],
+  vitals: ['VITAL#'],
+  errors: ['ERROR#'],
+  rollups: ['STATS#', 'PAGESTATS#', 'REFSTATS#', 'GEOSTATS#', 'DEVICESTATS#', 'EVENTSTATS#', 'CAMPSTATS#', 'GOALSTATS#'],
+}
+
+const RETENTION_ENTITIES = Object.keys(RETENTION_ENTITY_PREFIXES) as RetentionEntity[]
+const ROLLUP_PERIODS: Record<string, AggregationPeriod> = { HOUR: 'hour', DAY: 'day', MONTH: 'month' }
+const DAY_SECONDS = 24 * 60 * 60
+const DEFAULT_BATCH_SIZE = 25
+
+function toDays(value: unknown): number | undefined {
+  const days = Math.floor(Number(value))
+  return Number.isFinite(days) && days > 0 ? days : undefined
+}
+
+/**
+ * Settings from a stored item or request body, with defaults for what is missing
+ * or invalid
+ */
+export function normalizeRetentionSettings(value: Record<string, any> | null | undefined): RetentionSettings {
+  const entities: Partial<Record<RetentionEntity, number>> = {}
+  for (const [entity, days] of Object.entries(value?.entities ?? {})) {
+    const valid = toDays(days)
+    if (valid && RETENTION_ENTITIES.includes(entity as RetentionEntity)) entities[entity as RetentionEntity] = valid
+  }
+
+  return {
+    retentionDays: toDays(value?.retentionDays) ?? DEFAULT_RETENTION_SETTINGS.retentionDays,
+    autoDelete: value?.autoDelete ?? DEFAULT_RETENTION_SETTINGS.autoDelete,
+    anonymizeAfterDays: toDays(value?.anonymizeAfterDays) ?? DEFAULT_RETENTION_SETTINGS.anonymizeAfterDays,
+    entities,
+  }
+}
+
+/**
+ * Days an entity type is kept, or null when it is kept forever
+ */
+export function getEntityRetentionDays(settings: RetentionSettings, entity: RetentionEntity): number | null {
+  if (!settings.autoDelete) return null
+  return Math.min(settings.entities[entity] ?? DEFAULT_ENTITY_DAYS[entity] ?? settings.retentionDays, settings.retentionDays)
+}
+
+/**
+ * Start of an entity type's retention window, or null when it is kept forever
+ */
+export function getRetentionCutoff(settings: RetentionSettings, entity: RetentionEntity, now: Date = new Date()): Date | null {
+  const days = getEntityRetentionDays(settings, entity)
+  return days === null ? null : new Date(now.getTime() - days * DAY_SECONDS * 1000)
+}
+
+// ============================================================================
+// Item TTLs
+// ============================================================================
+
+/**
+ * Entity type of a sort key, or null for items retention doesn't apply to
+ * (sites, settings, goals, ...)
+ */
+export function getRetentionEntity(sk: string): RetentionEntity | null {
+  return RETENTION_ENTITIES.find(entity => RETENTION_ENTITY_PREFIXES[entity].some(prefix => sk.startsWith(prefix))) ?? null
+}
+
+/**
+ * The time an item's retention counts from, or null when it has none
+ */
+function getItemTime(item: Record<string, any>, entity: RetentionEntity): Date | null {
+  if (entity === 'rollups') {
+    // {PREFIX}[#{goalId}]#{PERIOD}#{periodStart}#...
+    const segments = String(item.sk).split('#')
+    const index = segments.findIndex(segment => segment in ROLLUP_PERIODS)
+    if (index === -1 || !segments[index + 1]) return null
+    return getPeriodBounds(new Date(segments[index + 1]), ROLLUP_PERIODS[segments[index]]).end
+  }
+
+  const time = new Date(entity === 'sessions' ? item.endedAt ?? item.startedAt : item.timestamp)
+  return Number.isNaN(time.getTime()) ? null : time
+}
+
+/**
+ * TTL (epoch seconds) of an item under the settings. Undefined when it is kept
+ * forever, isn't subject to retention or has no time.
+ */
+export function getRetentionTtl(item: Record<string, any>, settings: RetentionSettings): number | undefined {
+  const entity = getRetentionEntity(String(item.sk))
+  if (!entity) return undefined
+
+  const days = getEntityRetentionDays(settings, entity)
+  const time = getItemTime(item, entity)
+  if (days === null || !time) return undefined
+
+  return Math.floor(time.getTime() / 1000) + days * DAY_SECONDS
+}
+
+/**
+ * An item with the TTL of the settings (items without one are returned as they are)
+ */
+export function applyRetentionTtl<T extends Record<string, any>>(item: T, settings: RetentionSettings): T {
+  const ttl = getRetentionTtl(item, settings)
+  return ttl === undefined ? item : { ...item, ttl }
+}
+
+// ============================================================================
+// Purge Job
+// ============================================================================
+
+export class RetentionPurgeJob {
+  private readonly repository: AnalyticsRepository
+  private readonly now: () => Date
+  private readonly batchSize: number
+  private readonly dryRun: boolean
+
+  constructor(repository: AnalyticsRepository, options: RetentionPurgeOptions = {}) {
+    this.repository = repository
+    this.now = options.now ?? (() => new Date())
+    this.batchSize = options.batchSize ?? DEFAULT_BATCH_SIZE
+    this.dryRun = options.dryRun ?? false
+  }
+
+  /**
+   * Apply a site's settings to its stored items
+   */
+  async purge(siteId: string, settings: RetentionSettings): Promise<RetentionPurgeReport> {
+    const report: RetentionPurgeReport = { siteId, dryRun: this.dryRun, entities: [], scanned: 0, deleted: 0, rewritten: 0 }
+
+    for (const entity of RETENTION_ENTITIES) {
+      const entityReport = await this.purgeEntity(siteId, entity, settings)
+      report.entities.push(entityReport)
+      report.scanned += entityReport.scanned
+      report.deleted += entityReport.deleted
+      report.rewritten += entityReport.rewritten
+    }
+
+    return report
+  }
+
+  private async purgeEntity(siteId: string, entity: RetentionEntity, settings: RetentionSettings): Promise<RetentionEntityReport> {
+    const now = this.now()
+    const nowSeconds = Math.floor(now.getTime() / 1000)
+    const cutoff = getRetentionCutoff(settings, entity, now)
+    const report: RetentionEntityReport = {
+      entity,
+      retentionDays: getEntityRetentionDays(settings, entity),
+      cutoff: cutoff?.toISOString() ?? null,
+      scanned: 0,
+      deleted: 0,
+      rewritten: 0,
+    }
+
+    for (const prefix of RETENTION_ENTITY_PREFIXES[entity]) {
+      let cursor: string | undefined
+      do {
+        const page = await this.repository.queryPage({ pk: `SITE#${siteId}`, beginsWith: prefix }, { cursor })
+        cursor = page.cursor
+
+        const writes: Array<() => Promise<unknown>> = []
+        for (const item of page.items) {
+          report.scanned++
+          if (!getItemTime(item, entity)) continue
+
+          const ttl = getRetentionTtl(item, settings)
+          const stored = item.ttl === undefined ? undefined : Number(item.ttl)
+
+          if (ttl !== undefined && ttl <= nowSeconds) {
+            report.deleted++
+            writes.push(() => this.repository.delete({ pk: item.pk, sk: item.sk }))
+          }
+          else if (this.shouldRewrite(entity, stored, ttl)) {
+            report.rewritten++
+            writes.push(() => this.rewriteTtl(item, ttl))
+          }
+        }
+
+        if (!this.dryRun) await this.runInBatches(writes)
+      } while (cursor)
+    }
+
+    return report
+  }
+
+  /**
+   * Raw items take the policy's TTL; rollups only a shorter one
+   */
+  private shouldRewrite(entity: RetentionEntity, stored: number | undefined, ttl: number | undefined): boolean {
+    if (entity === 'rollups') return ttl !== undefined && (stored === undefined || ttl < stored)
+    return stored !== ttl
+  }
+
+  private async rewriteTtl(item: RepositoryItem, ttl: number | undefined): Promise<void> {
+    // Only while the item exists, so TTL deletes in the meantime aren't undone
+    await this.repository.update(
+      { pk: item.pk, sk: item.sk },
+      ttl === undefined ? { remove: ['ttl'] } : { set: { ttl } },
+      { matches: { sk: item.sk } },
+    )
+  }
+
+  private async runInBatches(writes: Array<() => Promise<unknown>>): Promise<void> {
+    for (let i = 0; i < writes.length; i += this.batchSize) {
+      await Promise.all(writes.slice(i, i + this.batchSize).map(write => write()))
+    }
+  }
+}
@@ -24,8 +24,16 @@ import * as webhooks from './handlers/webhooks'
 import * as team from './handlers/team'
 import * as data from './handlers/data'
 import * as sharing from './handlers/sharing'
+import * as bots from './handlers/bots'
+import * as payloads from './handlers/payloads'
+import * as referrers from './handlers/referrers'
+import * as sitePolicy from './handlers/site-policy'
 import * as collect from './handlers/collect'
+import * as ingest from './handlers/ingest'
 import * as misc from './handlers/misc'
+import * as ecommerce from './handlers/ecommerce'
+import * as imports from './handlers/imports'
+import * as deadLetters from './handlers/dead-letters'
 import * as views from './handlers/views'
 
 /**
@@ -80,6 +88,11 @@ const STEALTH_PATHS = {
   insights: 'intel',
   revenue: 'income',
   share: 'link',
+  bots: 'automated',
+  rejections: 'dropped',
+  policy: 'rules',
+  'foreign-hostnames': 'strays',
+  imports: 'history',
 }
 
 /**
@@ -146,6 +159,7 @@ export async function createRouter(): Promise<Router> {
   // Collection endpoints
   await router.post('/collect', collect.handleCollect)
   await router.post('/t', collect.handleCollect)
+  await router.post('/collect/batch', collect.handleCollectBatch)
 
   // Error collection (SDK endpoint with token auth)
   await router.post('/errors/collect', async (req) => {
@@ -159,6 +173,33 @@ export async function createRouter(): Promise<Router> {
     return errors.handleCollectError(req, auth.siteId, auth.keyId)
   })
 
+  // Server-side event ingest (token auth)
+  await router.post('/api/ingest', async (req) => {
+    const auth = await apiKeys.handleValidateApiKey(req, 'ingest')
+    if (!auth.valid || !auth.siteId) {
+      return new Response(JSON.stringify({ error: 'Invalid or missing API key' }), {
+        status: 401,
+        headers: { 'Content-Type': 'application/json' },
+      })
+    }
+    return ingest.handleServerIngest(req, auth.siteId)
+  })
+
+  // Dead-letter queue admin (admin token auth)
+  const admin = (handler: (req: any) => Promise<Response>) => async (req: any) => {
+    if (!deadLetters.isAdminRequest(req)) {
+      return new Response(JSON.stringify({ error: 'Invalid or missing admin token' }), {
+        status: 401,
+        headers: { 'Content-Type': 'application/json' },
+      })
+    }
+    return handler(req)
+  }
+  await router.get('/api/admin/dlq', admin(req => deadLetters.handleGetDeadLetters(req)))
+  await router.post('/api/admin/dlq/replay', admin(req => deadLetters.handleReplayDeadLetters(req)))
+  await router.post('/api/admin/dlq/purge', admin(req => deadLetters.handlePurgeDeadLetters(req)))
+  await router.get('/api/admin/dlq/{messageId}', admin(req => deadLetters.handleGetDeadLetter(req, req.params.messageId)))
+
   // Script serving
   await router.get('/sites/{siteId}/script', (req) => views.handleScript(req, req.params.siteId))
 
@@ -175,6 +216,9 @@ export async function createRouter(): Promise<Router> {
   await router.get('/api/sites/{siteId}/realtime', (req) => stats.handleGetRealtime(req, req.params.siteId))
   await router.get('/api/sites/{siteId}/pages', (req) => stats.handleGetPages(req, req.params.siteId))
   await router.get('/api/sites/{siteId}/referrers', (req) => stats.handleGetReferrers(req, req.params.siteId))
+  await router.get('/api/sites/{siteId}/referrers/rules', (req) => referrers.handleGetReferrerRules(req, req.params.siteId))
+  await router.put('/api/sites/{siteId}/referrers/rules', (req) => referrers.handleUpdateReferrerRules(req, req.params.siteId))
+  await router.post('/api/sites/{siteId}/referrers/rules/preview', (req) => referrers.handlePreviewReferrerRules(req, req.params.siteId))
   await router.get('/api/sites/{siteId}/devices', (req) => stats.handleGetDevices(req, req.params.siteId))
   await router.get('/api/sites/{siteId}/browsers', (req) => stats.handleGetBrowsers(req, req.params.siteId))
   await router.get('/api/sites/{siteId}/countries', (req) => stats.handleGetCountries(req, req.params.siteId))
@@ -182,6 +226,9 @@ export async function createRouter(): Promise<Router> {
   await router.get('/api/sites/{siteId}/cities', (req) => stats.handleGetCities(req, req.params.siteId))
   await router.get('/api/sites/{siteId}/timeseries', (req) => stats.handleGetTimeSeries(req, req.params.siteId))
   await router.get('/api/sites/{siteId}/events', (req) => stats.handleGetEvents(req, req.params.siteId))
+  await router.get('/api/sites/{siteId}/events/{eventName}/properties', (req) => {
+    return stats.handleGetEventProperties(req, req.params.siteId, decodeURIComponent(req.params.eventName))
+  })
   await router.get('/api/sites/{siteId}/campaigns', (req) => stats.handleGetCampaigns(req, req.params.siteId))
   await router.get('/api/sites/{siteId}/comparison', (req) => stats.handleGetComparison(req, req.params.siteId))
 
@@ -285,10 +332,30 @@ export async function createRouter(): Promise<Router> {
 
   // Revenue
   await router.get('/api/sites/{siteId}/revenue', (req) => misc.handleGetRevenue(req, req.params.siteId))
+  await router.get('/api/sites/{siteId}/revenue/products', (req) => ecommerce.handleGetRevenueByProduct(req, req.params.siteId))
+  await router.get('/api/sites/{siteId}/revenue/categories', (req) => ecommerce.handleGetRevenueByCategory(req, req.params.siteId))
+  await router.get('/api/sites/{siteId}/revenue/sources', (req) => ecommerce.handleGetRevenueBySource(req, req.params.siteId))
+  await router.get('/api/sites/{siteId}/revenue/settings', (req) => ecommerce.handleGetRevenueSettings(req, req.params.siteId))
+  await router.put('/api/sites/{siteId}/revenue/settings', (req) => ecommerce.handleUpdateRevenueSettings(req, req.params.siteId))
+
+  // Historical Data Imports
+  await router.get('/api/sites/{siteId}/imports', (req) => imports.handleGetImports(req, req.params.siteId))
+  await router.post('/api/sites/{siteId}/imports', (req) => imports.handleCreateImport(req, req.params.siteId))
 
   // Share Links
   await router.post('/api/sites/{siteId}/share', (req) => sharing.handleCreateShareLink(req, req.params.siteId))
 
+  // Bot Traffic
+  await router.get('/api/sites/{siteId}/bots', (req) => bots.handleGetBotTraffic(req, req.params.siteId))
+  await router.get('/api/sites/{siteId}/bots/rules', (req) => bots.handleGetBotRules(req, req.params.siteId))
+  await router.put('/api/sites/{siteId}/bots/rules', (req) => bots.handleUpdateBotRules(req, req.params.siteId))
+  await router.get('/api/sites/{siteId}/rejections', (req) => payloads.handleGetRejectedPayloads(req, req.params.siteId))
+
+  // Site Ingestion Policy
+  await router.get('/api/sites/{siteId}/policy', (req) => sitePolicy.handleGetSitePolicy(req, req.params.siteId))
+  await router.put('/api/sites/{siteId}/policy', (req) => sitePolicy.handleUpdateSitePolicy(req, req.params.siteId))
+  await router.get('/api/sites/{siteId}/foreign-hostnames', (req) => sitePolicy.handleGetForeignHostnames(req, req.params.siteId))
+
   // ============================================
   // STEALTH ROUTES - Bypass content blockers
   // Uses /api/p/ ("project") with innocuous names
@@ -297,6 +364,8 @@ export async function createRouter(): Promise<Router> {
   // Collection endpoints (stealth)
   await router.post('/t', collect.handleCollect) // Already defined above, but /t is short
   await router.post('/p', collect.handleCollect) // Even shorter alias
+  await router.post('/t/batch', collect.handleCollectBatch)
+  await router.post('/p/batch', collect.handleCollectBatch)
 
   // Issue collection (stealth for errors/collect)
   await router.post('/issues/report', async (req) => {
@@ -323,6 +392,9 @@ export async function createRouter(): Promise<Router> {
   await router.get('/api/p/{siteId}/pulse', (req) => stats.handleGetRealtime(req, req.params.siteId))
   await router.get('/api/p/{siteId}/content', (req) => stats.handleGetPages(req, req.params.siteId))
   await router.get('/api/p/{siteId}/sources', (req) => stats.handleGetReferrers(req, req.params.siteId))
+  await router.get('/api/p/{siteId}/sources/rules', (req) => referrers.handleGetReferrerRules(req, req.params.siteId))
+  await router.put('/api/p/{siteId}/sources/rules', (req) => referrers.handleUpdateReferrerRules(req, req.params.siteId))
+  await router.post('/api/p/{siteId}/sources/rules/preview', (req) => referrers.handlePreviewReferrerRules(req, req.params.siteId))
   await router.get('/api/p/{siteId}/clients', (req) => stats.handleGetDevices(req, req.params.siteId))
   await router.get('/api/p/{siteId}/agents', (req) => stats.handleGetBrowsers(req, req.params.siteId))
   await router.get('/api/p/{siteId}/geo', (req) => stats.handleGetCountries(req, req.params.siteId))
@@ -330,6 +402,9 @@ export async function createRouter(): Promise<Router> {
   await router.get('/api/p/{siteId}/locale', (req) => stats.handleGetCities(req, req.params.siteId))
   await router.get('/api/p/{siteId}/series', (req) => stats.handleGetTimeSeries(req, req.params.siteId))
   await router.get('/api/p/{siteId}/actions', (req) => stats.handleGetEvents(req, req.params.siteId))
+  await router.get('/api/p/{siteId}/actions/{eventName}/properties', (req) => {
+    return stats.handleGetEventProperties(req, req.params.siteId, decodeURIComponent(req.params.eventName))
+  })
   await router.get('/api/p/{siteId}/promo', (req) => stats.handleGetCampaigns(req, req.params.siteId))
   await router.get('/api/p/{siteId}/diff', (req) => stats.handleGetComparison(req, req.params.siteId))
 
@@ -427,10 +502,30 @@ export async function createRouter(): Promise<Router> {
 
   // Revenue (stealth)
   await router.get('/api/p/{siteId}/income', (req) => misc.handleGetRevenue(req, req.params.siteId))
+  await router.get('/api/p/{siteId}/income/products', (req) => ecommerce.handleGetRevenueByProduct(req, req.params.siteId))
+  await router.get('/api/p/{siteId}/income/categories', (req) => ecommerce.handleGetRevenueByCategory(req, req.params.siteId))
+  await router.get('/api/p/{siteId}/income/sources', (req) => ecommerce.handleGetRevenueBySource(req, req.params.siteId))
+  await router.get('/api/p/{siteId}/income/settings', (req) => ecommerce.handleGetRevenueSettings(req, req.params.siteId))
+  await router.put('/api/p/{siteId}/income/settings', (req) => ecommerce.handleUpdateRevenueSettings(req, req.params.siteId))
+
+  // Historical Data Imports (stealth)
+  await router.get('/api/p/{siteId}/history', (req) => imports.handleGetImports(req, req.params.siteId))
+  await router.post('/api/p/{siteId}/history', (req) => imports.handleCreateImport(req, req.params.siteId))
 
   // Share Links (stealth)
   await router.post('/api/p/{siteId}/link', (req) => sharing.handleCreateShareLink(req, req.params.siteId))
 
+  // Bot Traffic (stealth)
+  await router.get('/api/p/{siteId}/automated', (req) => bots.handleGetBotTraffic(req, req.params.siteId))
+  await router.get('/api/p/{siteId}/automated/rules', (req) => bots.handleGetBotRules(req, req.params.siteId))
+  await router.put('/api/p/{siteId}/automated/rules', (req) => bots.handleUpdateBotRules(req, req.params.siteId))
+  await router.get('/api/p/{siteId}/dropped', (req) => payloads.handleGetRejectedPayloads(req, req.params.siteId))
+
+  // Site Ingestion Policy (stealth)
+  await router.get('/api/p/{siteId}/rules', (req) => sitePolicy.handleGetSitePolicy(req, req.params.siteId))
+  await router.put('/api/p/{siteId}/rules', (req) => sitePolicy.handleUpdateSitePolicy(req, req.params.siteId))
+  await router.get('/api/p/{siteId}/strays', (req) => sitePolicy.handleGetForeignHostnames(req, req.params.siteId))
+
   return router
 }
 
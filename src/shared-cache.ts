@@ -0,0 +1,464 @@
+/**
+ * Shared Cache
+ *
+ * Cache for state that concurrent instances of the collect endpoint must agree
+ * on: sessions, goals and conversion dedupe. Entries are versioned so updates can
+ * use compare-and-set, and sets record members atomically. The store is in memory
+ * by default (per instance) or Redis (any server speaking the Redis protocol);
+ * `FallbackSharedCache` serves from memory while the shared store is unavailable.
+ */
+
+import type { Socket } from 'node:net'
+import { connect as connectTcp } from 'node:net'
+import { connect as connectTls } from 'node:tls'
+
+// ============================================================================
+// Types
+// ============================================================================
+
+export interface CacheEntry {
+  value: string
+  /** Changes with every write of the entry */
+  version: number
+}
+
+/**
+ * Storage for shared cache entries
+ */
+export interface SharedCache {
+  get: (key: string) => Promise<CacheEntry | null>
+  /** Write an entry, returning its new version */
+  set: (key: string, value: string, ttlSeconds: number) => Promise<number>
+  /**
+   * Write an entry only while it still has `expectedVersion` (null: while it
+   * doesn't exist). Returns the new version, or null when it changed meanwhile.
+   */
+  compareAndSet: (key: string, value: string, expectedVersion: number | null, ttlSeconds: number) => Promise<number | null>
+  delete: (key: string) => Promise<void>
+  /** Add a member to the set at `key`. Returns false when it was already there. */
+  addMember: (key: string, member: string, ttlSeconds: number) => Promise<boolean>
+  removeMember: (key: string, member: string) => Promise<void>
+}
+
+// ============================================================================
+// In-Memory Cache
+// ============================================================================
+
+/**
+ * Entries held in memory. Shared only within the process.
+ */
+export class MemorySharedCache implements SharedCache {
+  private entries = new Map<string, { value: string, version: number, expires: number }>()
+  private sets = new Map<string, { members: Set<string>, expires: number }>()
+  private nextVersion = 1
+  private readonly maxEntries: number
+  private readonly now: () => number
+
+  constructor(options: { maxEntries?: number, now?: () => number } = {}) {
+    this.maxEntries = options.maxEntries ?? 10_000
+    this.now = options.now ?? Date.now
+  }
+
+  async get(key: string): Promise<CacheEntry | null> {
+    const entry = this.live(this.entries, key)
+    return entry ? { value: entry.value, version: entry.version } : null
+  }
+
+  async set(key: string, value: string, ttlSeconds: number): Promise<number> {
+    return this.write(key, value, ttlSeconds)
+  }
+
+  async compareAndSet(key: string, value: string, expectedVersion: number | null, ttlSeconds: number): Promise<number | null> {
+    const current = this.live(this.entries, key)
+    if ((current?.version ?? null) !== expectedVersion) return null
+    return this.write(key, value, ttlSeconds)
+  }
+
+  async delete(key: string): Promise<void> {
+    this.entries.delete(key)
+  }
+
+  async addMember(key: string, member: string, ttlSeconds: number): Promise<boolean> {
+    const set = this.live(this.sets, key) ?? { members: new Set<string>(), expires: 0 }
+    const added = !set.members.has(member)
+    set.members.add(member)
+    set.expires = this.now() + ttlSeconds * 1000
+    this.insert(this.sets, key, set)
+    return added
+  }
+
+  async removeMember(key: string, member: string): Promise<void> {
+    this.live(this.sets, key)?.members.delete(member)
+  }
+
+  /**
+   * Drop all entries
+   */
+  clear(): void {
+    this.entries.clear()
+    this.sets.clear()
+  }
+
+  private write(key: string, value: string, ttlSeconds: number): number {
+    // Versions never repeat, so an entry that expired and came back doesn't match old ones
+    const version = this.nextVersion++
+    this.insert(this.entries, key, { value, version, expires: this.now() + ttlSeconds * 1000 })
+    return version
+  }
+
+  private live<T extends { expires: number }>(map: Map<string, T>, key: string): T | undefined {
+    const entry = map.get(key)
+    if (entry && entry.expires <= this.now()) {
+      map.delete(key)
+      return undefined
+    }
+    return entry
+  }
+
+  private insert<T>(map: Map<string, T>, key: string, entry: T): void {
+    // Re-insert so the least recently written entry is evicted first
+    map.delete(key)
+    map.set(key, entry)
+    if (map.size > this.maxEntries) {
+      const oldest = map.keys().next().value
+      if (oldest !== undefined) map.delete(oldest)
+    }
+  }
+}
+
+// ============================================================================
+// Redis Protocol
+// ============================================================================
+
+export type RespReply = string | number | null | Error | RespReply[]
+
+/**
+ * Sends commands to a server speaking the Redis protocol
+ */
+export interface RedisCommandClient {
+  /** Send one command, resolving with its reply (rejecting with error replies) */
+  send: (command: Array<string | number>) => Promise<RespReply>
+}
+
+/**
+ * A command as a RESP array of bulk strings
+ */
+export function encodeRespCommand(command: Array<string | number>): string {
+  let encoded = `*${command.length}\r\n`
+  for (const arg of command) {
+    const value = String(arg)
+    encoded += `$${Buffer.byteLength(value)}\r\n${value}\r\n`
+  }
+  return encoded
+}
+
+/**
+ * Parses RESP replies from the chunks a connection receives
+ */
+export class RespParser {
+  private buffer = Buffer.alloc(0)
+
+  /**
+   * Add a chunk, returning the replies it completes
+   */
+  push(chunk: Uint8Array): RespReply[] {
+    this.buffer = this.buffer.length > 0 ? Buffer.concat([this.buffer, chunk]) : Buffer.from(chunk)
+
+    const replies: RespReply[] = []
+    let parsed = this.parse(0)
+    while (parsed) {
+      replies.push(parsed.reply)
+      this.buffer = this.buffer.subarray(parsed.offset)
+      parsed = this.buffer.length > 0 ? this.parse(0) : null
+    }
+    return replies
+  }
+
+  private parse(offset: number): { reply: RespReply, offset: number } | null {
+    const lineEnd = this.buffer.indexOf('\r\n', offset)
+    if (lineEnd === -1) return null
+
+    const type = String.fromCharCode(this.buffer[offset])
+    const line = this.buffer.toString('utf8', offset + 1, lineEnd)
+    const next = lineEnd + 2
+
+    switch (type) {
+      case '+':
+        return { reply: line, offset: next }
+      case '-':
+        return { reply: new Error(line), offset: next }
+      case ':':
+        return { reply: Number(line), offset: next }
+      case '$': {
+        const length = Number(line)
+        if (length === -1) return { reply: null, offset: next }
+        if (this.buffer.length < next + length + 2) return null
+        return { reply: this.buffer.toString('utf8', next, next + length), offset: next + length + 2 }
+      }
+      case '*': {
+        const count = Number(line)
+        if (count === -1) return { reply: null, offset: next }
+
+        const items: RespReply[] = []
+        let position = next
+        for (let i = 0; i < count; i++) {
+          const item = this.parse(position)
+          if (!item) return null
+          items.push(item.reply)
+          position = item.offset
+        }
+        return { reply: items, offset: position }
+      }
+      default:
+        throw new Error(`Unexpected RESP reply type: ${type}`)
+    }
+  }
+}
+
+export interface RedisConnectionOptions {
+  /** redis://[user:password@]host[:port][/db], or rediss:// for TLS */
+  url: string
+  /** Time a command may take before the connection is dropped (default: 1000) */
+  timeoutMs?: number
+}
+
+/**
+ * One pipelined connection to a Redis-protocol server, opened on first use and
+ * again after it drops
+ */
+export class RedisConnection implements RedisCommandClient {
+  private readonly url: URL
+  private readonly timeoutMs: number
+  private socket: Socket | null = null
+  private parser = new RespParser()
+  private pending: Array<{ resolve: (reply: RespReply) => void, reject: (error: Error) => void, timer: ReturnType<typeof setTimeout> }> = []
+
+  constructor(options: RedisConnectionOptions) {
+    this.url = new URL(options.url)
+    this.timeoutMs = options.timeoutMs ?? 1000
+  }
+
+  send(command: Array<string | number>): Promise<RespReply> {
+    const socket = this.socket ?? this.open()
+    return this.enqueue(socket, command)
+  }
+
+  /**
+   * Close the connection, failing the commands still waiting
+   */
+  close(): void {
+    this.socket?.destroy()
+  }
+
+  private open(): Socket {
+    const port = Number(this.url.port || 6379)
+    const host = this.url.hostname || '127.0.0.1'
+    const socket = this.url.protocol === 'rediss:'
+      ? connectTls({ host, port, servername: host })
+      : connectTcp({ host, port })
+    this.socket = socket
+    this.parser = new RespParser()
+
+    socket.on('data', (chunk: Buffer) => {
+      let replies: RespReply[]
+      try {
+        replies = this.parser.push(chunk)
+      }
+      catch (error) {
+        // The stream is out of step with the commands now
+        this.fail(socket, error as Error)
+        socket.destroy()
+        return
+      }
+
+      for (const reply of replies) {
+        const command = this.pending.shift()
+        if (!command) continue
+        clearTimeout(command.timer)
+        if (reply instanceof Error) command.reject(reply)
+        else command.resolve(reply)
+      }
+    })
+    socket.on('error', error => this.fail(socket, error))
+    socket.on('close', () => this.fail(socket, new Error('Redis connection closed')))
+
+    // Queued ahead of the first command, so they run before it
+    const password = decodeURIComponent(this.url.password)
+    if (password) {
+      const username = decodeURIComponent(this.url.username)
+      void this.enqueue(socket, username ? ['AUTH', username, password] : ['AUTH', password]).catch(() => {})
+    }
+    const db = this.url.pathname.slice(1)
+    if (db) {
+      void this.enqueue(socket, ['SELECT', db]).catch(() => {})
+    }
+
+    return socket
+  }
+
+  private enqueue(socket: Socket, command: Array<string | number>): Promise<RespReply> {
+    return new Promise((resolve, reject) => {
+      const timer = setTimeout(() => {
+        socket.destroy(new Error(`Redis command timed out after ${this.timeoutMs}ms`))
+      }, this.timeoutMs)
+      this.pending.push({ resolve, reject, timer })
+      socket.write(encodeRespCommand(command))
+    })
+  }
+
+  private fail(socket: Socket, error: Error): void {
+    if (this.socket !== socket) return
+    this.socket = null
+    for (const command of this.pending.splice(0)) {
+      clearTimeout(command.timer)
+      command.reject(error)
+    }
+  }
+}
+
+// ============================================================================
+// Redis Cache
+// ============================================================================
+
+// Entries are hashes of their version (v) and value (d)
+const SET_SCRIPT = `local version = redis.call('HINCRBY', KEYS[1], 'v', 1)
+redis.call('HSET', KEYS[1], 'd', ARGV[1])
+redis.call('EXPIRE', KEYS[1], ARGV[2])
+return version`
+
+const COMPARE_AND_SET_SCRIPT = `local current = redis.call('HGET', KEYS[1], 'v')
+if (current or '') ~= ARGV[3] then return -1 end
+local version = redis.call('HINCRBY', KEYS[1], 'v', 1)
+redis.call('HSET', KEYS[1], 'd', ARGV[1])
+redis.call('EXPIRE', KEYS[1], ARGV[2])
+return version`
+
+const ADD_MEMBER_SCRIPT = `local added = redis.call('SADD', KEYS[1], ARGV[1])
+redis.call('EXPIRE', KEYS[1], ARGV[2])
+return added`
+
+export interface RedisSharedCacheOptions {
+  /** Prefix of every key (default: 'analytics:') */
+  keyPrefix?: string
+}
+
+/**
+ * Entries shared through a Redis-protocol server. Writes run as Lua scripts, so
+ * compare-and-set and the expiry that goes with each write are atomic.
+ */
+export class RedisSharedCache implements SharedCache {
+  private readonly client: RedisCommandClient
+  private readonly keyPrefix: string
+
+  constructor(client: RedisCommandClient, options: RedisSharedCacheOptions = {}) {
+    this.client = client
+    this.keyPrefix = options.keyPrefix ?? 'analytics:'
+  }
+
+  async get(key: string): Promise<CacheEntry | null> {
+    const reply = await this.client.send(['HMGET', this.keyPrefix + key, 'v', 'd'])
+    const [version, value] = Array.isArray(reply) ? reply : []
+    return typeof value === 'string' ? { value, version: Number(version) } : null
+  }
+
+  async set(key: string, value: string, ttlSeconds: number): Promise<number> {
+    return Number(await this.client.send(['EVAL', SET_SCRIPT, 1, this.keyPrefix + key, value, Math.ceil(ttlSeconds)]))
+  }
+
+  async compareAndSet(key: string, value: string, expectedVersion: number | null, ttlSeconds: number): Promise<number | null> {
+    const reply = await this.client.send([
+      'EVAL',
+      COMPARE_AND_SET_SCRIPT,
+      1,
+      this.keyPrefix + key,
+      value,
+      Math.ceil(ttlSeconds),
+      expectedVersion === null ? '' : String(expectedVersion),
+    ])
+    return Number(reply) === -1 ? null : Number(reply)
+  }
+
+  async delete(key: string): Promise<void> {
+    await this.client.send(['DEL', this.keyPrefix + key])
+  }
+
+  async addMember(key: string, member: string, ttlSeconds: number): Promise<boolean> {
+    return Number(await this.client.send(['EVAL', ADD_MEMBER_SCRIPT, 1, this.keyPrefix + key, member, Math.ceil(ttlSeconds)])) === 1
+  }
+
+  async removeMember(key: string, member: string): Promise<void> {
+    await this.client.send(['SREM', this.keyPrefix + key, member])
+  }
+}
+
+// ============================================================================
+// Fallback
+// ============================================================================
+
+export interface FallbackSharedCacheOptions {
+  /** Time to serve from the fallback after the primary fails (default: 30000) */
+  retryAfterMs?: number
+  now?: () => number
+}
+
+/**
+ * A shared cache that falls back to another (in memory by default) while it is
+ * unavailable, so a cache outage never fails ingestion. During the fallback,
+ * sessions and conversion dedupe are only consistent within each instance.
+ */
+export class FallbackSharedCache implements SharedCache {
+  private readonly primary: SharedCache
+  private readonly fallback: SharedCache
+  private readonly retryAfterMs: number
+  private readonly now: () => number
+  private unavailableUntil = 0
+
+  constructor(primary: SharedCache, fallback: SharedCache = new MemorySharedCache(), options: FallbackSharedCacheOptions = {}) {
+    this.primary = primary
+    this.fallback = fallback
+    this.retryAfterMs = options.retryAfterMs ?? 30_000
+    this.now = options.now ?? Date.now
+  }
+
+  /** The primary is in use (not failed within `retryAfterMs`) */
+  get available(): boolean {
+    return this.now() >= this.unavailableUntil
+  }
+
+  get(key: string): Promise<CacheEntry | null> {
+    return this.use(cache => cache.get(key))
+  }
+
+  set(key: string, value: string, ttlSeconds: number): Promise<number> {
+    return this.use(cache => cache.set(key, value, ttlSeconds))
+  }
+
+  compareAndSet(key: string, value: string, expectedVersion: number | null, ttlSeconds: number): Promise<number | null> {
+    return this.use(cache => cache.compareAndSet(key, value, expectedVersion, ttlSeconds))
+  }
+
+  delete(key: string): Promise<void> {
+    return this.use(cache => cache.delete(key))
+  }
+
+  addMember(key: string, member: string, ttlSeconds: number): Promise<boolean> {
+    return this.use(cache => cache.addMember(key, member, ttlSeconds))
+  }
+
+  removeMember(key: string, member: string): Promise<void> {
+    return this.use(cache => cache.removeMember(key, member))
+  }
+
+  private async use<T>(operation: (cache: SharedCache) => Promise<T>): Promise<T> {
+    if (this.available) {
+      try {
+        return await operation(this.primary)
+      }
+      catch (error) {
+        console.error('[SharedCache] Shared cache unavailable, using the fallback:', error)
+        this.unavailableUntil = this.now() + this.retryAfterMs
+      }
+    }
+    return operation(this.fallback)
+  }
+}
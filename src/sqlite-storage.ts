@@ -0,0 +1,487 @@
+/**
+ * SQLite Storage
+ *
+ * A repository backed by SQLite (`bun:sqlite`), so the collector and dashboard can
+ * run as a single process without AWS. Items keep their single-table keys, but
+ * each kind of record lives in its own table with typed, indexed columns:
+ *
+ * - pageviews: PAGEVIEW#
+ * - sessions: SESSION#
+ * - events: EVENT#
+ * - goals: GOAL#
+ * - conversions: CONVERSION#
+ * - errors: ERROR#
+ * - error_groups: ERROR_GROUP#
+ * - vitals: VITAL#
+ * - heatmaps: HMCLICK#, HMMOVE#, HMSCROLL#
+ * - items: everything else (sites, settings, rollups, ...)
+ *
+ * Every table also keeps the whole item as JSON in `data`. The schema is created
+ * and upgraded by the numbered migrations below, recorded in `schema_migrations`.
+ */
+
+import type {
+  AnalyticsRepository,
+  ItemKey,
+  ItemQuery,
+  ItemUpdate,
+  QueryPage,
+  QueryPageOptions,
+  RepositoryItem,
+  ScanPageOptions,
+  WriteCondition,
+} from './repository'
+import {
+  applyUpdate,
+  compareItemKeys,
+  conditionHolds,
+  decodeCursor,
+  DEFAULT_PAGE_SIZE,
+  encodeCursor,
+  getEventQuery,
+  getPageViewQuery,
+  getSessionQuery,
+  isBetween,
+  pickCounters,
+  toStoredValue,
+} from './repository'
+
+// ============================================================================
+// Types
+// ============================================================================
+
+export type SQLiteValue = string | number | bigint | boolean | null
+
+export interface SQLiteStatement {
+  all: (...params: SQLiteValue[]) => unknown[]
+  get: (...params: SQLiteValue[]) => unknown
+  run: (...params: SQLiteValue[]) => unknown
+}
+
+/**
+ * The parts of a `bun:sqlite` Database the repository uses
+ */
+export interface SQLiteDatabase {
+  query: (sql: string) => SQLiteStatement
+  transaction: (fn: () => any) => () => any
+}
+
+export interface SQLiteMigration {
+  version: number
+  name: string
+  statements: string[]
+}
+
+export interface SQLiteRepositoryOptions {
+  /** Apply pending migrations when the repository is created (default true) */
+  migrate?: boolean
+}
+
+// ============================================================================
+// Schema
+// ============================================================================
+
+/**
+ * Typed columns of each table (column name -> item attribute), and the sort key
+ * prefixes stored in it
+ */
+const TABLES: Record<string, { prefixes: string[], columns: Record<string, string> }> = {
+  pageviews: {
+    prefixes: ['PAGEVIEW'],
+    columns: { site_id: 'siteId', visitor_id: 'visitorId', session_id: 'sessionId', path: 'path', timestamp: 'timestamp' },
+  },
+  sessions: {
+    prefixes: ['SESSION'],
+    columns: { site_id: 'siteId', visitor_id: 'visitorId', entry_path: 'entryPath', started_at: 'startedAt', ended_at: 'endedAt' },
+  },
+  events: {
+    prefixes: ['EVENT'],
+    columns: { site_id: 'siteId', visitor_id: 'visitorId', session_id: 'sessionId', name: 'name', timestamp: 'timestamp' },
+  },
+  goals: {
+    prefixes: ['GOAL'],
+    columns: { site_id: 'siteId', name: 'name', type: 'type', is_active: 'isActive' },
+  },
+  conversions: {
+    prefixes: ['CONVERSION'],
+    columns: { site_id: 'siteId', goal_id: 'goalId', visitor_id: 'visitorId', session_id: 'sessionId', timestamp: 'timestamp' },
+  },
+  errors: {
+    prefixes: ['ERROR'],
+    columns: { site_id: 'siteId', session_id: 'sessionId', path: 'path', message: 'message', timestamp: 'timestamp' },
+  },
+  error_groups: {
+    prefixes: ['ERROR_GROUP'],
+    columns: { site_id: 'siteId', fingerprint: 'fingerprint', status: 'status', count: 'count', last_seen: 'lastSeen' },
+  },
+  vitals: {
+    prefixes: ['VITAL'],
+    columns: { site_id: 'siteId', metric: 'metric', value: 'value', path: 'path', timestamp: 'timestamp' },
+  },
+  heatmaps: {
+    prefixes: ['HMCLICK', 'HMMOVE', 'HMSCROLL'],
+    columns: { site_id: 'siteId', session_id: 'sessionId', path: 'path', timestamp: 'timestamp' },
+  },
+  items: {
+    prefixes: [],
+    columns: {},
+  },
+}
+
+const TABLE_NAMES = Object.keys(TABLES)
+
+const PREFIX_TABLES = new Map(Object.entries(TABLES).flatMap(([table, { prefixes }]) => prefixes.map(prefix => [prefix, table] as const)))
+
+/**
+ * CREATE TABLE for an item table: the keys, the given typed columns and the JSON item
+ */
+function itemTable(name: string, columns: string[]): string {
+  return [
+    `CREATE TABLE ${name} (`,
+    '  pk TEXT NOT NULL, sk TEXT NOT NULL,',
+    '  gsi1pk TEXT, gsi1sk TEXT, gsi2pk TEXT, gsi2sk TEXT,',
+    ...columns.map(column => `  ${column},`),
+    '  data TEXT NOT NULL,',
+    '  PRIMARY KEY (pk, sk)',
+    ') WITHOUT ROWID',
+  ].join('\n')
+}
+
+function indexStatements(table: string, indexes: string[][]): string[] {
+  return [['gsi1pk', 'gsi1sk'], ['gsi2pk', 'gsi2sk'], ...indexes]
+    .map(columns => `CREATE INDEX idx_${table}_${columns.join('_')} ON ${table} (${columns.join(', ')})`)
+}
+
+/**
+ * Schema migrations, applied in order. Never change a released migration; add a
+ * new one instead.
+ */
+export const SQLITE_MIGRATIONS: SQLiteMigration[] = [
+  {
+    version: 1,
+    name: 'create_item_tables',
+    statements: [
+      itemTable('pageviews', ['site_id TEXT', 'visitor_id TEXT', 'session_id TEXT', 'path TEXT', 'timestamp TEXT']),
+      ...indexStatements('pageviews', [['site_id', 'timestamp'], ['site_id', 'path'], ['visitor_id']]),
+      itemTable('sessions', ['site_id TEXT', 'visitor_id TEXT', 'entry_path TEXT', 'started_at TEXT', 'ended_at TEXT']),
+      ...indexStatements('sessions', [['site_id', 'started_at'], ['visitor_id']]),
+      itemTable('events', ['site_id TEXT', 'visitor_id TEXT', 'session_id TEXT', 'name TEXT', 'timestamp TEXT']),
+      ...indexStatements('events', [['site_id', 'name', 'timestamp'], ['visitor_id']]),
+      itemTable('goals', ['site_id TEXT', 'name TEXT', 'type TEXT', 'is_active INTEGER']),
+      ...indexStatements('goals', [['site_id']]),
+      itemTable('conversions', ['site_id TEXT', 'goal_id TEXT', 'visitor_id TEXT', 'session_id TEXT', 'timestamp TEXT']),
+      ...indexStatements('conversions', [['site_id', 'goal_id', 'timestamp']]),
+      itemTable('errors', ['site_id TEXT', 'session_id TEXT', 'path TEXT', 'message TEXT', 'timestamp TEXT']),
+      ...indexStatements('errors', [['site_id', 'timestamp']]),
+      itemTable('error_groups', ['site_id TEXT', 'fingerprint TEXT', 'status TEXT', 'count INTEGER', 'last_seen TEXT']),
+      ...indexStatements('error_groups', [['site_id', 'last_seen']]),
+      itemTable('vitals', ['site_id TEXT', 'metric TEXT', 'value REAL', 'path TEXT', 'timestamp TEXT']),
+      ...indexStatements('vitals', [['site_id', 'metric', 'timestamp']]),
+      itemTable('heatmaps', ['site_id TEXT', 'session_id TEXT', 'path TEXT', 'timestamp TEXT']),
+      ...indexStatements('heatmaps', [['site_id', 'path']]),
+      itemTable('items', []),
+      ...indexStatements('items', []),
+    ],
+  },
+]
+
+/**
+ * Apply the migrations a database hasn't had yet. Returns the versions applied.
+ */
+export function migrateSQLiteSchema(db: SQLiteDatabase, migrations: SQLiteMigration[] = SQLITE_MIGRATIONS): number[] {
+  db.query('CREATE TABLE IF NOT EXISTS schema_migrations (version INTEGER PRIMARY KEY, name TEXT NOT NULL, applied_at TEXT NOT NULL)').run()
+
+  const rows = db.query('SELECT version FROM schema_migrations').all() as Array<{ version: number }>
+  const applied = new Set(rows.map(row => row.version))
+  const pending = migrations.filter(migration => !applied.has(migration.version)).sort((a, b) => a.version - b.version)
+
+  for (const migration of pending) {
+    db.transaction(() => {
+      for (const statement of migration.statements) {
+        db.query(statement).run()
+      }
+      db.query('INSERT INTO schema_migrations (version, name, applied_at) VALUES (?, ?, ?)')
+        .run(migration.version, migration.name, new Date().toISOString())
+    })()
+  }
+
+  return pending.map(migration => migration.version)
+}
+
+// ============================================================================
+// SQLite Repository
+// ============================================================================
+
+/**
+ * Items stored in SQLite. Writes are synchronous, and conditional writes and
+ * updates run in a transaction.
+ */
+export class SQLiteAnalyticsRepository implements AnalyticsRepository {
+  private readonly db: SQLiteDatabase
+
+  constructor(db: SQLiteDatabase, options: SQLiteRepositoryOptions = {}) {
+    this.db = db
+    if (options.migrate !== false) migrateSQLiteSchema(db)
+  }
+
+  async get(key: ItemKey): Promise<RepositoryItem | null> {
+    return this.read(key)
+  }
+
+  async batchGet(keys: ItemKey[]): Promise<RepositoryItem[]> {
+    return keys.map(key => this.read(key)).filter((item): item is RepositoryItem => item !== null)
+  }
+
+  async query(query: ItemQuery): Promise<RepositoryItem[]> {
+    return this.select(query, undefined, query.limit)
+  }
+
+  async queryPage(query: ItemQuery, options: QueryPageOptions = {}): Promise<QueryPage> {
+    const pageSize = options.pageSize ?? DEFAULT_PAGE_SIZE
+    const skName = query.index ? `${query.index}sk` : 'sk'
+
+    // One row more than the page tells whether another page follows
+    const rows = this.select(query, options.cursor ? decodeCursor(options.cursor) : undefined, pageSize + 1)
+    const items = rows.slice(0, pageSize)
+    return {
+      items,
+      ...(rows.length > items.length && { cursor: encodeCursor(items[items.length - 1], skName) }),
+    }
+  }
+
+  async scanPage(options: ScanPageOptions = {}): Promise<QueryPage> {
+    const pageSize = options.pageSize ?? DEFAULT_PAGE_SIZE
+    const after = options.cursor ? decodeCursor(options.cursor) : undefined
+    const tables = getQueryTables({ pk: '', beginsWith: options.beginsWith })
+
+    // Tables are read one after the other; one row more than the page tells whether another follows
+    const rows: Array<{ table: string, item: RepositoryItem }> = []
+    for (const table of tables.slice(after ? Math.max(tables.indexOf(after.table), 0) : 0)) {
+      const items = this.scanTable(table, options.beginsWith, after?.table === table ? after : undefined, pageSize + 1 - rows.length)
+      rows.push(...items.map(item => ({ table, item })))
+      if (rows.length > pageSize) break
+    }
+
+    const page = rows.slice(0, pageSize)
+    const last = page[page.length - 1]
+    return {
+      items: page.map(row => row.item),
+      ...(rows.length > page.length && { cursor: JSON.stringify({ table: last.table, pk: last.item.pk, sk: last.item.sk }) }),
+    }
+  }
+
+  async put(item: RepositoryItem, condition?: WriteCondition): Promise<boolean> {
+    return this.db.transaction(() => {
+      if (!conditionHolds(this.read(item) ?? undefined, condition)) return false
+      this.write(toStoredValue(item))
+      return true
+    })()
+  }
+
+  async putBatch(items: RepositoryItem[]): Promise<RepositoryItem[]> {
+    this.db.transaction(() => {
+      for (const item of items) this.write(toStoredValue(item))
+    })()
+    return []
+  }
+
+  async update(key: ItemKey, update: ItemUpdate, condition?: WriteCondition): Promise<RepositoryItem | null> {
+    return this.db.transaction(() => this.applyUpdate(key, update, condition))()
+  }
+
+  async increment(key: ItemKey, counters: Record<string, number>, update: Omit<ItemUpdate, 'increment'> = {}): Promise<Record<string, number>> {
+    const item = await this.update(key, { ...update, increment: counters })
+    return pickCounters(item!, counters)
+  }
+
+  async upsertGroup(updates: Array<{ key: ItemKey, update: ItemUpdate }>): Promise<void> {
+    this.db.transaction(() => {
+      for (const { key, update } of updates) this.applyUpdate(key, update)
+    })()
+  }
+
+  async delete(key: ItemKey): Promise<void> {
+    this.db.query(`DELETE FROM ${getTable(key.sk)} WHERE pk = ? AND sk = ?`).run(key.pk, key.sk)
+  }
+
+  async getPageViews(siteId: string, start: Date, end?: Date): Promise<RepositoryItem[]> {
+    return this.query(getPageViewQuery(siteId, start, end))
+  }
+
+  async getSessions(siteId: string, start: Date, end: Date): Promise<RepositoryItem[]> {
+    return this.query(getSessionQuery(siteId, start, end))
+  }
+
+  async getEvents(siteId: string, start: Date, end?: Date): Promise<RepositoryItem[]> {
+    return this.query(getEventQuery(siteId, start, end))
+  }
+
+  private read(key: ItemKey): RepositoryItem | null {
+    const row = this.db.query(`SELECT data FROM ${getTable(key.sk)} WHERE pk = ? AND sk = ?`).get(key.pk, key.sk) as { data: string } | null
+    return row ? JSON.parse(row.data) : null
+  }
+
+  private write(item: RepositoryItem): void {
+    const table = getTable(item.sk)
+    const columns = Object.entries(TABLES[table].columns)
+    const names = ['pk', 'sk', 'gsi1pk', 'gsi1sk', 'gsi2pk', 'gsi2sk', ...columns.map(([column]) => column), 'data']
+    const values = [
+      item.pk,
+      item.sk,
+      ...['gsi1pk', 'gsi1sk', 'gsi2pk', 'gsi2sk'].map(name => toColumnValue(item[name])),
+      ...columns.map(([, attribute]) => toColumnValue(item[attribute])),
+      JSON.stringify(item),
+    ]
+
+    this.db.query(`INSERT OR REPLACE INTO ${table} (${names.join(', ')}) VALUES (${names.map(() => '?').join(', ')})`).run(...values)
+  }
+
+  private applyUpdate(key: ItemKey, update: ItemUpdate, condition?: WriteCondition): RepositoryItem | null {
+    const existing = this.read(key)
+    if (!conditionHolds(existing ?? undefined, condition)) return null
+
+    const item = applyUpdate(existing ?? { pk: key.pk, sk: key.sk }, update)
+    this.write(item)
+    return item
+  }
+
+  /**
+   * Rows of a table in key order after a cursor position
+   */
+  private scanTable(table: string, beginsWith: string | undefined, after: Record<string, string> | undefined, limit: number): RepositoryItem[] {
+    const clauses: string[] = []
+    const params: SQLiteValue[] = []
+
+    if (beginsWith) {
+      clauses.push('sk >= ?', 'sk < ?')
+      params.push(beginsWith, getPrefixEnd(beginsWith))
+    }
+    if (after) {
+      clauses.push('(pk, sk) > (?, ?)')
+      params.push(after.pk, after.sk)
+    }
+
+    const where = clauses.length > 0 ? ` WHERE ${clauses.join(' AND ')}` : ''
+    const rows = this.db.query(`SELECT data FROM ${table}${where} ORDER BY pk, sk LIMIT ?`).all(...params, limit) as Array<{ data: string }>
+    return rows.map(row => JSON.parse(row.data))
+  }
+
+  /**
+   * Results of a query after a cursor position, merged over its tables
+   */
+  private select(query: ItemQuery, after: Record<string, string> | undefined, limit: number | undefined): RepositoryItem[] {
+    const skName = query.index ? `${query.index}sk` : 'sk'
+    const tables = getQueryTables(query)
+    const items = tables.flatMap(table => this.queryTable(table, query, after, limit))
+
+    // Each table is sorted already; rows of several are merged
+    if (tables.length > 1) {
+      items.sort((a, b) => compareItemKeys(a, b, skName) * (query.descending ? -1 : 1))
+    }
+    return limit !== undefined ? items.slice(0, limit) : items
+  }
+
+  private queryTable(table: string, query: ItemQuery, after: Record<string, string> | undefined, limit: number | undefined): RepositoryItem[] {
+    const pkName = query.index ? `${query.index}pk` : 'pk'
+    const skName = query.index ? `${query.index}sk` : 'sk'
+    const clauses = [`${pkName} = ?`]
+    const params: SQLiteValue[] = [query.pk]
+
+    if (query.between) {
+      const [low, high] = query.between
+      clauses.push(`${skName} >= ?`)
+      params.push(low)
+      // Open-ended bounds (ending in \uffff) must also take characters outside the BMP
+      if (high.endsWith('\uffff')) {
+        clauses.push(`${skName} < ?`)
+        params.push(getPrefixEnd(high.slice(0, -1)))
+      }
+      else {
+        clauses.push(`${skName} <= ?`)
+        params.push(high)
+      }
+    }
+    if (query.beginsWith) {
+      clauses.push(`${skName} >= ?`, `${skName} < ?`)
+      params.push(query.beginsWith, getPrefixEnd(query.beginsWith))
+    }
+
+    for (const [field, expected] of Object.entries(query.where ?? {})) {
+      const column = getAttributeColumn(table, field)
+      if (isBetween(expected)) {
+        clauses.push(`${column} BETWEEN ? AND ?`)
+        params.push(toColumnValue(expected.between[0]), toColumnValue(expected.between[1]))
+      }
+      else if (expected === null || expected === undefined) {
+        clauses.push(`${column} IS NULL`)
+      }
+      else {
+        clauses.push(`${column} = ?`)
+        params.push(toColumnValue(toStoredValue(expected)))
+      }
+    }
+
+    if (after) {
+      clauses.push(`(${skName}, pk, sk) ${query.descending ? '<' : '>'} (?, ?, ?)`)
+      params.push(after[skName], after.pk, after.sk)
+    }
+
+    const order = query.descending ? 'DESC' : 'ASC'
+    let sql = `SELECT data FROM ${table} WHERE ${clauses.join(' AND ')} ORDER BY ${skName} ${order}, pk ${order}, sk ${order}`
+    if (limit !== undefined) {
+      sql += ' LIMIT ?'
+      params.push(limit)
+    }
+
+    const rows = this.db.query(sql).all(...params) as Array<{ data: string }>
+    return rows.map(row => JSON.parse(row.data))
+  }
+}
+
+// ============================================================================
+// Helpers
+// ============================================================================
+
+/**
+ * Table of an item, by the part of its sort key before the first `#`
+ */
+function getTable(sk: string): string {
+  const hash = sk.indexOf('#')
+  return PREFIX_TABLES.get(hash === -1 ? sk : sk.slice(0, hash)) ?? 'items'
+}
+
+/**
+ * Tables a query has to read: one when its sort key condition names the kind of
+ * item, all of them otherwise (and for index queries)
+ */
+function getQueryTables(query: ItemQuery): string[] {
+  if (query.index) return TABLE_NAMES
+
+  const bounds = query.beginsWith ? [query.beginsWith] : query.between ?? []
+  const kinds = new Set(bounds.map(bound => (bound.includes('#') ? bound.slice(0, bound.indexOf('#')) : null)))
+  const [kind] = kinds
+  return bounds.length && kinds.size === 1 && kind !== null ? [getTable(`${kind}#`)] : TABLE_NAMES
+}
+
+/**
+ * Column holding an attribute: its typed column, or the attribute inside the JSON
+ */
+function getAttributeColumn(table: string, attribute: string): string {
+  const typed = Object.entries(TABLES[table].columns).find(([, name]) => name === attribute)
+  if (typed) return typed[0]
+  if (!/^\w+$/.test(attribute)) throw new Error(`Invalid attribute name: ${attribute}`)
+  return `json_extract(data, '$.${attribute}')`
+}
+
+/**
+ * Smallest string after every string starting with `prefix`
+ */
+function getPrefixEnd(prefix: string): string {
+  return prefix.slice(0, -1) + String.fromCharCode(prefix.charCodeAt(prefix.length - 1) + 1)
+}
+
+function toColumnValue(value: unknown): SQLiteValue {
+  if (typeof value === 'boolean') return value ? 1 : 0
+  if (typeof value === 'string' || typeof value === 'number') return value
+  return null
+}
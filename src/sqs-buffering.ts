@@ -22,7 +22,7 @@
  * @see cloud.config.ts for infrastructure definitions
  */
 
-import type { CustomEvent, PageView, Session } from './types'
+import type { CustomEvent, EcommerceEvent, PageView, Session } from './types'
 
 // Re-export ts-cloud compatible types for convenience
 export interface SQSRawMessage {
@@ -66,10 +66,22 @@ export interface SQSConfig {
 }
 
 export interface AnalyticsEvent {
-  type: 'pageview' | 'session' | 'event' | 'realtime'
+  type: 'pageview' | 'pageleave' | 'session' | 'event' | 'ecommerce' | 'realtime'
   siteId: string
   timestamp: string
-  data: PageView | Session | CustomEvent | RealtimeUpdate
+  data: PageView | Session | CustomEvent | EcommerceEvent | RealtimeUpdate
+}
+
+/**
+ * Collect payload types the SQS consumer writes. Heatmap, vitals, error and
+ * outbound payloads have no queued representation and take the direct write path.
+ */
+export const QUEUED_EVENT_TYPES = ['pageview', 'pageleave', 'event', 'ecommerce'] as const
+
+export type QueuedEventType = typeof QUEUED_EVENT_TYPES[number]
+
+export function isQueuedEventType(type: string): type is QueuedEventType {
+  return (QUEUED_EVENT_TYPES as readonly string[]).includes(type)
 }
 
 export interface RealtimeUpdate {
@@ -90,6 +102,8 @@ export interface SQSSendResult {
   successful: number
   failed: number
   messageId?: string
+  /** Positions (in the input array) of events that were not sent - set by sendEventsBatch */
+  failedIndexes?: number[]
 }
 
 export interface SQSClient {
@@ -131,6 +145,8 @@ interface SQSReceiveMessageInput {
   MaxNumberOfMessages?: number
   VisibilityTimeout?: number
   WaitTimeSeconds?: number
+  /** System attributes to return, e.g. `ApproximateReceiveCount` */
+  AttributeNames?: string[]
 }
 
 interface SQSReceiveMessageOutput {
@@ -138,6 +154,7 @@ interface SQSReceiveMessageOutput {
     MessageId: string
     ReceiptHandle: string
     Body: string
+    Attributes?: Record<string, string>
   }>
 }
 
@@ -293,6 +310,10 @@ export class SQSEventProducer {
   async sendEventsBatch(events: AnalyticsEvent[]): Promise<SQSSendResult> {
     let successful = 0
     let failed = 0
+    const failedIndexes: number[] = []
+
+    // Entry ids carry the input position so failures can be reported per event
+    const positions = new Map<AnalyticsEvent, number>(events.map((event, index) => [event, index]))
 
     // Group events by site for better batching
     const bySite = groupEventsBySite(events)
@@ -301,8 +322,8 @@ export class SQSEventProducer {
       // Chunk into SQS batch size
       for (let i = 0; i < siteEvents.length; i += this.batchSize) {
         const chunk = siteEvents.slice(i, i + this.batchSize)
-        const entries = chunk.map((event, idx) => ({
-          Id: `${i + idx}`,
+        const entries = chunk.map(event => ({
+          Id: String(positions.get(event)),
           MessageBody: JSON.stringify({
             events: [event],
             batchId: generateBatchId(),
@@ -323,16 +344,18 @@ export class SQSEventProducer {
 
           if (result.Failed && result.Failed.length > 0) {
             console.error('[SQS] Batch send failures:', result.Failed)
+            failedIndexes.push(...result.Failed.map(f => Number(f.Id)))
           }
         }
         catch (error) {
           console.error('[SQS] Batch send error:', error)
           failed += chunk.length
+          failedIndexes.push(...entries.map(e => Number(e.Id)))
         }
       }
     }
 
-    return { successful, failed }
+    return { successful, failed, failedIndexes: failedIndexes.sort((a, b) => a - b) }
   }
 }
 
@@ -522,63 +545,228 @@ export function getAllShardKeys(
 /**
  * Coalesce multiple writes to the same key within a time window
  * This reduces write costs and avoids unnecessary overwrites
+ *
+ * By default a write replaces the pending one of its key and restarts the window.
+ * With `merge` it is merged into the pending one instead (e.g. counter deltas),
+ * the window counts from the first write, and data of failed writes is queued
+ * again rather than dropped.
  */
 export class WriteCoalescer<T> {
   private pending: Map<string, { data: T, timer: ReturnType<typeof setTimeout> }> = new Map()
+  private inFlight: Set<Promise<unknown>> = new Set()
   private readonly windowMs: number
   private readonly onWrite: (key: string, data: T) => Promise<void>
+  private readonly merge?: (pending: T, next: T) => T
 
   constructor(options: {
     windowMs?: number
     onWrite: (key: string, data: T) => Promise<void>
+    merge?: (pending: T, next: T) => T
   }) {
     this.windowMs = options.windowMs ?? 100
     this.onWrite = options.onWrite
+    this.merge = options.merge
   }
 
   /**
-   * Queue a write - if a write for the same key is pending, it will be replaced
+   * Queue a write - if a write for the same key is pending, it will be replaced (or merged)
    */
   write(key: string, data: T): void {
     const existing = this.pending.get(key)
+    if (existing && this.merge) {
+      existing.data = this.merge(existing.data, data)
+      return
+    }
     if (existing) {
       clearTimeout(existing.timer)
     }
 
-    const timer = setTimeout(async () => {
-      this.pending.delete(key)
-      try {
-        await this.onWrite(key, data)
-      }
-      catch (error) {
-        console.error('[WriteCoalescer] Write failed:', key, error)
-      }
-    }, this.windowMs)
-
-    this.pending.set(key, { data, timer })
+    this.pending.set(key, { data, timer: this.schedule(key) })
   }
 
   /**
-   * Flush all pending writes immediately
+   * Flush all pending writes immediately, after those already on their way.
+   * With `merge`, throws when writes failed (their data stays queued).
    */
   async flush(): Promise<void> {
+    await Promise.all(this.inFlight)
+
     const entries = Array.from(this.pending.entries())
     this.pending.clear()
 
+    let failed = 0
     for (const [key, { data, timer }] of entries) {
       clearTimeout(timer)
-      try {
-        await this.onWrite(key, data)
-      }
-      catch (error) {
-        console.error('[WriteCoalescer] Flush write failed:', key, error)
-      }
+      if (!await this.send(key, data, 'Flush write failed')) failed++
+    }
+
+    if (failed > 0 && this.merge) {
+      throw new Error(`${failed} coalesced writes failed and are queued again`)
     }
   }
 
   get size(): number {
     return this.pending.size
   }
+
+  private schedule(key: string): ReturnType<typeof setTimeout> {
+    return setTimeout(() => {
+      const entry = this.pending.get(key)
+      if (!entry) return
+      this.pending.delete(key)
+
+      const write = this.send(key, entry.data, 'Write failed')
+      this.inFlight.add(write)
+      void write.finally(() => this.inFlight.delete(write))
+    }, this.windowMs)
+  }
+
+  private async send(key: string, data: T, message: string): Promise<boolean> {
+    try {
+      await this.onWrite(key, data)
+      return true
+    }
+    catch (error) {
+      console.error(`[WriteCoalescer] ${message}:`, key, error)
+      if (this.merge) this.requeue(key, data)
+      return false
+    }
+  }
+
+  private requeue(key: string, data: T): void {
+    const existing = this.pending.get(key)
+    if (existing) {
+      existing.data = this.merge!(data, existing.data)
+    }
+    else {
+      this.pending.set(key, { data, timer: this.schedule(key) })
+    }
+  }
+}
+
+/**
+ * Changes to a counter item: amounts added to its counters, strings added to its
+ * string sets, and attributes set when the item is created. Each is an atomic
+ * ADD (or if_not_exists), so merged deltas add up to the same item.
+ */
+export interface CounterDelta {
+  increment: Record<string, number>
+  addToSet?: Record<string, string[]>
+  setIfMissing?: Record<string, unknown>
+}
+
+export interface CounterKey {
+  pk: string
+  sk: string
+}
+
+/** Sort key prefixes of the counter items whose writes are coalesced (STATS_* rollups and REALTIME) */
+export const COALESCED_COUNTER_PREFIXES = [
+  'REALTIME#',
+  'STATS#',
+  'PAGESTATS#',
+  'REFSTATS#',
+  'GEOSTATS#',
+  'DEVICESTATS#',
+  'EVENTSTATS#',
+  'CAMPSTATS#',
+  'GOALSTATS#',
+]
+
+/** Realtime counters expire after 10 minutes */
+export const REALTIME_COUNTER_TTL_SECONDS = 600
+
+export function isCoalescedCounterKey(sk: string): boolean {
+  return COALESCED_COUNTER_PREFIXES.some(prefix => sk.startsWith(prefix))
+}
+
+/**
+ * The delta of both (attributes set on creation come from the first)
+ */
+export function mergeCounterDeltas(a: CounterDelta, b: CounterDelta): CounterDelta {
+  const increment = { ...a.increment }
+  for (const [field, amount] of Object.entries(b.increment)) {
+    increment[field] = (increment[field] ?? 0) + amount
+  }
+
+  const addToSet: Record<string, string[]> = { ...a.addToSet }
+  for (const [field, values] of Object.entries(b.addToSet ?? {})) {
+    addToSet[field] = [...new Set([...(addToSet[field] ?? []), ...values])]
+  }
+
+  return { increment, addToSet, setIfMissing: { ...b.setIfMissing, ...a.setIfMissing } }
+}
+
+/**
+ * Key and delta of the realtime counters of a site's minute
+ *
+ * - Realtime: PK SITE#{siteId}, SK REALTIME#{minute}
+ */
+export function getRealtimeCounter(
+  siteId: string,
+  timestamp: Date,
+  counters: Record<string, number>,
+  visitorId?: string,
+): { key: CounterKey, delta: CounterDelta } {
+  const minute = timestamp.toISOString().slice(0, 16)
+
+  return {
+    key: { pk: `SITE#${siteId}`, sk: `REALTIME#${minute}` },
+    delta: {
+      increment: counters,
+      ...(visitorId && { addToSet: { visitorIds: [visitorId] } }),
+      setIfMissing: {
+        siteId,
+        minute,
+        _et: 'realtime',
+        ttl: Math.floor(timestamp.getTime() / 1000) + REALTIME_COUNTER_TTL_SECONDS,
+      },
+    },
+  }
+}
+
+/**
+ * Coalesce counter updates of hot items (STATS_* and REALTIME keys) within a
+ * window, sending the merged delta of each item as one atomic update. Other keys,
+ * or every key when disabled, are written right away.
+ *
+ * Pending deltas must be flushed before the process ends (e.g. at the end of a
+ * Lambda invocation, or on SIGTERM).
+ */
+export class CounterCoalescer {
+  private readonly enabled: boolean
+  private readonly onWrite: (key: CounterKey, delta: CounterDelta) => Promise<void>
+  private readonly coalescer: WriteCoalescer<{ key: CounterKey, delta: CounterDelta }>
+
+  constructor(options: {
+    enabled?: boolean
+    windowMs?: number
+    onWrite: (key: CounterKey, delta: CounterDelta) => Promise<void>
+  }) {
+    this.enabled = options.enabled ?? true
+    this.onWrite = options.onWrite
+    this.coalescer = new WriteCoalescer({
+      windowMs: options.windowMs,
+      onWrite: (_, { key, delta }) => this.onWrite(key, delta),
+      merge: (pending, next) => ({ key: pending.key, delta: mergeCounterDeltas(pending.delta, next.delta) }),
+    })
+  }
+
+  async add(key: CounterKey, delta: CounterDelta): Promise<void> {
+    if (!this.enabled || !isCoalescedCounterKey(key.sk)) {
+      await this.onWrite(key, delta)
+      return
+    }
+    this.coalescer.write(`${key.pk}\n${key.sk}`, { key, delta })
+  }
+
+  flush(): Promise<void> {
+    return this.coalescer.flush()
+  }
+
+  get size(): number {
+    return this.coalescer.size
+  }
 }
 
 // ============================================================================
@@ -662,46 +850,10 @@ export function generateSQSResources(config: {
 // ============================================================================
 
 /**
- * Create an SQS event producer using ts-cloud configuration
- *
- * @example
- * ```ts
- * import { createAnalyticsProducer } from 'ts-analytics'
- *
- * // Uses queue URL from environment or cloud.config.ts
- * const producer = await createAnalyticsProducer()
- *
- * // Or specify queue URL directly
- * const producer = await createAnalyticsProducer({
- *   queueUrl: 'https://sqs.us-east-1.amazonaws.com/123456789/analytics-events',
- *   region: 'us-east-1',
- * })
- *
- * // Send events
- * await producer.sendEvent({
- *   type: 'pageview',
- *   siteId: 'my-site',
- *   timestamp: new Date().toISOString(),
- *   data: pageViewData,
- * })
- * ```
+ * Create an SQS client backed by ts-cloud
  */
-export async function createAnalyticsProducer(options?: {
-  queueUrl?: string
-  region?: string
-}): Promise<SQSEventProducer> {
-  // Try to load from environment or cloud.config.ts
-  const queueUrl = options?.queueUrl
-    || process.env.SQS_QUEUE_URL
-    || process.env.ANALYTICS_SQS_QUEUE_URL
-
-  if (!queueUrl) {
-    throw new Error(
-      'SQS queue URL not configured. Set SQS_QUEUE_URL environment variable or pass queueUrl option.',
-    )
-  }
-
-  const region = options?.region || process.env.AWS_REGION || 'us-east-1'
+export async function createSQSClient(region?: string): Promise<SQSClient> {
+  const resolvedRegion = region || process.env.AWS_REGION || 'us-east-1'
 
   // Dynamic import to avoid bundling ts-cloud in browser builds
   // Falls back to a minimal implementation if ts-cloud is not available
@@ -709,7 +861,7 @@ export async function createAnalyticsProducer(options?: {
 
   try {
     const tsCloud = await import('ts-cloud')
-    const sqsClient = new tsCloud.SQSClient(region)
+    const sqsClient = new tsCloud.SQSClient(resolvedRegion)
 
     // Create adapter to match our interface using ts-cloud client
     clientAdapter = {
@@ -739,8 +891,9 @@ export async function createAnalyticsProducer(options?: {
             .filter((r): r is PromiseFulfilledResult<{ Id: string, MessageId: string }> => r.status === 'fulfilled')
             .map(r => r.value),
           Failed: results
-            .filter((r): r is PromiseRejectedResult => r.status === 'rejected')
-            .map((r, i) => ({ Id: input.Entries[i].Id, Code: 'SendFailed', Message: String(r.reason) })),
+            .map((r, i) => ({ r, Id: input.Entries[i].Id }))
+            .filter((x): x is { r: PromiseRejectedResult, Id: string } => x.r.status === 'rejected')
+            .map(x => ({ Id: x.Id, Code: 'SendFailed', Message: String(x.r.reason) })),
         }
       },
       receiveMessage: async (input) => {
@@ -785,7 +938,51 @@ export async function createAnalyticsProducer(options?: {
     )
   }
 
-  return new SQSEventProducer(clientAdapter, queueUrl)
+  return clientAdapter
+}
+
+/**
+ * Create an SQS event producer using ts-cloud configuration
+ *
+ * @example
+ * ```ts
+ * import { createAnalyticsProducer } from 'ts-analytics'
+ *
+ * // Uses queue URL from environment or cloud.config.ts
+ * const producer = await createAnalyticsProducer()
+ *
+ * // Or specify queue URL directly
+ * const producer = await createAnalyticsProducer({
+ *   queueUrl: 'https://sqs.us-east-1.amazonaws.com/123456789/analytics-events',
+ *   region: 'us-east-1',
+ * })
+ *
+ * // Send events
+ * await producer.sendEvent({
+ *   type: 'pageview',
+ *   siteId: 'my-site',
+ *   timestamp: new Date().toISOString(),
+ *   data: pageViewData,
+ * })
+ * ```
+ */
+export async function createAnalyticsProducer(options?: {
+  queueUrl?: string
+  region?: string
+}): Promise<SQSEventProducer> {
+  // Try to load from environment or cloud.config.ts
+  const queueUrl = options?.queueUrl
+    || process.env.SQS_QUEUE_URL
+    || process.env.ANALYTICS_SQS_QUEUE_URL
+
+  if (!queueUrl) {
+    throw new Error(
+      'SQS queue URL not configured. Set SQS_QUEUE_URL environment variable or pass queueUrl option.',
+    )
+  }
+
+  const client = await createSQSClient(options?.region)
+  return new SQSEventProducer(client, queueUrl)
 }
 
 /**
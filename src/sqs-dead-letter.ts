@@ -0,0 +1,536 @@
+/**
+ * Dead-Letter Queue Tooling
+ *
+ * Messages the SQS consumer fails on `maxReceiveCount` times are moved to the
+ * dead-letter queue with their body untouched. `DeadLetterQueue` lists them grouped
+ * by failure reason, decodes them, replays them into the main queue (optionally
+ * rewriting fixable schema problems) and purges them.
+ *
+ * SQS only addresses a received message, through its receipt handle, so every
+ * operation scans the queue: matching messages are acted on and the others become
+ * visible again when the scan's visibility timeout runs out.
+ *
+ * A message's failure reason is the schema problem found in its body, else the
+ * error the consumer recorded for it, else `unknown`.
+ */
+
+import type { AnalyticsEvent, SQSClient, SQSMessage } from './sqs-buffering'
+
+export const ANALYTICS_EVENT_TYPES: readonly AnalyticsEvent['type'][] = [
+  'pageview',
+  'pageleave',
+  'session',
+  'event',
+  'ecommerce',
+  'realtime',
+]
+
+/** Event type names older producers used */
+const EVENT_TYPE_ALIASES: Record<string, AnalyticsEvent['type']> = {
+  page_view: 'pageview',
+  pageView: 'pageview',
+  page: 'pageview',
+  page_leave: 'pageleave',
+  custom: 'event',
+  custom_event: 'event',
+  track: 'event',
+}
+
+// ============================================================================
+// Types
+// ============================================================================
+
+export interface DeadLetterMessage {
+  messageId: string
+  receiptHandle: string
+  body: string
+  /** The decoded message, when the body is a valid batch */
+  message?: SQSMessage
+  /** Schema problem, e.g. `invalid_json` or `invalid_event:missing_site_id`, or a consumer error category */
+  reason: string
+  /** Error the consumer recorded for the message */
+  error?: string
+  receiveCount?: number
+  sentAt?: string
+}
+
+export interface DeadLetterGroup {
+  reason: string
+  count: number
+  messageIds: string[]
+  /** An error message of the group, or its reason */
+  sample: string
+}
+
+/**
+ * Messages to act on: by ID, by reason, or `all`
+ */
+export interface DeadLetterSelection {
+  messageIds?: string[]
+  reason?: string
+  all?: boolean
+}
+
+/**
+ * Rewrites an event before it is replayed. Returns null to drop it.
+ */
+export type DeadLetterRewrite = (event: Record<string, any>) => Record<string, any> | null
+
+export interface DeadLetterReplayResult {
+  replayed: string[]
+  /** Messages that still have a schema problem */
+  skipped: Array<{ messageId: string, reason: string }>
+  failed: Array<{ messageId: string, error: string }>
+  /** Fixes applied to replayed messages */
+  rewritten: Array<{ messageId: string, changes: string[] }>
+}
+
+export interface DeadLetterPurgeResult {
+  purged: string[]
+  failed: Array<{ messageId: string, error: string }>
+}
+
+export interface DeadLetterQueueOptions {
+  deadLetterQueueUrl: string
+  /** Main queue that replayed messages are sent to */
+  queueUrl: string
+  /** Consumer errors by message ID */
+  getFailures?: (messageIds: string[]) => Promise<Map<string, string>>
+  /** Seconds scanned messages stay hidden (default 30) */
+  visibilityTimeout?: number
+  /** Most messages one scan reads (default 1000) */
+  maxMessages?: number
+}
+
+// ============================================================================
+// Decoding
+// ============================================================================
+
+/**
+ * Schema problem of a queued event, or null
+ */
+export function getEventProblem(event: unknown): string | null {
+  if (!event || typeof event !== 'object' || Array.isArray(event)) return 'not_an_object'
+  const record = event as Record<string, unknown>
+
+  if (!ANALYTICS_EVENT_TYPES.includes(record.type as AnalyticsEvent['type'])) return 'unknown_type'
+  if (typeof record.siteId !== 'string' || !record.siteId) return 'missing_site_id'
+  if (typeof record.timestamp !== 'string' || Number.isNaN(Date.parse(record.timestamp))) return 'invalid_timestamp'
+  if (!record.data || typeof record.data !== 'object') return 'missing_data'
+  return null
+}
+
+/**
+ * Decode a message body into a batch, or the reason it can't be processed
+ */
+export function decodeDeadLetterBody(body: string): { message?: SQSMessage, problem?: string } {
+  let parsed: unknown
+  try {
+    parsed = JSON.parse(body)
+  } catch {
+    return { problem: 'invalid_json' }
+  }
+
+  const events = (parsed as { events?: unknown } | null)?.events
+  if (!Array.isArray(events)) return { problem: 'missing_events' }
+  if (events.length === 0) return { problem: 'empty_batch' }
+
+  for (const event of events) {
+    const problem = getEventProblem(event)
+    if (problem) return { problem: `invalid_event:${problem}` }
+  }
+  return { message: parsed as SQSMessage }
+}
+
+/**
+ * Group a consumer error message into a reason: `throttled`, `timeout` or
+ * `error:<message>` with IDs and numbers stripped
+ */
+export function categorizeFailure(error: string): string {
+  if (/ProvisionedThroughputExceeded|Throttl|TooManyRequests/i.test(error)) return 'throttled'
+  if (/ValidationException/.test(error)) return 'validation_error'
+  if (/ConditionalCheckFailed/.test(error)) return 'conditional_check_failed'
+  if (/timed? ?out|ETIMEDOUT/i.test(error)) return 'timeout'
+  if (/ECONNRESET|ECONNREFUSED|ENOTFOUND|network/i.test(error)) return 'network'
+
+  const message = error
+    .replace(/[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}/gi, '<id>')
+    .replace(/\d+/g, '<n>')
+    .trim()
+    .slice(0, 80)
+  return `error:${message}`
+}
+
+/**
+ * Fix the schema problems older or buggy producers cause: a bare event or event
+ * array instead of a batch, old event type names, and a site ID or timestamp
+ * that is only in `data` (or is epoch milliseconds).
+ *
+ * Returns the fixed batch and the changes made, or the problem left after fixing.
+ */
+export function rewriteDeadLetterBody(
+  body: string,
+  rewrite?: DeadLetterRewrite,
+): { message?: SQSMessage, changes: string[], problem?: string } {
+  let parsed: any
+  try {
+    parsed = JSON.parse(body)
+  } catch {
+    return { changes: [], problem: 'invalid_json' }
+  }
+
+  const changes: string[] = []
+  if (Array.isArray(parsed) || (parsed && typeof parsed === 'object' && !('events' in parsed) && 'type' in parsed)) {
+    parsed = {
+      events: Array.isArray(parsed) ? parsed : [parsed],
+      batchId: crypto.randomUUID(),
+      timestamp: new Date().toISOString(),
+    }
+    changes.push('wrapped events in a batch')
+  }
+  if (!parsed || !Array.isArray(parsed.events)) {
+    return { changes, problem: 'missing_events' }
+  }
+
+  const events: unknown[] = []
+  parsed.events.forEach((original: unknown, index: number) => {
+    if (!original || typeof original !== 'object') {
+      events.push(original)
+      return
+    }
+    let event: Record<string, any> = { ...original as Record<string, any> }
+    const data = event.data && typeof event.data === 'object' ? event.data : {}
+
+    if (typeof event.type === 'string' && EVENT_TYPE_ALIASES[event.type]) {
+      changes.push(`events[${index}].type: ${event.type} -> ${EVENT_TYPE_ALIASES[event.type]}`)
+      event.type = EVENT_TYPE_ALIASES[event.type]
+    }
+    if (!event.siteId && typeof data.siteId === 'string') {
+      event.siteId = data.siteId
+      changes.push(`events[${index}].siteId: copied from data`)
+    }
+    if (event.timestamp === undefined && data.timestamp !== undefined) {
+      event.timestamp = data.timestamp instanceof Date ? data.timestamp.toISOString() : data.timestamp
+      changes.push(`events[${index}].timestamp: copied from data`)
+    }
+    if (typeof event.timestamp === 'number') {
+      event.timestamp = new Date(event.timestamp).toISOString()
+      changes.push(`events[${index}].timestamp: epoch -> ISO`)
+    }
+
+    if (rewrite) {
+      const rewritten = rewrite(event)
+      if (!rewritten) {
+        changes.push(`events[${index}]: dropped`)
+        return
+      }
+      if (JSON.stringify(rewritten) !== JSON.stringify(event)) {
+        changes.push(`events[${index}]: rewritten`)
+      }
+      event = rewritten
+    }
+    events.push(event)
+  })
+
+  const decoded = decodeDeadLetterBody(JSON.stringify({ ...parsed, events }))
+  return decoded.message
+    ? { message: decoded.message, changes }
+    : { changes, problem: decoded.problem }
+}
+
+/**
+ * Group messages by reason, largest group first
+ */
+export function groupDeadLetters(messages: DeadLetterMessage[]): DeadLetterGroup[] {
+  const groups = new Map<string, DeadLetterGroup>()
+  for (const message of messages) {
+    let group = groups.get(message.reason)
+    if (!group) {
+      group = { reason: message.reason, count: 0, messageIds: [], sample: message.error || message.reason }
+      groups.set(message.reason, group)
+    }
+    group.count++
+    group.messageIds.push(message.messageId)
+  }
+  return [...groups.values()].sort((a, b) => b.count - a.count || a.reason.localeCompare(b.reason))
+}
+
+function matchesSelection(message: DeadLetterMessage, selection: DeadLetterSelection): boolean {
+  if (selection.all) return true
+  if (selection.messageIds?.length && !selection.messageIds.includes(message.messageId)) return false
+  if (selection.reason && message.reason !== selection.reason) return false
+  return Boolean(selection.messageIds?.length || selection.reason)
+}
+
+// ============================================================================
+// Dead-Letter Queue
+// ============================================================================
+
+/**
+ * Inspects, replays and purges the messages of a dead-letter queue
+ */
+export class DeadLetterQueue {
+  private readonly client: SQSClient
+  private readonly options: Required<Omit<DeadLetterQueueOptions, 'getFailures'>> & Pick<DeadLetterQueueOptions, 'getFailures'>
+
+  constructor(client: SQSClient, options: DeadLetterQueueOptions) {
+    this.client = client
+    this.options = {
+      visibilityTimeout: 30,
+      maxMessages: 1000,
+      ...options,
+    }
+  }
+
+  /**
+   * Read the queue's messages, optionally only the selected ones
+   */
+  async list(selection: DeadLetterSelection = { all: true }): Promise<DeadLetterMessage[]> {
+    const received: Array<{ MessageId: string, ReceiptHandle: string, Body: string, Attributes?: Record<string, string> }> = []
+
+    while (received.length < this.options.maxMessages) {
+      const response = await this.client.receiveMessage({
+        QueueUrl: this.options.deadLetterQueueUrl,
+        MaxNumberOfMessages: Math.min(10, this.options.maxMessages - received.length),
+        VisibilityTimeout: this.options.visibilityTimeout,
+        WaitTimeSeconds: 0,
+        AttributeNames: ['ApproximateReceiveCount', 'SentTimestamp'],
+      })
+      if (!response.Messages || response.Messages.length === 0) break
+      received.push(...response.Messages)
+    }
+
+    const failures = this.options.getFailures && received.length > 0
+      ? await this.options.getFailures(received.map(message => message.MessageId))
+      : new Map<string, string>()
+
+    const messages = received.map((raw): DeadLetterMessage => {
+      const { message, problem } = decodeDeadLetterBody(raw.Body)
+      const error = failures.get(raw.MessageId)
+      const sentTimestamp = Number(raw.Attributes?.SentTimestamp)
+      return {
+        messageId: raw.MessageId,
+        receiptHandle: raw.ReceiptHandle,
+        body: raw.Body,
+        ...(message && { message }),
+        reason: problem || (error ? categorizeFailure(error) : 'unknown'),
+        ...(error && { error }),
+        ...(raw.Attributes?.ApproximateReceiveCount && { receiveCount: Number(raw.Attributes.ApproximateReceiveCount) }),
+        ...(sentTimestamp > 0 && { sentAt: new Date(sentTimestamp).toISOString() }),
+      }
+    })
+
+    return messages.filter(message => matchesSelection(message, selection))
+  }
+
+  /**
+   * Messages grouped by failure reason
+   */
+  async groups(): Promise<DeadLetterGroup[]> {
+    return groupDeadLetters(await this.list())
+  }
+
+  /**
+   * Decode one message, with the fixes a rewriting replay would apply
+   */
+  async preview(messageId: string): Promise<{
+    message: DeadLetterMessage
+    events: AnalyticsEvent[]
+    rewrite: { changes: string[], problem?: string }
+  } | null> {
+    const [message] = await this.list({ messageIds: [messageId] })
+    if (!message) return null
+
+    const rewrite = rewriteDeadLetterBody(message.body)
+    return {
+      message,
+      events: message.message?.events || [],
+      rewrite: { changes: rewrite.changes, ...(rewrite.problem && { problem: rewrite.problem }) },
+    }
+  }
+
+  /**
+   * Send the selected messages back to the main queue and remove them from the
+   * dead-letter queue. With `rewrite`, schema problems are fixed first (see
+   * `rewriteDeadLetterBody`); a function also rewrites each event.
+   */
+  async replay(selection: DeadLetterSelection, options: { rewrite?: boolean | DeadLetterRewrite } = {}): Promise<DeadLetterReplayResult> {
+    const result: DeadLetterReplayResult = { replayed: [], skipped: [], failed: [], rewritten: [] }
+    const messages = await this.list(selection)
+
+    for (const message of messages) {
+      let batch = message.message
+      if (options.rewrite) {
+        const rewrite = rewriteDeadLetterBody(message.body, typeof options.rewrite === 'function' ? options.rewrite : undefined)
+        batch = rewrite.message
+        if (batch && rewrite.changes.length > 0) {
+          result.rewritten.push({ messageId: message.messageId, changes: rewrite.changes })
+        }
+      }
+      if (!batch) {
+        result.skipped.push({ messageId: message.messageId, reason: message.reason })
+        continue
+      }
+
+      try {
+        await this.client.sendMessage({
+          QueueUrl: this.options.queueUrl,
+          MessageBody: JSON.stringify({ ...batch, retryCount: (batch.retryCount || 0) + 1 }),
+        })
+        await this.client.deleteMessage({
+          QueueUrl: this.options.deadLetterQueueUrl,
+          ReceiptHandle: message.receiptHandle,
+        })
+        result.replayed.push(message.messageId)
+      } catch (error) {
+        result.failed.push({ messageId: message.messageId, error: error instanceof Error ? error.message : String(error) })
+      }
+    }
+
+    return result
+  }
+
+  /**
+   * Delete the selected messages
+   */
+  async purge(selection: DeadLetterSelection): Promise<DeadLetterPurgeResult> {
+    const result: DeadLetterPurgeResult = { purged: [], failed: [] }
+    const messages = await this.list(selection)
+
+    for (let i = 0; i < messages.length; i += 10) {
+      const chunk = messages.slice(i, i + 10)
+      try {
+        const response = await this.client.deleteMessageBatch({
+          QueueUrl: this.options.deadLetterQueueUrl,
+          Entries: chunk.map((message, index) => ({ Id: String(index), ReceiptHandle: message.receiptHandle })),
+        })
+        const failed = new Map((response.Failed || []).map(entry => [entry.Id, entry.Code]))
+        chunk.forEach((message, index) => {
+          const code = failed.get(String(index))
+          if (code) result.failed.push({ messageId: message.messageId, error: code })
+          else result.purged.push(message.messageId)
+        })
+      } catch (error) {
+        const message = error instanceof Error ? error.message : String(error)
+        result.failed.push(...chunk.map(entry => ({ messageId: entry.messageId, error: message })))
+      }
+    }
+
+    return result
+  }
+}
+
+// ============================================================================
+// In-Memory SQS Client
+// ============================================================================
+
+interface InMemoryMessage {
+  MessageId: string
+  Body: string
+  ReceiptHandle?: string
+  visibleAt: number
+  receiveCount: number
+  sentAt: number
+}
+
+/**
+ * An `SQSClient` that keeps queues in memory, for tests and local development.
+ * Honours visibility timeouts; `now` can be replaced to move time forward.
+ */
+export class InMemorySQSClient implements SQSClient {
+  private readonly queues = new Map<string, InMemoryMessage[]>()
+  now: () => number
+
+  constructor(now: () => number = Date.now) {
+    this.now = now
+  }
+
+  /**
+   * Bodies of every message in a queue, hidden ones included
+   */
+  peek(queueUrl: string): string[] {
+    return this.getQueue(queueUrl).map(message => message.Body)
+  }
+
+  async sendMessage(input: Parameters<SQSClient['sendMessage']>[0]): ReturnType<SQSClient['sendMessage']> {
+    const message = this.enqueue(input.QueueUrl, input.MessageBody)
+    return { MessageId: message.MessageId }
+  }
+
+  async sendMessageBatch(input: Parameters<SQSClient['sendMessageBatch']>[0]): ReturnType<SQSClient['sendMessageBatch']> {
+    return {
+      Successful: input.Entries.map(entry => ({
+        Id: entry.Id,
+        MessageId: this.enqueue(input.QueueUrl, entry.MessageBody).MessageId,
+      })),
+      Failed: [],
+    }
+  }
+
+  async receiveMessage(input: Parameters<SQSClient['receiveMessage']>[0]): ReturnType<SQSClient['receiveMessage']> {
+    const now = this.now()
+    const visible = this.getQueue(input.QueueUrl)
+      .filter(message => message.visibleAt <= now)
+      .slice(0, input.MaxNumberOfMessages ?? 1)
+
+    for (const message of visible) {
+      message.ReceiptHandle = crypto.randomUUID()
+      message.visibleAt = now + (input.VisibilityTimeout ?? 30) * 1000
+      message.receiveCount++
+    }
+
+    return {
+      Messages: visible.map(message => ({
+        MessageId: message.MessageId,
+        ReceiptHandle: message.ReceiptHandle!,
+        Body: message.Body,
+        Attributes: {
+          ApproximateReceiveCount: String(message.receiveCount),
+          SentTimestamp: String(message.sentAt),
+        },
+      })),
+    }
+  }
+
+  async deleteMessage(input: Parameters<SQSClient['deleteMessage']>[0]): Promise<void> {
+    const queue = this.getQueue(input.QueueUrl)
+    const index = queue.findIndex(message => message.ReceiptHandle === input.ReceiptHandle)
+    if (index === -1) throw new Error('ReceiptHandleIsInvalid')
+    queue.splice(index, 1)
+  }
+
+  async deleteMessageBatch(input: Parameters<SQSClient['deleteMessageBatch']>[0]): ReturnType<SQSClient['deleteMessageBatch']> {
+    const successful: Array<{ Id: string }> = []
+    const failed: Array<{ Id: string, Code: string }> = []
+    for (const entry of input.Entries) {
+      try {
+        await this.deleteMessage({ QueueUrl: input.QueueUrl, ReceiptHandle: entry.ReceiptHandle })
+        successful.push({ Id: entry.Id })
+      } catch {
+        failed.push({ Id: entry.Id, Code: 'ReceiptHandleIsInvalid' })
+      }
+    }
+    return { Successful: successful, Failed: failed }
+  }
+
+  private enqueue(queueUrl: string, body: string): InMemoryMessage {
+    const message: InMemoryMessage = {
+      MessageId: crypto.randomUUID(),
+      Body: body,
+      visibleAt: 0,
+      receiveCount: 0,
+      sentAt: this.now(),
+    }
+    this.getQueue(queueUrl).push(message)
+    return message
+  }
+
+  private getQueue(queueUrl: string): InMemoryMessage[] {
+    let queue = this.queues.get(queueUrl)
+    if (!queue) {
+      queue = []
+      this.queues.set(queueUrl, queue)
+    }
+    return queue
+  }
+}
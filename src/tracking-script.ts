@@ -5,6 +5,8 @@
  * Supports page views, custom events, scroll tracking, outbound links, and more.
  */
 
+import { PAYLOAD_VERSION } from './utils/payload-schema'
+
 // ============================================================================
 // Types
 // ============================================================================
@@ -24,6 +26,8 @@ export interface TrackingScriptConfig {
   trackScrollDepth?: number[]
   /** Track time on page (intervals in seconds) */
   trackTimeOnPage?: number[]
+  /** Send engaged (foreground) time in pageleave events (default: true) */
+  trackEngagement?: boolean
   /** Respect Do Not Track header */
   honorDnt?: boolean
   /** Cookie domain (for cross-subdomain tracking) */
@@ -147,6 +151,12 @@ function buildScript(config: TrackingScriptConfig): string {
     parts.push('')
   }
 
+  // Engaged time tracking
+  if (config.trackEngagement !== false) {
+    parts.push(buildEngagementTracking())
+    parts.push('')
+  }
+
   // Scroll tracking
   if (config.trackScrollDepth?.length) {
     parts.push(buildScrollTracking(config.trackScrollDepth))
@@ -247,6 +257,18 @@ function shouldTrack() {
   return true;
 }
 
+function getHeadlessHints() {
+  var hints = [];
+  try {
+    if (navigator.webdriver) hints.push('webdriver');
+    if (window._phantom || window.callPhantom) hints.push('phantom');
+    if (window.__nightmare) hints.push('nightmare');
+    if (window._selenium || window.__selenium_unwrapped || document.documentElement.getAttribute('webdriver')) hints.push('selenium');
+    if (navigator.languages && navigator.languages.length === 0) hints.push('no_languages');
+  } catch (e) {}
+  return hints;
+}
+
 function sendBeacon(data) {
   var payload = JSON.stringify(data);
 
@@ -323,17 +345,23 @@ function updateSessionActivity() {
 
 function buildCoreTracking(config: TrackingScriptConfig): string {
   return `// Core Tracking
+function getPageUrl() {
+  if (CONFIG.excludeQueryParams) {
+    return window.location.origin + window.location.pathname;
+  }
+  return window.location.href;
+}
+
 function track(eventType, eventData) {
   if (!shouldTrack()) return;
 
   eventData = eventData || {};
 
-  var url = window.location.href;
-  if (CONFIG.excludeQueryParams) {
-    url = window.location.origin + window.location.pathname;
-  }
+  // Events about a page that was already left carry its URL
+  var url = eventData.url || getPageUrl();
 
   var payload = {
+    v: ${PAYLOAD_VERSION},
     s: CONFIG.siteId,
     sid: session.id,
     e: eventType,
@@ -345,11 +373,18 @@ function track(eventType, eventData) {
     ts: Date.now()
   };
 
-  // Add event properties
-  if (eventData.name) payload.en = eventData.name;
-  if (eventData.category) payload.ec = eventData.category;
-  if (eventData.value !== undefined) payload.ev = eventData.value;
-  if (eventData.properties) payload.p = eventData.properties;
+  var hints = getHeadlessHints();
+  if (hints.length) payload.hl = hints;
+
+  // Add event properties (name, category and value are properties in v${PAYLOAD_VERSION})
+  var properties = {};
+  for (var key in eventData.properties) {
+    if (Object.prototype.hasOwnProperty.call(eventData.properties, key)) properties[key] = eventData.properties[key];
+  }
+  if (eventData.name) properties.name = eventData.name;
+  if (eventData.category) properties.category = eventData.category;
+  if (eventData.value !== undefined) properties.value = eventData.value;
+  payload.p = properties;
 
   sendBeacon(payload);
   updateSessionActivity();
@@ -371,6 +406,15 @@ function trackEvent(name, properties, category, value) {
     value: value,
     properties: properties
   });
+}
+
+function trackEcommerce(action, data) {
+  var properties = {};
+  for (var key in data) {
+    if (Object.prototype.hasOwnProperty.call(data, key)) properties[key] = data[key];
+  }
+  properties.action = action;
+  track('ecommerce', { properties: properties });
 }`
 }
 
@@ -412,6 +456,59 @@ window.addEventListener('popstate', function() {
 });`
 }
 
+function buildEngagementTracking(): string {
+  return `// Engaged Time Tracking
+// Foreground time per page, paused while the tab is hidden. Each report (when the
+// tab is hidden, the page is unloaded or an SPA navigates away) carries the time
+// since the previous one.
+var engagedMs = 0;
+var engagedSince = document.visibilityState === 'hidden' ? null : Date.now();
+var engagedUrl = getPageUrl();
+
+function pauseEngagement() {
+  if (engagedSince !== null) {
+    engagedMs += Date.now() - engagedSince;
+    engagedSince = null;
+  }
+}
+
+function resumeEngagement() {
+  if (engagedSince === null && document.visibilityState !== 'hidden') {
+    engagedSince = Date.now();
+  }
+}
+
+function sendPageLeave() {
+  pauseEngagement();
+  // Shorter reports are kept until the next one
+  if (session && engagedMs >= 1000) {
+    track('pageleave', { url: engagedUrl, properties: { engagedMs: engagedMs } });
+    log('Engaged time reported:', engagedMs + 'ms');
+    engagedMs = 0;
+  }
+  resumeEngagement();
+}
+
+// A page view starts a new page: report the one being left first
+var trackPageViewWithoutEngagement = trackPageView;
+trackPageView = function(path, title) {
+  sendPageLeave();
+  engagedMs = 0;
+  engagedUrl = getPageUrl();
+  trackPageViewWithoutEngagement(path, title);
+};
+
+document.addEventListener('visibilitychange', function() {
+  if (document.visibilityState === 'hidden') {
+    sendPageLeave();
+  } else {
+    resumeEngagement();
+  }
+});
+
+window.addEventListener('pagehide', sendPageLeave);`
+}
+
 function buildScrollTracking(depths: number[]): string {
   return `// Scroll Depth Tracking
 var scrollDepths = ${JSON.stringify(depths)};
@@ -540,6 +637,11 @@ window.sa = function(command) {
       trackEvent(args[0], args[1], args[2], args[3]);
       break;
 
+    case 'ecommerce':
+    case 'trackEcommerce':
+      trackEcommerce(args[0], args[1] || {});
+      break;
+
     case 'identify':
       // Store user ID for future events
       session.userId = args[0];
@@ -699,10 +801,11 @@ document.addEventListener('click', function(event) {
   if (text) clickData.text = text;
 
   sendBeacon({
+    v: ${PAYLOAD_VERSION},
     s: CONFIG.siteId,
     sid: session.id,
     e: 'hm_click',
-    u: window.location.pathname,
+    u: window.location.href,
     p: clickData,
     ts: Date.now()
   });
@@ -724,10 +827,11 @@ function flushMovements() {
   if (movementBuffer.length === 0) return;
 
   sendBeacon({
+    v: ${PAYLOAD_VERSION},
     s: CONFIG.siteId,
     sid: session.id,
     e: 'hm_move',
-    u: window.location.pathname,
+    u: window.location.href,
     p: {
       points: movementBuffer.slice(),
       vw: window.innerWidth,
@@ -805,10 +909,11 @@ window.addEventListener('beforeunload', function() {
       scrollDepthTimes[bucket] = (scrollDepthTimes[bucket] || 0) + (Date.now() - scrollStartTime);
     }
     sendBeacon({
+      v: ${PAYLOAD_VERSION},
       s: CONFIG.siteId,
       sid: session.id,
       e: 'hm_scroll',
-      u: window.location.pathname,
+      u: window.location.href,
       p: {
         depths: scrollDepthTimes,
         maxDepth: maxScrollDepth,
@@ -875,7 +980,7 @@ ${config.honorDnt ? "if(navigator.doNotTrack==='1')return;" : ''}
 var sid=sessionStorage.getItem('sa_s')||Math.random().toString(36).slice(2);
 sessionStorage.setItem('sa_s',sid);
 navigator.sendBeacon(e,JSON.stringify({
-s:s,sid:sid,e:'pageview',
+v:${PAYLOAD_VERSION},s:s,sid:sid,e:'pageview',
 u:location.href,r:document.referrer,t:document.title,
 sw:screen.width,sh:screen.height
 }));
@@ -898,6 +1003,8 @@ gtag('config', '${config.siteId}', {
 (function(){
   var endpoint = '${config.apiEndpoint}/collect';
   var siteId = '${config.siteId}';
+  var sid = sessionStorage.getItem('sa_s') || Math.random().toString(36).slice(2);
+  sessionStorage.setItem('sa_s', sid);
 
   function processDataLayer() {
     while (dataLayer.length > 0) {
@@ -906,10 +1013,12 @@ gtag('config', '${config.siteId}', {
         item();
       } else if (item[0] === 'event') {
         navigator.sendBeacon && navigator.sendBeacon(endpoint, JSON.stringify({
+          v: ${PAYLOAD_VERSION},
           s: siteId,
+          sid: sid,
           e: 'event',
-          en: item[1],
-          p: item[2]
+          u: location.href,
+          p: Object.assign({}, item[2], { name: item[1] })
         }));
       }
     }
@@ -13,6 +13,9 @@
  * @see https://github.com/stacksjs/dynamodb-tooling
  */
 
+import type { EcommerceRecord } from './utils/ecommerce'
+import type { SiteIngestionPolicy } from './utils/site-policy'
+
 // ============================================================================
 // DynamoDB Single-Table Design Types
 // These types are compatible with dynamodb-tooling's SingleTableDesignConfig
@@ -232,12 +235,16 @@ export interface Site {
   domains: string[]
   /** Site timezone */
   timezone: string
+  /** Reporting currency (ISO 4217, defaults to `ecommerce.defaultCurrency` in the config) */
+  currency?: string
   /** Whether site is active */
   isActive: boolean
   /** Owner user ID */
   ownerId: string
   /** Site settings */
   settings: SiteSettings
+  /** Which events the site accepts (defaults to `sitePolicy` in the config) */
+  ingestionPolicy?: SiteIngestionPolicy
   /** Created timestamp */
   createdAt: Date
   /** Updated timestamp */
@@ -265,6 +272,8 @@ export interface PageView {
   path: string
   /** Page hostname */
   hostname: string
+  /** Hostname is outside the site's domain allowlist (accepted under the `tag` policy) */
+  foreign?: boolean
   /** Page title (optional) */
   title?: string
   /** Referrer URL */
@@ -341,6 +350,22 @@ export interface CustomEvent {
   ttl?: number
 }
 
+/**
+ * Ecommerce event (product interest, purchases and refunds)
+ */
+export interface EcommerceEvent extends EcommerceRecord {
+  /** Unique event ID */
+  id: string
+  /** Site ID */
+  siteId: string
+  /** Visitor ID (hashed, anonymous) */
+  visitorId: string
+  /** Session ID */
+  sessionId: string
+  /** Page path where the event occurred */
+  path: string
+}
+
 /**
  * Session (visitor session)
  */
@@ -379,18 +404,38 @@ export interface Session {
   pageViewCount: number
   /** Event count */
   eventCount: number
-  /** Is bounce (single page session) */
+  /** Is bounce (single page session without sessions.engagementThresholdSeconds of engaged time) */
   isBounce: boolean
-  /** Session duration (milliseconds) */
+  /** Session duration (milliseconds) - the span between hits, or the engaged time when longer */
   duration: number
+  /** Foreground time reported by pageleave events (milliseconds) */
+  engagedTime?: number
   /** Session start */
   startedAt: Date
   /** Session end (last activity) */
   endedAt: Date
+  /** Ordered page and event steps, capped at tracking.maxJourneySteps */
+  journey?: JourneyStep[]
+  /** Write count, bumped with each cached write; a stored session only replaces lower versions */
+  version?: number
   /** TTL for auto-deletion */
   ttl?: number
 }
 
+/**
+ * One step of a session's journey
+ */
+export interface JourneyStep {
+  /** Step type */
+  type: 'pageview' | 'event'
+  /** Page path the step happened on */
+  path: string
+  /** Event name (event steps only) */
+  name?: string
+  /** ISO timestamp */
+  timestamp: string
+}
+
 /**
  * Goal type
  */
@@ -475,10 +520,14 @@ export interface AggregatedStats {
   pageViews: number
   /** Unique visitors */
   uniqueVisitors: number
+  /** Sketch of the unique visitors, for merging with other periods (see utils/hyperloglog) */
+  visitorSketch?: string
   /** Sessions */
   sessions: number
   /** Bounces */
   bounces: number
+  /** Custom events of the period's sessions */
+  events?: number
   /** Bounce rate (0-1) */
   bounceRate: number
   /** Average session duration (milliseconds) */
@@ -515,6 +564,8 @@ export interface PageStats {
   pageViews: number
   /** Unique visitors */
   uniqueVisitors: number
+  /** Sketch of the unique visitors, for merging with other periods (see utils/hyperloglog) */
+  visitorSketch?: string
   /** Entries (sessions starting on this page) */
   entries: number
   /** Exits (sessions ending on this page) */
@@ -543,6 +594,8 @@ export interface ReferrerStats {
   referrer?: string
   /** Visitors from this referrer */
   visitors: number
+  /** Sketch of the visitors, for merging with other periods (see utils/hyperloglog) */
+  visitorSketch?: string
   /** Page views from this referrer */
   pageViews: number
   /** Bounce rate (0-1) */
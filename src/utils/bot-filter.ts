@@ -0,0 +1,265 @@
+/**
+ * Bot and crawler detection for the ingestion path
+ *
+ * Detection is layered, cheapest first:
+ * 1. Per-site custom rules (allow rules short-circuit everything else)
+ * 2. User-agent signatures (crawlers, HTTP libraries, headless browsers)
+ * 3. Headless-browser hints reported by the tracking script
+ * 4. Known datacenter CIDR ranges from the bundled list
+ */
+
+import { isBot } from './user-agent'
+
+export type BotReason = 'user_agent' | 'headless' | 'datacenter' | 'custom_rule' | 'referrer_spam'
+
+export interface BotCheckResult {
+  isBot: boolean
+  reason?: BotReason
+  /** What matched, e.g. the UA signature, headless hint or provider name */
+  detail?: string
+}
+
+/**
+ * Per-site custom rule
+ *
+ * - `userAgent` / `path`: case-insensitive substring match, `*` wildcards allowed
+ * - `ip`: exact address or IPv4 CIDR range
+ */
+export interface BotRule {
+  type: 'userAgent' | 'ip' | 'path'
+  pattern: string
+  action?: 'block' | 'allow'
+  label?: string
+}
+
+export interface BotCheckInput {
+  userAgent: string
+  ip: string
+  path?: string
+  /** Headless hints sent by the tracker in the `hl` field */
+  hints?: unknown
+  rules?: BotRule[]
+}
+
+/**
+ * User-agent signatures not covered by isBot(): automation tools,
+ * HTTP client libraries, headless browsers and uptime monitors
+ */
+export const BOT_UA_SIGNATURES: string[] = [
+  'headlesschrome',
+  'phantomjs',
+  'puppeteer',
+  'playwright',
+  'selenium',
+  'webdriver',
+  'lighthouse',
+  'ptst',
+  'curl/',
+  'wget/',
+  'python-requests',
+  'python-urllib',
+  'aiohttp',
+  'httpx',
+  'go-http-client',
+  'java/',
+  'okhttp',
+  'axios/',
+  'node-fetch',
+  'undici',
+  'libwww-perl',
+  'scrapy',
+  'httpclient',
+  'uptimerobot',
+  'pingdom',
+  'statuscake',
+  'site24x7',
+  'facebookexternalhit',
+  'whatsapp',
+]
+
+/**
+ * Headless hints the tracker may report
+ */
+export const HEADLESS_HINTS = ['webdriver', 'phantom', 'nightmare', 'selenium', 'no_languages'] as const
+
+/**
+ * Bundled datacenter IPv4 ranges, grouped by provider.
+ * Not exhaustive - it covers the large clouds that most scripted traffic comes from.
+ */
+export const DATACENTER_CIDRS: Record<string, string[]> = {
+  aws: ['3.0.0.0/9', '18.128.0.0/9', '34.192.0.0/10', '52.0.0.0/10', '54.144.0.0/12'],
+  gcp: ['34.64.0.0/10', '35.184.0.0/13', '104.196.0.0/14', '130.211.0.0/16'],
+  azure: ['13.64.0.0/11', '20.0.0.0/11', '40.64.0.0/10', '52.224.0.0/11'],
+  digitalocean: ['104.131.0.0/16', '138.68.0.0/16', '159.65.0.0/16', '167.99.0.0/16', '178.62.0.0/17', '206.189.0.0/16'],
+  hetzner: ['5.9.0.0/16', '65.108.0.0/16', '88.198.0.0/16', '95.216.0.0/16', '116.202.0.0/16', '135.181.0.0/16'],
+  ovh: ['51.38.0.0/16', '51.68.0.0/16', '54.36.0.0/14', '137.74.0.0/16', '145.239.0.0/16', '147.135.0.0/16'],
+  linode: ['45.33.0.0/17', '45.56.64.0/18', '139.162.0.0/16', '172.104.0.0/15'],
+}
+
+interface ParsedCidr {
+  provider: string
+  base: number
+  mask: number
+}
+
+let parsedDatacenterCidrs: ParsedCidr[] | null = null
+
+/**
+ * Parse a dotted IPv4 address (IPv4-mapped IPv6 accepted) into an unsigned int
+ */
+export function ipv4ToInt(ip: string): number | null {
+  const address = ip.trim().replace(/^::ffff:/i, '')
+  const parts = address.split('.')
+  if (parts.length !== 4) return null
+
+  let result = 0
+  for (const part of parts) {
+    if (!/^\d{1,3}$/.test(part)) return null
+    const octet = Number(part)
+    if (octet > 255) return null
+    result = result * 256 + octet
+  }
+  return result
+}
+
+function parseCidr(cidr: string): { base: number, mask: number } | null {
+  const [address, bitsStr] = cidr.split('/')
+  const base = ipv4ToInt(address)
+  const bits = bitsStr === undefined ? 32 : Number(bitsStr)
+  if (base === null || !Number.isInteger(bits) || bits < 0 || bits > 32) return null
+
+  const mask = bits === 0 ? 0 : (0xFFFFFFFF << (32 - bits)) >>> 0
+  return { base: (base & mask) >>> 0, mask }
+}
+
+/**
+ * Check whether an IPv4 address falls inside a CIDR range (or equals a bare address)
+ */
+export function ipInCidr(ip: string, cidr: string): boolean {
+  const value = ipv4ToInt(ip)
+  const range = parseCidr(cidr)
+  if (value === null || !range) return false
+  return ((value & range.mask) >>> 0) === range.base
+}
+
+/**
+ * Return the datacenter provider owning an IP, if any
+ */
+export function getDatacenterProvider(ip: string): string | null {
+  const value = ipv4ToInt(ip)
+  if (value === null) return null
+
+  if (!parsedDatacenterCidrs) {
+    parsedDatacenterCidrs = []
+    for (const [provider, cidrs] of Object.entries(DATACENTER_CIDRS)) {
+      for (const cidr of cidrs) {
+        const range = parseCidr(cidr)
+        if (range) parsedDatacenterCidrs.push({ provider, ...range })
+      }
+    }
+  }
+
+  const match = parsedDatacenterCidrs.find(range => ((value & range.mask) >>> 0) === range.base)
+  return match?.provider ?? null
+}
+
+/**
+ * Return the first bot signature found in a user agent, if any
+ */
+export function matchBotSignature(userAgent: string): string | null {
+  if (!userAgent || !userAgent.trim() || userAgent === 'unknown') return 'empty'
+  if (isBot(userAgent)) {
+    const name = userAgent.match(/[\w.-]*(?:bot|crawl|spider|slurp)[\w.-]*/i)
+    return name ? name[0].toLowerCase() : 'crawler'
+  }
+
+  const ua = userAgent.toLowerCase()
+  return BOT_UA_SIGNATURES.find(signature => ua.includes(signature)) ?? null
+}
+
+/**
+ * Normalize the tracker's headless hints (array or comma-separated string)
+ */
+export function parseHeadlessHints(hints: unknown): string[] {
+  const list = Array.isArray(hints)
+    ? hints
+    : typeof hints === 'string' ? hints.split(',') : []
+
+  return list
+    .map(hint => String(hint).trim().toLowerCase())
+    .filter(hint => (HEADLESS_HINTS as readonly string[]).includes(hint))
+}
+
+function matchWildcard(pattern: string, value: string): boolean {
+  const needle = pattern.toLowerCase()
+  const haystack = value.toLowerCase()
+  if (!needle.includes('*')) return haystack.includes(needle)
+
+  const escaped = needle.replace(/[.+?^${}()|[\]\\]/g, '\\$&').replace(/\*/g, '.*')
+  return new RegExp(`^${escaped}$`).test(haystack)
+}
+
+/**
+ * Check whether a custom rule matches the request
+ */
+export function matchBotRule(rule: BotRule, input: Pick<BotCheckInput, 'userAgent' | 'ip' | 'path'>): boolean {
+  if (!rule?.pattern) return false
+
+  switch (rule.type) {
+    case 'userAgent':
+      return matchWildcard(rule.pattern, input.userAgent || '')
+    case 'path':
+      return !!input.path && matchWildcard(rule.pattern, input.path)
+    case 'ip':
+      return rule.pattern.includes('/')
+        ? ipInCidr(input.ip, rule.pattern)
+        : input.ip.replace(/^::ffff:/i, '') === rule.pattern
+    default:
+      return false
+  }
+}
+
+/**
+ * Run all detection layers against a single hit
+ */
+export function detectBot(input: BotCheckInput): BotCheckResult {
+  for (const rule of input.rules || []) {
+    if (!matchBotRule(rule, input)) continue
+    if (rule.action === 'allow') return { isBot: false }
+    return { isBot: true, reason: 'custom_rule', detail: rule.label || `${rule.type}:${rule.pattern}` }
+  }
+
+  const signature = matchBotSignature(input.userAgent)
+  if (signature) {
+    return { isBot: true, reason: 'user_agent', detail: signature }
+  }
+
+  const hints = parseHeadlessHints(input.hints)
+  if (hints.length > 0) {
+    return { isBot: true, reason: 'headless', detail: hints[0] }
+  }
+
+  const provider = getDatacenterProvider(input.ip)
+  if (provider) {
+    return { isBot: true, reason: 'datacenter', detail: provider }
+  }
+
+  return { isBot: false }
+}
+
+/**
+ * Validate and normalize custom rules from an API request body
+ */
+export function normalizeBotRules(rules: unknown): BotRule[] {
+  if (!Array.isArray(rules)) return []
+
+  return rules
+    .filter((rule): rule is Record<string, any> => !!rule && typeof rule === 'object')
+    .filter(rule => ['userAgent', 'ip', 'path'].includes(rule.type) && typeof rule.pattern === 'string' && rule.pattern.trim() !== '')
+    .map(rule => ({
+      type: rule.type as BotRule['type'],
+      pattern: rule.pattern.trim(),
+      action: rule.action === 'allow' ? 'allow' as const : 'block' as const,
+      ...(typeof rule.label === 'string' && rule.label && { label: rule.label.slice(0, 100) }),
+    }))
+}
@@ -1,115 +1,136 @@
 /**
- * In-memory caching utilities for Lambda
+ * Caching utilities for Lambda
  *
- * Note: These caches reset on cold start and are not shared across Lambda instances.
- * They're designed to reduce database queries within a single request or warm instance.
+ * Sessions, goals and conversion dedupe live in the shared cache configured by
+ * `cache.store`: per instance in memory, or shared across instances through Redis.
+ * Session writes are compare-and-set, so concurrent hits of a session don't
+ * overwrite each other. The generic cache always stays in memory, reset on cold start.
  */
 
+import type { SharedCache } from '../../src/index'
 import type { Session } from '../../src/types'
-import type { Goal } from '../../src/models/orm'
+import type { SiteGoal } from '../lib/goals'
+import { FallbackSharedCache, getConfig, MemorySharedCache, RedisConnection, RedisSharedCache } from '../../src/index'
+
+// Shared cache (lazy initialized from config)
+let sharedCache: SharedCache | null = null
+
+/**
+ * The configured shared cache. The Redis store falls back to memory while it is unavailable.
+ */
+export function getSharedCache(): SharedCache {
+  if (!sharedCache) {
+    const { cache } = getConfig()
+    if (cache.store === 'redis' && cache.redisUrl) {
+      const redis = new RedisSharedCache(new RedisConnection({ url: cache.redisUrl, timeoutMs: cache.timeoutMs }), { keyPrefix: cache.keyPrefix })
+      sharedCache = new FallbackSharedCache(redis, new MemorySharedCache(), { retryAfterMs: cache.retryAfterMs })
+    }
+    else {
+      if (cache.store === 'redis') {
+        console.warn('[Cache] cache.store is redis but no cache.redisUrl is set, using memory')
+      }
+      sharedCache = new MemorySharedCache()
+    }
+  }
+  return sharedCache
+}
 
 // Session cache
-const sessionCache = new Map<string, { session: Session; expires: number }>()
+const SESSION_CACHE_TTL = 1800 // 30 minutes
 
 /**
- * Get a session from cache
+ * A cached session and the version to compare-and-set it against
  */
-export function getSession(key: string): Session | null {
-  const cached = sessionCache.get(key)
-  if (cached && cached.expires > Date.now()) {
-    return cached.session
+export interface CachedSession {
+  session: Session
+  version: number
+}
+
+function parseSession(value: string): Session {
+  const session = JSON.parse(value)
+  return {
+    ...session,
+    startedAt: new Date(session.startedAt),
+    ...(session.endedAt && { endedAt: new Date(session.endedAt) }),
   }
-  sessionCache.delete(key)
-  return null
 }
 
 /**
- * Store a session in cache
+ * Get a session from cache
  */
-export function setSession(key: string, session: Session, ttlSeconds = 1800): void {
-  sessionCache.set(key, {
-    session,
-    expires: Date.now() + ttlSeconds * 1000,
-  })
+export async function getSession(key: string): Promise<CachedSession | null> {
+  const entry = await getSharedCache().get(`session:${key}`)
+  return entry ? { session: parseSession(entry.value), version: entry.version } : null
+}
+
+/**
+ * Store a session in cache, returning its version
+ */
+export async function setSession(key: string, session: Session, ttlSeconds = SESSION_CACHE_TTL): Promise<number> {
+  return getSharedCache().set(`session:${key}`, JSON.stringify(session), ttlSeconds)
+}
+
+/**
+ * Store a session only if the cached one still has `expectedVersion` (null: if
+ * none is cached). Returns the new version, or null when another request changed it.
+ */
+export async function compareAndSetSession(
+  key: string,
+  session: Session,
+  expectedVersion: number | null,
+  ttlSeconds = SESSION_CACHE_TTL,
+): Promise<number | null> {
+  return getSharedCache().compareAndSet(`session:${key}`, JSON.stringify(session), expectedVersion, ttlSeconds)
 }
 
 /**
  * Delete a session from cache
  */
-export function deleteSession(key: string): void {
-  sessionCache.delete(key)
+export async function deleteSession(key: string): Promise<void> {
+  await getSharedCache().delete(`session:${key}`)
 }
 
 // Goal cache - stores goals per site for fast lookup during collect
-const goalCache = new Map<string, { goals: Goal[]; expires: number }>()
-const GOAL_CACHE_TTL = 5 * 60 * 1000 // 5 minutes
+const GOAL_CACHE_TTL = 5 * 60 // 5 minutes
 
 /**
  * Get cached goals for a site
  */
-export function getCachedGoals(siteId: string): Goal[] | null {
-  const cached = goalCache.get(siteId)
-  if (cached && cached.expires > Date.now()) {
-    return cached.goals
-  }
-  goalCache.delete(siteId)
-  return null
+export async function getCachedGoals(siteId: string): Promise<SiteGoal[] | null> {
+  const entry = await getSharedCache().get(`goals:${siteId}`)
+  return entry ? JSON.parse(entry.value) as SiteGoal[] : null
 }
 
 /**
  * Store goals in cache
  */
-export function setCachedGoals(siteId: string, goals: Goal[]): void {
-  goalCache.set(siteId, {
-    goals,
-    expires: Date.now() + GOAL_CACHE_TTL,
-  })
+export async function setCachedGoals(siteId: string, goals: SiteGoal[]): Promise<void> {
+  await getSharedCache().set(`goals:${siteId}`, JSON.stringify(goals), GOAL_CACHE_TTL)
 }
 
 /**
  * Invalidate goal cache for a site
  */
-export function invalidateGoalCache(siteId: string): void {
-  goalCache.delete(siteId)
+export async function invalidateGoalCache(siteId: string): Promise<void> {
+  await getSharedCache().delete(`goals:${siteId}`)
 }
 
 // Session conversion deduplication - prevents same goal from converting multiple times per session
-const sessionConversions = new Map<string, Set<string>>()
+const CONVERSION_DEDUPE_TTL = 24 * 60 * 60 // 1 day
 
 /**
- * Check if a goal has already been converted in this session
+ * Claim a goal's conversion for a session. Returns false when the session
+ * already converted it, so concurrent hits record it only once.
  */
-export function hasConverted(siteId: string, sessionId: string, goalId: string): boolean {
-  const key = `${siteId}:${sessionId}`
-  const converted = sessionConversions.get(key)
-  return converted?.has(goalId) ?? false
+export async function claimConversion(siteId: string, sessionId: string, goalId: string): Promise<boolean> {
+  return getSharedCache().addMember(`conversions:${siteId}:${sessionId}`, goalId, CONVERSION_DEDUPE_TTL)
 }
 
 /**
- * Mark a goal as converted for this session
+ * Release a claimed conversion that couldn't be recorded
  */
-export function markConverted(siteId: string, sessionId: string, goalId: string): void {
-  const key = `${siteId}:${sessionId}`
-  let converted = sessionConversions.get(key)
-  if (!converted) {
-    converted = new Set<string>()
-    sessionConversions.set(key, converted)
-  }
-  converted.add(goalId)
-
-  // Clean up old session conversion entries (keep last 1000)
-  if (sessionConversions.size > 1000) {
-    const keysToDelete = Array.from(sessionConversions.keys()).slice(0, 100)
-    keysToDelete.forEach(k => sessionConversions.delete(k))
-  }
-}
-
-/**
- * Get all converted goals for a session
- */
-export function getConvertedGoals(siteId: string, sessionId: string): Set<string> {
-  const key = `${siteId}:${sessionId}`
-  return sessionConversions.get(key) || new Set()
+export async function releaseConversion(siteId: string, sessionId: string, goalId: string): Promise<void> {
+  await getSharedCache().removeMember(`conversions:${siteId}:${sessionId}`, goalId)
 }
 
 // Generic cache for any data
@@ -137,12 +158,22 @@ export function setInCache<T>(key: string, data: T, ttlMs: number): void {
   })
 }
 
+/**
+ * Remove data from generic cache
+ */
+export function deleteFromCache(key: string): void {
+  genericCache.delete(key)
+}
+
 /**
  * Clear all caches (useful for testing)
  */
 export function clearAllCaches(): void {
-  sessionCache.clear()
-  goalCache.clear()
-  sessionConversions.clear()
+  if (sharedCache instanceof MemorySharedCache) {
+    sharedCache.clear()
+  }
+  else {
+    sharedCache = null
+  }
   genericCache.clear()
 }
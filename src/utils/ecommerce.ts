@@ -0,0 +1,367 @@
+/**
+ * Ecommerce events and revenue reports
+ *
+ * The tracker sends `ecommerce` events with an `action`:
+ * - `view_item`, `add_to_cart` and `begin_checkout` count product interest
+ * - `purchase` records an order; `refund` takes (part of) it back
+ *
+ * Purchases and refunds carry an order ID and are recorded once per order. Amounts
+ * are stored in the currency they were sent in and converted to the site's reporting
+ * currency when a report is built, using the rate table in the config.
+ */
+
+export const ECOMMERCE_ACTIONS = ['view_item', 'add_to_cart', 'begin_checkout', 'purchase', 'refund'] as const
+
+export type EcommerceAction = typeof ECOMMERCE_ACTIONS[number]
+
+/** Actions that need an order ID, and are recorded once per order */
+export const ORDER_ACTIONS: readonly EcommerceAction[] = ['purchase', 'refund']
+
+/** Line items kept per event */
+export const MAX_ECOMMERCE_ITEMS = 50
+
+/**
+ * A line item
+ */
+export interface EcommerceItem {
+  /** Product ID or SKU */
+  id: string
+  name?: string
+  category?: string
+  /** Unit price in the event's currency */
+  price: number
+  quantity: number
+}
+
+/**
+ * Units of each currency per unit of a common base, e.g. `{ USD: 1, EUR: 0.92 }`
+ */
+export type ExchangeRates = Record<string, number>
+
+/**
+ * A stored ecommerce event
+ */
+export interface EcommerceRecord {
+  action: EcommerceAction
+  orderId?: string
+  /** ISO 4217 currency code of `value` and the item prices */
+  currency: string
+  /** Order value - absent on a refund of the whole order */
+  value?: number
+  items: EcommerceItem[]
+  /** Traffic source of the session (UTM source, referrer source or `direct`) */
+  source?: string
+  visitorId?: string
+  timestamp: string
+}
+
+export function isCurrencyCode(value: unknown): value is string {
+  return typeof value === 'string' && /^[A-Z]{3}$/.test(value)
+}
+
+function toText(value: unknown, maxLength = 200): string | undefined {
+  if (typeof value !== 'string' && typeof value !== 'number') return undefined
+  const text = String(value).trim().slice(0, maxLength)
+  return text || undefined
+}
+
+/**
+ * Keep the valid line items: an ID, a non-negative price (default 0) and a positive
+ * whole quantity (default 1)
+ */
+export function normalizeEcommerceItems(raw: unknown, maxItems = MAX_ECOMMERCE_ITEMS): EcommerceItem[] {
+  if (!Array.isArray(raw)) return []
+
+  const items: EcommerceItem[] = []
+  for (const entry of raw) {
+    if (!entry || typeof entry !== 'object') continue
+    const item = entry as Record<string, unknown>
+
+    const id = toText(item.id)
+    const price = item.price === undefined ? 0 : item.price
+    const quantity = item.quantity === undefined ? 1 : item.quantity
+    if (!id || typeof price !== 'number' || !Number.isFinite(price) || price < 0) continue
+    if (typeof quantity !== 'number' || !Number.isInteger(quantity) || quantity < 1) continue
+
+    items.push({
+      id,
+      ...(toText(item.name) && { name: toText(item.name) }),
+      ...(toText(item.category) && { category: toText(item.category) }),
+      price,
+      quantity,
+    })
+    if (items.length >= maxItems) break
+  }
+  return items
+}
+
+/**
+ * Sum of price x quantity
+ */
+export function getItemsTotal(items: EcommerceItem[]): number {
+  return items.reduce((sum, item) => sum + item.price * item.quantity, 0)
+}
+
+/**
+ * Build the stored fields of a validated ecommerce event from its properties
+ *
+ * `value` defaults to the line-item total; a refund without value or items refunds
+ * the whole order.
+ */
+export function normalizeEcommerceEvent(
+  props: Record<string, any>,
+  defaultCurrency: string,
+): Omit<EcommerceRecord, 'source' | 'visitorId' | 'timestamp'> {
+  const items = normalizeEcommerceItems(props.items)
+  const value = typeof props.value === 'number' && Number.isFinite(props.value)
+    ? props.value
+    : items.length > 0 || props.action !== 'refund' ? getItemsTotal(items) : undefined
+
+  return {
+    action: props.action as EcommerceAction,
+    ...(toText(props.orderId) && { orderId: toText(props.orderId) }),
+    currency: isCurrencyCode(props.currency) ? props.currency : defaultCurrency,
+    ...(value !== undefined && { value }),
+    items,
+  }
+}
+
+/**
+ * Convert an amount between currencies. Returns null when a rate is missing.
+ */
+export function convertAmount(amount: number, from: string, to: string, rates: ExchangeRates): number | null {
+  if (from === to) return amount
+  const fromRate = rates[from]
+  const toRate = rates[to]
+  if (!fromRate || !toRate) return null
+  return amount / fromRate * toRate
+}
+
+function roundAmount(amount: number): number {
+  return Math.round(amount * 100) / 100
+}
+
+/**
+ * Currencies of purchases and refunds that can't be converted to `currency`
+ */
+export function getUnconvertedCurrencies(records: EcommerceRecord[], currency: string, rates: ExchangeRates): string[] {
+  const missing = new Set<string>()
+  for (const record of records) {
+    if (ORDER_ACTIONS.includes(record.action) && convertAmount(1, record.currency, currency, rates) === null) {
+      missing.add(record.currency)
+    }
+  }
+  return [...missing].sort()
+}
+
+/**
+ * Purchases by order ID, to resolve whole-order refunds and refund sources
+ */
+function indexOrders(records: EcommerceRecord[]): Map<string, EcommerceRecord> {
+  const orders = new Map<string, EcommerceRecord>()
+  for (const record of records) {
+    if (record.action === 'purchase' && record.orderId) {
+      orders.set(record.orderId, record)
+    }
+  }
+  return orders
+}
+
+/**
+ * Refunded amount of a refund (in its own currency)
+ */
+function getRefundAmount(refund: EcommerceRecord, orders: Map<string, EcommerceRecord>): { amount: number, currency: string } {
+  if (refund.value !== undefined) {
+    return { amount: refund.value, currency: refund.currency }
+  }
+  const order = refund.orderId ? orders.get(refund.orderId) : undefined
+  return order ? { amount: order.value || 0, currency: order.currency } : { amount: 0, currency: refund.currency }
+}
+
+export interface DailyRevenue {
+  date: string
+  grossRevenue: number
+  refundedRevenue: number
+  netRevenue: number
+  orders: number
+}
+
+export interface RevenueSummary {
+  currency: string
+  grossRevenue: number
+  refundedRevenue: number
+  /** Gross revenue less refunds */
+  netRevenue: number
+  orders: number
+  refunds: number
+  avgOrderValue: number
+  daily: DailyRevenue[]
+  /** Currencies skipped for lack of an exchange rate */
+  unconvertedCurrencies: string[]
+}
+
+/**
+ * Refund-adjusted revenue totals in `currency`
+ */
+export function summarizeRevenue(records: EcommerceRecord[], currency: string, rates: ExchangeRates): RevenueSummary {
+  const orders = indexOrders(records)
+  const days = new Map<string, DailyRevenue>()
+  let grossRevenue = 0
+  let refundedRevenue = 0
+  let orderCount = 0
+  let refundCount = 0
+
+  const getDay = (timestamp: string): DailyRevenue => {
+    const date = timestamp.slice(0, 10)
+    let day = days.get(date)
+    if (!day) {
+      day = { date, grossRevenue: 0, refundedRevenue: 0, netRevenue: 0, orders: 0 }
+      days.set(date, day)
+    }
+    return day
+  }
+
+  for (const record of records) {
+    if (record.action === 'purchase') {
+      const amount = convertAmount(record.value || 0, record.currency, currency, rates)
+      if (amount === null) continue
+      grossRevenue += amount
+      orderCount++
+      const day = getDay(record.timestamp)
+      day.grossRevenue += amount
+      day.orders++
+    } else if (record.action === 'refund') {
+      const refund = getRefundAmount(record, orders)
+      const amount = convertAmount(refund.amount, refund.currency, currency, rates)
+      if (amount === null) continue
+      refundedRevenue += amount
+      refundCount++
+      getDay(record.timestamp).refundedRevenue += amount
+    }
+  }
+
+  return {
+    currency,
+    grossRevenue: roundAmount(grossRevenue),
+    refundedRevenue: roundAmount(refundedRevenue),
+    netRevenue: roundAmount(grossRevenue - refundedRevenue),
+    orders: orderCount,
+    refunds: refundCount,
+    avgOrderValue: orderCount > 0 ? roundAmount(grossRevenue / orderCount) : 0,
+    daily: [...days.values()]
+      .map(day => ({
+        ...day,
+        grossRevenue: roundAmount(day.grossRevenue),
+        refundedRevenue: roundAmount(day.refundedRevenue),
+        netRevenue: roundAmount(day.grossRevenue - day.refundedRevenue),
+      }))
+      .sort((a, b) => a.date.localeCompare(b.date)),
+    unconvertedCurrencies: getUnconvertedCurrencies(records, currency, rates),
+  }
+}
+
+export type RevenueDimension = 'product' | 'category' | 'source'
+
+export interface RevenueBreakdownRow {
+  /** Product ID, category or traffic source */
+  key: string
+  /** Product name (product breakdown only) */
+  name?: string
+  views: number
+  addsToCart: number
+  checkouts: number
+  /** Orders including the product or category, or coming from the source */
+  orders: number
+  /** Units sold (product and category breakdowns) */
+  quantity: number
+  grossRevenue: number
+  refundedRevenue: number
+  netRevenue: number
+}
+
+/**
+ * Revenue and funnel counts by product, category or traffic source, in `currency`
+ *
+ * Product and category rows count line items; whole-order refunds without items
+ * can't be attributed to them and only show in the source breakdown and the summary.
+ * Refunds are attributed to the source of their order when it is in `records`.
+ */
+export function breakdownRevenue(
+  records: EcommerceRecord[],
+  dimension: RevenueDimension,
+  currency: string,
+  rates: ExchangeRates,
+): RevenueBreakdownRow[] {
+  const orders = indexOrders(records)
+  const rows = new Map<string, RevenueBreakdownRow>()
+
+  const getRow = (key: string): RevenueBreakdownRow => {
+    let row = rows.get(key)
+    if (!row) {
+      row = { key, views: 0, addsToCart: 0, checkouts: 0, orders: 0, quantity: 0, grossRevenue: 0, refundedRevenue: 0, netRevenue: 0 }
+      rows.set(key, row)
+    }
+    return row
+  }
+
+  for (const record of records) {
+    if (dimension === 'source') {
+      const order = record.action === 'refund' && record.orderId ? orders.get(record.orderId) : undefined
+      const row = getRow(order?.source || record.source || 'direct')
+
+      if (record.action === 'view_item') row.views++
+      else if (record.action === 'add_to_cart') row.addsToCart++
+      else if (record.action === 'begin_checkout') row.checkouts++
+      else if (record.action === 'purchase') {
+        const amount = convertAmount(record.value || 0, record.currency, currency, rates)
+        if (amount === null) continue
+        row.orders++
+        row.grossRevenue += amount
+      } else {
+        const refund = getRefundAmount(record, orders)
+        const amount = convertAmount(refund.amount, refund.currency, currency, rates)
+        if (amount !== null) row.refundedRevenue += amount
+      }
+      continue
+    }
+
+    const rate = convertAmount(1, record.currency, currency, rates)
+    const counted = new Set<string>()
+
+    for (const item of record.items) {
+      const key = dimension === 'product' ? item.id : item.category || '(none)'
+      const row = getRow(key)
+      if (dimension === 'product' && item.name) row.name = item.name
+
+      if (record.action === 'view_item') row.views++
+      else if (record.action === 'add_to_cart') row.addsToCart += item.quantity
+      else if (record.action === 'begin_checkout') row.checkouts++
+      else if (rate !== null && record.action === 'purchase') {
+        if (!counted.has(key)) row.orders++
+        row.quantity += item.quantity
+        row.grossRevenue += item.price * item.quantity * rate
+      } else if (rate !== null && record.action === 'refund') {
+        row.quantity -= item.quantity
+        row.refundedRevenue += item.price * item.quantity * rate
+      }
+      counted.add(key)
+    }
+  }
+
+  return [...rows.values()]
+    .map(row => ({
+      ...row,
+      grossRevenue: roundAmount(row.grossRevenue),
+      refundedRevenue: roundAmount(row.refundedRevenue),
+      netRevenue: roundAmount(row.grossRevenue - row.refundedRevenue),
+    }))
+    .sort((a, b) => b.netRevenue - a.netRevenue || b.views - a.views)
+}
+
+/**
+ * Traffic source an order is attributed to: the session's UTM source, else its
+ * referrer source
+ */
+export function getTrafficSource(session?: { utmSource?: string, referrerSource?: string } | null): string {
+  return session?.utmSource || session?.referrerSource || 'direct'
+}
@@ -0,0 +1,61 @@
+/**
+ * Engaged time
+ *
+ * The tracker measures how long a page is in the foreground (the Page Visibility API
+ * pauses the clock while the tab is hidden) and reports it in `pageleave` events. A
+ * page can report several times - each time it is hidden, and when it is left - so
+ * every event carries only the time since the last report.
+ *
+ * The reports feed:
+ * - the session's `engagedTime`, and its `duration` when that is longer than the
+ *   time between the first and last hit
+ * - the bounce definition: a session bounces when it has one pageview and less
+ *   engaged time than the threshold
+ * - a per-path daily rollup behind the average engaged time in the pages report
+ */
+
+/**
+ * The parts of a session engagement looks at
+ */
+export interface EngagementSessionState {
+  pageViewCount: number
+  engagedTime?: number
+  startedAt: Date | string
+  endedAt?: Date | string
+}
+
+/**
+ * Clamp a reported engaged time (milliseconds) to what one report can cover
+ *
+ * A report can't cover more than the inactivity timeout: a tab left in the
+ * foreground overnight is not an engaged reader.
+ */
+export function normalizeEngagedTime(engagedMs: unknown, maxMs: number): number {
+  if (typeof engagedMs !== 'number' || !Number.isFinite(engagedMs) || engagedMs <= 0) return 0
+  return Math.min(Math.round(engagedMs), maxMs)
+}
+
+/**
+ * Session duration: the time between the first and last hit, or the engaged time
+ * when that is longer (single-page visits have no second hit)
+ */
+export function getSessionDuration(session: EngagementSessionState): number {
+  const startedAt = new Date(session.startedAt)
+  const endedAt = session.endedAt ? new Date(session.endedAt) : startedAt
+  return Math.max(endedAt.getTime() - startedAt.getTime(), session.engagedTime || 0)
+}
+
+/**
+ * Whether a session is a bounce: a single pageview with less engaged time than
+ * `thresholdSeconds`
+ */
+export function isBounceSession(session: EngagementSessionState, thresholdSeconds: number): boolean {
+  return session.pageViewCount <= 1 && (session.engagedTime || 0) < thresholdSeconds * 1000
+}
+
+/**
+ * Key of the daily engaged-time rollup for a path
+ */
+export function getEngagementRollupKey(siteId: string, date: string, path: string): { pk: string, sk: string } {
+  return { pk: `SITE#${siteId}`, sk: `ENGAGED#${date}#${path}` }
+}
@@ -0,0 +1,137 @@
+/**
+ * Custom event property storage limits and breakdowns
+ */
+
+export type EventPropertyValue = string | number | boolean
+
+export interface EventPropertyLimits {
+  /** Maximum number of keys kept per event */
+  maxKeys: number
+  /** Maximum key length; longer keys are dropped */
+  maxKeyLength: number
+  /** Maximum string value length; longer values are truncated */
+  maxValueLength: number
+}
+
+export const DEFAULT_EVENT_PROPERTY_LIMITS: EventPropertyLimits = {
+  maxKeys: 20,
+  maxKeyLength: 50,
+  maxValueLength: 200,
+}
+
+/**
+ * Keys the tracker uses for the event itself rather than as properties
+ */
+export const RESERVED_EVENT_PROPERTY_KEYS = ['name', 'value', 'category']
+
+export interface EventPropertyKey {
+  key: string
+  /** Events carrying this key */
+  count: number
+}
+
+export interface EventPropertyBreakdown {
+  value: string
+  count: number
+  visitors: number
+  /** Sum of the events' `value` */
+  totalValue: number
+}
+
+/**
+ * Keep scalar properties within the limits; nested objects and arrays are dropped
+ */
+export function sanitizeEventProperties(
+  properties: unknown,
+  limits: EventPropertyLimits = DEFAULT_EVENT_PROPERTY_LIMITS,
+): Record<string, EventPropertyValue> | undefined {
+  if (!properties || typeof properties !== 'object' || Array.isArray(properties)) return undefined
+
+  const result: Record<string, EventPropertyValue> = {}
+  let count = 0
+
+  for (const [rawKey, value] of Object.entries(properties)) {
+    if (count >= limits.maxKeys) break
+
+    const key = rawKey.trim()
+    if (!key || key.length > limits.maxKeyLength || RESERVED_EVENT_PROPERTY_KEYS.includes(key)) continue
+
+    if (typeof value === 'string') {
+      result[key] = value.slice(0, limits.maxValueLength)
+    }
+    else if ((typeof value === 'number' && Number.isFinite(value)) || typeof value === 'boolean') {
+      result[key] = value
+    }
+    else {
+      continue
+    }
+    count++
+  }
+
+  return count > 0 ? result : undefined
+}
+
+/**
+ * Read stored properties (JSON string or map)
+ */
+export function parseStoredProperties(properties: unknown): Record<string, EventPropertyValue> {
+  if (typeof properties === 'string') {
+    try {
+      const parsed = JSON.parse(properties)
+      return parsed && typeof parsed === 'object' ? parsed : {}
+    }
+    catch {
+      return {}
+    }
+  }
+  return properties && typeof properties === 'object' ? properties as Record<string, EventPropertyValue> : {}
+}
+
+/**
+ * List the property keys seen on a set of events, most common first
+ */
+export function getEventPropertyKeys(events: Array<{ properties?: unknown }>): EventPropertyKey[] {
+  const counts: Record<string, number> = {}
+
+  for (const event of events) {
+    for (const key of Object.keys(parseStoredProperties(event.properties))) {
+      counts[key] = (counts[key] || 0) + 1
+    }
+  }
+
+  return Object.entries(counts)
+    .map(([key, count]) => ({ key, count }))
+    .sort((a, b) => b.count - a.count || a.key.localeCompare(b.key))
+}
+
+/**
+ * Break events down by the values of one property.
+ * Events without the property are grouped under `(none)`.
+ */
+export function breakdownEventProperty(
+  events: Array<{ properties?: unknown, visitorId?: string, value?: number }>,
+  key: string,
+): EventPropertyBreakdown[] {
+  const groups: Record<string, { count: number, visitors: Set<string>, totalValue: number }> = {}
+
+  for (const event of events) {
+    const raw = parseStoredProperties(event.properties)[key]
+    const value = raw === undefined || raw === null ? '(none)' : String(raw)
+
+    if (!groups[value]) {
+      groups[value] = { count: 0, visitors: new Set(), totalValue: 0 }
+    }
+    groups[value].count++
+    if (event.visitorId) groups[value].visitors.add(event.visitorId)
+    if (typeof event.value === 'number') groups[value].totalValue += event.value
+  }
+
+  return Object.entries(groups)
+    .map(([value, group]) => ({
+      value,
+      count: group.count,
+      visitors: group.visitors.size,
+      totalValue: group.totalValue,
+    }))
+    .sort((a, b) => b.count - a.count)
+}
@@ -0,0 +1,200 @@
+/**
+ * Unique visitor sketches (HyperLogLog)
+ *
+ * A sketch estimates how many distinct visitors it has seen in a fixed amount of
+ * space, and sketches merge: the sketch of two hours is the merge of their
+ * sketches. Rollups store one next to their exact per-period count, so uniques of
+ * any range can be estimated from the rollups it spans without counting a visitor
+ * of several periods more than once.
+ *
+ * Error bound: with precision p (2^p registers) the relative standard error is
+ * 1.04 / sqrt(2^p). The default precision 12 (4096 registers) gives about 1.6%,
+ * so an estimate lies within 3.3% of the exact count about 95% of the time and
+ * within 5% about 99.7% of the time. Below 2.5 * 2^p visitors the sketch counts
+ * empty registers instead (linear counting), which is close to exact for small sites.
+ *
+ * Sketches are stored as `hll:{precision}:{d|s}:{base64}`: the registers (dense),
+ * or index/value pairs of the non-empty registers (sparse, while that is smaller).
+ */
+
+/** Default precision: 4096 registers, ~1.6% standard error */
+export const SKETCH_PRECISION = 12
+
+const MIN_PRECISION = 4
+const MAX_PRECISION = 16
+const TWO_32 = 2 ** 32
+
+// ============================================================================
+// Sketch
+// ============================================================================
+
+export class HyperLogLog {
+  readonly precision: number
+  private readonly registers: Uint8Array
+
+  constructor(precision: number = SKETCH_PRECISION, registers?: Uint8Array) {
+    if (!Number.isInteger(precision) || precision < MIN_PRECISION || precision > MAX_PRECISION)
+      throw new Error(`Sketch precision must be an integer from ${MIN_PRECISION} to ${MAX_PRECISION}`)
+
+    this.precision = precision
+    this.registers = registers ?? new Uint8Array(1 << precision)
+  }
+
+  /**
+   * Relative standard error of the estimates of a precision
+   */
+  static standardError(precision: number = SKETCH_PRECISION): number {
+    return 1.04 / Math.sqrt(1 << precision)
+  }
+
+  /**
+   * A sketch of values
+   */
+  static of(values: Iterable<string>, precision: number = SKETCH_PRECISION): HyperLogLog {
+    const sketch = new HyperLogLog(precision)
+    for (const value of values) sketch.add(value)
+    return sketch
+  }
+
+  /**
+   * Read an encoded sketch
+   */
+  static decode(encoded: string): HyperLogLog {
+    const [prefix, precisionText, format, data] = encoded.split(':')
+    const precision = Number(precisionText)
+    if (prefix !== 'hll' || (format !== 'd' && format !== 's') || data === undefined)
+      throw new Error('Invalid sketch encoding')
+
+    const sketch = new HyperLogLog(precision)
+    const bytes = Buffer.from(data, 'base64')
+    if (format === 'd') {
+      if (bytes.length !== sketch.registers.length) throw new Error('Invalid sketch encoding')
+      sketch.registers.set(bytes)
+    }
+    else {
+      for (let i = 0; i + 2 < bytes.length; i += 3) {
+        const index = (bytes[i] << 8) | bytes[i + 1]
+        if (index >= sketch.registers.length) throw new Error('Invalid sketch encoding')
+        sketch.registers[index] = bytes[i + 2]
+      }
+    }
+    return sketch
+  }
+
+  add(value: string): this {
+    const hash = murmur3(value)
+    const index = hash >>> (32 - this.precision)
+    // Position of the first set bit after the index bits (the last one is a sentinel)
+    const rank = Math.clz32((hash << this.precision) | (1 << (this.precision - 1))) + 1
+    if (rank > this.registers[index]) this.registers[index] = rank
+    return this
+  }
+
+  /**
+   * Add the visitors of another sketch (of the same precision)
+   */
+  merge(other: HyperLogLog): this {
+    if (other.precision !== this.precision)
+      throw new Error(`Cannot merge sketches of precision ${other.precision} and ${this.precision}`)
+
+    for (let i = 0; i < this.registers.length; i++) {
+      if (other.registers[i] > this.registers[i]) this.registers[i] = other.registers[i]
+    }
+    return this
+  }
+
+  /**
+   * Estimated number of distinct values added
+   */
+  count(): number {
+    const m = this.registers.length
+    let sum = 0
+    let zeros = 0
+    for (const register of this.registers) {
+      sum += 2 ** -register
+      if (register === 0) zeros++
+    }
+
+    const alpha = m >= 128 ? 0.7213 / (1 + 1.079 / m) : m === 64 ? 0.709 : m === 32 ? 0.697 : 0.673
+    let estimate = (alpha * m * m) / sum
+
+    if (estimate <= 2.5 * m && zeros > 0)
+      estimate = m * Math.log(m / zeros)
+    else if (estimate > TWO_32 / 30)
+      estimate = -TWO_32 * Math.log(1 - estimate / TWO_32)
+
+    return Math.round(estimate)
+  }
+
+  encode(): string {
+    const used: number[] = []
+    for (let i = 0; i < this.registers.length; i++) {
+      if (this.registers[i] > 0) used.push(i)
+    }
+
+    if (used.length * 3 >= this.registers.length)
+      return `hll:${this.precision}:d:${Buffer.from(this.registers).toString('base64')}`
+
+    const bytes = new Uint8Array(used.length * 3)
+    used.forEach((index, i) => {
+      bytes[i * 3] = index >>> 8
+      bytes[i * 3 + 1] = index & 0xFF
+      bytes[i * 3 + 2] = this.registers[index]
+    })
+    return `hll:${this.precision}:s:${Buffer.from(bytes).toString('base64')}`
+  }
+}
+
+// ============================================================================
+// Helpers
+// ============================================================================
+
+/**
+ * Merge encoded sketches. Returns null without any.
+ */
+export function mergeSketches(encoded: Iterable<string>): HyperLogLog | null {
+  let merged: HyperLogLog | null = null
+  for (const sketch of encoded) {
+    const decoded = HyperLogLog.decode(sketch)
+    merged = merged ? merged.merge(decoded) : decoded
+  }
+  return merged
+}
+
+/**
+ * MurmurHash3 (x86, 32-bit) of a string's UTF-8 bytes
+ */
+function murmur3(value: string, seed = 0): number {
+  const bytes = new TextEncoder().encode(value)
+  const blocks = bytes.length >>> 2
+  let h = seed
+
+  for (let i = 0; i < blocks; i++) {
+    let k = bytes[i * 4] | (bytes[i * 4 + 1] << 8) | (bytes[i * 4 + 2] << 16) | (bytes[i * 4 + 3] << 24)
+    k = Math.imul(k, 0xCC9E2D51)
+    k = (k << 15) | (k >>> 17)
+    k = Math.imul(k, 0x1B873593)
+    h ^= k
+    h = (h << 13) | (h >>> 19)
+    h = (Math.imul(h, 5) + 0xE6546B64) | 0
+  }
+
+  // Remaining 1-3 bytes
+  const tail = blocks * 4
+  if (tail < bytes.length) {
+    let k = 0
+    for (let i = bytes.length - 1; i >= tail; i--) k = (k << 8) | bytes[i]
+    k = Math.imul(k, 0xCC9E2D51)
+    k = (k << 15) | (k >>> 17)
+    k = Math.imul(k, 0x1B873593)
+    h ^= k
+  }
+
+  h ^= bytes.length
+  h ^= h >>> 16
+  h = Math.imul(h, 0x85EBCA6B)
+  h ^= h >>> 13
+  h = Math.imul(h, 0xC2B2AE35)
+  h ^= h >>> 16
+  return h >>> 0
+}
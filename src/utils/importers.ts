@@ -0,0 +1,710 @@
+/**
+ * Historical data imports
+ *
+ * Parses the exports of other analytics tools into daily stats:
+ * - Plausible: the CSV files of a site export (`imported_visitors.csv`, `imported_pages.csv`, ...)
+ * - Umami: the raw event CSV of a data export (`website_event.csv`)
+ * - Fathom: the CSV reports of a site export
+ * - GA4: Data API `runReport` JSON responses, or CSVs with the same column names
+ *
+ * A Plausible, Fathom or GA4 file is matched to a report by its columns: a page column
+ * makes it a page report, a source column a referrer report, and so on. A file with only
+ * a date and metrics holds the site totals.
+ */
+
+import type { AggregatedStats, DeviceStats, GeoStats, PageStats, ReferrerStats } from '../types'
+import { parseReferrerSource } from './geolocation'
+
+export const IMPORT_SOURCES = ['plausible', 'umami', 'fathom', 'ga4'] as const
+
+export type ImportSource = typeof IMPORT_SOURCES[number]
+
+export interface ImportFile {
+  name: string
+  content: string
+}
+
+export interface ImportedCounts {
+  visitors: number
+  pageViews: number
+  sessions: number
+  bounces: number
+  /** Total visit duration (milliseconds) */
+  duration: number
+}
+
+export interface ImportedPageCounts extends ImportedCounts {
+  entries: number
+  exits: number
+}
+
+export interface ImportedGeoCounts extends ImportedCounts {
+  country: string
+  region?: string
+  city?: string
+}
+
+export interface ImportedDeviceCounts extends ImportedCounts {
+  dimension: DeviceStats['dimension']
+  value: string
+}
+
+/**
+ * Everything an export holds about one day
+ */
+export interface ImportedDay {
+  /** YYYY-MM-DD */
+  date: string
+  /** Site totals - absent when the export has no totals report */
+  totals?: ImportedCounts & { newVisitors: number }
+  pages: Map<string, ImportedPageCounts>
+  referrers: Map<string, ImportedCounts>
+  geo: Map<string, ImportedGeoCounts>
+  devices: Map<string, ImportedDeviceCounts>
+}
+
+/**
+ * The daily records written for an imported day
+ */
+export interface ImportedStats {
+  aggregated: AggregatedStats
+  pages: PageStats[]
+  referrers: ReferrerStats[]
+  geo: GeoStats[]
+  devices: DeviceStats[]
+}
+
+export interface ImportParseResult {
+  /** Days in the export, oldest first */
+  days: ImportedDay[]
+  /** Files that couldn't be read, e.g. `pages.csv: no date column` */
+  errors: string[]
+}
+
+// ============================================================================
+// Parsing
+// ============================================================================
+
+/**
+ * Parse CSV text into rows keyed by lower-cased header. Skips blank lines and `#`
+ * comment lines (GA4 exports start with a few).
+ */
+export function parseCsv(text: string): Record<string, string>[] {
+  const records: string[][] = []
+  let record: string[] = []
+  let field = ''
+  let quoted = false
+
+  const input = text.replace(/^\uFEFF/, '')
+  for (let i = 0; i < input.length; i++) {
+    const char = input[i]
+    if (quoted) {
+      if (char === '"' && input[i + 1] === '"') {
+        field += '"'
+        i++
+      } else if (char === '"') {
+        quoted = false
+      } else {
+        field += char
+      }
+    } else if (char === '"') {
+      quoted = true
+    } else if (char === ',') {
+      record.push(field)
+      field = ''
+    } else if (char === '\n' || char === '\r') {
+      if (char === '\r' && input[i + 1] === '\n') i++
+      record.push(field)
+      records.push(record)
+      record = []
+      field = ''
+    } else {
+      field += char
+    }
+  }
+  if (field || record.length > 0) {
+    record.push(field)
+    records.push(record)
+  }
+
+  const lines = records.filter(line => !(line.length === 1 && !line[0].trim()) && !line[0].startsWith('#'))
+  if (lines.length === 0) return []
+
+  const headers = lines[0].map(header => header.trim().toLowerCase())
+  return lines.slice(1).map((line) => {
+    const row: Record<string, string> = {}
+    headers.forEach((header, index) => {
+      row[header] = (line[index] ?? '').trim()
+    })
+    return row
+  })
+}
+
+/**
+ * Flatten a GA4 Data API `runReport` response into rows keyed by lower-cased
+ * dimension and metric name. Returns null for anything else.
+ */
+export function parseGa4Report(report: unknown): Record<string, string>[] | null {
+  const data = report as {
+    dimensionHeaders?: Array<{ name: string }>
+    metricHeaders?: Array<{ name: string }>
+    rows?: Array<{ dimensionValues?: Array<{ value?: string }>, metricValues?: Array<{ value?: string }> }>
+  }
+  if (!data || typeof data !== 'object' || !Array.isArray(data.dimensionHeaders)) {
+    return null
+  }
+
+  const dimensions = data.dimensionHeaders.map(header => header.name.toLowerCase())
+  const metrics = (data.metricHeaders || []).map(header => header.name.toLowerCase())
+
+  return (data.rows || []).map((entry) => {
+    const row: Record<string, string> = {}
+    dimensions.forEach((name, index) => {
+      row[name] = entry.dimensionValues?.[index]?.value ?? ''
+    })
+    metrics.forEach((name, index) => {
+      row[name] = entry.metricValues?.[index]?.value ?? ''
+    })
+    return row
+  })
+}
+
+/**
+ * Date of an export row as YYYY-MM-DD. Accepts `2024-01-15`, GA4's `20240115` and
+ * timestamps.
+ */
+export function parseImportDate(value: string | undefined): string | null {
+  if (!value) return null
+  const text = value.trim()
+  if (/^\d{8}$/.test(text)) return `${text.slice(0, 4)}-${text.slice(4, 6)}-${text.slice(6, 8)}`
+  if (/^\d{4}-\d{2}-\d{2}$/.test(text)) return text
+
+  const date = new Date(text.includes(' ') && !text.includes('T') ? `${text.replace(' ', 'T')}Z` : text)
+  return Number.isNaN(date.getTime()) ? null : date.toISOString().slice(0, 10)
+}
+
+function parseNumber(value: string | undefined): number {
+  if (!value) return 0
+  const number = Number(value.replace(/[,%\s]/g, ''))
+  return Number.isFinite(number) ? number : 0
+}
+
+/** Bounce rates come as fractions (GA4) or percentages (Fathom) */
+function parseRate(value: string | undefined): number {
+  const rate = parseNumber(value)
+  return rate > 1 ? rate / 100 : rate
+}
+
+function normalizePath(value: string): string {
+  if (/^https?:\/\//i.test(value)) {
+    try {
+      return new URL(value).pathname || '/'
+    } catch {
+      return value
+    }
+  }
+  return value.startsWith('/') ? value : `/${value}`
+}
+
+/**
+ * Traffic source of an exported source or referrer domain, named the way this
+ * project names them (`direct`, `google`, `news.ycombinator.com`, ...)
+ */
+export function normalizeImportedSource(value: string | undefined): string {
+  const text = (value || '').trim().toLowerCase()
+  if (!text || text === '(direct)' || text === '(none)' || text.startsWith('direct')) return 'direct'
+  if (text.includes('.') && !text.includes(' ')) {
+    return parseReferrerSource(/^https?:\/\//.test(text) ? text : `https://${text}`)
+  }
+  return text
+}
+
+// ============================================================================
+// Reports
+// ============================================================================
+
+type ImportField =
+  | 'date' | 'page' | 'entryPage' | 'exitPage' | 'source' | 'country' | 'region' | 'city'
+  | 'device' | 'browser' | 'os' | 'screen'
+  | 'visitors' | 'pageViews' | 'sessions' | 'bounces' | 'bounceRate' | 'duration' | 'avgDuration'
+  | 'timeOnPage' | 'entries' | 'exits' | 'newVisitors'
+
+type ReportKind = 'totals' | 'pages' | 'entries' | 'exits' | 'referrers' | 'geo' | 'devices'
+
+/**
+ * Column names of each field, per tool (lower-cased, first match wins)
+ */
+const COLUMNS: Record<Exclude<ImportSource, 'umami'>, Partial<Record<ImportField, string[]>>> = {
+  plausible: {
+    date: ['date'],
+    page: ['page'],
+    entryPage: ['entry_page'],
+    exitPage: ['exit_page'],
+    source: ['source'],
+    country: ['country'],
+    region: ['region'],
+    city: ['city'],
+    device: ['device'],
+    browser: ['browser'],
+    os: ['operating_system'],
+    visitors: ['visitors'],
+    pageViews: ['pageviews'],
+    sessions: ['visits'],
+    bounces: ['bounces'],
+    duration: ['visit_duration'],
+    timeOnPage: ['time_on_page'],
+    entries: ['entrances'],
+    exits: ['exits'],
+  },
+  fathom: {
+    date: ['date', 'timestamp'],
+    page: ['pathname', 'page'],
+    source: ['referrer hostname', 'referrer_hostname', 'referrer'],
+    country: ['country code', 'country_code', 'country'],
+    device: ['device type', 'device_type', 'device'],
+    browser: ['browser'],
+    os: ['operating system', 'os'],
+    visitors: ['uniques', 'visitors'],
+    pageViews: ['pageviews', 'views'],
+    sessions: ['visits'],
+    bounceRate: ['bounce rate', 'bounce_rate'],
+    avgDuration: ['avg duration', 'avg_duration'],
+    entries: ['entries'],
+  },
+  ga4: {
+    date: ['date'],
+    page: ['pagepath', 'pagepathplusquerystring'],
+    entryPage: ['landingpage', 'landingpageplusquerystring'],
+    source: ['sessionsource', 'firstusersource', 'source'],
+    country: ['countryid', 'country'],
+    region: ['region'],
+    city: ['city'],
+    device: ['devicecategory'],
+    browser: ['browser'],
+    os: ['operatingsystem'],
+    screen: ['screenresolution'],
+    visitors: ['totalusers', 'activeusers'],
+    pageViews: ['screenpageviews'],
+    sessions: ['sessions'],
+    bounceRate: ['bouncerate'],
+    avgDuration: ['averagesessionduration'],
+    newVisitors: ['newusers'],
+  },
+}
+
+const DEVICE_FIELDS: Array<[ImportField, DeviceStats['dimension']]> = [
+  ['device', 'device'],
+  ['browser', 'browser'],
+  ['os', 'os'],
+  ['screen', 'screen'],
+]
+
+function resolveColumns(source: Exclude<ImportSource, 'umami'>, headers: string[]): Partial<Record<ImportField, string>> {
+  const columns: Partial<Record<ImportField, string>> = {}
+  for (const [field, names] of Object.entries(COLUMNS[source]) as Array<[ImportField, string[]]>) {
+    const name = names.find(candidate => headers.includes(candidate))
+    if (name) columns[field] = name
+  }
+  return columns
+}
+
+function getReportKind(columns: Partial<Record<ImportField, string>>): ReportKind {
+  if (columns.page) return 'pages'
+  if (columns.entryPage) return 'entries'
+  if (columns.exitPage) return 'exits'
+  if (columns.source) return 'referrers'
+  if (columns.country) return 'geo'
+  if (DEVICE_FIELDS.some(([field]) => columns[field])) return 'devices'
+  return 'totals'
+}
+
+function emptyCounts(): ImportedCounts {
+  return { visitors: 0, pageViews: 0, sessions: 0, bounces: 0, duration: 0 }
+}
+
+function addCounts(target: ImportedCounts, counts: ImportedCounts): void {
+  target.visitors += counts.visitors
+  target.pageViews += counts.pageViews
+  target.sessions += counts.sessions
+  target.bounces += counts.bounces
+  target.duration += counts.duration
+}
+
+function getDay(days: Map<string, ImportedDay>, date: string): ImportedDay {
+  let day = days.get(date)
+  if (!day) {
+    day = { date, pages: new Map(), referrers: new Map(), geo: new Map(), devices: new Map() }
+    days.set(date, day)
+  }
+  return day
+}
+
+function getEntry<T>(entries: Map<string, T>, key: string, create: () => T): T {
+  let entry = entries.get(key)
+  if (!entry) {
+    entry = create()
+    entries.set(key, entry)
+  }
+  return entry
+}
+
+function emptyPage(): ImportedPageCounts {
+  return { ...emptyCounts(), entries: 0, exits: 0 }
+}
+
+/**
+ * Add the rows of one aggregated report (Plausible, Fathom or GA4) to `days`
+ */
+function addReport(
+  days: Map<string, ImportedDay>,
+  source: Exclude<ImportSource, 'umami'>,
+  rows: Record<string, string>[],
+  options: { exitsFromPages: boolean },
+): void {
+  if (rows.length === 0) return
+  const columns = resolveColumns(source, Object.keys(rows[0]))
+  const kind = getReportKind(columns)
+  const value = (row: Record<string, string>, field: ImportField): string | undefined =>
+    columns[field] ? row[columns[field]!] : undefined
+
+  for (const row of rows) {
+    const date = parseImportDate(value(row, 'date'))
+    if (!date) continue
+    const day = getDay(days, date)
+
+    const sessions = parseNumber(value(row, 'sessions'))
+    const counts: ImportedCounts = {
+      visitors: parseNumber(value(row, 'visitors')) || sessions,
+      pageViews: parseNumber(value(row, 'pageViews')),
+      sessions,
+      bounces: columns.bounces
+        ? parseNumber(value(row, 'bounces'))
+        : Math.round(parseRate(value(row, 'bounceRate')) * sessions),
+      duration: columns.duration
+        ? parseNumber(value(row, 'duration')) * 1000
+        : Math.round(parseNumber(value(row, 'avgDuration')) * sessions * 1000),
+    }
+
+    switch (kind) {
+      case 'totals': {
+        day.totals = day.totals || { ...emptyCounts(), newVisitors: 0 }
+        addCounts(day.totals, counts)
+        day.totals.newVisitors += parseNumber(value(row, 'newVisitors'))
+        break
+      }
+      case 'pages': {
+        const page = getEntry(day.pages, normalizePath(value(row, 'page') || '/'), emptyPage)
+        page.visitors += counts.visitors
+        page.pageViews += counts.pageViews || counts.sessions
+        page.entries += parseNumber(value(row, 'entries'))
+        if (options.exitsFromPages) page.exits += parseNumber(value(row, 'exits'))
+        page.duration += parseNumber(value(row, 'timeOnPage')) * 1000
+        break
+      }
+      case 'entries': {
+        const page = getEntry(day.pages, normalizePath(value(row, 'entryPage') || '/'), emptyPage)
+        page.entries += parseNumber(value(row, 'entries')) || counts.sessions
+        page.bounces += counts.bounces
+        break
+      }
+      case 'exits': {
+        const page = getEntry(day.pages, normalizePath(value(row, 'exitPage') || '/'), emptyPage)
+        page.exits += parseNumber(value(row, 'exits')) || counts.sessions
+        break
+      }
+      case 'referrers': {
+        const referrer = getEntry(day.referrers, normalizeImportedSource(value(row, 'source')), emptyCounts)
+        addCounts(referrer, { ...counts, pageViews: counts.pageViews || counts.sessions })
+        break
+      }
+      case 'geo': {
+        const country = (value(row, 'country') || '').toUpperCase() || 'XX'
+        const region = value(row, 'region') || undefined
+        const city = value(row, 'city') || undefined
+        const key = [country, region, city].filter(Boolean).join('#')
+        const geo = getEntry(day.geo, key, () => ({ ...emptyCounts(), country, region, city }))
+        addCounts(geo, { ...counts, pageViews: counts.pageViews || counts.sessions })
+        break
+      }
+      case 'devices': {
+        for (const [field, dimension] of DEVICE_FIELDS) {
+          const deviceValue = value(row, field)
+          if (!deviceValue) continue
+          const normalized = dimension === 'device' ? deviceValue.toLowerCase() : deviceValue
+          const device = getEntry(day.devices, `${dimension}#${normalized}`, () => ({ ...emptyCounts(), dimension, value: normalized }))
+          addCounts(device, { ...counts, pageViews: counts.pageViews || counts.sessions })
+        }
+        break
+      }
+    }
+  }
+}
+
+interface UmamiVisit {
+  sessionId: string
+  hits: Array<{ path: string, time: number }>
+  source: string
+  country?: string
+  region?: string
+  city?: string
+  device?: string
+  browser?: string
+  os?: string
+  screen?: string
+}
+
+/**
+ * Aggregate the raw pageviews of an Umami export into days. Visits are grouped by
+ * `visit_id` (or by session and day for older exports).
+ */
+function addUmamiEvents(days: Map<string, ImportedDay>, rows: Record<string, string>[]): void {
+  const visits = new Map<string, UmamiVisit>()
+
+  for (const row of rows) {
+    if (row.event_type && row.event_type !== '1') continue
+    const time = Date.parse(row.created_at?.includes('T') ? row.created_at : `${(row.created_at || '').replace(' ', 'T')}Z`)
+    if (Number.isNaN(time) || !row.session_id) continue
+
+    const key = row.visit_id || `${row.session_id}#${new Date(time).toISOString().slice(0, 10)}`
+    const visit = getEntry(visits, key, () => ({
+      sessionId: row.session_id,
+      hits: [],
+      source: normalizeImportedSource(row.referrer_domain),
+      country: row.country || undefined,
+      region: row.subdivision1 || undefined,
+      city: row.city || undefined,
+      device: row.device || undefined,
+      browser: row.browser || undefined,
+      os: row.os || undefined,
+      screen: row.screen || undefined,
+    }))
+    visit.hits.push({ path: normalizePath(row.url_path || '/'), time })
+  }
+
+  const seen = new Set<string>()
+  const addVisitor = (date: string, scope: string, sessionId: string): number => {
+    const key = `${date}#${scope}#${sessionId}`
+    if (seen.has(key)) return 0
+    seen.add(key)
+    return 1
+  }
+
+  for (const visit of visits.values()) {
+    visit.hits.sort((a, b) => a.time - b.time)
+    const first = visit.hits[0]
+    const last = visit.hits[visit.hits.length - 1]
+    const date = new Date(first.time).toISOString().slice(0, 10)
+    const day = getDay(days, date)
+    const bounce = visit.hits.length === 1 ? 1 : 0
+    const visitCounts = (scope: string): ImportedCounts => ({
+      visitors: addVisitor(date, scope, visit.sessionId),
+      pageViews: visit.hits.length,
+      sessions: 1,
+      bounces: bounce,
+      duration: last.time - first.time,
+    })
+
+    day.totals = day.totals || { ...emptyCounts(), newVisitors: 0 }
+    addCounts(day.totals, visitCounts('totals'))
+
+    visit.hits.forEach((hit, index) => {
+      const page = getEntry(day.pages, hit.path, emptyPage)
+      page.visitors += addVisitor(date, `page#${hit.path}`, visit.sessionId)
+      page.pageViews++
+      const next = visit.hits[index + 1]
+      if (next) page.duration += next.time - hit.time
+    })
+    const entry = getEntry(day.pages, first.path, emptyPage)
+    entry.entries++
+    entry.bounces += bounce
+    getEntry(day.pages, last.path, emptyPage).exits++
+
+    addCounts(getEntry(day.referrers, visit.source, emptyCounts), visitCounts(`source#${visit.source}`))
+
+    if (visit.country) {
+      const key = [visit.country, visit.region, visit.city].filter(Boolean).join('#')
+      const geo = getEntry(day.geo, key, () => ({ ...emptyCounts(), country: visit.country!, region: visit.region, city: visit.city }))
+      addCounts(geo, visitCounts(`geo#${key}`))
+    }
+
+    for (const [field, dimension] of DEVICE_FIELDS) {
+      const deviceValue = visit[field as 'device' | 'browser' | 'os' | 'screen']
+      if (!deviceValue) continue
+      const device = getEntry(day.devices, `${dimension}#${deviceValue}`, () => ({ ...emptyCounts(), dimension, value: deviceValue }))
+      addCounts(device, visitCounts(`${dimension}#${deviceValue}`))
+    }
+  }
+}
+
+/**
+ * Site totals of a day whose export has no totals report: page views from the page
+ * report, visits from the source report (sources partition a day's visits)
+ */
+function deriveTotals(day: ImportedDay): NonNullable<ImportedDay['totals']> {
+  const totals = { ...emptyCounts(), newVisitors: 0 }
+  for (const referrer of day.referrers.values()) addCounts(totals, referrer)
+  const pageViews = [...day.pages.values()].reduce((sum, page) => sum + page.pageViews, 0)
+  if (pageViews > 0) totals.pageViews = pageViews
+  return totals
+}
+
+/**
+ * Read an export file into rows, or an error message
+ */
+function readImportFile(source: ImportSource, file: ImportFile): Record<string, string>[] | string {
+  const content = file.content.trim()
+  let rows: Record<string, string>[]
+
+  if (content.startsWith('{') || content.startsWith('[')) {
+    if (source !== 'ga4') return `${file.name}: ${source} exports are CSV files`
+    let parsed: unknown
+    try {
+      parsed = JSON.parse(content)
+    } catch {
+      return `${file.name}: invalid JSON`
+    }
+    const reports = Array.isArray(parsed) ? parsed : (parsed as { reports?: unknown[] }).reports || [parsed]
+    const tables = reports.map(report => parseGa4Report(report))
+    if (tables.some(table => table === null)) return `${file.name}: not a GA4 runReport response`
+    rows = tables.flat() as Record<string, string>[]
+  } else {
+    rows = parseCsv(content)
+  }
+
+  if (rows.length === 0) return rows
+  const headers = Object.keys(rows[0])
+  if (source === 'umami') {
+    if (!headers.includes('session_id') || !headers.includes('created_at')) {
+      return `${file.name}: expected an Umami event export (session_id and created_at columns)`
+    }
+  } else if (!resolveColumns(source, headers).date) {
+    return `${file.name}: no date column`
+  }
+  return rows
+}
+
+/**
+ * Parse the files of an export into days
+ */
+export function parseImportFiles(source: ImportSource, files: ImportFile[]): ImportParseResult {
+  if (!IMPORT_SOURCES.includes(source)) {
+    return { days: [], errors: [`Unknown import source: ${source}`] }
+  }
+
+  const tables: Record<string, string>[][] = []
+  const errors: string[] = []
+  for (const file of files) {
+    const result = readImportFile(source, file)
+    if (typeof result === 'string') errors.push(result)
+    else tables.push(result)
+  }
+
+  const days = new Map<string, ImportedDay>()
+  if (source === 'umami') {
+    for (const rows of tables) addUmamiEvents(days, rows)
+  } else {
+    const exitsFromPages = !tables.some(rows => rows.length > 0
+      && getReportKind(resolveColumns(source, Object.keys(rows[0]))) === 'exits')
+    for (const rows of tables) addReport(days, source, rows, { exitsFromPages })
+  }
+
+  for (const day of days.values()) {
+    day.totals = day.totals || deriveTotals(day)
+  }
+  return {
+    days: [...days.values()].sort((a, b) => a.date.localeCompare(b.date)),
+    errors,
+  }
+}
+
+// ============================================================================
+// Records
+// ============================================================================
+
+function rate(part: number, total: number): number {
+  return total > 0 ? part / total : 0
+}
+
+/**
+ * The daily AggregatedStats, PageStats, ReferrerStats, GeoStats and DeviceStats of
+ * an imported day
+ */
+export function toImportedStats(siteId: string, day: ImportedDay, now: Date = new Date()): ImportedStats {
+  const totals = day.totals || deriveTotals(day)
+  const base = { siteId, period: 'day' as const, periodStart: day.date }
+
+  return {
+    aggregated: {
+      ...base,
+      pageViews: totals.pageViews,
+      uniqueVisitors: totals.visitors,
+      sessions: totals.sessions,
+      bounces: totals.bounces,
+      bounceRate: rate(totals.bounces, totals.sessions),
+      avgSessionDuration: totals.sessions > 0 ? Math.round(totals.duration / totals.sessions) : 0,
+      avgPagesPerSession: rate(totals.pageViews, totals.sessions),
+      totalTimeOnSite: totals.duration,
+      newVisitors: totals.newVisitors,
+      returningVisitors: totals.newVisitors > 0 ? Math.max(0, totals.visitors - totals.newVisitors) : 0,
+      createdAt: now,
+      updatedAt: now,
+    },
+    pages: [...day.pages.entries()].map(([path, page]) => ({
+      ...base,
+      path,
+      pageViews: page.pageViews,
+      uniqueVisitors: page.visitors,
+      entries: page.entries,
+      exits: page.exits,
+      bounces: page.bounces,
+      avgTimeOnPage: page.pageViews > 0 ? Math.round(page.duration / page.pageViews) : 0,
+      exitRate: rate(page.exits, page.pageViews),
+    })),
+    referrers: [...day.referrers.entries()].map(([source, referrer]) => ({
+      ...base,
+      source,
+      visitors: referrer.visitors,
+      pageViews: referrer.pageViews,
+      bounceRate: rate(referrer.bounces, referrer.sessions),
+      avgSessionDuration: referrer.sessions > 0 ? Math.round(referrer.duration / referrer.sessions) : 0,
+    })),
+    geo: [...day.geo.values()].map(geo => ({
+      ...base,
+      country: geo.country,
+      ...(geo.region && { region: geo.region }),
+      ...(geo.city && { city: geo.city }),
+      visitors: geo.visitors,
+      pageViews: geo.pageViews,
+      bounceRate: rate(geo.bounces, geo.sessions),
+    })),
+    devices: [...day.devices.values()].map(device => ({
+      ...base,
+      dimension: device.dimension,
+      value: device.value,
+      visitors: device.visitors,
+      pageViews: device.pageViews,
+      bounceRate: rate(device.bounces, device.sessions),
+    })),
+  }
+}
+
+/**
+ * Fingerprint of a day's content, to tell a re-run of the same export from a
+ * different export of an already imported day
+ */
+export function getImportFingerprint(day: ImportedDay): string {
+  const content = JSON.stringify([
+    day.date,
+    day.totals,
+    ...[day.pages, day.referrers, day.geo, day.devices].map(entries =>
+      [...entries.entries()].sort(([a], [b]) => a.localeCompare(b))),
+  ])
+
+  // FNV-1a
+  let hash = 0x811C9DC5
+  for (let i = 0; i < content.length; i++) {
+    hash ^= content.charCodeAt(i)
+    hash = Math.imul(hash, 0x01000193)
+  }
+  return (hash >>> 0).toString(16).padStart(8, '0')
+}
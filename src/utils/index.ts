@@ -5,6 +5,16 @@
 export * from './response'
 export * from './date'
 export * from './user-agent'
+export * from './bot-filter'
+export * from './event-properties'
 export * from './geolocation'
 export * from './cache'
 export * from './errors'
+export * from './payload-schema'
+export * from './site-policy'
+export * from './referrer-rules'
+export * from './session-boundaries'
+export * from './engagement'
+export * from './ecommerce'
+export * from './importers'
+export * from './hyperloglog'
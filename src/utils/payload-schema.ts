@@ -0,0 +1,297 @@
+/**
+ * Tracking payload protocol
+ *
+ * Every ingestion entry point (collect, batch collect, server-side ingest and the
+ * framework integrations) validates payloads here so they accept and reject the
+ * same things. Payloads carry a protocol version in `v`; unversioned payloads from
+ * older trackers are upgraded to the current version before validation.
+ */
+
+import { ECOMMERCE_ACTIONS, ORDER_ACTIONS } from './ecommerce'
+
+/** Current payload protocol version */
+export const PAYLOAD_VERSION = 1
+
+export const PAYLOAD_EVENT_TYPES = [
+  'pageview',
+  'pageleave',
+  'event',
+  'outbound',
+  'hm_click',
+  'hm_move',
+  'hm_scroll',
+  'vitals',
+  'error',
+  'ecommerce',
+] as const
+
+export type PayloadEventType = typeof PAYLOAD_EVENT_TYPES[number]
+
+/**
+ * Collect payload (version 1)
+ */
+export interface CollectPayload {
+  /** Protocol version */
+  v: typeof PAYLOAD_VERSION
+  /** Site ID */
+  s: string
+  /** Session ID */
+  sid: string
+  /** Event type */
+  e: PayloadEventType
+  /** Absolute page URL */
+  u: string
+  /** Event properties (fields depend on the event type) */
+  p?: Record<string, any>
+  /** Referrer */
+  r?: string
+  /** Page title */
+  t?: string
+  /** Screen width */
+  sw?: number
+  /** Screen height */
+  sh?: number
+  /** Browser detected by the tracker */
+  br?: string
+  /** Headless-browser hints */
+  hl?: string[]
+  /** Client timestamp (epoch milliseconds) */
+  ts?: number
+}
+
+export type PayloadRejectionReason =
+  | 'invalid_body'
+  | 'unsupported_version'
+  | 'missing_field'
+  | 'invalid_field'
+  | 'unknown_event'
+  | 'invalid_url'
+
+export interface PayloadRejection {
+  reason: PayloadRejectionReason
+  /** Offending field, e.g. `u` or `p.metric` */
+  field?: string
+  message: string
+}
+
+export type PayloadValidationResult =
+  | { valid: true, payload: CollectPayload, url: URL, upgraded: boolean }
+  | { valid: false, rejection: PayloadRejection }
+
+export interface PayloadValidationOptions {
+  /**
+   * Origin used to resolve relative `u` values in unversioned payloads
+   * (older heatmap trackers sent only the pathname)
+   */
+  origin?: string
+}
+
+type FieldType = 'string' | 'number' | 'boolean' | 'array' | 'object'
+
+interface FieldSpec {
+  type: FieldType
+  required?: boolean
+  maxLength?: number
+  /** Allowed string values */
+  values?: readonly string[]
+  /** Pattern a string value must match */
+  pattern?: RegExp
+}
+
+const MAX_URL_LENGTH = 2048
+
+const TOP_LEVEL_FIELDS: Record<string, FieldSpec> = {
+  s: { type: 'string', required: true, maxLength: 100 },
+  sid: { type: 'string', required: true, maxLength: 100 },
+  e: { type: 'string', required: true },
+  u: { type: 'string', required: true, maxLength: MAX_URL_LENGTH },
+  p: { type: 'object' },
+  r: { type: 'string', maxLength: MAX_URL_LENGTH },
+  t: { type: 'string' },
+  sw: { type: 'number' },
+  sh: { type: 'number' },
+  br: { type: 'string', maxLength: 100 },
+  hl: { type: 'array' },
+  ts: { type: 'number' },
+}
+
+/**
+ * Property fields checked per event type; other properties pass through
+ */
+const EVENT_PROPERTY_FIELDS: Record<PayloadEventType, Record<string, FieldSpec>> = {
+  pageview: {},
+  pageleave: {
+    engagedMs: { type: 'number', required: true },
+  },
+  event: {
+    name: { type: 'string', maxLength: 200 },
+    value: { type: 'number' },
+    category: { type: 'string' },
+  },
+  outbound: {
+    url: { type: 'string', required: true, maxLength: MAX_URL_LENGTH },
+  },
+  hm_click: {
+    vx: { type: 'number' },
+    vy: { type: 'number' },
+    dx: { type: 'number' },
+    dy: { type: 'number' },
+    vw: { type: 'number' },
+    vh: { type: 'number' },
+    selector: { type: 'string' },
+    tag: { type: 'string' },
+    text: { type: 'string' },
+  },
+  hm_move: {
+    points: { type: 'array', required: true },
+    vw: { type: 'number' },
+    vh: { type: 'number' },
+  },
+  hm_scroll: {
+    maxDepth: { type: 'number' },
+    depths: { type: 'object' },
+    docHeight: { type: 'number' },
+    vh: { type: 'number' },
+  },
+  vitals: {
+    metric: { type: 'string', required: true },
+    value: { type: 'number', required: true },
+    rating: { type: 'string' },
+  },
+  error: {
+    message: { type: 'string', required: true },
+    source: { type: 'string' },
+    line: { type: 'number' },
+    col: { type: 'number' },
+    stack: { type: 'string' },
+  },
+  ecommerce: {
+    action: { type: 'string', required: true, values: ECOMMERCE_ACTIONS },
+    orderId: { type: 'string', maxLength: 200 },
+    currency: { type: 'string', pattern: /^[A-Z]{3}$/ },
+    value: { type: 'number' },
+    items: { type: 'array' },
+  },
+}
+
+function isObject(value: unknown): value is Record<string, any> {
+  return !!value && typeof value === 'object' && !Array.isArray(value)
+}
+
+function matchesType(value: unknown, type: FieldType): boolean {
+  switch (type) {
+    case 'number':
+      return typeof value === 'number' && Number.isFinite(value)
+    case 'array':
+      return Array.isArray(value)
+    case 'object':
+      return isObject(value)
+    default:
+      return typeof value === type
+  }
+}
+
+function checkFields(data: Record<string, any>, specs: Record<string, FieldSpec>, prefix = ''): PayloadRejection | null {
+  for (const [name, spec] of Object.entries(specs)) {
+    const value = data[name]
+    const field = `${prefix}${name}`
+
+    // null is what JSON.stringify makes of NaN, treat it as absent
+    if (value === undefined || value === null || (spec.required && value === '')) {
+      if (spec.required) {
+        return { reason: 'missing_field', field, message: `Missing required field: ${field}` }
+      }
+      continue
+    }
+    if (!matchesType(value, spec.type)) {
+      return { reason: 'invalid_field', field, message: `Invalid field: ${field} (expected ${spec.type})` }
+    }
+    if (spec.maxLength && typeof value === 'string' && value.length > spec.maxLength) {
+      return { reason: 'invalid_field', field, message: `Invalid field: ${field} (longer than ${spec.maxLength})` }
+    }
+    if (spec.values && !spec.values.includes(value as string)) {
+      return { reason: 'invalid_field', field, message: `Invalid field: ${field} (expected one of ${spec.values.join(', ')})` }
+    }
+    if (spec.pattern && typeof value === 'string' && !spec.pattern.test(value)) {
+      return { reason: 'invalid_field', field, message: `Invalid field: ${field} (expected ${spec.pattern.source})` }
+    }
+  }
+  return null
+}
+
+/**
+ * Upgrade an unversioned payload to the current version
+ *
+ * - `en` / `ev` / `ec` (event name, value, category) move into `p`
+ * - relative `u` values are resolved against `origin`
+ */
+export function upgradePayload(raw: Record<string, any>, options: PayloadValidationOptions = {}): Record<string, any> {
+  if (raw.v !== undefined) return raw
+
+  const { en, ev, ec, ...payload } = raw
+  payload.v = PAYLOAD_VERSION
+
+  if (payload.e === 'event' && (en !== undefined || ev !== undefined || ec !== undefined)) {
+    const props = isObject(payload.p) ? { ...payload.p } : {}
+    if (en !== undefined && props.name === undefined) props.name = en
+    if (ev !== undefined && props.value === undefined) props.value = ev
+    if (ec !== undefined && props.category === undefined) props.category = ec
+    payload.p = props
+  }
+
+  if (typeof payload.u === 'string' && payload.u.startsWith('/') && options.origin) {
+    try {
+      payload.u = new URL(payload.u, options.origin).href
+    } catch {
+      // Left as-is, rejected as an invalid URL below
+    }
+  }
+
+  return payload
+}
+
+/**
+ * Validate a collect payload, upgrading unversioned payloads first
+ */
+export function validateCollectPayload(raw: unknown, options: PayloadValidationOptions = {}): PayloadValidationResult {
+  if (!isObject(raw)) {
+    return { valid: false, rejection: { reason: 'invalid_body', message: 'Payload must be a JSON object' } }
+  }
+
+  const upgraded = raw.v === undefined
+  const payload = upgradePayload(raw, options)
+
+  if (payload.v !== PAYLOAD_VERSION) {
+    return {
+      valid: false,
+      rejection: { reason: 'unsupported_version', field: 'v', message: `Unsupported payload version: ${String(payload.v)}` },
+    }
+  }
+
+  const topLevel = checkFields(payload, TOP_LEVEL_FIELDS)
+  if (topLevel) return { valid: false, rejection: topLevel }
+
+  if (!PAYLOAD_EVENT_TYPES.includes(payload.e)) {
+    return { valid: false, rejection: { reason: 'unknown_event', field: 'e', message: `Unknown event type: ${payload.e}` } }
+  }
+
+  const properties = checkFields(payload.p || {}, EVENT_PROPERTY_FIELDS[payload.e as PayloadEventType], 'p.')
+  if (properties) return { valid: false, rejection: properties }
+
+  // Purchases and refunds are deduplicated on their order ID
+  if (payload.e === 'ecommerce' && ORDER_ACTIONS.includes(payload.p.action) && !payload.p.orderId) {
+    return { valid: false, rejection: { reason: 'missing_field', field: 'p.orderId', message: 'Missing required field: p.orderId' } }
+  }
+
+  let url: URL
+  try {
+    url = new URL(payload.u)
+  } catch {
+    return { valid: false, rejection: { reason: 'invalid_url', field: 'u', message: 'Invalid URL' } }
+  }
+  if (url.protocol !== 'http:' && url.protocol !== 'https:') {
+    return { valid: false, rejection: { reason: 'invalid_url', field: 'u', message: 'Invalid URL (expected http or https)' } }
+  }
+
+  return { valid: true, payload: payload as CollectPayload, url, upgraded }
+}
@@ -0,0 +1,211 @@
+/**
+ * Referrer cleanup for the ingestion path and referrer aggregation
+ *
+ * Rules apply in order, first match wins:
+ * 1. Self-referrals (the referrer is one of the site's own domains) count as direct
+ * 2. Per-site custom rules: `block` drops the hit, `alias` merges hostnames into one source
+ * 3. Referrer spam from the bundled list (plus configured domains) drops the hit
+ * 4. Everything else is classified by parseReferrerSource()
+ */
+
+import { parseReferrerSource } from './geolocation'
+import { hostnameMatchesDomain, normalizeDomain } from './site-policy'
+
+/**
+ * Per-site custom rule
+ *
+ * `pattern` is a referrer hostname: `example.com` also matches `www.example.com`,
+ * `*.example.com` matches any subdomain.
+ */
+export interface ReferrerRule {
+  type: 'block' | 'alias'
+  pattern: string
+  /** Source name that alias rules map the hostname to */
+  alias?: string
+  label?: string
+}
+
+export type ReferrerAction = 'keep' | 'self' | 'alias' | 'block' | 'spam'
+
+export interface ReferrerResolution {
+  action: ReferrerAction
+  /** Referrer URL to store (removed for self-referrals) */
+  referrer?: string
+  source: string
+  /** What matched: the rule label or pattern, or the spam domain */
+  detail?: string
+}
+
+export interface ReferrerRuleContext {
+  /** Site domains used for self-referral exclusion */
+  siteDomains?: string[]
+  rules?: ReferrerRule[]
+  /** Spam domains; each also matches its subdomains */
+  spamDomains?: string[]
+}
+
+/**
+ * Bundled referrer-spam domains.
+ * Not exhaustive - it covers the long-running ghost-spam and SEO-spam campaigns.
+ * Extend it through `referrers.spamDomains` in the config.
+ */
+export const REFERRER_SPAM_DOMAINS: string[] = [
+  '4webmasters.org',
+  'best-seo-offer.com',
+  'best-seo-solution.com',
+  'blackhatworth.com',
+  'buttons-for-website.com',
+  'buttons-for-your-website.com',
+  'buy-cheap-online.info',
+  'darodar.com',
+  'econom.co',
+  'floating-share-buttons.com',
+  'free-share-buttons.com',
+  'free-social-buttons.com',
+  'get-free-social-traffic.com',
+  'get-free-traffic-now.com',
+  'hulfingtonpost.com',
+  'ilovevitaly.com',
+  'o-o-6-o-o.com',
+  'o-o-8-o-o.com',
+  'priceg.com',
+  'rank-checker.online',
+  'semalt.com',
+  'simple-share-buttons.com',
+  'social-buttons.com',
+  'traffic2money.com',
+  'trafficmonetize.org',
+  'webmonetizer.net',
+]
+
+/**
+ * Whether a hostname is a spam domain or one of its subdomains
+ */
+export function matchSpamDomain(hostname: string, spamDomains: string[]): string | undefined {
+  const host = normalizeDomain(hostname)
+  return spamDomains
+    .map(normalizeDomain)
+    .find(domain => !!domain && (host === domain || host.endsWith(`.${domain}`)))
+}
+
+/**
+ * Resolve a referrer to the source it is reported under
+ */
+export function resolveReferrer(referrer: string | undefined, context: ReferrerRuleContext = {}): ReferrerResolution {
+  if (!referrer) {
+    return { action: 'keep', source: 'direct' }
+  }
+
+  let hostname: string
+  try {
+    hostname = new URL(referrer).hostname
+  } catch {
+    return { action: 'keep', referrer, source: parseReferrerSource(referrer) }
+  }
+
+  const ownDomain = context.siteDomains?.find(domain => hostnameMatchesDomain(hostname, domain))
+  if (ownDomain) {
+    return { action: 'self', source: 'direct', detail: ownDomain }
+  }
+
+  for (const rule of context.rules || []) {
+    if (!hostnameMatchesDomain(hostname, rule.pattern)) continue
+    const detail = rule.label || rule.pattern
+    return rule.type === 'alias' && rule.alias
+      ? { action: 'alias', referrer, source: rule.alias, detail }
+      : { action: 'block', referrer, source: parseReferrerSource(referrer), detail }
+  }
+
+  const spamDomain = matchSpamDomain(hostname, context.spamDomains || [])
+  if (spamDomain) {
+    return { action: 'spam', referrer, source: parseReferrerSource(referrer), detail: spamDomain }
+  }
+
+  return { action: 'keep', referrer, source: parseReferrerSource(referrer) }
+}
+
+/**
+ * Whether the hit should be dropped rather than recorded
+ */
+export function isDroppedReferrer(resolution: ReferrerResolution): boolean {
+  return resolution.action === 'block' || resolution.action === 'spam'
+}
+
+/**
+ * Validate and normalize custom rules from an API request body
+ */
+export function normalizeReferrerRules(rules: unknown): ReferrerRule[] {
+  if (!Array.isArray(rules)) return []
+
+  return rules
+    .filter((rule): rule is Record<string, any> => !!rule && typeof rule === 'object')
+    .filter(rule => ['block', 'alias'].includes(rule.type) && typeof rule.pattern === 'string' && normalizeDomain(rule.pattern) !== '')
+    .filter(rule => rule.type === 'block' || (typeof rule.alias === 'string' && rule.alias.trim() !== ''))
+    .map(rule => ({
+      type: rule.type as ReferrerRule['type'],
+      pattern: normalizeDomain(rule.pattern),
+      ...(rule.type === 'alias' && { alias: rule.alias.trim().slice(0, 100) }),
+      ...(typeof rule.label === 'string' && rule.label && { label: rule.label.slice(0, 100) }),
+    }))
+}
+
+export interface ReferrerRuleChange {
+  /** Referrer hostname ('' for direct traffic) */
+  hostname: string
+  before: { action: ReferrerAction, source: string }
+  after: { action: ReferrerAction, source: string }
+  sessions: number
+  visitors: number
+}
+
+/**
+ * Compare two rule sets over past sessions (dry run)
+ *
+ * Returns one entry per referrer hostname whose outcome differs, largest first.
+ */
+export function previewReferrerRules(
+  sessions: Array<{ referrer?: string, visitorId: string }>,
+  current: ReferrerRuleContext,
+  proposed: ReferrerRuleContext,
+): { sessions: number, changedSessions: number, changes: ReferrerRuleChange[] } {
+  const changes = new Map<string, ReferrerRuleChange & { visitorIds: Set<string> }>()
+  let changedSessions = 0
+
+  for (const session of sessions) {
+    const before = resolveReferrer(session.referrer, current)
+    const after = resolveReferrer(session.referrer, proposed)
+    if (before.action === after.action && before.source === after.source) continue
+
+    changedSessions++
+    let hostname = ''
+    try {
+      hostname = session.referrer ? new URL(session.referrer).hostname : ''
+    } catch {
+      hostname = session.referrer || ''
+    }
+
+    const key = `${hostname}#${before.action}#${before.source}#${after.action}#${after.source}`
+    let change = changes.get(key)
+    if (!change) {
+      change = {
+        hostname,
+        before: { action: before.action, source: before.source },
+        after: { action: after.action, source: after.source },
+        sessions: 0,
+        visitors: 0,
+        visitorIds: new Set(),
+      }
+      changes.set(key, change)
+    }
+    change.sessions++
+    change.visitorIds.add(session.visitorId)
+  }
+
+  return {
+    sessions: sessions.length,
+    changedSessions,
+    changes: [...changes.values()]
+      .map(({ visitorIds, ...change }) => ({ ...change, visitors: visitorIds.size }))
+      .sort((a, b) => b.sessions - a.sessions),
+  }
+}
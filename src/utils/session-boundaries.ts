@@ -0,0 +1,141 @@
+/**
+ * Server-side session boundaries
+ *
+ * The tracker keeps one session ID (`sid`) until it expires client-side, which the
+ * server can't rely on. A hit starts a new session when:
+ * - the current session has been inactive for longer than the timeout
+ * - it is the first hit after local midnight in the site's timezone (optional)
+ * - a pageview brings a different UTM campaign
+ * - a pageview comes from a different external referrer
+ *
+ * Only the hit types in `SESSION_BOUNDARY_TYPES` can start a session; the others
+ * join the current one. A new session gets an ID derived from the client's `sid`
+ * and its start time, and later hits with that `sid` join it. The direct write
+ * path and the SQS consumer both decide boundaries here.
+ */
+
+export type SessionBoundaryReason = 'inactivity' | 'midnight' | 'campaign' | 'referrer'
+
+export interface SessionBoundaryRules {
+  /** Minutes without a hit after which the next hit starts a new session */
+  inactivityTimeoutMinutes: number
+  /** Start a new session at local midnight */
+  splitAtMidnight: boolean
+  /** Start a new session when a pageview brings a different UTM campaign */
+  splitOnCampaignChange: boolean
+  /** Start a new session when a pageview comes from a different external referrer */
+  splitOnReferrerChange: boolean
+  /** IANA timezone for the midnight rule (defaults to UTC) */
+  timezone?: string
+}
+
+/**
+ * The parts of the current session the rules look at
+ */
+export interface SessionBoundaryState {
+  endedAt?: Date | string
+  startedAt: Date | string
+  referrerSource?: string
+  utmSource?: string
+  utmCampaign?: string
+}
+
+/**
+ * Hit types that can start a new session. Engaged time (`pageleave`) belongs to
+ * the session it was measured in, and heatmap, vitals and error hits never split one.
+ */
+export const SESSION_BOUNDARY_TYPES = ['pageview', 'event', 'outbound', 'ecommerce']
+
+export function isSessionBoundaryType(type: string): boolean {
+  return SESSION_BOUNDARY_TYPES.includes(type)
+}
+
+/**
+ * The parts of an incoming hit the rules look at
+ */
+export interface SessionBoundaryHit {
+  timestamp: Date
+  /** Hit type (`pageview`, `event`, ...). Only pageviews carry a campaign or referrer worth comparing. */
+  type: string
+  /** Page hostname, used to ignore internal referrers */
+  hostname?: string
+  referrer?: string
+  referrerSource?: string
+  utmSource?: string
+  utmCampaign?: string
+}
+
+/**
+ * Calendar date (YYYY-MM-DD) of `date` in `timezone`
+ */
+export function getLocalDate(date: Date, timezone = 'UTC'): string {
+  try {
+    return new Intl.DateTimeFormat('en-CA', { timeZone: timezone, year: 'numeric', month: '2-digit', day: '2-digit' }).format(date)
+  } catch {
+    return date.toISOString().slice(0, 10)
+  }
+}
+
+function isExternalReferrer(hit: SessionBoundaryHit): boolean {
+  if (!hit.referrerSource || hit.referrerSource === 'direct' || !hit.referrer) return false
+  try {
+    const host = new URL(hit.referrer).hostname.replace(/^www\./, '')
+    return !hit.hostname || host !== hit.hostname.replace(/^www\./, '')
+  } catch {
+    return false
+  }
+}
+
+/**
+ * Whether `hit` starts a new session, and why
+ */
+export function getSessionBoundary(
+  session: SessionBoundaryState,
+  hit: SessionBoundaryHit,
+  rules: SessionBoundaryRules,
+): SessionBoundaryReason | null {
+  if (!isSessionBoundaryType(hit.type)) return null
+
+  const lastHit = new Date(session.endedAt || session.startedAt)
+
+  // Backfilled hits from before the last hit never split a session
+  if (hit.timestamp <= lastHit) return null
+
+  if (hit.timestamp.getTime() - lastHit.getTime() > rules.inactivityTimeoutMinutes * 60 * 1000) {
+    return 'inactivity'
+  }
+
+  if (rules.splitAtMidnight && getLocalDate(hit.timestamp, rules.timezone) !== getLocalDate(lastHit, rules.timezone)) {
+    return 'midnight'
+  }
+
+  if (hit.type !== 'pageview') return null
+
+  if (rules.splitOnCampaignChange && hit.utmCampaign
+    && (hit.utmCampaign !== session.utmCampaign || (hit.utmSource || '') !== (session.utmSource || ''))) {
+    return 'campaign'
+  }
+
+  if (rules.splitOnReferrerChange && isExternalReferrer(hit) && hit.referrerSource !== session.referrerSource) {
+    return 'referrer'
+  }
+
+  return null
+}
+
+/**
+ * ID of a session split off the client's session ID
+ */
+export function deriveSessionId(clientSessionId: string, startedAt: Date): string {
+  return `${clientSessionId}.${startedAt.getTime().toString(36)}`
+}
+
+/** How long a client session ID keeps pointing at its current session */
+export const SESSION_HEAD_TTL_SECONDS = 7 * 24 * 60 * 60
+
+/**
+ * Key of the item that points a client session ID at its current session
+ */
+export function getSessionHeadKey(siteId: string, clientSessionId: string): { pk: string, sk: string } {
+  return { pk: `SITE#${siteId}`, sk: `SESSIONHEAD#${clientSessionId}` }
+}
@@ -0,0 +1,78 @@
+/**
+ * Site ingestion policy
+ *
+ * Decides which sites accept events and from which hostnames:
+ * - `open`: unknown site IDs are auto-created on their first event and any hostname is accepted
+ * - `allowlist`: event hostnames must match the site's domains; unknown sites are still auto-created
+ * - `closed`: only pre-registered sites accept events, and hostnames must match their domains
+ *
+ * Events from a hostname outside the allowlist are `foreign`. They are either rejected
+ * or accepted and tagged, per the site's `foreignHostnames` setting.
+ */
+
+export type SiteIngestionMode = 'open' | 'allowlist' | 'closed'
+
+export type ForeignHostnameAction = 'reject' | 'tag'
+
+export interface SiteIngestionPolicy {
+  mode: SiteIngestionMode
+  foreignHostnames: ForeignHostnameAction
+}
+
+export const SITE_INGESTION_MODES: SiteIngestionMode[] = ['open', 'allowlist', 'closed']
+
+export const FOREIGN_HOSTNAME_ACTIONS: ForeignHostnameAction[] = ['reject', 'tag']
+
+/**
+ * Reduce a configured domain to a bare lowercase hostname (scheme, port and path removed).
+ * A leading `*.` wildcard is kept.
+ */
+export function normalizeDomain(domain: string): string {
+  return domain
+    .trim()
+    .toLowerCase()
+    .replace(/^[a-z][a-z0-9+.-]*:\/\//, '')
+    .replace(/[/?#].*$/, '')
+    .replace(/:\d+$/, '')
+    .replace(/\.$/, '')
+}
+
+/**
+ * Match a hostname against one allowlisted domain
+ *
+ * - `example.com` matches `example.com` and `www.example.com`
+ * - `*.example.com` matches any subdomain of `example.com`, but not `example.com` itself
+ */
+export function hostnameMatchesDomain(hostname: string, domain: string): boolean {
+  const host = normalizeDomain(hostname)
+  const pattern = normalizeDomain(domain)
+  if (!host || !pattern) return false
+
+  if (pattern.startsWith('*.')) {
+    return host.endsWith(pattern.slice(1))
+  }
+  return host === pattern || host === `www.${pattern}`
+}
+
+/**
+ * Whether events from `hostname` are foreign to a site.
+ * Open sites and sites without domains accept every hostname.
+ */
+export function isForeignHostname(policy: SiteIngestionPolicy, domains: string[] | undefined, hostname: string): boolean {
+  if (policy.mode === 'open' || !domains || domains.length === 0) return false
+  return !domains.some(domain => hostnameMatchesDomain(hostname, domain))
+}
+
+/**
+ * Read a stored policy, falling back to the defaults for missing or invalid fields
+ */
+export function normalizeSitePolicy(value: unknown, defaults: SiteIngestionPolicy): SiteIngestionPolicy {
+  const policy = (value && typeof value === 'object' ? value : {}) as Partial<SiteIngestionPolicy>
+
+  return {
+    mode: SITE_INGESTION_MODES.includes(policy.mode as SiteIngestionMode) ? policy.mode! : defaults.mode,
+    foreignHostnames: FOREIGN_HOSTNAME_ACTIONS.includes(policy.foreignHostnames as ForeignHostnameAction)
+      ? policy.foreignHostnames!
+      : defaults.foreignHostnames,
+  }
+}
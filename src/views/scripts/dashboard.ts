@@ -505,7 +505,9 @@ async function fetchDashboardData() {
     timeSeriesData = (timeseriesRes.timeSeries || []).map((t: any) => ({
       date: t.timestamp || t.date,
       views: t.views,
-      visitors: t.visitors
+      visitors: t.visitors,
+      imported: t.imported === true,
+      importSource: t.importSource
     }))
     annotations = annotationsRes.annotations || []
     lastUpdated = new Date()
@@ -773,6 +775,56 @@ async function deleteGoal(goalId: string) {
 ;(window as any).showEditGoalModal = editGoal
 ;(window as any).confirmDeleteGoal = deleteGoal
 
+function escapeHtml(value: unknown) {
+  return String(value ?? '').replace(/[&<>"']/g, c => ({ '&': '&amp;', '<': '&lt;', '>': '&gt;', '"': '&quot;', '\'': '&#39;' })[c]!)
+}
+
+// Event property drilldown (EventsSection)
+async function showEventProperties(eventName: string, property?: string) {
+  const container = document.getElementById('event-properties')
+  if (!container || !siteId) return
+
+  container.innerHTML = '<div class="empty-state">Loading...</div>'
+  try {
+    const query = getDateRangeParams(false) + (property ? `&property=${encodeURIComponent(property)}` : '')
+    const res = await fetch(apiPath(`${API_ENDPOINT}/api/sites/${siteId}/events/${encodeURIComponent(eventName)}/properties${query}`))
+    const data = await res.json()
+
+    if (!data.keys?.length) {
+      container.innerHTML = `<div class="empty-state">No properties recorded for ${escapeHtml(eventName)}</div>`
+      return
+    }
+
+    container.innerHTML = `
+      <div class="event-properties-header">
+        <span class="event-properties-title">${escapeHtml(eventName)}</span>
+        <div class="event-property-keys">
+          ${data.keys.map((k: { key: string }) => `
+            <button type="button" class="event-property-key${k.key === data.property ? ' active' : ''}" data-key="${escapeHtml(k.key)}">${escapeHtml(k.key)}</button>
+          `).join('')}
+        </div>
+      </div>
+      <table class="event-properties-table">
+        <thead><tr><th>${escapeHtml(data.property)}</th><th class="text-right">Count</th><th class="text-right">Visitors</th><th class="text-right">Value</th></tr></thead>
+        <tbody>
+          ${data.breakdown.map((row: { value: string, count: number, visitors: number, totalValue: number }) => `
+            <tr><td>${escapeHtml(row.value)}</td><td class="text-right">${fmt(row.count)}</td><td class="text-right">${fmt(row.visitors)}</td><td class="text-right">${row.totalValue ? row.totalValue.toFixed(2) : '-'}</td></tr>
+          `).join('')}
+        </tbody>
+      </table>
+    `
+
+    container.querySelectorAll('.event-property-key').forEach(button => {
+      button.addEventListener('click', () => showEventProperties(eventName, (button as HTMLElement).dataset.key))
+    })
+  } catch (err) {
+    console.error('Event properties error:', err)
+    container.innerHTML = '<div class="empty-state">Failed to load event properties</div>'
+  }
+}
+
+;(window as any).showEventProperties = showEventProperties
+
 // Chart rendering
 function renderChart() {
   const canvas = document.getElementById('chart') as HTMLCanvasElement
@@ -786,7 +838,8 @@ function renderChart() {
     border: styles.getPropertyValue('--border').trim() || '#2d3139',
     accent2: styles.getPropertyValue('--accent2').trim() || '#818cf8',
     muted: styles.getPropertyValue('--muted').trim() || '#6b7280',
-    text: styles.getPropertyValue('--text').trim() || '#f3f4f6'
+    text: styles.getPropertyValue('--text').trim() || '#f3f4f6',
+    bg: styles.getPropertyValue('--bg').trim() || '#111827'
   }
 
   if (!timeSeriesData.length) {
@@ -890,10 +943,12 @@ function renderChart() {
 
     points.forEach((p, i) => {
       ctx.beginPath()
-      ctx.fillStyle = i === hoverIdx ? colors.text : colors.accent2
+      // Imported days are drawn as hollow points
+      const imported = timeSeriesData[i]?.imported
+      ctx.fillStyle = i === hoverIdx ? colors.text : imported ? colors.bg : colors.accent2
       ctx.arc(p.x, p.y, i === hoverIdx ? 6 : 3, 0, Math.PI * 2)
       ctx.fill()
-      if (i === hoverIdx) { ctx.strokeStyle = colors.accent2; ctx.lineWidth = 2; ctx.stroke() }
+      if (i === hoverIdx || imported) { ctx.strokeStyle = colors.accent2; ctx.lineWidth = 2; ctx.stroke() }
     })
 
     const annotationColors: Record<string, string> = { deployment: '#22c55e', campaign: '#3b82f6', incident: '#ef4444', general: '#8b5cf6' }
@@ -1004,7 +1059,7 @@ function renderChart() {
       points.forEach((p, i) => { const d = Math.abs(mx - p.x); if (d < minDist) { minDist = d; closest = i } })
       if (closest >= 0) {
         const p = points[closest], d = p.data
-        tooltipDate.textContent = fmtDateFull(d.date)
+        tooltipDate.textContent = fmtDateFull(d.date) + (d.imported ? ' (imported from ' + d.importSource + ')' : '')
         tooltipViews.textContent = fmt(d.views || d.count || 0)
         tooltipVisitors.textContent = fmt(d.visitors || 0)
         tooltip.style.display = 'block'
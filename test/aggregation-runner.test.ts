@@ -0,0 +1,160 @@
+/**
+ * Aggregation runner tests
+ * Tests watermarks, idempotent rollup writes, late data and backfills
+ */
+
+import type { AnalyticsEvent } from '../src/sqs-buffering'
+import { afterEach, beforeEach, describe, expect, it } from 'bun:test'
+import { AggregationRunner, getLatePeriods } from '../src/aggregation-runner'
+import { AnalyticsStore } from '../src/Analytics'
+import { resetConfig, setConfig } from '../src/config'
+import { fromUpdateCommand, MemoryAnalyticsRepository } from '../src/repository'
+
+const SITE_ID = 'site-1'
+const SITE = `SITE#${SITE_ID}`
+
+let repository: MemoryAnalyticsRepository
+let now: Date
+
+async function putVisit(id: string, time: string, views = 1): Promise<void> {
+  for (let view = 0; view < views; view++) {
+    const timestamp = new Date(new Date(time).getTime() + view * 60_000).toISOString()
+    await repository.put({ pk: SITE, sk: `PAGEVIEW#${timestamp}#${id}-${view}`, id: `${id}-${view}`, siteId: SITE_ID, visitorId: id, sessionId: id, path: view ? '/pricing' : '/', isUnique: view === 0, timestamp })
+  }
+  await repository.put({ pk: SITE, sk: `SESSION#${id}`, id, siteId: SITE_ID, visitorId: id, referrerSource: 'google', pageViewCount: views, eventCount: 0, isBounce: views === 1, duration: 0, startedAt: time })
+}
+
+function createRunner(): AggregationRunner {
+  return new AggregationRunner(repository, { now: () => now })
+}
+
+beforeEach(async () => {
+  repository = new MemoryAnalyticsRepository()
+  now = new Date('2024-01-15T12:10:00.000Z')
+  await putVisit('a', '2024-01-15T10:05:00.000Z', 2)
+  await putVisit('b', '2024-01-15T11:20:00.000Z')
+  await putVisit('c', '2024-01-15T11:40:00.000Z', 3)
+})
+
+afterEach(() => {
+  resetConfig()
+})
+
+describe('AggregationRunner.run', () => {
+  it('should start at the last closed period and move the watermark on', async () => {
+    const runner = createRunner()
+    const result = await runner.run([SITE_ID], ['hour'])
+
+    expect(result.windows.map(window => [window.periodStart, window.reason, window.status])).toEqual([
+      ['2024-01-15T11:00:00.000Z', 'scheduled', 'aggregated'],
+    ])
+    expect(await runner.getWatermark(SITE_ID, 'hour')).toBe('2024-01-15T11:00:00.000Z')
+    expect(await repository.get({ pk: SITE, sk: 'STATS#HOUR#2024-01-15T11:00:00.000Z' })).toMatchObject({ pageViews: 4, uniqueVisitors: 2, sessions: 2 })
+
+    expect((await runner.run([SITE_ID], ['hour'])).windows).toEqual([])
+
+    now = new Date('2024-01-15T14:10:00.000Z')
+    const later = await runner.run([SITE_ID], ['hour'])
+    expect(later.windows.map(window => window.periodStart)).toEqual(['2024-01-15T12:00:00.000Z', '2024-01-15T13:00:00.000Z'])
+    expect(await runner.getWatermark(SITE_ID, 'hour')).toBe('2024-01-15T13:00:00.000Z')
+  })
+
+  it('should wait for periods to settle', async () => {
+    setConfig({ aggregation: { settleMinutes: 15 } })
+    const result = await createRunner().run([SITE_ID], ['hour'])
+
+    expect(result.windows.map(window => window.periodStart)).toEqual(['2024-01-15T10:00:00.000Z'])
+  })
+
+  it('should catch up on at most maxWindowsPerRun periods', async () => {
+    setConfig({ aggregation: { maxWindowsPerRun: 2 } })
+    await repository.put({ pk: SITE, sk: 'WATERMARK#HOUR', periodStart: '2024-01-15T06:00:00.000Z' })
+    const runner = createRunner()
+
+    expect((await runner.run([SITE_ID], ['hour'])).windows).toHaveLength(2)
+    expect(await runner.getWatermark(SITE_ID, 'hour')).toBe('2024-01-15T08:00:00.000Z')
+  })
+
+  it('should re-aggregate periods with late events and clear their markers', async () => {
+    const runner = createRunner()
+    await runner.run([SITE_ID], ['hour'])
+
+    await putVisit('d', '2024-01-15T11:50:00.000Z')
+    await repository.put({ pk: SITE, sk: 'DIRTY#HOUR#2024-01-15T11:00:00.000Z', markedAt: '2024-01-15T12:11:00.000Z' })
+    const result = await runner.run([SITE_ID], ['hour'])
+
+    expect(result.windows.map(window => [window.periodStart, window.reason])).toEqual([['2024-01-15T11:00:00.000Z', 'late']])
+    expect(await repository.get({ pk: SITE, sk: 'STATS#HOUR#2024-01-15T11:00:00.000Z' })).toMatchObject({ pageViews: 5, uniqueVisitors: 3 })
+    expect(await repository.get({ pk: SITE, sk: 'DIRTY#HOUR#2024-01-15T11:00:00.000Z' })).toBeNull()
+  })
+
+  it('should re-aggregate a period marked by a late event from the SQS consumer', async () => {
+    const runner = createRunner()
+    await runner.run([SITE_ID], ['hour'])
+
+    // A queued pageview of the closed hour, and one of the open hour
+    await putVisit('d', '2024-01-15T11:50:00.000Z')
+    const events: AnalyticsEvent[] = ['2024-01-15T11:50:00.000Z', '2024-01-15T12:05:00.000Z'].map(timestamp => ({
+      type: 'pageview',
+      siteId: SITE_ID,
+      timestamp,
+      data: { siteId: SITE_ID, path: '/' },
+    }))
+
+    // The consumer sends a dirty marker update for each late period
+    const store = new AnalyticsStore({ tableName: 'AnalyticsTable' })
+    const late = getLatePeriods(events, now)
+    expect(late).toEqual([{ siteId: SITE_ID, period: 'hour', periodStart: '2024-01-15T11:00:00.000Z' }])
+    for (const { siteId, period, periodStart } of late) {
+      const { key, update } = fromUpdateCommand(store.markPeriodDirtyCommand(siteId, period, periodStart, now).input)
+      await repository.update(key, update)
+    }
+
+    const result = await runner.run([SITE_ID], ['hour'])
+    expect(result.windows.map(window => [window.periodStart, window.reason])).toEqual([['2024-01-15T11:00:00.000Z', 'late']])
+    expect(await repository.get({ pk: SITE, sk: 'STATS#HOUR#2024-01-15T11:00:00.000Z' })).toMatchObject({ pageViews: 5 })
+    expect(await repository.get({ pk: SITE, sk: 'DIRTY#HOUR#2024-01-15T11:00:00.000Z' })).toBeNull()
+  })
+
+  it('should not mark periods that are still settling', () => {
+    const events = [{ siteId: SITE_ID, timestamp: '2024-01-15T11:58:00.000Z' }]
+
+    expect(getLatePeriods(events, new Date('2024-01-15T12:03:00.000Z'))).toEqual([])
+    expect(getLatePeriods(events, new Date('2024-01-15T12:06:00.000Z'))).toHaveLength(1)
+  })
+})
+
+describe('AggregationRunner.backfill', () => {
+  it('should replace rollups instead of adding to them', async () => {
+    const runner = createRunner()
+    now = new Date('2024-01-16T00:10:00.000Z')
+    await runner.backfill([SITE_ID], new Date('2024-01-15'), new Date('2024-01-15'), ['day'])
+    const result = await runner.backfill([SITE_ID], new Date('2024-01-15'), new Date('2024-01-15'), ['day'])
+
+    expect(result.aggregated).toBe(1)
+    expect(await repository.get({ pk: SITE, sk: 'STATS#DAY#2024-01-15' })).toMatchObject({ pageViews: 6, uniqueVisitors: 3, sessions: 3 })
+    expect(await repository.get({ pk: SITE, sk: 'PAGESTATS#DAY#2024-01-15#%2F' })).toMatchObject({ pageViews: 3 })
+    expect(await repository.get({ pk: SITE, sk: 'REFSTATS#DAY#2024-01-15#google' })).toMatchObject({ visitors: 3 })
+    expect(await runner.getWatermark(SITE_ID, 'day')).toBeNull()
+  })
+
+  it('should only aggregate closed periods', async () => {
+    const result = await createRunner().backfill([SITE_ID], new Date('2024-01-15T09:00:00.000Z'), new Date('2024-01-15T23:00:00.000Z'), ['hour', 'day'])
+
+    expect(result.windows.map(window => `${window.period} ${window.periodStart}`)).toEqual([
+      'hour 2024-01-15T09:00:00.000Z',
+      'hour 2024-01-15T10:00:00.000Z',
+      'hour 2024-01-15T11:00:00.000Z',
+    ])
+  })
+
+  it('should skip days holding imported data', async () => {
+    now = new Date('2024-01-16T00:10:00.000Z')
+    await repository.put({ pk: SITE, sk: 'STATS#DAY#2024-01-15', pageViews: 100 })
+    await repository.put({ pk: SITE, sk: 'IMPORT#2024-01-15', status: 'complete' })
+    const result = await createRunner().backfill([SITE_ID], new Date('2024-01-15'), new Date('2024-01-15'), ['day'])
+
+    expect(result.skipped).toBe(1)
+    expect(await repository.get({ pk: SITE, sk: 'STATS#DAY#2024-01-15' })).toMatchObject({ pageViews: 100 })
+  })
+})
@@ -0,0 +1,145 @@
+/**
+ * Batch write tests
+ * Tests per-event results from the SQS batch producer and pre-marshalled batch queue items
+ */
+
+import type { DynamoDBBatchClient } from '../src/batching'
+import type { AnalyticsEvent, SQSClient } from '../src/sqs-buffering'
+import { describe, expect, it } from 'bun:test'
+import { EventBatchQueue } from '../src/batching'
+import { isQueuedEventType, SQSEventConsumer, SQSEventProducer } from '../src/sqs-buffering'
+
+function makeEvent(siteId: string, path: string): AnalyticsEvent {
+  return {
+    type: 'pageview',
+    siteId,
+    timestamp: new Date().toISOString(),
+    data: { siteId, path },
+  }
+}
+
+function makeSQSClient(failIds: string[] = []): SQSClient & { sent: string[] } {
+  const sent: string[] = []
+  return {
+    sent,
+    sendMessage: async () => ({ MessageId: 'm' }),
+    sendMessageBatch: async (input) => {
+      sent.push(...input.Entries.map(e => e.Id))
+      return {
+        Successful: input.Entries.filter(e => !failIds.includes(e.Id)).map(e => ({ Id: e.Id, MessageId: `m-${e.Id}` })),
+        Failed: input.Entries.filter(e => failIds.includes(e.Id)).map(e => ({ Id: e.Id, Code: 'Throttled', Message: 'slow down' })),
+      }
+    },
+    receiveMessage: async () => ({ Messages: [] }),
+    deleteMessage: async () => {},
+    deleteMessageBatch: async () => ({ Successful: [], Failed: [] }),
+  }
+}
+
+// ============================================================================
+// SQS Batch Producer
+// ============================================================================
+
+describe('SQSEventProducer.sendEventsBatch', () => {
+  it('should send every event and report no failures', async () => {
+    const client = makeSQSClient()
+    const producer = new SQSEventProducer(client, 'https://sqs.local/queue')
+
+    const events = Array.from({ length: 12 }, (_, i) => makeEvent('site-a', `/p${i}`))
+    const result = await producer.sendEventsBatch(events)
+
+    expect(result.successful).toBe(12)
+    expect(result.failed).toBe(0)
+    expect(result.failedIndexes).toEqual([])
+  })
+
+  it('should report failures by input position across sites', async () => {
+    const client = makeSQSClient(['1', '3'])
+    const producer = new SQSEventProducer(client, 'https://sqs.local/queue')
+
+    const events = [
+      makeEvent('site-a', '/a'),
+      makeEvent('site-b', '/b'),
+      makeEvent('site-a', '/c'),
+      makeEvent('site-b', '/d'),
+    ]
+    const result = await producer.sendEventsBatch(events)
+
+    expect(client.sent.sort()).toEqual(['0', '1', '2', '3'])
+    expect(result.successful).toBe(2)
+    expect(result.failedIndexes).toEqual([1, 3])
+  })
+
+  it('should fail the whole chunk when the send throws', async () => {
+    const client = makeSQSClient()
+    client.sendMessageBatch = async () => {
+      throw new Error('network down')
+    }
+    const producer = new SQSEventProducer(client, 'https://sqs.local/queue')
+
+    const result = await producer.sendEventsBatch([makeEvent('site-a', '/a'), makeEvent('site-a', '/b')])
+
+    expect(result.failed).toBe(2)
+    expect(result.failedIndexes).toEqual([0, 1])
+  })
+})
+
+describe('mixed batches through SQS', () => {
+  it('should queue only the types the consumer writes, keeping their type', async () => {
+    const bodies: string[] = []
+    const client = makeSQSClient()
+    client.sendMessageBatch = async (input) => {
+      bodies.push(...input.Entries.map(e => e.MessageBody))
+      return { Successful: input.Entries.map(e => ({ Id: e.Id, MessageId: `m-${e.Id}` })), Failed: [] }
+    }
+    const producer = new SQSEventProducer(client, 'https://sqs.local/queue')
+
+    const types = ['pageview', 'hm_click', 'event', 'hm_move', 'hm_scroll', 'vitals', 'error', 'outbound', 'ecommerce', 'pageleave']
+    const queued = types.filter(isQueuedEventType)
+    expect(queued).toEqual(['pageview', 'event', 'ecommerce', 'pageleave'])
+
+    await producer.sendEventsBatch(queued.map(type => ({
+      ...makeEvent('site-a', '/pricing'),
+      type,
+      data: { siteId: 'site-a', path: '/pricing', ...(type === 'event' && { name: 'signup' }) },
+    })))
+
+    const received: AnalyticsEvent[] = []
+    const consumer = new SQSEventConsumer(client, 'https://sqs.local/queue', {
+      processEvents: async (events) => {
+        received.push(...events)
+      },
+    })
+    const result = await consumer.processBatch(bodies.map((body, i) => ({ messageId: String(i), receiptHandle: String(i), body })))
+
+    expect(result.failed).toBe(0)
+    expect(received.map(event => event.type)).toEqual(['pageview', 'event', 'ecommerce', 'pageleave'])
+    expect(received.find(event => event.type === 'event')!.data).toMatchObject({ name: 'signup' })
+  })
+})
+
+// ============================================================================
+// Batch Queue
+// ============================================================================
+
+describe('EventBatchQueue', () => {
+  it('should write pre-marshalled items as-is to the given table', async () => {
+    const writes: Array<Record<string, unknown[]>> = []
+    const client: DynamoDBBatchClient = {
+      batchWriteItem: async (input) => {
+        writes.push(input.RequestItems)
+        return {}
+      },
+    }
+
+    const queue = new EventBatchQueue(client, { tableName: 'custom-table', flushIntervalMs: 60_000 })
+    const item = { pk: { S: 'SITE#a' }, sk: { S: 'PAGEVIEW#2024-01-01T00:00:00.000Z#1' } }
+    queue.add({ type: 'item', data: item })
+
+    const result = await queue.flush()
+    await queue.close()
+
+    expect(result.successful).toBe(1)
+    expect(writes).toEqual([{ 'custom-table': [{ PutRequest: { Item: item } }] }])
+  })
+})
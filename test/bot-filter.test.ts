@@ -0,0 +1,155 @@
+/**
+ * Bot filter tests
+ * Tests the layered ingestion bot detection: signatures, headless hints, datacenter ranges and custom rules
+ */
+
+import { describe, expect, it } from 'bun:test'
+import {
+  detectBot,
+  getDatacenterProvider,
+  ipInCidr,
+  matchBotRule,
+  matchBotSignature,
+  normalizeBotRules,
+  parseHeadlessHints,
+} from '../src/utils/bot-filter'
+
+const CHROME_UA = 'Mozilla/5.0 (Windows NT 10.0; Win64; x64) AppleWebKit/537.36 (KHTML, like Gecko) Chrome/120.0.0.0 Safari/537.36'
+const RESIDENTIAL_IP = '81.2.69.160'
+
+// ============================================================================
+// User-Agent Signatures
+// ============================================================================
+
+describe('matchBotSignature', () => {
+  it('should name the crawler for known bots', () => {
+    expect(matchBotSignature('Mozilla/5.0 (compatible; Googlebot/2.1; +http://www.google.com/bot.html)')).toBe('googlebot')
+  })
+
+  it('should detect automation tools and HTTP libraries', () => {
+    expect(matchBotSignature('Mozilla/5.0 (X11; Linux x86_64) HeadlessChrome/120.0.0.0 Safari/537.36')).toBe('headlesschrome')
+    expect(matchBotSignature('curl/8.4.0')).toBe('curl/')
+    expect(matchBotSignature('python-requests/2.31.0')).toBe('python-requests')
+  })
+
+  it('should flag empty or missing user agents', () => {
+    expect(matchBotSignature('')).toBe('empty')
+    expect(matchBotSignature('unknown')).toBe('empty')
+  })
+
+  it('should not flag regular browsers', () => {
+    expect(matchBotSignature(CHROME_UA)).toBeNull()
+  })
+})
+
+// ============================================================================
+// Headless Hints
+// ============================================================================
+
+describe('parseHeadlessHints', () => {
+  it('should accept arrays and comma-separated strings', () => {
+    expect(parseHeadlessHints(['webdriver'])).toEqual(['webdriver'])
+    expect(parseHeadlessHints('phantom, nightmare')).toEqual(['phantom', 'nightmare'])
+  })
+
+  it('should drop unknown hints and bad input', () => {
+    expect(parseHeadlessHints(['webdriver', 'made-up'])).toEqual(['webdriver'])
+    expect(parseHeadlessHints(undefined)).toEqual([])
+    expect(parseHeadlessHints({ webdriver: true })).toEqual([])
+  })
+})
+
+// ============================================================================
+// Datacenter Ranges
+// ============================================================================
+
+describe('Datacenter CIDR matching', () => {
+  it('should match addresses inside a range', () => {
+    expect(ipInCidr('10.1.2.3', '10.0.0.0/8')).toBe(true)
+    expect(ipInCidr('11.0.0.1', '10.0.0.0/8')).toBe(false)
+    expect(ipInCidr('192.168.1.1', '192.168.1.1')).toBe(true)
+  })
+
+  it('should handle IPv4-mapped IPv6 and reject invalid input', () => {
+    expect(ipInCidr('::ffff:10.0.0.1', '10.0.0.0/8')).toBe(true)
+    expect(ipInCidr('2001:db8::1', '10.0.0.0/8')).toBe(false)
+    expect(ipInCidr('unknown', '10.0.0.0/8')).toBe(false)
+    expect(ipInCidr('10.0.0.1', '10.0.0.0/33')).toBe(false)
+  })
+
+  it('should resolve the provider from the bundled list', () => {
+    expect(getDatacenterProvider('159.65.10.20')).toBe('digitalocean')
+    expect(getDatacenterProvider('3.80.1.1')).toBe('aws')
+    expect(getDatacenterProvider(RESIDENTIAL_IP)).toBeNull()
+  })
+})
+
+// ============================================================================
+// Custom Rules
+// ============================================================================
+
+describe('Custom bot rules', () => {
+  it('should match user agent, path and IP rules', () => {
+    const input = { userAgent: 'Mozilla/5.0 InternalMonitor/1.0', ip: '198.51.100.7', path: '/admin/health' }
+
+    expect(matchBotRule({ type: 'userAgent', pattern: 'internalmonitor' }, input)).toBe(true)
+    expect(matchBotRule({ type: 'path', pattern: '/admin/*' }, input)).toBe(true)
+    expect(matchBotRule({ type: 'ip', pattern: '198.51.100.0/24' }, input)).toBe(true)
+    expect(matchBotRule({ type: 'ip', pattern: '198.51.100.8' }, input)).toBe(false)
+  })
+
+  it('should normalize rules from request bodies', () => {
+    const rules = normalizeBotRules([
+      { type: 'ip', pattern: ' 203.0.113.0/24 ', label: 'office' },
+      { type: 'cookie', pattern: 'x' },
+      { type: 'path' },
+      null,
+    ])
+
+    expect(rules).toEqual([{ type: 'ip', pattern: '203.0.113.0/24', action: 'block', label: 'office' }])
+  })
+})
+
+// ============================================================================
+// Layered Detection
+// ============================================================================
+
+describe('detectBot', () => {
+  it('should pass regular visitors', () => {
+    expect(detectBot({ userAgent: CHROME_UA, ip: RESIDENTIAL_IP })).toEqual({ isBot: false })
+  })
+
+  it('should report the layer that matched', () => {
+    expect(detectBot({ userAgent: 'curl/8.4.0', ip: RESIDENTIAL_IP }).reason).toBe('user_agent')
+    expect(detectBot({ userAgent: CHROME_UA, ip: RESIDENTIAL_IP, hints: ['webdriver'] })).toEqual({
+      isBot: true,
+      reason: 'headless',
+      detail: 'webdriver',
+    })
+    expect(detectBot({ userAgent: CHROME_UA, ip: '159.65.10.20' })).toEqual({
+      isBot: true,
+      reason: 'datacenter',
+      detail: 'digitalocean',
+    })
+  })
+
+  it('should apply custom block rules before other layers', () => {
+    const result = detectBot({
+      userAgent: 'curl/8.4.0',
+      ip: RESIDENTIAL_IP,
+      rules: [{ type: 'ip', pattern: RESIDENTIAL_IP, label: 'scraper' }],
+    })
+
+    expect(result).toEqual({ isBot: true, reason: 'custom_rule', detail: 'scraper' })
+  })
+
+  it('should let allow rules exempt datacenter traffic', () => {
+    const result = detectBot({
+      userAgent: CHROME_UA,
+      ip: '159.65.10.20',
+      rules: [{ type: 'ip', pattern: '159.65.0.0/16', action: 'allow' }],
+    })
+
+    expect(result.isBot).toBe(false)
+  })
+})
@@ -0,0 +1,141 @@
+/**
+ * Data migration tests
+ * Tests resumable item migrations, their checkpoints and rollbacks against the in-memory backend
+ */
+
+import type { ItemMigration } from '../src/data-migrations'
+import type { RepositoryItem } from '../src/repository'
+import { beforeEach, describe, expect, it } from 'bun:test'
+import { DATA_MIGRATIONS, DataMigrationRunner } from '../src/data-migrations'
+import { MemoryAnalyticsRepository } from '../src/repository'
+
+const SITE = 'SITE#site-1'
+
+let repository: MemoryAnalyticsRepository
+
+beforeEach(() => {
+  repository = new MemoryAnalyticsRepository()
+})
+
+function createRunner(migrations: ItemMigration[] = DATA_MIGRATIONS, options = {}): DataMigrationRunner {
+  return new DataMigrationRunner(repository, migrations, { pageSize: 2, now: () => new Date('2024-03-01T00:00:00.000Z'), ...options })
+}
+
+async function putSessions(count: number): Promise<void> {
+  for (let i = 1; i <= count; i++) {
+    await repository.put({ pk: SITE, sk: `SESSION#s${i}`, entryPage: `/entry-${i}`, exitPage: '/exit' })
+  }
+}
+
+// ============================================================================
+// Runner
+// ============================================================================
+
+describe('DataMigrationRunner', () => {
+  it('should apply pending migrations once and store their checkpoints', async () => {
+    await putSessions(3)
+    await repository.put({ pk: SITE, sk: 'SESSION#s4', entryPath: '/already' })
+
+    const progress: number[] = []
+    const first = await createRunner(DATA_MIGRATIONS, { onProgress: (p: { scanned: number }) => progress.push(p.scanned) }).run()
+
+    expect(first).toMatchObject({ applied: 2, failed: 0 })
+    expect(first.migrations[0]).toMatchObject({ name: 'session_entry_exit_paths', status: 'complete', scanned: 4, updated: 3, moved: 0 })
+    expect(progress.slice(0, 2)).toEqual([2, 4])
+    expect(await repository.get({ pk: SITE, sk: 'SESSION#s1' })).toEqual({ pk: SITE, sk: 'SESSION#s1', entryPath: '/entry-1', exitPath: '/exit' })
+    expect(await repository.get({ pk: 'MIGRATIONS', sk: 'MIGRATION#0001' })).toMatchObject({ status: 'complete', direction: 'up', scanned: 4 })
+    expect(await repository.get({ pk: 'MIGRATIONS', sk: 'MIGRATION#0001' })).not.toHaveProperty('cursor')
+
+    expect((await createRunner().run()).migrations).toEqual([])
+  })
+
+  it('should resume a failed migration from its last checkpoint', async () => {
+    await putSessions(5)
+    const seen: string[] = []
+    let fail = true
+    const migration: ItemMigration = {
+      ...DATA_MIGRATIONS[0],
+      transform: (item) => {
+        seen.push(item.sk)
+        if (item.sk === 'SESSION#s4' && fail) throw new Error('Write failed')
+        return DATA_MIGRATIONS[0].transform(item)
+      },
+    }
+
+    const failed = await createRunner([migration]).run()
+    expect(failed.migrations[0]).toMatchObject({ status: 'failed', error: 'Write failed', scanned: 2, updated: 2 })
+    expect(await repository.get({ pk: 'MIGRATIONS', sk: 'MIGRATION#0001' })).toMatchObject({ status: 'failed', error: 'Write failed', scanned: 2 })
+
+    fail = false
+    seen.length = 0
+    const resumed = await createRunner([migration]).run()
+
+    expect(resumed.migrations[0]).toMatchObject({ status: 'complete', resumed: true, scanned: 5, updated: 5 })
+    expect(seen).toEqual(['SESSION#s3', 'SESSION#s4', 'SESSION#s5'])
+    expect(await repository.get({ pk: 'MIGRATIONS', sk: 'MIGRATION#0001' })).not.toHaveProperty('error')
+  })
+
+  it('should stop at the first failed migration', async () => {
+    await putSessions(1)
+    const failing: ItemMigration = { ...DATA_MIGRATIONS[0], transform: () => { throw new Error('Broken') } }
+
+    const result = await createRunner([failing, DATA_MIGRATIONS[1]]).run()
+
+    expect(result).toMatchObject({ applied: 0, failed: 1 })
+    expect(result.migrations).toHaveLength(1)
+    expect(await repository.get({ pk: 'MIGRATIONS', sk: 'MIGRATION#0002' })).toBeNull()
+  })
+
+  it('should count changes without writing on a dry run', async () => {
+    await putSessions(3)
+
+    const result = await createRunner(DATA_MIGRATIONS, { dryRun: true }).run()
+
+    expect(result.migrations[0]).toMatchObject({ status: 'complete', dryRun: true, updated: 3 })
+    expect(await repository.get({ pk: SITE, sk: 'SESSION#s1' })).toMatchObject({ entryPage: '/entry-1' })
+    expect(await repository.query({ pk: 'MIGRATIONS' })).toEqual([])
+  })
+
+  it('should reject rollbacks of migrations without one or not applied', async () => {
+    await expect(createRunner().rollback(1)).rejects.toThrow('has no rollback')
+    await expect(createRunner().rollback(2)).rejects.toThrow('isn\'t applied')
+    await expect(createRunner().rollback(9)).rejects.toThrow('Unknown data migration')
+  })
+})
+
+// ============================================================================
+// Migrations
+// ============================================================================
+
+describe('heatmap_pathnames', () => {
+  const url = 'https://example.com/pricing?plan=pro'
+  const click: RepositoryItem = { pk: SITE, sk: 'HMCLICK#2024-01-15T10:00:00.000Z#c1', gsi1pk: `${SITE}#PATH#${encodeURIComponent(url)}`, path: url }
+  const scroll: RepositoryItem = { pk: SITE, sk: `HMSCROLL#s1#${encodeURIComponent(url)}`, id: `s1-${encodeURIComponent(url)}`, path: url }
+
+  beforeEach(async () => {
+    await repository.put(click)
+    await repository.put(scroll)
+    await repository.put({ pk: SITE, sk: 'HMSCROLL#s2#%2Fdocs', path: '/docs' })
+  })
+
+  it('should move full URLs to their pathnames', async () => {
+    const result = await createRunner([DATA_MIGRATIONS[1]]).run()
+
+    expect(result.migrations[0]).toMatchObject({ status: 'complete', scanned: 3, updated: 1, moved: 1 })
+    expect(await repository.get({ pk: SITE, sk: click.sk })).toMatchObject({ path: '/pricing', url, gsi1pk: `${SITE}#PATH#%2Fpricing` })
+    expect(await repository.get({ pk: SITE, sk: scroll.sk })).toBeNull()
+    expect(await repository.get({ pk: SITE, sk: 'HMSCROLL#s1#%2Fpricing' })).toMatchObject({ id: 's1-%2Fpricing', path: '/pricing', url })
+  })
+
+  it('should restore the URLs on rollback', async () => {
+    const runner = createRunner([DATA_MIGRATIONS[1]])
+    await runner.run()
+
+    expect(await runner.rollback(2)).toMatchObject({ status: 'rolled_back', direction: 'down', updated: 1, moved: 1 })
+    expect(await repository.get({ pk: SITE, sk: click.sk })).toEqual(click)
+    expect(await repository.get({ pk: SITE, sk: scroll.sk })).toEqual(scroll)
+    expect(await repository.get({ pk: SITE, sk: 'HMSCROLL#s1#%2Fpricing' })).toBeNull()
+
+    expect((await runner.run()).applied).toBe(1)
+  })
+})
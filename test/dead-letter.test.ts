@@ -0,0 +1,157 @@
+/**
+ * Dead-letter queue tests
+ * Tests decoding, grouping, replaying and purging dead-letter messages against an in-memory SQS client
+ */
+
+import { describe, expect, it } from 'bun:test'
+import {
+  categorizeFailure,
+  DeadLetterQueue,
+  decodeDeadLetterBody,
+  InMemorySQSClient,
+  rewriteDeadLetterBody,
+} from '../src/sqs-dead-letter'
+
+const QUEUE_URL = 'https://sqs.us-east-1.amazonaws.com/123/analytics'
+const DLQ_URL = 'https://sqs.us-east-1.amazonaws.com/123/analytics-dlq'
+
+const pageview = {
+  type: 'pageview',
+  siteId: 'site-1',
+  timestamp: '2024-01-15T10:00:00.000Z',
+  data: { path: '/' },
+}
+
+function batch(...events: unknown[]): string {
+  return JSON.stringify({ events, batchId: 'b1', timestamp: '2024-01-15T10:00:00.000Z' })
+}
+
+async function setup(bodies: string[], failures: Record<number, string> = {}) {
+  let now = 1_000_000
+  const client = new InMemorySQSClient(() => now)
+  const ids: string[] = []
+  for (const body of bodies) {
+    ids.push((await client.sendMessage({ QueueUrl: DLQ_URL, MessageBody: body })).MessageId!)
+  }
+
+  const queue = new DeadLetterQueue(client, {
+    deadLetterQueueUrl: DLQ_URL,
+    queueUrl: QUEUE_URL,
+    getFailures: async messageIds => new Map(
+      Object.entries(failures)
+        .map(([index, error]) => [ids[Number(index)], error] as [string, string])
+        .filter(([id]) => messageIds.includes(id)),
+    ),
+  })
+  const tick = () => { now += 60_000 }
+  return { client, queue, ids, tick }
+}
+
+// ============================================================================
+// Decoding
+// ============================================================================
+
+describe('decodeDeadLetterBody', () => {
+  it('should decode valid batches and name schema problems', () => {
+    expect(decodeDeadLetterBody(batch(pageview)).message?.events).toEqual([pageview as any])
+    expect(decodeDeadLetterBody('{not json').problem).toBe('invalid_json')
+    expect(decodeDeadLetterBody('{"events":[]}').problem).toBe('empty_batch')
+    expect(decodeDeadLetterBody(JSON.stringify(pageview)).problem).toBe('missing_events')
+    expect(decodeDeadLetterBody(batch({ ...pageview, type: 'page_view' })).problem).toBe('invalid_event:unknown_type')
+    expect(decodeDeadLetterBody(batch({ ...pageview, siteId: '' })).problem).toBe('invalid_event:missing_site_id')
+  })
+})
+
+describe('categorizeFailure', () => {
+  it('should group errors that only differ in IDs and numbers', () => {
+    expect(categorizeFailure('ProvisionedThroughputExceededException: Rate exceeded')).toBe('throttled')
+    expect(categorizeFailure('Session 3f2a9c1e-1111-2222-3333-444455556666 has 12 pages'))
+      .toBe(categorizeFailure('Session 9b8a7c6d-aaaa-bbbb-cccc-ddddeeeeffff has 3 pages'))
+  })
+})
+
+describe('rewriteDeadLetterBody', () => {
+  it('should fix bare events, old type names and epoch timestamps', () => {
+    const { message, changes, problem } = rewriteDeadLetterBody(JSON.stringify({
+      type: 'page_view',
+      timestamp: Date.parse('2024-01-15T10:00:00.000Z'),
+      data: { siteId: 'site-1', path: '/' },
+    }))
+
+    expect(problem).toBeUndefined()
+    expect(message?.events[0]).toMatchObject({ type: 'pageview', siteId: 'site-1', timestamp: '2024-01-15T10:00:00.000Z' })
+    expect(changes).toEqual([
+      'wrapped events in a batch',
+      'events[0].type: page_view -> pageview',
+      'events[0].siteId: copied from data',
+      'events[0].timestamp: epoch -> ISO',
+    ])
+  })
+
+  it('should report problems it cannot fix', () => {
+    expect(rewriteDeadLetterBody(batch({ ...pageview, type: 'mystery' })).problem).toBe('invalid_event:unknown_type')
+  })
+})
+
+// ============================================================================
+// Queue
+// ============================================================================
+
+describe('DeadLetterQueue', () => {
+  it('should group messages by schema problem or recorded error', async () => {
+    const { queue } = await setup(
+      [batch(pageview), batch(pageview), '{oops', batch(pageview)],
+      { 0: 'ProvisionedThroughputExceededException: Rate exceeded', 1: 'ThrottlingException' },
+    )
+    const groups = await queue.groups()
+
+    expect(groups.map(group => [group.reason, group.count])).toEqual([
+      ['throttled', 2],
+      ['invalid_json', 1],
+      ['unknown', 1],
+    ])
+    expect(groups[0].sample).toBe('ProvisionedThroughputExceededException: Rate exceeded')
+  })
+
+  it('should preview a message with the fixes a rewrite would apply', async () => {
+    const { queue, ids } = await setup([batch({ ...pageview, type: 'custom' })])
+    const preview = await queue.preview(ids[0])
+
+    expect(preview?.message.reason).toBe('invalid_event:unknown_type')
+    expect(preview?.message.receiveCount).toBe(1)
+    expect(preview?.rewrite.changes).toEqual(['events[0].type: custom -> event'])
+    expect(await queue.preview('missing')).toBeNull()
+  })
+
+  it('should replay selected messages into the main queue', async () => {
+    const { client, queue, ids, tick } = await setup([batch(pageview), batch({ ...pageview, type: 'page_view' }), '{oops'])
+    const result = await queue.replay({ all: true }, { rewrite: true })
+
+    expect(result.replayed).toEqual([ids[0], ids[1]])
+    expect(result.rewritten).toEqual([{ messageId: ids[1], changes: ['events[0].type: page_view -> pageview'] }])
+    expect(result.skipped).toEqual([{ messageId: ids[2], reason: 'invalid_json' }])
+    expect(client.peek(QUEUE_URL).map(body => JSON.parse(body).retryCount)).toEqual([1, 1])
+    expect(client.peek(DLQ_URL)).toEqual(['{oops'])
+
+    // Skipped messages become visible again
+    tick()
+    expect((await queue.list()).map(message => message.messageId)).toEqual([ids[2]])
+  })
+
+  it('should not replay messages with schema problems unless rewriting', async () => {
+    const { queue } = await setup([batch({ ...pageview, type: 'page_view' })])
+    const result = await queue.replay({ reason: 'invalid_event:unknown_type' })
+
+    expect(result.replayed).toEqual([])
+    expect(result.skipped).toHaveLength(1)
+  })
+
+  it('should purge by reason and message ID', async () => {
+    const { client, queue, ids, tick } = await setup(['{a', '{b', batch(pageview), batch(pageview)])
+
+    expect((await queue.purge({ reason: 'invalid_json' })).purged).toEqual([ids[0], ids[1]])
+    tick()
+    expect((await queue.purge({ messageIds: [ids[3]] })).purged).toEqual([ids[3]])
+    expect(client.peek(DLQ_URL)).toHaveLength(1)
+  })
+})
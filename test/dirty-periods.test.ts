@@ -0,0 +1,102 @@
+/**
+ * Dirty period tests
+ * Tests the markers backfilled events leave on closed periods and their recompute jobs
+ */
+
+import { beforeEach, describe, expect, it } from 'bun:test'
+import { AggregationPipeline, AnalyticsStore } from '../src/Analytics'
+
+// ============================================================================
+// Markers
+// ============================================================================
+
+describe('AnalyticsStore dirty period commands', () => {
+  let store: AnalyticsStore
+
+  beforeEach(() => {
+    store = new AnalyticsStore({ tableName: 'analytics-table', useTtl: true })
+  })
+
+  it('should generate markPeriodDirtyCommand', () => {
+    const command = store.markPeriodDirtyCommand('site-123', 'hour', '2024-01-15T09:00:00.000Z', new Date('2024-01-15T14:00:00Z'))
+
+    expect(command.command).toBe('UpdateItem')
+    expect(command.input.Key.sk).toEqual({ S: 'DIRTY#HOUR#2024-01-15T09:00:00.000Z' })
+    expect(command.input.ExpressionAttributeValues[':markedAt']).toEqual({ S: '2024-01-15T14:00:00.000Z' })
+  })
+
+  it('should generate listDirtyPeriodsCommand', () => {
+    expect(store.listDirtyPeriodsCommand('site-123').input.ExpressionAttributeValues[':skPrefix']).toEqual({ S: 'DIRTY#' })
+    expect(store.listDirtyPeriodsCommand('site-123', 'day').input.ExpressionAttributeValues[':skPrefix']).toEqual({ S: 'DIRTY#DAY#' })
+  })
+
+  it('should only clear a marker that was not re-marked', () => {
+    const command = store.clearDirtyPeriodCommand('site-123', 'day', '2024-01-14', '2024-01-15T14:00:00.000Z')
+
+    expect(command.command).toBe('DeleteItem')
+    expect(command.input.ConditionExpression).toBe('markedAt = :markedAt')
+  })
+})
+
+// ============================================================================
+// Recompute Jobs
+// ============================================================================
+
+describe('AggregationPipeline dirty periods', () => {
+  let pipeline: AggregationPipeline
+
+  beforeEach(() => {
+    pipeline = new AggregationPipeline(new AnalyticsStore({ tableName: 'analytics-table' }))
+  })
+
+  it('should clear the dirty marker when recomputing a dirty period', () => {
+    const config = AggregationPipeline.createDirtyJobConfig({
+      siteId: 'site-123',
+      period: 'day',
+      periodStart: '2024-01-14',
+      markedAt: '2024-01-15T10:00:00.000Z',
+    })
+
+    const result = pipeline.runAggregationJob(config, [], [], [], [])
+    const last = result.commands[result.commands.length - 1]
+
+    expect(last.command).toBe('DeleteItem')
+    expect((last.input.Key as Record<string, unknown>).sk).toEqual({ S: 'DIRTY#DAY#2024-01-14' })
+  })
+
+  it('should return only periods that have already closed', () => {
+    const now = new Date('2024-01-15T14:30:00Z')
+
+    expect(AggregationPipeline.getClosedPeriods(new Date('2024-01-15T14:05:00Z'), now)).toEqual([])
+    expect(AggregationPipeline.getClosedPeriods(new Date('2024-01-15T09:05:00Z'), now)).toEqual([
+      { period: 'hour', periodStart: '2024-01-15T09:00:00.000Z' },
+    ])
+    expect(AggregationPipeline.getClosedPeriods(new Date('2023-12-31T23:59:00Z'), now)).toEqual([
+      { period: 'hour', periodStart: '2023-12-31T23:00:00.000Z' },
+      { period: 'day', periodStart: '2023-12-31' },
+      { period: 'month', periodStart: '2023-12' },
+    ])
+  })
+
+  it('should rebuild the window from the period start', () => {
+    const hour = AggregationPipeline.createDirtyJobConfig({
+      siteId: 'site-123',
+      period: 'hour',
+      periodStart: '2024-01-15T09:00:00.000Z',
+      markedAt: '2024-01-15T14:00:00.000Z',
+    })
+    expect(hour.windowStart.toISOString()).toBe('2024-01-15T09:00:00.000Z')
+    expect(hour.windowEnd.toISOString()).toBe('2024-01-15T10:00:00.000Z')
+    expect(hour.deleteRawEvents).toBe(false)
+    expect(hour.dirtyMarkedAt).toBe('2024-01-15T14:00:00.000Z')
+
+    const month = AggregationPipeline.createDirtyJobConfig({
+      siteId: 'site-123',
+      period: 'month',
+      periodStart: '2023-12',
+      markedAt: '2024-01-15T14:00:00.000Z',
+    })
+    expect(month.windowStart.toISOString()).toBe('2023-12-01T00:00:00.000Z')
+    expect(month.windowEnd.toISOString()).toBe('2024-01-01T00:00:00.000Z')
+  })
+})
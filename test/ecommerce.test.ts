@@ -0,0 +1,185 @@
+/**
+ * Ecommerce tests
+ * Tests line-item normalization, currency conversion and refund-adjusted revenue reports
+ */
+
+import { describe, expect, it } from 'bun:test'
+import type { EcommerceRecord } from '../src/utils/ecommerce'
+import {
+  breakdownRevenue,
+  convertAmount,
+  getTrafficSource,
+  normalizeEcommerceEvent,
+  normalizeEcommerceItems,
+  summarizeRevenue,
+} from '../src/utils/ecommerce'
+
+const rates = { USD: 1, EUR: 0.5 }
+
+const records: EcommerceRecord[] = [
+  {
+    action: 'view_item',
+    currency: 'USD',
+    items: [{ id: 'sku-1', name: 'Mug', category: 'Kitchen', price: 10, quantity: 1 }],
+    source: 'google',
+    timestamp: '2024-01-15T09:00:00.000Z',
+  },
+  {
+    action: 'purchase',
+    orderId: 'A-1',
+    currency: 'USD',
+    value: 30,
+    items: [
+      { id: 'sku-1', name: 'Mug', category: 'Kitchen', price: 10, quantity: 1 },
+      { id: 'sku-2', name: 'Shirt', category: 'Apparel', price: 20, quantity: 1 },
+    ],
+    source: 'google',
+    timestamp: '2024-01-15T10:00:00.000Z',
+  },
+  {
+    action: 'purchase',
+    orderId: 'A-2',
+    currency: 'EUR',
+    value: 10,
+    items: [{ id: 'sku-1', name: 'Mug', category: 'Kitchen', price: 5, quantity: 2 }],
+    source: 'newsletter',
+    timestamp: '2024-01-16T10:00:00.000Z',
+  },
+  {
+    action: 'refund',
+    orderId: 'A-1',
+    currency: 'USD',
+    items: [],
+    source: 'direct',
+    timestamp: '2024-01-17T10:00:00.000Z',
+  },
+]
+
+// ============================================================================
+// Events
+// ============================================================================
+
+describe('normalizeEcommerceItems', () => {
+  it('should default price and quantity and drop invalid items', () => {
+    expect(normalizeEcommerceItems([
+      { id: 'sku-1' },
+      { id: 'sku-2', price: 5, quantity: 2, name: ' Shirt ' },
+      { price: 5 },
+      { id: 'sku-3', price: -1 },
+      { id: 'sku-4', quantity: 1.5 },
+      'sku-5',
+    ])).toEqual([
+      { id: 'sku-1', price: 0, quantity: 1 },
+      { id: 'sku-2', name: 'Shirt', price: 5, quantity: 2 },
+    ])
+  })
+
+  it('should cap the number of items', () => {
+    const items = Array.from({ length: 10 }, (_, i) => ({ id: `sku-${i}` }))
+
+    expect(normalizeEcommerceItems(items, 3)).toHaveLength(3)
+    expect(normalizeEcommerceItems('sku-1')).toEqual([])
+  })
+})
+
+describe('normalizeEcommerceEvent', () => {
+  it('should default the value to the line-item total and the currency to the site default', () => {
+    const event = normalizeEcommerceEvent({
+      action: 'purchase',
+      orderId: 'A-1',
+      items: [{ id: 'sku-1', price: 10, quantity: 3 }],
+    }, 'USD')
+
+    expect(event).toEqual({
+      action: 'purchase',
+      orderId: 'A-1',
+      currency: 'USD',
+      value: 30,
+      items: [{ id: 'sku-1', price: 10, quantity: 3 }],
+    })
+  })
+
+  it('should leave the value off whole-order refunds', () => {
+    const event = normalizeEcommerceEvent({ action: 'refund', orderId: 'A-1', currency: 'EUR' }, 'USD')
+
+    expect(event.value).toBeUndefined()
+    expect(event.currency).toBe('EUR')
+  })
+})
+
+describe('getTrafficSource', () => {
+  it('should prefer the UTM source over the referrer source', () => {
+    expect(getTrafficSource({ utmSource: 'newsletter', referrerSource: 'google' })).toBe('newsletter')
+    expect(getTrafficSource({ referrerSource: 'google' })).toBe('google')
+    expect(getTrafficSource(null)).toBe('direct')
+  })
+})
+
+// ============================================================================
+// Reports
+// ============================================================================
+
+describe('convertAmount', () => {
+  it('should convert through the rate table', () => {
+    expect(convertAmount(10, 'EUR', 'USD', rates)).toBe(20)
+    expect(convertAmount(10, 'USD', 'EUR', rates)).toBe(5)
+    expect(convertAmount(10, 'GBP', 'GBP', rates)).toBe(10)
+    expect(convertAmount(10, 'GBP', 'USD', rates)).toBeNull()
+  })
+})
+
+describe('summarizeRevenue', () => {
+  it('should report refund-adjusted totals in the reporting currency', () => {
+    const summary = summarizeRevenue(records, 'USD', rates)
+
+    expect(summary.grossRevenue).toBe(50)
+    expect(summary.refundedRevenue).toBe(30)
+    expect(summary.netRevenue).toBe(20)
+    expect(summary.orders).toBe(2)
+    expect(summary.refunds).toBe(1)
+    expect(summary.avgOrderValue).toBe(25)
+    expect(summary.daily.map(day => [day.date, day.netRevenue])).toEqual([
+      ['2024-01-15', 30],
+      ['2024-01-16', 20],
+      ['2024-01-17', -30],
+    ])
+  })
+
+  it('should skip and list currencies without a rate', () => {
+    const summary = summarizeRevenue(records, 'USD', { USD: 1 })
+
+    expect(summary.grossRevenue).toBe(30)
+    expect(summary.unconvertedCurrencies).toEqual(['EUR'])
+  })
+})
+
+describe('breakdownRevenue', () => {
+  it('should break revenue down by product', () => {
+    const rows = breakdownRevenue(records, 'product', 'USD', rates)
+    const mug = rows.find(row => row.key === 'sku-1')!
+
+    expect(mug.name).toBe('Mug')
+    expect(mug.views).toBe(1)
+    expect(mug.orders).toBe(2)
+    expect(mug.quantity).toBe(3)
+    expect(mug.grossRevenue).toBe(30)
+  })
+
+  it('should break revenue down by category', () => {
+    const rows = breakdownRevenue(records, 'category', 'USD', rates)
+
+    expect(rows.map(row => [row.key, row.netRevenue])).toEqual([
+      ['Kitchen', 30],
+      ['Apparel', 20],
+    ])
+  })
+
+  it('should attribute refunds to the source of their order', () => {
+    const rows = breakdownRevenue(records, 'source', 'USD', rates)
+
+    expect(rows.map(row => [row.key, row.grossRevenue, row.refundedRevenue, row.netRevenue])).toEqual([
+      ['newsletter', 20, 0, 20],
+      ['google', 30, 30, 0],
+    ])
+  })
+})
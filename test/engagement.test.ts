@@ -0,0 +1,65 @@
+/**
+ * Engaged time tests
+ * Tests report clamping, engagement-aware session duration and the bounce definition
+ */
+
+import { describe, expect, it } from 'bun:test'
+import { getEngagementRollupKey, getSessionDuration, isBounceSession, normalizeEngagedTime } from '../src/utils/engagement'
+
+const session = {
+  pageViewCount: 1,
+  startedAt: '2024-01-15T10:00:00.000Z',
+  endedAt: '2024-01-15T10:00:00.000Z',
+}
+
+// ============================================================================
+// Reports
+// ============================================================================
+
+describe('normalizeEngagedTime', () => {
+  it('should clamp reports to the maximum and drop invalid ones', () => {
+    expect(normalizeEngagedTime(12_345.6, 60_000)).toBe(12_346)
+    expect(normalizeEngagedTime(5 * 60 * 60 * 1000, 60_000)).toBe(60_000)
+    expect(normalizeEngagedTime(-10, 60_000)).toBe(0)
+    expect(normalizeEngagedTime('1000', 60_000)).toBe(0)
+    expect(normalizeEngagedTime(Number.NaN, 60_000)).toBe(0)
+  })
+})
+
+// ============================================================================
+// Sessions
+// ============================================================================
+
+describe('getSessionDuration', () => {
+  it('should use engaged time for single-hit sessions', () => {
+    expect(getSessionDuration(session)).toBe(0)
+    expect(getSessionDuration({ ...session, engagedTime: 42_000 })).toBe(42_000)
+  })
+
+  it('should keep the span between hits when it is longer', () => {
+    const multiPage = { ...session, pageViewCount: 3, endedAt: '2024-01-15T10:05:00.000Z', engagedTime: 60_000 }
+
+    expect(getSessionDuration(multiPage)).toBe(5 * 60 * 1000)
+  })
+})
+
+describe('isBounceSession', () => {
+  it('should not count engaged single-page sessions as bounces', () => {
+    expect(isBounceSession(session, 10)).toBe(true)
+    expect(isBounceSession({ ...session, engagedTime: 9_999 }, 10)).toBe(true)
+    expect(isBounceSession({ ...session, engagedTime: 10_000 }, 10)).toBe(false)
+  })
+
+  it('should never count multi-page sessions as bounces', () => {
+    expect(isBounceSession({ ...session, pageViewCount: 2 }, 10)).toBe(false)
+  })
+})
+
+describe('getEngagementRollupKey', () => {
+  it('should key rollups by day and path', () => {
+    expect(getEngagementRollupKey('site-1', '2024-01-15', '/pricing')).toEqual({
+      pk: 'SITE#site-1',
+      sk: 'ENGAGED#2024-01-15#/pricing',
+    })
+  })
+})
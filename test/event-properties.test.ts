@@ -0,0 +1,72 @@
+/**
+ * Event property tests
+ * Tests property limits on ingestion and the per-property breakdown
+ */
+
+import { describe, expect, it } from 'bun:test'
+import {
+  breakdownEventProperty,
+  getEventPropertyKeys,
+  parseStoredProperties,
+  sanitizeEventProperties,
+} from '../src/utils/event-properties'
+
+// ============================================================================
+// Storage Limits
+// ============================================================================
+
+describe('sanitizeEventProperties', () => {
+  it('should keep scalar properties and drop reserved keys', () => {
+    expect(sanitizeEventProperties({ name: 'signup', value: 10, plan: 'pro', seats: 3, trial: false })).toEqual({
+      plan: 'pro',
+      seats: 3,
+      trial: false,
+    })
+  })
+
+  it('should drop nested values and enforce the limits', () => {
+    const limits = { maxKeys: 2, maxKeyLength: 5, maxValueLength: 4 }
+    const result = sanitizeEventProperties({ nested: { a: 1 }, list: [1], toolongkey: 'x', a: 'abcdefgh', b: 1, c: 2 }, limits)
+
+    expect(result).toEqual({ a: 'abcd', b: 1 })
+  })
+
+  it('should return undefined when nothing is left', () => {
+    expect(sanitizeEventProperties({ name: 'signup' })).toBeUndefined()
+    expect(sanitizeEventProperties('plan=pro')).toBeUndefined()
+  })
+})
+
+// ============================================================================
+// Breakdowns
+// ============================================================================
+
+describe('Event property breakdowns', () => {
+  const events = [
+    { visitorId: 'v1', value: 49, properties: JSON.stringify({ plan: 'pro', coupon: 'SPRING' }) },
+    { visitorId: 'v1', value: 49, properties: JSON.stringify({ plan: 'pro' }) },
+    { visitorId: 'v2', value: 9, properties: { plan: 'basic' } },
+    { visitorId: 'v3' },
+  ]
+
+  it('should parse JSON strings and maps', () => {
+    expect(parseStoredProperties('{"plan":"pro"}')).toEqual({ plan: 'pro' })
+    expect(parseStoredProperties('not json')).toEqual({})
+    expect(parseStoredProperties(undefined)).toEqual({})
+  })
+
+  it('should list keys by how often they appear', () => {
+    expect(getEventPropertyKeys(events)).toEqual([
+      { key: 'plan', count: 3 },
+      { key: 'coupon', count: 1 },
+    ])
+  })
+
+  it('should count events, unique visitors and summed value per property value', () => {
+    expect(breakdownEventProperty(events, 'plan')).toEqual([
+      { value: 'pro', count: 2, visitors: 1, totalValue: 98 },
+      { value: 'basic', count: 1, visitors: 1, totalValue: 9 },
+      { value: '(none)', count: 1, visitors: 1, totalValue: 0 },
+    ])
+  })
+})
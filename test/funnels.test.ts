@@ -0,0 +1,112 @@
+/**
+ * Funnel and flow tests
+ * Tests session journeys and the funnel/flow reports built from them
+ */
+
+import type { JourneyStep, Session } from '../src/types'
+import { describe, expect, it } from 'bun:test'
+import { appendJourneyStep, buildPageFlows, FunnelAnalyzer, getSessionJourney } from '../src/funnels'
+
+function pageview(path: string, timestamp: string): JourneyStep {
+  return { type: 'pageview', path, timestamp }
+}
+
+function makeSession(id: string, visitorId: string, journey: JourneyStep[]): Session {
+  return {
+    id,
+    siteId: 'site-1',
+    visitorId,
+    entryPath: journey[0]?.path || '/',
+    exitPath: journey[journey.length - 1]?.path || '/',
+    pageViewCount: journey.filter(step => step.type === 'pageview').length,
+    eventCount: journey.filter(step => step.type === 'event').length,
+    isBounce: journey.length <= 1,
+    duration: 0,
+    startedAt: new Date(journey[0]?.timestamp || 0),
+    endedAt: new Date(journey[journey.length - 1]?.timestamp || 0),
+    journey,
+  }
+}
+
+// ============================================================================
+// Journeys
+// ============================================================================
+
+describe('Session journeys', () => {
+  it('should append steps up to the cap and keep the earliest ones', () => {
+    let journey: JourneyStep[] | undefined
+    journey = appendJourneyStep(journey, pageview('/', '2024-01-15T10:00:00.000Z'), 2)
+    journey = appendJourneyStep(journey, pageview('/pricing', '2024-01-15T10:01:00.000Z'), 2)
+    journey = appendJourneyStep(journey, pageview('/signup', '2024-01-15T10:02:00.000Z'), 2)
+
+    expect(journey.map(step => step.path)).toEqual(['/', '/pricing'])
+  })
+
+  it('should order steps chronologically', () => {
+    const journey = getSessionJourney({
+      journey: [pageview('/b', '2024-01-15T10:05:00.000Z'), pageview('/a', '2024-01-15T10:00:00.000Z')],
+    })
+
+    expect(journey.map(step => step.path)).toEqual(['/a', '/b'])
+    expect(getSessionJourney({})).toEqual([])
+  })
+})
+
+// ============================================================================
+// Flows
+// ============================================================================
+
+describe('buildPageFlows', () => {
+  it('should count transitions with the average time between pages', () => {
+    const sessions = [
+      makeSession('s1', 'v1', [pageview('/', '2024-01-15T10:00:00.000Z'), pageview('/pricing', '2024-01-15T10:00:30.000Z')]),
+      makeSession('s2', 'v2', [pageview('/', '2024-01-15T11:00:00.000Z'), pageview('/pricing', '2024-01-15T11:01:30.000Z')]),
+    ]
+
+    expect(buildPageFlows(sessions, 5)).toEqual([{ from: '/', to: '/pricing', count: 2, avgTimeMs: 60_000 }])
+  })
+
+  it('should skip reloads and respect the depth cap', () => {
+    const session = makeSession('s1', 'v1', [
+      pageview('/', '2024-01-15T10:00:00.000Z'),
+      pageview('/', '2024-01-15T10:00:10.000Z'),
+      pageview('/pricing', '2024-01-15T10:00:20.000Z'),
+      pageview('/signup', '2024-01-15T10:00:30.000Z'),
+    ])
+
+    expect(buildPageFlows([session], 1).map(flow => `${flow.from}>${flow.to}`)).toEqual(['/>/pricing'])
+  })
+})
+
+// ============================================================================
+// Funnels
+// ============================================================================
+
+describe('FunnelAnalyzer.analyzeSessions', () => {
+  const analyzer = new FunnelAnalyzer({
+    id: 'signup',
+    name: 'Signup',
+    steps: [
+      { id: '0', name: 'Pricing', match: { path: '/pricing' } },
+      { id: '1', name: 'Signed up', match: { eventName: 'signup' } },
+    ],
+  })
+
+  it('should replay journeys in order and time the steps', () => {
+    const converted = makeSession('s1', 'v1', [
+      pageview('/pricing', '2024-01-15T10:00:00.000Z'),
+      { type: 'event', path: '/pricing', name: 'signup', timestamp: '2024-01-15T10:02:00.000Z' },
+    ])
+    const outOfOrder = makeSession('s2', 'v2', [
+      { type: 'event', path: '/', name: 'signup', timestamp: '2024-01-15T11:00:00.000Z' },
+      pageview('/pricing', '2024-01-15T11:01:00.000Z'),
+    ])
+
+    const analysis = analyzer.analyzeSessions([converted, outOfOrder])
+
+    expect(analysis.totalEntries).toBe(2)
+    expect(analysis.completions).toBe(1)
+    expect(analysis.steps[0].avgTimeOnStepMs).toBe(120_000)
+    expect(analysis.avgCompletionTimeMs).toBe(120_000)
+  })
+})
@@ -0,0 +1,89 @@
+/**
+ * Unique visitor sketch tests
+ * Tests estimates against exact counts, merging and the stored encoding
+ */
+
+import { describe, expect, it } from 'bun:test'
+import { HyperLogLog, mergeSketches, SKETCH_PRECISION } from '../src/utils/hyperloglog'
+
+function visitorIds(from: number, to: number, seed = 'v'): string[] {
+  return Array.from({ length: to - from }, (_, i) => `${seed}-${(from + i).toString(36)}-${((from + i) * 2654435761 >>> 0).toString(16)}`)
+}
+
+// Three standard errors: estimates land within this ~99.7% of the time
+const BOUND = 3 * HyperLogLog.standardError(SKETCH_PRECISION)
+
+describe('HyperLogLog', () => {
+  it('should document a ~1.6% standard error at the default precision', () => {
+    expect(HyperLogLog.standardError()).toBeCloseTo(0.01625, 4)
+  })
+
+  it('should estimate within the error bound of exact counts', () => {
+    for (const count of [1_000, 10_000, 50_000]) {
+      const estimate = HyperLogLog.of(visitorIds(0, count)).count()
+      expect(Math.abs(estimate - count) / count).toBeLessThan(BOUND)
+    }
+  })
+
+  it('should stay within the standard error on average over seeded sets', () => {
+    const errors = Array.from({ length: 20 }, (_, seed) => {
+      const estimate = HyperLogLog.of(visitorIds(0, 5_000, `seed${seed}`)).count()
+      return Math.abs(estimate - 5_000) / 5_000
+    })
+
+    expect(errors.reduce((sum, error) => sum + error, 0) / errors.length).toBeLessThan(HyperLogLog.standardError())
+    expect(Math.max(...errors)).toBeLessThan(BOUND)
+  })
+
+  it('should count small sets almost exactly', () => {
+    for (const count of [0, 1, 10, 100]) {
+      expect(Math.abs(HyperLogLog.of(visitorIds(0, count)).count() - count)).toBeLessThanOrEqual(Math.max(1, count * 0.02))
+    }
+  })
+
+  it('should ignore repeated visitors', () => {
+    const ids = visitorIds(0, 500)
+    expect(HyperLogLog.of([...ids, ...ids, ...ids]).count()).toBe(HyperLogLog.of(ids).count())
+  })
+})
+
+describe('merging', () => {
+  it('should equal the sketch of the combined visitors', () => {
+    const hours = [visitorIds(0, 4_000), visitorIds(2_000, 6_000), visitorIds(5_000, 9_000)]
+    const merged = mergeSketches(hours.map(ids => HyperLogLog.of(ids).encode()))!
+
+    expect(merged.encode()).toBe(HyperLogLog.of(hours.flat()).encode())
+    // Visitors of several hours count once, where adding the hours up would give 12,000
+    expect(Math.abs(merged.count() - 9_000) / 9_000).toBeLessThan(BOUND)
+  })
+
+  it('should return null without sketches', () => {
+    expect(mergeSketches([])).toBeNull()
+  })
+
+  it('should refuse sketches of another precision', () => {
+    expect(() => new HyperLogLog(12).merge(new HyperLogLog(10))).toThrow()
+  })
+})
+
+describe('encoding', () => {
+  it('should round-trip sparse and dense sketches', () => {
+    const sparse = HyperLogLog.of(visitorIds(0, 50))
+    const dense = HyperLogLog.of(visitorIds(0, 20_000))
+
+    expect(sparse.encode()).toStartWith('hll:12:s:')
+    expect(dense.encode()).toStartWith('hll:12:d:')
+    expect(HyperLogLog.decode(sparse.encode()).count()).toBe(sparse.count())
+    expect(HyperLogLog.decode(dense.encode()).encode()).toBe(dense.encode())
+  })
+
+  it('should keep small sketches small', () => {
+    expect(HyperLogLog.of(visitorIds(0, 10)).encode().length).toBeLessThan(60)
+  })
+
+  it('should reject invalid encodings', () => {
+    expect(() => HyperLogLog.decode('hll:12:x:AAAA')).toThrow()
+    expect(() => HyperLogLog.decode('hll:12:d:AAAA')).toThrow()
+    expect(() => HyperLogLog.decode('hll:40:s:')).toThrow()
+  })
+})
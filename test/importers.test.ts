@@ -0,0 +1,225 @@
+/**
+ * Historical import tests
+ * Tests export parsing for Plausible, Umami, Fathom and GA4 and the daily stats built from it
+ */
+
+import { describe, expect, it } from 'bun:test'
+import {
+  getImportFingerprint,
+  normalizeImportedSource,
+  parseCsv,
+  parseImportDate,
+  parseImportFiles,
+  toImportedStats,
+} from '../src/utils/importers'
+
+const plausibleFiles = [
+  {
+    name: 'imported_visitors.csv',
+    content: [
+      'date,visitors,pageviews,bounces,visits,visit_duration',
+      '2024-01-15,80,200,40,100,6000',
+      '2024-01-16,10,30,5,12,600',
+    ].join('\n'),
+  },
+  {
+    name: 'imported_pages.csv',
+    content: [
+      'date,hostname,page,visits,visitors,pageviews,exits,time_on_page',
+      '2024-01-15,example.com,/,70,60,120,50,3000',
+      '2024-01-15,example.com,/pricing,40,30,80,50,2400',
+    ].join('\n'),
+  },
+  {
+    name: 'imported_entry_pages.csv',
+    content: [
+      'date,entry_page,entrances,visitors,visits,visit_duration,bounces',
+      '2024-01-15,/,90,75,90,5000,35',
+    ].join('\n'),
+  },
+  {
+    name: 'imported_sources.csv',
+    content: [
+      'date,source,utm_medium,utm_campaign,visitors,visits,visit_duration,bounces',
+      '2024-01-15,Google,,,50,60,3000,20',
+      '2024-01-15,Direct / None,,,30,40,3000,20',
+    ].join('\n'),
+  },
+  {
+    name: 'imported_locations.csv',
+    content: [
+      'date,country,region,city,visitors,visits,visit_duration,bounces',
+      '2024-01-15,US,US-CA,San Francisco,50,60,3000,20',
+    ].join('\n'),
+  },
+  {
+    name: 'imported_browsers.csv',
+    content: [
+      'date,browser,visitors,visits,visit_duration,bounces',
+      '2024-01-15,Firefox,20,25,1000,10',
+    ].join('\n'),
+  },
+]
+
+// ============================================================================
+// Parsing
+// ============================================================================
+
+describe('parseCsv', () => {
+  it('should handle quoted fields, CRLF line endings and comment lines', () => {
+    const rows = parseCsv('# GA4 export\r\n# Start date: 20240101\r\nPage,Views\r\n"/a,b",1\r\n"say ""hi""",2\r\n')
+
+    expect(rows).toEqual([
+      { page: '/a,b', views: '1' },
+      { page: 'say "hi"', views: '2' },
+    ])
+  })
+})
+
+describe('parseImportDate', () => {
+  it('should accept plain dates, GA4 dates and timestamps', () => {
+    expect(parseImportDate('2024-01-15')).toBe('2024-01-15')
+    expect(parseImportDate('20240115')).toBe('2024-01-15')
+    expect(parseImportDate('2024-01-15 23:10:00')).toBe('2024-01-15')
+    expect(parseImportDate('2024-01-15T23:10:00.000Z')).toBe('2024-01-15')
+    expect(parseImportDate('yesterday')).toBeNull()
+  })
+})
+
+describe('normalizeImportedSource', () => {
+  it('should name sources the way the tracker does', () => {
+    expect(normalizeImportedSource('Direct / None')).toBe('direct')
+    expect(normalizeImportedSource('(direct)')).toBe('direct')
+    expect(normalizeImportedSource('www.google.com')).toBe('google')
+    expect(normalizeImportedSource('news.ycombinator.com')).toBe('news.ycombinator.com')
+    expect(normalizeImportedSource('Newsletter')).toBe('newsletter')
+  })
+})
+
+// ============================================================================
+// Exports
+// ============================================================================
+
+describe('parseImportFiles', () => {
+  it('should read a Plausible export', () => {
+    const { days, errors } = parseImportFiles('plausible', plausibleFiles)
+    const day = days[0]
+
+    expect(errors).toEqual([])
+    expect(days.map(d => d.date)).toEqual(['2024-01-15', '2024-01-16'])
+    expect(day.totals).toEqual({ visitors: 80, pageViews: 200, sessions: 100, bounces: 40, duration: 6_000_000, newVisitors: 0 })
+    expect(day.pages.get('/')).toEqual({
+      visitors: 60,
+      pageViews: 120,
+      sessions: 0,
+      bounces: 35,
+      duration: 3_000_000,
+      entries: 90,
+      exits: 50,
+    })
+    expect([...day.referrers.keys()]).toEqual(['google', 'direct'])
+    expect(day.geo.get('US#US-CA#San Francisco')?.visitors).toBe(50)
+    expect(day.devices.get('browser#Firefox')?.pageViews).toBe(25)
+  })
+
+  it('should aggregate raw Umami events into visits', () => {
+    const { days } = parseImportFiles('umami', [{
+      name: 'website_event.csv',
+      content: [
+        'session_id,visit_id,created_at,url_path,referrer_domain,event_type,browser,os,device,country',
+        's1,v1,2024-01-15 10:00:00,/,google.com,1,chrome,Mac OS,desktop,DE',
+        's1,v1,2024-01-15 10:01:00,/pricing,,1,chrome,Mac OS,desktop,DE',
+        's1,v1,2024-01-15 10:01:30,/pricing,,2,chrome,Mac OS,desktop,DE',
+        's2,v2,2024-01-15 11:00:00,/pricing,,1,firefox,Windows,mobile,FR',
+      ].join('\n'),
+    }])
+    const day = days[0]
+
+    expect(day.totals).toEqual({ visitors: 2, pageViews: 3, sessions: 2, bounces: 1, duration: 60_000, newVisitors: 0 })
+    expect(day.pages.get('/pricing')).toMatchObject({ pageViews: 2, visitors: 2, entries: 1, exits: 2, bounces: 1 })
+    expect(day.pages.get('/')).toMatchObject({ entries: 1, duration: 60_000 })
+    expect(day.referrers.get('google')).toMatchObject({ visitors: 1, pageViews: 2 })
+    expect(day.referrers.get('direct')).toMatchObject({ visitors: 1, bounces: 1 })
+    expect(day.devices.get('device#mobile')?.visitors).toBe(1)
+  })
+
+  it('should read Fathom reports and derive totals from them', () => {
+    const { days } = parseImportFiles('fathom', [
+      {
+        name: 'Pages.csv',
+        content: 'Date,Pathname,Uniques,Pageviews,Avg Duration,Bounce Rate\n2024-01-15,/blog,"1,200","2,000",30,50%',
+      },
+      {
+        name: 'Referrers.csv',
+        content: 'Date,Referrer Hostname,Uniques,Visits,Pageviews,Avg Duration,Bounce Rate\n2024-01-15,t.co,100,120,300,60,25',
+      },
+    ])
+    const day = days[0]
+
+    expect(day.pages.get('/blog')).toMatchObject({ visitors: 1200, pageViews: 2000 })
+    expect(day.referrers.get('t.co')).toMatchObject({ visitors: 100, sessions: 120, bounces: 30, duration: 7_200_000 })
+    expect(day.totals).toMatchObject({ pageViews: 2000, visitors: 100, sessions: 120 })
+  })
+
+  it('should read GA4 runReport responses', () => {
+    const report = {
+      dimensionHeaders: [{ name: 'date' }, { name: 'deviceCategory' }],
+      metricHeaders: [{ name: 'totalUsers' }, { name: 'sessions' }, { name: 'screenPageViews' }, { name: 'bounceRate' }],
+      rows: [
+        { dimensionValues: [{ value: '20240115' }, { value: 'desktop' }], metricValues: [{ value: '40' }, { value: '50' }, { value: '90' }, { value: '0.4' }] },
+      ],
+    }
+    const { days, errors } = parseImportFiles('ga4', [{ name: 'devices.json', content: JSON.stringify(report) }])
+
+    expect(errors).toEqual([])
+    expect(days[0].devices.get('device#desktop')).toMatchObject({ visitors: 40, sessions: 50, pageViews: 90, bounces: 20 })
+  })
+
+  it('should report files it cannot read', () => {
+    const { days, errors } = parseImportFiles('plausible', [
+      { name: 'notes.csv', content: 'title,body\nhello,world' },
+      { name: 'report.json', content: '{}' },
+    ])
+
+    expect(days).toEqual([])
+    expect(errors).toEqual(['notes.csv: no date column', 'report.json: plausible exports are CSV files'])
+  })
+})
+
+// ============================================================================
+// Records
+// ============================================================================
+
+describe('toImportedStats', () => {
+  it('should build daily stats records', () => {
+    const { days } = parseImportFiles('plausible', plausibleFiles)
+    const stats = toImportedStats('site-1', days[0], new Date('2024-02-01T00:00:00.000Z'))
+
+    expect(stats.aggregated).toMatchObject({
+      siteId: 'site-1',
+      period: 'day',
+      periodStart: '2024-01-15',
+      pageViews: 200,
+      uniqueVisitors: 80,
+      sessions: 100,
+      bounceRate: 0.4,
+      avgSessionDuration: 60_000,
+      avgPagesPerSession: 2,
+    })
+    expect(stats.pages.find(page => page.path === '/pricing')).toMatchObject({ avgTimeOnPage: 30_000, exitRate: 0.625 })
+    expect(stats.referrers.map(referrer => referrer.source)).toEqual(['google', 'direct'])
+    expect(stats.geo[0]).toMatchObject({ country: 'US', region: 'US-CA', city: 'San Francisco' })
+    expect(stats.devices[0]).toMatchObject({ dimension: 'browser', value: 'Firefox', bounceRate: 0.4 })
+  })
+})
+
+describe('getImportFingerprint', () => {
+  it('should only change when the day changes', () => {
+    const first = parseImportFiles('plausible', plausibleFiles).days[0]
+    const again = parseImportFiles('plausible', [...plausibleFiles].reverse()).days[0]
+    const changed = parseImportFiles('plausible', plausibleFiles.slice(0, 1)).days[0]
+
+    expect(getImportFingerprint(first)).toBe(getImportFingerprint(again))
+    expect(getImportFingerprint(first)).not.toBe(getImportFingerprint(changed))
+  })
+})
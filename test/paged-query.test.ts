@@ -0,0 +1,202 @@
+/**
+ * Paged query tests
+ * Tests query and scan pages of the repositories, the page budget and the shard fan-out
+ */
+
+import { Database } from 'bun:sqlite'
+import { afterEach, beforeEach, describe, expect, it } from 'bun:test'
+import { resetConfig, setConfig } from '../src/config'
+import { getPartitionQueries, pageQuery, QueryBudget, readQuery, ReportReader } from '../src/paged-query'
+import { type AnalyticsRepository, MemoryAnalyticsRepository } from '../src/repository'
+import { SQLiteAnalyticsRepository } from '../src/sqlite-storage'
+
+const SITE = 'SITE#site-1'
+
+async function putEvents(repository: AnalyticsRepository, pk: string, minutes: number[]): Promise<void> {
+  for (const minute of minutes) {
+    const time = `2024-01-15T10:${String(minute).padStart(2, '0')}:00.000Z`
+    await repository.put({ pk, sk: `EVENT#${time}#a`, name: minute % 2 ? 'click' : 'view', time })
+  }
+}
+
+afterEach(() => {
+  resetConfig()
+})
+
+// ============================================================================
+// Query Pages
+// ============================================================================
+
+for (const [name, create] of [
+  ['MemoryAnalyticsRepository', () => new MemoryAnalyticsRepository()],
+  ['SQLiteAnalyticsRepository', () => new SQLiteAnalyticsRepository(new Database(':memory:'))],
+] as const) {
+  describe(`${name}.queryPage`, () => {
+    let repository: AnalyticsRepository
+
+    beforeEach(async () => {
+      repository = create()
+      await putEvents(repository, SITE, [0, 1, 2, 3, 4])
+    })
+
+    it('should continue from the cursor', async () => {
+      const first = await repository.queryPage({ pk: SITE, beginsWith: 'EVENT#' }, { pageSize: 2 })
+      const second = await repository.queryPage({ pk: SITE, beginsWith: 'EVENT#' }, { pageSize: 2, cursor: first.cursor })
+      const last = await repository.queryPage({ pk: SITE, beginsWith: 'EVENT#' }, { pageSize: 2, cursor: second.cursor })
+
+      expect([first, second, last].map(page => page.items.map(item => item.time.slice(11, 16)))).toEqual([
+        ['10:00', '10:01'],
+        ['10:02', '10:03'],
+        ['10:04'],
+      ])
+      expect(last.cursor).toBeUndefined()
+    })
+
+    it('should page in descending order with filters', async () => {
+      const first = await repository.queryPage({ pk: SITE, beginsWith: 'EVENT#', where: { name: 'view' }, descending: true }, { pageSize: 2 })
+      const second = await repository.queryPage({ pk: SITE, beginsWith: 'EVENT#', where: { name: 'view' }, descending: true }, { pageSize: 2, cursor: first.cursor })
+
+      expect([...first.items, ...second.items].map(item => item.time.slice(11, 16))).toEqual(['10:04', '10:02', '10:00'])
+    })
+  })
+
+  describe(`${name}.scanPage`, () => {
+    let repository: AnalyticsRepository
+
+    beforeEach(async () => {
+      repository = create()
+      await putEvents(repository, SITE, [0, 1])
+      await putEvents(repository, 'SITE#site-2', [2])
+      await repository.put({ pk: SITE, sk: 'SESSION#s1' })
+      await repository.put({ pk: 'SITES', sk: 'SITE#site-1' })
+    })
+
+    it('should page over every partition', async () => {
+      const keys: string[] = []
+      let cursor: string | undefined
+      do {
+        const page = await repository.scanPage({ pageSize: 2, cursor })
+        keys.push(...page.items.map(item => `${item.pk} ${item.sk}`))
+        cursor = page.cursor
+      } while (cursor)
+
+      expect(keys.sort()).toEqual([
+        'SITE#site-1 EVENT#2024-01-15T10:00:00.000Z#a',
+        'SITE#site-1 EVENT#2024-01-15T10:01:00.000Z#a',
+        'SITE#site-1 SESSION#s1',
+        'SITE#site-2 EVENT#2024-01-15T10:02:00.000Z#a',
+        'SITES SITE#site-1',
+      ])
+    })
+
+    it('should only return items under the sort key prefix', async () => {
+      const first = await repository.scanPage({ beginsWith: 'EVENT#', pageSize: 2 })
+      const second = await repository.scanPage({ beginsWith: 'EVENT#', pageSize: 2, cursor: first.cursor })
+
+      expect([...first.items, ...second.items].map(item => item.time.slice(11, 16)).sort()).toEqual(['10:00', '10:01', '10:02'])
+      expect(second.cursor).toBeUndefined()
+    })
+  })
+}
+
+// ============================================================================
+// Budget
+// ============================================================================
+
+describe('pageQuery', () => {
+  let repository: MemoryAnalyticsRepository
+
+  beforeEach(async () => {
+    repository = new MemoryAnalyticsRepository()
+    await putEvents(repository, SITE, [0, 1, 2, 3, 4])
+  })
+
+  it('should read every page within the budget', async () => {
+    const budget = new QueryBudget({ pageSize: 2 })
+    const pages: number[] = []
+    for await (const page of pageQuery(repository, { pk: SITE, beginsWith: 'EVENT#' }, budget)) {
+      pages.push(page.length)
+    }
+
+    expect(pages).toEqual([2, 2, 1])
+    expect(budget.truncated).toBe(false)
+  })
+
+  it('should stop and mark the budget truncated when pages run out', async () => {
+    const budget = new QueryBudget({ pageSize: 2, maxPages: 2 })
+    const items = await readQuery(repository, { pk: SITE, beginsWith: 'EVENT#' }, budget)
+
+    expect(items).toHaveLength(4)
+    expect(budget.truncated).toBe(true)
+  })
+
+  it('should stop at the deadline', async () => {
+    let now = 0
+    const budget = new QueryBudget({ pageSize: 2, timeoutMs: 100 }, () => now)
+    const pages: number[] = []
+    for await (const page of pageQuery(repository, { pk: SITE, beginsWith: 'EVENT#' }, budget)) {
+      pages.push(page.length)
+      now += 100
+    }
+
+    expect(pages).toEqual([2])
+    expect(budget.truncated).toBe(true)
+  })
+
+  it('should apply the limit across pages without truncating', async () => {
+    const budget = new QueryBudget({ pageSize: 2 })
+    const items = await readQuery(repository, { pk: SITE, beginsWith: 'EVENT#', limit: 3 }, budget)
+
+    expect(items.map(item => item.time.slice(11, 16))).toEqual(['10:00', '10:01', '10:02'])
+    expect(budget.truncated).toBe(false)
+  })
+})
+
+// ============================================================================
+// Shards
+// ============================================================================
+
+describe('getPartitionQueries', () => {
+  it('should only read the site partition without sharding', () => {
+    expect(getPartitionQueries({ pk: SITE })).toEqual([{ pk: SITE }])
+  })
+
+  it('should add shard partitions of sharded sites', () => {
+    setConfig({ scale: { partitionSharding: { enabled: true, shardCount: 2, enabledSiteIds: [] } } })
+
+    expect(getPartitionQueries({ pk: SITE }).map(query => query.pk)).toEqual([SITE, `${SITE}#SHARD#0`, `${SITE}#SHARD#1`])
+    expect(getPartitionQueries({ pk: 'VISITOR#v1', index: 'gsi1' })).toHaveLength(1)
+  })
+
+  it('should leave sites that are not listed unsharded', () => {
+    setConfig({ scale: { partitionSharding: { enabled: true, shardCount: 2, enabledSiteIds: ['site-2'] } } })
+
+    expect(getPartitionQueries({ pk: SITE })).toHaveLength(1)
+  })
+})
+
+describe('ReportReader', () => {
+  it('should merge shard partitions in sort key order', async () => {
+    setConfig({ scale: { partitionSharding: { enabled: true, shardCount: 2, enabledSiteIds: [] } } })
+    const repository = new MemoryAnalyticsRepository()
+    await putEvents(repository, SITE, [0, 3])
+    await putEvents(repository, `${SITE}#SHARD#0`, [1])
+    await putEvents(repository, `${SITE}#SHARD#1`, [2, 4])
+
+    const reader = new ReportReader(repository)
+    const events = await reader.getEvents('site-1', new Date('2024-01-15T10:00:00Z'), new Date('2024-01-15T10:03:00Z'))
+
+    expect(events.map(event => event.time.slice(11, 16))).toEqual(['10:00', '10:01', '10:02', '10:03'])
+    expect(reader.complete).toBe(true)
+  })
+
+  it('should report incomplete results once any read is cut short', async () => {
+    const repository = new MemoryAnalyticsRepository()
+    await putEvents(repository, SITE, [0, 1, 2])
+
+    const reader = new ReportReader(repository, new QueryBudget({ pageSize: 1, maxPages: 2 }))
+    await reader.getEvents('site-1', new Date('2024-01-15T10:00:00Z'))
+
+    expect(reader.complete).toBe(false)
+  })
+})
@@ -0,0 +1,72 @@
+/**
+ * Parquet tests
+ * Tests the writer's column inference and file layout, and reading files back
+ */
+
+import { describe, expect, it } from 'bun:test'
+import { inferParquetColumns, readParquet, writeParquet } from '../src/parquet'
+
+const rows = Array.from({ length: 25 }, (_, i) => ({
+  pk: 'SITE#site-1',
+  count: i,
+  ratio: i + 0.5,
+  isBounce: i % 2 === 0,
+  properties: i % 3 ? { plan: 'pro', seats: i } : undefined,
+  title: i % 4 ? `Pägé ${i}` : null,
+}))
+
+describe('inferParquetColumns', () => {
+  it('should infer types in order of appearance', () => {
+    expect(inferParquetColumns(rows)).toEqual([
+      { name: 'pk', type: 'string' },
+      { name: 'count', type: 'int64' },
+      { name: 'ratio', type: 'double' },
+      { name: 'isBounce', type: 'boolean' },
+      { name: 'properties', type: 'json' },
+      { name: 'title', type: 'string' },
+    ])
+  })
+
+  it('should widen integers to doubles and other mixes to JSON', () => {
+    expect(inferParquetColumns([{ a: 1, b: 1 }, { a: 1.5, b: 'x' }])).toEqual([
+      { name: 'a', type: 'double' },
+      { name: 'b', type: 'json' },
+    ])
+  })
+})
+
+describe('writeParquet', () => {
+  it('should frame the file with the magic number and footer length', () => {
+    const data = writeParquet(rows)
+    const text = new TextDecoder()
+
+    expect(text.decode(data.subarray(0, 4))).toBe('PAR1')
+    expect(text.decode(data.subarray(data.length - 4))).toBe('PAR1')
+    const footerLength = new DataView(data.buffer, data.byteOffset + data.length - 8, 4).getInt32(0, true)
+    expect(footerLength).toBeGreaterThan(0)
+    expect(footerLength).toBeLessThan(data.length)
+  })
+
+  it('should compress pages with gzip', () => {
+    const repeated = Array.from({ length: 1000 }, () => ({ path: '/pricing', referrerSource: 'google' }))
+    expect(writeParquet(repeated).length).toBeLessThan(writeParquet(repeated, { compression: 'none' }).length / 10)
+  })
+})
+
+describe('readParquet', () => {
+  it('should read back what was written, across row groups', () => {
+    for (const compression of ['gzip', 'none'] as const) {
+      const back = readParquet(writeParquet(rows, { compression, rowGroupSize: 10 }))
+      // Null and undefined values are both left out
+      expect(back).toEqual(rows.map(row => Object.fromEntries(Object.entries(row).filter(([, value]) => value != null))))
+    }
+  })
+
+  it('should read files without rows', () => {
+    expect(readParquet(writeParquet([]))).toEqual([])
+  })
+
+  it('should reject other files', () => {
+    expect(() => readParquet(new TextEncoder().encode('{"not":"parquet"}'))).toThrow('Not a Parquet file')
+  })
+})
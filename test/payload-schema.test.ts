@@ -0,0 +1,133 @@
+/**
+ * Tracking payload protocol tests
+ * Tests payload validation, structured rejections and the upgrade of unversioned payloads
+ */
+
+import { describe, expect, it } from 'bun:test'
+import { generateFullTrackingScript } from '../src/tracking-script'
+import { upgradePayload, validateCollectPayload } from '../src/utils/payload-schema'
+
+const base = { v: 1, s: 'site-1', sid: 'session-1', u: 'https://example.com/pricing' }
+
+// ============================================================================
+// Validation
+// ============================================================================
+
+describe('validateCollectPayload', () => {
+  it('should accept every event type the trackers emit', () => {
+    const payloads = [
+      { ...base, e: 'pageview' },
+      { ...base, e: 'pageleave', p: { engagedMs: 12500 } },
+      { ...base, e: 'event', p: { name: 'signup', value: 10, plan: 'pro' } },
+      { ...base, e: 'outbound', p: { url: 'https://other.com' } },
+      { ...base, e: 'hm_click', p: { vx: 1, vy: 2, selector: 'button' } },
+      { ...base, e: 'hm_move', p: { points: [{ x: 1, y: 2, t: 0 }] } },
+      { ...base, e: 'hm_scroll', p: { maxDepth: 80, depths: { 50: 1200 } } },
+      { ...base, e: 'vitals', p: { metric: 'LCP', value: 1840, rating: 'good' } },
+      { ...base, e: 'error', p: { message: 'boom', line: null } },
+      { ...base, e: 'ecommerce', p: { action: 'view_item', items: [{ id: 'sku-1', price: 20 }] } },
+      { ...base, e: 'ecommerce', p: { action: 'purchase', orderId: 'A-100', currency: 'EUR', value: 40, items: [] } },
+    ]
+
+    for (const payload of payloads) {
+      expect(validateCollectPayload(payload).valid).toBe(true)
+    }
+  })
+
+  it('should return a structured reason for invalid payloads', () => {
+    const cases: Array<[unknown, string, string | undefined]> = [
+      ['not an object', 'invalid_body', undefined],
+      [{ ...base, v: 2, e: 'pageview' }, 'unsupported_version', 'v'],
+      [{ ...base, s: undefined, e: 'pageview' }, 'missing_field', 's'],
+      [{ ...base, e: 'pageview', sw: '1920' }, 'invalid_field', 'sw'],
+      [{ ...base, e: 'pageunload' }, 'unknown_event', 'e'],
+      [{ ...base, e: 'pageleave', p: {} }, 'missing_field', 'p.engagedMs'],
+      [{ ...base, e: 'vitals', p: { value: 1 } }, 'missing_field', 'p.metric'],
+      [{ ...base, e: 'ecommerce', p: { action: 'checkout' } }, 'invalid_field', 'p.action'],
+      [{ ...base, e: 'ecommerce', p: { action: 'purchase', value: 40 } }, 'missing_field', 'p.orderId'],
+      [{ ...base, e: 'ecommerce', p: { action: 'refund', orderId: 'A-100', currency: 'eur' } }, 'invalid_field', 'p.currency'],
+      [{ ...base, e: 'event', p: { value: 'ten' } }, 'invalid_field', 'p.value'],
+      [{ ...base, e: 'pageview', u: 'javascript:alert(1)' }, 'invalid_url', 'u'],
+    ]
+
+    for (const [payload, reason, field] of cases) {
+      const result = validateCollectPayload(payload)
+      expect(result.valid).toBe(false)
+      if (!result.valid) {
+        expect(result.rejection.reason).toBe(reason as any)
+        expect(result.rejection.field).toBe(field)
+      }
+    }
+  })
+})
+
+// ============================================================================
+// Upgrades
+// ============================================================================
+
+describe('upgradePayload', () => {
+  it('should move legacy event fields into properties', () => {
+    const result = validateCollectPayload({ s: 'site-1', sid: 'session-1', e: 'event', u: base.u, en: 'signup', ev: 5, ec: 'account', p: { plan: 'pro' } })
+
+    expect(result.valid).toBe(true)
+    if (result.valid) {
+      expect(result.upgraded).toBe(true)
+      expect(result.payload.v).toBe(1)
+      expect(result.payload.p).toEqual({ plan: 'pro', name: 'signup', value: 5, category: 'account' })
+      expect('en' in result.payload).toBe(false)
+    }
+  })
+
+  it('should resolve path-only URLs against the request origin', () => {
+    const legacy = { s: 'site-1', sid: 'session-1', e: 'hm_click', u: '/pricing' }
+
+    expect(upgradePayload(legacy, { origin: 'https://example.com' }).u).toBe('https://example.com/pricing')
+    expect(validateCollectPayload(legacy).valid).toBe(false)
+  })
+
+  it('should leave versioned payloads untouched', () => {
+    const payload = { ...base, e: 'event', en: 'ignored' }
+    expect(upgradePayload(payload)).toBe(payload)
+  })
+})
+
+// ============================================================================
+// Tracker
+// ============================================================================
+
+/**
+ * Run the full tracker in a stub browser, returning the payloads it sends
+ */
+function runTracker(commands: unknown[][]): Array<Record<string, any>> {
+  const beacons: Array<Record<string, any>> = []
+  const storage = new Map<string, string>()
+  const window: Record<string, any> = {
+    location: { href: base.u, origin: 'https://example.com', pathname: '/pricing' },
+    screen: { width: 1920, height: 1080 },
+    addEventListener: () => {},
+  }
+  const document = { readyState: 'complete', title: 'Pricing', cookie: '', documentElement: { getAttribute: () => null }, addEventListener: () => {} }
+  const navigator = { languages: ['en'], sendBeacon: (_url: string, body: string) => beacons.push(JSON.parse(body)) }
+  const sessionStorage = { getItem: (key: string) => storage.get(key) ?? null, setItem: (key: string, value: string) => storage.set(key, value) }
+  const history = { pushState: () => {}, replaceState: () => {} }
+
+  const script = generateFullTrackingScript({ siteId: 'site-1', apiEndpoint: 'https://api.example.com', trackEngagement: false })
+  new Function('window', 'document', 'navigator', 'sessionStorage', 'history', script)(window, document, navigator, sessionStorage, history)
+  for (const command of commands) window.sa(...command)
+  return beacons
+}
+
+describe('tracker payloads', () => {
+  it('should send custom event fields the server keeps', () => {
+    const [pageview, event] = runTracker([['trackEvent', 'signup', { plan: 'pro' }, 'account', 5]])
+
+    expect(validateCollectPayload(pageview).valid).toBe(true)
+    const result = validateCollectPayload(event)
+    expect(result.valid).toBe(true)
+    if (result.valid) {
+      expect(result.upgraded).toBe(false)
+      expect(result.payload.e).toBe('event')
+      expect(result.payload.p).toEqual({ plan: 'pro', name: 'signup', category: 'account', value: 5 })
+    }
+  })
+})
@@ -0,0 +1,184 @@
+/**
+ * Rollup query planner tests
+ * Tests range planning over rollup periods and that planned reads match raw computation
+ */
+
+import type { PageView, Session } from '../src/types'
+import { afterEach, beforeEach, describe, expect, it } from 'bun:test'
+import { AggregationPipeline, AnalyticsStore } from '../src/Analytics'
+import { resetConfig, setConfig } from '../src/config'
+import { ReportReader } from '../src/paged-query'
+import { describeQueryPlan, getPlannedPages, getPlannedReferrers, getPlannedTotals, getRollupPlan, planRollupQuery } from '../src/query-planner'
+import { fromUpdateCommand, MemoryAnalyticsRepository } from '../src/repository'
+
+const SITE_ID = 'site-1'
+const SITE = `SITE#${SITE_ID}`
+
+afterEach(() => {
+  resetConfig()
+})
+
+// ============================================================================
+// Planning
+// ============================================================================
+
+describe('planRollupQuery', () => {
+  it('should use the largest covered periods and raw events for the edges', () => {
+    const covered = new Set(['month#2024-02', 'day#2024-01-31', 'hour#2024-01-30T23:00:00.000Z', 'day#2024-03-01'])
+    const plan = planRollupQuery(
+      new Date('2024-01-30T22:30:00.000Z'),
+      new Date('2024-03-02T05:59:59.999Z'),
+      (period, periodStart) => covered.has(`${period}#${periodStart}`),
+    )
+
+    expect(describeQueryPlan(plan)).toEqual([
+      { source: 'raw', start: '2024-01-30T22:30:00.000Z', end: '2024-01-30T22:59:59.999Z' },
+      { source: 'hour', start: '2024-01-30T23:00:00.000Z', end: '2024-01-30T23:59:59.999Z', periods: 1 },
+      { source: 'day', start: '2024-01-31T00:00:00.000Z', end: '2024-01-31T23:59:59.999Z', periods: 1 },
+      { source: 'month', start: '2024-02-01T00:00:00.000Z', end: '2024-02-29T23:59:59.999Z', periods: 1 },
+      { source: 'day', start: '2024-03-01T00:00:00.000Z', end: '2024-03-01T23:59:59.999Z', periods: 1 },
+      { source: 'raw', start: '2024-03-02T00:00:00.000Z', end: '2024-03-02T05:59:59.999Z' },
+    ])
+  })
+
+  it('should read raw events when nothing is covered', () => {
+    const plan = planRollupQuery(new Date('2024-01-01T00:00:00.000Z'), new Date('2024-03-31T23:59:59.999Z'), () => false)
+
+    expect(describeQueryPlan(plan)).toEqual([
+      { source: 'raw', start: '2024-01-01T00:00:00.000Z', end: '2024-03-31T23:59:59.999Z' },
+    ])
+  })
+
+  it('should merge consecutive periods of the same size', () => {
+    const plan = planRollupQuery(new Date('2024-01-15T00:00:00.000Z'), new Date('2024-01-17T23:59:59.999Z'), period => period === 'day')
+
+    expect(plan.segments).toHaveLength(1)
+    expect(plan.segments[0].periodStarts).toEqual(['2024-01-15', '2024-01-16', '2024-01-17'])
+  })
+})
+
+// ============================================================================
+// Planned Reads
+// ============================================================================
+
+describe('planned reads', () => {
+  const start = new Date('2024-01-15T00:00:00.000Z')
+  const end = new Date('2024-01-17T23:59:59.999Z')
+
+  let repository: MemoryAnalyticsRepository
+  let pageViewsByDay: Record<string, PageView[]>
+  let sessionsByDay: Record<string, Session[]>
+
+  // Each visitor is seen on a single day, so per-day uniques add up exactly
+  beforeEach(async () => {
+    repository = new MemoryAnalyticsRepository()
+    pageViewsByDay = {}
+    sessionsByDay = {}
+
+    const paths = ['/', '/pricing', '/docs']
+    const sources = ['google', 'direct', 'twitter']
+    for (const [dayIndex, day] of ['2024-01-15', '2024-01-16', '2024-01-17'].entries()) {
+      pageViewsByDay[day] = []
+      sessionsByDay[day] = []
+
+      for (let visitor = 0; visitor < 3 + dayIndex; visitor++) {
+        const visitorId = `${day}-v${visitor}`
+        const sessionId = `${day}-s${visitor}`
+        const views = 1 + (visitor % 3)
+        const startedAt = new Date(`${day}T${String(8 + visitor).padStart(2, '0')}:00:00.000Z`)
+
+        for (let view = 0; view < views; view++) {
+          const timestamp = new Date(startedAt.getTime() + view * 60_000)
+          const pageView = { id: `${sessionId}-${view}`, siteId: SITE_ID, visitorId, sessionId, path: paths[(visitor + view) % 3], hostname: 'example.com', isUnique: view === 0, isBounce: views === 1, timestamp } as PageView
+          pageViewsByDay[day].push(pageView)
+          await repository.put({ pk: SITE, sk: `PAGEVIEW#${timestamp.toISOString()}#${pageView.id}`, ...pageView })
+        }
+
+        const session = { id: sessionId, siteId: SITE_ID, visitorId, referrerSource: sources[visitor % 3], pageViewCount: views, eventCount: visitor, isBounce: views === 1, duration: (views - 1) * 60_000, startedAt } as Session
+        sessionsByDay[day].push(session)
+        await repository.put({ pk: SITE, sk: `SESSION#${sessionId}`, ...session })
+      }
+    }
+  })
+
+  async function aggregateDay(day: string): Promise<void> {
+    const pipeline = new AggregationPipeline(new AnalyticsStore({ tableName: 'AnalyticsTable' }))
+    const windowStart = new Date(`${day}T00:00:00.000Z`)
+    const result = pipeline.runAggregationJob(
+      { siteId: SITE_ID, period: 'day', windowStart, windowEnd: new Date(windowStart.getTime() + 24 * 60 * 60 * 1000) },
+      pageViewsByDay[day],
+      sessionsByDay[day],
+      [],
+      [],
+    )
+    for (const { input } of result.commands) {
+      const { key, update } = fromUpdateCommand(input)
+      await repository.update(key, update)
+    }
+  }
+
+  async function readAll(reader: ReportReader) {
+    const { plan, rollups } = await getRollupPlan(SITE_ID, start, end, reader)
+    return {
+      plan,
+      totals: await getPlannedTotals(SITE_ID, plan, rollups, reader),
+      pages: await getPlannedPages(SITE_ID, plan, reader),
+      referrers: await getPlannedReferrers(SITE_ID, plan, reader),
+    }
+  }
+
+  it('should match raw computation when rollups answer part of the range', async () => {
+    setConfig({ aggregation: { readRollups: false } })
+    const raw = await readAll(new ReportReader(repository))
+    resetConfig()
+
+    await aggregateDay('2024-01-15')
+    await aggregateDay('2024-01-16')
+    const planned = await readAll(new ReportReader(repository))
+
+    expect(describeQueryPlan(raw.plan).map(segment => segment.source)).toEqual(['raw'])
+    expect(describeQueryPlan(planned.plan).map(segment => segment.source)).toEqual(['day', 'raw'])
+    expect(planned.totals).toEqual(raw.totals)
+    expect(planned.pages.pages).toEqual(raw.pages.pages)
+    expect(planned.referrers).toEqual(raw.referrers)
+    expect(raw.totals).toMatchObject({ pageViews: 22, visitors: 12, sessions: 12 })
+  })
+
+  it('should count visitors of several periods once', async () => {
+    const returning = { id: 'return-1', siteId: SITE_ID, visitorId: '2024-01-15-v0', sessionId: 'return', path: '/', hostname: 'example.com', isUnique: true, isBounce: true, timestamp: new Date('2024-01-16T20:00:00.000Z') } as PageView
+    pageViewsByDay['2024-01-16'].push(returning)
+    await repository.put({ pk: SITE, sk: `PAGEVIEW#${returning.timestamp.toISOString()}#${returning.id}`, ...returning })
+    await aggregateDay('2024-01-15')
+    await aggregateDay('2024-01-16')
+
+    const { plan, rollups } = await getRollupPlan(SITE_ID, start, end, new ReportReader(repository))
+    const totals = await getPlannedTotals(SITE_ID, plan, rollups, new ReportReader(repository))
+    const pages = await getPlannedPages(SITE_ID, plan, new ReportReader(repository))
+
+    expect(totals.visitors).toBe(12)
+    expect(pages.pages.get('/')?.views).toBe(9)
+    expect(pages.pages.get('/')?.visitors).toBe(8)
+  })
+
+  it('should leave out rollups and raw events before the retention window', async () => {
+    await aggregateDay('2024-01-15')
+    await aggregateDay('2024-01-16')
+
+    const reader = new ReportReader(repository)
+    const { plan, rollups } = await getRollupPlan(SITE_ID, start, end, reader, new Date('2024-01-16T00:00:00.000Z'))
+
+    expect(describeQueryPlan(plan).map(segment => [segment.source, segment.start])).toEqual([
+      ['day', '2024-01-16T00:00:00.000Z'],
+      ['raw', '2024-01-17T00:00:00.000Z'],
+    ])
+    expect(await getPlannedTotals(SITE_ID, plan, rollups, reader)).toMatchObject({ pageViews: 16, sessions: 9 })
+  })
+
+  it('should read raw events for periods marked dirty', async () => {
+    await aggregateDay('2024-01-15')
+    await repository.put({ pk: SITE, sk: 'DIRTY#DAY#2024-01-15', markedAt: new Date().toISOString() })
+
+    const { plan } = await getRollupPlan(SITE_ID, start, end, new ReportReader(repository))
+    expect(describeQueryPlan(plan).map(segment => segment.source)).toEqual(['raw'])
+  })
+})
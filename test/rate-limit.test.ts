@@ -0,0 +1,98 @@
+/**
+ * Rate limiting tests
+ * Tests the token bucket and its in-memory and DynamoDB stores
+ */
+
+import type { AttributeValue } from '../src/batching'
+import type { DynamoDBRateLimitClient } from '../src/rate-limit'
+import { describe, expect, it } from 'bun:test'
+import { DynamoDBRateLimitStore, MemoryRateLimitStore, takeTokens } from '../src/rate-limit'
+
+const rule = { ratePerSecond: 2, burst: 4 }
+
+// ============================================================================
+// Token Bucket
+// ============================================================================
+
+describe('takeTokens', () => {
+  it('should start full and refill at the configured rate', () => {
+    let bucket = takeTokens(null, rule, 4, 0)
+    expect(bucket.result.allowed).toBe(true)
+    expect(bucket.result.remaining).toBe(0)
+
+    bucket = takeTokens(bucket.state, rule, 1, 0)
+    expect(bucket.result.allowed).toBe(false)
+    expect(bucket.result.retryAfterMs).toBe(500)
+
+    bucket = takeTokens(bucket.state, rule, 1, 500)
+    expect(bucket.result.allowed).toBe(true)
+  })
+
+  it('should never refill above the burst', () => {
+    const { result } = takeTokens({ tokens: 0, updatedAt: 0 }, rule, 5, 60_000)
+
+    expect(result.allowed).toBe(false)
+    expect(result.remaining).toBe(4)
+  })
+})
+
+// ============================================================================
+// Stores
+// ============================================================================
+
+describe('MemoryRateLimitStore', () => {
+  it('should keep separate buckets per key and evict the oldest', async () => {
+    const store = new MemoryRateLimitStore({ maxBuckets: 1 })
+
+    expect((await store.consume('a', rule, 4, 0)).allowed).toBe(true)
+    expect((await store.consume('a', rule, 1, 0)).allowed).toBe(false)
+    expect((await store.consume('b', rule, 4, 0)).allowed).toBe(true)
+
+    // `a` was evicted and starts full again
+    expect((await store.consume('a', rule, 4, 0)).allowed).toBe(true)
+  })
+})
+
+describe('DynamoDBRateLimitStore', () => {
+  function makeClient(conflicts = 0): DynamoDBRateLimitClient & { items: Map<string, Record<string, AttributeValue>> } {
+    const items = new Map<string, Record<string, AttributeValue>>()
+    let remainingConflicts = conflicts
+
+    return {
+      items,
+      getItem: async input => ({ Item: items.get(input.Key.pk.S!) }),
+      putItem: async (input) => {
+        if (remainingConflicts > 0) {
+          remainingConflicts--
+          const error = new Error('The conditional request failed')
+          error.name = 'ConditionalCheckFailedException'
+          throw error
+        }
+        items.set(input.Item.pk.S!, input.Item)
+      },
+    }
+  }
+
+  it('should share bucket state through the table', async () => {
+    const client = makeClient()
+    const first = new DynamoDBRateLimitStore(client, { tableName: 'analytics' })
+    const second = new DynamoDBRateLimitStore(client, { tableName: 'analytics' })
+
+    expect((await first.consume('ip:abc', rule, 3, 1_000)).allowed).toBe(true)
+    expect((await second.consume('ip:abc', rule, 3, 1_000)).allowed).toBe(false)
+    expect(client.items.get('RATELIMIT#ip:abc')?.tokens.N).toBe('1')
+  })
+
+  it('should retry on concurrent updates and fail open when storage errors', async () => {
+    const store = new DynamoDBRateLimitStore(makeClient(2), { tableName: 'analytics' })
+    expect((await store.consume('site:a', rule, 1, 0)).allowed).toBe(true)
+
+    const broken = new DynamoDBRateLimitStore({
+      getItem: async () => {
+        throw new Error('network down')
+      },
+      putItem: async () => ({}),
+    }, { tableName: 'analytics' })
+    expect((await broken.consume('site:a', rule, 100, 0)).allowed).toBe(true)
+  })
+})
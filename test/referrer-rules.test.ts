@@ -0,0 +1,95 @@
+/**
+ * Referrer rule tests
+ * Tests self-referral exclusion, spam blocking, custom rules and the dry-run preview
+ */
+
+import { describe, expect, it } from 'bun:test'
+import { normalizeReferrerRules, previewReferrerRules, REFERRER_SPAM_DOMAINS, resolveReferrer } from '../src/utils/referrer-rules'
+
+const context = {
+  siteDomains: ['example.com'],
+  spamDomains: REFERRER_SPAM_DOMAINS,
+}
+
+// ============================================================================
+// Resolution
+// ============================================================================
+
+describe('resolveReferrer', () => {
+  it('should classify ordinary referrers', () => {
+    expect(resolveReferrer(undefined, context)).toEqual({ action: 'keep', source: 'direct' })
+    expect(resolveReferrer('https://www.google.com/search', context).source).toBe('google')
+    expect(resolveReferrer('https://news.ycombinator.com/', context).source).toBe('news.ycombinator.com')
+  })
+
+  it('should count self-referrals as direct and drop the referrer', () => {
+    const resolution = resolveReferrer('https://www.example.com/pricing', context)
+
+    expect(resolution.action).toBe('self')
+    expect(resolution.source).toBe('direct')
+    expect(resolution.referrer).toBeUndefined()
+  })
+
+  it('should flag spam domains and their subdomains', () => {
+    expect(resolveReferrer('https://semalt.com/', context).action).toBe('spam')
+    expect(resolveReferrer('http://forum.semalt.com/x', context).detail).toBe('semalt.com')
+    expect(resolveReferrer('https://notsemalt.com/', context).action).toBe('keep')
+  })
+
+  it('should apply custom rules in order before the spam list', () => {
+    const rules = normalizeReferrerRules([
+      { type: 'alias', pattern: '*.facebook.com', alias: 'facebook' },
+      { type: 'alias', pattern: 'facebook.com', alias: 'facebook' },
+      { type: 'block', pattern: 'https://cheap-traffic.example/', label: 'paid bots' },
+    ])
+
+    expect(resolveReferrer('https://l.facebook.com/l.php', { ...context, rules })).toMatchObject({ action: 'alias', source: 'facebook' })
+    expect(resolveReferrer('https://facebook.com/', { ...context, rules })).toMatchObject({ action: 'alias', source: 'facebook' })
+    expect(resolveReferrer('https://cheap-traffic.example/', { ...context, rules })).toMatchObject({ action: 'block', detail: 'paid bots' })
+  })
+})
+
+describe('normalizeReferrerRules', () => {
+  it('should drop incomplete rules', () => {
+    const rules = normalizeReferrerRules([
+      { type: 'alias', pattern: 'm.facebook.com' },
+      { type: 'redirect', pattern: 'a.com' },
+      { type: 'block', pattern: ' ' },
+      { type: 'block', pattern: 'B.com' },
+    ])
+
+    expect(rules).toEqual([{ type: 'block', pattern: 'b.com' }])
+  })
+})
+
+// ============================================================================
+// Dry Run
+// ============================================================================
+
+describe('previewReferrerRules', () => {
+  it('should list only the referrers whose outcome changes', () => {
+    const sessions = [
+      { referrer: 'https://m.facebook.com/', visitorId: 'v1' },
+      { referrer: 'https://m.facebook.com/', visitorId: 'v1' },
+      { referrer: 'https://l.facebook.com/', visitorId: 'v2' },
+      { referrer: 'https://www.google.com/', visitorId: 'v3' },
+      { visitorId: 'v4' },
+    ]
+
+    const preview = previewReferrerRules(sessions, context, {
+      ...context,
+      rules: [{ type: 'alias', pattern: '*.facebook.com', alias: 'facebook' }],
+    })
+
+    expect(preview.sessions).toBe(5)
+    expect(preview.changedSessions).toBe(3)
+    expect(preview.changes).toHaveLength(2)
+    expect(preview.changes[0]).toMatchObject({
+      hostname: 'm.facebook.com',
+      before: { action: 'keep', source: 'facebook' },
+      after: { action: 'alias', source: 'facebook' },
+      sessions: 2,
+      visitors: 1,
+    })
+  })
+})
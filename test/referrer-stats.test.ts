@@ -0,0 +1,51 @@
+/**
+ * Referrer stats tests
+ * Tests referrer rules applied when stored sessions are aggregated
+ */
+
+import type { Session } from '../src/types'
+import { describe, expect, it } from 'bun:test'
+import { AnalyticsAggregator, AnalyticsStore } from '../src/Analytics'
+
+function createSession(id: string, referrer: string, referrerSource: string): Session {
+  return {
+    id,
+    siteId: 'site-123',
+    visitorId: `visitor-${id}`,
+    entryPath: '/home',
+    exitPath: '/home',
+    referrer,
+    referrerSource,
+    pageViewCount: 1,
+    eventCount: 0,
+    isBounce: true,
+    duration: 0,
+    startedAt: new Date('2024-01-15T14:00:00.000Z'),
+    endedAt: new Date('2024-01-15T14:00:00.000Z'),
+  }
+}
+
+describe('AnalyticsAggregator.aggregateReferrerStats', () => {
+  it('should apply referrer rules to stored sessions', () => {
+    const aggregator = new AnalyticsAggregator({ store: new AnalyticsStore({ tableName: 'analytics-table' }), batchSize: 50 })
+    const periodStart = new Date('2024-01-15T00:00:00.000Z')
+
+    const sessions = [
+      createSession('1', 'https://m.facebook.com/', 'm.facebook.com'),
+      createSession('2', 'https://www.facebook.com/', 'facebook'),
+      createSession('3', 'https://semalt.com/', 'semalt.com'),
+      createSession('4', 'https://example.com/blog', 'example.com'),
+    ]
+
+    const stats = aggregator.aggregateReferrerStats('site-123', 'day', periodStart, sessions, {
+      siteDomains: ['example.com'],
+      rules: [
+        { type: 'alias', pattern: '*.facebook.com', alias: 'facebook' },
+      ],
+      spamDomains: ['semalt.com'],
+    })
+
+    expect(stats.map(s => s.source).sort()).toEqual(['direct', 'facebook'])
+    expect(stats.find(s => s.source === 'facebook')!.visitors).toBe(2)
+  })
+})
@@ -0,0 +1,157 @@
+/**
+ * Storage repository tests
+ * Tests the in-memory backend, DynamoDB write conditions and the conversion of DynamoDB update commands
+ */
+
+import type { DynamoDBRepositoryClient } from '../src/repository'
+import { beforeEach, describe, expect, it } from 'bun:test'
+import { DynamoDBAnalyticsRepository, fromUpdateCommand, getTimeRangeKeys, MemoryAnalyticsRepository } from '../src/repository'
+
+const SITE = 'SITE#site-1'
+
+let repository: MemoryAnalyticsRepository
+
+beforeEach(() => {
+  repository = new MemoryAnalyticsRepository()
+})
+
+// ============================================================================
+// Memory Repository
+// ============================================================================
+
+describe('MemoryAnalyticsRepository', () => {
+  it('should query sort key ranges in order', async () => {
+    for (const time of ['10:02', '10:00', '10:01']) {
+      await repository.put({ pk: SITE, sk: `PAGEVIEW#2024-01-15T${time}:00.000Z#a`, path: `/${time}` })
+    }
+    await repository.put({ pk: SITE, sk: 'SESSION#s1' })
+
+    const [start, end] = getTimeRangeKeys('PAGEVIEW', new Date('2024-01-15T10:00:00Z'), new Date('2024-01-15T10:01:00Z'))
+    const inRange = await repository.query({ pk: SITE, between: [start, end] })
+    expect(inRange.map(item => item.path)).toEqual(['/10:00', '/10:01'])
+
+    const latest = await repository.query({ pk: SITE, beginsWith: 'PAGEVIEW#', descending: true, limit: 1 })
+    expect(latest.map(item => item.path)).toEqual(['/10:02'])
+  })
+
+  it('should apply attribute filters before the limit', async () => {
+    await repository.put({ pk: SITE, sk: 'EVENT#1', name: 'signup' })
+    await repository.put({ pk: SITE, sk: 'EVENT#2', name: 'click' })
+    await repository.put({ pk: SITE, sk: 'EVENT#3', name: 'click' })
+
+    const clicks = await repository.query({ pk: SITE, beginsWith: 'EVENT#', where: { name: 'click' }, limit: 1 })
+    expect(clicks.map(item => item.sk)).toEqual(['EVENT#2'])
+  })
+
+  it('should query secondary indexes across partitions', async () => {
+    await repository.put({ pk: SITE, sk: 'PAGEVIEW#1', gsi1pk: 'VISITOR#v1', gsi1sk: 'PAGEVIEW#1' })
+    await repository.put({ pk: 'SITE#site-2', sk: 'PAGEVIEW#2', gsi1pk: 'VISITOR#v1', gsi1sk: 'PAGEVIEW#2' })
+
+    expect(await repository.query({ pk: 'VISITOR#v1', index: 'gsi1' })).toHaveLength(2)
+  })
+
+  it('should honour write conditions', async () => {
+    expect(await repository.put({ pk: SITE, sk: 'ORDER#1', eventId: 'e1' }, { notExists: true })).toBe(true)
+    expect(await repository.put({ pk: SITE, sk: 'ORDER#1', eventId: 'e2' }, { notExists: true })).toBe(false)
+    expect(await repository.put({ pk: SITE, sk: 'ORDER#1', eventId: 'e1' }, { notExists: true, matches: { eventId: 'e1' } })).toBe(true)
+    expect(await repository.update({ pk: SITE, sk: 'ORDER#1' }, { set: { paid: true } }, { matches: { eventId: 'e2' } })).toBeNull()
+  })
+
+  it('should only replace lower versions with a below condition', async () => {
+    expect(await repository.put({ pk: SITE, sk: 'SESSION#s1', pageViewCount: 1 }, { below: { version: 1 } })).toBe(true)
+    expect(await repository.put({ pk: SITE, sk: 'SESSION#s1', pageViewCount: 3, version: 3 }, { below: { version: 3 } })).toBe(true)
+    expect(await repository.put({ pk: SITE, sk: 'SESSION#s1', pageViewCount: 2, version: 2 }, { below: { version: 2 } })).toBe(false)
+    expect((await repository.get({ pk: SITE, sk: 'SESSION#s1' }))!.pageViewCount).toBe(3)
+  })
+
+  it('should store dates as ISO strings and drop undefined attributes', async () => {
+    await repository.put({ pk: SITE, sk: 'SESSION#s1', startedAt: new Date('2024-01-15T10:00:00Z'), exitPath: undefined })
+
+    expect(await repository.get({ pk: SITE, sk: 'SESSION#s1' })).toEqual({ pk: SITE, sk: 'SESSION#s1', startedAt: '2024-01-15T10:00:00.000Z' })
+  })
+
+  it('should increment counters, map members and string sets', async () => {
+    const key = { pk: SITE, sk: 'ERROR_GROUP#abc' }
+    await repository.increment(key, { 'count': 1, 'environments.production': 1 }, {
+      setIfMissing: { status: 'open' },
+      addToSet: { browsers: ['Chrome'] },
+    })
+    const counters = await repository.increment(key, { 'count': 2, 'environments.production': 1 }, {
+      setIfMissing: { status: 'new' },
+      addToSet: { browsers: ['Chrome', 'Firefox'] },
+    })
+
+    expect(counters).toEqual({ 'count': 3, 'environments.production': 2 })
+    expect(await repository.get(key)).toMatchObject({
+      count: 3,
+      status: 'open',
+      environments: { production: 2 },
+      browsers: ['Chrome', 'Firefox'],
+    })
+  })
+
+  it('should find sessions by start time', async () => {
+    await repository.put({ pk: SITE, sk: 'SESSION#s1', startedAt: '2024-01-15T10:00:00.000Z' })
+    await repository.put({ pk: SITE, sk: 'SESSION#s2', startedAt: '2024-01-16T10:00:00.000Z' })
+
+    const sessions = await repository.getSessions('site-1', new Date('2024-01-15T00:00:00Z'), new Date('2024-01-15T23:59:59Z'))
+    expect(sessions.map(session => session.sk)).toEqual(['SESSION#s1'])
+  })
+})
+
+// ============================================================================
+// DynamoDB Repository
+// ============================================================================
+
+describe('DynamoDBAnalyticsRepository', () => {
+  it('should send a below condition as a missing or lower attribute', async () => {
+    const inputs: Array<Record<string, any>> = []
+    const client = { putItem: async (input: Record<string, any>) => { inputs.push(input) } } as unknown as DynamoDBRepositoryClient
+    const dynamo = new DynamoDBAnalyticsRepository(client, { tableName: 'analytics' })
+
+    await dynamo.put({ pk: SITE, sk: 'SESSION#s1', version: 4 }, { below: { version: 4 } })
+
+    expect(inputs[0].ConditionExpression).toBe('(attribute_not_exists(#n0) OR #n0 < :v0)')
+    expect(inputs[0].ExpressionAttributeNames).toEqual({ '#n0': 'version' })
+    expect(inputs[0].ExpressionAttributeValues).toEqual({ ':v0': { N: '4' } })
+  })
+})
+
+// ============================================================================
+// Update Commands
+// ============================================================================
+
+describe('fromUpdateCommand', () => {
+  it('should convert counter, set-if-missing and set clauses', () => {
+    const { key, update } = fromUpdateCommand({
+      Key: { pk: { S: SITE }, sk: { S: 'STATS#DAY#2024-01-15' } },
+      UpdateExpression: 'SET #pv = if_not_exists(#pv, :zero) + :pv, #first = if_not_exists(#first, :now), #path = :path ADD #tags :tags REMOVE #stale',
+      ExpressionAttributeNames: { '#pv': 'pageViews', '#first': 'firstSeen', '#path': 'path', '#tags': 'tags', '#stale': 'stale' },
+      ExpressionAttributeValues: {
+        ':zero': { N: '0' },
+        ':pv': { N: '5' },
+        ':now': { S: '2024-01-15T00:00:00.000Z' },
+        ':path': { S: '/' },
+        ':tags': { SS: ['imported'] },
+      },
+    })
+
+    expect(key).toEqual({ pk: SITE, sk: 'STATS#DAY#2024-01-15' })
+    expect(update).toEqual({
+      set: { path: '/' },
+      setIfMissing: { firstSeen: '2024-01-15T00:00:00.000Z' },
+      increment: { pageViews: 5 },
+      addToSet: { tags: ['imported'] },
+      remove: ['stale'],
+    })
+  })
+
+  it('should reject expressions it cannot represent', () => {
+    expect(() => fromUpdateCommand({
+      Key: { pk: { S: SITE }, sk: { S: 'STATS#DAY#2024-01-15' } },
+      UpdateExpression: 'SET #a = #b + :one',
+      ExpressionAttributeNames: { '#a': 'a', '#b': 'b' },
+      ExpressionAttributeValues: { ':one': { N: '1' } },
+    })).toThrow('Unsupported update expression')
+  })
+})
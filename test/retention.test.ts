@@ -0,0 +1,132 @@
+/**
+ * Retention policy tests
+ * Tests per-entity TTLs from site settings and purging stored items
+ */
+
+import { beforeEach, describe, expect, it } from 'bun:test'
+import { MemoryAnalyticsRepository } from '../src/repository'
+import {
+  applyRetentionTtl,
+  getEntityRetentionDays,
+  getRetentionEntity,
+  getRetentionTtl,
+  normalizeRetentionSettings,
+  RetentionPurgeJob,
+} from '../src/retention'
+
+const SITE = 'SITE#site-1'
+const DAY = 24 * 60 * 60
+
+function epoch(time: string): number {
+  return Math.floor(new Date(time).getTime() / 1000)
+}
+
+describe('retention settings', () => {
+  it('should fill in defaults and drop invalid entity overrides', () => {
+    expect(normalizeRetentionSettings({ retentionDays: 30, entities: { vitals: 7, unknown: 3, errors: -1 } })).toEqual({
+      retentionDays: 30,
+      autoDelete: true,
+      anonymizeAfterDays: 90,
+      entities: { vitals: 7 },
+    })
+    expect(normalizeRetentionSettings(null).retentionDays).toBe(365)
+  })
+
+  it('should keep no entity type longer than the site retention', () => {
+    const settings = normalizeRetentionSettings({ retentionDays: 60, entities: { pageviews: 400, events: 14 } })
+
+    expect(getEntityRetentionDays(settings, 'pageviews')).toBe(60)
+    expect(getEntityRetentionDays(settings, 'events')).toBe(14)
+    expect(getEntityRetentionDays(settings, 'vitals')).toBe(60)
+    expect(getEntityRetentionDays(settings, 'errors')).toBe(30)
+    expect(getEntityRetentionDays({ ...settings, autoDelete: false }, 'errors')).toBeNull()
+  })
+})
+
+describe('item TTLs', () => {
+  const settings = normalizeRetentionSettings({ retentionDays: 365 })
+
+  it('should map sort keys to entity types', () => {
+    expect(getRetentionEntity('PAGEVIEW#2024-01-15T10:00:00.000Z#a')).toBe('pageviews')
+    expect(getRetentionEntity('PV#2024-01-15T10:00:00.000Z#a')).toBe('pageviews')
+    expect(getRetentionEntity('EVENTSTATS#DAY#2024-01-15#signup')).toBe('rollups')
+    expect(getRetentionEntity('SESSIONHEAD#abc')).toBeNull()
+    expect(getRetentionEntity('RETENTION_SETTINGS')).toBeNull()
+  })
+
+  it('should count from the item time', () => {
+    expect(getRetentionTtl({ sk: 'VITAL#2024-01-15T10:00:00.000Z#a', timestamp: '2024-01-15T10:00:00.000Z' }, settings))
+      .toBe(epoch('2024-01-15T10:00:00.000Z') + 90 * DAY)
+    expect(getRetentionTtl({ sk: 'SESSION#s', startedAt: '2024-01-15T10:00:00.000Z', endedAt: '2024-01-15T11:00:00.000Z' }, settings))
+      .toBe(epoch('2024-01-15T11:00:00.000Z') + 365 * DAY)
+    expect(getRetentionTtl({ sk: 'GOALSTATS#g1#MONTH#2024-01' }, settings)).toBe(epoch('2024-02-01T00:00:00.000Z') + 365 * DAY)
+  })
+
+  it('should leave items alone that retention does not apply to', () => {
+    const item = { pk: SITE, sk: 'GOAL#g1', name: 'Signup' }
+    expect(applyRetentionTtl(item, settings)).toBe(item)
+    expect(applyRetentionTtl({ pk: SITE, sk: 'ERROR#2024-01-15T10:00:00.000Z#a', timestamp: '2024-01-15T10:00:00.000Z' }, { ...settings, autoDelete: false })).not.toHaveProperty('ttl')
+  })
+})
+
+describe('RetentionPurgeJob', () => {
+  const now = new Date('2024-03-01T00:00:00.000Z')
+  let repository: MemoryAnalyticsRepository
+
+  function createJob(dryRun = false): RetentionPurgeJob {
+    return new RetentionPurgeJob(repository, { now: () => now, batchSize: 2, dryRun })
+  }
+
+  beforeEach(async () => {
+    repository = new MemoryAnalyticsRepository()
+    for (const [day, ttl] of [['2024-01-10', undefined], ['2024-02-10', epoch('2024-03-11')], ['2024-02-25', epoch('2024-03-26')]] as const) {
+      const timestamp = `${day}T12:00:00.000Z`
+      await repository.put({ pk: SITE, sk: `PAGEVIEW#${timestamp}#${day}`, timestamp, ...(ttl && { ttl }) })
+    }
+    await repository.put({ pk: SITE, sk: 'STATS#DAY#2024-01-10', pageViews: 1, ttl: epoch('2026-01-10') })
+    await repository.put({ pk: SITE, sk: 'STATS#MONTH#2024-02', pageViews: 2 })
+    await repository.put({ pk: SITE, sk: 'GOAL#g1', name: 'Signup' })
+  })
+
+  it('should delete expired items and rewrite the TTLs of the rest', async () => {
+    const report = await createJob().purge('site-1', normalizeRetentionSettings({ retentionDays: 30 }))
+
+    expect(report).toMatchObject({ deleted: 2, rewritten: 3, dryRun: false })
+    expect(report.entities.find(entity => entity.entity === 'pageviews')).toMatchObject({
+      retentionDays: 30,
+      cutoff: '2024-01-31T00:00:00.000Z',
+      scanned: 3,
+      deleted: 1,
+      rewritten: 2,
+    })
+    expect((await repository.query({ pk: SITE })).map(item => [item.sk, item.ttl])).toEqual([
+      ['GOAL#g1', undefined],
+      ['PAGEVIEW#2024-02-10T12:00:00.000Z#2024-02-10', epoch('2024-02-10T12:00:00.000Z') + 30 * DAY],
+      ['PAGEVIEW#2024-02-25T12:00:00.000Z#2024-02-25', epoch('2024-02-25T12:00:00.000Z') + 30 * DAY],
+      ['STATS#MONTH#2024-02', epoch('2024-03-01') + 30 * DAY],
+    ])
+  })
+
+  it('should only shorten rollup TTLs', async () => {
+    await createJob().purge('site-1', normalizeRetentionSettings({ retentionDays: 3650 }))
+
+    expect(await repository.get({ pk: SITE, sk: 'STATS#DAY#2024-01-10' })).toMatchObject({ ttl: epoch('2026-01-10') })
+    expect(await repository.get({ pk: SITE, sk: 'PAGEVIEW#2024-02-10T12:00:00.000Z#2024-02-10' }))
+      .toMatchObject({ ttl: epoch('2024-02-10T12:00:00.000Z') + 3650 * DAY })
+  })
+
+  it('should remove raw TTLs when nothing is deleted automatically', async () => {
+    const report = await createJob().purge('site-1', normalizeRetentionSettings({ autoDelete: false }))
+
+    expect(report).toMatchObject({ deleted: 0, rewritten: 2 })
+    expect((await repository.query({ pk: SITE, beginsWith: 'PAGEVIEW#' })).every(item => item.ttl === undefined)).toBe(true)
+    expect(await repository.get({ pk: SITE, sk: 'STATS#DAY#2024-01-10' })).toMatchObject({ ttl: epoch('2026-01-10') })
+  })
+
+  it('should report without writing on a dry run', async () => {
+    const report = await createJob(true).purge('site-1', normalizeRetentionSettings({ retentionDays: 30 }))
+
+    expect(report).toMatchObject({ deleted: 2, rewritten: 3, dryRun: true })
+    expect(await repository.query({ pk: SITE })).toHaveLength(6)
+  })
+})
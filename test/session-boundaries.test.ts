@@ -0,0 +1,108 @@
+/**
+ * Session boundary tests
+ * Tests the inactivity, midnight, campaign and referrer rules and derived session IDs
+ */
+
+import { describe, expect, it } from 'bun:test'
+import { deriveSessionId, getLocalDate, getSessionBoundary, isSessionBoundaryType } from '../src/utils/session-boundaries'
+
+const rules = {
+  inactivityTimeoutMinutes: 30,
+  splitAtMidnight: false,
+  splitOnCampaignChange: true,
+  splitOnReferrerChange: true,
+}
+
+const session = {
+  startedAt: '2024-01-15T22:00:00.000Z',
+  endedAt: '2024-01-15T22:10:00.000Z',
+  referrerSource: 'google',
+}
+
+function hit(minutesAfterLastHit: number, fields: Record<string, any> = {}) {
+  return {
+    timestamp: new Date(new Date(session.endedAt).getTime() + minutesAfterLastHit * 60 * 1000),
+    type: 'pageview',
+    hostname: 'example.com',
+    ...fields,
+  }
+}
+
+// ============================================================================
+// Boundaries
+// ============================================================================
+
+describe('getSessionBoundary', () => {
+  it('should split after the inactivity timeout', () => {
+    expect(getSessionBoundary(session, hit(29), rules)).toBeNull()
+    expect(getSessionBoundary(session, hit(31, { type: 'event' }), rules)).toBe('inactivity')
+  })
+
+  it('should never split on backfilled hits', () => {
+    expect(getSessionBoundary(session, hit(-600), rules)).toBeNull()
+  })
+
+  it('should split at midnight in the site timezone when enabled', () => {
+    const midnight = { ...rules, splitAtMidnight: true, inactivityTimeoutMinutes: 180 }
+
+    // 00:05 UTC is still the afternoon before in Los Angeles
+    expect(getSessionBoundary(session, hit(115, { type: 'event' }), { ...midnight, timezone: 'UTC' })).toBe('midnight')
+    expect(getSessionBoundary(session, hit(115), { ...midnight, timezone: 'America/Los_Angeles' })).toBeNull()
+    expect(getSessionBoundary(session, hit(115), { ...rules, inactivityTimeoutMinutes: 180 })).toBeNull()
+  })
+
+  it('should split when a pageview brings a different campaign', () => {
+    const campaign = { ...session, utmSource: 'newsletter', utmCampaign: 'spring' }
+
+    expect(getSessionBoundary(campaign, hit(1, { utmSource: 'newsletter', utmCampaign: 'spring' }), rules)).toBeNull()
+    expect(getSessionBoundary(campaign, hit(1, { utmSource: 'newsletter', utmCampaign: 'summer' }), rules)).toBe('campaign')
+    expect(getSessionBoundary(campaign, hit(1, { utmCampaign: 'summer', type: 'event' }), rules)).toBeNull()
+    expect(getSessionBoundary(campaign, hit(1, { utmCampaign: 'summer' }), { ...rules, splitOnCampaignChange: false })).toBeNull()
+  })
+
+  it('should split on a different external referrer but not on internal navigation', () => {
+    expect(getSessionBoundary(session, hit(1, { referrer: 'https://www.google.com/', referrerSource: 'google' }), rules)).toBeNull()
+    expect(getSessionBoundary(session, hit(1, { referrer: 'https://example.com/a', referrerSource: 'example.com' }), rules)).toBeNull()
+    expect(getSessionBoundary(session, hit(1, { referrerSource: 'direct' }), rules)).toBeNull()
+    expect(getSessionBoundary(session, hit(1, { referrer: 'https://news.ycombinator.com/', referrerSource: 'news.ycombinator.com' }), rules)).toBe('referrer')
+  })
+
+  // The direct path and the SQS consumer both gate on isSessionBoundaryType
+  // before calling getSessionBoundary, so these cases cover both
+  it.each([
+    ['pageview', 'inactivity'],
+    ['event', 'inactivity'],
+    ['outbound', 'inactivity'],
+    ['ecommerce', 'inactivity'],
+    ['pageleave', null],
+    ['hm_click', null],
+    ['hm_scroll', null],
+    ['vitals', null],
+    ['error', null],
+  ])('should decide %s hits the same way on every write path', (type, expected) => {
+    expect(isSessionBoundaryType(type)).toBe(expected !== null)
+    expect(getSessionBoundary(session, hit(31, { type }), rules)).toBe(expected as any)
+  })
+})
+
+// ============================================================================
+// Helpers
+// ============================================================================
+
+describe('deriveSessionId', () => {
+  it('should derive a stable ID from the client ID and start time', () => {
+    const startedAt = new Date('2024-01-16T00:05:00.000Z')
+
+    expect(deriveSessionId('abc', startedAt)).toBe(deriveSessionId('abc', new Date(startedAt)))
+    expect(deriveSessionId('abc', startedAt)).toMatch(/^abc\.[0-9a-z]+$/)
+  })
+})
+
+describe('getLocalDate', () => {
+  it('should use the timezone and fall back to UTC for unknown zones', () => {
+    const date = new Date('2024-01-16T03:00:00.000Z')
+
+    expect(getLocalDate(date, 'America/New_York')).toBe('2024-01-15')
+    expect(getLocalDate(date, 'Not/AZone')).toBe('2024-01-16')
+  })
+})
@@ -0,0 +1,60 @@
+/**
+ * Site ingestion policy tests
+ * Tests domain matching and the foreign-hostname decision
+ */
+
+import { describe, expect, it } from 'bun:test'
+import { hostnameMatchesDomain, isForeignHostname, normalizeDomain, normalizeSitePolicy } from '../src/utils/site-policy'
+
+const defaults = { mode: 'open' as const, foreignHostnames: 'reject' as const }
+
+// ============================================================================
+// Domain Matching
+// ============================================================================
+
+describe('hostnameMatchesDomain', () => {
+  it('should match the apex domain and its www host', () => {
+    expect(hostnameMatchesDomain('example.com', 'example.com')).toBe(true)
+    expect(hostnameMatchesDomain('WWW.Example.com', 'example.com')).toBe(true)
+    expect(hostnameMatchesDomain('blog.example.com', 'example.com')).toBe(false)
+    expect(hostnameMatchesDomain('notexample.com', 'example.com')).toBe(false)
+  })
+
+  it('should match subdomains with a wildcard, but not the apex', () => {
+    expect(hostnameMatchesDomain('blog.example.com', '*.example.com')).toBe(true)
+    expect(hostnameMatchesDomain('a.b.example.com', '*.example.com')).toBe(true)
+    expect(hostnameMatchesDomain('example.com', '*.example.com')).toBe(false)
+    expect(hostnameMatchesDomain('badexample.com', '*.example.com')).toBe(false)
+  })
+
+  it('should normalize configured domains', () => {
+    expect(normalizeDomain(' https://Example.com:8080/path ')).toBe('example.com')
+    expect(hostnameMatchesDomain('example.com', 'https://example.com/')).toBe(true)
+  })
+})
+
+// ============================================================================
+// Policy
+// ============================================================================
+
+describe('isForeignHostname', () => {
+  it('should accept any hostname for open sites or sites without domains', () => {
+    expect(isForeignHostname({ mode: 'open', foreignHostnames: 'reject' }, ['example.com'], 'copycat.example')).toBe(false)
+    expect(isForeignHostname({ mode: 'allowlist', foreignHostnames: 'reject' }, [], 'copycat.example')).toBe(false)
+  })
+
+  it('should flag hostnames outside the allowlist', () => {
+    const policy = { mode: 'allowlist' as const, foreignHostnames: 'tag' as const }
+
+    expect(isForeignHostname(policy, ['example.com', '*.example.org'], 'www.example.com')).toBe(false)
+    expect(isForeignHostname(policy, ['example.com', '*.example.org'], 'docs.example.org')).toBe(false)
+    expect(isForeignHostname(policy, ['example.com', '*.example.org'], 'localhost')).toBe(true)
+  })
+})
+
+describe('normalizeSitePolicy', () => {
+  it('should fall back to the defaults for missing or invalid fields', () => {
+    expect(normalizeSitePolicy(undefined, defaults)).toEqual(defaults)
+    expect(normalizeSitePolicy({ mode: 'closed', foreignHostnames: 'drop' }, defaults)).toEqual({ mode: 'closed', foreignHostnames: 'reject' })
+  })
+})
@@ -0,0 +1,124 @@
+/**
+ * SQLite storage tests
+ * Tests schema migrations, table routing and the repository operations against an in-memory database
+ */
+
+import { Database } from 'bun:sqlite'
+import { beforeEach, describe, expect, it } from 'bun:test'
+import { migrateSQLiteSchema, SQLITE_MIGRATIONS, SQLiteAnalyticsRepository } from '../src/sqlite-storage'
+
+const SITE = 'SITE#site-1'
+
+let db: Database
+let repository: SQLiteAnalyticsRepository
+
+beforeEach(() => {
+  db = new Database(':memory:')
+  repository = new SQLiteAnalyticsRepository(db)
+})
+
+function count(table: string): number {
+  return (db.query(`SELECT COUNT(*) AS count FROM ${table}`).get() as { count: number }).count
+}
+
+// ============================================================================
+// Schema
+// ============================================================================
+
+describe('migrateSQLiteSchema', () => {
+  it('should apply each migration once', () => {
+    const fresh = new Database(':memory:')
+
+    expect(migrateSQLiteSchema(fresh)).toEqual(SQLITE_MIGRATIONS.map(migration => migration.version))
+    expect(migrateSQLiteSchema(fresh)).toEqual([])
+  })
+
+  it('should apply migrations added later', () => {
+    const added = { version: 99, name: 'add_pageview_title', statements: ['ALTER TABLE pageviews ADD COLUMN title TEXT'] }
+
+    expect(migrateSQLiteSchema(db, [...SQLITE_MIGRATIONS, added])).toEqual([99])
+    expect(db.query('SELECT name FROM schema_migrations WHERE version = 99').get()).toEqual({ name: 'add_pageview_title' })
+  })
+})
+
+// ============================================================================
+// Repository
+// ============================================================================
+
+describe('SQLiteAnalyticsRepository', () => {
+  it('should store items in the table of their kind', async () => {
+    await repository.put({ pk: SITE, sk: 'PAGEVIEW#2024-01-15T10:00:00.000Z#a', siteId: 'site-1', path: '/' })
+    await repository.put({ pk: SITE, sk: 'HMSCROLL#s1#%2F', siteId: 'site-1' })
+    await repository.put({ pk: 'SITES', sk: 'SITE#site-1', name: 'Site' })
+
+    expect([count('pageviews'), count('heatmaps'), count('items')]).toEqual([1, 1, 1])
+    expect(db.query('SELECT path FROM pageviews').get()).toEqual({ path: '/' })
+    expect(await repository.get({ pk: 'SITES', sk: 'SITE#site-1' })).toEqual({ pk: 'SITES', sk: 'SITE#site-1', name: 'Site' })
+  })
+
+  it('should query sort key ranges with filters, order and limit', async () => {
+    for (const [time, name] of [['10:00', 'click'], ['10:01', 'signup'], ['10:02', 'click'], ['10:03', 'click']]) {
+      await repository.put({ pk: SITE, sk: `EVENT#2024-01-15T${time}:00.000Z#a`, name, time })
+    }
+
+    const clicks = await repository.query({ pk: SITE, beginsWith: 'EVENT#', where: { name: 'click' }, descending: true, limit: 2 })
+    expect(clicks.map(item => item.time)).toEqual(['10:03', '10:02'])
+
+    const events = await repository.getEvents('site-1', new Date('2024-01-15T10:01:00Z'))
+    expect(events.map(item => item.time)).toEqual(['10:01', '10:02', '10:03'])
+  })
+
+  it('should merge partitions spread over several tables', async () => {
+    await repository.put({ pk: SITE, sk: 'SESSION#s1' })
+    await repository.put({ pk: SITE, sk: 'ALERT#a1' })
+    await repository.put({ pk: SITE, sk: 'GOAL#g1', isActive: true })
+
+    expect((await repository.query({ pk: SITE })).map(item => item.sk)).toEqual(['ALERT#a1', 'GOAL#g1', 'SESSION#s1'])
+    expect(await repository.query({ pk: SITE, beginsWith: 'GOAL#', where: { isActive: true } })).toHaveLength(1)
+  })
+
+  it('should query secondary indexes', async () => {
+    await repository.put({ pk: SITE, sk: 'CONVERSION#2024-01-15T10:00:00.000Z#c1', gsi1pk: `${SITE}#GOAL#g1`, gsi1sk: 'CONVERSION#2024-01-15T10:00:00.000Z' })
+    await repository.put({ pk: SITE, sk: 'CONVERSION#2024-01-15T11:00:00.000Z#c2', gsi1pk: `${SITE}#GOAL#g2`, gsi1sk: 'CONVERSION#2024-01-15T11:00:00.000Z' })
+
+    const conversions = await repository.query({ pk: `${SITE}#GOAL#g1`, index: 'gsi1', beginsWith: 'CONVERSION#' })
+    expect(conversions.map(item => item.sk)).toEqual(['CONVERSION#2024-01-15T10:00:00.000Z#c1'])
+  })
+
+  it('should honour write conditions', async () => {
+    expect(await repository.put({ pk: SITE, sk: 'ORDER#1', eventId: 'e1' }, { notExists: true })).toBe(true)
+    expect(await repository.put({ pk: SITE, sk: 'ORDER#1', eventId: 'e2' }, { notExists: true })).toBe(false)
+    expect(await repository.update({ pk: SITE, sk: 'ORDER#1' }, { set: { paid: true } }, { matches: { eventId: 'e2' } })).toBeNull()
+    expect(await repository.get({ pk: SITE, sk: 'ORDER#1' })).toEqual({ pk: SITE, sk: 'ORDER#1', eventId: 'e1' })
+
+    expect(await repository.put({ pk: SITE, sk: 'SESSION#s1', version: 3 }, { below: { version: 3 } })).toBe(true)
+    expect(await repository.put({ pk: SITE, sk: 'SESSION#s1', version: 2 }, { below: { version: 2 } })).toBe(false)
+  })
+
+  it('should increment counters and keep typed columns current', async () => {
+    const key = { pk: SITE, sk: 'ERROR_GROUP#abc' }
+    await repository.increment(key, { 'count': 1, 'environments.production': 1 }, { setIfMissing: { status: 'open' } })
+    const counters = await repository.increment(key, { 'count': 1, 'environments.production': 1 }, { addToSet: { browsers: ['Chrome'] } })
+
+    expect(counters).toEqual({ 'count': 2, 'environments.production': 2 })
+    expect(await repository.get(key)).toMatchObject({ status: 'open', environments: { production: 2 }, browsers: ['Chrome'] })
+    expect(db.query('SELECT count, status FROM error_groups').get()).toEqual({ count: 2, status: 'open' })
+  })
+
+  it('should find sessions by start time', async () => {
+    await repository.putBatch([
+      { pk: SITE, sk: 'SESSION#s1', startedAt: '2024-01-15T10:00:00.000Z' },
+      { pk: SITE, sk: 'SESSION#s2', startedAt: '2024-01-16T10:00:00.000Z' },
+    ])
+
+    const sessions = await repository.getSessions('site-1', new Date('2024-01-15T00:00:00Z'), new Date('2024-01-15T23:59:59Z'))
+    expect(sessions.map(session => session.sk)).toEqual(['SESSION#s1'])
+  })
+
+  it('should delete items', async () => {
+    await repository.put({ pk: SITE, sk: 'GOAL#g1' })
+    await repository.delete({ pk: SITE, sk: 'GOAL#g1' })
+
+    expect(await repository.get({ pk: SITE, sk: 'GOAL#g1' })).toBeNull()
+  })
+})
@@ -0,0 +1,155 @@
+/**
+ * Write coalescing tests
+ * Tests merged counter deltas, their flushes and retries against the in-memory backend
+ */
+
+import type { CounterDelta, CounterKey } from '../src/sqs-buffering'
+import { beforeEach, describe, expect, it } from 'bun:test'
+import { MemoryAnalyticsRepository } from '../src/repository'
+import { CounterCoalescer, getRealtimeCounter, mergeCounterDeltas, WriteCoalescer } from '../src/sqs-buffering'
+
+const MINUTE = new Date('2024-01-15T10:00:30.000Z')
+
+let repository: MemoryAnalyticsRepository
+let writes: number
+
+beforeEach(() => {
+  repository = new MemoryAnalyticsRepository()
+  writes = 0
+})
+
+function sleep(ms: number): Promise<void> {
+  return new Promise(resolve => setTimeout(resolve, ms))
+}
+
+async function write(key: CounterKey, delta: CounterDelta): Promise<void> {
+  writes++
+  await repository.update(key, delta)
+}
+
+function hits(): Array<{ key: CounterKey, delta: CounterDelta }> {
+  return [
+    getRealtimeCounter('site-1', MINUTE, { pageViews: 1 }, 'v1'),
+    getRealtimeCounter('site-1', MINUTE, { pageViews: 1 }, 'v2'),
+    getRealtimeCounter('site-1', MINUTE, { events: 1 }, 'v1'),
+    getRealtimeCounter('site-1', MINUTE, { 'conversions': 1, 'goal_g1': 1 }, 'v2'),
+    getRealtimeCounter('site-2', MINUTE, { pageViews: 1 }, 'v3'),
+    getRealtimeCounter('site-1', new Date('2024-01-15T10:01:00.000Z'), { pageViews: 1 }, 'v1'),
+  ]
+}
+
+// ============================================================================
+// Counter Deltas
+// ============================================================================
+
+describe('mergeCounterDeltas', () => {
+  it('should add counters, join sets and keep the first creation attributes', () => {
+    expect(mergeCounterDeltas(
+      { increment: { pageViews: 1 }, addToSet: { visitorIds: ['v1'] }, setIfMissing: { ttl: 1 } },
+      { increment: { pageViews: 2, events: 1 }, addToSet: { visitorIds: ['v1', 'v2'] }, setIfMissing: { ttl: 2 } },
+    )).toEqual({ increment: { pageViews: 3, events: 1 }, addToSet: { visitorIds: ['v1', 'v2'] }, setIfMissing: { ttl: 1 } })
+  })
+})
+
+// ============================================================================
+// Counter Coalescer
+// ============================================================================
+
+describe('CounterCoalescer', () => {
+  it('should write the same counters as uncoalesced updates in one write per item', async () => {
+    const coalescer = new CounterCoalescer({ windowMs: 60_000, onWrite: write })
+    for (const { key, delta } of [...hits(), ...hits()]) {
+      await coalescer.add(key, delta)
+    }
+    expect(coalescer.size).toBe(3)
+    await coalescer.flush()
+
+    const coalesced = await repository.query({ pk: 'SITE#site-1' })
+    expect(writes).toBe(3)
+
+    repository = new MemoryAnalyticsRepository()
+    for (const { key, delta } of [...hits(), ...hits()]) {
+      await repository.update(key, delta)
+    }
+
+    expect(coalesced).toEqual(await repository.query({ pk: 'SITE#site-1' }))
+    expect(coalesced[0]).toMatchObject({ sk: 'REALTIME#2024-01-15T10:00', pageViews: 4, events: 2, conversions: 2, goal_g1: 2, visitorIds: ['v1', 'v2'] })
+  })
+
+  it('should write merged deltas when the window of the first ends', async () => {
+    const coalescer = new CounterCoalescer({ windowMs: 20, onWrite: write })
+    const { key, delta } = hits()[0]
+
+    await coalescer.add(key, delta)
+    await sleep(10)
+    await coalescer.add(key, delta)
+    await sleep(30)
+
+    expect(writes).toBe(1)
+    expect(coalescer.size).toBe(0)
+    expect(await repository.get(key)).toMatchObject({ pageViews: 2 })
+  })
+
+  it('should queue failed deltas again and write them with the next flush', async () => {
+    let fail = true
+    const coalescer = new CounterCoalescer({
+      windowMs: 60_000,
+      onWrite: async (key, delta) => {
+        if (fail) throw new Error('Throttled')
+        await write(key, delta)
+      },
+    })
+    const { key, delta } = hits()[0]
+
+    await coalescer.add(key, delta)
+    await expect(coalescer.flush()).rejects.toThrow('1 coalesced writes failed')
+    await coalescer.add(key, delta)
+
+    fail = false
+    await coalescer.flush()
+
+    expect(writes).toBe(1)
+    expect(await repository.get(key)).toMatchObject({ pageViews: 2 })
+  })
+
+  it('should wait for writes already on their way when flushing', async () => {
+    const coalescer = new CounterCoalescer({
+      windowMs: 1,
+      onWrite: async (key, delta) => {
+        await sleep(20)
+        await write(key, delta)
+      },
+    })
+    const { key, delta } = hits()[0]
+
+    await coalescer.add(key, delta)
+    await sleep(5)
+    await coalescer.flush()
+
+    expect(await repository.get(key)).toMatchObject({ pageViews: 1 })
+  })
+
+  it('should write other keys, or every key when disabled, right away', async () => {
+    const coalescer = new CounterCoalescer({ windowMs: 60_000, onWrite: write })
+    await coalescer.add({ pk: 'SITE#site-1', sk: 'BOTSTATS#2024-01-15#ua#curl' }, { increment: { hits: 1 } })
+
+    const disabled = new CounterCoalescer({ enabled: false, onWrite: write })
+    await disabled.add(hits()[0].key, hits()[0].delta)
+
+    expect(writes).toBe(2)
+    expect(coalescer.size + disabled.size).toBe(0)
+  })
+})
+
+describe('WriteCoalescer', () => {
+  it('should replace pending writes without a merge', async () => {
+    const written: Array<[string, number]> = []
+    const coalescer = new WriteCoalescer<number>({ windowMs: 60_000, onWrite: async (key, value) => { written.push([key, value]) } })
+
+    coalescer.write('a', 1)
+    coalescer.write('a', 2)
+    await coalescer.flush()
+
+    expect(written).toEqual([['a', 2]])
+  })
+})